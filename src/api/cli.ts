@@ -5,8 +5,17 @@
  */
 
 import { Command } from 'commander';
-import { ApiServer } from './index.js';
+
 import { logger } from '../cli/utils/logger.js';
+import { AppDataSource } from '../database/dataSource.js';
+
+import {
+  API_SCOPES,
+  ApiKeyService,
+  type ApiScope,
+} from './services/ApiKeyService.js';
+
+import { ApiServer } from './index.js';
 
 /**
  * Create API server command
@@ -26,7 +35,17 @@ export const createApiCommand = (): Command => {
       'allowed CORS origins (comma-separated)',
       'http://localhost:3000'
     )
-    .option('--api-key <key>', 'API key for authentication (optional)')
+    .option(
+      '--database <file>',
+      'SQLite file for jobs, batches and statistics (default: data/flowise-api.sqlite)'
+    )
+    .option('--workers <count>', 'jobs run at the same time', '2')
+    .option('--job-timeout <seconds>', 'time limit of each job attempt', '300')
+    .option('--job-attempts <count>', 'attempts before a job is dead', '3')
+    .option(
+      '--api-key <key>',
+      'root API key, with every scope and access to all tenants (optional)'
+    )
     .option('--verbose', 'enable verbose logging')
     .option('--silent', 'suppress all output except errors')
     .action(async (options) => {
@@ -63,6 +82,15 @@ export const createApiCommand = (): Command => {
             windowMs: 15 * 60 * 1000, // 15 minutes
             max: parseInt(options.rateLimit, 10),
           },
+          database: {
+            type: 'sqlite' as const,
+            database: options.database,
+          },
+          jobs: {
+            concurrency: parseInt(options.workers, 10),
+            timeoutMs: parseInt(options.jobTimeout, 10) * 1000,
+            maxAttempts: parseInt(options.jobAttempts, 10),
+          },
         };
 
         logger.info('Starting API server...', { config });
@@ -97,9 +125,71 @@ export const createApiCommand = (): Command => {
       }
     });
 
+  apiCommand.addCommand(createApiKeysCommand());
+
   return apiCommand;
 };
 
+/**
+ * Create the command issuing API keys straight into the server's database,
+ * which is how the first key is set up without a root key
+ */
+export const createApiKeysCommand = (): Command => {
+  const keysCommand = new Command('keys').description('Manage API keys');
+
+  keysCommand
+    .command('create')
+    .description('Issue an API key; its secret is only shown once')
+    .requiredOption('--tenant <id>', 'tenant the key belongs to')
+    .requiredOption('--name <name>', 'name of the key')
+    .option(
+      '--scopes <scopes>',
+      `comma-separated scopes (${API_SCOPES.join(', ')})`,
+      'admin'
+    )
+    .option('--rate-limit <requests>', 'requests a minute')
+    .option('--daily-quota <requests>', 'requests a UTC day')
+    .option(
+      '--database <file>',
+      'SQLite file of the API server (default: data/flowise-api.sqlite)'
+    )
+    .action(async (options) => {
+      const dataSource = AppDataSource.getInstance({
+        type: 'sqlite',
+        database: options.database,
+      });
+
+      try {
+        await dataSource.initialize();
+        const { key, secret } = new ApiKeyService(dataSource, '').createKey({
+          tenantId: options.tenant,
+          name: options.name,
+          scopes: options.scopes
+            .split(',')
+            .map((scope: string) => scope.trim()) as ApiScope[],
+          rateLimit: options.rateLimit ? Number(options.rateLimit) : undefined,
+          dailyQuota: options.dailyQuota
+            ? Number(options.dailyQuota)
+            : undefined,
+        });
+
+        console.log(
+          `Issued ${key.id} (${key.scopes.join(', ')}) for tenant ${key.tenantId}`
+        );
+        console.log(`Secret, shown only this once: ${secret}`);
+      } catch (error) {
+        logger.error(
+          `Failed to issue API key: ${error instanceof Error ? error.message : error}`
+        );
+        process.exitCode = 1;
+      } finally {
+        await dataSource.destroy();
+      }
+    });
+
+  return keysCommand;
+};
+
 /**
  * Add API command to existing CLI
  */
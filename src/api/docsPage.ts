@@ -0,0 +1,87 @@
+/**
+ * API Docs Page
+ *
+ * A self-contained HTML page listing the operations of the OpenAPI spec at
+ * ./openapi.json, so the documentation works without any CDN or bundler.
+ */
+
+export const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Flowise to LangChain API</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem 2rem; color: #1f2328; }
+  h2 { border-bottom: 1px solid #d0d7de; padding-bottom: .25rem; text-transform: capitalize; }
+  details { border: 1px solid #d0d7de; border-radius: 6px; margin: .5rem 0; }
+  summary { cursor: pointer; padding: .5rem; }
+  .method { display: inline-block; width: 4.5rem; font-weight: 600; text-transform: uppercase; }
+  .get { color: #0969da; } .post { color: #1a7f37; } .put { color: #9a6700; } .delete { color: #cf222e; }
+  .path { font-family: ui-monospace, monospace; }
+  .scope { float: right; font-size: .85em; color: #656d76; }
+  .body { padding: 0 1rem 1rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d0d7de; padding: .25rem .5rem; text-align: left; }
+  pre { background: #f6f8fa; padding: .5rem; overflow: auto; }
+</style>
+</head>
+<body>
+<h1>Flowise to LangChain API</h1>
+<p>Send your API key in the <code>x-api-key</code> header. The spec is also available as <a href="openapi.json">openapi.json</a>.</p>
+<div id="operations">Loading…</div>
+<script>
+  const element = (tag, attributes = {}, ...children) => {
+    const node = document.createElement(tag);
+    Object.assign(node, attributes);
+    node.append(...children);
+    return node;
+  };
+  const json = (value) => element('pre', { textContent: JSON.stringify(value, null, 2) });
+
+  fetch('openapi.json')
+    .then((response) => response.json())
+    .then((spec) => {
+      const root = document.getElementById('operations');
+      root.textContent = '';
+      for (const { name } of spec.tags) {
+        root.append(element('h2', { textContent: name }));
+        for (const [path, operations] of Object.entries(spec.paths)) {
+          for (const [method, operation] of Object.entries(operations)) {
+            if (!operation.tags.includes(name)) continue;
+            const scopes = operation.security[0].apiKey;
+            const body = element('div', { className: 'body' });
+            if (operation.parameters) {
+              body.append(element('h4', { textContent: 'Parameters' }), element('table', {},
+                element('tr', {}, ...['Name', 'In', 'Required', 'Schema'].map((text) => element('th', { textContent: text }))),
+                ...operation.parameters.map((parameter) => element('tr', {},
+                  element('td', { textContent: parameter.name }),
+                  element('td', { textContent: parameter.in }),
+                  element('td', { textContent: parameter.required ? 'yes' : 'no' }),
+                  element('td', {}, json(parameter.schema))))));
+            }
+            if (operation.requestBody) {
+              for (const [type, content] of Object.entries(operation.requestBody.content)) {
+                body.append(element('h4', { textContent: 'Body (' + type + ')' }), json(content.schema));
+              }
+            }
+            body.append(element('p', { textContent: 'Responses: ' + Object.keys(operation.responses).join(', ') }));
+            root.append(element('details', {},
+              element('summary', {},
+                element('span', { className: 'method ' + method, textContent: method }),
+                element('span', { className: 'path', textContent: path }),
+                ' ',
+                operation.summary ?? '',
+                element('span', { className: 'scope', textContent: scopes.length ? 'scope: ' + scopes.join(', ') : '' })),
+              body));
+          }
+        }
+      }
+    })
+    .catch((error) => {
+      document.getElementById('operations').textContent = 'Could not load the API spec: ' + error;
+    });
+</script>
+</body>
+</html>
+`;
@@ -13,12 +13,18 @@ import multer from 'multer';
 import { resolve, join } from 'path';
 import { tmpdir } from 'os';
 import { randomUUID } from 'crypto';
+import { AppDataSource } from '../database/dataSource.js';
 import { ConversionService } from './services/conversion.js';
+import { ApiKeyService } from './services/ApiKeyService.js';
+import { JobQueue } from './services/JobQueue.js';
+import { runJob } from './services/jobRunner.js';
+import { JobService } from './services/JobService.js';
 import { ValidationService } from './services/validation.js';
 import { TestService } from './services/test.js';
 import { UploadService } from './services/upload.js';
 import { WebSocketService } from './services/websocket.js';
-import { apiRouter } from './routes/index.js';
+import { apiRouter, docsRouter } from './routes/index.js';
+import { apiKeyAuth, verifyWebSocketClient } from './middleware/auth.js';
 import { errorHandler } from './middleware/error.js';
 import { logger } from './middleware/logger.js';
 import { rateLimit } from './middleware/rateLimit.js';
@@ -63,12 +69,21 @@ export class ApiServer {
   private uploadService: UploadService;
   private websocketService: WebSocketService;
   private upload: multer.Multer;
+  private dataSource: AppDataSource;
+  private jobQueue: JobQueue;
+  private jobService: JobService;
+  private apiKeyService: ApiKeyService;
 
   constructor(config: Partial<ApiConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.dataSource = AppDataSource.getInstance(this.config.database);
     this.app = express();
     this.server = createServer(this.app);
-    this.wss = new WebSocketServer({ server: this.server });
+    this.apiKeyService = new ApiKeyService(this.dataSource);
+    this.wss = new WebSocketServer({
+      server: this.server,
+      verifyClient: verifyWebSocketClient(this.apiKeyService),
+    });
 
     // Initialize services
     this.conversionService = new ConversionService();
@@ -77,8 +92,12 @@ export class ApiServer {
     this.uploadService = new UploadService(this.config.upload);
     this.websocketService = new WebSocketService(
       this.wss,
-      this.config.websocket
+      this.config.websocket,
+      (jobId, tenantId) =>
+        this.conversionService.getJobStatus(jobId, tenantId) !== null
     );
+    this.jobQueue = new JobQueue(runJob, this.config.jobs, this.dataSource);
+    this.jobService = new JobService(this.dataSource, this.jobQueue);
 
     // Setup multer for file uploads
     this.upload = multer({
@@ -142,13 +161,28 @@ export class ApiServer {
       test: this.testService,
       upload: this.uploadService,
       websocket: this.websocketService,
+      jobs: this.jobService,
+      apiKeys: this.apiKeyService,
     };
 
     // Make upload middleware available
     this.app.locals.upload = this.upload;
 
-    // Mount API routes
-    this.app.use('/api', apiRouter);
+    // The API spec and documentation page are public
+    this.app.use('/api', docsRouter);
+
+    // Mount API routes behind API keys, with each key's own rate limit
+    this.app.use(
+      '/api',
+      apiKeyAuth(this.apiKeyService),
+      rateLimit({
+        windowMs: 60 * 1000,
+        max: (req) => req.apiKey?.rateLimit,
+        keyGenerator: (req) => req.apiKey!.id,
+        message: 'Too many requests for this API key, please try again later.',
+      }),
+      apiRouter
+    );
 
     // Serve static files for documentation
     this.app.use('/docs', express.static(resolve(process.cwd(), 'docs')));
@@ -187,6 +221,10 @@ export class ApiServer {
    * Start the API server
    */
   public async start(): Promise<void> {
+    // Open the database and apply migrations before taking requests
+    await this.dataSource.initialize();
+    this.jobQueue.start();
+
     return new Promise((resolve, reject) => {
       this.server.listen(this.config.port, this.config.host, () => {
         console.log(
@@ -194,6 +232,11 @@ export class ApiServer {
         );
         console.log(`📡 WebSocket server ready for connections`);
         console.log(`📁 Upload directory: ${this.config.upload.tempDir}`);
+        console.log(`🗄️  Database: ${this.dataSource.getPath()}`);
+        console.log(`⚙️  Job workers: ${this.jobQueue.options.concurrency}`);
+        console.log(
+          `🔑 API keys: ${this.apiKeyService.isEnabled() ? 'required' : 'not set up, API is open'}`
+        );
         console.log(
           `🔗 API Documentation: http://${this.config.host}:${this.config.port}/docs`
         );
@@ -211,11 +254,16 @@ export class ApiServer {
    * Stop the API server
    */
   public async stop(): Promise<void> {
+    // Running jobs are queued again for the next start
+    await this.jobQueue.stop();
+
     return new Promise((resolve) => {
       this.wss.close(() => {
         this.server.close(() => {
-          console.log('✅ API Server stopped');
-          resolve();
+          this.dataSource.destroy().then(() => {
+            console.log('✅ API Server stopped');
+            resolve();
+          });
         });
       });
     });
@@ -1,48 +1,150 @@
 /**
  * Authentication Middleware
  *
- * Optional authentication middleware for API security.
+ * API key authentication for multi-tenant deployments. Keys are sent in the
+ * `x-api-key` header (or the `apiKey` query parameter) and checked by the
+ * ApiKeyService; routers then ask for the scopes they need, and websocket
+ * upgrades are checked the same way. While no key has
+ * been set up, every request is let through as before, except for managing
+ * keys: the first key is issued with the root key or from the CLI.
  */
 
+import type { IncomingMessage } from 'http';
+
 import { Request, Response, NextFunction } from 'express';
+import type { VerifyClientCallbackAsync } from 'ws';
+
+import {
+  hasScope,
+  type ApiKeyService,
+  type ApiScope,
+  type AuthenticatedKey,
+} from '../services/ApiKeyService.js';
+
+declare module 'http' {
+  interface IncomingMessage {
+    /**
+     * The API key the request or websocket upgrade was made with, when keys
+     * are in use
+     */
+    apiKey?: AuthenticatedKey;
+  }
+}
 
 /**
- * Simple API key authentication
+ * Authenticate requests with an API key, and refuse them once the key's
+ * daily quota is used up
  */
-export const apiKeyAuth = (req: Request, res: Response, next: NextFunction) => {
-  const apiKey = req.headers['x-api-key'] || req.query.apiKey;
+export const apiKeyAuth =
+  (apiKeys: ApiKeyService) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!apiKeys.isEnabled()) {
+      return next();
+    }
 
-  // If no API key is configured, skip authentication
-  if (!process.env.API_KEY) {
-    return next();
-  }
+    const secret = req.headers['x-api-key'] || req.query.apiKey;
+    const key =
+      typeof secret === 'string' ? apiKeys.authenticate(secret) : undefined;
+    if (!key) {
+      return res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Invalid or missing API key',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const usage = apiKeys.recordRequest(key);
+    if (usage.quota !== undefined) {
+      res.set({
+        'X-Quota-Limit': usage.quota.toString(),
+        'X-Quota-Remaining': Math.max(0, usage.quota - usage.used).toString(),
+      });
+    }
+    if (!usage.allowed) {
+      return res.status(429).json({
+        success: false,
+        error: 'Quota exceeded',
+        message: `This API key has used its ${usage.quota} requests for today`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    req.apiKey = key;
+    next();
+  };
 
-  // Check if API key matches
-  if (apiKey !== process.env.API_KEY) {
+/**
+ * Accept a websocket upgrade only with an API key, sent like a request's,
+ * that is within its daily quota; the connection keeps the key so it only
+ * follows the jobs of its tenant
+ */
+export const verifyWebSocketClient =
+  (apiKeys: ApiKeyService): VerifyClientCallbackAsync<IncomingMessage> =>
+  ({ req }, done) => {
+    if (!apiKeys.isEnabled()) {
+      return done(true);
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const secret = req.headers['x-api-key'] || url.searchParams.get('apiKey');
+    const key =
+      typeof secret === 'string' ? apiKeys.authenticate(secret) : undefined;
+    if (!key) {
+      return done(false, 401, 'Invalid or missing API key');
+    }
+    if (!apiKeys.recordRequest(key).allowed) {
+      return done(false, 429, 'Quota exceeded');
+    }
+
+    req.apiKey = key;
+    done(true);
+  };
+
+/**
+ * Let a request through only if it was made with an API key, even while the
+ * API is open, so whoever reaches a fresh server first cannot take it over
+ */
+export const requireApiKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.apiKey) {
     return res.status(401).json({
       success: false,
       error: 'Unauthorized',
-      message: 'Invalid or missing API key',
+      message:
+        'An API key is required: use the root key, or issue the first key with `flowise-to-lc api keys create`',
       timestamp: new Date().toISOString(),
     });
   }
-
-  next();
+  return next();
 };
 
 /**
- * Optional authentication - only authenticate if API key is configured
+ * Let a request through only if its key has `scope`; the scope stays
+ * readable on the middleware for the API documentation
  */
-export const optionalAuth = (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  // If API key is configured, require authentication
-  if (process.env.API_KEY) {
-    return apiKeyAuth(req, res, next);
-  }
+export const requireScope = (scope: ApiScope) =>
+  Object.assign(
+    (req: Request, res: Response, next: NextFunction) => {
+      if (req.apiKey && !hasScope(req.apiKey, scope)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Forbidden',
+          message: `This API key does not have the '${scope}' scope`,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      return next();
+    },
+    { scope }
+  );
 
-  // Otherwise, skip authentication
-  next();
-};
+/**
+ * Tenant whose records a request may see; undefined when keys are not in
+ * use, or for the root key, which sees every tenant
+ */
+export const tenantOf = (req: Request): string | undefined =>
+  req.apiKey?.tenantId;
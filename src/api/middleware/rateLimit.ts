@@ -1,14 +1,18 @@
 /**
  * Rate Limit Middleware
  *
- * Simple in-memory rate limiting middleware.
+ * Simple in-memory rate limiting middleware, by IP address or by any other
+ * key of a request such as its API key.
  */
 
 import { Request, Response, NextFunction } from 'express';
 
 interface RateLimitConfig {
   windowMs: number;
-  max: number;
+  /** Requests a window, or a function giving the limit of a request */
+  max: number | ((req: Request) => number | undefined);
+  /** What requests are counted by; defaults to the IP address */
+  keyGenerator?: (req: Request) => string;
   message?: string;
   standardHeaders?: boolean;
   legacyHeaders?: boolean;
@@ -29,14 +33,21 @@ export const rateLimit = (config: RateLimitConfig) => {
 
   const {
     windowMs,
-    max,
+    keyGenerator = (req: Request) =>
+      req.ip || req.connection.remoteAddress || 'unknown',
     message = 'Too many requests from this IP, please try again later.',
     standardHeaders = true,
     legacyHeaders = false,
   } = config;
 
   return (req: Request, res: Response, next: NextFunction) => {
-    const key = req.ip || req.connection.remoteAddress || 'unknown';
+    const max = typeof config.max === 'function' ? config.max(req) : config.max;
+    // Requests without a limit are not counted
+    if (max === undefined) {
+      return next();
+    }
+
+    const key = keyGenerator(req);
     const now = Date.now();
     const resetTime = now + windowMs;
 
@@ -1,17 +1,31 @@
 /**
  * Validation Middleware
  *
- * Request validation middleware using JSON Schema.
+ * Request validation middleware using JSON Schema. Every route declares its
+ * schema with validateRequest, and the OpenAPI spec of the API is generated
+ * from the same schemas.
  */
 
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 
-interface ValidationSchema {
+export interface ValidationSchema {
+  /** What the route does, shown in the API documentation */
+  summary: string;
   body?: any;
   query?: any;
   params?: any;
+  /** Media type of the body; `application/json` by default */
+  bodyType?: 'application/json' | 'multipart/form-data';
 }
 
+/**
+ * Middleware checking requests against a schema, which stays readable for
+ * generating the API documentation
+ */
+export type ValidationMiddleware = RequestHandler & {
+  schema: ValidationSchema;
+};
+
 /**
  * Simple JSON schema validation
  */
@@ -63,6 +77,15 @@ const validateSchema = (
     }
   }
 
+  // Pattern validation
+  if (
+    schema.pattern &&
+    typeof data === 'string' &&
+    !new RegExp(schema.pattern).test(data)
+  ) {
+    errors.push(`Value must match ${schema.pattern}`);
+  }
+
   // Enum validation
   if (schema.enum && !schema.enum.includes(data)) {
     errors.push(`Value must be one of: ${schema.enum.join(', ')}`);
@@ -86,8 +109,10 @@ const validateSchema = (
 /**
  * Validate request middleware
  */
-export const validateRequest = (schema: ValidationSchema) => {
-  return (req: Request, res: Response, next: NextFunction) => {
+export const validateRequest = (
+  schema: ValidationSchema
+): ValidationMiddleware => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
     const errors: string[] = [];
 
     // Validate body
@@ -127,4 +152,46 @@ export const validateRequest = (schema: ValidationSchema) => {
 
     return next();
   };
+  return Object.assign(middleware, { schema });
+};
+
+/**
+ * Path parameters of a route, all strings
+ */
+export const pathParams = (...names: string[]) => ({
+  type: 'object',
+  properties: Object.fromEntries(
+    names.map((name) => [name, { type: 'string' }])
+  ),
+  required: names,
+});
+
+/**
+ * A whole number in the query; query parameters arrive as strings, so it is
+ * checked by pattern
+ */
+export const integerQuery = (description: string) => ({
+  type: 'string',
+  pattern: '^[0-9]+$',
+  description,
+});
+
+/**
+ * Query parameters of paginated lists
+ */
+export const pageQuery = {
+  page: integerQuery('Page number, from 1'),
+  limit: integerQuery('Items per page'),
+};
+
+/**
+ * Query parameters choosing the period of records or statistics
+ */
+export const periodQuery = {
+  from: {
+    type: 'string',
+    format: 'date-time',
+    description: 'Start (ISO date)',
+  },
+  to: { type: 'string', format: 'date-time', description: 'End (ISO date)' },
 };
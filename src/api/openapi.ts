@@ -0,0 +1,246 @@
+/**
+ * OpenAPI Spec
+ *
+ * Generates the OpenAPI 3.1 spec of the API from its routers: every route
+ * declares its request schema with validateRequest and the scope it needs
+ * with requireScope, so the spec documents exactly what requests are checked
+ * against.
+ */
+
+import type { Router } from 'express';
+
+import type { ValidationSchema } from './middleware/validation.js';
+import type { ApiScope } from './services/ApiKeyService.js';
+
+/**
+ * A router mounted under /api, and the scope an API key needs for it
+ */
+export interface ApiRouterMount {
+  path: string;
+  router: Router;
+  scope?: ApiScope;
+}
+
+/**
+ * A route found in the routers, with the schema it validates requests with
+ */
+export interface ApiRoute {
+  method: string;
+  /** Path its router is mounted at */
+  mountPath: string;
+  /** Express path under /api, such as `/jobs/:jobId` */
+  path: string;
+  /** Undefined when the route does not validate its requests */
+  schema?: ValidationSchema;
+  scopes: ApiScope[];
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string; description?: string }>;
+  security: Array<Record<string, string[]>>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, any>>;
+  components: Record<string, any>;
+}
+
+/** The parts of Express router internals the routes are read from */
+interface RouterLayer {
+  handle: unknown;
+  route?: {
+    path: string | string[];
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: unknown }>;
+  };
+}
+
+const ERROR_RESPONSES = {
+  BadRequest: 'The request does not match its schema',
+  Unauthorized: 'Missing or invalid API key',
+  Forbidden: 'The API key does not have the scope of the route',
+  TooManyRequests: 'Rate limit or daily quota of the API key exceeded',
+};
+
+/**
+ * Every route of the mounted routers, in the order they are matched
+ */
+export function listRoutes(mounts: ApiRouterMount[]): ApiRoute[] {
+  return mounts.flatMap(({ path: prefix, router, scope }) => {
+    const routes: ApiRoute[] = [];
+    // Middleware used by the router applies to the routes after it
+    const scopes: ApiScope[] = scope ? [scope] : [];
+
+    for (const layer of (router as unknown as { stack: RouterLayer[] }).stack) {
+      if (!layer.route) {
+        const layerScope = scopeOf(layer.handle);
+        if (layerScope) scopes.push(layerScope);
+        continue;
+      }
+
+      const handlers = layer.route.stack.map((handler) => handler.handle);
+      const schema = handlers.map(schemaOf).find(Boolean);
+      const routeScopes = [
+        ...scopes,
+        ...handlers.map(scopeOf).filter((s): s is ApiScope => Boolean(s)),
+      ];
+      for (const path of [layer.route.path].flat()) {
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push({
+            method,
+            mountPath: prefix,
+            path: joinPaths(prefix, path),
+            schema,
+            scopes: routeScopes,
+          });
+        }
+      }
+    }
+
+    return routes;
+  });
+}
+
+/**
+ * The OpenAPI 3.1 spec of the routes of the mounted routers
+ */
+export function generateOpenApiSpec(
+  mounts: ApiRouterMount[],
+  serverUrl = '/api'
+): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  const tags = new Set<string>();
+
+  for (const route of listRoutes(mounts)) {
+    if (route.method === '_all') continue;
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    const tag = route.mountPath.replace(/^\//, '') || 'api';
+    tags.add(tag);
+    paths[path] = {
+      ...paths[path],
+      [route.method]: toOperation(route, tag),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Flowise to LangChain API',
+      version: '1.0.0',
+      description: 'API for converting Flowise flows to LangChain code',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    tags: [...tags].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'x-api-key',
+          description:
+            'Required once API keys are set up; scopes are listed per operation',
+        },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', const: false },
+            error: { type: 'string' },
+            message: { type: 'string' },
+            details: { type: 'array', items: { type: 'string' } },
+            timestamp: { type: 'string', format: 'date-time' },
+          },
+          required: ['success', 'error'],
+        },
+      },
+      responses: Object.fromEntries(
+        Object.entries(ERROR_RESPONSES).map(([name, description]) => [
+          name,
+          {
+            description,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+              },
+            },
+          },
+        ])
+      ),
+    },
+  };
+}
+
+function toOperation(route: ApiRoute, tag: string): Record<string, any> {
+  const schema = route.schema;
+  const pathNames = [...route.path.matchAll(/:(\w+)/g)].map((m) => m[1]!);
+  const parameters = [
+    ...pathNames.map((name) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: schema?.params?.properties?.[name] ?? { type: 'string' },
+    })),
+    ...Object.entries<any>(schema?.query?.properties ?? {}).map(
+      ([name, property]) => ({
+        name,
+        in: 'query',
+        required: schema?.query?.required?.includes(name) ?? false,
+        ...(property.description && { description: property.description }),
+        schema: property,
+      })
+    ),
+  ];
+  const ref = (name: keyof typeof ERROR_RESPONSES) => ({
+    $ref: `#/components/responses/${name}`,
+  });
+
+  return {
+    operationId: operationId(route),
+    summary: schema?.summary,
+    tags: [tag],
+    security: [{ apiKey: route.scopes }],
+    ...(parameters.length > 0 && { parameters }),
+    ...(schema?.body && {
+      requestBody: {
+        required: (schema.body.required ?? []).length > 0,
+        content: {
+          [schema.bodyType ?? 'application/json']: { schema: schema.body },
+        },
+      },
+    }),
+    responses: {
+      200: { description: 'Success' },
+      ...((schema?.body || schema?.query || schema?.params) && {
+        400: ref('BadRequest'),
+      }),
+      401: ref('Unauthorized'),
+      ...(route.scopes.length > 0 && { 403: ref('Forbidden') }),
+      429: ref('TooManyRequests'),
+    },
+  };
+}
+
+/** `get /jobs/:jobId/logs` becomes `getJobsJobIdLogs` */
+function operationId(route: ApiRoute): string {
+  const words = route.path
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0]!.toUpperCase() + word.slice(1));
+  return route.method + (words.join('') || 'Api');
+}
+
+function joinPaths(prefix: string, path: string): string {
+  const joined = `${prefix.replace(/\/$/, '')}${path === '/' ? '' : path}`;
+  return joined || '/';
+}
+
+function schemaOf(handler: unknown): ValidationSchema | undefined {
+  return (handler as { schema?: ValidationSchema }).schema;
+}
+
+function scopeOf(handler: unknown): ApiScope | undefined {
+  return (handler as { scope?: ApiScope }).scope;
+}
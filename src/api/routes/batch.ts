@@ -1,14 +1,84 @@
 import { Router, Request, Response } from 'express'
-import { BatchService } from '../services/BatchService'
-import { AppDataSource } from '../../database/dataSource'
+
+import { tenantOf } from '../middleware/auth.js'
+import { pageQuery, pathParams, periodQuery, validateRequest } from '../middleware/validation.js'
+import { BATCH_TYPES, BatchService } from '../services/BatchService.js'
+import { JobService } from '../services/JobService.js'
 
 const router = Router()
 
+/**
+ * GET /api/v1/batch
+ * List batch jobs
+ */
+router.get('/', validateRequest({
+    summary: 'List batches',
+    query: {
+        type: 'object',
+        properties: {
+            status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'] },
+            type: { type: 'string', enum: BATCH_TYPES },
+            ...periodQuery,
+            ...pageQuery
+        }
+    }
+}), async (req: Request, res: Response) => {
+    try {
+        const { status, type, from, to, page = 1, limit = 20 } = req.query
+        
+        const batchService = new BatchService(undefined, tenantOf(req))
+        const result = await batchService.listBatches({
+            status: status as string,
+            type: type as string,
+            from: from ? new Date(from as string) : undefined,
+            to: to ? new Date(to as string) : undefined,
+            page: Number(page),
+            limit: Number(limit)
+        })
+        
+        res.json({
+            success: true,
+            batches: result.batches,
+            pagination: {
+                page: result.page,
+                limit: result.limit,
+                total: result.total,
+                totalPages: result.totalPages
+            },
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('Batch listing error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to list batches',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
 /**
  * POST /api/v1/batch/create
  * Create a new batch job
  */
-router.post('/create', async (req: Request, res: Response): Promise<Response | void> => {
+router.post('/create', validateRequest({
+    summary: 'Store a batch of flows to convert or validate',
+    body: {
+        type: 'object',
+        properties: {
+            type: { type: 'string', enum: BATCH_TYPES },
+            data: { type: 'array', items: { oneOf: [{ type: 'string' }, { type: 'object' }] }, description: 'Flowise flows' },
+            options: {
+                type: 'object',
+                properties: {
+                    stopOnError: { type: 'boolean' },
+                    conversion: { type: 'object', description: 'Options of every conversion' }
+                }
+            }
+        },
+        required: ['type', 'data']
+    }
+}), async (req: Request, res: Response): Promise<Response | void> => {
     try {
         const { type, data, options } = req.body
         
@@ -20,7 +90,7 @@ router.post('/create', async (req: Request, res: Response): Promise<Response | v
             })
         }
         
-        const batchService = new BatchService()
+        const batchService = new BatchService(undefined, tenantOf(req))
         const result = await batchService.createBatch(type, data, options)
         
         res.json({
@@ -45,22 +115,46 @@ router.post('/create', async (req: Request, res: Response): Promise<Response | v
  * POST /api/v1/batch/execute/:batchId
  * Execute a batch job
  */
-router.post('/execute/:batchId', async (req: Request, res: Response): Promise<Response | void> => {
+router.post('/execute/:batchId', validateRequest({
+    summary: 'Run the items of a batch that have not run yet',
+    params: pathParams('batchId'),
+    body: {
+        type: 'object',
+        properties: {
+            async: { type: 'boolean', description: 'Queue a batch job instead of waiting; true by default' },
+            priority: { type: 'number' }
+        }
+    }
+}), async (req: Request, res: Response): Promise<Response | void> => {
     try {
         const { batchId } = req.params
-        const { async = true } = req.body
+        const { async = true, priority } = req.body
         
-        const batchService = new BatchService()
+        const batchService = new BatchService(undefined, tenantOf(req))
         
         if (async) {
-            // Start async execution
-            batchService.executeBatchAsync(batchId)
+            // Queue a batch job; follow it with /status/:batchId or /api/jobs/:jobId
+            if (!(await batchService.getBatch(batchId))) {
+                return res.status(404).json({
+                    success: false,
+                    error: 'Batch not found',
+                    timestamp: new Date().toISOString()
+                })
+            }
+            const jobService = (req.app.locals.services.jobs as JobService).forTenant(tenantOf(req))
+            const job = await jobService.createJob({
+                type: 'batch',
+                name: `Batch ${batchId}`,
+                config: { batchId },
+                priority
+            })
             
             res.json({
                 success: true,
                 batchId,
-                status: 'processing',
-                message: 'Batch execution started',
+                jobId: job.id,
+                status: 'pending',
+                message: 'Batch execution queued',
                 timestamp: new Date().toISOString()
             })
         } else {
@@ -91,11 +185,14 @@ router.post('/execute/:batchId', async (req: Request, res: Response): Promise<Re
  * GET /api/v1/batch/status/:batchId
  * Get batch job status
  */
-router.get('/status/:batchId', async (req: Request, res: Response): Promise<Response | void> => {
+router.get('/status/:batchId', validateRequest({
+    summary: 'Get the progress of a batch',
+    params: pathParams('batchId')
+}), async (req: Request, res: Response): Promise<Response | void> => {
     try {
         const { batchId } = req.params
         
-        const batchService = new BatchService()
+        const batchService = new BatchService(undefined, tenantOf(req))
         const result = await batchService.getBatchStatus(batchId)
         
         if (!result) {
@@ -135,11 +232,14 @@ router.get('/status/:batchId', async (req: Request, res: Response): Promise<Resp
  * POST /api/v1/batch/cancel/:batchId
  * Cancel a batch job
  */
-router.post('/cancel/:batchId', async (req: Request, res: Response) => {
+router.post('/cancel/:batchId', validateRequest({
+    summary: 'Cancel a batch',
+    params: pathParams('batchId')
+}), async (req: Request, res: Response) => {
     try {
         const { batchId } = req.params
         
-        const batchService = new BatchService()
+        const batchService = new BatchService(undefined, tenantOf(req))
         const result = await batchService.cancelBatch(batchId)
         
         res.json({
@@ -163,12 +263,16 @@ router.post('/cancel/:batchId', async (req: Request, res: Response) => {
  * GET /api/v1/batch/results/:batchId
  * Get batch job results
  */
-router.get('/results/:batchId', async (req: Request, res: Response) => {
+router.get('/results/:batchId', validateRequest({
+    summary: 'Get the result of every item of a batch',
+    params: pathParams('batchId'),
+    query: { type: 'object', properties: pageQuery }
+}), async (req: Request, res: Response) => {
     try {
         const { batchId } = req.params
         const { page = 1, limit = 100 } = req.query
         
-        const batchService = new BatchService()
+        const batchService = new BatchService(undefined, tenantOf(req))
         const result = await batchService.getBatchResults(batchId, Number(page), Number(limit))
         
         res.json({
@@ -197,11 +301,14 @@ router.get('/results/:batchId', async (req: Request, res: Response) => {
  * DELETE /api/v1/batch/:batchId
  * Delete a batch job
  */
-router.delete('/:batchId', async (req: Request, res: Response) => {
+router.delete('/:batchId', validateRequest({
+    summary: 'Delete a batch and its results',
+    params: pathParams('batchId')
+}), async (req: Request, res: Response) => {
     try {
         const { batchId } = req.params
         
-        const batchService = new BatchService()
+        const batchService = new BatchService(undefined, tenantOf(req))
         const result = await batchService.deleteBatch(batchId)
         
         res.json({
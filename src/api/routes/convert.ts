@@ -9,7 +9,8 @@ import { ConvertRequest, ConvertResponse, ApiResponse } from '../types/api.js';
 import { ConversionService } from '../services/conversion.js';
 import { WebSocketService } from '../services/websocket.js';
 import { asyncHandler } from '../middleware/async.js';
-import { validateRequest } from '../middleware/validation.js';
+import { pathParams, validateRequest } from '../middleware/validation.js';
+import { tenantOf } from '../middleware/auth.js';
 import { logger } from '../../cli/utils/logger.js';
 
 export const convertRouter = Router();
@@ -21,6 +22,7 @@ export const convertRouter = Router();
 convertRouter.post(
   '/',
   validateRequest({
+    summary: 'Convert a Flowise flow to LangChain code',
     body: {
       type: 'object',
       properties: {
@@ -101,7 +103,9 @@ convertRouter.post(
       }
 
       // Start conversion
-      const result = await conversionService.convert(request);
+      const result = await conversionService.convert(request, {
+        tenantId: tenantOf(req),
+      });
 
       // Send response
       const response: ApiResponse<ConvertResponse> = {
@@ -147,6 +151,10 @@ convertRouter.post(
  */
 convertRouter.get(
   '/:jobId',
+  validateRequest({
+    summary: 'Get the status of a conversion job',
+    params: pathParams('jobId'),
+  }),
   asyncHandler(async (req, res) => {
     const { jobId } = req.params;
     const conversionService: ConversionService =
@@ -154,7 +162,7 @@ convertRouter.get(
 
     logger.info('Convert status request:', { jobId });
 
-    const jobStatus = conversionService.getJobStatus(jobId);
+    const jobStatus = conversionService.getJobStatus(jobId, tenantOf(req));
 
     if (!jobStatus) {
       return res.status(404).json({
@@ -183,6 +191,10 @@ convertRouter.get(
  */
 convertRouter.delete(
   '/:jobId',
+  validateRequest({
+    summary: 'Cancel a running conversion job',
+    params: pathParams('jobId'),
+  }),
   asyncHandler(async (req, res) => {
     const { jobId } = req.params;
     const conversionService: ConversionService =
@@ -190,7 +202,7 @@ convertRouter.delete(
 
     logger.info('Convert cancel request:', { jobId });
 
-    const cancelled = await conversionService.cancelJob(jobId);
+    const cancelled = await conversionService.cancelJob(jobId, tenantOf(req));
 
     if (!cancelled) {
       return res.status(404).json({
@@ -218,13 +230,14 @@ convertRouter.delete(
  */
 convertRouter.get(
   '/',
+  validateRequest({ summary: 'List conversion jobs, newest first' }),
   asyncHandler(async (req, res) => {
     const conversionService: ConversionService =
       req.app.locals.services.conversion;
 
     logger.info('Convert jobs list request');
 
-    const jobs = conversionService.getAllJobs();
+    const jobs = conversionService.getAllJobs(tenantOf(req));
 
     const response: ApiResponse = {
       success: true,
@@ -245,6 +258,8 @@ convertRouter.get(
 convertRouter.post(
   '/:jobId/subscribe',
   validateRequest({
+    summary: 'Stream the progress of a conversion job to a WebSocket',
+    params: pathParams('jobId'),
     body: {
       type: 'object',
       properties: {
@@ -264,7 +279,7 @@ convertRouter.post(
     logger.info('Convert subscribe request:', { jobId, connectionId });
 
     // Check if job exists
-    const jobStatus = conversionService.getJobStatus(jobId);
+    const jobStatus = conversionService.getJobStatus(jobId, tenantOf(req));
     if (!jobStatus) {
       return res.status(404).json({
         success: false,
@@ -276,7 +291,11 @@ convertRouter.post(
 
     // Check if WebSocket connection exists
     const connectionInfo = websocketService.getConnectionInfo(connectionId);
-    if (!connectionInfo) {
+    const tenantId = tenantOf(req);
+    if (
+      !connectionInfo ||
+      (tenantId !== undefined && connectionInfo.tenantId !== tenantId)
+    ) {
       return res.status(404).json({
         success: false,
         error: 'Connection not found',
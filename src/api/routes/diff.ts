@@ -0,0 +1,99 @@
+/**
+ * Diff Routes
+ *
+ * API routes for comparing two Flowise flows semantically.
+ */
+
+import { Router } from 'express';
+
+import { logger } from '../../cli/utils/logger.js';
+import {
+  DIFF_FORMATS,
+  createFlowDiffReport,
+  formatFlowDiffReport,
+  type FlowDiffReport,
+} from '../../diff/index.js';
+import { asyncHandler } from '../middleware/async.js';
+import { validateRequest } from '../middleware/validation.js';
+import { DiffRequest, DiffResponse, ApiResponse } from '../types/api.js';
+
+export const diffRouter = Router();
+
+/**
+ * POST /api/diff
+ * Compare two Flowise flows and the code generated for them
+ */
+diffRouter.post(
+  '/',
+  validateRequest({
+    summary: 'Compare two Flowise flows and the code generated for them',
+    body: {
+      type: 'object',
+      properties: {
+        before: {
+          oneOf: [{ type: 'string' }, { type: 'object' }],
+        },
+        after: {
+          oneOf: [{ type: 'string' }, { type: 'object' }],
+        },
+        options: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: DIFF_FORMATS },
+            includeCode: { type: 'boolean' },
+          },
+        },
+      },
+      required: ['before', 'after'],
+    },
+  }),
+  asyncHandler(async (req, res) => {
+    const request: DiffRequest = req.body;
+    const format = request.options?.format ?? 'text';
+
+    logger.info('Diff request received:', {
+      beforeType: typeof request.before,
+      afterType: typeof request.after,
+      options: request.options,
+    });
+
+    // Flow objects go through the parser too, so both sides are validated
+    const toJson = (flow: string | object) =>
+      typeof flow === 'string' ? flow : JSON.stringify(flow);
+
+    let diff: FlowDiffReport;
+    try {
+      diff = await createFlowDiffReport(
+        toJson(request.before),
+        toJson(request.after),
+        { includeCode: request.options?.includeCode }
+      );
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid flow',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const response: ApiResponse<DiffResponse> = {
+      success: true,
+      data: {
+        diff,
+        report: formatFlowDiffReport(diff, format),
+      },
+      message: 'Flows compared successfully',
+      timestamp: new Date().toISOString(),
+      requestId: req.headers['x-request-id'] as string,
+    };
+
+    logger.info('Diff request completed:', {
+      addedNodes: diff.changes.addedNodes.length,
+      removedNodes: diff.changes.removedNodes.length,
+      changedFiles: diff.code?.length ?? 0,
+    });
+
+    return res.json(response);
+  })
+);
@@ -2,17 +2,54 @@
  * API Routes
  *
  * This module defines all the API routes and their handlers,
- * organizing endpoints by functionality.
+ * organizing endpoints by functionality. Each router asks for the API key
+ * scope its operations need; creating a job also needs the scope of its
+ * type. The OpenAPI spec is generated from the routers listed here.
  */
 
 import { Router } from 'express';
+
+import { DOCS_PAGE } from '../docsPage.js';
+import { requireScope } from '../middleware/auth.js';
+import { validateRequest } from '../middleware/validation.js';
+import { generateOpenApiSpec, type ApiRouterMount } from '../openapi.js';
+
 import { convertRouter } from './convert.js';
+import { diffRouter } from './diff.js';
 import validateRouter from './validate.js';
 import testRouter from './test.js';
 import uploadRouter from './upload.js';
 import batchRouter from './batch.js';
 import jobRouter from './jobs.js';
 import statsRouter from './stats.js';
+import keysRouter from './keys.js';
+
+/**
+ * API information
+ */
+const infoRouter = Router();
+
+/**
+ * The OpenAPI spec and its documentation page, which hold no secrets and are
+ * mounted ahead of API key authentication so browsers can load them
+ */
+export const docsRouter = Router();
+
+/**
+ * Routers mounted under /api, with the scope an API key needs for them
+ */
+export const apiRouters: ApiRouterMount[] = [
+  { path: '/convert', router: convertRouter, scope: 'convert' },
+  { path: '/diff', router: diffRouter, scope: 'validate' },
+  { path: '/validate', router: validateRouter, scope: 'validate' },
+  { path: '/test', router: testRouter, scope: 'test' },
+  { path: '/upload', router: uploadRouter, scope: 'convert' },
+  { path: '/batch', router: batchRouter, scope: 'batch' },
+  { path: '/jobs', router: jobRouter, scope: 'jobs' },
+  { path: '/stats', router: statsRouter, scope: 'stats' },
+  { path: '/keys', router: keysRouter },
+  { path: '/', router: infoRouter },
+];
 
 /**
  * Main API router
@@ -20,465 +57,61 @@ import statsRouter from './stats.js';
 export const apiRouter = Router();
 
 // Mount sub-routers
-apiRouter.use('/convert', convertRouter);
-apiRouter.use('/validate', validateRouter);
-apiRouter.use('/test', testRouter);
-apiRouter.use('/upload', uploadRouter);
-apiRouter.use('/batch', batchRouter);
-apiRouter.use('/jobs', jobRouter);
-apiRouter.use('/stats', statsRouter);
+for (const { path, router, scope } of apiRouters) {
+  if (scope) {
+    apiRouter.use(path, requireScope(scope), router);
+  } else {
+    apiRouter.use(path, router);
+  }
+}
 
 // API info endpoint
-apiRouter.get('/', (req, res) => {
-  res.json({
-    name: 'Flowise to LangChain API',
-    version: '1.0.0',
-    description: 'API for converting Flowise flows to LangChain code',
-    endpoints: {
-      convert: '/api/convert',
-      validate: '/api/validate',
-      test: '/api/test',
-      upload: '/api/upload',
-      batch: '/api/batch',
-      jobs: '/api/jobs',
-      stats: '/api/stats',
-    },
-    documentation: '/docs',
-    websocket: '/ws',
-    health: '/health',
-  });
-});
-
-// API documentation endpoint
-apiRouter.get('/docs', (req, res) => {
-  res.json({
-    openapi: '3.0.0',
-    info: {
-      title: 'Flowise to LangChain API',
+infoRouter.get(
+  '/',
+  validateRequest({ summary: 'List the endpoints of the API' }),
+  (req, res) => {
+    res.json({
+      name: 'Flowise to LangChain API',
       version: '1.0.0',
       description: 'API for converting Flowise flows to LangChain code',
-    },
-    servers: [
-      {
-        url: `${req.protocol}://${req.get('host')}/api`,
-        description: 'Current server',
-      },
-    ],
-    paths: {
-      '/convert': {
-        post: {
-          summary: 'Convert Flowise flow to LangChain code',
-          requestBody: {
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    input: {
-                      oneOf: [
-                        {
-                          type: 'string',
-                          description: 'File path or JSON string',
-                        },
-                        { type: 'object', description: 'Flowise flow object' },
-                      ],
-                    },
-                    options: {
-                      type: 'object',
-                      properties: {
-                        format: {
-                          type: 'string',
-                          enum: ['typescript', 'javascript', 'python'],
-                        },
-                        target: {
-                          type: 'string',
-                          enum: ['node', 'browser', 'edge'],
-                        },
-                        withLangfuse: { type: 'boolean' },
-                        includeTests: { type: 'boolean' },
-                        includeDocs: { type: 'boolean' },
-                        includeComments: { type: 'boolean' },
-                        outputFormat: { type: 'string', enum: ['esm', 'cjs'] },
-                        verbose: { type: 'boolean' },
-                      },
-                    },
-                    stream: { type: 'boolean' },
-                    connectionId: { type: 'string' },
-                  },
-                  required: ['input'],
-                },
-              },
-            },
-          },
-          responses: {
-            200: {
-              description: 'Conversion successful',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          jobId: { type: 'string' },
-                          files: { type: 'array' },
-                          metrics: { type: 'object' },
-                          analysis: { type: 'object' },
-                          warnings: { type: 'array' },
-                          errors: { type: 'array' },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-      '/validate': {
-        post: {
-          summary: 'Validate Flowise flow',
-          requestBody: {
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    input: {
-                      oneOf: [
-                        {
-                          type: 'string',
-                          description: 'File path or JSON string',
-                        },
-                        { type: 'object', description: 'Flowise flow object' },
-                      ],
-                    },
-                    options: {
-                      type: 'object',
-                      properties: {
-                        strict: { type: 'boolean' },
-                        checkDeprecated: { type: 'boolean' },
-                        suggestOptimizations: { type: 'boolean' },
-                        autoFix: { type: 'boolean' },
-                      },
-                    },
-                  },
-                  required: ['input'],
-                },
-              },
-            },
-          },
-          responses: {
-            200: {
-              description: 'Validation completed',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          result: { type: 'object' },
-                          fixed: { type: 'string' },
-                          suggestions: { type: 'array' },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-      '/test': {
-        post: {
-          summary: 'Test generated code',
-          requestBody: {
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    files: {
-                      type: 'array',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          path: { type: 'string' },
-                          content: { type: 'string' },
-                          type: { type: 'string' },
-                          size: { type: 'number' },
-                          language: { type: 'string' },
-                        },
-                      },
-                    },
-                    options: {
-                      type: 'object',
-                      properties: {
-                        testType: {
-                          type: 'string',
-                          enum: ['unit', 'integration', 'e2e', 'all'],
-                        },
-                        timeout: { type: 'number' },
-                        mockExternal: { type: 'boolean' },
-                        generateReport: { type: 'boolean' },
-                        envFile: { type: 'string' },
-                      },
-                    },
-                    stream: { type: 'boolean' },
-                    connectionId: { type: 'string' },
-                  },
-                  required: ['files'],
-                },
-              },
-            },
-          },
-          responses: {
-            200: {
-              description: 'Testing completed',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          jobId: { type: 'string' },
-                          results: { type: 'object' },
-                          report: { type: 'object' },
-                          testFiles: { type: 'array' },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-      '/upload': {
-        post: {
-          summary: 'Upload Flowise flow file',
-          requestBody: {
-            content: {
-              'multipart/form-data': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    file: {
-                      type: 'string',
-                      format: 'binary',
-                    },
-                    validate: { type: 'boolean' },
-                    autoConvert: { type: 'boolean' },
-                    conversionOptions: { type: 'object' },
-                  },
-                  required: ['file'],
-                },
-              },
-            },
-          },
-          responses: {
-            200: {
-              description: 'Upload successful',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          jobId: { type: 'string' },
-                          file: { type: 'object' },
-                          validation: { type: 'object' },
-                          conversion: { type: 'object' },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
+      endpoints: {
+        convert: '/api/convert',
+        diff: '/api/diff',
+        validate: '/api/validate',
+        test: '/api/test',
+        upload: '/api/upload',
+        batch: '/api/batch',
+        jobs: '/api/jobs',
+        stats: '/api/stats',
+        keys: '/api/keys',
       },
-      '/batch': {
-        post: {
-          summary: 'Process multiple operations in batch',
-          requestBody: {
-            content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    operations: {
-                      type: 'array',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          type: {
-                            type: 'string',
-                            enum: ['convert', 'validate', 'test'],
-                          },
-                          input: { type: 'object' },
-                          options: { type: 'object' },
-                        },
-                      },
-                    },
-                    options: {
-                      type: 'object',
-                      properties: {
-                        maxConcurrency: { type: 'number' },
-                        stopOnError: { type: 'boolean' },
-                        stream: { type: 'boolean' },
-                        connectionId: { type: 'string' },
-                      },
-                    },
-                  },
-                  required: ['operations'],
-                },
-              },
-            },
-          },
-          responses: {
-            200: {
-              description: 'Batch processing initiated',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          jobId: { type: 'string' },
-                          results: { type: 'array' },
-                          metrics: { type: 'object' },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-      '/jobs/{jobId}': {
-        get: {
-          summary: 'Get job status',
-          parameters: [
-            {
-              name: 'jobId',
-              in: 'path',
-              required: true,
-              schema: { type: 'string' },
-            },
-          ],
-          responses: {
-            200: {
-              description: 'Job status retrieved',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          id: { type: 'string' },
-                          type: { type: 'string' },
-                          status: { type: 'string' },
-                          progress: { type: 'number' },
-                          createdAt: { type: 'string' },
-                          startedAt: { type: 'string' },
-                          completedAt: { type: 'string' },
-                          result: { type: 'object' },
-                          error: { type: 'object' },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-        delete: {
-          summary: 'Cancel job',
-          parameters: [
-            {
-              name: 'jobId',
-              in: 'path',
-              required: true,
-              schema: { type: 'string' },
-            },
-          ],
-          responses: {
-            200: {
-              description: 'Job cancelled',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      message: { type: 'string' },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-      '/stats': {
-        get: {
-          summary: 'Get API statistics',
-          responses: {
-            200: {
-              description: 'Statistics retrieved',
-              content: {
-                'application/json': {
-                  schema: {
-                    type: 'object',
-                    properties: {
-                      success: { type: 'boolean' },
-                      data: {
-                        type: 'object',
-                        properties: {
-                          totalRequests: { type: 'number' },
-                          activeConnections: { type: 'number' },
-                          runningJobs: { type: 'number' },
-                          completedJobs: { type: 'number' },
-                          failedJobs: { type: 'number' },
-                          avgResponseTime: { type: 'number' },
-                          memoryUsage: { type: 'object' },
-                          cpuUsage: { type: 'number' },
-                          uptime: { type: 'number' },
-                        },
-                      },
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-    },
-  });
-});
+      documentation: '/api/docs',
+      openapi: '/api/openapi.json',
+      websocket: '/ws',
+      health: '/health',
+    });
+  }
+);
+
+// OpenAPI spec, generated from the schemas the routes validate requests with
+docsRouter.get(
+  '/openapi.json',
+  validateRequest({ summary: 'Get the OpenAPI 3.1 spec of the API' }),
+  (req, res) => {
+    res.json(
+      generateOpenApiSpec(
+        apiRouters,
+        `${req.protocol}://${req.get('host')}/api`
+      )
+    );
+  }
+);
+
+// API documentation page
+docsRouter.get(
+  '/docs',
+  validateRequest({ summary: 'Browse the API documentation' }),
+  (req, res) => {
+    res.type('html').send(DOCS_PAGE);
+  }
+);
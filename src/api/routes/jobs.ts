@@ -1,16 +1,53 @@
 import { Router, Request, Response } from 'express'
-import { JobService } from '../services/JobService'
-import { AppDataSource } from '../../database/dataSource'
+
+import { requireScope, tenantOf } from '../middleware/auth.js'
+import { pageQuery, pathParams, periodQuery, validateRequest } from '../middleware/validation.js'
+import { hasScope, type ApiScope } from '../services/ApiKeyService.js'
+import { JobService } from '../services/JobService.js'
 
 const router = Router()
 
+/**
+ * Scope a key needs to create each type of job
+ */
+const JOB_SCOPES: Record<string, ApiScope> = {
+    conversion: 'convert',
+    validation: 'validate',
+    test: 'test',
+    batch: 'batch'
+}
+
+/**
+ * The job service, limited to the jobs of the request's tenant
+ */
+const jobsFor = (req: Request): JobService =>
+    (req.app.locals.services.jobs as JobService).forTenant(tenantOf(req))
+
 /**
  * POST /api/v1/jobs/create
  * Create a new job
  */
-router.post('/create', async (req: Request, res: Response): Promise<Response | void> => {
+router.post('/create', validateRequest({
+    summary: 'Queue a conversion, validation, test or batch job',
+    body: {
+        type: 'object',
+        properties: {
+            type: { type: 'string', enum: ['conversion', 'validation', 'test', 'batch'] },
+            name: { type: 'string' },
+            config: {
+                type: 'object',
+                description: 'A ConvertRequest for conversions, { input } for validations, a TestRequest for tests and { batchId } for batches'
+            },
+            schedule: { type: 'string' },
+            priority: { type: 'number', description: 'Higher runs first; 0 by default' },
+            maxAttempts: { type: 'number' },
+            timeoutMs: { type: 'number' }
+        },
+        required: ['type', 'name']
+    }
+}), async (req: Request, res: Response): Promise<Response | void> => {
     try {
-        const { type, name, config, schedule } = req.body
+        const { type, name, config, schedule, priority, maxAttempts, timeoutMs } = req.body
         
         if (!type || !name) {
             return res.status(400).json({
@@ -20,12 +57,24 @@ router.post('/create', async (req: Request, res: Response): Promise<Response | v
             })
         }
         
-        const jobService = new JobService()
+        const scope = JOB_SCOPES[type]
+        if (req.apiKey && scope && !hasScope(req.apiKey, scope)) {
+            return res.status(403).json({
+                success: false,
+                error: `This API key does not have the '${scope}' scope`,
+                timestamp: new Date().toISOString()
+            })
+        }
+        
+        const jobService = jobsFor(req)
         const result = await jobService.createJob({
             type,
             name,
             config,
-            schedule
+            schedule,
+            priority,
+            maxAttempts,
+            timeoutMs
         })
         
         res.json({
@@ -35,6 +84,9 @@ router.post('/create', async (req: Request, res: Response): Promise<Response | v
                 name: result.name,
                 type: result.type,
                 status: result.status,
+                priority: result.priority,
+                maxAttempts: result.maxAttempts,
+                timeoutMs: result.timeoutMs,
                 schedule: result.schedule,
                 nextRun: result.nextRun
             },
@@ -42,7 +94,7 @@ router.post('/create', async (req: Request, res: Response): Promise<Response | v
         })
     } catch (error) {
         console.error('Job creation error:', error)
-        res.status(500).json({
+        res.status(error instanceof RangeError ? 400 : 500).json({
             success: false,
             error: error instanceof Error ? error.message : 'Job creation failed',
             timestamp: new Date().toISOString()
@@ -54,14 +106,27 @@ router.post('/create', async (req: Request, res: Response): Promise<Response | v
  * GET /api/v1/jobs
  * List all jobs
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', validateRequest({
+    summary: 'List jobs',
+    query: {
+        type: 'object',
+        properties: {
+            status: { type: 'string', enum: ['queued', 'running', 'completed', 'cancelled', 'dead'] },
+            type: { type: 'string', enum: ['conversion', 'validation', 'test', 'batch'] },
+            ...periodQuery,
+            ...pageQuery
+        }
+    }
+}), async (req: Request, res: Response) => {
     try {
-        const { status, type, page = 1, limit = 20 } = req.query
+        const { status, type, from, to, page = 1, limit = 20 } = req.query
         
-        const jobService = new JobService()
+        const jobService = jobsFor(req)
         const result = await jobService.listJobs({
             status: status as string,
             type: type as string,
+            from: from ? new Date(from as string) : undefined,
+            to: to ? new Date(to as string) : undefined,
             page: Number(page),
             limit: Number(limit)
         })
@@ -87,15 +152,151 @@ router.get('/', async (req: Request, res: Response) => {
     }
 })
 
+/**
+ * GET /api/v1/jobs/queue
+ * Get worker and job queue statistics
+ */
+router.get('/queue', validateRequest({
+    summary: 'Get the workers of the queue and jobs by status'
+}), async (req: Request, res: Response) => {
+    try {
+        const jobService = jobsFor(req)
+        
+        res.json({
+            success: true,
+            queue: jobService.getQueueStats(),
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('Job queue stats error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get job queue stats',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * GET /api/v1/jobs/dead-letter
+ * List jobs that failed every attempt
+ */
+router.get('/dead-letter', validateRequest({
+    summary: 'List jobs that failed every attempt',
+    query: { type: 'object', properties: pageQuery }
+}), async (req: Request, res: Response) => {
+    try {
+        const { page = 1, limit = 20 } = req.query
+        
+        const jobService = jobsFor(req)
+        const result = await jobService.listDeadLetters(Number(page), Number(limit))
+        
+        res.json({
+            success: true,
+            jobs: result.jobs,
+            pagination: {
+                page: result.page,
+                limit: result.limit,
+                total: result.total,
+                totalPages: result.totalPages
+            },
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('Dead-letter listing error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to list dead jobs',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * POST /api/v1/jobs/dead-letter/:jobId/retry
+ * Queue a dead job again, with all of its attempts
+ */
+router.post('/dead-letter/:jobId/retry', validateRequest({
+    summary: 'Queue a dead job again, with all of its attempts',
+    params: pathParams('jobId')
+}), async (req: Request, res: Response) => {
+    try {
+        const { jobId } = req.params
+        
+        const jobService = jobsFor(req)
+        const result = await jobService.retryDeadLetter(jobId)
+        
+        res.status(result.success ? 200 : 409).json({
+            success: result.success,
+            job: {
+                id: result.job.id,
+                status: result.job.status,
+                attempts: result.job.attempts
+            },
+            message: result.message,
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('Dead-letter retry error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to retry job',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * DELETE /api/v1/jobs/dead-letter
+ * Delete dead jobs, or those that died before `before`
+ */
+router.delete('/dead-letter', requireScope('admin'), validateRequest({
+    summary: 'Delete dead jobs, or those that died before a date',
+    query: {
+        type: 'object',
+        properties: { before: { type: 'string', format: 'date-time' } }
+    }
+}), async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+        const before = req.query.before ? new Date(String(req.query.before)) : undefined
+        if (before && Number.isNaN(before.getTime())) {
+            return res.status(400).json({
+                success: false,
+                error: "'before' must be an ISO date",
+                timestamp: new Date().toISOString()
+            })
+        }
+        
+        const jobService = jobsFor(req)
+        const deleted = await jobService.purgeDeadLetters(before)
+        
+        res.json({
+            success: true,
+            deleted,
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('Dead-letter purge error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to delete dead jobs',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
 /**
  * GET /api/v1/jobs/:jobId
  * Get job details
  */
-router.get('/:jobId', async (req: Request, res: Response): Promise<Response | void> => {
+router.get('/:jobId', validateRequest({
+    summary: 'Get a job',
+    params: pathParams('jobId')
+}), async (req: Request, res: Response): Promise<Response | void> => {
     try {
         const { jobId } = req.params
         
-        const jobService = new JobService()
+        const jobService = jobsFor(req)
         const job = await jobService.getJob(jobId)
         
         if (!job) {
@@ -123,13 +324,16 @@ router.get('/:jobId', async (req: Request, res: Response): Promise<Response | vo
 
 /**
  * POST /api/v1/jobs/:jobId/start
- * Start a job
+ * Queue a finished, cancelled or dead job to run again
  */
-router.post('/:jobId/start', async (req: Request, res: Response) => {
+router.post('/:jobId/start', validateRequest({
+    summary: 'Queue a finished, cancelled or dead job to run again',
+    params: pathParams('jobId')
+}), async (req: Request, res: Response) => {
     try {
         const { jobId } = req.params
         
-        const jobService = new JobService()
+        const jobService = jobsFor(req)
         const result = await jobService.startJob(jobId)
         
         res.json({
@@ -137,7 +341,7 @@ router.post('/:jobId/start', async (req: Request, res: Response) => {
             job: {
                 id: result.job.id,
                 status: result.job.status,
-                startedAt: result.job.startedAt
+                attempts: result.job.attempts
             },
             message: result.message,
             timestamp: new Date().toISOString()
@@ -153,31 +357,35 @@ router.post('/:jobId/start', async (req: Request, res: Response) => {
 })
 
 /**
+ * POST /api/v1/jobs/:jobId/cancel
  * POST /api/v1/jobs/:jobId/stop
- * Stop a job
+ * Cancel a queued job, or abort a running one
  */
-router.post('/:jobId/stop', async (req: Request, res: Response) => {
+router.post(['/:jobId/cancel', '/:jobId/stop'], validateRequest({
+    summary: 'Cancel a queued job, or abort a running one',
+    params: pathParams('jobId')
+}), async (req: Request, res: Response) => {
     try {
         const { jobId } = req.params
         
-        const jobService = new JobService()
-        const result = await jobService.stopJob(jobId)
+        const jobService = jobsFor(req)
+        const result = await jobService.cancelJob(jobId)
         
         res.json({
             success: result.success,
             job: {
                 id: result.job.id,
                 status: result.job.status,
-                stoppedAt: result.job.stoppedAt
+                cancelledAt: result.job.cancelledAt
             },
             message: result.message,
             timestamp: new Date().toISOString()
         })
     } catch (error) {
-        console.error('Job stop error:', error)
+        console.error('Job cancel error:', error)
         res.status(500).json({
             success: false,
-            error: error instanceof Error ? error.message : 'Failed to stop job',
+            error: error instanceof Error ? error.message : 'Failed to cancel job',
             timestamp: new Date().toISOString()
         })
     }
@@ -187,12 +395,23 @@ router.post('/:jobId/stop', async (req: Request, res: Response) => {
  * PUT /api/v1/jobs/:jobId
  * Update a job
  */
-router.put('/:jobId', async (req: Request, res: Response) => {
+router.put('/:jobId', validateRequest({
+    summary: 'Update a job',
+    params: pathParams('jobId'),
+    body: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            config: { type: 'object' },
+            schedule: { type: 'string' }
+        }
+    }
+}), async (req: Request, res: Response) => {
     try {
         const { jobId } = req.params
         const updates = req.body
         
-        const jobService = new JobService()
+        const jobService = jobsFor(req)
         const result = await jobService.updateJob(jobId, updates)
         
         res.json({
@@ -214,11 +433,14 @@ router.put('/:jobId', async (req: Request, res: Response) => {
  * DELETE /api/v1/jobs/:jobId
  * Delete a job
  */
-router.delete('/:jobId', async (req: Request, res: Response) => {
+router.delete('/:jobId', validateRequest({
+    summary: 'Delete a job',
+    params: pathParams('jobId')
+}), async (req: Request, res: Response) => {
     try {
         const { jobId } = req.params
         
-        const jobService = new JobService()
+        const jobService = jobsFor(req)
         const result = await jobService.deleteJob(jobId)
         
         res.json({
@@ -240,12 +462,16 @@ router.delete('/:jobId', async (req: Request, res: Response) => {
  * GET /api/v1/jobs/:jobId/logs
  * Get job logs
  */
-router.get('/:jobId/logs', async (req: Request, res: Response) => {
+router.get('/:jobId/logs', validateRequest({
+    summary: 'Get the log of a job',
+    params: pathParams('jobId'),
+    query: { type: 'object', properties: pageQuery }
+}), async (req: Request, res: Response) => {
     try {
         const { jobId } = req.params
         const { page = 1, limit = 100 } = req.query
         
-        const jobService = new JobService()
+        const jobService = jobsFor(req)
         const result = await jobService.getJobLogs(jobId, Number(page), Number(limit))
         
         res.json({
@@ -0,0 +1,260 @@
+import { Router, Request, Response } from 'express'
+
+import { requireApiKey, requireScope, tenantOf } from '../middleware/auth.js'
+import { integerQuery, pathParams, validateRequest } from '../middleware/validation.js'
+import { API_SCOPES, ApiKeyService, ROOT_KEY_ID } from '../services/ApiKeyService.js'
+
+const router = Router()
+
+const apiKeysOf = (req: Request): ApiKeyService => req.app.locals.services.apiKeys
+
+const isNotFound = (error: unknown): boolean =>
+    error instanceof Error && error.message.endsWith('not found')
+
+/**
+ * GET /api/v1/keys/me
+ * Show the key the request was made with
+ */
+router.get('/me', validateRequest({
+    summary: 'Get the API key of the request'
+}), async (req: Request, res: Response): Promise<Response | void> => {
+    if (!req.apiKey) {
+        return res.status(404).json({
+            success: false,
+            error: 'No API key was used for this request',
+            timestamp: new Date().toISOString()
+        })
+    }
+
+    const key = req.apiKey.id === ROOT_KEY_ID
+        ? { id: ROOT_KEY_ID, scopes: req.apiKey.scopes }
+        : apiKeysOf(req).getKey(req.apiKey.id)
+
+    res.json({
+        success: true,
+        key,
+        timestamp: new Date().toISOString()
+    })
+})
+
+// Managing keys needs an admin key, even before any key exists; tenant
+// admins only see their own keys
+router.use(requireApiKey, requireScope('admin'))
+
+/**
+ * GET /api/v1/keys
+ * List the tenant's keys; the root key may pick a tenant with ?tenantId
+ */
+router.get('/', validateRequest({
+    summary: 'List API keys of the tenant; the root key may pick a tenant',
+    query: {
+        type: 'object',
+        properties: { tenantId: { type: 'string' } }
+    }
+}), async (req: Request, res: Response) => {
+    try {
+        const tenantId = tenantOf(req) ?? (req.query.tenantId as string | undefined)
+
+        res.json({
+            success: true,
+            keys: apiKeysOf(req).listKeys(tenantId),
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('API key listing error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to list API keys',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * POST /api/v1/keys
+ * Issue a key. The secret is only returned in this response.
+ */
+router.post('/', validateRequest({
+    summary: 'Issue an API key; its secret is only returned once',
+    body: {
+        type: 'object',
+        properties: {
+            tenantId: { type: 'string', description: 'Required for the root key; your own tenant otherwise' },
+            name: { type: 'string' },
+            scopes: { type: 'array', items: { type: 'string', enum: API_SCOPES } },
+            rateLimit: { type: 'number', description: 'Requests a minute' },
+            dailyQuota: { type: 'number', description: 'Requests a UTC day' },
+            expiresAt: { type: 'string', format: 'date-time' }
+        },
+        required: ['name', 'scopes']
+    }
+}), async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+        const { tenantId, name, scopes, rateLimit, dailyQuota, expiresAt } = req.body
+        const ownTenant = tenantOf(req)
+
+        if (ownTenant && tenantId && tenantId !== ownTenant) {
+            return res.status(403).json({
+                success: false,
+                error: 'Keys can only be issued for your own tenant',
+                timestamp: new Date().toISOString()
+            })
+        }
+
+        const issued = apiKeysOf(req).createKey({
+            tenantId: ownTenant ?? tenantId,
+            name,
+            scopes,
+            rateLimit,
+            dailyQuota,
+            expiresAt: expiresAt ? new Date(expiresAt) : undefined
+        })
+
+        res.status(201).json({
+            success: true,
+            key: issued.key,
+            secret: issued.secret,
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('API key creation error:', error)
+        res.status(error instanceof RangeError ? 400 : 500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to create API key',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * GET /api/v1/keys/:keyId
+ * Get a key
+ */
+router.get('/:keyId', validateRequest({
+    summary: 'Get an API key',
+    params: pathParams('keyId')
+}), async (req: Request, res: Response): Promise<Response | void> => {
+    try {
+        const key = apiKeysOf(req).getKey(req.params.keyId, tenantOf(req))
+
+        if (!key) {
+            return res.status(404).json({
+                success: false,
+                error: 'API key not found',
+                timestamp: new Date().toISOString()
+            })
+        }
+
+        res.json({
+            success: true,
+            key,
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('API key retrieval error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get API key',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * GET /api/v1/keys/:keyId/usage
+ * Requests made with a key on each of the last ?days days
+ */
+router.get('/:keyId/usage', validateRequest({
+    summary: 'Count the requests made with an API key on each of the last days',
+    params: pathParams('keyId'),
+    query: {
+        type: 'object',
+        properties: { days: integerQuery('Days, 7 by default') }
+    }
+}), async (req: Request, res: Response) => {
+    try {
+        const { days = 7 } = req.query
+        const usage = apiKeysOf(req).getUsage(req.params.keyId, Number(days), tenantOf(req))
+
+        res.json({
+            success: true,
+            keyId: req.params.keyId,
+            usage,
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('API key usage error:', error)
+        res.status(error instanceof RangeError ? 400 : isNotFound(error) ? 404 : 500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get API key usage',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * POST /api/v1/keys/:keyId/rotate
+ * Replace the secret of a key; the old secret keeps working for
+ * `graceSeconds`
+ */
+router.post('/:keyId/rotate', validateRequest({
+    summary: 'Replace the secret of an API key',
+    params: pathParams('keyId'),
+    body: {
+        type: 'object',
+        properties: {
+            graceSeconds: { type: 'number', description: 'How long the old secret keeps working' }
+        }
+    }
+}), async (req: Request, res: Response) => {
+    try {
+        const { graceSeconds = 0 } = req.body ?? {}
+        const issued = apiKeysOf(req).rotateKey(
+            req.params.keyId,
+            Number(graceSeconds) * 1000,
+            tenantOf(req)
+        )
+
+        res.json({
+            success: true,
+            key: issued.key,
+            secret: issued.secret,
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('API key rotation error:', error)
+        res.status(error instanceof RangeError ? 400 : isNotFound(error) ? 404 : 500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to rotate API key',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+/**
+ * DELETE /api/v1/keys/:keyId
+ * Revoke a key
+ */
+router.delete('/:keyId', validateRequest({
+    summary: 'Revoke an API key',
+    params: pathParams('keyId')
+}), async (req: Request, res: Response) => {
+    try {
+        const revoked = apiKeysOf(req).revokeKey(req.params.keyId, tenantOf(req))
+
+        res.status(revoked ? 200 : 404).json({
+            success: revoked,
+            message: revoked ? 'API key revoked' : 'API key not found or already revoked',
+            timestamp: new Date().toISOString()
+        })
+    } catch (error) {
+        console.error('API key revocation error:', error)
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to revoke API key',
+            timestamp: new Date().toISOString()
+        })
+    }
+})
+
+export default router
@@ -1,248 +1,240 @@
 import { Router, Request, Response } from 'express'
-import { StatsService } from '../services/StatsService'
-import { AppDataSource } from '../../database/dataSource'
+
+import { tenantOf } from '../middleware/auth.js'
+import { pageQuery, periodQuery, validateRequest } from '../middleware/validation.js'
+import { StatsService, StatsPeriod } from '../services/StatsService.js'
 
 const router = Router()
 
 /**
- * GET /api/v1/stats/overview
- * Get system overview statistics
+ * Period of a stats request: `from`/`to` ISO dates, or a `period` such as
+ * `24h`, `7d` or `30d` ending now
  */
-router.get('/overview', async (req: Request, res: Response) => {
-    try {
-        const statsService = new StatsService(AppDataSource)
-        const stats = await statsService.getOverviewStats()
-        
-        res.json({
-            success: true,
-            stats: {
-                totalChatflows: stats.totalChatflows,
-                activeChatflows: stats.activeChatflows,
-                totalMessages: stats.totalMessages,
-                totalUsers: stats.totalUsers,
-                totalTokens: stats.totalTokens,
-                totalApiCalls: stats.totalApiCalls,
-                systemUptime: stats.systemUptime,
-                lastUpdated: stats.lastUpdated
-            },
-            timestamp: new Date().toISOString()
-        })
-    } catch (error) {
-        console.error('Overview stats error:', error)
-        res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to get overview stats',
-            timestamp: new Date().toISOString()
-        })
+function parsePeriod(query: Request['query']): StatsPeriod {
+    const period: StatsPeriod = {}
+
+    for (const key of ['from', 'to'] as const) {
+        const value = query[key]
+        if (value === undefined) continue
+        const date = new Date(String(value))
+        if (Number.isNaN(date.getTime())) {
+            throw new RangeError(`'${key}' must be an ISO date`)
+        }
+        period[key] = date
     }
-})
+
+    if (query.period !== undefined && !period.from) {
+        const match = /^(\d+)([hd])$/.exec(String(query.period))
+        if (!match) {
+            throw new RangeError(`'period' must look like 24h or 7d`)
+        }
+        const amount = Number(match[1])
+        if (match[2] === 'd') {
+            period.days = amount
+        } else {
+            period.from = new Date((period.to ?? new Date()).getTime() - amount * 60 * 60 * 1000)
+        }
+    }
+
+    return period
+}
 
 /**
- * GET /api/v1/stats/usage
- * Get usage statistics
+ * Query of a stats request, read by parsePeriod
  */
-router.get('/usage', async (req: Request, res: Response) => {
+const periodSchema = {
+    type: 'object',
+    properties: {
+        ...periodQuery,
+        period: { type: 'string', pattern: '^[0-9]+[hd]$', description: 'Period ending now, such as 24h or 7d' }
+    }
+}
+
+function sendError(res: Response, error: unknown, fallback: string): void {
+    res.status(error instanceof RangeError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : fallback,
+        timestamp: new Date().toISOString()
+    })
+}
+
+/**
+ * GET /api/stats
+ * GET /api/stats/overview
+ * Get conversion, job, batch and system statistics
+ */
+router.get(['/', '/overview'], validateRequest({
+    summary: 'Get conversion, job, batch and system statistics',
+    query: periodSchema
+}), async (req: Request, res: Response) => {
     try {
-        const { period = '7d', groupBy = 'day' } = req.query
-        
-        const statsService = new StatsService(AppDataSource)
-        const usage = await statsService.getUsageStats(period as string, groupBy as string)
-        
+        const statsService = new StatsService(undefined, tenantOf(req))
+        const stats = statsService.getOverviewStats(parsePeriod(req.query))
+
         res.json({
             success: true,
-            period,
-            groupBy,
-            usage: {
-                messages: usage.messages,
-                tokens: usage.tokens,
-                apiCalls: usage.apiCalls,
-                errors: usage.errors,
-                averageResponseTime: usage.averageResponseTime
-            },
-            chart: usage.chartData,
+            stats,
             timestamp: new Date().toISOString()
         })
     } catch (error) {
-        console.error('Usage stats error:', error)
-        res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to get usage stats',
-            timestamp: new Date().toISOString()
-        })
+        console.error('Overview stats error:', error)
+        sendError(res, error, 'Failed to get overview stats')
     }
 })
 
 /**
- * GET /api/v1/stats/performance
- * Get performance statistics
+ * GET /api/stats/conversions
+ * Get conversion statistics for a period
  */
-router.get('/performance', async (req: Request, res: Response) => {
+router.get('/conversions', validateRequest({
+    summary: 'Get conversion statistics',
+    query: periodSchema
+}), async (req: Request, res: Response) => {
     try {
-        const { period = '1h' } = req.query
-        
-        const statsService = new StatsService(AppDataSource)
-        const performance = await statsService.getPerformanceStats(period as string)
-        
+        const statsService = new StatsService(undefined, tenantOf(req))
+        const stats = statsService.getConversionStats(parsePeriod(req.query))
+
         res.json({
             success: true,
-            period,
-            performance: {
-                averageResponseTime: performance.averageResponseTime,
-                p95ResponseTime: performance.p95ResponseTime,
-                p99ResponseTime: performance.p99ResponseTime,
-                successRate: performance.successRate,
-                errorRate: performance.errorRate,
-                throughput: performance.throughput
-            },
-            metrics: performance.metrics,
+            stats,
             timestamp: new Date().toISOString()
         })
     } catch (error) {
-        console.error('Performance stats error:', error)
-        res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to get performance stats',
-            timestamp: new Date().toISOString()
-        })
+        console.error('Conversion stats error:', error)
+        sendError(res, error, 'Failed to get conversion stats')
     }
 })
 
 /**
- * GET /api/v1/stats/chatflows
- * Get chatflow statistics
+ * GET /api/stats/conversions/history
+ * List the conversions of a period, newest first
  */
-router.get('/chatflows', async (req: Request, res: Response) => {
+router.get('/conversions/history', validateRequest({
+    summary: 'List the conversions of a period, newest first',
+    query: {
+        type: 'object',
+        properties: {
+            ...periodSchema.properties,
+            status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] },
+            ...pageQuery
+        }
+    }
+}), async (req: Request, res: Response) => {
     try {
-        const { chatflowId } = req.query
-        
-        const statsService = new StatsService(AppDataSource)
-        const stats = await statsService.getChatflowStats(chatflowId as string)
-        
+        const { status, page = 1, limit = 20 } = req.query
+
+        const statsService = new StatsService(undefined, tenantOf(req))
+        const result = statsService.getConversionHistory({
+            ...parsePeriod(req.query),
+            status: status as string,
+            page: Number(page),
+            limit: Number(limit)
+        })
+
         res.json({
             success: true,
-            stats: {
-                chatflows: stats.chatflows,
-                totalMessages: stats.totalMessages,
-                averageMessagesPerChatflow: stats.averageMessagesPerChatflow,
-                mostActive: stats.mostActive,
-                leastActive: stats.leastActive,
-                byStatus: stats.byStatus
+            conversions: result.conversions,
+            pagination: {
+                page: result.page,
+                limit: result.limit,
+                total: result.total,
+                totalPages: result.totalPages
             },
             timestamp: new Date().toISOString()
         })
     } catch (error) {
-        console.error('Chatflow stats error:', error)
-        res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to get chatflow stats',
-            timestamp: new Date().toISOString()
-        })
+        console.error('Conversion history error:', error)
+        sendError(res, error, 'Failed to get conversion history')
     }
 })
 
 /**
- * GET /api/v1/stats/models
- * Get model usage statistics
+ * GET /api/stats/errors
+ * Get conversion errors for a period
  */
-router.get('/models', async (req: Request, res: Response) => {
+router.get('/errors', validateRequest({
+    summary: 'Count the failed conversions of a period by error',
+    query: periodSchema
+}), async (req: Request, res: Response) => {
     try {
-        const { period = '30d' } = req.query
-        
-        const statsService = new StatsService(AppDataSource)
-        const modelStats = await statsService.getModelStats(period as string)
-        
+        const statsService = new StatsService(undefined, tenantOf(req))
+        const stats = statsService.getConversionStats(parsePeriod(req.query))
+
         res.json({
             success: true,
-            period,
-            models: modelStats.models,
-            totalUsage: modelStats.totalUsage,
-            byProvider: modelStats.byProvider,
-            costs: modelStats.costs,
+            errors: {
+                total: stats.failedConversions,
+                byMessage: stats.errorDistribution
+            },
             timestamp: new Date().toISOString()
         })
     } catch (error) {
-        console.error('Model stats error:', error)
-        res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to get model stats',
-            timestamp: new Date().toISOString()
-        })
+        console.error('Error stats error:', error)
+        sendError(res, error, 'Failed to get error stats')
     }
 })
 
 /**
- * GET /api/v1/stats/errors
- * Get error statistics
+ * GET /api/stats/system
+ * Get process and job queue statistics
  */
-router.get('/errors', async (req: Request, res: Response) => {
+router.get('/system', validateRequest({
+    summary: 'Get server, job and batch statistics'
+}), async (req: Request, res: Response) => {
     try {
-        const { period = '24h', groupBy = 'type' } = req.query
-        
-        const statsService = new StatsService(AppDataSource)
-        const errorStats = await statsService.getErrorStats(period as string, groupBy as string)
-        
+        const statsService = new StatsService(undefined, tenantOf(req))
+
         res.json({
             success: true,
-            period,
-            groupBy,
-            errors: {
-                total: errorStats.total,
-                byType: errorStats.byType,
-                byEndpoint: errorStats.byEndpoint,
-                recent: errorStats.recent,
-                trends: errorStats.trends
-            },
+            system: statsService.getSystemStats(),
             timestamp: new Date().toISOString()
         })
     } catch (error) {
-        console.error('Error stats error:', error)
-        res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to get error stats',
-            timestamp: new Date().toISOString()
-        })
+        console.error('System stats error:', error)
+        sendError(res, error, 'Failed to get system stats')
     }
 })
 
 /**
- * POST /api/v1/stats/export
- * Export statistics
+ * POST /api/stats/export
+ * Export the conversions of a period as JSON or CSV
  */
-router.post('/export', async (req: Request, res: Response) => {
+router.post('/export', validateRequest({
+    summary: 'Export the conversions of a period as JSON or CSV',
+    body: {
+        type: 'object',
+        properties: {
+            format: { type: 'string', enum: ['json', 'csv'] },
+            ...periodSchema.properties
+        }
+    }
+}), async (req: Request, res: Response): Promise<Response | void> => {
     try {
-        const { type, period, format = 'json' } = req.body
-        
-        if (!type || !period) {
+        const { format = 'json', period, from, to } = req.body
+
+        if (format !== 'json' && format !== 'csv') {
             return res.status(400).json({
                 success: false,
-                error: 'Type and period are required',
+                error: `Unsupported export format '${format}': use json or csv`,
                 timestamp: new Date().toISOString()
             })
         }
-        
-        const statsService = new StatsService(AppDataSource)
-        const exportData = await statsService.exportStats(type, period, format)
-        
-        // Set appropriate headers based on format
+
+        const statsService = new StatsService(undefined, tenantOf(req))
+        const exportData = statsService.exportStats(format, parsePeriod({ period, from, to }))
+
         if (format === 'csv') {
             res.setHeader('Content-Type', 'text/csv')
-            res.setHeader('Content-Disposition', `attachment; filename=stats-${type}-${Date.now()}.csv`)
-        } else if (format === 'excel') {
-            res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
-            res.setHeader('Content-Disposition', `attachment; filename=stats-${type}-${Date.now()}.xlsx`)
+            res.setHeader('Content-Disposition', `attachment; filename=stats-conversions-${Date.now()}.csv`)
         } else {
             res.setHeader('Content-Type', 'application/json')
         }
-        
+
         res.send(exportData)
     } catch (error) {
         console.error('Stats export error:', error)
-        res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to export stats',
-            timestamp: new Date().toISOString()
-        })
+        sendError(res, error, 'Failed to export stats')
     }
 })
 
-export default router
\ No newline at end of file
+export default router
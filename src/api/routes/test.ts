@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express'
+import { validateRequest } from '../middleware/validation'
 import { TestingService } from '../services/TestingService'
 import { AppDataSource } from '../../database/dataSource'
 
@@ -8,7 +9,9 @@ const router = Router()
  * POST /api/v1/test/health
  * Health check endpoint
  */
-router.post('/health', async (req: Request, res: Response) => {
+router.post('/health', validateRequest({
+    summary: 'Check the health of the server and its database'
+}), async (req: Request, res: Response) => {
     try {
         const testingService = new TestingService(AppDataSource)
         const result = await testingService.checkHealth()
@@ -34,7 +37,13 @@ router.post('/health', async (req: Request, res: Response) => {
  * POST /api/v1/test/database
  * Test database operations
  */
-router.post('/database', async (req: Request, res: Response) => {
+router.post('/database', validateRequest({
+    summary: 'Time a database operation',
+    body: {
+        type: 'object',
+        properties: { operation: { type: 'string', description: "'read' by default" } }
+    }
+}), async (req: Request, res: Response) => {
     try {
         const { operation = 'read' } = req.body
         const testingService = new TestingService(AppDataSource)
@@ -62,7 +71,16 @@ router.post('/database', async (req: Request, res: Response) => {
  * POST /api/v1/test/performance
  * Run performance tests
  */
-router.post('/performance', async (req: Request, res: Response) => {
+router.post('/performance', validateRequest({
+    summary: 'Run a performance test',
+    body: {
+        type: 'object',
+        properties: {
+            type: { type: 'string', description: "'basic' by default" },
+            iterations: { type: 'number' }
+        }
+    }
+}), async (req: Request, res: Response) => {
     try {
         const { type = 'basic', iterations = 100 } = req.body
         const testingService = new TestingService(AppDataSource)
@@ -91,7 +109,16 @@ router.post('/performance', async (req: Request, res: Response) => {
  * POST /api/v1/test/stress
  * Run stress tests
  */
-router.post('/stress', async (req: Request, res: Response) => {
+router.post('/stress', validateRequest({
+    summary: 'Run a stress test',
+    body: {
+        type: 'object',
+        properties: {
+            duration: { type: 'number', description: 'Seconds' },
+            concurrency: { type: 'number' }
+        }
+    }
+}), async (req: Request, res: Response) => {
     try {
         const { duration = 60, concurrency = 10 } = req.body
         const testingService = new TestingService(AppDataSource)
@@ -1,15 +1,26 @@
 import { Router, Request, Response } from 'express'
+import { tenantOf } from '../middleware/auth'
+import { pathParams, validateRequest } from '../middleware/validation'
 import { FileUploadService } from '../services/FileUploadService'
-import { AppDataSource } from '../../database/dataSource'
 import multer from 'multer'
+import { mkdirSync } from 'fs'
 import path from 'path'
 
 const router = Router()
 
+/**
+ * Directory for the uploads of the request's tenant, so tenants never see
+ * each other's files
+ */
+const uploadDirFor = (req: Request): string =>
+    path.join(process.cwd(), 'uploads', tenantOf(req) ?? '')
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        cb(null, path.join(process.cwd(), 'uploads'))
+        const dir = uploadDirFor(req)
+        mkdirSync(dir, { recursive: true })
+        cb(null, dir)
     },
     filename: (req, file, cb) => {
         const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9)
@@ -39,7 +50,17 @@ const upload = multer({
  * POST /api/v1/upload/file
  * Upload a single file
  */
-router.post('/file', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/file', upload.single('file'), validateRequest({
+    summary: 'Upload a file',
+    bodyType: 'multipart/form-data',
+    body: {
+        type: 'object',
+        properties: {
+            file: { type: 'string', format: 'binary' },
+            metadata: { type: 'string' }
+        }
+    }
+}), async (req: Request, res: Response) => {
     try {
         if (!req.file) {
             return res.status(400).json({
@@ -49,7 +70,7 @@ router.post('/file', upload.single('file'), async (req: Request, res: Response)
             })
         }
         
-        const fileUploadService = new FileUploadService(AppDataSource)
+        const fileUploadService = new FileUploadService(uploadDirFor(req))
         const result = await fileUploadService.uploadFile(req.file, req.body.metadata)
         
         res.json({
@@ -78,7 +99,17 @@ router.post('/file', upload.single('file'), async (req: Request, res: Response)
  * POST /api/v1/upload/multiple
  * Upload multiple files
  */
-router.post('/multiple', upload.array('files', 10), async (req: Request, res: Response) => {
+router.post('/multiple', upload.array('files', 10), validateRequest({
+    summary: 'Upload up to 10 files',
+    bodyType: 'multipart/form-data',
+    body: {
+        type: 'object',
+        properties: {
+            files: { type: 'array', items: { type: 'string', format: 'binary' } },
+            metadata: { type: 'string' }
+        }
+    }
+}), async (req: Request, res: Response) => {
     try {
         if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
             return res.status(400).json({
@@ -88,7 +119,7 @@ router.post('/multiple', upload.array('files', 10), async (req: Request, res: Re
             })
         }
         
-        const fileUploadService = new FileUploadService(AppDataSource)
+        const fileUploadService = new FileUploadService(uploadDirFor(req))
         const results = await fileUploadService.uploadMultipleFiles(req.files, req.body.metadata)
         
         res.json({
@@ -118,7 +149,17 @@ router.post('/multiple', upload.array('files', 10), async (req: Request, res: Re
  * POST /api/v1/upload/process
  * Process uploaded file
  */
-router.post('/process', async (req: Request, res: Response) => {
+router.post('/process', validateRequest({
+    summary: 'Process an uploaded file',
+    body: {
+        type: 'object',
+        properties: {
+            fileId: { type: 'string' },
+            action: { type: 'string' }
+        },
+        required: ['fileId', 'action']
+    }
+}), async (req: Request, res: Response) => {
     try {
         const { fileId, action } = req.body
         
@@ -130,7 +171,7 @@ router.post('/process', async (req: Request, res: Response) => {
             })
         }
         
-        const fileUploadService = new FileUploadService(AppDataSource)
+        const fileUploadService = new FileUploadService(uploadDirFor(req))
         const result = await fileUploadService.processFile(fileId, action)
         
         res.json({
@@ -155,11 +196,14 @@ router.post('/process', async (req: Request, res: Response) => {
  * DELETE /api/v1/upload/:fileId
  * Delete uploaded file
  */
-router.delete('/:fileId', async (req: Request, res: Response) => {
+router.delete('/:fileId', validateRequest({
+    summary: 'Delete an uploaded file',
+    params: pathParams('fileId')
+}), async (req: Request, res: Response) => {
     try {
         const { fileId } = req.params
         
-        const fileUploadService = new FileUploadService(AppDataSource)
+        const fileUploadService = new FileUploadService(uploadDirFor(req))
         const result = await fileUploadService.deleteFile(fileId)
         
         res.json({
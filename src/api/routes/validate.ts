@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express'
+import { validateRequest } from '../middleware/validation'
 import { ValidationService } from '../services/ValidationService'
 import { AppDataSource } from '../../database/dataSource'
 
@@ -8,7 +9,9 @@ const router = Router()
  * POST /api/v1/validate/connection
  * Validate database connection
  */
-router.post('/connection', async (req: Request, res: Response) => {
+router.post('/connection', validateRequest({
+    summary: 'Check the database connection'
+}), async (req: Request, res: Response) => {
     try {
         const validationService = new ValidationService(AppDataSource)
         const result = await validationService.validateConnection()
@@ -32,7 +35,9 @@ router.post('/connection', async (req: Request, res: Response) => {
  * POST /api/v1/validate/schema
  * Validate database schema
  */
-router.post('/schema', async (req: Request, res: Response) => {
+router.post('/schema', validateRequest({
+    summary: 'Check the database schema'
+}), async (req: Request, res: Response) => {
     try {
         const validationService = new ValidationService(AppDataSource)
         const result = await validationService.validateSchema()
@@ -57,7 +62,17 @@ router.post('/schema', async (req: Request, res: Response) => {
  * POST /api/v1/validate/data
  * Validate data integrity
  */
-router.post('/data', async (req: Request, res: Response) => {
+router.post('/data', validateRequest({
+    summary: 'Check the integrity of stored records',
+    body: {
+        type: 'object',
+        properties: {
+            entity: { type: 'string' },
+            id: { type: 'string' }
+        },
+        required: ['entity']
+    }
+}), async (req: Request, res: Response) => {
     try {
         const { entity, id } = req.body
         const validationService = new ValidationService(AppDataSource)
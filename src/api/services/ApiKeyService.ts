@@ -0,0 +1,337 @@
+/**
+ * API Key Service
+ *
+ * Issues, rotates and revokes the API keys of tenants, and checks the keys
+ * requests are made with. Keys are stored as SHA-256 hashes, so a key is only
+ * ever shown when it is issued. Each key has scopes, an optional limit of
+ * requests a minute and an optional quota of requests a UTC day; usage is
+ * counted in the API database, so quotas hold across restarts.
+ *
+ * The key set in the API_KEY environment variable is the root key: it has
+ * every scope and belongs to no tenant, so it sees the records of all of
+ * them.
+ */
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+
+import { AppDataSource, type Repository } from '../../database/dataSource.js';
+import {
+  ApiKeyEntity,
+  ApiKeyUsageEntity,
+  type ApiKeyRecord,
+  type ApiKeyUsageRecord,
+} from '../../database/entities.js';
+
+export const API_SCOPES = [
+  'convert',
+  'validate',
+  'test',
+  'batch',
+  'jobs',
+  'stats',
+  'admin',
+] as const;
+
+/**
+ * What a key may do; `admin` allows everything, including managing the
+ * keys of its tenant
+ */
+export type ApiScope = (typeof API_SCOPES)[number];
+
+/** An API key as it is shown, without its hashes */
+export type ApiKey = Omit<ApiKeyRecord, 'keyHash' | 'previousKeyHash'>;
+
+/**
+ * The key a request was made with
+ */
+export interface AuthenticatedKey {
+  /** `root` for the API_KEY key */
+  id: string;
+  /** Undefined for the root key, which sees every tenant */
+  tenantId?: string;
+  scopes: ApiScope[];
+  rateLimit?: number;
+  dailyQuota?: number;
+}
+
+export interface CreateApiKeyRequest {
+  tenantId: string;
+  name: string;
+  scopes: ApiScope[];
+  rateLimit?: number;
+  dailyQuota?: number;
+  expiresAt?: Date;
+}
+
+/**
+ * A newly issued key; `secret` is not stored and cannot be shown again
+ */
+export interface IssuedApiKey {
+  key: ApiKey;
+  secret: string;
+}
+
+export interface QuotaUsage {
+  allowed: boolean;
+  /** Requests made today, including this one when allowed */
+  used: number;
+  quota?: number;
+}
+
+export const ROOT_KEY_ID = 'root';
+
+const KEY_PREFIX = 'flk_';
+const TENANT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function hasScope(key: AuthenticatedKey, scope: ApiScope): boolean {
+  return key.scopes.includes(scope) || key.scopes.includes('admin');
+}
+
+export class ApiKeyService {
+  private keys: Repository<ApiKeyRecord>;
+  private usage: Repository<ApiKeyUsageRecord>;
+
+  constructor(
+    private readonly dataSource = AppDataSource.getInstance(),
+    private readonly rootKey = process.env['API_KEY']
+  ) {
+    this.keys = dataSource.getRepository(ApiKeyEntity);
+    this.usage = dataSource.getRepository(ApiKeyUsageEntity);
+  }
+
+  /**
+   * Whether requests need a key: once there is a root key or any key that
+   * has not been revoked. Until then the API is open to everyone.
+   */
+  isEnabled(): boolean {
+    return (
+      Boolean(this.rootKey) ||
+      this.keys.count({ where: { revokedAt: null } }) > 0
+    );
+  }
+
+  /**
+   * The key a secret belongs to, unless it is unknown, revoked or expired
+   */
+  authenticate(secret: string): AuthenticatedKey | undefined {
+    if (this.rootKey && sameSecret(secret, this.rootKey)) {
+      return { id: ROOT_KEY_ID, scopes: [...API_SCOPES] };
+    }
+
+    const hash = hashSecret(secret);
+    const now = new Date();
+    const record =
+      this.keys.findOne({ keyHash: hash }) ??
+      this.keys
+        .find({ where: { previousKeyHash: hash } })
+        .find(
+          (key) => key.previousKeyExpiresAt && key.previousKeyExpiresAt > now
+        );
+    if (!record || record.revokedAt || (record.expiresAt ?? now) < now) {
+      return undefined;
+    }
+
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      scopes: record.scopes as ApiScope[],
+      rateLimit: record.rateLimit,
+      dailyQuota: record.dailyQuota,
+    };
+  }
+
+  /**
+   * Issue a key, throwing a RangeError for invalid settings
+   */
+  createKey(request: CreateApiKeyRequest): IssuedApiKey {
+    validateKeyRequest(request);
+
+    const secret = generateSecret();
+    const record: ApiKeyRecord = {
+      id: `key_${randomUUID()}`,
+      tenantId: request.tenantId,
+      name: request.name,
+      keyHash: hashSecret(secret),
+      keyPrefix: secret.slice(0, KEY_PREFIX.length + 6),
+      scopes: [...new Set(request.scopes)],
+      rateLimit: request.rateLimit,
+      dailyQuota: request.dailyQuota,
+      expiresAt: request.expiresAt,
+      createdAt: new Date(),
+    };
+    this.keys.save(record);
+    return { key: toApiKey(record), secret };
+  }
+
+  /**
+   * Keys of a tenant, or of every tenant, newest first
+   */
+  listKeys(tenantId?: string): ApiKey[] {
+    return this.keys
+      .find({ where: { tenantId }, order: [['createdAt', 'DESC']] })
+      .map(toApiKey);
+  }
+
+  getKey(keyId: string, tenantId?: string): ApiKey | undefined {
+    const record = this.keys.findOne({ id: keyId, tenantId });
+    return record && toApiKey(record);
+  }
+
+  /**
+   * Replace the secret of a key. The previous secret keeps working for
+   * `graceMs`, so clients can switch over without failed requests.
+   */
+  rotateKey(keyId: string, graceMs = 0, tenantId?: string): IssuedApiKey {
+    if (!Number.isInteger(graceMs) || graceMs < 0 || graceMs > 30 * DAY_MS) {
+      throw new RangeError(
+        'The grace period must be between 0 and 30 days, in milliseconds'
+      );
+    }
+    const record = this.requireKey(keyId, tenantId);
+    if (record.revokedAt) {
+      throw new RangeError(`API key ${keyId} has been revoked`);
+    }
+
+    const secret = generateSecret();
+    const now = new Date();
+    const changes = {
+      keyHash: hashSecret(secret),
+      keyPrefix: secret.slice(0, KEY_PREFIX.length + 6),
+      previousKeyHash: graceMs > 0 ? record.keyHash : null,
+      previousKeyExpiresAt:
+        graceMs > 0 ? new Date(now.getTime() + graceMs) : null,
+      rotatedAt: now,
+    };
+    this.keys.update(keyId, changes);
+    return { key: toApiKey(this.requireKey(keyId)), secret };
+  }
+
+  /**
+   * Revoke a key and any previous secret still in its grace period
+   */
+  revokeKey(keyId: string, tenantId?: string): boolean {
+    const record = this.keys.findOne({ id: keyId, tenantId });
+    if (!record || record.revokedAt) return false;
+    this.keys.update(keyId, {
+      revokedAt: new Date(),
+      previousKeyHash: null,
+      previousKeyExpiresAt: null,
+    });
+    return true;
+  }
+
+  /**
+   * Count a request against the daily quota of a key. Requests over the
+   * quota are refused and not counted.
+   */
+  recordRequest(key: AuthenticatedKey): QuotaUsage {
+    if (key.id === ROOT_KEY_ID) return { allowed: true, used: 0 };
+
+    const now = new Date();
+    const day = toDay(now);
+    const id = `${key.id}:${day}`;
+    return this.dataSource.transaction(() => {
+      const used = this.usage.findOne({ id })?.requests ?? 0;
+      if (key.dailyQuota !== undefined && used >= key.dailyQuota) {
+        return { allowed: false, used, quota: key.dailyQuota };
+      }
+      this.usage.save({ id, keyId: key.id, day, requests: used + 1 });
+      this.keys.update(key.id, { lastUsedAt: now });
+      return { allowed: true, used: used + 1, quota: key.dailyQuota };
+    });
+  }
+
+  /**
+   * Requests made with a key on each of the last `days` UTC days, oldest
+   * first
+   */
+  getUsage(
+    keyId: string,
+    days = 7,
+    tenantId?: string
+  ): Array<{ date: string; requests: number }> {
+    if (!Number.isInteger(days) || days < 1 || days > 366) {
+      throw new RangeError('days must be an integer from 1 to 366');
+    }
+    this.requireKey(keyId, tenantId);
+
+    const counts = new Map(
+      this.usage
+        .find({ where: { keyId } })
+        .map((record) => [record.day, record.requests])
+    );
+    const today = Date.now();
+    return Array.from({ length: days }, (_, index) => {
+      const date = toDay(new Date(today - (days - 1 - index) * DAY_MS));
+      return { date, requests: counts.get(date) ?? 0 };
+    });
+  }
+
+  private requireKey(keyId: string, tenantId?: string): ApiKeyRecord {
+    const record = this.keys.findOne({ id: keyId, tenantId });
+    if (!record) {
+      throw new Error(`API key ${keyId} not found`);
+    }
+    return record;
+  }
+}
+
+function validateKeyRequest(request: CreateApiKeyRequest): void {
+  if (
+    typeof request.tenantId !== 'string' ||
+    !TENANT_PATTERN.test(request.tenantId)
+  ) {
+    throw new RangeError(
+      'tenantId must be 1-64 letters, digits, dots, dashes or underscores'
+    );
+  }
+  if (typeof request.name !== 'string' || request.name.trim() === '') {
+    throw new RangeError('name is required');
+  }
+  if (
+    !Array.isArray(request.scopes) ||
+    request.scopes.length === 0 ||
+    !request.scopes.every((scope) => API_SCOPES.includes(scope))
+  ) {
+    throw new RangeError(`scopes must be a list of ${API_SCOPES.join(', ')}`);
+  }
+  for (const limit of ['rateLimit', 'dailyQuota'] as const) {
+    const value = request[limit];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new RangeError(`${limit} must be a positive integer`);
+    }
+  }
+  if (
+    request.expiresAt !== undefined &&
+    !(request.expiresAt instanceof Date && request.expiresAt > new Date())
+  ) {
+    throw new RangeError('expiresAt must be a date in the future');
+  }
+}
+
+function toApiKey(record: ApiKeyRecord): ApiKey {
+  const key: ApiKey & Partial<ApiKeyRecord> = { ...record };
+  delete key.keyHash;
+  delete key.previousKeyHash;
+  return key;
+}
+
+function generateSecret(): string {
+  return KEY_PREFIX + randomBytes(24).toString('base64url');
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function sameSecret(a: string, b: string): boolean {
+  return timingSafeEqual(
+    Buffer.from(hashSecret(a), 'hex'),
+    Buffer.from(hashSecret(b), 'hex')
+  );
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
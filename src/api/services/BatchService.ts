@@ -1,82 +1,384 @@
 /**
  * Batch Service
- * 
- * Handles batch processing of multiple Flowise files
+ *
+ * Converts or validates many Flowise flows as one batch. Batches and the
+ * result of every item are stored in the API database, so results can be
+ * fetched after the server restarts, and executing an interrupted batch
+ * again picks up the items that have not run yet. A service for a tenant
+ * only sees and creates that tenant's batches.
  */
 
+import { AppDataSource, type Repository } from '../../database/dataSource.js';
+import {
+  BatchEntity,
+  BatchResultEntity,
+  type BatchRecord,
+  type BatchResultRecord,
+} from '../../database/entities.js';
+import { validateFlowiseJson } from '../../index.js';
+import type { ConversionOptions } from '../types/api.js';
+
 import { ConversionService } from './conversion.js';
-import { ValidationService } from './validation.js';
+import type { Pagination } from './JobService.js';
+
+export type BatchJob = BatchRecord;
+export type BatchResult = BatchResultRecord;
+
+export const BATCH_TYPES: BatchJob['type'][] = ['conversion', 'validation'];
+
+export interface BatchOptions {
+  /** Stop the batch at the first item that fails */
+  stopOnError?: boolean;
+  /** Options for every conversion in a conversion batch */
+  conversion?: ConversionOptions;
+}
+
+export interface BatchExecution {
+  success: boolean;
+  status: BatchJob['status'];
+  processed: number;
+  failed: number;
+  results: BatchResult[];
+}
 
-export interface BatchJob {
+export interface BatchStatus {
   id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  files: string[];
-  results: any[];
-  createdAt: Date;
-  completedAt?: Date;
-  error?: string;
+  status: BatchJob['status'];
+  totalItems: number;
+  processedItems: number;
+  failedItems: number;
+  progressPercentage: number;
+  startTime?: Date;
+  endTime?: Date;
+  /** Milliseconds the batch has run for */
+  duration?: number;
 }
 
+/**
+ * Batches executing in this process. A batch stored as processing but not
+ * in here was interrupted by a restart, and may be executed again.
+ */
+const executing = new Set<string>();
+
 export class BatchService {
-  private jobs: Map<string, BatchJob> = new Map();
-  private conversionService: ConversionService;
-  private validationService: ValidationService;
+  private batches: Repository<BatchJob>;
+  private results: Repository<BatchResult>;
+  private conversionService?: ConversionService;
 
-  constructor() {
-    this.conversionService = new ConversionService();
-    this.validationService = new ValidationService();
+  constructor(
+    private readonly dataSource = AppDataSource.getInstance(),
+    private readonly tenantId?: string
+  ) {
+    this.batches = dataSource.getRepository(BatchEntity);
+    this.results = dataSource.getRepository(BatchResultEntity);
   }
 
-  async createBatchJob(files: string[]): Promise<BatchJob> {
-    const job: BatchJob = {
-      id: `batch_${Date.now()}`,
+  /**
+   * Store a batch of flows, given as Flowise JSON objects
+   */
+  async createBatch(
+    type: BatchJob['type'],
+    data: unknown[],
+    options: BatchOptions = {}
+  ): Promise<BatchJob> {
+    if (!BATCH_TYPES.includes(type)) {
+      throw new Error(
+        `Unknown batch type '${type}': use one of ${BATCH_TYPES.join(', ')}`
+      );
+    }
+    if (!Array.isArray(data) || data.length === 0) {
+      throw new Error('Batch data must be a non-empty array');
+    }
+
+    const createdAt = new Date();
+    const batch: BatchJob = {
+      id: `batch_${createdAt.getTime()}_${Math.random().toString(36).slice(2, 11)}`,
+      tenantId: this.tenantId,
+      type,
       status: 'pending',
-      files,
-      results: [],
-      createdAt: new Date()
+      options,
+      totalItems: data.length,
+      processedItems: 0,
+      failedItems: 0,
+      createdAt,
     };
-    
-    this.jobs.set(job.id, job);
-    return job;
+
+    this.dataSource.transaction(() => {
+      this.batches.save(batch);
+      data.forEach((input, itemIndex) =>
+        this.results.save({
+          id: `${batch.id}:${itemIndex}`,
+          batchId: batch.id,
+          itemIndex,
+          status: 'pending',
+          input,
+          createdAt,
+        })
+      );
+    });
+    return batch;
   }
 
-  async processBatchJob(jobId: string): Promise<BatchJob> {
-    const job = this.jobs.get(jobId);
-    if (!job) {
-      throw new Error(`Job ${jobId} not found`);
+  /**
+   * Run the items of a batch that have not run yet, one after another.
+   * Aborting `signal` leaves the batch pending, with the item it was running
+   * still to run.
+   */
+  async executeBatch(
+    batchId: string,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<BatchExecution> {
+    const batch = this.requireBatch(batchId);
+    if (executing.has(batchId)) {
+      throw new Error(`Batch ${batchId} is already processing`);
     }
 
-    job.status = 'processing';
-    
+    executing.add(batchId);
     try {
-      for (const file of job.files) {
-        const result = await this.conversionService.convertFile(file, {});
-        job.results.push(result);
-      }
-      
-      job.status = 'completed';
-      job.completedAt = new Date();
+      return await this.processBatch(batch, options.signal);
     } catch (error) {
-      job.status = 'failed';
-      job.error = error instanceof Error ? error.message : 'Unknown error';
+      if (options.signal?.aborted) {
+        this.batches.update(batchId, { status: 'pending' });
+      }
+      throw error;
+    } finally {
+      executing.delete(batchId);
+    }
+  }
+
+  private async processBatch(
+    batch: BatchJob,
+    signal?: AbortSignal
+  ): Promise<BatchExecution> {
+    const batchId = batch.id;
+    this.batches.update(batchId, {
+      status: 'processing',
+      startedAt: batch.startedAt ?? new Date(),
+      completedAt: null,
+      error: null,
+    });
+
+    const pending = this.results.find({
+      where: { batchId, status: 'pending' },
+      order: [['itemIndex', 'ASC']],
+    });
+    const options: BatchOptions = batch.options ?? {};
+    let status: BatchJob['status'] | undefined;
+
+    for (const item of pending) {
+      signal?.throwIfAborted();
+      const current = this.batches.findOne({ id: batchId });
+      if (!current || current.status === 'cancelled') {
+        status = 'cancelled';
+        break;
+      }
+
+      const outcome = await this.runItem(
+        batch.type,
+        item.input,
+        options,
+        signal
+      );
+      this.dataSource.transaction(() => {
+        this.results.update(item.id, {
+          ...outcome,
+          completedAt: new Date(),
+        });
+        this.batches.update(batchId, {
+          processedItems: current.processedItems + 1,
+          failedItems:
+            current.failedItems + (outcome.status === 'failed' ? 1 : 0),
+        });
+      });
+
+      if (outcome.status === 'failed' && options.stopOnError) {
+        status = 'failed';
+        this.batches.update(batchId, {
+          error: `Item ${item.itemIndex} failed: ${outcome.error}`,
+        });
+        break;
+      }
+    }
+
+    const finished = this.batches.findOne({ id: batchId });
+    if (!finished) {
+      throw new Error(`Batch ${batchId} was deleted while processing`);
+    }
+    status ??=
+      finished.failedItems === finished.totalItems ? 'failed' : 'completed';
+    if (finished.status !== 'cancelled') {
+      this.batches.update(batchId, { status, completedAt: new Date() });
+    }
+
+    return {
+      success: status === 'completed' && finished.failedItems === 0,
+      status,
+      processed: finished.processedItems,
+      failed: finished.failedItems,
+      results: this.results.find({
+        where: { batchId },
+        order: [['itemIndex', 'ASC']],
+      }),
+    };
+  }
+
+  async getBatch(batchId: string): Promise<BatchJob | undefined> {
+    return this.batches.findOne({ id: batchId, tenantId: this.tenantId });
+  }
+
+  async listBatches(
+    options: {
+      status?: string;
+      type?: string;
+      from?: Date;
+      to?: Date;
+      page?: number;
+      limit?: number;
+    } = {}
+  ): Promise<{ batches: BatchJob[] } & Pagination> {
+    const { items, ...pagination } = this.batches.findPage(
+      {
+        where: {
+          tenantId: this.tenantId,
+          status: options.status as BatchJob['status'] | undefined,
+          type: options.type as BatchJob['type'] | undefined,
+        },
+        between: { column: 'createdAt', from: options.from, to: options.to },
+        order: [['createdAt', 'DESC']],
+      },
+      options.page,
+      options.limit
+    );
+    return { batches: items, ...pagination };
+  }
+
+  async getBatchStatus(batchId: string): Promise<BatchStatus | undefined> {
+    const batch = await this.getBatch(batchId);
+    if (!batch) return undefined;
+
+    const end = batch.completedAt;
+    return {
+      id: batch.id,
+      status: batch.status,
+      totalItems: batch.totalItems,
+      processedItems: batch.processedItems,
+      failedItems: batch.failedItems,
+      progressPercentage: Math.round(
+        (batch.processedItems / batch.totalItems) * 100
+      ),
+      startTime: batch.startedAt,
+      endTime: end,
+      duration: batch.startedAt
+        ? (end ?? new Date()).getTime() - batch.startedAt.getTime()
+        : undefined,
+    };
+  }
+
+  /**
+   * Stop a batch after the item it is running; its remaining items stay
+   * pending
+   */
+  async cancelBatch(batchId: string): Promise<{
+    success: boolean;
+    status: BatchJob['status'];
+    message: string;
+  }> {
+    const batch = this.requireBatch(batchId);
+    if (batch.status !== 'pending' && batch.status !== 'processing') {
+      return {
+        success: false,
+        status: batch.status,
+        message: `Batch is already ${batch.status}`,
+      };
     }
-    
-    return job;
+
+    this.batches.update(batchId, {
+      status: 'cancelled',
+      completedAt: new Date(),
+    });
+    return { success: true, status: 'cancelled', message: 'Batch cancelled' };
   }
 
-  async getBatchJob(jobId: string): Promise<BatchJob | undefined> {
-    return this.jobs.get(jobId);
+  async getBatchResults(
+    batchId: string,
+    page?: number,
+    limit?: number
+  ): Promise<{ results: BatchResult[] } & Pagination> {
+    this.requireBatch(batchId);
+    const { items, ...pagination } = this.results.findPage(
+      { where: { batchId }, order: [['itemIndex', 'ASC']] },
+      page,
+      limit,
+      100
+    );
+    return { results: items, ...pagination };
   }
 
-  async getAllJobs(): Promise<BatchJob[]> {
-    return Array.from(this.jobs.values());
+  async deleteBatch(
+    batchId: string
+  ): Promise<{ success: boolean; message: string }> {
+    const deleted =
+      this.batches.delete({ id: batchId, tenantId: this.tenantId }) > 0;
+    return {
+      success: deleted,
+      message: deleted ? 'Batch deleted' : 'Batch not found',
+    };
   }
 
-  async cancelBatchJob(jobId: string): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (job && job.status === 'processing') {
-      job.status = 'failed';
-      job.error = 'Job cancelled';
+  private async runItem(
+    type: BatchJob['type'],
+    input: unknown,
+    options: BatchOptions,
+    signal?: AbortSignal
+  ): Promise<Pick<BatchResult, 'status' | 'result' | 'error' | 'durationMs'>> {
+    const started = Date.now();
+
+    try {
+      if (type === 'validation') {
+        const result = await validateFlowiseJson(
+          input as Parameters<typeof validateFlowiseJson>[0]
+        );
+        return {
+          status: result.isValid ? 'completed' : 'failed',
+          result,
+          error: result.isValid ? undefined : result.errors.join('; '),
+          durationMs: Date.now() - started,
+        };
+      }
+
+      this.conversionService ??= new ConversionService();
+      const result = await this.conversionService.convert(
+        {
+          input: input as string | object,
+          options: options.conversion,
+        },
+        { signal, tenantId: this.tenantId }
+      );
+      return {
+        status: 'completed',
+        result,
+        durationMs: Date.now() - started,
+      };
+    } catch (error) {
+      // An aborted item has not run; leave it pending
+      signal?.throwIfAborted();
+      return {
+        status: 'failed',
+        error:
+          (error as { message?: string })?.message ?? 'Unknown batch error',
+        durationMs: Date.now() - started,
+      };
+    }
+  }
+
+  private requireBatch(batchId: string): BatchJob {
+    const batch = this.batches.findOne({
+      id: batchId,
+      tenantId: this.tenantId,
+    });
+    if (!batch) {
+      throw new Error(`Batch ${batchId} not found`);
     }
+    return batch;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,365 @@
+/**
+ * Job Queue
+ *
+ * Runs the jobs stored in the API database with a fixed number of workers.
+ * Queued jobs start by priority, then age. An attempt that fails or runs
+ * past its timeout is retried after an exponential backoff, and a job whose
+ * attempts are used up moves to the dead-letter queue (status `dead`) until
+ * it is retried or deleted. Cancelling a running job aborts its signal, and
+ * its worker is freed whether or not the work notices.
+ */
+
+import { EventEmitter } from 'events';
+
+import {
+  AppDataSource,
+  type Changes,
+  type Repository,
+} from '../../database/dataSource.js';
+import {
+  JobEntity,
+  JobLogEntity,
+  type JobLogRecord,
+  type JobRecord,
+} from '../../database/entities.js';
+
+export interface JobQueueOptions {
+  /** Jobs run at the same time */
+  concurrency?: number;
+  /** How often to look for jobs whose backoff has passed */
+  pollIntervalMs?: number;
+  /** Milliseconds an attempt may run, for jobs that set no timeout */
+  timeoutMs?: number;
+  /** Attempts a job gets before it is dead, unless created with its own */
+  maxAttempts?: number;
+  /** Delay before the first retry; it doubles with every retry after that */
+  backoffMs?: number;
+  /** Longest delay between retries */
+  maxBackoffMs?: number;
+}
+
+/**
+ * Does the work of a job, giving up when `signal` aborts
+ */
+export type JobRunner = (
+  job: JobRecord,
+  signal: AbortSignal
+) => Promise<unknown>;
+
+export interface QueueStats {
+  concurrency: number;
+  /** Jobs running in this process */
+  running: number;
+  /** Jobs by status */
+  jobs: Record<string, number>;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: Required<JobQueueOptions> = {
+  concurrency: 2,
+  pollIntervalMs: 1000,
+  timeoutMs: 5 * 60 * 1000,
+  maxAttempts: 3,
+  backoffMs: 1000,
+  maxBackoffMs: 60 * 1000,
+};
+
+export class JobTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Job timed out after ${timeoutMs}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/** Why the queue stopped an attempt it was running */
+class QueueStoppedError extends Error {
+  constructor() {
+    super('Job queue stopped');
+    this.name = 'QueueStoppedError';
+  }
+}
+
+interface RunningJob {
+  controller: AbortController;
+  /** Resolves once the attempt has settled and freed its worker */
+  settled: Promise<void>;
+}
+
+/**
+ * Emits `completed`, `retrying`, `dead` and `cancelled` with the job once an
+ * attempt settles.
+ */
+export class JobQueue extends EventEmitter {
+  readonly options: Required<JobQueueOptions>;
+  private jobs: Repository<JobRecord>;
+  private logs: Repository<JobLogRecord>;
+  private running = new Map<string, RunningJob>();
+  private timer?: NodeJS.Timeout;
+  private started = false;
+
+  constructor(
+    private readonly runner: JobRunner,
+    options: JobQueueOptions = {},
+    private readonly dataSource = AppDataSource.getInstance()
+  ) {
+    super();
+    this.options = { ...DEFAULT_QUEUE_OPTIONS, ...stripUndefined(options) };
+    if (this.options.concurrency < 1) {
+      throw new RangeError('A job queue needs at least one worker');
+    }
+    this.jobs = dataSource.getRepository(JobEntity);
+    this.logs = dataSource.getRepository(JobLogEntity);
+  }
+
+  /**
+   * Start taking jobs. Jobs left running by a previous process are queued
+   * again without counting the interrupted attempt.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.find({ where: { status: 'running' } })) {
+      this.jobs.update(job.id, {
+        status: 'queued',
+        attempts: Math.max(0, job.attempts - 1),
+      });
+      this.log(job.id, 'warn', 'Job interrupted by a restart; queued again');
+    }
+
+    this.timer = setInterval(() => this.drain(), this.options.pollIntervalMs);
+    this.timer.unref();
+    this.drain();
+  }
+
+  /**
+   * Stop taking jobs. Running jobs are aborted and queued again without
+   * counting the attempt.
+   */
+  async stop(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+    clearInterval(this.timer);
+    this.timer = undefined;
+
+    const running = [...this.running.values()];
+    for (const { controller } of running) {
+      controller.abort(new QueueStoppedError());
+    }
+    await Promise.all(running.map(({ settled }) => settled));
+  }
+
+  /**
+   * Look for work now instead of at the next poll
+   */
+  notify(): void {
+    setImmediate(() => this.drain());
+  }
+
+  isRunning(jobId: string): boolean {
+    return this.running.has(jobId);
+  }
+
+  /**
+   * Cancel a queued or running job, aborting the work of a running one.
+   * Returns false for jobs that have already finished.
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    const running = this.running.get(jobId);
+    if (running) {
+      running.controller.abort(new JobCancelledError());
+      await running.settled;
+      return true;
+    }
+
+    const job = this.jobs.findOne({ id: jobId });
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return false;
+    }
+    // A job running in another process stops when that process sees this
+    this.settle(job, 'cancelled', { cancelledAt: new Date() });
+    return true;
+  }
+
+  getStats(): QueueStats {
+    return {
+      concurrency: this.options.concurrency,
+      running: this.running.size,
+      jobs: this.jobs.countBy('status'),
+    };
+  }
+
+  private drain(): void {
+    while (this.started && this.running.size < this.options.concurrency) {
+      const job = this.claim();
+      if (!job) return;
+      void this.execute(job);
+    }
+  }
+
+  /**
+   * Mark the next due job running and return it
+   */
+  private claim(): JobRecord | undefined {
+    const now = new Date();
+    return this.dataSource.transaction(() => {
+      const next = this.dataSource
+        .getDatabase()
+        .prepare(
+          `SELECT id FROM jobs WHERE status = 'queued' AND (run_after IS NULL OR run_after <= ?) ORDER BY priority DESC, created_at ASC LIMIT 1`
+        )
+        .get(now.toISOString()) as { id: string } | undefined;
+      if (!next) return undefined;
+
+      const job = this.jobs.findOne({ id: next.id })!;
+      const claimed: JobRecord = {
+        ...job,
+        status: 'running',
+        attempts: job.attempts + 1,
+        progress: 0,
+        startedAt: now,
+      };
+      this.jobs.update(job.id, {
+        status: claimed.status,
+        attempts: claimed.attempts,
+        progress: 0,
+        startedAt: now,
+        runAfter: null,
+      });
+      return claimed;
+    });
+  }
+
+  private async execute(job: JobRecord): Promise<void> {
+    const controller = new AbortController();
+    const timeoutMs = job.timeoutMs ?? this.options.timeoutMs;
+    const timer = setTimeout(
+      () => controller.abort(new JobTimeoutError(timeoutMs)),
+      timeoutMs
+    );
+    let settle!: () => void;
+    const settled = new Promise<void>((resolve) => (settle = resolve));
+    this.running.set(job.id, { controller, settled });
+    this.log(
+      job.id,
+      'info',
+      `Attempt ${job.attempts} of ${job.maxAttempts} started`
+    );
+
+    try {
+      // Free the worker on abort even if the runner ignores the signal
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () =>
+          reject(controller.signal.reason)
+        );
+      });
+      const result = await Promise.race([
+        this.runner(job, controller.signal),
+        aborted,
+      ]);
+      this.complete(job, result);
+    } catch (error) {
+      this.fail(
+        job,
+        controller.signal.aborted ? controller.signal.reason : error
+      );
+    } finally {
+      clearTimeout(timer);
+      this.running.delete(job.id);
+      settle();
+      this.drain();
+    }
+  }
+
+  private complete(job: JobRecord, result: unknown): void {
+    // Cancelled by another process while it ran
+    if (this.jobs.findOne({ id: job.id })?.status !== 'running') return;
+
+    this.settle(job, 'completed', {
+      progress: 100,
+      result: result ?? null,
+      error: null,
+      completedAt: new Date(),
+    });
+  }
+
+  private fail(job: JobRecord, error: unknown): void {
+    const current = this.jobs.findOne({ id: job.id });
+    if (current?.status !== 'running') return;
+
+    if (error instanceof QueueStoppedError) {
+      this.jobs.update(job.id, {
+        status: 'queued',
+        attempts: job.attempts - 1,
+      });
+      this.log(job.id, 'warn', 'Job interrupted by shutdown; queued again');
+      return;
+    }
+    if (error instanceof JobCancelledError) {
+      this.settle(job, 'cancelled', { cancelledAt: new Date() });
+      return;
+    }
+
+    const message = errorMessage(error);
+    if (job.attempts >= job.maxAttempts) {
+      this.settle(job, 'dead', { error: message, completedAt: new Date() });
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.backoffMs * 2 ** (job.attempts - 1),
+      this.options.maxBackoffMs
+    );
+    this.jobs.update(job.id, {
+      status: 'queued',
+      error: message,
+      runAfter: new Date(Date.now() + delay),
+    });
+    this.log(
+      job.id,
+      'warn',
+      `Attempt ${job.attempts} failed: ${message}; retrying in ${delay}ms`
+    );
+    this.emit('retrying', this.jobs.findOne({ id: job.id }));
+  }
+
+  private settle(
+    job: JobRecord,
+    status: 'completed' | 'cancelled' | 'dead',
+    changes: Changes<JobRecord>
+  ): void {
+    this.jobs.update(job.id, { ...changes, status });
+    this.log(
+      job.id,
+      status === 'dead' ? 'error' : 'info',
+      status === 'dead'
+        ? `Job failed after ${job.attempts} attempts: ${changes.error}`
+        : `Job ${status}`
+    );
+    this.emit(status, this.jobs.findOne({ id: job.id }));
+  }
+
+  private log(jobId: string, level: JobLogRecord['level'], message: string) {
+    this.logs.save({ jobId, level, message, createdAt: new Date() });
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof (error as { message?: unknown })?.message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return String(error);
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
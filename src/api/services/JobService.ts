@@ -1,95 +1,432 @@
 /**
  * Job Service
- * 
- * Manages background jobs and task queues
+ *
+ * Manages conversion, validation, test and batch jobs. Jobs and their logs
+ * are stored in the API database, and the job queue runs them; jobs that
+ * fail every attempt can be inspected and retried from the dead-letter
+ * queue. A service for a tenant only sees and creates that tenant's jobs.
  */
 
-export interface Job {
-  id: string;
-  type: 'conversion' | 'validation' | 'test' | 'batch';
-  status: 'queued' | 'running' | 'completed' | 'failed';
-  data: any;
-  result?: any;
-  error?: string;
-  createdAt: Date;
-  startedAt?: Date;
-  completedAt?: Date;
-  progress?: number;
+import { randomUUID } from 'crypto';
+
+import { resolveSandboxLimits } from '../../cli/utils/sandbox.js';
+import {
+  AppDataSource,
+  type Changes,
+  type Page,
+  type Repository,
+} from '../../database/dataSource.js';
+import {
+  JobEntity,
+  JobLogEntity,
+  type JobLogRecord,
+  type JobRecord,
+} from '../../database/entities.js';
+
+import {
+  DEFAULT_QUEUE_OPTIONS,
+  JobQueue,
+  type QueueStats,
+} from './JobQueue.js';
+
+export type Job = JobRecord;
+export type JobLog = JobLogRecord;
+
+export const JOB_TYPES: Job['type'][] = [
+  'conversion',
+  'validation',
+  'test',
+  'batch',
+];
+
+export interface CreateJobRequest {
+  type: Job['type'];
+  name: string;
+  /**
+   * What the job works on: a ConvertRequest for conversions, `{ input }` for
+   * validations, a TestRequest for tests and `{ batchId }` for batches
+   */
+  config?: any;
+  schedule?: string;
+  /** Higher runs first; 0 by default */
+  priority?: number;
+  /** Attempts before the job is dead; the queue's default when unset */
+  maxAttempts?: number;
+  /** Milliseconds an attempt may run; the queue's default when unset */
+  timeoutMs?: number;
+}
+
+export interface JobListOptions {
+  status?: string;
+  type?: string;
+  /** Only jobs created at or after this time */
+  from?: Date;
+  /** Only jobs created before this time */
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/** Pagination of a listing, as the routes return it */
+export type Pagination = Omit<Page<unknown>, 'items'>;
+
+export interface JobActionResult {
+  success: boolean;
+  job: Job;
+  message: string;
 }
 
 export class JobService {
-  private jobs: Map<string, Job> = new Map();
-  private queue: Job[] = [];
+  private jobs: Repository<Job>;
+  private logs: Repository<JobLog>;
+
+  constructor(
+    private readonly dataSource: AppDataSource = AppDataSource.getInstance(),
+    private readonly queue?: JobQueue,
+    private readonly tenantId?: string
+  ) {
+    this.jobs = dataSource.getRepository(JobEntity);
+    this.logs = dataSource.getRepository(JobLogEntity);
+  }
+
+  /**
+   * The same service limited to the jobs of a tenant; all jobs when
+   * `tenantId` is undefined
+   */
+  forTenant(tenantId: string | undefined): JobService {
+    return new JobService(this.dataSource, this.queue, tenantId);
+  }
 
-  async createJob(type: Job['type'], data: any): Promise<Job> {
-    const job: Job = {
-      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type,
+  /**
+   * Queue a job. It runs once a worker is free; throws a RangeError for
+   * invalid settings.
+   */
+  async createJob(request: CreateJobRequest): Promise<Job> {
+    if (!JOB_TYPES.includes(request.type)) {
+      throw new RangeError(
+        `Unknown job type '${request.type}': use one of ${JOB_TYPES.join(', ')}`
+      );
+    }
+    const { priority = 0, timeoutMs } = request;
+    const maxAttempts =
+      request.maxAttempts ??
+      (this.queue?.options ?? DEFAULT_QUEUE_OPTIONS).maxAttempts;
+    if (!Number.isInteger(priority)) {
+      throw new RangeError('priority must be an integer');
+    }
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new RangeError('maxAttempts must be a positive integer');
+    }
+    if (
+      timeoutMs !== undefined &&
+      !(Number.isInteger(timeoutMs) && timeoutMs > 0)
+    ) {
+      throw new RangeError('timeoutMs must be a positive integer');
+    }
+    if (request.type === 'test') {
+      resolveSandboxLimits(request.config?.options?.sandbox);
+    }
+
+    const job = this.jobs.save({
+      id: `job_${randomUUID()}`,
+      tenantId: this.tenantId,
+      type: request.type,
+      name: request.name,
       status: 'queued',
-      data,
-      createdAt: new Date()
-    };
-    
-    this.jobs.set(job.id, job);
-    this.queue.push(job);
-    
+      config: request.config,
+      schedule: request.schedule,
+      priority,
+      attempts: 0,
+      maxAttempts,
+      timeoutMs,
+      progress: 0,
+      createdAt: new Date(),
+    });
+    this.log(job.id, 'info', `Job created: ${job.name}`);
+    this.queue?.notify();
     return job;
   }
 
+  async listJobs(
+    options: JobListOptions = {}
+  ): Promise<{ jobs: Job[] } & Pagination> {
+    const { items, ...pagination } = this.jobs.findPage(
+      {
+        where: {
+          tenantId: this.tenantId,
+          status: options.status as Job['status'] | undefined,
+          type: options.type as Job['type'] | undefined,
+        },
+        between: { column: 'createdAt', from: options.from, to: options.to },
+        order: [['createdAt', 'DESC']],
+      },
+      options.page,
+      options.limit
+    );
+    return { jobs: items, ...pagination };
+  }
+
   async getJob(jobId: string): Promise<Job | undefined> {
-    return this.jobs.get(jobId);
+    return this.jobs.findOne({ id: jobId, tenantId: this.tenantId });
   }
 
   async getAllJobs(): Promise<Job[]> {
-    return Array.from(this.jobs.values());
+    return this.jobs.find({
+      where: { tenantId: this.tenantId },
+      order: [['createdAt', 'DESC']],
+    });
+  }
+
+  /**
+   * Queue a finished, cancelled or dead job to run again, with all of its
+   * attempts
+   */
+  async startJob(jobId: string): Promise<JobActionResult> {
+    const job = this.requireJob(jobId);
+    if (job.status === 'queued' || job.status === 'running') {
+      return { success: false, job, message: `Job is already ${job.status}` };
+    }
+
+    return {
+      success: true,
+      job: this.requeue(job),
+      message: 'Job queued',
+    };
+  }
+
+  /**
+   * Cancel a queued job, or abort a running one
+   */
+  async cancelJob(jobId: string): Promise<JobActionResult> {
+    const job = this.requireJob(jobId);
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return { success: false, job, message: `Job is already ${job.status}` };
+    }
+
+    if (!(await this.queue?.cancel(jobId))) {
+      // No queue in this process: a worker elsewhere drops the result
+      this.jobs.update(jobId, { status: 'cancelled', cancelledAt: new Date() });
+      this.log(jobId, 'info', 'Job cancelled');
+    }
+    return {
+      success: true,
+      job: this.requireJob(jobId),
+      message: 'Job cancelled',
+    };
+  }
+
+  async updateJob(
+    jobId: string,
+    updates: Partial<Pick<Job, 'name' | 'config' | 'schedule'>>
+  ): Promise<Job> {
+    const job = this.requireJob(jobId);
+    const changes = {
+      name: updates.name,
+      config: updates.config,
+      schedule: updates.schedule,
+    };
+    this.jobs.update(jobId, changes);
+    this.log(jobId, 'info', 'Job updated');
+    return { ...job, ...stripUndefined(changes) };
   }
 
   async updateJobStatus(
-    jobId: string, 
-    status: Job['status'], 
-    result?: any, 
+    jobId: string,
+    status: Job['status'],
+    result?: any,
     error?: string
   ): Promise<Job | undefined> {
-    const job = this.jobs.get(jobId);
+    const job = await this.getJob(jobId);
     if (!job) return undefined;
-    
-    job.status = status;
-    
-    if (status === 'running' && !job.startedAt) {
-      job.startedAt = new Date();
+
+    const changes: Changes<Job> =
+      status === 'running'
+        ? {
+            status,
+            progress: 0,
+            startedAt: new Date(),
+            cancelledAt: null,
+            completedAt: null,
+            result: null,
+            error: null,
+          }
+        : { status };
+    if (status === 'completed' || status === 'dead') {
+      changes.completedAt = new Date();
     }
-    
-    if (status === 'completed' || status === 'failed') {
-      job.completedAt = new Date();
+    if (status === 'cancelled') {
+      changes.cancelledAt = new Date();
+    }
+    if (status === 'completed') {
+      changes.progress = 100;
     }
-    
     if (result !== undefined) {
-      job.result = result;
+      changes.result = result;
     }
-    
     if (error !== undefined) {
-      job.error = error;
+      changes.error = error;
     }
-    
-    return job;
+
+    this.jobs.update(jobId, changes);
+    return this.getJob(jobId);
   }
 
   async updateJobProgress(jobId: string, progress: number): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (job) {
-      job.progress = Math.min(100, Math.max(0, progress));
+    this.jobs.update(jobId, {
+      progress: Math.min(100, Math.max(0, progress)),
+    });
+  }
+
+  /**
+   * Delete a job and its logs, aborting it first if it is running
+   */
+  async deleteJob(
+    jobId: string
+  ): Promise<{ success: boolean; message: string }> {
+    if (!(await this.getJob(jobId))) {
+      return { success: false, message: 'Job not found' };
+    }
+    if (this.queue?.isRunning(jobId)) {
+      await this.queue.cancel(jobId);
     }
+    const deleted = this.jobs.delete({ id: jobId }) > 0;
+    return {
+      success: deleted,
+      message: deleted ? 'Job deleted' : 'Job not found',
+    };
   }
 
-  async deleteJob(jobId: string): Promise<boolean> {
-    return this.jobs.delete(jobId);
+  async getJobLogs(
+    jobId: string,
+    page?: number,
+    limit?: number
+  ): Promise<{ logs: JobLog[] } & Pagination> {
+    this.requireJob(jobId);
+    const { items, ...pagination } = this.logs.findPage(
+      { where: { jobId }, order: [['id', 'ASC']] },
+      page,
+      limit,
+      100
+    );
+    return { logs: items, ...pagination };
   }
 
+  /**
+   * Queued jobs in the order they will start
+   */
   async getQueuedJobs(): Promise<Job[]> {
-    return this.queue.filter(job => job.status === 'queued');
+    return this.jobs.find({
+      where: { tenantId: this.tenantId, status: 'queued' },
+      order: [
+        ['priority', 'DESC'],
+        ['createdAt', 'ASC'],
+      ],
+    });
   }
 
   async getNextJob(): Promise<Job | undefined> {
-    return this.queue.find(job => job.status === 'queued');
+    const now = new Date();
+    return (await this.getQueuedJobs()).find(
+      (job) => !job.runAfter || job.runAfter <= now
+    );
   }
-}
\ No newline at end of file
+
+  /**
+   * Workers of the queue, and the jobs of this service's tenant by status
+   */
+  getQueueStats(): QueueStats {
+    const jobs = this.jobs.countBy('status', {
+      where: { tenantId: this.tenantId },
+    });
+    const stats = this.queue?.getStats();
+    return {
+      concurrency: stats?.concurrency ?? 0,
+      running: stats?.running ?? 0,
+      jobs,
+    };
+  }
+
+  /**
+   * Jobs that failed every attempt, most recent first
+   */
+  async listDeadLetters(
+    page?: number,
+    limit?: number
+  ): Promise<{ jobs: Job[] } & Pagination> {
+    const { items, ...pagination } = this.jobs.findPage(
+      {
+        where: { tenantId: this.tenantId, status: 'dead' },
+        order: [['completedAt', 'DESC']],
+      },
+      page,
+      limit
+    );
+    return { jobs: items, ...pagination };
+  }
+
+  /**
+   * Queue a dead job to run again, with all of its attempts
+   */
+  async retryDeadLetter(jobId: string): Promise<JobActionResult> {
+    const job = this.requireJob(jobId);
+    if (job.status !== 'dead') {
+      return {
+        success: false,
+        job,
+        message: `Job is ${job.status}, not in the dead-letter queue`,
+      };
+    }
+
+    return {
+      success: true,
+      job: this.requeue(job),
+      message: 'Job queued',
+    };
+  }
+
+  /**
+   * Delete dead jobs, or those that died before `before`
+   */
+  async purgeDeadLetters(before?: Date): Promise<number> {
+    return this.jobs.delete(
+      { tenantId: this.tenantId, status: 'dead' },
+      before && { column: 'completedAt', to: before }
+    );
+  }
+
+  private requeue(job: Job): Job {
+    const changes: Changes<Job> = {
+      status: 'queued',
+      attempts: 0,
+      progress: 0,
+      result: null,
+      error: null,
+      runAfter: null,
+      startedAt: null,
+      cancelledAt: null,
+      completedAt: null,
+    };
+    this.jobs.update(job.id, changes);
+    this.log(job.id, 'info', 'Job queued again');
+    this.queue?.notify();
+    return this.requireJob(job.id);
+  }
+
+  private requireJob(jobId: string): Job {
+    const job = this.jobs.findOne({ id: jobId, tenantId: this.tenantId });
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private log(jobId: string, level: JobLog['level'], message: string): void {
+    this.logs.save({ jobId, level, message, createdAt: new Date() });
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
@@ -1,10 +1,29 @@
 /**
  * Stats Service
- * 
- * Provides statistics and analytics for conversions
+ *
+ * Provides statistics and analytics for conversions. Every conversion the
+ * API runs is stored in the API database, so statistics cover the server's
+ * whole history and can be asked for any period. A service for a tenant
+ * only counts that tenant's conversions, jobs and batches.
  */
 
+import { randomUUID } from 'crypto';
+
+import { AppDataSource, type Repository } from '../../database/dataSource.js';
+import {
+  BatchEntity,
+  ConversionEntity,
+  JobEntity,
+  type BatchRecord,
+  type ConversionRecord,
+  type JobRecord,
+} from '../../database/entities.js';
+
+import type { Pagination } from './JobService.js';
+
 export interface ConversionStats {
+  from: string;
+  to: string;
   totalConversions: number;
   successfulConversions: number;
   failedConversions: number;
@@ -26,96 +45,260 @@ export interface SystemStats {
   completedJobs: number;
 }
 
+export interface OverviewStats {
+  conversions: ConversionStats;
+  /** Jobs by status */
+  jobs: Record<string, number>;
+  /** Batches by status */
+  batches: Record<string, number>;
+  system: SystemStats;
+}
+
+export interface StatsPeriod {
+  /** Start of the period; defaults to `days` before `to` */
+  from?: Date;
+  /** End of the period, exclusive; defaults to now */
+  to?: Date;
+  /** Length of the period when `from` is not given; defaults to 7 */
+  days?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class StatsService {
-  private conversionHistory: Array<{
-    timestamp: Date;
-    success: boolean;
-    duration: number;
-    nodeTypes: string[];
-    error?: string;
-  }> = [];
+  private conversions: Repository<ConversionRecord>;
+  private jobs: Repository<JobRecord>;
+  private batches: Repository<BatchRecord>;
+
+  constructor(
+    dataSource: AppDataSource = AppDataSource.getInstance(),
+    private readonly tenantId?: string
+  ) {
+    this.conversions = dataSource.getRepository(ConversionEntity);
+    this.jobs = dataSource.getRepository(JobEntity);
+    this.batches = dataSource.getRepository(BatchEntity);
+  }
 
+  /**
+   * Record a conversion that did not run through the ConversionService
+   */
   recordConversion(
     success: boolean,
     duration: number,
     nodeTypes: string[],
     error?: string
   ): void {
-    this.conversionHistory.push({
-      timestamp: new Date(),
-      success,
-      duration,
+    const now = new Date();
+    this.conversions.save({
+      id: randomUUID(),
+      tenantId: this.tenantId,
+      status: success ? 'completed' : 'failed',
+      progress: 100,
+      nodeCount: nodeTypes.length,
       nodeTypes,
-      error
+      durationMs: duration,
+      error: error ? { code: 'CONVERSION_ERROR', message: error } : undefined,
+      createdAt: new Date(now.getTime() - duration),
+      startedAt: new Date(now.getTime() - duration),
+      completedAt: now,
     });
   }
 
-  getConversionStats(): ConversionStats {
-    const total = this.conversionHistory.length;
-    const successful = this.conversionHistory.filter(c => c.success).length;
-    const failed = total - successful;
-    
-    const totalDuration = this.conversionHistory.reduce((sum, c) => sum + c.duration, 0);
-    const averageTime = total > 0 ? totalDuration / total : 0;
-    
+  getConversionStats(period: StatsPeriod = {}): ConversionStats {
+    const { from, to } = resolvePeriod(period);
+    const finished = this.conversions
+      .find({
+        where: { tenantId: this.tenantId },
+        between: { column: 'createdAt', from, to },
+      })
+      .filter(({ status }) => status === 'completed' || status === 'failed');
+
+    const successful = finished.filter((c) => c.status === 'completed').length;
+    const totalDuration = finished.reduce(
+      (sum, c) => sum + (c.durationMs ?? 0),
+      0
+    );
+
     const nodeTypeDistribution: Record<string, number> = {};
     const errorDistribution: Record<string, number> = {};
-    
-    this.conversionHistory.forEach(conversion => {
-      conversion.nodeTypes.forEach(type => {
+    const daily = new Map<string, number>();
+
+    for (const conversion of finished) {
+      for (const type of conversion.nodeTypes ?? []) {
         nodeTypeDistribution[type] = (nodeTypeDistribution[type] || 0) + 1;
-      });
-      
-      if (conversion.error) {
-        errorDistribution[conversion.error] = (errorDistribution[conversion.error] || 0) + 1;
       }
-    });
-    
-    // Calculate daily conversions for the last 7 days
+      const error = conversion.error?.message;
+      if (error) {
+        errorDistribution[error] = (errorDistribution[error] || 0) + 1;
+      }
+      const date = toDate(conversion.createdAt);
+      daily.set(date, (daily.get(date) ?? 0) + 1);
+    }
+
+    // One entry per day of the period, including days without conversions
     const dailyConversions: Array<{ date: string; count: number }> = [];
-    const now = new Date();
-    
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      date.setHours(0, 0, 0, 0);
-      
-      const nextDate = new Date(date);
-      nextDate.setDate(nextDate.getDate() + 1);
-      
-      const count = this.conversionHistory.filter(c => 
-        c.timestamp >= date && c.timestamp < nextDate
-      ).length;
-      
-      dailyConversions.push({
-        date: date.toISOString().split('T')[0],
-        count
-      });
+    for (
+      let day = startOfDay(from);
+      day < to;
+      day = new Date(day.getTime() + DAY_MS)
+    ) {
+      const date = toDate(day);
+      dailyConversions.push({ date, count: daily.get(date) ?? 0 });
     }
-    
+
     return {
-      totalConversions: total,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totalConversions: finished.length,
       successfulConversions: successful,
-      failedConversions: failed,
-      averageConversionTime: averageTime,
+      failedConversions: finished.length - successful,
+      averageConversionTime:
+        finished.length > 0 ? totalDuration / finished.length : 0,
       nodeTypeDistribution,
       errorDistribution,
-      dailyConversions
+      dailyConversions,
     };
   }
 
-  getSystemStats(activeJobs = 0, queuedJobs = 0, completedJobs = 0): SystemStats {
+  /**
+   * Conversions in a period, newest first, without their generated files
+   */
+  getConversionHistory(
+    period: StatsPeriod & {
+      status?: string;
+      page?: number;
+      limit?: number;
+    } = {}
+  ): { conversions: Array<Omit<ConversionRecord, 'result'>> } & Pagination {
+    const { from, to } = resolvePeriod(period);
+    const { items, ...pagination } = this.conversions.findPage(
+      {
+        where: {
+          tenantId: this.tenantId,
+          status: period.status as ConversionRecord['status'],
+        },
+        between: { column: 'createdAt', from, to },
+        order: [['createdAt', 'DESC']],
+      },
+      period.page,
+      period.limit
+    );
+    return {
+      conversions: items.map(
+        ({ result: _result, ...conversion }) => conversion
+      ),
+      ...pagination,
+    };
+  }
+
+  getSystemStats(): SystemStats {
+    const jobs = this.jobs.countBy('status', {
+      where: { tenantId: this.tenantId },
+    });
     return {
       uptime: process.uptime(),
       memoryUsage: process.memoryUsage(),
       cpuUsage: process.cpuUsage(),
-      activeJobs,
-      queuedJobs,
-      completedJobs
+      activeJobs: jobs['running'] ?? 0,
+      queuedJobs: jobs['queued'] ?? 0,
+      completedJobs: jobs['completed'] ?? 0,
+    };
+  }
+
+  getOverviewStats(period: StatsPeriod = {}): OverviewStats {
+    return {
+      conversions: this.getConversionStats(period),
+      jobs: this.jobs.countBy('status', {
+        where: { tenantId: this.tenantId },
+      }),
+      batches: this.batches.countBy('status', {
+        where: { tenantId: this.tenantId },
+      }),
+      system: this.getSystemStats(),
     };
   }
 
-  clearHistory(): void {
-    this.conversionHistory = [];
+  /**
+   * The conversions of a period as JSON, or as CSV with one row per
+   * conversion
+   */
+  exportStats(format: 'json' | 'csv', period: StatsPeriod = {}): string {
+    const { from, to } = resolvePeriod(period);
+    const conversions = this.conversions.find({
+      where: { tenantId: this.tenantId },
+      between: { column: 'createdAt', from, to },
+      order: [['createdAt', 'ASC']],
+    });
+
+    if (format === 'json') {
+      return JSON.stringify(
+        {
+          stats: this.getConversionStats({ from, to }),
+          conversions: conversions.map(
+            ({ result: _result, ...conversion }) => conversion
+          ),
+        },
+        null,
+        2
+      );
+    }
+
+    const rows = conversions.map((c) =>
+      [
+        c.id,
+        c.status,
+        c.createdAt.toISOString(),
+        c.durationMs ?? '',
+        c.nodeCount ?? '',
+        (c.nodeTypes ?? []).join(' '),
+        c.error?.message ?? '',
+      ]
+        .map(csvField)
+        .join(',')
+    );
+    return [
+      'id,status,createdAt,durationMs,nodeCount,nodeTypes,error',
+      ...rows,
+    ].join('\n');
+  }
+
+  /**
+   * Delete recorded conversions, or those created before `before`
+   */
+  clearHistory(before?: Date): number {
+    return this.conversions.delete(
+      { tenantId: this.tenantId },
+      before && { column: 'createdAt', to: before }
+    );
+  }
+}
+
+function resolvePeriod(period: StatsPeriod): { from: Date; to: Date } {
+  const to = period.to ?? new Date();
+  const from =
+    period.from ??
+    new Date(startOfDay(to).getTime() - ((period.days ?? 7) - 1) * DAY_MS);
+  if (from >= to) {
+    throw new RangeError('The start of a stats period must be before its end');
   }
-}
\ No newline at end of file
+  return { from, to };
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function toDate(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,14 +1,22 @@
 /**
  * Testing Service
  * 
- * Handles testing of converted LangChain code
+ * Handles testing of converted LangChain code. Code and tests run in a
+ * sandboxed process with the limits given, never with the server's access.
  */
 
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 
+import {
+  runSandboxed,
+  type SandboxLimits,
+  type SandboxResult,
+} from '../../cli/utils/sandbox.js';
+
 const execAsync = promisify(exec);
 
 export interface TestResult {
@@ -21,32 +29,38 @@ export interface TestResult {
 }
 
 export class TestingService {
-  async runTests(projectPath: string, testCommand?: string): Promise<TestResult> {
+  async runTests(projectPath: string, limits: SandboxLimits = {}): Promise<TestResult> {
     const startTime = Date.now();
     
     try {
       // Check if project exists
       await fs.access(projectPath);
       
-      // Default test command
-      const cmd = testCommand || 'npm test';
+      const jest = path.join(projectPath, 'node_modules', 'jest', 'bin', 'jest.js');
+      await fs.access(jest);
       
-      // Run tests
-      const { stdout, stderr } = await execAsync(cmd, {
-        cwd: projectPath,
-        timeout: 60000 // 1 minute timeout
+      // Run tests with the project's jest, confined to the project
+      const result = await runSandboxed(jest, {
+        timeoutMs: 60000, // 1 minute timeout
+        ...limits,
+        root: projectPath,
+        readPaths: [path.join(projectPath, 'node_modules')],
+        nodeOptions: ['--experimental-vm-modules'],
+        env: { NODE_ENV: 'test' },
+        args: ['--runInBand', '--ci', '--watchman=false', `--cacheDirectory=${path.join(projectPath, '.jest-cache')}`]
       });
       
       const duration = Date.now() - startTime;
       
-      // Parse test results if possible
-      const testsPassed = this.extractTestCount(stdout, /(\d+) passed/);
-      const testsFailed = this.extractTestCount(stdout, /(\d+) failed/);
+      // Jest reports its summary on stderr
+      const output = result.stdout + result.stderr;
+      const testsPassed = this.extractTestCount(output, /(\d+) passed/);
+      const testsFailed = this.extractTestCount(output, /(\d+) failed/);
       
       return {
-        success: !stderr || stderr.length === 0,
-        output: stdout,
-        error: stderr,
+        success: result.exitCode === 0,
+        output: result.stdout,
+        error: this.sandboxError(result) ?? result.stderr,
         duration,
         testsPassed,
         testsFailed
@@ -65,39 +79,46 @@ export class TestingService {
   async runSingleTest(
     code: string, 
     testInput?: any,
-    language: 'typescript' | 'javascript' = 'typescript'
+    language: 'typescript' | 'javascript' = 'typescript',
+    limits: SandboxLimits = {}
   ): Promise<TestResult> {
     const startTime = Date.now();
+    let tmpDir: string | undefined;
     
     try {
-      // Create temporary directory
-      const tmpDir = path.join(process.cwd(), '.tmp', `test_${Date.now()}`);
-      await fs.mkdir(tmpDir, { recursive: true });
+      // Create temporary directory outside the server's working directory
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flowise-test-'));
+      
+      // The sandbox cannot start tsx, so TypeScript is transpiled first
+      if (language === 'typescript') {
+        const { default: ts } = await import('typescript');
+        code = ts.transpileModule(code, {
+          compilerOptions: {
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.ESNext,
+            esModuleInterop: true
+          }
+        }).outputText;
+      }
       
       // Write test file
-      const ext = language === 'typescript' ? 'ts' : 'js';
-      const testFile = path.join(tmpDir, `test.${ext}`);
+      const testFile = path.join(tmpDir, 'test.mjs');
       await fs.writeFile(testFile, code);
       
       // Run the test
-      const cmd = language === 'typescript' 
-        ? `npx tsx ${testFile}`
-        : `node ${testFile}`;
-        
-      const { stdout, stderr } = await execAsync(cmd, {
-        cwd: tmpDir,
-        timeout: 30000
+      const result = await runSandboxed(testFile, {
+        timeoutMs: 30000,
+        ...limits,
+        root: tmpDir,
+        env: testInput !== undefined ? { TEST_INPUT: JSON.stringify(testInput) } : {}
       });
       
-      // Clean up
-      await fs.rm(tmpDir, { recursive: true, force: true });
-      
       const duration = Date.now() - startTime;
       
       return {
-        success: true,
-        output: stdout,
-        error: stderr,
+        success: result.exitCode === 0,
+        output: result.stdout,
+        error: this.sandboxError(result) ?? result.stderr,
         duration
       };
     } catch (error) {
@@ -108,6 +129,11 @@ export class TestingService {
         error: error instanceof Error ? error.message : 'Unknown error',
         duration
       };
+    } finally {
+      // Clean up
+      if (tmpDir) {
+        await fs.rm(tmpDir, { recursive: true, force: true });
+      }
     }
   }
 
@@ -146,6 +172,19 @@ export class TestingService {
     }
   }
 
+  private sandboxError(result: SandboxResult): string | undefined {
+    switch (result.limit) {
+      case 'timeout':
+        return `Timed out after ${result.durationMs}ms`;
+      case 'cpu':
+        return 'Used up its CPU time';
+      case 'memory':
+        return 'Ran out of memory';
+      default:
+        return undefined;
+    }
+  }
+
   private extractTestCount(output: string, pattern: RegExp): number | undefined {
     const match = output.match(pattern);
     return match ? parseInt(match[1], 10) : undefined;
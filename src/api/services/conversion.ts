@@ -11,6 +11,11 @@ import { join } from 'path';
 import { writeFile, readFile, mkdir, rm } from 'fs/promises';
 import { existsSync } from 'fs';
 import { ConverterPipeline } from '../../converter.js';
+import { AppDataSource, Repository } from '../../database/dataSource.js';
+import {
+  ConversionEntity,
+  ConversionRecord,
+} from '../../database/entities.js';
 import { FlowiseToLangChainConverter } from '../../index.js';
 import { logger } from '../../cli/utils/logger.js';
 import {
@@ -33,27 +38,40 @@ interface ConversionJob {
   id: string;
   status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number;
+  createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
+  durationMs?: number;
+  nodeTypes?: string[];
   result?: ConvertResponse;
   error?: ApiError;
   inputPath?: string;
   outputPath?: string;
   tempDir?: string;
+  /** Tenant of the API key that started the conversion */
+  tenantId?: string;
+  /** Aborts the conversion at its next step */
+  signal?: AbortSignal;
   emitter: EventEmitter;
 }
 
 /**
  * Conversion Service class
+ *
+ * Jobs are stored in the API database as they progress, so their status and
+ * results outlive the server process; running jobs are also kept in memory
+ * for progress subscriptions and cancellation.
  */
 export class ConversionService extends EventEmitter {
   private jobs: Map<string, ConversionJob> = new Map();
+  private records: Repository<ConversionRecord>;
   private converter: FlowiseToLangChainConverter;
   private pipeline: ConverterPipeline;
   private tempDir: string;
 
-  constructor() {
+  constructor(dataSource: AppDataSource = AppDataSource.getInstance()) {
     super();
+    this.records = dataSource.getRepository(ConversionEntity);
     this.tempDir = join(tmpdir(), 'flowise-api-conversions');
     this.converter = new FlowiseToLangChainConverter();
     this.pipeline = new ConverterPipeline({
@@ -75,16 +93,23 @@ export class ConversionService extends EventEmitter {
   /**
    * Convert Flowise flow to LangChain code
    */
-  public async convert(request: ConvertRequest): Promise<ConvertResponse> {
+  public async convert(
+    request: ConvertRequest,
+    options: { signal?: AbortSignal; tenantId?: string } = {}
+  ): Promise<ConvertResponse> {
     const jobId = randomUUID();
     const job: ConversionJob = {
       id: jobId,
       status: 'queued',
       progress: 0,
+      createdAt: new Date(),
+      tenantId: options.tenantId,
+      signal: options.signal,
       emitter: new EventEmitter(),
     };
 
     this.jobs.set(jobId, job);
+    this.saveJob(job);
 
     try {
       // Update job status
@@ -128,7 +153,7 @@ export class ConversionService extends EventEmitter {
       const result = await this.pipeline.convertFile(inputPath, {
         outputPath: outputDir,
         includeLangfuse: conversionOptions.withLangfuse,
-        target: 'typescript',
+        target: conversionOptions.format === 'python' ? 'python' : 'typescript',
         outputFormat: conversionOptions.outputFormat || 'esm',
         includeComments: conversionOptions.includeComments !== false,
         overwrite: true,
@@ -176,6 +201,11 @@ export class ConversionService extends EventEmitter {
       // Update job status
       job.status = 'completed';
       job.completedAt = new Date();
+      job.durationMs = duration;
+      job.nodeTypes = [
+        ...result.analysis.supportedTypes,
+        ...result.analysis.unsupportedTypes,
+      ];
       job.result = response;
       job.progress = 100;
       this.emitProgress(job, 100, 'Conversion completed!');
@@ -197,9 +227,12 @@ export class ConversionService extends EventEmitter {
         details: error,
       };
 
-      job.status = 'failed';
+      job.status = job.signal?.aborted ? 'cancelled' : 'failed';
       job.completedAt = new Date();
+      job.durationMs =
+        job.completedAt.getTime() - (job.startedAt ?? job.createdAt).getTime();
       job.error = apiError;
+      this.saveJob(job);
 
       this.emit('conversion:failed', {
         jobId,
@@ -220,34 +253,24 @@ export class ConversionService extends EventEmitter {
   }
 
   /**
-   * Get job status
+   * Get job status; only jobs of `tenantId` when given
    */
-  public getJobStatus(jobId: string): JobInfo | null {
-    const job = this.jobs.get(jobId);
-    if (!job) return null;
-
-    return {
-      id: job.id,
-      type: 'convert',
-      status: job.status,
-      progress: job.progress,
-      createdAt: job.startedAt?.toISOString() || new Date().toISOString(),
-      startedAt: job.startedAt?.toISOString(),
-      completedAt: job.completedAt?.toISOString(),
-      result: job.result,
-      error: job.error,
-    };
+  public getJobStatus(jobId: string, tenantId?: string): JobInfo | null {
+    const record = this.records.findOne({ id: jobId, tenantId });
+    return record ? this.toJobInfo(record) : null;
   }
 
   /**
    * Cancel a conversion job
    */
-  public async cancelJob(jobId: string): Promise<boolean> {
+  public async cancelJob(jobId: string, tenantId?: string): Promise<boolean> {
     const job = this.jobs.get(jobId);
     if (!job || job.status !== 'running') return false;
+    if (tenantId !== undefined && job.tenantId !== tenantId) return false;
 
     job.status = 'cancelled';
     job.completedAt = new Date();
+    this.saveJob(job);
 
     // Clean up temporary files
     if (job.tempDir) {
@@ -261,20 +284,12 @@ export class ConversionService extends EventEmitter {
   }
 
   /**
-   * Get all jobs
+   * Get all jobs, or those of `tenantId`, newest first
    */
-  public getAllJobs(): JobInfo[] {
-    return Array.from(this.jobs.values()).map((job) => ({
-      id: job.id,
-      type: 'convert',
-      status: job.status,
-      progress: job.progress,
-      createdAt: job.startedAt?.toISOString() || new Date().toISOString(),
-      startedAt: job.startedAt?.toISOString(),
-      completedAt: job.completedAt?.toISOString(),
-      result: job.result,
-      error: job.error,
-    }));
+  public getAllJobs(tenantId?: string): JobInfo[] {
+    return this.records
+      .find({ where: { tenantId }, order: [['createdAt', 'DESC']] })
+      .map((record) => this.toJobInfo(record));
   }
 
   /**
@@ -296,7 +311,7 @@ export class ConversionService extends EventEmitter {
   }
 
   /**
-   * Clean up completed jobs
+   * Forget finished jobs kept in memory; their records stay in the database
    */
   public cleanupJobs(
     olderThan: Date = new Date(Date.now() - 24 * 60 * 60 * 1000)
@@ -308,6 +323,40 @@ export class ConversionService extends EventEmitter {
     }
   }
 
+  /**
+   * Store the current state of a job
+   */
+  private saveJob(job: ConversionJob): void {
+    this.records.save({
+      id: job.id,
+      tenantId: job.tenantId,
+      status: job.status,
+      progress: job.progress,
+      nodeCount: job.result?.analysis.nodeCount,
+      nodeTypes: job.nodeTypes,
+      durationMs: job.durationMs,
+      result: job.result,
+      error: job.error && { code: job.error.code, message: job.error.message },
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+    });
+  }
+
+  private toJobInfo(record: ConversionRecord): JobInfo {
+    return {
+      id: record.id,
+      type: 'convert',
+      status: record.status,
+      progress: record.progress,
+      createdAt: record.createdAt.toISOString(),
+      startedAt: record.startedAt?.toISOString(),
+      completedAt: record.completedAt?.toISOString(),
+      result: record.result,
+      error: record.error,
+    };
+  }
+
   /**
    * Map API options to CLI options
    */
@@ -427,7 +476,7 @@ export class ConversionService extends EventEmitter {
   }
   
   /**
-   * Emit progress update
+   * Emit progress update, stopping an aborted job here
    */
   private emitProgress(
     job: ConversionJob,
@@ -435,7 +484,9 @@ export class ConversionService extends EventEmitter {
     step: string,
     details?: string
   ): void {
+    job.signal?.throwIfAborted();
     job.progress = progress;
+    this.saveJob(job);
 
     const progressMessage: ProgressMessage = {
       jobId: job.id,
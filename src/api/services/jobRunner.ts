@@ -0,0 +1,47 @@
+/**
+ * Job Runner
+ *
+ * Does the work of each type of job for the job queue.
+ */
+
+import type { JobRecord } from '../../database/entities.js';
+import { validateFlowiseJson } from '../../index.js';
+import type { ConvertRequest, TestRequest } from '../types/api.js';
+
+import { BatchService } from './BatchService.js';
+import { ConversionService } from './conversion.js';
+import { TestService } from './test.js';
+
+/**
+ * Run a job: a ConvertRequest for conversions, `{ input }` for
+ * validations, a TestRequest for tests and `{ batchId }` for batches
+ */
+export async function runJob(
+  job: JobRecord,
+  signal: AbortSignal
+): Promise<unknown> {
+  const config = job.config ?? {};
+
+  switch (job.type) {
+    case 'conversion':
+      return new ConversionService().convert(config as ConvertRequest, {
+        signal,
+        tenantId: job.tenantId,
+      });
+    case 'validation':
+      if (config.input === undefined) {
+        throw new Error('Validation jobs need config.input');
+      }
+      return validateFlowiseJson(config.input);
+    case 'test':
+      return new TestService().runTests(config as TestRequest, { signal });
+    case 'batch':
+      if (!config.batchId) {
+        throw new Error('Batch jobs need config.batchId');
+      }
+      return new BatchService(undefined, job.tenantId).executeBatch(
+        config.batchId,
+        { signal }
+      );
+  }
+}
@@ -38,6 +38,8 @@ interface TestJob {
   result?: TestResponse;
   error?: ApiError;
   tempDir?: string;
+  /** Aborts the tests, killing the processes running them */
+  signal?: AbortSignal;
   emitter: EventEmitter;
 }
 
@@ -66,12 +68,16 @@ export class TestService extends EventEmitter {
   /**
    * Run tests on generated code
    */
-  public async runTests(request: TestRequest): Promise<TestResponse> {
+  public async runTests(
+    request: TestRequest,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<TestResponse> {
     const jobId = randomUUID();
     const job: TestJob = {
       id: jobId,
       status: 'queued',
       progress: 0,
+      signal: options.signal,
       emitter: new EventEmitter(),
     };
 
@@ -95,7 +101,8 @@ export class TestService extends EventEmitter {
       // Create test configuration
       const testConfig = this.createTestConfiguration(
         workspaceDir,
-        request.options || {}
+        request.options || {},
+        job.signal
       );
 
       // Initialize test runner
@@ -199,7 +206,7 @@ export class TestService extends EventEmitter {
         details: error,
       };
 
-      job.status = 'failed';
+      job.status = job.signal?.aborted ? 'cancelled' : 'failed';
       job.completedAt = new Date();
       job.error = apiError;
 
@@ -411,7 +418,8 @@ export class TestService extends EventEmitter {
    */
   private createTestConfiguration(
     workspaceDir: string,
-    options: TestOptions
+    options: TestOptions,
+    signal?: AbortSignal
   ): TestConfiguration {
     return {
       inputPath: join(workspaceDir, 'input.json'), // Placeholder
@@ -423,6 +431,9 @@ export class TestService extends EventEmitter {
       generateReport: options.generateReport !== false,
       fixTests: false,
       dryRun: false,
+      signal,
+      // Uploaded code only ever runs sandboxed
+      sandbox: options.sandbox ?? {},
     };
   }
 
@@ -573,7 +584,7 @@ export class TestService extends EventEmitter {
   }
 
   /**
-   * Emit progress update
+   * Emit progress update, stopping an aborted job here
    */
   private emitProgress(
     job: TestJob,
@@ -581,6 +592,7 @@ export class TestService extends EventEmitter {
     step: string,
     details?: string
   ): void {
+    job.signal?.throwIfAborted();
     job.progress = progress;
 
     const progressMessage = {
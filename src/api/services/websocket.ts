@@ -25,6 +25,8 @@ interface ConnectionInfo {
   id: string;
   ws: WebSocket;
   userId?: string;
+  /** Tenant of the connection's API key; undefined for the root key */
+  tenantId?: string;
   subscriptions: Set<string>;
   lastPing: Date;
   isAlive: boolean;
@@ -41,6 +43,11 @@ interface WebSocketConfig {
   subscriptionTimeout: number;
 }
 
+/**
+ * Whether a job belongs to a tenant
+ */
+type JobOwnership = (jobId: string, tenantId: string) => boolean;
+
 /**
  * WebSocket Service class
  */
@@ -51,11 +58,21 @@ export class WebSocketService extends EventEmitter {
   private subscriptions: Map<string, Set<string>> = new Map(); // jobId -> connectionIds
   private heartbeatInterval: NodeJS.Timeout;
   private cleanupInterval: NodeJS.Timeout;
+  private ownsJob: JobOwnership;
 
-  constructor(wss: WebSocketServer, config: Partial<WebSocketConfig> = {}) {
+  /**
+   * Connections made with a tenant's API key may only subscribe to the jobs
+   * `ownsJob` says belong to that tenant
+   */
+  constructor(
+    wss: WebSocketServer,
+    config: Partial<WebSocketConfig> = {},
+    ownsJob: JobOwnership = () => true
+  ) {
     super();
 
     this.wss = wss;
+    this.ownsJob = ownsJob;
     this.config = {
       heartbeatInterval: 30000,
       maxConnections: 100,
@@ -91,6 +108,7 @@ export class WebSocketService extends EventEmitter {
     const connection: ConnectionInfo = {
       id: connectionId,
       ws,
+      tenantId: req.apiKey?.tenantId,
       subscriptions: new Set(),
       lastPing: new Date(),
       isAlive: true,
@@ -220,6 +238,17 @@ export class WebSocketService extends EventEmitter {
       return;
     }
 
+    if (
+      connection.tenantId !== undefined &&
+      !this.ownsJob(jobId, connection.tenantId)
+    ) {
+      this.sendError(connectionId, {
+        code: 'JOB_NOT_FOUND',
+        message: `Job ${jobId} not found`,
+      });
+      return;
+    }
+
     // Add subscription
     connection.subscriptions.add(jobId);
     connection.userId = userId;
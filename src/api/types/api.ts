@@ -7,6 +7,10 @@
 import { ConversionOptions as CliConversionOptions } from '../../cli/types.js';
 import { ValidationResult } from '../../cli/types.js';
 import { TestResult } from '../../cli/types.js';
+import type { SandboxLimits } from '../../cli/utils/sandbox.js';
+import type { DataSourceConfig } from '../../database/dataSource.js';
+import type { DiffFormat, FlowDiffReport } from '../../diff/index.js';
+import type { JobQueueOptions } from '../services/JobQueue.js';
 
 /**
  * API Configuration
@@ -31,6 +35,10 @@ export interface ApiConfig {
     windowMs: number;
     max: number;
   };
+  /** Database for jobs, batches and statistics; SQLite under data/ by default */
+  database?: DataSourceConfig;
+  /** Workers, timeouts and retries of the job queue */
+  jobs?: JobQueueOptions;
 }
 
 /**
@@ -185,6 +193,32 @@ export interface ValidationSuggestion {
   autoFix?: string;
 }
 
+/**
+ * Diff API Types
+ */
+export interface DiffRequest {
+  /** Original flow as JSON content or a flow object */
+  before: string | object;
+  /** Changed flow as JSON content or a flow object */
+  after: string | object;
+  /** Diff options */
+  options?: DiffOptions;
+}
+
+export interface DiffOptions {
+  /** Rendered report format (the structured diff is always returned) */
+  format?: DiffFormat;
+  /** Include the generated code diff */
+  includeCode?: boolean;
+}
+
+export interface DiffResponse {
+  /** Structured differences */
+  diff: FlowDiffReport;
+  /** Report rendered in the requested format */
+  report: string;
+}
+
 /**
  * Test API Types
  */
@@ -210,6 +244,8 @@ export interface TestOptions {
   generateReport?: boolean;
   /** Environment file path */
   envFile?: string;
+  /** Limits of the sandbox the tests run in, and the hosts they may reach */
+  sandbox?: SandboxLimits;
 }
 
 export interface TestResponse {
@@ -0,0 +1,204 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { createInterface } from 'readline';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { config as loadEnv } from 'dotenv';
+import ora from 'ora';
+
+import {
+  ChatSession,
+  FlowInterpreter,
+  type ChatTurn,
+} from '../../runtime/index.js';
+import { logger } from '../utils/logger.js';
+import { validateInputFile } from '../utils/validation.js';
+
+const CHAT_COMMANDS: Array<[string, string]> = [
+  ['/reset', 'start the conversation over'],
+  ['/history', 'show the conversation so far'],
+  ['/trace', 'show the runs behind the last answer'],
+  ['/save <file>', 'save the conversation'],
+  ['/load <file>', 'continue a saved conversation'],
+  ['/help', 'list the commands'],
+  ['/exit', 'leave the chat'],
+];
+
+export const chatCommand = new Command('chat')
+  .description(
+    'Chat with a Flowise flow, built once in process and kept between turns'
+  )
+  .argument('<input>', 'Flowise JSON export file path')
+  .option(
+    '--session <file>',
+    'continue the conversation saved in a file, saving it after every turn'
+  )
+  .option('--no-stream', 'print each answer once it is complete')
+  .option('--no-lcel', 'build chains from the legacy chain classes')
+  .action(async (inputPath: string, options: any) => {
+    const spinner = ora('Loading flow...').start();
+
+    try {
+      const resolvedInput = resolve(inputPath);
+      await validateInputFile(resolvedInput);
+      loadEnv();
+
+      const flow = await readFile(resolvedInput, 'utf-8');
+      const interpreter = new FlowInterpreter({
+        context: { lcel: options.lcel },
+      });
+      const session = new ChatSession(
+        () => interpreter.load(flow),
+        basename(inputPath)
+      );
+
+      const sessionPath: string | undefined =
+        options.session && resolve(options.session);
+      if (sessionPath && existsSync(sessionPath)) {
+        const turns = await session.load(sessionPath);
+        spinner.succeed(
+          `Loaded ${basename(inputPath)} and ${turns} turns from ${sessionPath}`
+        );
+      } else {
+        await session.reset();
+        spinner.succeed(`Loaded ${basename(inputPath)}`);
+      }
+
+      await chat(session, { stream: options.stream, sessionPath });
+    } catch (error) {
+      if (spinner.isSpinning) spinner.fail('Could not load the flow');
+      const err = error as Error;
+      logger.error('Chat failed:', { error: err.message });
+
+      if (process.env['FLOWISE_LOG_LEVEL'] === 'debug') {
+        console.error(err.stack);
+      }
+
+      process.exit(1);
+    }
+  });
+
+/**
+ * Read messages from the terminal until `/exit` or end of input
+ */
+async function chat(
+  session: ChatSession,
+  options: { stream: boolean; sessionPath?: string }
+): Promise<void> {
+  const prompt = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: chalk.cyan('you> '),
+  });
+  console.log(chalk.gray('💬 Type a message, or /help for commands'));
+
+  prompt.prompt();
+  for await (const line of prompt) {
+    const message = line.trim();
+    if (message === '/exit' || message === '/quit') break;
+
+    try {
+      if (message.startsWith('/')) {
+        await runChatCommand(session, message);
+      } else if (message) {
+        await answer(session, message, options.stream);
+        if (options.sessionPath) await session.save(options.sessionPath);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ ${(error as Error).message}`));
+    }
+    prompt.prompt();
+  }
+  prompt.close();
+}
+
+async function answer(
+  session: ChatSession,
+  message: string,
+  stream: boolean
+): Promise<void> {
+  if (!stream) {
+    const turn = await session.send(message, { stream: false });
+    console.log(`${chalk.green('flow>')} ${turn.output}`);
+    return;
+  }
+
+  process.stdout.write(`${chalk.green('flow>')} `);
+  try {
+    await session.send(message, {
+      onToken: (token) => process.stdout.write(token),
+    });
+  } finally {
+    process.stdout.write('\n');
+  }
+}
+
+async function runChatCommand(
+  session: ChatSession,
+  line: string
+): Promise<void> {
+  const [command, ...args] = line.split(/\s+/);
+  const path = args.join(' ');
+
+  switch (command) {
+    case '/reset':
+      await session.reset();
+      console.log(chalk.gray('🔄 Conversation reset'));
+      return;
+    case '/history':
+      console.log(
+        session.turns.length > 0
+          ? session.turns.map(formatTurn).join('\n')
+          : chalk.gray('No turns yet')
+      );
+      return;
+    case '/trace':
+      console.log(formatTrace(session.turns.at(-1)));
+      return;
+    case '/save':
+    case '/load': {
+      if (!path) throw new Error(`Usage: ${command} <file>`);
+      if (command === '/save') {
+        await session.save(resolve(path));
+        console.log(
+          chalk.gray(`💾 Saved ${session.turns.length} turns to ${path}`)
+        );
+      } else {
+        const turns = await session.load(resolve(path));
+        console.log(chalk.gray(`📂 Loaded ${turns} turns from ${path}`));
+      }
+      return;
+    }
+    case '/help':
+      for (const [name, description] of CHAT_COMMANDS) {
+        console.log(`  ${chalk.cyan(name.padEnd(14))} ${description}`);
+      }
+      return;
+    default:
+      throw new Error(`Unknown command ${command}; /help lists the commands`);
+  }
+}
+
+function formatTurn(turn: ChatTurn): string {
+  return `${chalk.cyan('you>')} ${turn.input}\n${chalk.green('flow>')} ${turn.output}`;
+}
+
+/**
+ * Runs of a turn as a tree, with their durations
+ */
+function formatTrace(turn: ChatTurn | undefined): string {
+  if (!turn || turn.trace.length === 0) {
+    return chalk.gray('No trace yet');
+  }
+
+  return turn.trace
+    .map((event) => {
+      const duration =
+        event.durationMs === undefined ? '' : ` ${event.durationMs}ms`;
+      const error = event.error ? chalk.red(` ✖ ${event.error}`) : '';
+      return `${'  '.repeat(event.depth)}${chalk.gray(event.kind)} ${event.name}${chalk.gray(duration)}${error}`;
+    })
+    .join('\n');
+}
@@ -1,8 +1,15 @@
 import { Command } from 'commander';
 import { resolve } from 'path';
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import chalk from 'chalk';
 import ora from 'ora';
+import {
+  LANGCHAIN_TARGETS,
+  resolveLangChainTarget,
+} from '../../emitters/typescript/langchain-versions.js';
+import { SECRETS_BACKENDS } from '../../emitters/typescript/secrets.js';
+import { parseCredentialMapping } from '../../ir/credentials.js';
+import type { FlowiseDocumentStore, SecretsBackend } from '../../ir/types.js';
 import { logger } from '../utils/logger.js';
 import { validateInputFile } from '../utils/validation.js';
 import { ConversionOptions } from '../types.js';
@@ -22,7 +29,11 @@ export const convertCommand = new Command('convert')
     'latest'
   )
   .option('--self-test', 'run self-tests on generated code', false)
-  .option('--overwrite', 'overwrite existing output directory', false)
+  .option(
+    '--overwrite',
+    'regenerate into an existing output directory, keeping hand edits',
+    false
+  )
   .option(
     '--format <format>',
     'output format (typescript|javascript|python)',
@@ -39,6 +50,41 @@ export const convertCommand = new Command('convert')
     'generate documentation for the converted code',
     false
   )
+  .option(
+    '--document-stores <file>',
+    'Flowise document store export (JSON) used to rebuild documentStoreVS nodes locally'
+  )
+  .option(
+    '--credentials <file>',
+    'credentials mapping (JSON) binding Flowise credentials to env vars, files or a secret provider'
+  )
+  .option(
+    '--secrets <backend>',
+    `read credentials through a generated secrets module (${SECRETS_BACKENDS.join('|')})`
+  )
+  .option(
+    '--langgraph',
+    'emit a LangGraph StateGraph that preserves branches and loops (Agentflow V2 flows)',
+    false
+  )
+  .option(
+    '--lcel',
+    'compose chains from LCEL runnables instead of deprecated chain classes such as LLMChain',
+    false
+  )
+  .option(
+    '--langchain-version <version>',
+    `LangChain release line the generated imports and package.json target (${LANGCHAIN_TARGETS.join('|')})`
+  )
+  .option(
+    '--verify',
+    'type-check the generated TypeScript and report errors per Flowise node',
+    false
+  )
+  .option(
+    '--no-lint',
+    'skip checking the generated code for deprecated LangChain APIs, missing awaits and hard-coded keys'
+  )
   .action(async (inputPath: string, options: any) => {
     const spinner = ora('Starting conversion...').start();
 
@@ -61,6 +107,19 @@ export const convertCommand = new Command('convert')
         process.exit(1);
       }
 
+      if (
+        options.secrets &&
+        !SECRETS_BACKENDS.includes(options.secrets as SecretsBackend)
+      ) {
+        throw new Error(
+          `Unknown secrets backend '${options.secrets}': use one of ${SECRETS_BACKENDS.join(', ')}`
+        );
+      }
+
+      if (options.langchainVersion) {
+        resolveLangChainTarget(options.langchainVersion);
+      }
+
       // Build conversion options
       const conversionOptions: ConversionOptions = {
         inputPath: resolvedInput,
@@ -73,6 +132,18 @@ export const convertCommand = new Command('convert')
         target: options.target as 'node' | 'browser' | 'edge',
         includeTests: options.includeTests,
         includeDocs: options.includeDocs,
+        langgraph: options.langgraph,
+        lcel: options.lcel,
+        langchainVersion: options.langchainVersion,
+        documentStores: options.documentStores
+          ? resolve(options.documentStores)
+          : undefined,
+        credentials: options.credentials
+          ? resolve(options.credentials)
+          : undefined,
+        secrets: options.secrets as SecretsBackend | undefined,
+        verify: options.verify,
+        lint: options.lint,
       };
 
       logger.info('Starting conversion with options:', { conversionOptions });
@@ -90,12 +161,37 @@ export const convertCommand = new Command('convert')
       const result = await pipeline.convertFile(resolvedInput, {
         outputPath: resolvedOutput,
         includeLangfuse: conversionOptions.withLangfuse,
-        target: 'typescript',
+        target: conversionOptions.format === 'python' ? 'python' : 'typescript',
         outputFormat: conversionOptions.format === 'javascript' ? 'cjs' : 'esm',
         includeComments: true,
         overwrite: conversionOptions.overwrite,
+        verify: conversionOptions.verify,
+        lint: conversionOptions.lint,
         verbose: process.env['FLOWISE_LOG_LEVEL'] === 'debug',
         silent: false,
+        context: {
+          ...(conversionOptions.langgraph && { emitter: 'langgraph' }),
+          ...(conversionOptions.lcel && { lcel: true }),
+          ...(conversionOptions.langchainVersion && {
+            environment: {
+              langchainVersion: conversionOptions.langchainVersion,
+            },
+          }),
+          ...(conversionOptions.documentStores && {
+            documentStores: loadDocumentStores(
+              conversionOptions.documentStores
+            ),
+          }),
+          ...(conversionOptions.credentials && {
+            credentials: parseCredentialMapping(
+              readFileSync(conversionOptions.credentials, 'utf8')
+            ),
+          }),
+          ...(conversionOptions.secrets && {
+            secretsBackend: conversionOptions.secrets,
+          }),
+          ...(conversionOptions.includeTests && { includeTests: true }),
+        },
       });
 
       // Check conversion result
@@ -111,6 +207,14 @@ export const convertCommand = new Command('convert')
           });
         }
 
+        if (result.verification) {
+          console.log(
+            chalk.gray(
+              `  Generated files were kept in ${resolvedOutput} for inspection`
+            )
+          );
+        }
+
         process.exit(1);
       }
 
@@ -183,6 +287,19 @@ export const convertCommand = new Command('convert')
         console.log(`  ${chalk.cyan('LangFuse:')} ✅ Enabled`);
       }
 
+      if (result.verification) {
+        console.log(
+          `  ${chalk.cyan('Type check:')} ✅ ${result.verification.checkedFiles.length} file(s) compiled cleanly`
+        );
+      }
+
+      if (result.regeneration) {
+        const { preserved, conflicts } = result.regeneration;
+        console.log(
+          `  ${chalk.cyan('Hand edits kept:')} ${preserved.length} fragment(s), ${conflicts.length} conflict(s)`
+        );
+      }
+
       if (result.warnings.length > 0) {
         console.log();
         console.log(chalk.yellow('⚠️  Warnings:'));
@@ -208,7 +325,7 @@ export const convertCommand = new Command('convert')
         `  ${chalk.cyan('1.')} Review the generated code in: ${resolvedOutput}`
       );
       console.log(
-        `  ${chalk.cyan('2.')} Install dependencies: cd ${resolvedOutput} && npm install`
+        `  ${chalk.cyan('2.')} Install dependencies: cd ${resolvedOutput} && ${conversionOptions.format === 'python' ? 'pip install -r requirements.txt' : 'npm install'}`
       );
       console.log(
         `  ${chalk.cyan('3.')} Configure environment variables (see .env.example)`
@@ -261,6 +378,20 @@ export const convertCommand = new Command('convert')
     }
   });
 
+/**
+ * Read Flowise document store records (a single store or an array) keyed by ID
+ */
+function loadDocumentStores(
+  path: string
+): Record<string, FlowiseDocumentStore> {
+  const data = JSON.parse(readFileSync(path, 'utf8')) as
+    | FlowiseDocumentStore
+    | FlowiseDocumentStore[];
+  const stores = Array.isArray(data) ? data : [data];
+
+  return Object.fromEntries(stores.map((store) => [store.id, store]));
+}
+
 // Add examples to the convert command help
 convertCommand.addHelpText(
   'after',
@@ -278,6 +409,24 @@ ${chalk.bold('Examples:')}
   ${chalk.cyan('# Generate Python code')}
   $ flowise-to-lc convert my-flow.json --format python
 
+  ${chalk.cyan('# Read credentials from mounted secret files')}
+  $ flowise-to-lc convert my-flow.json --credentials flowise.credentials.json
+
+  ${chalk.cyan('# Read credentials from a YAML secrets file at run time')}
+  $ flowise-to-lc convert my-flow.json --secrets yaml
+
+  ${chalk.cyan('# Keep Agentflow branches and loops as a LangGraph StateGraph')}
+  $ flowise-to-lc convert my-agentflow.json --langgraph
+
+  ${chalk.cyan('# Replace LLMChain, ConversationChain and RetrievalQAChain with LCEL')}
+  $ flowise-to-lc convert my-flow.json --lcel
+
+  ${chalk.cyan('# Import from LangChain 0.3 entrypoints and pin its packages')}
+  $ flowise-to-lc convert my-flow.json --langchain-version 0.3
+
+  ${chalk.cyan('# Rebuild Flowise document stores from their exported configuration')}
+  $ flowise-to-lc convert rag-flow.json --document-stores stores.json
+
   ${chalk.cyan('# Include tests and documentation')}
   $ flowise-to-lc convert my-flow.json --include-tests --include-docs
 
@@ -286,5 +435,11 @@ ${chalk.bold('Examples:')}
 
   ${chalk.cyan('# Convert with self-testing')}
   $ flowise-to-lc convert my-flow.json --self-test
+
+  ${chalk.cyan('# Type-check the generated code before running it')}
+  $ flowise-to-lc convert my-flow.json --verify
+
+  ${chalk.cyan('# Convert without the LangChain lint pass')}
+  $ flowise-to-lc convert my-flow.json --no-lint
 `
 );
@@ -0,0 +1,115 @@
+import { basename, resolve } from 'path';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import ora from 'ora';
+
+import {
+  DIFF_FORMATS,
+  createFlowDiffReport,
+  formatFlowDiffReport,
+  type DiffFormat,
+} from '../../diff/index.js';
+import { logger } from '../utils/logger.js';
+import { validateInputFile } from '../utils/validation.js';
+
+export const diffCommand = new Command('diff')
+  .description(
+    'Compare two Flowise exports: nodes, parameters, edges and generated code'
+  )
+  .argument('<before>', 'original Flowise JSON export file path')
+  .argument('<after>', 'changed Flowise JSON export file path')
+  .option(
+    '-f, --format <format>',
+    `report format (${DIFF_FORMATS.join('|')})`,
+    'text'
+  )
+  .option('--no-code', 'skip the generated code diff')
+  .option('-o, --output <file>', 'write the report to a file instead of stdout')
+  .action(async (beforePath: string, afterPath: string, options: any) => {
+    const spinner = ora('Comparing flows...').start();
+
+    try {
+      if (!DIFF_FORMATS.includes(options.format)) {
+        throw new Error(
+          `Unknown format '${options.format}'. Use one of: ${DIFF_FORMATS.join(', ')}`
+        );
+      }
+
+      const resolvedBefore = resolve(beforePath);
+      const resolvedAfter = resolve(afterPath);
+      await validateInputFile(resolvedBefore);
+      await validateInputFile(resolvedAfter);
+
+      const { readFile, writeFile } = await import('fs/promises');
+      const report = await createFlowDiffReport(
+        await readFile(resolvedBefore, 'utf-8'),
+        await readFile(resolvedAfter, 'utf-8'),
+        {
+          includeCode: options.code,
+          beforeName: basename(beforePath),
+          afterName: basename(afterPath),
+        }
+      );
+      const output = formatFlowDiffReport(report, options.format as DiffFormat);
+
+      spinner.stop();
+
+      if (options.output) {
+        const resolvedOutput = resolve(options.output);
+        await writeFile(resolvedOutput, `${output}\n`);
+        console.log(chalk.blue(`📄 Diff report saved to: ${resolvedOutput}`));
+        return;
+      }
+
+      console.log(
+        options.format === 'text' ? colorizeTextReport(output) : output
+      );
+    } catch (error) {
+      spinner.fail('Diff failed');
+      const err = error as Error;
+      logger.error('Diff failed:', { error: err.message });
+
+      if (process.env['FLOWISE_LOG_LEVEL'] === 'debug') {
+        console.error(err.stack);
+      }
+
+      process.exit(1);
+    }
+  });
+
+/**
+ * Color added, removed and changed lines the way `git diff` does
+ */
+function colorizeTextReport(report: string): string {
+  return report
+    .split('\n')
+    .map((line) => {
+      const marker = line.trimStart();
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (marker.startsWith('+')) return chalk.green(line);
+      if (marker.startsWith('-')) return chalk.red(line);
+      if (marker.startsWith('~')) return chalk.yellow(line);
+      if (line.endsWith(':') && !line.startsWith(' ')) {
+        return chalk.bold(line);
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+// Add examples to the diff command help
+diffCommand.addHelpText(
+  'after',
+  `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('# Compare two versions of a flow')}
+  $ flowise-to-lc diff old-flow.json new-flow.json
+
+  ${chalk.cyan('# Markdown report for a pull request comment')}
+  $ flowise-to-lc diff old-flow.json new-flow.json --format markdown -o diff.md
+
+  ${chalk.cyan('# Machine-readable flow changes only')}
+  $ flowise-to-lc diff old-flow.json new-flow.json --format json --no-code
+`
+);
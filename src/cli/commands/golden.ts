@@ -0,0 +1,121 @@
+import { resolve } from 'path';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import ora from 'ora';
+
+import {
+  GOLDEN_DIR,
+  isGoldenReportClean,
+  runGoldenSuite,
+  type GoldenReport,
+} from '../../registry/index.js';
+import { logger } from '../utils/logger.js';
+
+export const goldenCommand = new Command('golden')
+  .description(
+    'Check the output of every registered converter against its golden file'
+  )
+  .option('-u, --update', 'rewrite golden files that are missing or differ')
+  .option('--type <types...>', 'only check these Flowise node types')
+  .option('--dir <directory>', 'directory of the golden files', GOLDEN_DIR)
+  .option('--json', 'print the report as JSON')
+  .action(async (options: any) => {
+    const spinner = ora('Converting a minimal node per converter...').start();
+
+    try {
+      const report = await runGoldenSuite({
+        dir: resolve(options.dir),
+        update: Boolean(options.update),
+        ...(options.type && { types: options.type }),
+      });
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printGoldenReport(report, Boolean(options.update));
+      }
+
+      if (!options.update && !isGoldenReportClean(report)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      spinner.fail('Golden file check failed');
+      const err = error as Error;
+      logger.error('Golden file check failed:', { error: err.message });
+
+      if (process.env['FLOWISE_LOG_LEVEL'] === 'debug') {
+        console.error(err.stack);
+      }
+
+      process.exit(1);
+    }
+  });
+
+function printGoldenReport(report: GoldenReport, update: boolean): void {
+  console.log(chalk.bold('🧪 Converter Golden Files:'));
+  console.log(`  ${chalk.cyan('Converters:')} ${report.total}`);
+  console.log(`  ${chalk.green('Matched:')} ${report.matched.length}`);
+
+  if (update) {
+    console.log(`  ${chalk.blue('Updated:')} ${report.updated.length}`);
+    if (report.obsolete.length > 0) {
+      console.log(`  ${chalk.blue('Removed:')} ${report.obsolete.join(', ')}`);
+    }
+  } else {
+    for (const change of report.changed) {
+      console.log();
+      console.log(chalk.red(`✗ ${change.flowiseType} changed`));
+      console.log(
+        change.patch
+          .split('\n')
+          .map((line) =>
+            line.startsWith('+')
+              ? chalk.green(line)
+              : line.startsWith('-')
+                ? chalk.red(line)
+                : line
+          )
+          .join('\n')
+      );
+    }
+    if (report.missing.length > 0) {
+      console.log();
+      console.log(chalk.yellow(`Missing: ${report.missing.join(', ')}`));
+    }
+    if (report.obsolete.length > 0) {
+      console.log(chalk.yellow(`Obsolete: ${report.obsolete.join(', ')}`));
+    }
+  }
+
+  if (report.threw.length > 0) {
+    console.log();
+    console.log(
+      chalk.bold.red(`❌ Converters that throw (${report.threw.length}):`)
+    );
+    for (const { flowiseType, error } of report.threw) {
+      console.log(`  ${chalk.red('•')} ${flowiseType}: ${chalk.gray(error)}`);
+    }
+  }
+  if (report.empty.length > 0) {
+    console.log();
+    console.log(
+      chalk.bold.yellow(
+        `⚠️  Converters that emit no code (${report.empty.length}):`
+      )
+    );
+    for (const flowiseType of report.empty) {
+      console.log(`  ${chalk.yellow('•')} ${flowiseType}`);
+    }
+  }
+
+  if (!update && !isGoldenReportClean(report)) {
+    console.log();
+    console.log(
+      chalk.yellow(
+        '💡 Review the changes, then run: flowise-to-lc golden --update'
+      )
+    );
+  }
+}
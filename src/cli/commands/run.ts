@@ -1,14 +1,43 @@
 /**
  * Run Command - Convert Flowise file and execute the generated LangChain code
+ * in a sandboxed process, against an existing LangChain installation
  */
 
-import { Command } from 'commander';
 import { promises as fs } from 'fs';
-import { join, basename, extname } from 'path';
-import { spawn } from 'child_process';
+import { dirname, join, extname, resolve } from 'path';
+import { createInterface } from 'readline';
+
 import chalk from 'chalk';
+import { Command } from 'commander';
 import ora from 'ora';
+
+import {
+  CASSETTE_ENV,
+  CASSETTE_MODE_ENV,
+  CASSETTE_MODULE_FILE,
+  type CassetteMode,
+} from '../../emitters/typescript/cassette.js';
+import {
+  LANGCHAIN_TARGETS,
+  resolveLangChainTarget,
+} from '../../emitters/typescript/langchain-versions.js';
+import {
+  SOURCE_MAP_FILE,
+  translateStackTrace,
+  type NodeSourceMap,
+} from '../../emitters/typescript/source-map.js';
 import { FlowiseToLangChainConverter } from '../../index.js';
+import {
+  FlowWorker,
+  compileFlowFiles,
+  detectHostLangChainTarget,
+  linkFlowRuntime,
+  resolveFlowRuntime,
+  type FlowRunner,
+  type FlowTurn,
+} from '../utils/flow-runtime.js';
+import { loadParityInputs } from '../utils/parity.js';
+import { SandboxedFlow } from '../utils/sandbox.js';
 
 interface RunOptions {
   input?: string;
@@ -18,6 +47,18 @@ interface RunOptions {
   timeout?: number;
   env?: string[];
   keepFiles?: boolean;
+  record?: string;
+  replay?: string;
+  langchainVersion?: string;
+  inputFile?: string;
+  interactive?: boolean;
+  json?: boolean;
+  offline?: boolean;
+  runtimeDir?: string;
+  sandbox?: boolean;
+  allowNetwork?: boolean | string[];
+  memory?: string;
+  cpuTime?: string;
 }
 
 export function createRunCommand(): Command {
@@ -35,6 +76,51 @@ export function createRunCommand(): Command {
     .option('--timeout <ms>', 'Execution timeout in milliseconds', '30000')
     .option('--env <vars...>', 'Environment variables (KEY=value)')
     .option('--keep-files', 'Keep generated files after execution', false)
+    .option(
+      '--record <cassette>',
+      'Record model and tool calls to a cassette file'
+    )
+    .option(
+      '--replay <cassette>',
+      'Serve model and tool calls from a recorded cassette, without network'
+    )
+    .option(
+      '--langchain-version <version>',
+      `LangChain release line to generate and run for (${LANGCHAIN_TARGETS.join('|')}); defaults to the installed one`
+    )
+    .option(
+      '--input-file <path>',
+      'Read the input from a file; a JSON array of inputs runs as consecutive turns'
+    )
+    .option(
+      '-i, --interactive',
+      'Chat with the workflow, keeping its memory between turns',
+      false
+    )
+    .option('--json', 'Print each turn as a JSON line', false)
+    .option(
+      '--offline',
+      'Never install packages; fail when LangChain is not installed',
+      false
+    )
+    .option(
+      '--runtime-dir <path>',
+      'Shared directory LangChain is installed into once when the project lacks it'
+    )
+    .option(
+      '--no-sandbox',
+      'Run the flow in a worker thread with full access to this machine'
+    )
+    .option(
+      '--allow-network [hosts...]',
+      'Let the sandboxed flow connect to these hosts, or to any host'
+    )
+    .option('--memory <mb>', 'Heap limit of the sandboxed flow in MB', '512')
+    .option(
+      '--cpu-time <ms>',
+      'CPU time the sandboxed flow may use across all turns',
+      '300000'
+    )
     .action(async (file: string, input: string, options: RunOptions) => {
       await runWorkflow(file, input, options);
     });
@@ -45,26 +131,41 @@ async function runWorkflow(
   input: string = '',
   options: RunOptions
 ): Promise<void> {
+  // JSON output keeps stdout to the turns, as with --silent
+  if (options.json) process.env['FLOWISE_LOG_LEVEL'] = 'error';
   const converter = new FlowiseToLangChainConverter({
     verbose: options.verbose,
   });
   const timeout = parseInt(options.timeout?.toString() || '30000');
+  const log = (...args: unknown[]) => {
+    if (!options.json) console.log(...args);
+  };
+  const spinner = (text: string) =>
+    ora({ text, isSilent: options.json === true }).start();
 
-  console.log(chalk.blue('🚀 Converting and running Flowise workflow...'));
-  console.log(chalk.gray(`   File: ${file}`));
-  console.log(chalk.gray(`   Input: ${input || '(none)'}`));
-  console.log(chalk.gray(`   Timeout: ${timeout}ms`));
+  log(chalk.blue('🚀 Converting and running Flowise workflow...'));
+  log(chalk.gray(`   File: ${file}`));
+  log(chalk.gray(`   Timeout: ${timeout}ms`));
 
-  let tempDir = options.output || './temp';
+  const tempDir = options.output || './temp';
+  let worker: FlowRunner | undefined;
 
   try {
+    const inputs = await resolveInputs(input, options);
+    const cassette = resolveCassette(options);
+    const target = resolveLangChainTarget(
+      options.langchainVersion ?? detectHostLangChainTarget()
+    );
+
     // Step 1: Convert the Flowise file
-    const conversionSpinner = ora('Converting Flowise file...').start();
+    const conversionSpinner = spinner('Converting Flowise file...');
 
     const content = await fs.readFile(file, 'utf-8');
     const result = await converter.convert(content, {
       outputPath: tempDir,
       targetLanguage: 'typescript',
+      ...(cassette && { cassettes: true }),
+      environment: { langchainVersion: target },
     });
 
     if (!result.success) {
@@ -79,7 +180,7 @@ async function runWorkflow(
     conversionSpinner.succeed('Conversion completed');
 
     // Step 2: Prepare the execution environment
-    const setupSpinner = ora('Setting up execution environment...').start();
+    const setupSpinner = spinner('Setting up execution environment...');
 
     await fs.mkdir(tempDir, { recursive: true });
 
@@ -89,105 +190,139 @@ async function runWorkflow(
     }
 
     // Write all generated files
-    const filePromises = result.result.files.map(async (file) => {
-      const filePath = join(tempDir, file.path);
-      await fs.mkdir(join(tempDir, file.path, '..'), { recursive: true });
-      await fs.writeFile(filePath, file.content, 'utf-8');
-      return filePath;
-    });
-
-    const writtenFiles = await Promise.all(filePromises);
-    const mainFile =
-      writtenFiles.find((f) => f.endsWith('.ts')) || writtenFiles[0];
-
-    // Create package.json for dependencies
-    const packageJson = {
-      name: 'flowise-langchain-runner',
-      version: '1.0.0',
-      type: 'module',
-      dependencies: {
-        langchain: '^0.2.17',
-        '@langchain/core': '^0.2.30',
-        '@langchain/openai': '^0.2.7',
-        '@langchain/community': '^0.2.31',
-        '@langchain/textsplitters': '^0.0.3',
-        dotenv: '^16.4.5',
-        tsx: '^4.16.5',
-      },
-    };
-
-    await fs.writeFile(
-      join(tempDir, 'package.json'),
-      JSON.stringify(packageJson, null, 2),
-      'utf-8'
+    await Promise.all(
+      result.result.files.map(async (file) => {
+        const filePath = join(tempDir, file.path);
+        await fs.mkdir(join(tempDir, file.path, '..'), { recursive: true });
+        await fs.writeFile(filePath, file.content, 'utf-8');
+      })
     );
+    await compileFlowFiles(tempDir, result.result.files);
+    const mainFile =
+      result.result.files.find((f) => extname(f.path) === '.ts')?.path ??
+      result.result.files[0]!.path;
 
-    // Create a runner script
-    const runnerScript = await createRunnerScript(
-      mainFile || '',
-      input,
-      options
+    // Stack traces are annotated with the Flowise node behind each frame
+    const sourceMapFile = result.result.files.find(
+      (f) => f.path === SOURCE_MAP_FILE
     );
-    const runnerPath = join(tempDir, 'runner.ts');
-    await fs.writeFile(runnerPath, runnerScript, 'utf-8');
+    const sourceMap = sourceMapFile
+      ? (JSON.parse(sourceMapFile.content) as NodeSourceMap)
+      : undefined;
+    const translate = (text: string) =>
+      sourceMap ? translateStackTrace(text, sourceMap) : text;
 
     setupSpinner.succeed('Environment setup completed');
 
-    // Step 3: Install dependencies
-    const installSpinner = ora('Installing dependencies...').start();
-
-    try {
-      await executeCommand('npm', ['install'], tempDir, timeout);
-      installSpinner.succeed('Dependencies installed');
-    } catch (error) {
-      installSpinner.fail('Failed to install dependencies');
+    // Step 3: Resolve LangChain from an existing installation, on the same
+    // release line as the generated project's own package.json
+    const runtimeSpinner = spinner('Resolving LangChain runtime...');
+    const manifest = result.result.files.find((f) => f.path === 'package.json');
+    const runtime = await resolveFlowRuntime(
+      (manifest && JSON.parse(manifest.content).dependencies) ?? {},
+      target,
+      {
+        offline: options.offline,
+        ...(options.runtimeDir && { cacheDir: resolve(options.runtimeDir) }),
+      }
+    ).catch((error: Error) => {
+      runtimeSpinner.fail('LangChain runtime unavailable');
       throw error;
-    }
+    });
+    await linkFlowRuntime(tempDir, runtime);
+    runtimeSpinner.succeed(
+      `LangChain ${target} from ${runtime.source === 'host' ? '' : 'runtime cache '}${runtime.nodeModules}`
+    );
 
     // Step 4: Execute the workflow
-    const executionSpinner = ora('Executing workflow...').start();
-
-    try {
-      // Filter out undefined values from process.env
-      const cleanProcessEnv = Object.fromEntries(
-        Object.entries(process.env).filter(([_, value]) => value !== undefined)
-      ) as Record<string, string>;
+    // Filter out undefined values from process.env
+    const cleanProcessEnv = Object.fromEntries(
+      Object.entries(process.env).filter(([_, value]) => value !== undefined)
+    ) as Record<string, string>;
 
-      const env = {
+    const flowOptions = {
+      env: {
         ...cleanProcessEnv,
         ...parseEnvVars(options.env || []),
-      };
-
-      const output = await executeCommand(
-        'npx',
-        ['tsx', 'runner.ts', ...(options.args || [])],
-        tempDir,
-        timeout,
-        env
-      );
-
-      executionSpinner.succeed('Execution completed');
+        ...(cassette && {
+          [CASSETTE_ENV]: cassette.path,
+          [CASSETTE_MODE_ENV]: cassette.mode,
+        }),
+      },
+      argv: options.args || [],
+      ...(cassette && { preload: [join(tempDir, CASSETTE_MODULE_FILE)] }),
+      stdout: options.json ? process.stderr : process.stdout,
+    };
+    // The sandbox may read the flow, LangChain and the cassette, and write
+    // only the output directory and a cassette being recorded
+    worker =
+      options.sandbox === false
+        ? new FlowWorker(join(tempDir, mainFile), flowOptions)
+        : new SandboxedFlow(join(tempDir, mainFile), {
+            ...flowOptions,
+            root: tempDir,
+            readPaths: [
+              runtime.nodeModules,
+              ...(cassette ? [dirname(cassette.path)] : []),
+            ],
+            writePaths:
+              cassette?.mode === 'record' ? [dirname(cassette.path)] : [],
+            network: options.allowNetwork ?? false,
+            memoryMb: parseInt(options.memory ?? '512', 10),
+            cpuTimeMs: parseInt(options.cpuTime ?? '300000', 10),
+          });
+
+    const print = (turn: FlowTurn) => {
+      if (options.json) {
+        console.log(JSON.stringify(turn));
+        return;
+      }
+      log(chalk.white(formatOutput(turn.output)));
+      log(chalk.gray(`   (${turn.durationMs}ms)`));
+    };
 
-      // Show output
-      console.log('\n' + chalk.blue('📤 Workflow Output:'));
-      console.log(chalk.white(output.stdout));
+    try {
+      for (const message of inputs) {
+        const executionSpinner = spinner('Executing workflow...');
+        const turn = await worker.invoke(message, timeout).catch((error) => {
+          executionSpinner.fail('Execution failed');
+          throw error;
+        });
+        executionSpinner.succeed('Execution completed');
+        log('\n' + chalk.blue('📤 Workflow Output:'));
+        print(turn);
+      }
 
-      if (output.stderr) {
-        console.log('\n' + chalk.yellow('⚠️  Warnings/Errors:'));
-        console.log(chalk.yellow(output.stderr));
+      if (options.interactive) {
+        await chat(worker, timeout, print, translate, options);
+      }
+      if (cassette?.mode === 'record') {
+        log(chalk.gray(`📼 Recorded calls to: ${cassette.path}`));
       }
     } catch (error) {
-      executionSpinner.fail('Execution failed');
+      if (error instanceof Error && error.stack) {
+        error.stack = translate(error.stack);
+      }
+      if (options.sandbox !== false && !options.allowNetwork) {
+        log(
+          chalk.gray(
+            '💡 The flow ran without network access; pass --allow-network if it calls model providers'
+          )
+        );
+      }
       throw error;
     }
   } catch (error) {
     console.error(chalk.red('❌ Error:'), error);
+    process.exitCode = 1;
   } finally {
+    await worker?.close();
+
     // Cleanup temporary files unless --keep-files is specified
     if (!options.keepFiles && tempDir !== options.output) {
       try {
         await fs.rm(tempDir, { recursive: true, force: true });
-        console.log(chalk.gray('🗑️  Cleaned up temporary files'));
+        log(chalk.gray('🗑️  Cleaned up temporary files'));
       } catch (error) {
         console.warn(
           chalk.yellow('⚠️  Could not clean up temporary files:'),
@@ -195,118 +330,88 @@ async function runWorkflow(
         );
       }
     } else {
-      console.log(chalk.gray(`📁 Generated files saved in: ${tempDir}`));
+      log(chalk.gray(`📁 Generated files saved in: ${tempDir}`));
     }
   }
 }
 
-async function createRunnerScript(
-  mainFile: string,
+/**
+ * Inputs to run before any interactive turns: the input argument, or the
+ * contents of --input-file
+ */
+async function resolveInputs(
   input: string,
-  _options: RunOptions
-): Promise<string> {
-  const fileName = basename(mainFile, extname(mainFile));
-
-  return `import { config } from 'dotenv';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
-
-// Load environment variables
-config();
-
-// Import the generated workflow
-import { runFlow } from './${fileName}.js';
-
-async function main() {
-  try {
-    console.log('🚀 Starting workflow execution...');
-    console.log('Input:', ${JSON.stringify(input)});
-    
-    const startTime = Date.now();
-    
-    // Execute the workflow
-    const result = await runFlow(${JSON.stringify(input)});
-    
-    const duration = Date.now() - startTime;
-    
-    console.log('\\n📊 Execution Summary:');
-    console.log(\`Duration: \${duration}ms\`);
-    console.log('Result type:', typeof result);
-    
-    console.log('\\n🎯 Result:');
-    console.log(result);
-    
-  } catch (error) {
-    console.error('❌ Workflow execution failed:', error);
-    process.exit(1);
+  options: RunOptions
+): Promise<string[]> {
+  if (!options.inputFile) {
+    return input || !options.interactive ? [input] : [];
   }
+  if (input) {
+    throw new Error('Use either an input argument or --input-file, not both');
+  }
+  if (extname(options.inputFile) === '.json') {
+    return loadParityInputs(options.inputFile);
+  }
+  return [(await fs.readFile(options.inputFile, 'utf-8')).replace(/\n$/, '')];
 }
 
-// Handle unhandled errors
-process.on('unhandledRejection', (error) => {
-  console.error('Unhandled promise rejection:', error);
-  process.exit(1);
-});
-
-process.on('uncaughtException', (error) => {
-  console.error('Uncaught exception:', error);
-  process.exit(1);
-});
-
-// Run the workflow
-main().catch((error) => {
-  console.error('Main execution failed:', error);
-  process.exit(1);
-});`;
-}
-
-function executeCommand(
-  command: string,
-  args: string[],
-  cwd: string,
+/**
+ * Read messages from the terminal and run each through the same loaded flow
+ * until `exit` or end of input
+ */
+async function chat(
+  worker: FlowRunner,
   timeout: number,
-  env?: Record<string, string>
-): Promise<{ stdout: string; stderr: string }> {
-  return new Promise((resolve, reject) => {
-    const childProcess = spawn(command, args, {
-      cwd,
-      env: { ...process.env, ...env },
-      stdio: 'pipe',
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    childProcess.stdout?.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    childProcess.stderr?.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    const timeoutHandle = setTimeout(() => {
-      childProcess.kill('SIGTERM');
-      reject(new Error(`Command timed out after ${timeout}ms`));
-    }, timeout);
-
-    childProcess.on('close', (code) => {
-      clearTimeout(timeoutHandle);
-
-      if (code === 0) {
-        resolve({ stdout, stderr });
-      } else {
-        reject(
-          new Error(`Command failed with exit code ${code}\\nstderr: ${stderr}`)
+  print: (turn: FlowTurn) => void,
+  translate: (text: string) => string,
+  options: RunOptions
+): Promise<void> {
+  const prompt = createInterface({
+    input: process.stdin,
+    output: options.json ? process.stderr : process.stdout,
+    prompt: chalk.cyan('you> '),
+  });
+  (options.json ? console.error : console.log)(
+    chalk.gray('\n💬 Chatting with the workflow; type "exit" to quit')
+  );
+
+  prompt.prompt();
+  for await (const line of prompt) {
+    const message = line.trim();
+    if (message === 'exit' || message === 'quit') break;
+    if (message) {
+      try {
+        print(await worker.invoke(message, timeout));
+      } catch (error) {
+        console.error(
+          chalk.red('❌ Error:'),
+          translate((error as Error).stack ?? String(error))
         );
+        if ((error as Error).message.includes('timed out')) break;
       }
-    });
+    }
+    prompt.prompt();
+  }
+  prompt.close();
+}
 
-    childProcess.on('error', (error) => {
-      clearTimeout(timeoutHandle);
-      reject(error);
-    });
-  });
+function formatOutput(output: unknown): string {
+  return typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+}
+
+/**
+ * Cassette a run records to or replays from, with an absolute path since the
+ * flow runs in the output directory
+ */
+function resolveCassette(
+  options: RunOptions
+): { mode: CassetteMode; path: string } | undefined {
+  if (options.record && options.replay) {
+    throw new Error('Use either --record or --replay, not both');
+  }
+  if (options.record) return { mode: 'record', path: resolve(options.record) };
+  if (options.replay) return { mode: 'replay', path: resolve(options.replay) };
+  return undefined;
 }
 
 function parseEnvVars(envVars: string[]): Record<string, string> {
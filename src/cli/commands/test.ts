@@ -4,6 +4,12 @@ import { existsSync } from 'fs';
 import chalk from 'chalk';
 import ora from 'ora';
 import { logger } from '../utils/logger.js';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  DEFAULT_EMBEDDING_URL,
+  PARITY_COMPARATORS,
+  type ParityReport,
+} from '../utils/parity.js';
 import { validateInputFile } from '../utils/validation.js';
 
 export const testCommand = new Command('test')
@@ -22,6 +28,58 @@ export const testCommand = new Command('test')
   .option('--timeout <ms>', 'test timeout in milliseconds', '30000')
   .option('--env <file>', 'environment file for testing', '.env.test')
   .option('--mock-external', 'mock external API calls for testing', false)
+  .option(
+    '--record <cassette>',
+    'record model and tool calls of the generated tests to a cassette file'
+  )
+  .option(
+    '--replay <cassette>',
+    'serve model and tool calls from a recorded cassette, without network'
+  )
+  .option(
+    '--compare <inputs>',
+    'compare the converted flow with Flowise on a JSON array of inputs'
+  )
+  .option(
+    '--flowise-url <url>',
+    'Flowise instance to compare against',
+    process.env['FLOWISE_URL']
+  )
+  .option('--chatflow-id <id>', 'id of the chatflow in Flowise')
+  .option(
+    '--flowise-api-key <key>',
+    'API key of the Flowise chatflow',
+    process.env['FLOWISE_API_KEY']
+  )
+  .option(
+    '--flowise-stand-in <answers>',
+    'serve recorded Flowise answers ({ "<input>": "<answer>" }) from a local stand-in'
+  )
+  .option(
+    '--comparator <name>',
+    `how outputs are scored (${PARITY_COMPARATORS.join('|')}|<module path>)`,
+    'normalized'
+  )
+  .option('--threshold <score>', 'lowest score that counts as a match')
+  .option(
+    '--embedding-url <url>',
+    'OpenAI-compatible embeddings endpoint of a local model',
+    DEFAULT_EMBEDDING_URL
+  )
+  .option(
+    '--embedding-model <name>',
+    'local embedding model for the embedding comparator',
+    DEFAULT_EMBEDDING_MODEL
+  )
+  .option(
+    '--sandbox',
+    'run the tests and the converted flow in a sandboxed process',
+    false
+  )
+  .option(
+    '--allow-network [hosts...]',
+    'let sandboxed tests connect to these hosts, or to any host'
+  )
   .option('--generate-report', 'generate detailed test report', false)
   .option('--fix-tests', 'attempt to fix failing tests automatically', false)
   .option(
@@ -70,6 +128,10 @@ export const testCommand = new Command('test')
         process.exit(1);
       }
 
+      if (options.record && options.replay) {
+        throw new Error('Use either --record or --replay, not both');
+      }
+
       // Load test configuration
       spinner.text = 'Loading test configuration...';
       const testConfig = {
@@ -79,6 +141,31 @@ export const testCommand = new Command('test')
         timeout: parseInt(options.timeout),
         envFile: options.env,
         mockExternal: options.mockExternal,
+        cassette: options.record
+          ? { mode: 'record' as const, path: resolve(options.record) }
+          : options.replay
+            ? { mode: 'replay' as const, path: resolve(options.replay) }
+            : undefined,
+        compare: options.compare
+          ? {
+              inputsPath: resolve(options.compare),
+              flowiseUrl: options.flowiseUrl,
+              chatflowId: options.chatflowId,
+              apiKey: options.flowiseApiKey,
+              standInPath:
+                options.flowiseStandIn && resolve(options.flowiseStandIn),
+              comparator: options.comparator,
+              threshold:
+                options.threshold !== undefined
+                  ? parseFloat(options.threshold)
+                  : undefined,
+              embeddingUrl: options.embeddingUrl,
+              embeddingModel: options.embeddingModel,
+            }
+          : undefined,
+        sandbox: options.sandbox
+          ? { network: options.allowNetwork ?? false }
+          : undefined,
         generateReport: options.generateReport,
         fixTests: options.fixTests,
         dryRun: options.dryRun,
@@ -143,6 +230,42 @@ export const testCommand = new Command('test')
       spinner.text = 'Setting up test environment...';
       await testRunner.setupEnvironment();
 
+      if (testConfig.compare) {
+        spinner.text = 'Comparing outputs with Flowise...';
+        const report = await testRunner.runParityTests();
+        await testRunner.cleanup();
+
+        if (report.passed === report.total) {
+          spinner.succeed(chalk.green('Converted flow matches Flowise!'));
+        } else {
+          spinner.fail(chalk.red('Converted flow differs from Flowise.'));
+        }
+        printParityReport(report);
+
+        const reportPath = join(resolvedOutput, 'parity-report.json');
+        const { writeFile } = await import('fs/promises');
+        await writeFile(
+          reportPath,
+          JSON.stringify(
+            {
+              timestamp: new Date().toISOString(),
+              inputFile: resolvedInput,
+              outputDirectory: resolvedOutput,
+              ...report,
+            },
+            null,
+            2
+          )
+        );
+        console.log();
+        console.log(chalk.blue(`📄 Parity report saved to: ${reportPath}`));
+
+        if (report.passed !== report.total) {
+          process.exit(1);
+        }
+        return;
+      }
+
       // Run tests based on type
       const results = {
         unit: null as any,
@@ -357,6 +480,35 @@ export const testCommand = new Command('test')
     }
   });
 
+function printParityReport(report: ParityReport): void {
+  console.log();
+  console.log(chalk.bold('⚖️  Parity Report:'));
+  console.log(
+    `  ${chalk.cyan('Comparator:')} ${report.comparator} (threshold ${report.threshold})`
+  );
+  console.log(
+    `  ${chalk.cyan('Matched:')} ${report.passed}/${report.total} (${(report.parityRate * 100).toFixed(1)}%)`
+  );
+
+  report.cases.forEach((result, index) => {
+    const mark = result.passed ? chalk.green('✓') : chalk.red('✗');
+    console.log();
+    console.log(
+      `  ${mark} ${chalk.bold(`${index + 1}.`)} ${result.input} ${chalk.gray(`score ${result.score.toFixed(3)}`)}`
+    );
+    if (result.passed) return;
+
+    if (result.flowise !== undefined) {
+      console.log(`     ${chalk.cyan('Flowise:')}   ${result.flowise}`);
+    }
+    if (result.converted !== undefined) {
+      console.log(`     ${chalk.cyan('Converted:')} ${result.converted}`);
+    }
+    if (result.note) console.log(`     ${chalk.yellow(result.note)}`);
+    if (result.error) console.log(`     ${chalk.red(result.error)}`);
+  });
+}
+
 // Add examples to the test command help
 testCommand.addHelpText(
   'after',
@@ -371,12 +523,25 @@ ${chalk.bold('Examples:')}
   ${chalk.cyan('# Test with custom environment and timeout')}
   $ flowise-to-lc test my-flow.json --env .env.staging --timeout 60000
 
+  ${chalk.cyan('# Run the tests without file or network access outside the project')}
+  $ flowise-to-lc test my-flow.json --sandbox --replay flow.cassette.json
+
   ${chalk.cyan('# Generate detailed test report')}
   $ flowise-to-lc test my-flow.json --generate-report
 
   ${chalk.cyan('# Mock external APIs for testing')}
   $ flowise-to-lc test my-flow.json --mock-external
 
+  ${chalk.cyan('# Record model calls once, then replay them offline in CI')}
+  $ flowise-to-lc test my-flow.json --record flow.cassette.json
+  $ flowise-to-lc test my-flow.json --replay flow.cassette.json
+
+  ${chalk.cyan('# Check the converted flow answers like the Flowise chatflow')}
+  $ flowise-to-lc test my-flow.json --compare inputs.json --flowise-url http://localhost:3000 --chatflow-id <id>
+
+  ${chalk.cyan('# Compare offline against recorded Flowise answers, by meaning')}
+  $ flowise-to-lc test my-flow.json --compare inputs.json --flowise-stand-in answers.json --comparator embedding
+
   ${chalk.cyan('# Preview test plan without running')}
   $ flowise-to-lc test my-flow.json --dry-run
 
@@ -8,7 +8,15 @@ import { watch } from 'fs';
 import { join, basename, extname } from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
+import {
+  MANIFEST_FILE,
+  createDirectoryReader,
+  createGenerationManifest,
+  loadGenerationManifest,
+  mergeGeneratedFiles,
+} from '../../emitters/typescript/regeneration.js';
 import { FlowiseToLangChainConverter } from '../../index.js';
+import type { GeneratedFile } from '../../ir/types.js';
 
 interface WatchOptions {
   output: string;
@@ -28,7 +36,11 @@ export function createWatchCommand(): Command {
     .option('--ignore <patterns...>', 'Patterns to ignore (glob patterns)', [])
     .option('--debounce <ms>', 'Debounce delay in milliseconds', '500')
     .option('-v, --verbose', 'Verbose output', false)
-    .option('--overwrite', 'Overwrite existing files', false)
+    .option(
+      '--overwrite',
+      'Regenerate existing files, keeping hand edits',
+      false
+    )
     .action(async (input: string, options: WatchOptions) => {
       await watchFiles(input, options);
     });
@@ -214,11 +226,17 @@ async function convertFile(
       const mainFile =
         result.result.files.find((f) => f.path.endsWith('.ts')) ||
         result.result.files[0];
-      if (mainFile) {
-        await fs.writeFile(outputPath, mainFile.content, 'utf-8');
-      }
+      const conflicts = mainFile
+        ? await writeMergedFile(
+            { ...mainFile, path: outputFileName },
+            options.output
+          )
+        : [];
 
       spinner.succeed(`Converted ${basename(filePath)} → ${outputFileName}`);
+      conflicts.forEach((conflict) =>
+        console.log(chalk.yellow(`  ⚠️  ${conflict}`))
+      );
 
       if (options.verbose) {
         console.log(chalk.gray(`  Nodes: ${result.metrics.nodeCount}`));
@@ -233,6 +251,38 @@ async function convertFile(
   }
 }
 
+/**
+ * Write a converted flow over its previous output, keeping hand edits. The
+ * output directory shares one manifest across all watched flows
+ */
+async function writeMergedFile(
+  file: GeneratedFile,
+  outputDir: string
+): Promise<string[]> {
+  const manifest = await loadGenerationManifest(outputDir);
+  const { files, conflicts } = await mergeGeneratedFiles(
+    [file],
+    createDirectoryReader(outputDir),
+    manifest
+  );
+  await fs.writeFile(join(outputDir, file.path), files[0]!.content, 'utf-8');
+
+  const updated = {
+    version: 1,
+    files: {
+      ...manifest?.files,
+      ...createGenerationManifest([file]).files,
+    },
+  };
+  await fs.writeFile(
+    join(outputDir, MANIFEST_FILE),
+    JSON.stringify(updated, null, 2),
+    'utf-8'
+  );
+
+  return conflicts.map((conflict) => conflict.message);
+}
+
 async function convertExistingFiles(
   dirPath: string,
   options: WatchOptions,
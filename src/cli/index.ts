@@ -5,13 +5,16 @@ import chalk from 'chalk';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { readFileSync } from 'fs';
+import { createApiCommand } from '../api/cli.js';
 import { convertCommand } from './commands/convert.js';
 import { validateCommand } from './commands/validate.js';
 import { testCommand } from './commands/test.js';
+import { diffCommand } from './commands/diff.js';
+import { goldenCommand } from './commands/golden.js';
 import createWatchCommand from './commands/watch.js';
 import createBatchCommand from './commands/batch.js';
 import createRunCommand from './commands/run.js';
-// import { createApiCommand } from '../api/cli.js';
+import { chatCommand } from './commands/chat.js';
 
 // Get package.json for version info
 const __filename = fileURLToPath(import.meta.url);
@@ -58,10 +61,13 @@ program
 program.addCommand(convertCommand);
 program.addCommand(validateCommand);
 program.addCommand(testCommand);
+program.addCommand(diffCommand);
+program.addCommand(goldenCommand);
 program.addCommand(createWatchCommand());
 program.addCommand(createBatchCommand());
 program.addCommand(createRunCommand());
-// program.addCommand(createApiCommand());
+program.addCommand(chatCommand);
+program.addCommand(createApiCommand());
 
 // Add examples to help
 program.addHelpText(
@@ -80,6 +86,12 @@ ${chalk.bold('Examples:')}
   ${chalk.cyan('# Test converted code')}
   $ flowise-to-lc test my-flow.json --out ./output
 
+  ${chalk.cyan('# Review what changed between two versions of a flow')}
+  $ flowise-to-lc diff old-flow.json new-flow.json --format markdown
+
+  ${chalk.cyan('# Check every converter against its golden file')}
+  $ flowise-to-lc golden
+
   ${chalk.cyan('# Convert for specific Flowise version')}
   $ flowise-to-lc convert my-flow.json --flowise-version 1.8.0
 
@@ -95,6 +107,12 @@ ${chalk.bold('Examples:')}
   ${chalk.cyan('# Convert and run a workflow')}
   $ flowise-to-lc run my-flow.json "What is the weather today?"
 
+  ${chalk.cyan('# Chat with a workflow without installing anything')}
+  $ flowise-to-lc run my-flow.json --interactive --offline
+
+  ${chalk.cyan('# Chat with a workflow in process, resuming a saved session')}
+  $ flowise-to-lc chat my-flow.json --session chat.session.json
+
   ${chalk.cyan('# Start API server')}
   $ flowise-to-lc api --port 3001 --cors-origin "http://localhost:3000"
 
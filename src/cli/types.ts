@@ -1,3 +1,9 @@
+import type { CassetteMode } from '../emitters/typescript/cassette.js';
+import type { SecretsBackend } from '../ir/types.js';
+
+import type { ParityConfiguration } from './utils/parity.js';
+import type { SandboxLimits } from './utils/sandbox.js';
+
 export interface ConversionOptions {
   inputPath: string;
   outputPath: string;
@@ -9,6 +15,14 @@ export interface ConversionOptions {
   target: 'node' | 'browser' | 'edge';
   includeTests: boolean;
   includeDocs: boolean;
+  langgraph?: boolean;
+  lcel?: boolean;
+  langchainVersion?: string;
+  documentStores?: string;
+  credentials?: string;
+  secrets?: SecretsBackend;
+  verify?: boolean;
+  lint?: boolean;
 }
 
 export interface ValidationError {
@@ -66,9 +80,17 @@ export interface TestConfiguration {
   timeout: number;
   envFile: string;
   mockExternal: boolean;
+  /** Cassette the generated tests record model and tool calls to or replay */
+  cassette?: { mode: CassetteMode; path: string };
+  /** Compare the converted flow with a Flowise prediction endpoint instead */
+  compare?: ParityConfiguration;
   generateReport: boolean;
   fixTests: boolean;
   dryRun: boolean;
+  /** Kills the test processes when aborted */
+  signal?: AbortSignal;
+  /** Run the tests and the converted flow in a sandbox with these limits */
+  sandbox?: SandboxLimits;
 }
 
 export interface TestResult {
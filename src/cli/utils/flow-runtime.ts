@@ -0,0 +1,448 @@
+/**
+ * Flow Runtime
+ *
+ * `run` executes a converted flow without installing anything per run. The
+ * generated TypeScript is transpiled next to itself and imported in a worker
+ * thread, with LangChain resolved from a node_modules directory that already
+ * has every package the flow imports: the project `run` is started in, this
+ * package's own installation, or a shared runtime cache that is installed
+ * into once per LangChain release line and reused by every later run.
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, promises as fs, readFileSync, realpathSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { Worker } from 'worker_threads';
+
+import {
+  type LangChainTarget,
+  getLangChainPackageVersion,
+  resolveLangChainTarget,
+} from '../../emitters/typescript/langchain-versions.js';
+
+/**
+ * Overrides the directory of the shared runtime cache
+ */
+export const RUNTIME_DIR_ENV = 'FLOWISE_TO_LC_RUNTIME_DIR';
+
+/**
+ * LangChain packages the runtime cache installs whatever the flow imports
+ */
+export const RUNTIME_PACKAGES = [
+  'langchain',
+  '@langchain/core',
+  '@langchain/openai',
+  '@langchain/community',
+  '@langchain/textsplitters',
+];
+
+/**
+ * Where a flow's packages are resolved from
+ */
+export interface FlowRuntime {
+  /** node_modules directory the flow's imports resolve in */
+  nodeModules: string;
+  source: 'host' | 'cache';
+}
+
+export interface RuntimeResolutionOptions {
+  /** Directories whose node_modules (and their parents') are searched */
+  searchFrom?: string[];
+  /** Shared runtime cache directory */
+  cacheDir?: string;
+  /** Fail instead of installing packages the cache is missing */
+  offline?: boolean;
+  /** Install packages into a directory; defaults to `npm install` */
+  install?: (directory: string) => Promise<void>;
+}
+
+/**
+ * Release line of the LangChain installed where `run` is started, if any
+ */
+export function detectHostLangChainTarget(
+  searchFrom: string[] = defaultSearchRoots()
+): LangChainTarget | undefined {
+  for (const nodeModules of candidateNodeModules(searchFrom)) {
+    const version = readPackageVersion(nodeModules, 'langchain');
+    if (!version) continue;
+    try {
+      return resolveLangChainTarget(version);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Default directory of the shared runtime cache for a release line
+ */
+export function getRuntimeCacheDir(target: LangChainTarget): string {
+  const root =
+    process.env[RUNTIME_DIR_ENV] ??
+    join(homedir(), '.cache', 'flowise-to-langchain', 'runtime');
+  return join(root, `langchain-${target}`);
+}
+
+/**
+ * Find a node_modules directory with every package in `dependencies` on the
+ * target release line, populating the shared cache when no installed one has
+ * them all
+ */
+export async function resolveFlowRuntime(
+  dependencies: Record<string, string>,
+  target: LangChainTarget,
+  options: RuntimeResolutionOptions = {}
+): Promise<FlowRuntime> {
+  const packages = Object.keys(dependencies);
+
+  for (const nodeModules of candidateNodeModules(
+    options.searchFrom ?? defaultSearchRoots()
+  )) {
+    if (hasPackages(nodeModules, packages, target)) {
+      return { nodeModules, source: 'host' };
+    }
+  }
+
+  const cacheDir = options.cacheDir ?? getRuntimeCacheDir(target);
+  const nodeModules = join(cacheDir, 'node_modules');
+  if (hasPackages(nodeModules, packages, target)) {
+    return { nodeModules, source: 'cache' };
+  }
+
+  const missing = packages.filter(
+    (name) => !existsSync(join(nodeModules, name))
+  );
+  if (options.offline) {
+    throw new Error(
+      `LangChain runtime is missing ${missing.join(', ')}: install ${missing.length === 1 ? 'it' : 'them'} in this project, or run once without --offline to populate ${cacheDir}`
+    );
+  }
+
+  // The cache keeps what earlier flows needed, so it is installed into once
+  await fs.mkdir(cacheDir, { recursive: true });
+  const manifestPath = join(cacheDir, 'package.json');
+  const manifest = existsSync(manifestPath)
+    ? (JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as {
+        dependencies?: Record<string, string>;
+      })
+    : {};
+  const runtimePackages = Object.fromEntries(
+    RUNTIME_PACKAGES.flatMap((name) => {
+      const version = getLangChainPackageVersion(name, target);
+      return version ? [[name, version]] : [];
+    })
+  );
+  await fs.writeFile(
+    manifestPath,
+    JSON.stringify(
+      {
+        name: `flowise-langchain-runtime-${target}`,
+        version: '1.0.0',
+        private: true,
+        type: 'module',
+        dependencies: {
+          ...runtimePackages,
+          ...manifest.dependencies,
+          ...dependencies,
+        },
+      },
+      null,
+      2
+    ),
+    'utf-8'
+  );
+
+  await (options.install ?? installPackages)(cacheDir);
+  if (!hasPackages(nodeModules, packages, target)) {
+    throw new Error(`Could not install the LangChain runtime in ${cacheDir}`);
+  }
+  return { nodeModules, source: 'cache' };
+}
+
+/**
+ * Make a flow's imports resolve in the runtime's node_modules
+ */
+export async function linkFlowRuntime(
+  flowDir: string,
+  runtime: FlowRuntime
+): Promise<void> {
+  const link = join(flowDir, 'node_modules');
+  const existing = await fs.lstat(link).catch(() => undefined);
+  if (existing && !existing.isSymbolicLink()) return;
+  if (existing) await fs.rm(link);
+  await fs.symlink(resolve(runtime.nodeModules), link, 'junction');
+}
+
+/**
+ * Transpile the generated TypeScript files to JavaScript modules next to
+ * them, with inline source maps so stack traces point at the TypeScript
+ */
+export async function compileFlowFiles(
+  flowDir: string,
+  files: Array<{ path: string }>
+): Promise<void> {
+  const { default: ts } = await import('typescript');
+
+  for (const file of files) {
+    if (!file.path.endsWith('.ts') || file.path.endsWith('.d.ts')) continue;
+    const path = join(flowDir, file.path);
+    const { outputText } = ts.transpileModule(
+      await fs.readFile(path, 'utf-8'),
+      {
+        fileName: path,
+        compilerOptions: {
+          target: ts.ScriptTarget.ES2022,
+          module: ts.ModuleKind.ESNext,
+          esModuleInterop: true,
+          inlineSourceMap: true,
+          inlineSources: true,
+        },
+      }
+    );
+    await fs.writeFile(path.replace(/\.ts$/, '.js'), outputText, 'utf-8');
+  }
+}
+
+export interface FlowWorkerOptions {
+  /** Environment of the flow */
+  env?: Record<string, string>;
+  /** Arguments appended to the flow's process.argv */
+  argv?: string[];
+  /** Modules imported before the flow, such as the cassette module */
+  preload?: string[];
+  /** Stream the flow's console output goes to; defaults to stdout */
+  stdout?: NodeJS.WritableStream;
+}
+
+/**
+ * Result of one invocation of a flow
+ */
+export interface FlowTurn {
+  input: string;
+  output: unknown;
+  durationMs: number;
+}
+
+/**
+ * A converted flow loaded once and invoked turn by turn
+ */
+export interface FlowRunner {
+  invoke(input: string, timeout?: number): Promise<FlowTurn>;
+  close(): Promise<void>;
+}
+
+/**
+ * Runs in the worker: imports the flow once and calls its runFlow for each
+ * input, so module state such as chat memory carries over between turns
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { pathToFileURL } = require('url');
+
+process.setSourceMapsEnabled(true);
+
+let flow;
+const load = async () => {
+  for (const module of workerData.preload) {
+    await import(pathToFileURL(module).href);
+  }
+  return import(pathToFileURL(workerData.main).href);
+};
+
+parentPort.on('message', async ({ input }) => {
+  try {
+    flow ??= load();
+    const { runFlow } = await flow;
+    if (typeof runFlow !== 'function') {
+      throw new Error(workerData.main + ' does not export runFlow');
+    }
+    const output = await runFlow(input);
+    parentPort.postMessage({
+      output: typeof output === 'string' ? output : JSON.parse(JSON.stringify(output ?? null)),
+    });
+  } catch (error) {
+    parentPort.postMessage({
+      error: { message: error?.message ?? String(error), stack: error?.stack },
+    });
+  }
+});
+`;
+
+/**
+ * A converted flow loaded in a worker thread
+ */
+export class FlowWorker implements FlowRunner {
+  private worker: Worker;
+  private pending = Promise.resolve();
+  private failure?: Error;
+
+  constructor(mainFile: string, options: FlowWorkerOptions = {}) {
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        main: resolve(mainFile.replace(/\.ts$/, '.js')),
+        preload: (options.preload ?? []).map((m) =>
+          resolve(m.replace(/\.ts$/, '.js'))
+        ),
+      },
+      ...(options.env && { env: options.env }),
+      argv: options.argv ?? [],
+      stdout: true,
+    });
+    this.worker.stdout.pipe(options.stdout ?? process.stdout, { end: false });
+    this.worker.on('error', (error) => {
+      this.failure = error;
+    });
+  }
+
+  /**
+   * Run the flow with one input; turns run one after another
+   */
+  invoke(input: string, timeout = 30000): Promise<FlowTurn> {
+    const turn = this.pending.then(() => this.send(input, timeout));
+    this.pending = turn.then(
+      () => undefined,
+      () => undefined
+    );
+    return turn;
+  }
+
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+
+  private send(input: string, timeout: number): Promise<FlowTurn> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    const started = Date.now();
+    return new Promise((resolvePromise, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.worker.off('message', onMessage);
+        this.worker.off('error', onError);
+        this.worker.off('exit', onExit);
+      };
+      const onMessage = (message: {
+        output?: unknown;
+        error?: { message: string; stack?: string };
+      }) => {
+        finish();
+        if (message.error) {
+          const error = new Error(message.error.message);
+          error.stack = message.error.stack ?? error.stack;
+          reject(error);
+        } else {
+          resolvePromise({
+            input,
+            output: message.output,
+            durationMs: Date.now() - started,
+          });
+        }
+      };
+      const onError = (error: Error) => {
+        finish();
+        reject(error);
+      };
+      const onExit = (code: number) => {
+        finish();
+        reject(new Error(`Flow exited with code ${code}`));
+      };
+      const timer = setTimeout(() => {
+        finish();
+        this.failure = new Error(`Flow timed out after ${timeout}ms`);
+        void this.worker.terminate();
+        reject(this.failure);
+      }, timeout);
+
+      this.worker.on('message', onMessage);
+      this.worker.on('error', onError);
+      this.worker.on('exit', onExit);
+      this.worker.postMessage({ input });
+    });
+  }
+}
+
+/**
+ * The project `run` is started in, then the installation of the CLI script
+ */
+function defaultSearchRoots(): string[] {
+  const script = process.argv[1];
+  return script && existsSync(script)
+    ? [process.cwd(), dirname(realpathSync(script))]
+    : [process.cwd()];
+}
+
+/**
+ * node_modules directories of the roots and their parents, nearest first
+ */
+function candidateNodeModules(roots: string[]): string[] {
+  const found: string[] = [];
+  for (const root of roots) {
+    let dir = resolve(root);
+    for (;;) {
+      const nodeModules = join(dir, 'node_modules');
+      if (existsSync(nodeModules) && !found.includes(nodeModules)) {
+        found.push(nodeModules);
+      }
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+  return found;
+}
+
+function hasPackages(
+  nodeModules: string,
+  packages: string[],
+  target: LangChainTarget
+): boolean {
+  return packages.every((name) => {
+    const version = readPackageVersion(nodeModules, name);
+    if (!version) return false;
+    // LangChain itself has to be on the release line the code targets
+    if (name !== 'langchain' && name !== '@langchain/core') return true;
+    try {
+      return resolveLangChainTarget(version) === target;
+    } catch {
+      return false;
+    }
+  });
+}
+
+function readPackageVersion(
+  nodeModules: string,
+  name: string
+): string | undefined {
+  try {
+    const manifest = JSON.parse(
+      readFileSync(join(nodeModules, name, 'package.json'), 'utf-8')
+    ) as { version?: string };
+    return manifest.version;
+  } catch {
+    return undefined;
+  }
+}
+
+async function installPackages(directory: string): Promise<void> {
+  await new Promise<void>((resolvePromise, reject) => {
+    const child = spawn('npm', ['install', '--no-audit', '--no-fund'], {
+      cwd: directory,
+      stdio: 'pipe',
+    });
+    let stderr = '';
+    child.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+    child.on('error', reject);
+    child.on('close', (code) =>
+      code === 0
+        ? resolvePromise()
+        : reject(
+            new Error(`npm install failed with exit code ${code}\n${stderr}`)
+          )
+    );
+  });
+}
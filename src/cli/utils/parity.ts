@@ -0,0 +1,421 @@
+/**
+ * Behavioral Parity
+ *
+ * `test --compare` sends the same inputs to a Flowise prediction endpoint and
+ * to the converted flow, then scores each pair of outputs with a comparator.
+ * The endpoint is a real Flowise instance or a local stand-in that serves
+ * answers recorded from one, so parity can be checked without Flowise.
+ */
+
+import { readFile } from 'fs/promises';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * Built-in comparators; anything else is a path to a custom comparator module
+ */
+export const PARITY_COMPARATORS = ['exact', 'normalized', 'embedding'] as const;
+
+export type ParityComparatorName = (typeof PARITY_COMPARATORS)[number];
+
+/**
+ * Score a custom comparator may return: a verdict, a score between 0 and 1,
+ * or both with a note for the report
+ */
+export type ParityScore =
+  | boolean
+  | number
+  | { score: number; passed?: boolean; note?: string };
+
+/**
+ * Default export of a custom comparator module
+ */
+export type ParityComparatorFunction = (
+  expected: string,
+  actual: string,
+  input: string
+) => ParityScore | Promise<ParityScore>;
+
+export interface ParityConfiguration {
+  /** JSON file with the inputs: strings or `{ "input": "..." }` objects */
+  inputsPath: string;
+  /** Base URL of the Flowise instance */
+  flowiseUrl?: string;
+  /** Id of the chatflow the export was taken from */
+  chatflowId?: string;
+  apiKey?: string;
+  /** JSON file of recorded Flowise answers, served by a local stand-in */
+  standInPath?: string;
+  /** Built-in comparator name or path to a custom comparator module */
+  comparator: string;
+  /** Lowest score that counts as a match */
+  threshold?: number;
+  /** OpenAI-compatible embeddings endpoint of a local model */
+  embeddingUrl: string;
+  embeddingModel: string;
+}
+
+/**
+ * Outputs and score for one input
+ */
+export interface ParityCase {
+  input: string;
+  flowise?: string;
+  converted?: string;
+  score: number;
+  passed: boolean;
+  note?: string;
+  error?: string;
+}
+
+export interface ParityReport {
+  comparator: string;
+  threshold: number;
+  total: number;
+  passed: number;
+  parityRate: number;
+  cases: ParityCase[];
+}
+
+/**
+ * A Flowise prediction endpoint the parity check talks to
+ */
+export interface PredictionEndpoint {
+  url: string;
+  chatflowId: string;
+  apiKey?: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Lowest score that counts as a match when no threshold is given
+ */
+export const DEFAULT_THRESHOLDS: Record<ParityComparatorName, number> = {
+  exact: 1,
+  normalized: 1,
+  embedding: 0.85,
+};
+
+export const DEFAULT_EMBEDDING_URL = 'http://localhost:11434/v1';
+export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+const STAND_IN_CHATFLOW_ID = 'stand-in';
+
+/**
+ * Scores the Flowise and converted outputs of an input
+ */
+export interface ParityComparator {
+  threshold: number;
+  compare(
+    expected: string,
+    actual: string,
+    input: string
+  ): Promise<{ score: number; passed?: boolean; note?: string }>;
+}
+
+/**
+ * Read the parity inputs
+ */
+export async function loadParityInputs(path: string): Promise<string[]> {
+  const data = JSON.parse(await readFile(path, 'utf-8')) as unknown;
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error(`${path} must be a non-empty JSON array of inputs`);
+  }
+
+  return data.map((entry, index) => {
+    if (typeof entry === 'string') return entry;
+    if (entry && typeof entry.input === 'string') return entry.input as string;
+    throw new Error(
+      `Input ${index} in ${path} must be a string or an object with an "input" string`
+    );
+  });
+}
+
+/**
+ * Lower-case text with punctuation dropped and whitespace collapsed
+ */
+export function normalizeOutput(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    throw new Error(
+      `Cannot compare embeddings of size ${a.length} and ${b.length}`
+    );
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Embed texts with an OpenAI-compatible embeddings endpoint, such as the one
+ * Ollama, LM Studio or llama.cpp serve for a local model
+ */
+export async function embedTexts(
+  texts: string[],
+  url: string,
+  model: string
+): Promise<number[][]> {
+  const response = await fetch(`${url.replace(/\/$/, '')}/embeddings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model, input: texts }),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Embedding model '${model}' at ${url} answered ${response.status}`
+    );
+  }
+
+  const body = (await response.json()) as {
+    data?: Array<{ embedding: number[]; index?: number }>;
+  };
+  if (!body.data || body.data.length !== texts.length) {
+    throw new Error(`Embedding model '${model}' at ${url} returned no data`);
+  }
+  return [...body.data]
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((d) => d.embedding);
+}
+
+/**
+ * Comparator for the configured name or custom module
+ */
+export async function createComparator(
+  config: Pick<
+    ParityConfiguration,
+    'comparator' | 'threshold' | 'embeddingUrl' | 'embeddingModel'
+  >
+): Promise<ParityComparator> {
+  const name = config.comparator;
+  const builtIn = (PARITY_COMPARATORS as readonly string[]).includes(name);
+  const threshold =
+    config.threshold ??
+    (builtIn ? DEFAULT_THRESHOLDS[name as ParityComparatorName] : 1);
+
+  if (name === 'exact') {
+    return {
+      threshold,
+      compare: async (expected, actual) => ({
+        score: expected === actual ? 1 : 0,
+      }),
+    };
+  }
+  if (name === 'normalized') {
+    return {
+      threshold,
+      compare: async (expected, actual) => ({
+        score: normalizeOutput(expected) === normalizeOutput(actual) ? 1 : 0,
+      }),
+    };
+  }
+  if (name === 'embedding') {
+    return {
+      threshold,
+      compare: async (expected, actual) => {
+        const [a, b] = await embedTexts(
+          [expected, actual],
+          config.embeddingUrl,
+          config.embeddingModel
+        );
+        return { score: cosineSimilarity(a!, b!) };
+      },
+    };
+  }
+
+  const module = (await import(pathToFileURL(resolve(name)).href)) as {
+    default?: unknown;
+  };
+  if (typeof module.default !== 'function') {
+    throw new Error(
+      `Comparator '${name}' must be one of ${PARITY_COMPARATORS.join(', ')} or a module with a default export function`
+    );
+  }
+  const custom = module.default as ParityComparatorFunction;
+  return {
+    threshold,
+    compare: async (expected, actual, input) => {
+      const result = await custom(expected, actual, input);
+      if (typeof result === 'boolean') {
+        return { score: result ? 1 : 0, passed: result };
+      }
+      return typeof result === 'number' ? { score: result } : result;
+    },
+  };
+}
+
+/**
+ * Ask a Flowise chatflow for its answer to an input
+ */
+export async function fetchFlowisePrediction(
+  endpoint: Pick<PredictionEndpoint, 'url' | 'chatflowId' | 'apiKey'>,
+  question: string
+): Promise<string> {
+  const response = await fetch(
+    `${endpoint.url.replace(/\/$/, '')}/api/v1/prediction/${endpoint.chatflowId}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(endpoint.apiKey && { Authorization: `Bearer ${endpoint.apiKey}` }),
+      },
+      body: JSON.stringify({ question }),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Flowise prediction failed with ${response.status}: ${await response.text()}`
+    );
+  }
+
+  const body = (await response.json()) as { text?: unknown; json?: unknown };
+  if (typeof body.text === 'string') return body.text;
+  return JSON.stringify(body.json ?? body);
+}
+
+/**
+ * Serve recorded Flowise answers (`{ "<input>": "<answer>" }`) from a local
+ * prediction endpoint
+ */
+export async function startPredictionStandIn(
+  answers: Record<string, string>
+): Promise<PredictionEndpoint> {
+  const server = createServer((req, res) => {
+    const route = req.url?.match(/^\/api\/v1\/prediction\/([^/?]+)/);
+    if (req.method !== 'POST' || !route) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      let question: unknown;
+      try {
+        question = (JSON.parse(body) as { question?: unknown }).question;
+      } catch {
+        question = undefined;
+      }
+      const text = typeof question === 'string' ? answers[question] : undefined;
+
+      res.writeHead(text === undefined ? 404 : 200, {
+        'Content-Type': 'application/json',
+      });
+      res.end(
+        JSON.stringify(
+          text === undefined
+            ? { message: `No recorded answer for ${JSON.stringify(question)}` }
+            : { text, question, chatId: STAND_IN_CHATFLOW_ID }
+        )
+      );
+    });
+  });
+
+  await new Promise<void>((listening) =>
+    server.listen(0, '127.0.0.1', listening)
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    chatflowId: STAND_IN_CHATFLOW_ID,
+    close: () =>
+      new Promise<void>((closed, failed) =>
+        server.close((error) => (error ? failed(error) : closed()))
+      ),
+  };
+}
+
+/**
+ * The Flowise endpoint of a parity configuration: the stand-in when recorded
+ * answers are given, otherwise the Flowise instance
+ */
+export async function openPredictionEndpoint(
+  config: ParityConfiguration
+): Promise<PredictionEndpoint> {
+  if (config.standInPath) {
+    const answers = JSON.parse(
+      await readFile(config.standInPath, 'utf-8')
+    ) as Record<string, string>;
+    return startPredictionStandIn(answers);
+  }
+
+  if (!config.flowiseUrl || !config.chatflowId) {
+    throw new Error(
+      'Comparing needs --flowise-url and --chatflow-id, or --flowise-stand-in with recorded answers'
+    );
+  }
+  return {
+    url: config.flowiseUrl,
+    chatflowId: config.chatflowId,
+    ...(config.apiKey && { apiKey: config.apiKey }),
+    close: async () => {},
+  };
+}
+
+/**
+ * Ask Flowise for every input and score its answers against the outputs of
+ * the converted flow. Inputs either side failed on count as mismatches.
+ */
+export async function compareOutputs(
+  inputs: string[],
+  converted: Array<{ output?: string; error?: string }>,
+  endpoint: Pick<PredictionEndpoint, 'url' | 'chatflowId' | 'apiKey'>,
+  comparator: ParityComparator,
+  comparatorName: string
+): Promise<ParityReport> {
+  const cases: ParityCase[] = [];
+
+  for (const [index, input] of inputs.entries()) {
+    const result: ParityCase = { input, score: 0, passed: false };
+    const actual = converted[index];
+    if (actual?.output !== undefined) result.converted = actual.output;
+
+    try {
+      result.flowise = await fetchFlowisePrediction(endpoint, input);
+      if (actual?.output === undefined) {
+        throw new Error(
+          `Converted flow failed: ${actual?.error ?? 'no output'}`
+        );
+      }
+
+      const { score, passed, note } = await comparator.compare(
+        result.flowise,
+        actual.output,
+        input
+      );
+      result.score = score;
+      result.passed = passed ?? score >= comparator.threshold;
+      if (note) result.note = note;
+    } catch (error) {
+      result.error = (error as Error).message;
+    }
+
+    cases.push(result);
+  }
+
+  const passed = cases.filter((c) => c.passed).length;
+  return {
+    comparator: comparatorName,
+    threshold: comparator.threshold,
+    total: cases.length,
+    passed,
+    parityRate: cases.length > 0 ? passed / cases.length : 0,
+    cases,
+  };
+}
@@ -0,0 +1,551 @@
+/**
+ * Sandbox
+ *
+ * Runs generated code in a child Node.js process that may only read and
+ * write under its root directory (and any other paths it is granted), cannot
+ * start processes or workers, cannot open network connections unless they
+ * are allowed, and is stopped when it runs past its time, CPU or memory
+ * limits. Files are confined by Node's permission model, so sandboxing needs
+ * Node.js 20 or later. Network access is refused by guards installed in the
+ * process before the code loads, and a refused connection ends the run: they
+ * keep generated code off the network, but untrusted flows should still run
+ * on a host that is isolated as well.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { existsSync, realpathSync, statSync } from 'fs';
+import { resolve, sep } from 'path';
+
+import type { FlowRunner, FlowTurn } from './flow-runtime.js';
+
+export interface SandboxLimits {
+  /** Wall-clock time the process may run, in milliseconds */
+  timeoutMs?: number;
+  /** CPU time the process may use, in milliseconds; not enforced on Windows */
+  cpuTimeMs?: number;
+  /** JavaScript heap the process may use, in megabytes */
+  memoryMb?: number;
+  /** Hosts the code may connect to, or true for any */
+  network?: boolean | string[];
+  /** Bytes kept of each of stdout and stderr */
+  maxOutputBytes?: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: Required<SandboxLimits> = {
+  timeoutMs: 30_000,
+  cpuTimeMs: 30_000,
+  memoryMb: 512,
+  network: false,
+  maxOutputBytes: 1024 * 1024,
+};
+
+/**
+ * Largest limits a sandbox accepts
+ */
+export const MAX_SANDBOX_LIMITS = {
+  timeoutMs: 10 * 60_000,
+  cpuTimeMs: 10 * 60_000,
+  memoryMb: 4096,
+  maxOutputBytes: 16 * 1024 * 1024,
+};
+
+export interface SandboxOptions extends SandboxLimits {
+  /** Directory the code runs in, and the only one it may write to */
+  root: string;
+  /** Other files and directories it may read, such as node_modules */
+  readPaths?: string[];
+  /** Other files and directories it may write, such as a cassette */
+  writePaths?: string[];
+  /** Environment of the process; the host's is not passed on */
+  env?: Record<string, string>;
+  /** Arguments after the script in process.argv */
+  args?: string[];
+  /** Extra Node.js flags, such as --experimental-vm-modules */
+  nodeOptions?: string[];
+  /** Kills the process when aborted */
+  signal?: AbortSignal;
+}
+
+export interface SandboxResult {
+  exitCode: number | null;
+  /** Signal that ended the process */
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  /** Whether stdout or stderr went past maxOutputBytes and was cut */
+  truncated: boolean;
+  /** The limit that stopped the process */
+  limit?: 'timeout' | 'cpu' | 'memory';
+  durationMs: number;
+}
+
+export class SandboxError extends Error {
+  constructor(
+    message: string,
+    public limit?: SandboxResult['limit']
+  ) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+/**
+ * Environment variable the sandbox settings reach the bootstrap code in
+ */
+const SANDBOX_ENV = 'FLOWISE_SANDBOX';
+
+/**
+ * Runs in the sandboxed process before the code: installs the network guards,
+ * then imports the script, or for a flow imports it once and calls its
+ * runFlow for each input sent over IPC
+ */
+const BOOTSTRAP_SOURCE = `
+const net = require('net');
+const dgram = require('dgram');
+const { pathToFileURL } = require('url');
+
+const config = JSON.parse(process.env.${SANDBOX_ENV});
+delete process.env.${SANDBOX_ENV};
+process.setSourceMapsEnabled(true);
+
+// Model clients take a refused socket for a network failure and retry it
+// until the time limit, so the first refusal also ends the run, once the code
+// has seen the error
+let refused = false;
+const refuse = (target) => {
+  const error = new Error('Network disabled in the sandbox: the connection to ' + target + ' was refused');
+  error.code = 'ERR_SANDBOX_NETWORK';
+  if (!refused) {
+    refused = true;
+    setImmediate(() => {
+      if (config.flow) {
+        process.send({ error: { message: error.message, stack: error.stack } }, () => process.exit(1));
+      } else {
+        console.error(error.message);
+        process.exit(1);
+      }
+    });
+  }
+  return error;
+};
+
+if (config.network !== true) {
+  const allowed = new Set(config.network || []);
+  const connect = net.Socket.prototype.connect;
+  net.Socket.prototype.connect = function (...args) {
+    let options = Array.isArray(args[0]) ? args[0][0] : args[0];
+    if (options === null || typeof options !== 'object') {
+      options = typeof options === 'string' && Number.isNaN(Number(options))
+        ? { path: options }
+        : { host: typeof args[1] === 'string' ? args[1] : 'localhost' };
+    }
+    const target = options.path || options.host || 'localhost';
+    if (options.path || !allowed.has(target)) {
+      process.nextTick(() => this.destroy(refuse(target)));
+      return this;
+    }
+    return connect.apply(this, args);
+  };
+  dgram.createSocket = () => {
+    throw refuse('UDP sockets');
+  };
+}
+
+const main = pathToFileURL(process.argv[1]).href;
+if (config.flow) {
+  let flow;
+  const load = async () => {
+    for (const module of config.flow.preload) {
+      await import(pathToFileURL(module).href);
+    }
+    return import(main);
+  };
+  process.on('message', async ({ input }) => {
+    try {
+      flow ??= load();
+      const { runFlow } = await flow;
+      if (typeof runFlow !== 'function') {
+        throw new Error(process.argv[1] + ' does not export runFlow');
+      }
+      const output = await runFlow(input);
+      process.send({
+        output: typeof output === 'string' ? output : JSON.parse(JSON.stringify(output ?? null)),
+      });
+    } catch (error) {
+      process.send({
+        error: { message: error?.message ?? String(error), stack: error?.stack },
+      });
+    }
+  });
+} else {
+  import(main).catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
+`;
+
+/**
+ * Whether this Node.js can confine a process to its files
+ */
+export function isSandboxSupported(): boolean {
+  return permissionFlag() !== undefined;
+}
+
+/**
+ * Fill in the default limits, throwing a RangeError for invalid ones
+ */
+export function resolveSandboxLimits(
+  limits: SandboxLimits = {}
+): Required<SandboxLimits> {
+  const resolved = { ...DEFAULT_SANDBOX_LIMITS };
+  for (const key of Object.keys(MAX_SANDBOX_LIMITS) as Array<
+    keyof typeof MAX_SANDBOX_LIMITS
+  >) {
+    const value = limits[key];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new RangeError(`Sandbox ${key} must be a positive integer`);
+    }
+    if (value > MAX_SANDBOX_LIMITS[key]) {
+      throw new RangeError(
+        `Sandbox ${key} may be at most ${MAX_SANDBOX_LIMITS[key]}`
+      );
+    }
+    resolved[key] = value;
+  }
+
+  const { network } = limits;
+  if (network !== undefined) {
+    if (
+      typeof network !== 'boolean' &&
+      !(Array.isArray(network) && network.every((h) => typeof h === 'string'))
+    ) {
+      throw new RangeError(
+        'Sandbox network must be true, false or a list of hosts'
+      );
+    }
+    resolved.network = network;
+  }
+  return resolved;
+}
+
+/**
+ * Run a JavaScript module in a sandbox, capturing its output. Resolves when
+ * the process ends, whatever its exit code; rejects when `signal` aborts.
+ */
+export function runSandboxed(
+  script: string,
+  options: SandboxOptions
+): Promise<SandboxResult> {
+  const limits = resolveSandboxLimits(options);
+  const started = Date.now();
+
+  return new Promise((resolvePromise, reject) => {
+    if (options.signal?.aborted) {
+      reject(options.signal.reason);
+      return;
+    }
+
+    const { command, args, env } = sandboxCommand(script, options, limits);
+    const child = spawn(command, args, {
+      cwd: options.root,
+      env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const stdout = new OutputBuffer(limits.maxOutputBytes);
+    const stderr = new OutputBuffer(limits.maxOutputBytes);
+    let limit: SandboxResult['limit'];
+    let killed = false;
+    const kill = () => {
+      killed = true;
+      child.kill('SIGKILL');
+    };
+
+    child.stdout?.on('data', (data: Buffer) => stdout.append(data));
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr.append(data);
+      if (data.includes('heap out of memory')) limit = 'memory';
+    });
+
+    const timer = setTimeout(() => {
+      limit = 'timeout';
+      kill();
+    }, limits.timeoutMs);
+    const onAbort = () => {
+      kill();
+      reject(options.signal!.reason);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      // RLIMIT_CPU sends SIGXCPU, then SIGKILL if the process carries on
+      if (!limit && !killed && (signal === 'SIGXCPU' || signal === 'SIGKILL')) {
+        limit = 'cpu';
+      }
+      resolvePromise({
+        exitCode,
+        signal,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        truncated: stdout.truncated || stderr.truncated,
+        limit,
+        durationMs: Date.now() - started,
+      });
+    });
+  });
+}
+
+export interface SandboxedFlowOptions
+  extends Omit<SandboxOptions, 'args' | 'timeoutMs' | 'signal'> {
+  /** Arguments appended to the flow's process.argv */
+  argv?: string[];
+  /** Modules imported before the flow, such as the cassette module */
+  preload?: string[];
+  /** Stream the flow's console output goes to; defaults to stdout */
+  stdout?: NodeJS.WritableStream;
+}
+
+/**
+ * A converted flow loaded in a sandboxed process. Its CPU time limit covers
+ * every turn; the time limit of each turn is given to invoke.
+ */
+export class SandboxedFlow implements FlowRunner {
+  private child: ChildProcess;
+  private pending = Promise.resolve();
+  private failure?: Error;
+  private stderr: OutputBuffer;
+  private outOfMemory = false;
+  private exit?: { code: number | null; signal: NodeJS.Signals | null };
+
+  constructor(
+    mainFile: string,
+    private readonly options: SandboxedFlowOptions
+  ) {
+    const limits = resolveSandboxLimits(options);
+    const { command, args, env } = sandboxCommand(
+      resolve(mainFile.replace(/\.ts$/, '.js')),
+      { ...options, args: options.argv },
+      limits,
+      (options.preload ?? []).map((m) => resolve(m.replace(/\.ts$/, '.js')))
+    );
+
+    this.child = spawn(command, args, {
+      cwd: options.root,
+      env,
+      stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+    });
+    this.stderr = new OutputBuffer(limits.maxOutputBytes);
+    this.child.stdout?.pipe(options.stdout ?? process.stdout, { end: false });
+    this.child.stderr?.on('data', (data: Buffer) => {
+      this.stderr.append(data);
+      if (data.includes('heap out of memory')) this.outOfMemory = true;
+      process.stderr.write(data);
+    });
+    this.child.on('error', (error) => {
+      this.failure = error;
+    });
+    this.child.on('exit', (code, signal) => {
+      this.exit = { code, signal };
+    });
+  }
+
+  /**
+   * Run the flow with one input; turns run one after another
+   */
+  invoke(input: string, timeout = 30000): Promise<FlowTurn> {
+    const turn = this.pending.then(() => this.send(input, timeout));
+    this.pending = turn.then(
+      () => undefined,
+      () => undefined
+    );
+    return turn;
+  }
+
+  async close(): Promise<void> {
+    if (this.exit) return;
+    const exited = new Promise((resolvePromise) =>
+      this.child.once('exit', resolvePromise)
+    );
+    this.child.kill('SIGKILL');
+    await exited;
+  }
+
+  private send(input: string, timeout: number): Promise<FlowTurn> {
+    if (this.failure) return Promise.reject(this.failure);
+    if (this.exit) return Promise.reject(this.exitError());
+
+    const started = Date.now();
+    return new Promise((resolvePromise, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.child.off('message', onMessage);
+        this.child.off('exit', onExit);
+      };
+      const onMessage = (message: {
+        output?: unknown;
+        error?: { message: string; stack?: string };
+      }) => {
+        finish();
+        if (message.error) {
+          const error = new Error(message.error.message);
+          error.stack = message.error.stack ?? error.stack;
+          reject(error);
+        } else {
+          resolvePromise({
+            input,
+            output: message.output,
+            durationMs: Date.now() - started,
+          });
+        }
+      };
+      const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+        finish();
+        this.exit = { code, signal };
+        this.failure = this.exitError();
+        reject(this.failure);
+      };
+      const timer = setTimeout(() => {
+        finish();
+        this.failure = new SandboxError(
+          `Flow timed out after ${timeout}ms`,
+          'timeout'
+        );
+        this.child.kill('SIGKILL');
+        reject(this.failure);
+      }, timeout);
+
+      this.child.on('message', onMessage);
+      this.child.on('exit', onExit);
+      this.child.send({ input });
+    });
+  }
+
+  private exitError(): SandboxError {
+    const { code, signal } = this.exit!;
+    const stderr = this.stderr.toString();
+    if (this.outOfMemory) {
+      return new SandboxError(
+        `Flow ran out of memory (${resolveSandboxLimits(this.options).memoryMb}MB)`,
+        'memory'
+      );
+    }
+    if (signal === 'SIGXCPU' || signal === 'SIGKILL') {
+      return new SandboxError('Flow used up its CPU time', 'cpu');
+    }
+    return new SandboxError(
+      `Flow exited with ${signal ? `signal ${signal}` : `code ${code}`}${stderr ? `: ${stderr.trim()}` : ''}`
+    );
+  }
+}
+
+/**
+ * Command line of a sandboxed process: Node.js with the permission flags and
+ * heap limit, started under `ulimit -t` where there is a POSIX shell
+ */
+function sandboxCommand(
+  script: string,
+  options: SandboxOptions,
+  limits: Required<SandboxLimits>,
+  preload?: string[]
+): { command: string; args: string[]; env: Record<string, string> } {
+  const flag = permissionFlag();
+  if (!flag) {
+    throw new SandboxError(
+      `Sandboxed execution needs Node.js 20 or later; this is ${process.version}`
+    );
+  }
+
+  const root = resolve(options.root);
+  const nodeArgs = [
+    flag,
+    ...[root, ...(options.readPaths ?? [])].map(
+      (path) => `--allow-fs-read=${grantedPath(path)}`
+    ),
+    ...[root, ...(options.writePaths ?? [])].map(
+      (path) => `--allow-fs-write=${grantedPath(path)}`
+    ),
+    `--max-old-space-size=${limits.memoryMb}`,
+    '--no-warnings',
+    ...(options.nodeOptions ?? []),
+    '-e',
+    BOOTSTRAP_SOURCE,
+    script,
+    ...(options.args ?? []),
+  ];
+  const env = {
+    HOME: root,
+    TMPDIR: root,
+    ...options.env,
+    [SANDBOX_ENV]: JSON.stringify({
+      network: limits.network,
+      ...(preload && { flow: { preload } }),
+    }),
+  };
+
+  if (process.platform === 'win32' || !existsSync('/bin/sh')) {
+    return { command: process.execPath, args: nodeArgs, env };
+  }
+  return {
+    command: '/bin/sh',
+    args: [
+      '-c',
+      `ulimit -t ${Math.ceil(limits.cpuTimeMs / 1000)} && exec "$0" "$@"`,
+      process.execPath,
+      ...nodeArgs,
+    ],
+    env,
+  };
+}
+
+function permissionFlag(): string | undefined {
+  const flags = process.allowedNodeEnvironmentFlags;
+  if (flags.has('--permission')) return '--permission';
+  if (flags.has('--experimental-permission'))
+    return '--experimental-permission';
+  return undefined;
+}
+
+/**
+ * A path as the permission flags take it: resolved through symlinks, since
+ * modules are loaded from their real paths, and ending with a separator for
+ * directories so everything below them is granted
+ */
+function grantedPath(path: string): string {
+  const absolute = resolve(path);
+  const real = existsSync(absolute) ? realpathSync(absolute) : absolute;
+  const isFile = existsSync(real) && statSync(real).isFile();
+  return isFile || real.endsWith(sep) ? real : real + sep;
+}
+
+/**
+ * Output of a process, keeping up to a number of bytes
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private readonly maxBytes: number) {}
+
+  append(data: Buffer): void {
+    const room = this.maxBytes - this.size;
+    if (data.length > room) this.truncated = true;
+    if (room <= 0) return;
+    const kept = data.length > room ? data.subarray(0, room) : data;
+    this.chunks.push(kept);
+    this.size += kept.length;
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf-8');
+  }
+}
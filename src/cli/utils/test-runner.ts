@@ -3,11 +3,38 @@ import { spawn } from 'child_process';
 import { join } from 'path';
 import { existsSync } from 'fs';
 import { readFile, writeFile, mkdir } from 'fs/promises';
+import {
+  CASSETTE_ENV,
+  CASSETTE_MODE_ENV,
+  CASSETTE_MODULE_FILE,
+} from '../../emitters/typescript/cassette.js';
+import {
+  loadNodeSourceMap,
+  translateStackTrace,
+  type NodeSourceMap,
+} from '../../emitters/typescript/source-map.js';
+import { compileFlowFiles } from './flow-runtime.js';
 import { logger } from './logger.js';
+import {
+  compareOutputs,
+  createComparator,
+  loadParityInputs,
+  openPredictionEndpoint,
+  type ParityReport,
+} from './parity.js';
+import {
+  runSandboxed,
+  SandboxedFlow,
+  SandboxError,
+  type SandboxLimits,
+} from './sandbox.js';
+
+const PARITY_OUTPUT_MARKER = '__FLOWISE_PARITY__';
 
 export class TestRunner {
   private config: TestConfiguration;
   private tempDir: string;
+  private sourceMap?: NodeSourceMap;
 
   constructor(config: TestConfiguration) {
     this.config = config;
@@ -23,6 +50,18 @@ export class TestRunner {
     // Setup test environment file
     await this.setupTestEnvironment();
 
+    // Failures are reported against the Flowise nodes that produced the code
+    this.sourceMap = await loadNodeSourceMap(this.config.outputPath);
+
+    if (
+      this.config.cassette &&
+      !existsSync(join(this.config.outputPath, CASSETTE_MODULE_FILE))
+    ) {
+      throw new Error(
+        `${CASSETTE_MODULE_FILE} not found; convert the flow with --include-tests to record or replay cassettes`
+      );
+    }
+
     // Install test dependencies if needed
     await this.ensureTestDependencies();
   }
@@ -134,16 +173,13 @@ export class TestRunner {
     try {
       logger.debug('Starting end-to-end tests...', {});
 
-      // Load original Flowise data for comparison
-      const originalData = await this.loadOriginalFlowiseData();
-
       // Setup E2E test environment
       await this.setupE2EEnvironment();
 
       const hasExistingTests = await this.checkExistingTests('e2e');
 
       if (!hasExistingTests) {
-        await this.generateE2ETests(originalData);
+        await this.generateE2ETests();
       }
 
       const testResult = await this.executeTests('e2e');
@@ -170,6 +206,34 @@ export class TestRunner {
     return result;
   }
 
+  /**
+   * Run the parity inputs through Flowise and the converted flow and score
+   * the outputs against each other
+   */
+  async runParityTests(): Promise<ParityReport> {
+    const parity = this.config.compare;
+    if (!parity) {
+      throw new Error('No comparison configured; pass --compare <inputs>');
+    }
+
+    const inputs = await loadParityInputs(parity.inputsPath);
+    const comparator = await createComparator(parity);
+    const converted = await this.runConvertedFlow(inputs);
+
+    const endpoint = await openPredictionEndpoint(parity);
+    try {
+      return await compareOutputs(
+        inputs,
+        converted,
+        endpoint,
+        comparator,
+        parity.comparator
+      );
+    } finally {
+      await endpoint.close();
+    }
+  }
+
   async fixFailingTests(
     testResult: TestResult
   ): Promise<{ success: boolean; fixes: string[] }> {
@@ -259,6 +323,8 @@ MOCK_EXTERNAL_APIS=${this.config.mockExternal}
       join(this.config.outputPath, 'test', testType),
       join(this.config.outputPath, 'tests', testType),
       join(this.config.outputPath, '__tests__', testType),
+      // Tests generated with the fake-model harness
+      join(this.config.outputPath, 'src', '__tests__', testType),
     ];
 
     for (const dir of testDirs) {
@@ -331,7 +397,7 @@ describe('Generated Integration Tests', () => {
     logger.debug('Generated basic integration tests', {});
   }
 
-  private async generateE2ETests(originalData: any): Promise<void> {
+  private async generateE2ETests(): Promise<void> {
     const testDir = join(this.config.outputPath, 'test', 'e2e');
     await mkdir(testDir, { recursive: true });
 
@@ -351,12 +417,6 @@ describe('Generated E2E Tests', () => {
     // Test complete flow execution
     expect(true).toBe(true); // Placeholder
   });
-
-  it('should match original Flowise behavior', async () => {
-    // Test fidelity to original Flowise export
-    const originalNodes = ${originalData?.nodes?.length || 0};
-    expect(originalNodes).toBeGreaterThan(0);
-  });
 });
 `.trim();
 
@@ -365,6 +425,10 @@ describe('Generated E2E Tests', () => {
   }
 
   private async executeTests(testType: string): Promise<TestResult> {
+    if (this.config.sandbox) {
+      return this.executeSandboxedTests(testType, this.config.sandbox);
+    }
+
     return new Promise((resolve) => {
       const command = 'npm';
       const args = ['test', '--', `--testPathPattern=${testType}`];
@@ -372,7 +436,8 @@ describe('Generated E2E Tests', () => {
       const child = spawn(command, args, {
         cwd: this.config.outputPath,
         stdio: ['pipe', 'pipe', 'pipe'],
-        env: { ...process.env, NODE_ENV: 'test' },
+        signal: this.config.signal,
+        env: { ...process.env, ...this.testEnvironment() },
       });
 
       let stdout = '';
@@ -431,6 +496,115 @@ describe('Generated E2E Tests', () => {
     });
   }
 
+  /**
+   * Run the tests with the project's jest in a sandbox that may write only
+   * the project directory and a cassette being recorded
+   */
+  private async executeSandboxedTests(
+    testType: string,
+    limits: SandboxLimits
+  ): Promise<TestResult> {
+    const failure = (name: string, error: string, suggestion: string) => ({
+      success: false,
+      totalTests: 0,
+      passedTests: 0,
+      failedTests: [{ name, error, suggestion }],
+      duration: 0,
+      coverage: undefined,
+    });
+
+    const jest = join(
+      this.config.outputPath,
+      'node_modules',
+      'jest',
+      'bin',
+      'jest.js'
+    );
+    if (!existsSync(jest)) {
+      return failure(
+        'Test Execution',
+        `${jest} not found`,
+        'Run npm install in the converted project before testing it in a sandbox'
+      );
+    }
+
+    const result = await runSandboxed(jest, {
+      timeoutMs: this.config.timeout,
+      cpuTimeMs: this.config.timeout,
+      ...limits,
+      ...this.sandboxPaths(),
+      // Generated tests are ES modules run by ts-jest
+      nodeOptions: ['--experimental-vm-modules'],
+      env: this.testEnvironment(),
+      // Jest may not start workers or watchman in the sandbox
+      args: [
+        '--runInBand',
+        '--ci',
+        '--watchman=false',
+        `--cacheDirectory=${join(this.tempDir, 'jest-cache')}`,
+        `--testPathPattern=${testType}`,
+      ],
+      signal: this.config.signal,
+    });
+
+    switch (result.limit) {
+      case 'timeout':
+        return failure(
+          'Test Timeout',
+          `Tests exceeded timeout of ${limits.timeoutMs ?? this.config.timeout}ms`,
+          'Consider increasing timeout or optimizing test performance'
+        );
+      case 'cpu':
+        return failure(
+          'Test CPU Limit',
+          'Tests used up their CPU time',
+          'Raise the CPU time limit of the sandbox'
+        );
+      case 'memory':
+        return failure(
+          'Test Memory Limit',
+          `Tests ran out of memory (${limits.memoryMb ?? 'default'}MB)`,
+          'Raise the memory limit of the sandbox'
+        );
+    }
+    return this.parseTestOutput(
+      result.stdout,
+      result.stderr,
+      result.exitCode === 0
+    );
+  }
+
+  /**
+   * Environment the generated tests run with
+   */
+  private testEnvironment(): Record<string, string> {
+    return {
+      NODE_ENV: 'test',
+      // The generated harness swaps models and tools for fakes unless false
+      MOCK_EXTERNAL_APIS: String(this.config.mockExternal),
+      ...(this.config.cassette && {
+        [CASSETTE_ENV]: this.config.cassette.path,
+        [CASSETTE_MODE_ENV]: this.config.cassette.mode,
+      }),
+    };
+  }
+
+  /**
+   * What sandboxed tests and flows may touch besides the project: its
+   * dependencies wherever they are linked from, and the cassette
+   */
+  private sandboxPaths() {
+    const cassette = this.config.cassette;
+    return {
+      root: this.config.outputPath,
+      readPaths: [
+        join(this.config.outputPath, 'node_modules'),
+        ...(cassette ? [cassette.path] : []),
+      ],
+      writePaths: cassette?.mode === 'record' ? [cassette.path] : [],
+    };
+  }
+
   private parseTestOutput(
     stdout: string,
     stderr: string,
@@ -452,7 +626,9 @@ describe('Generated E2E Tests', () => {
     if (!success && stderr) {
       failedTests.push({
         name: 'Test Execution Error',
-        error: stderr,
+        error: this.sourceMap
+          ? translateStackTrace(stderr, this.sourceMap)
+          : stderr,
         suggestion: 'Check test configuration and dependencies',
       });
     }
@@ -467,6 +643,162 @@ describe('Generated E2E Tests', () => {
     };
   }
 
+  /**
+   * Run every input through the runFlow export of the converted project, in
+   * one process so the flow is set up once
+   */
+  private async runConvertedFlow(
+    inputs: string[]
+  ): Promise<Array<{ output?: string; error?: string }>> {
+    const mainFile = join(this.config.outputPath, 'src', 'index.ts');
+    if (!existsSync(mainFile)) {
+      throw new Error(
+        `${mainFile} not found; the converted flow must export runFlow`
+      );
+    }
+    if (this.config.sandbox) {
+      return this.runSandboxedFlow(mainFile, inputs, this.config.sandbox);
+    }
+
+    const runnerPath = join(this.tempDir, 'parity-runner.ts');
+    const cassetteImport = this.config.cassette
+      ? `import '../${CASSETTE_MODULE_FILE.replace(/\.ts$/, '.js')}';\n`
+      : '';
+    await writeFile(
+      runnerPath,
+      `${cassetteImport}import { runFlow } from '../src/index.js';
+
+const inputs: string[] = ${JSON.stringify(inputs)};
+const results: Array<{ output?: string; error?: string }> = [];
+for (const input of inputs) {
+  try {
+    const output = await runFlow(input);
+    results.push({ output: typeof output === 'string' ? output : JSON.stringify(output) });
+  } catch (error) {
+    results.push({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
+console.log(${JSON.stringify(PARITY_OUTPUT_MARKER)} + JSON.stringify(results));
+`
+    );
+
+    const stdout = await new Promise<string>((resolve, reject) => {
+      const child = spawn('npx', ['tsx', runnerPath], {
+        cwd: this.config.outputPath,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        signal: this.config.signal,
+        env: {
+          ...process.env,
+          ...(this.config.cassette && {
+            [CASSETTE_ENV]: this.config.cassette.path,
+            [CASSETTE_MODE_ENV]: this.config.cassette.mode,
+          }),
+        },
+      });
+
+      let stdout = '';
+      let stderr = '';
+      child.stdout?.on('data', (data) => (stdout += data.toString()));
+      child.stderr?.on('data', (data) => (stderr += data.toString()));
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(
+          new Error(
+            `Converted flow exceeded timeout of ${this.config.timeout}ms per input`
+          )
+        );
+      }, this.config.timeout * inputs.length);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(stdout);
+          return;
+        }
+        const error = stderr || stdout;
+        reject(
+          new Error(
+            `Converted flow exited with code ${code}: ${
+              this.sourceMap
+                ? translateStackTrace(error, this.sourceMap)
+                : error
+            }`
+          )
+        );
+      });
+    });
+
+    const line = stdout
+      .split('\n')
+      .find((l) => l.startsWith(PARITY_OUTPUT_MARKER));
+    if (!line) {
+      throw new Error('Converted flow did not report its outputs');
+    }
+    return JSON.parse(line.slice(PARITY_OUTPUT_MARKER.length));
+  }
+
+  /**
+   * Run the inputs through the converted flow in a sandbox, compiling the
+   * project to JavaScript first since the sandbox cannot start tsx
+   */
+  private async runSandboxedFlow(
+    mainFile: string,
+    inputs: string[],
+    limits: SandboxLimits
+  ): Promise<Array<{ output?: string; error?: string }>> {
+    const { glob } = await import('glob');
+    const sources = await glob('src/**/*.ts', {
+      cwd: this.config.outputPath,
+      ignore: ['**/__tests__/**', '**/*.d.ts'],
+    });
+    await compileFlowFiles(
+      this.config.outputPath,
+      sources.map((path) => ({ path }))
+    );
+
+    const flow = new SandboxedFlow(mainFile, {
+      ...limits,
+      ...this.sandboxPaths(),
+      env: this.testEnvironment(),
+      ...(this.config.cassette && {
+        preload: [join(this.config.outputPath, CASSETTE_MODULE_FILE)],
+      }),
+    });
+    const abort = () => void flow.close();
+    this.config.signal?.addEventListener('abort', abort, { once: true });
+
+    const results: Array<{ output?: string; error?: string }> = [];
+    try {
+      for (const input of inputs) {
+        try {
+          const { output } = await flow.invoke(input, this.config.timeout);
+          results.push({
+            output:
+              typeof output === 'string' ? output : JSON.stringify(output),
+          });
+        } catch (error) {
+          // A flow stopped by a sandbox limit cannot answer the other inputs
+          if (error instanceof SandboxError) throw error;
+          const message = (error as Error).message;
+          results.push({
+            error: this.sourceMap
+              ? translateStackTrace(message, this.sourceMap)
+              : message,
+          });
+        }
+      }
+    } finally {
+      this.config.signal?.removeEventListener('abort', abort);
+      await flow.close();
+    }
+    return results;
+  }
+
   private async setupIntegrationEnvironment(): Promise<void> {
     // Additional setup for integration tests
     logger.debug('Setting up integration test environment', {});
@@ -477,18 +809,6 @@ describe('Generated E2E Tests', () => {
     logger.debug('Setting up E2E test environment', {});
   }
 
-  private async loadOriginalFlowiseData(): Promise<any> {
-    try {
-      const content = await readFile(this.config.inputPath, 'utf-8');
-      return JSON.parse(content);
-    } catch (error) {
-      logger.warn('Could not load original Flowise data:', {
-        error: (error as Error).message,
-      });
-      return null;
-    }
-  }
-
   private async attemptTestFix(failedTest: {
     name: string;
     error: string;
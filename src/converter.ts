@@ -12,10 +12,26 @@ import {
 import { writeFile, mkdir } from 'fs/promises';
 import { dirname, resolve, join } from 'path';
 import { Logger } from './cli/utils/logger.js';
+import {
+  CompilationChecker,
+  formatCompilationDiagnostic,
+  type CompilationCheckResult,
+} from './emitters/typescript/compile-check.js';
+import {
+  LangChainLinter,
+  formatLintWarning,
+} from './emitters/typescript/langchain-lint.js';
+import {
+  createDirectoryReader,
+  loadGenerationManifest,
+  mergeGeneratedFiles,
+  type RegenerationResult,
+} from './emitters/typescript/regeneration.js';
 import type {
   CodeGenerationResult,
   GenerationContext,
   FlowiseChatFlow,
+  ValidationWarning,
 } from './ir/types.js';
 
 /**
@@ -28,8 +44,8 @@ export interface ConversionOptions {
   /** Include LangFuse tracing integration */
   includeLangfuse?: boolean;
 
-  /** Target language/format (currently only 'typescript') */
-  target?: 'typescript';
+  /** Target language */
+  target?: 'typescript' | 'python';
 
   /** Output module format */
   outputFormat?: 'esm' | 'cjs';
@@ -40,6 +56,12 @@ export interface ConversionOptions {
   /** Overwrite existing files */
   overwrite?: boolean;
 
+  /** Type-check generated TypeScript against the bundled LangChain stubs */
+  verify?: boolean;
+
+  /** Check generated TypeScript for LangChain-specific problems (default true) */
+  lint?: boolean;
+
   /** Verbose logging */
   verbose?: boolean;
 
@@ -71,6 +93,15 @@ export interface ConversionResult {
   /** Conversion warnings */
   warnings: string[];
 
+  /** Compilation check of the generated code, when requested */
+  verification?: CompilationCheckResult;
+
+  /** LangChain lint findings in the generated code */
+  lint?: ValidationWarning[];
+
+  /** Hand edits kept and conflicts found when overwriting a project */
+  regeneration?: Omit<RegenerationResult, 'files'>;
+
   /** Performance and analysis metrics */
   metrics: ConversionMetrics & {
     totalFiles: number;
@@ -152,8 +183,7 @@ export class ConverterPipeline {
     try {
       // Build generation context
       const baseContext: Partial<GenerationContext> = {
-        targetLanguage:
-          (options.target as 'typescript' | 'python') || 'typescript',
+        targetLanguage: options.target || 'typescript',
         includeLangfuse: options.includeLangfuse || false,
         outputPath: '',
         projectName: 'converted-flow',
@@ -202,16 +232,44 @@ export class ConverterPipeline {
         };
       }
 
+      // Type-check before writing so diagnostics reach the caller even
+      // when the files are kept for inspection
+      const verification =
+        options.verify && context.targetLanguage === 'typescript'
+          ? await new CompilationChecker().check(result.result.files)
+          : undefined;
+      const lint =
+        options.lint !== false && context.targetLanguage === 'typescript'
+          ? await new LangChainLinter().lint(result.result.files)
+          : undefined;
+      const errors = [
+        ...result.errors,
+        ...(verification?.diagnostics
+          .filter((d) => d.category === 'error')
+          .map(formatCompilationDiagnostic) ?? []),
+      ];
+      const warnings = [
+        ...result.warnings,
+        ...(verification?.uncheckedModules.map(
+          (name) => `No type stubs for '${name}'; its imports were not checked`
+        ) ?? []),
+        ...(options.verify && !verification
+          ? ['Compilation check skipped: only TypeScript output is verified']
+          : []),
+        ...(lint?.map(formatLintWarning) ?? []),
+      ];
+
       // Write files if output path is specified
       const ioStart = Date.now();
-      const files = options.outputPath
+      const { files, regeneration } = options.outputPath
         ? await this.writeFiles(
             result.result,
             options.outputPath,
             options.overwrite || false
           )
-        : [];
+        : { files: [], regeneration: undefined };
       const ioTime = Date.now() - ioStart;
+      warnings.push(...(regeneration?.conflicts.map((c) => c.message) ?? []));
 
       // Get analysis
       const validation = await this.converter.validate(input);
@@ -220,10 +278,13 @@ export class ConverterPipeline {
       this.logger.info(`Conversion completed: ${files.length} files generated`);
 
       return {
-        success: true,
+        success: verification?.success ?? true,
         files,
-        errors: result.errors,
-        warnings: result.warnings,
+        errors,
+        warnings,
+        verification,
+        lint,
+        regeneration,
         metrics: this.createExtendedMetrics(startTime, 'success', {
           analysisTime,
           generationTime,
@@ -326,13 +387,17 @@ export class ConverterPipeline {
   }
 
   /**
-   * Write generated files to disk
+   * Write generated files to disk. Overwriting merges with the existing
+   * project so hand-edited fragments and user regions are kept
    */
   private async writeFiles(
     codeResult: CodeGenerationResult,
     outputPath: string,
     overwrite: boolean
-  ): Promise<ConversionResult['files']> {
+  ): Promise<{
+    files: ConversionResult['files'];
+    regeneration?: ConversionResult['regeneration'];
+  }> {
     const files: ConversionResult['files'] = [];
     const outputDir = resolve(outputPath);
 
@@ -343,7 +408,15 @@ export class ConverterPipeline {
     // Create output directory
     await mkdir(outputDir, { recursive: true });
 
-    for (const file of codeResult.files) {
+    const merged = overwrite
+      ? await mergeGeneratedFiles(
+          codeResult.files,
+          createDirectoryReader(outputDir),
+          await loadGenerationManifest(outputDir)
+        )
+      : undefined;
+
+    for (const file of merged?.files ?? codeResult.files) {
       const filePath = join(outputDir, file.path);
       const fileDir = dirname(filePath);
 
@@ -376,7 +449,13 @@ export class ConverterPipeline {
       this.logger.debug(`Written: ${file.path} (${size} bytes)`);
     }
 
-    return files;
+    return {
+      files,
+      regeneration: merged && {
+        preserved: merged.preserved,
+        conflicts: merged.conflicts,
+      },
+    };
   }
 
   /**
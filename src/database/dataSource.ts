@@ -1,12 +1,22 @@
 /**
  * Database Data Source
- * 
- * Mock database connection for API routes
- * In production, this would connect to a real database
+ *
+ * SQLite connection for the API server's jobs, batches and statistics. The
+ * database opens on first use and is brought up to date by the migrations in
+ * ./migrations.ts, so records survive restarts of the server.
  */
 
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+import Database from 'better-sqlite3';
+
+import type { ColumnType, EntityDefinition } from './entities.js';
+import { runMigrations } from './migrations.js';
+
 export interface DataSourceConfig {
   type: 'sqlite' | 'postgres' | 'mysql';
+  /** SQLite file path, or `:memory:` for a database that lives with the process */
   database?: string;
   host?: string;
   port?: number;
@@ -14,82 +24,371 @@ export interface DataSourceConfig {
   password?: string;
 }
 
+/** Environment variable overriding the default database file */
+export const DATABASE_PATH_ENV = 'FLOWISE_API_DATABASE';
+
+export const DEFAULT_DATABASE_PATH = 'data/flowise-api.sqlite';
+
 export class AppDataSource {
-  private static instance: AppDataSource;
-  private initialized = false;
+  private static instance?: AppDataSource;
+  private db?: Database.Database;
   private config: DataSourceConfig;
 
-  private constructor(config: DataSourceConfig = { type: 'sqlite', database: ':memory:' }) {
-    this.config = config;
+  private constructor(config?: DataSourceConfig) {
+    this.config = config ?? { type: 'sqlite' };
   }
 
+  /**
+   * The shared data source. A config only takes effect before the database
+   * has been opened.
+   */
   static getInstance(config?: DataSourceConfig): AppDataSource {
     if (!AppDataSource.instance) {
       AppDataSource.instance = new AppDataSource(config);
+    } else if (config && !AppDataSource.instance.isInitialized()) {
+      AppDataSource.instance.config = config;
     }
     return AppDataSource.instance;
   }
 
   async initialize(): Promise<void> {
-    if (this.initialized) {
-      return;
-    }
-
-    // In a real implementation, this would establish database connection
-    console.log(`Initializing ${this.config.type} database connection...`);
-    this.initialized = true;
+    this.getDatabase();
   }
 
   async destroy(): Promise<void> {
-    if (!this.initialized) {
-      return;
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  isInitialized(): boolean {
+    return this.db !== undefined;
+  }
+
+  getConfig(): DataSourceConfig {
+    return this.config;
+  }
+
+  /**
+   * The SQLite file: the configured one, else the one named by
+   * FLOWISE_API_DATABASE, else data/flowise-api.sqlite
+   */
+  getPath(): string {
+    return (
+      this.config.database ||
+      process.env[DATABASE_PATH_ENV] ||
+      DEFAULT_DATABASE_PATH
+    );
+  }
+
+  /**
+   * The open connection, opening and migrating the database on first use
+   */
+  getDatabase(): Database.Database {
+    if (this.db) {
+      return this.db;
+    }
+
+    if (this.config.type !== 'sqlite') {
+      throw new Error(
+        `Database type '${this.config.type}' is not supported: use 'sqlite'`
+      );
+    }
+
+    const path = this.getPath();
+    if (path !== ':memory:') {
+      mkdirSync(dirname(resolve(path)), { recursive: true });
     }
 
-    // In a real implementation, this would close database connection
-    console.log('Closing database connection...');
-    this.initialized = false;
+    const db = new Database(path);
+    try {
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      runMigrations(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+    this.db = db;
+    return db;
   }
 
-  isInitialized(): boolean {
-    return this.initialized;
+  getRepository<T extends object>(entity: EntityDefinition<T>): Repository<T> {
+    return new Repository<T>(this, entity);
   }
 
-  // Mock repository methods
-  getRepository<T>(entity: any): Repository<T> {
-    return new Repository<T>();
+  /**
+   * Run `work` in a transaction, rolling back if it throws
+   */
+  transaction<R>(work: () => R): R {
+    return this.getDatabase().transaction(work)();
   }
 }
 
-// Mock Repository class
-export class Repository<T> {
-  async find(options?: any): Promise<T[]> {
-    return [];
+export interface FindOptions<T> {
+  /** Field values to match; `null` matches records without the field */
+  where?: Changes<T>;
+  /** Keep records whose date column falls in [from, to) */
+  between?: { column: keyof T & string; from?: Date; to?: Date };
+  order?: Array<[keyof T & string, 'ASC' | 'DESC']>;
+  offset?: number;
+  limit?: number;
+}
+
+/** Changes to a record; `null` clears a field */
+export type Changes<T> = { [K in keyof T]?: T[K] | null };
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/** Largest page `findPage` returns */
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Reads and writes the records of one entity
+ */
+export class Repository<T extends object> {
+  constructor(
+    private readonly dataSource: AppDataSource,
+    private readonly entity: EntityDefinition<T>
+  ) {}
+
+  find(options: FindOptions<T> = {}): T[] {
+    const { clause, params } = this.filter(options);
+    const order = options.order?.length
+      ? ` ORDER BY ${options.order
+          .map(([column, direction]) => `${this.column(column)} ${direction}`)
+          .join(', ')}`
+      : '';
+    const page =
+      options.limit !== undefined
+        ? ` LIMIT ${Math.max(0, Math.floor(options.limit))} OFFSET ${Math.max(0, Math.floor(options.offset ?? 0))}`
+        : '';
+
+    return this.db()
+      .prepare(`SELECT * FROM ${this.entity.table}${clause}${order}${page}`)
+      .all(...params)
+      .map((row) => this.fromRow(row as Record<string, unknown>));
   }
 
-  async findOne(options?: any): Promise<T | null> {
-    return null;
+  findOne(where: Changes<T>): T | undefined {
+    return this.find({ where, limit: 1 })[0];
   }
 
-  async save(entity: T): Promise<T> {
-    return entity;
+  /**
+   * One page of the matching records, counting from page 1. Missing or
+   * invalid page numbers and sizes fall back to the first page of
+   * `defaultLimit` records.
+   */
+  findPage(
+    options: Omit<FindOptions<T>, 'offset' | 'limit'>,
+    page?: number,
+    limit?: number,
+    defaultLimit = 20
+  ): Page<T> {
+    const current = Number.isInteger(page) && page! >= 1 ? page! : 1;
+    const size =
+      Number.isInteger(limit) && limit! >= 1
+        ? Math.min(limit!, MAX_PAGE_SIZE)
+        : defaultLimit;
+    const total = this.count(options);
+
+    return {
+      items: this.find({
+        ...options,
+        offset: (current - 1) * size,
+        limit: size,
+      }),
+      page: current,
+      limit: size,
+      total,
+      totalPages: Math.ceil(total / size),
+    };
   }
 
-  async remove(entity: T): Promise<T> {
-    return entity;
+  count(options: Pick<FindOptions<T>, 'where' | 'between'> = {}): number {
+    const { clause, params } = this.filter(options);
+    const row = this.db()
+      .prepare(`SELECT COUNT(*) AS count FROM ${this.entity.table}${clause}`)
+      .get(...params) as { count: number };
+    return row.count;
   }
 
-  async update(id: any, entity: Partial<T>): Promise<any> {
-    return { affected: 1 };
+  /**
+   * Number of records for each value of a column
+   */
+  countBy(
+    column: keyof T & string,
+    options: Pick<FindOptions<T>, 'where' | 'between'> = {}
+  ): Record<string, number> {
+    const { clause, params } = this.filter(options);
+    const name = this.column(column);
+    const rows = this.db()
+      .prepare(
+        `SELECT ${name} AS value, COUNT(*) AS count FROM ${this.entity.table}${clause} GROUP BY ${name}`
+      )
+      .all(...params) as Array<{ value: unknown; count: number }>;
+    return Object.fromEntries(
+      rows.map((row) => [String(row.value), row.count])
+    );
   }
 
-  async delete(id: any): Promise<any> {
-    return { affected: 1 };
+  /**
+   * Insert a record, or update the one with the same primary key. A record
+   * without a primary key gets the one the database assigns.
+   */
+  save(record: T): T {
+    const values = this.toRow(record);
+    const columns = Object.keys(values);
+    const key = this.column(this.entity.primaryKey);
+    const updates = columns
+      .filter((column) => column !== key)
+      .map((column) => `${column} = excluded.${column}`);
+
+    const result = this.db()
+      .prepare(
+        `INSERT INTO ${this.entity.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})` +
+          (updates.length
+            ? ` ON CONFLICT (${key}) DO UPDATE SET ${updates.join(', ')}`
+            : '')
+      )
+      .run(...Object.values(values));
+
+    if (record[this.entity.primaryKey] === undefined) {
+      return {
+        ...record,
+        [this.entity.primaryKey]: Number(result.lastInsertRowid),
+      };
+    }
+    return record;
+  }
+
+  /**
+   * Change some fields of a record, returning the number of records changed
+   */
+  update(id: T[keyof T], changes: Changes<T>): number {
+    const values = this.toRow(changes);
+    const columns = Object.keys(values);
+    if (columns.length === 0) {
+      return 0;
+    }
+
+    return this.db()
+      .prepare(
+        `UPDATE ${this.entity.table} SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE ${this.column(this.entity.primaryKey)} = ?`
+      )
+      .run(...Object.values(values), id).changes;
+  }
+
+  /**
+   * Delete the matching records, returning how many were deleted
+   */
+  delete(where: Changes<T>, between?: FindOptions<T>['between']): number {
+    const { clause, params } = this.filter({ where, between });
+    return this.db()
+      .prepare(`DELETE FROM ${this.entity.table}${clause}`)
+      .run(...params).changes;
   }
 
-  async count(options?: any): Promise<number> {
-    return 0;
+  private db(): Database.Database {
+    return this.dataSource.getDatabase();
+  }
+
+  private filter(options: Pick<FindOptions<T>, 'where' | 'between'>): {
+    clause: string;
+    params: unknown[];
+  } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const where = this.toRow(options.where ?? {});
+    for (const [column, value] of Object.entries(where)) {
+      if (value === null) {
+        conditions.push(`${column} IS NULL`);
+      } else {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+
+    const { between } = options;
+    if (between?.from) {
+      conditions.push(`${this.column(between.column)} >= ?`);
+      params.push(between.from.toISOString());
+    }
+    if (between?.to) {
+      conditions.push(`${this.column(between.column)} < ?`);
+      params.push(between.to.toISOString());
+    }
+
+    return {
+      clause: conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private column(property: string): string {
+    if (!(property in this.entity.columns)) {
+      throw new Error(`${this.entity.table} has no column for '${property}'`);
+    }
+    return property.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+  }
+
+  /**
+   * Column values for the defined properties of a record; `undefined`
+   * properties are left out
+   */
+  private toRow(record: Changes<T>): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    for (const [property, value] of Object.entries(record)) {
+      if (value === undefined || !(property in this.entity.columns)) {
+        continue;
+      }
+      const type = this.entity.columns[property as keyof T & string];
+      row[this.column(property)] = toColumnValue(type, value);
+    }
+    return row;
+  }
+
+  private fromRow(row: Record<string, unknown>): T {
+    const record: Record<string, unknown> = {};
+    for (const [property, type] of Object.entries(this.entity.columns)) {
+      const value = row[this.column(property)];
+      if (value !== null && value !== undefined) {
+        record[property] = fromColumnValue(type as ColumnType, value);
+      }
+    }
+    return record as T;
+  }
+}
+
+function toColumnValue(type: ColumnType, value: unknown): unknown {
+  if (value === null) {
+    return null;
+  }
+  switch (type) {
+    case 'json':
+      return JSON.stringify(value);
+    case 'date':
+      return value instanceof Date
+        ? value.toISOString()
+        : new Date(value as string).toISOString();
+    default:
+      return value;
   }
 }
 
-// Export singleton instance
-export const AppDataSourceInstance = AppDataSource.getInstance();
\ No newline at end of file
+function fromColumnValue(type: ColumnType, value: unknown): unknown {
+  switch (type) {
+    case 'json':
+      return JSON.parse(value as string);
+    case 'date':
+      return new Date(value as string);
+    default:
+      return value;
+  }
+}
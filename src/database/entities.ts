@@ -0,0 +1,264 @@
+/**
+ * Database Entities
+ *
+ * Records the API server stores, and how each maps onto its table. Property
+ * names are camelCase versions of the snake_case column names.
+ */
+
+export type ColumnType = 'text' | 'integer' | 'json' | 'date';
+
+export interface EntityDefinition<T> {
+  table: string;
+  primaryKey: keyof T & string;
+  columns: { [K in keyof T & string]-?: ColumnType };
+}
+
+/**
+ * A queued unit of work. Jobs that fail every attempt are `dead`: they stay
+ * in the dead-letter queue until retried or deleted.
+ */
+export interface JobRecord {
+  id: string;
+  /** Tenant of the API key that created the job */
+  tenantId?: string;
+  type: 'conversion' | 'validation' | 'test' | 'batch';
+  name: string;
+  status: 'queued' | 'running' | 'completed' | 'cancelled' | 'dead';
+  config?: any;
+  schedule?: string;
+  nextRun?: Date;
+  /** Higher runs first */
+  priority: number;
+  /** Attempts started so far */
+  attempts: number;
+  maxAttempts: number;
+  /** Milliseconds an attempt may run; the queue default when unset */
+  timeoutMs?: number;
+  /** Earliest time the next attempt may start */
+  runAfter?: Date;
+  progress: number;
+  result?: any;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  cancelledAt?: Date;
+  completedAt?: Date;
+}
+
+export interface JobLogRecord {
+  id?: number;
+  jobId: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  createdAt: Date;
+}
+
+export interface BatchRecord {
+  id: string;
+  tenantId?: string;
+  type: 'conversion' | 'validation';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  options?: any;
+  totalItems: number;
+  processedItems: number;
+  failedItems: number;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface BatchResultRecord {
+  id: string;
+  batchId: string;
+  itemIndex: number;
+  status: 'pending' | 'completed' | 'failed';
+  input?: any;
+  result?: any;
+  error?: string;
+  durationMs?: number;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * A conversion run through the API, kept for job status and statistics
+ */
+export interface ConversionRecord {
+  id: string;
+  tenantId?: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  nodeCount?: number;
+  nodeTypes?: string[];
+  durationMs?: number;
+  result?: any;
+  error?: any;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * An API key of a tenant. Only a hash of the key is stored; after a
+ * rotation the previous key keeps working until `previousKeyExpiresAt`.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  tenantId: string;
+  name: string;
+  keyHash: string;
+  /** Start of the key, to tell keys apart */
+  keyPrefix: string;
+  scopes: string[];
+  /** Requests a minute; unlimited when unset */
+  rateLimit?: number;
+  /** Requests a UTC day; unlimited when unset */
+  dailyQuota?: number;
+  previousKeyHash?: string;
+  previousKeyExpiresAt?: Date;
+  createdAt: Date;
+  rotatedAt?: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Requests made with a key on one UTC day
+ */
+export interface ApiKeyUsageRecord {
+  /** `<keyId>:<day>` */
+  id: string;
+  keyId: string;
+  /** YYYY-MM-DD */
+  day: string;
+  requests: number;
+}
+
+export const JobEntity: EntityDefinition<JobRecord> = {
+  table: 'jobs',
+  primaryKey: 'id',
+  columns: {
+    id: 'text',
+    tenantId: 'text',
+    type: 'text',
+    name: 'text',
+    status: 'text',
+    config: 'json',
+    schedule: 'text',
+    nextRun: 'date',
+    priority: 'integer',
+    attempts: 'integer',
+    maxAttempts: 'integer',
+    timeoutMs: 'integer',
+    runAfter: 'date',
+    progress: 'integer',
+    result: 'json',
+    error: 'text',
+    createdAt: 'date',
+    startedAt: 'date',
+    cancelledAt: 'date',
+    completedAt: 'date',
+  },
+};
+
+export const JobLogEntity: EntityDefinition<JobLogRecord> = {
+  table: 'job_logs',
+  primaryKey: 'id',
+  columns: {
+    id: 'integer',
+    jobId: 'text',
+    level: 'text',
+    message: 'text',
+    createdAt: 'date',
+  },
+};
+
+export const BatchEntity: EntityDefinition<BatchRecord> = {
+  table: 'batches',
+  primaryKey: 'id',
+  columns: {
+    id: 'text',
+    tenantId: 'text',
+    type: 'text',
+    status: 'text',
+    options: 'json',
+    totalItems: 'integer',
+    processedItems: 'integer',
+    failedItems: 'integer',
+    error: 'text',
+    createdAt: 'date',
+    startedAt: 'date',
+    completedAt: 'date',
+  },
+};
+
+export const BatchResultEntity: EntityDefinition<BatchResultRecord> = {
+  table: 'batch_results',
+  primaryKey: 'id',
+  columns: {
+    id: 'text',
+    batchId: 'text',
+    itemIndex: 'integer',
+    status: 'text',
+    input: 'json',
+    result: 'json',
+    error: 'text',
+    durationMs: 'integer',
+    createdAt: 'date',
+    completedAt: 'date',
+  },
+};
+
+export const ConversionEntity: EntityDefinition<ConversionRecord> = {
+  table: 'conversions',
+  primaryKey: 'id',
+  columns: {
+    id: 'text',
+    tenantId: 'text',
+    status: 'text',
+    progress: 'integer',
+    nodeCount: 'integer',
+    nodeTypes: 'json',
+    durationMs: 'integer',
+    result: 'json',
+    error: 'json',
+    createdAt: 'date',
+    startedAt: 'date',
+    completedAt: 'date',
+  },
+};
+
+export const ApiKeyEntity: EntityDefinition<ApiKeyRecord> = {
+  table: 'api_keys',
+  primaryKey: 'id',
+  columns: {
+    id: 'text',
+    tenantId: 'text',
+    name: 'text',
+    keyHash: 'text',
+    keyPrefix: 'text',
+    scopes: 'json',
+    rateLimit: 'integer',
+    dailyQuota: 'integer',
+    previousKeyHash: 'text',
+    previousKeyExpiresAt: 'date',
+    createdAt: 'date',
+    rotatedAt: 'date',
+    expiresAt: 'date',
+    revokedAt: 'date',
+    lastUsedAt: 'date',
+  },
+};
+
+export const ApiKeyUsageEntity: EntityDefinition<ApiKeyUsageRecord> = {
+  table: 'api_key_usage',
+  primaryKey: 'id',
+  columns: {
+    id: 'text',
+    keyId: 'text',
+    day: 'text',
+    requests: 'integer',
+  },
+};
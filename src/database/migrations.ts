@@ -0,0 +1,198 @@
+/**
+ * Database Migrations
+ *
+ * Ordered schema changes for the API server's database. Each migration runs
+ * once, inside a transaction, and is recorded in the `migrations` table, so
+ * opening an existing database applies only the migrations it has not seen.
+ * Add new migrations at the end; never edit one that has shipped.
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  id: number;
+  name: string;
+  up: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    id: 1,
+    name: 'create_jobs',
+    up: `
+      CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        config TEXT,
+        schedule TEXT,
+        next_run TEXT,
+        progress INTEGER NOT NULL DEFAULT 0,
+        result TEXT,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        stopped_at TEXT,
+        completed_at TEXT
+      );
+      CREATE INDEX jobs_status ON jobs (status);
+      CREATE INDEX jobs_created_at ON jobs (created_at);
+
+      CREATE TABLE job_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT NOT NULL REFERENCES jobs (id) ON DELETE CASCADE,
+        level TEXT NOT NULL,
+        message TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX job_logs_job_id ON job_logs (job_id);
+    `,
+  },
+  {
+    id: 2,
+    name: 'create_batches',
+    up: `
+      CREATE TABLE batches (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        options TEXT,
+        total_items INTEGER NOT NULL,
+        processed_items INTEGER NOT NULL DEFAULT 0,
+        failed_items INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT
+      );
+      CREATE INDEX batches_created_at ON batches (created_at);
+
+      CREATE TABLE batch_results (
+        id TEXT PRIMARY KEY,
+        batch_id TEXT NOT NULL REFERENCES batches (id) ON DELETE CASCADE,
+        item_index INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        input TEXT,
+        result TEXT,
+        error TEXT,
+        duration_ms INTEGER,
+        created_at TEXT NOT NULL,
+        completed_at TEXT
+      );
+      CREATE INDEX batch_results_batch_id ON batch_results (batch_id, item_index);
+    `,
+  },
+  {
+    id: 3,
+    name: 'create_conversions',
+    up: `
+      CREATE TABLE conversions (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        progress INTEGER NOT NULL DEFAULT 0,
+        node_count INTEGER,
+        node_types TEXT,
+        duration_ms INTEGER,
+        result TEXT,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT
+      );
+      CREATE INDEX conversions_created_at ON conversions (created_at);
+    `,
+  },
+  {
+    id: 4,
+    name: 'add_job_queue',
+    up: `
+      ALTER TABLE jobs ADD COLUMN priority INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE jobs ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 3;
+      ALTER TABLE jobs ADD COLUMN timeout_ms INTEGER;
+      ALTER TABLE jobs ADD COLUMN run_after TEXT;
+      ALTER TABLE jobs RENAME COLUMN stopped_at TO cancelled_at;
+      UPDATE jobs SET status = 'cancelled' WHERE status = 'stopped';
+      UPDATE jobs SET status = 'dead' WHERE status = 'failed';
+      CREATE INDEX jobs_queue ON jobs (status, priority DESC, created_at);
+    `,
+  },
+  {
+    id: 5,
+    name: 'add_api_keys',
+    up: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        key_prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        rate_limit INTEGER,
+        daily_quota INTEGER,
+        previous_key_hash TEXT,
+        previous_key_expires_at TEXT,
+        created_at TEXT NOT NULL,
+        rotated_at TEXT,
+        expires_at TEXT,
+        revoked_at TEXT,
+        last_used_at TEXT
+      );
+      CREATE INDEX api_keys_tenant_id ON api_keys (tenant_id);
+      CREATE INDEX api_keys_previous_key_hash ON api_keys (previous_key_hash);
+
+      CREATE TABLE api_key_usage (
+        id TEXT PRIMARY KEY,
+        key_id TEXT NOT NULL REFERENCES api_keys (id) ON DELETE CASCADE,
+        day TEXT NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX api_key_usage_key_id ON api_key_usage (key_id, day);
+
+      ALTER TABLE jobs ADD COLUMN tenant_id TEXT;
+      ALTER TABLE batches ADD COLUMN tenant_id TEXT;
+      ALTER TABLE conversions ADD COLUMN tenant_id TEXT;
+      CREATE INDEX jobs_tenant_id ON jobs (tenant_id);
+      CREATE INDEX batches_tenant_id ON batches (tenant_id);
+      CREATE INDEX conversions_tenant_id ON conversions (tenant_id);
+    `,
+  },
+];
+
+/**
+ * Apply the migrations a database has not seen yet, returning their ids
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .prepare('SELECT id FROM migrations')
+      .all()
+      .map((row) => (row as { id: number }).id)
+  );
+  const record = db.prepare(
+    'INSERT INTO migrations (id, name, applied_at) VALUES (?, ?, ?)'
+  );
+
+  const pending = [...migrations]
+    .sort((a, b) => a.id - b.id)
+    .filter((migration) => !applied.has(migration.id));
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      record.run(migration.id, migration.name, new Date().toISOString());
+    })();
+  }
+  return pending.map((migration) => migration.id);
+}
@@ -0,0 +1,142 @@
+/**
+ * Generated Code Diff
+ *
+ * Line-based unified diff between the projects generated for two flows, so a
+ * flow change can be reviewed alongside the code it produces.
+ */
+
+import type { GeneratedFile } from '../ir/types.js';
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Change to one generated file
+ */
+export interface FileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  additions: number;
+  deletions: number;
+  /** Unified diff of the file contents */
+  patch: string;
+}
+
+type LineEdit = { kind: ' ' | '-' | '+'; text: string };
+
+/**
+ * Compare two generated projects file by file
+ */
+export function diffGeneratedFiles(
+  before: GeneratedFile[],
+  after: GeneratedFile[]
+): FileChange[] {
+  const previous = new Map(before.map((f) => [f.path, f.content]));
+  const current = new Map(after.map((f) => [f.path, f.content]));
+  const paths = [...new Set([...previous.keys(), ...current.keys()])].sort();
+
+  const changes: FileChange[] = [];
+  for (const path of paths) {
+    const oldContent = previous.get(path);
+    const newContent = current.get(path);
+    if (oldContent === newContent) continue;
+
+    const edits = diffLines(splitLines(oldContent), splitLines(newContent));
+    changes.push({
+      path,
+      status:
+        oldContent === undefined
+          ? 'added'
+          : newContent === undefined
+            ? 'removed'
+            : 'modified',
+      additions: edits.filter((e) => e.kind === '+').length,
+      deletions: edits.filter((e) => e.kind === '-').length,
+      patch: formatPatch(path, edits),
+    });
+  }
+  return changes;
+}
+
+function splitLines(content: string | undefined): string[] {
+  return content === undefined || content === '' ? [] : content.split('\n');
+}
+
+/**
+ * Longest-common-subsequence line diff. Generated files are a few hundred
+ * lines, so the quadratic table stays small.
+ */
+function diffLines(oldLines: string[], newLines: string[]): LineEdit[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+  const lengths = Array.from({ length: rows + 1 }, () =>
+    new Array<number>(cols + 1).fill(0)
+  );
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const edits: LineEdit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      edits.push({ kind: ' ', text: oldLines[i++]! });
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      edits.push({ kind: '-', text: oldLines[i++]! });
+    } else {
+      edits.push({ kind: '+', text: newLines[j++]! });
+    }
+  }
+  while (i < rows) edits.push({ kind: '-', text: oldLines[i++]! });
+  while (j < cols) edits.push({ kind: '+', text: newLines[j++]! });
+  return edits;
+}
+
+function formatPatch(path: string, edits: LineEdit[]): string {
+  const lines = [`--- a/${path}`, `+++ b/${path}`];
+
+  // Group changed lines that are close enough to share context into hunks
+  const changed = edits
+    .map((edit, index) => (edit.kind === ' ' ? -1 : index))
+    .filter((index) => index >= 0);
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(edits.length, index + CONTEXT_LINES + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  for (const [start, end] of hunks) {
+    const before = edits.slice(0, start);
+    const hunk = edits.slice(start, end);
+    const oldStart = before.filter((e) => e.kind !== '+').length;
+    const newStart = before.filter((e) => e.kind !== '-').length;
+    const oldCount = hunk.filter((e) => e.kind !== '+').length;
+    const newCount = hunk.filter((e) => e.kind !== '-').length;
+
+    lines.push(
+      `@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`,
+      ...hunk.map((edit) => `${edit.kind}${edit.text}`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function hunkRange(offset: number, count: number): string {
+  // Empty ranges point at the line before, as in `diff -u`
+  const start = count === 0 ? offset : offset + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
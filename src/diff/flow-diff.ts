@@ -0,0 +1,205 @@
+/**
+ * Semantic Flow Diff
+ *
+ * Builds on compareFlows to describe what changed between two Flowise exports
+ * in review terms: added, removed and retyped nodes, changed parameters with
+ * credentials masked, and rewired edges.
+ */
+
+import {
+  compareFlows,
+  type FlowiseChatFlow,
+  type FlowiseEdge,
+  type FlowiseNode,
+} from '../parser/index.js';
+
+/**
+ * Placeholder shown instead of a credential value
+ */
+export const MASKED_VALUE = '********';
+
+const SECRET_PARAM_TYPES = new Set(['password', 'credential']);
+const SECRET_PARAM_NAME = /credential|api[-_]?key|secret|password|token$/i;
+const NODE_REFERENCE = /^\{\{[^}]+\.data\.instance\}\}$/;
+
+/**
+ * A node as shown in a diff
+ */
+export interface DiffNode {
+  id: string;
+  label: string;
+  type: string;
+}
+
+/**
+ * A node whose Flowise component changed while keeping its id
+ */
+export interface RetypedNode extends DiffNode {
+  previousType: string;
+}
+
+/**
+ * A node parameter whose value changed
+ */
+export interface ParameterChange {
+  nodeId: string;
+  label: string;
+  name: string;
+  before?: unknown;
+  after?: unknown;
+  masked: boolean;
+}
+
+/**
+ * An edge as shown in a diff
+ */
+export interface DiffEdge {
+  source: string;
+  target: string;
+  input: string;
+}
+
+/**
+ * A node input that is now fed by a different source
+ */
+export interface RewiredEdge {
+  target: string;
+  input: string;
+  previousSource: string;
+  source: string;
+}
+
+/**
+ * Semantic differences between two Flowise exports
+ */
+export interface FlowDiff {
+  addedNodes: DiffNode[];
+  removedNodes: DiffNode[];
+  retypedNodes: RetypedNode[];
+  changedParameters: ParameterChange[];
+  addedEdges: DiffEdge[];
+  removedEdges: DiffEdge[];
+  rewiredEdges: RewiredEdge[];
+}
+
+/**
+ * Compare two Flowise exports semantically. Layout-only changes such as node
+ * positions are ignored, and connections are reported as edges rather than
+ * as the `{{node.data.instance}}` inputs that mirror them.
+ */
+export function diffFlows(
+  before: FlowiseChatFlow,
+  after: FlowiseChatFlow
+): FlowDiff {
+  const comparison = compareFlows(before, after);
+
+  const retypedNodes: RetypedNode[] = [];
+  const changedParameters: ParameterChange[] = [];
+  for (const { before: previous, after: current } of comparison.modifiedNodes) {
+    if (previous.data.name !== current.data.name) {
+      retypedNodes.push({
+        ...toDiffNode(current),
+        previousType: previous.data.name,
+      });
+    }
+    changedParameters.push(...diffParameters(previous, current));
+  }
+
+  const removedEdges = comparison.removedEdges.map(toDiffEdge);
+  const addedEdges = comparison.addedEdges.map(toDiffEdge);
+  const rewiredEdges: RewiredEdge[] = [];
+
+  // An input that lost one source and gained another was rewired
+  for (const removed of [...removedEdges]) {
+    const added = addedEdges.find(
+      (edge) =>
+        edge.target === removed.target &&
+        edge.input === removed.input &&
+        edge.source !== removed.source
+    );
+    if (!added) continue;
+
+    rewiredEdges.push({
+      target: removed.target,
+      input: removed.input,
+      previousSource: removed.source,
+      source: added.source,
+    });
+    removedEdges.splice(removedEdges.indexOf(removed), 1);
+    addedEdges.splice(addedEdges.indexOf(added), 1);
+  }
+
+  return {
+    addedNodes: comparison.addedNodes.map(toDiffNode),
+    removedNodes: comparison.removedNodes.map(toDiffNode),
+    retypedNodes,
+    changedParameters,
+    addedEdges,
+    removedEdges,
+    rewiredEdges,
+  };
+}
+
+/**
+ * Whether two exports have no semantic differences
+ */
+export function isEmptyFlowDiff(diff: FlowDiff): boolean {
+  return Object.values(diff).every((changes) => changes.length === 0);
+}
+
+function diffParameters(
+  before: FlowiseNode,
+  after: FlowiseNode
+): ParameterChange[] {
+  const secretParams = new Set(
+    [...before.data.inputParams, ...after.data.inputParams]
+      .filter((param) => SECRET_PARAM_TYPES.has(param.type))
+      .map((param) => param.name)
+  );
+  const names = new Set([
+    ...Object.keys(before.data.inputs),
+    ...Object.keys(after.data.inputs),
+  ]);
+
+  const changes: ParameterChange[] = [];
+  for (const name of names) {
+    const previous = before.data.inputs[name];
+    const current = after.data.inputs[name];
+    if (isConnectionOrEmpty(previous) && isConnectionOrEmpty(current)) continue;
+    if (JSON.stringify(previous) === JSON.stringify(current)) continue;
+
+    const masked = secretParams.has(name) || SECRET_PARAM_NAME.test(name);
+    changes.push({
+      nodeId: after.id,
+      label: after.data.label,
+      name,
+      before: masked ? maskValue(previous) : previous,
+      after: masked ? maskValue(current) : current,
+      masked,
+    });
+  }
+  return changes;
+}
+
+function isConnectionOrEmpty(value: unknown): boolean {
+  if (value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.every(isConnectionOrEmpty);
+  return typeof value === 'string' && NODE_REFERENCE.test(value);
+}
+
+function maskValue(value: unknown): string | undefined {
+  return value === undefined || value === '' ? undefined : MASKED_VALUE;
+}
+
+function toDiffNode(node: FlowiseNode): DiffNode {
+  return { id: node.id, label: node.data.label, type: node.data.name };
+}
+
+function toDiffEdge(edge: FlowiseEdge): DiffEdge {
+  // Target handles look like `<target>-input-<input>-<Type>`
+  const prefix = `${edge.target}-input-`;
+  const input = edge.targetHandle.startsWith(prefix)
+    ? edge.targetHandle.slice(prefix.length).split('-')[0]!
+    : edge.targetHandle;
+  return { source: edge.source, target: edge.target, input };
+}
@@ -0,0 +1,171 @@
+/**
+ * Flow Diff Formatting
+ *
+ * Renders a flow diff report as plain text for the terminal, JSON for tools,
+ * or Markdown for pull request comments.
+ */
+
+import type { FileChange } from './code-diff.js';
+import {
+  isEmptyFlowDiff,
+  type DiffEdge,
+  type DiffNode,
+  type FlowDiff,
+} from './flow-diff.js';
+import type { FlowDiffReport } from './report.js';
+
+export type DiffFormat = 'text' | 'json' | 'markdown';
+
+export const DIFF_FORMATS: DiffFormat[] = ['text', 'json', 'markdown'];
+
+type Section = {
+  title: string;
+  items: string[];
+};
+
+/**
+ * Render a flow diff report in the requested format
+ */
+export function formatFlowDiffReport(
+  report: FlowDiffReport,
+  format: DiffFormat = 'text'
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'markdown':
+      return formatMarkdown(report);
+    default:
+      return formatText(report);
+  }
+}
+
+function formatText(report: FlowDiffReport): string {
+  const lines = [`Flow diff: ${report.before} → ${report.after}`, ''];
+
+  if (isEmptyFlowDiff(report.changes)) {
+    lines.push('No flow changes.', '');
+  }
+  for (const section of describeChanges(report.changes, false)) {
+    lines.push(`${section.title}:`, ...section.items.map((i) => `  ${i}`), '');
+  }
+
+  if (report.code) {
+    lines.push(
+      report.code.length === 0 ? 'Generated code: unchanged' : 'Generated code:'
+    );
+    for (const file of report.code) {
+      lines.push(`  ${describeFile(file)}`);
+    }
+    for (const file of report.code) {
+      lines.push('', file.patch);
+    }
+  }
+
+  for (const warning of report.warnings) {
+    lines.push('', `Warning: ${warning}`);
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function formatMarkdown(report: FlowDiffReport): string {
+  const lines = [`## Flow diff: ${report.before} → ${report.after}`, ''];
+
+  if (isEmptyFlowDiff(report.changes)) {
+    lines.push('No flow changes.', '');
+  }
+  for (const section of describeChanges(report.changes, true)) {
+    lines.push(
+      `### ${section.title}`,
+      '',
+      ...section.items.map((item) => `- ${item}`),
+      ''
+    );
+  }
+
+  if (report.code) {
+    lines.push('### Generated code', '');
+    if (report.code.length === 0) {
+      lines.push('Unchanged.', '');
+    }
+    for (const file of report.code) {
+      lines.push(
+        '<details>',
+        `<summary>${describeFile(file)}</summary>`,
+        '',
+        '```diff',
+        file.patch,
+        '```',
+        '',
+        '</details>',
+        ''
+      );
+    }
+  }
+
+  for (const warning of report.warnings) {
+    lines.push(`> **Warning:** ${warning}`, '');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function describeChanges(changes: FlowDiff, markdown: boolean): Section[] {
+  const code = (text: string) => (markdown ? `\`${text}\`` : text);
+  const node = (n: DiffNode) => `${code(n.id)} ${n.label} (${n.type})`;
+  const edge = (e: DiffEdge) =>
+    `${code(e.source)} → ${code(`${e.target}.${e.input}`)}`;
+  const value = (v: unknown) => {
+    if (v === undefined) return '(unset)';
+    const text = (typeof v === 'string' ? v : JSON.stringify(v)).replace(
+      /\s+/g,
+      ' '
+    );
+    return code(text.length > 60 ? `${text.slice(0, 57)}...` : text);
+  };
+
+  const sections: Section[] = [
+    {
+      title: 'Added nodes',
+      items: changes.addedNodes.map((n) => `+ ${node(n)}`),
+    },
+    {
+      title: 'Removed nodes',
+      items: changes.removedNodes.map((n) => `- ${node(n)}`),
+    },
+    {
+      title: 'Retyped nodes',
+      items: changes.retypedNodes.map(
+        (n) => `~ ${code(n.id)} ${n.label}: ${n.previousType} → ${n.type}`
+      ),
+    },
+    {
+      title: 'Changed parameters',
+      items: changes.changedParameters.map(
+        (p) =>
+          `~ ${code(`${p.nodeId}.${p.name}`)}: ${value(p.before)} → ${value(p.after)}`
+      ),
+    },
+    {
+      title: 'Rewired edges',
+      items: changes.rewiredEdges.map(
+        (e) =>
+          `~ ${code(`${e.target}.${e.input}`)}: ${code(e.previousSource)} → ${code(e.source)}`
+      ),
+    },
+    {
+      title: 'Added edges',
+      items: changes.addedEdges.map((e) => `+ ${edge(e)}`),
+    },
+    {
+      title: 'Removed edges',
+      items: changes.removedEdges.map((e) => `- ${edge(e)}`),
+    },
+  ];
+  return sections.filter((section) => section.items.length > 0);
+}
+
+function describeFile(file: FileChange): string {
+  return `${file.status} ${file.path} (+${file.additions} -${file.deletions})`;
+}
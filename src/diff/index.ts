@@ -0,0 +1,11 @@
+/**
+ * Flow Diff Module
+ *
+ * Semantic comparison of two Flowise exports and of the code generated for
+ * them, rendered as text, JSON or Markdown.
+ */
+
+export * from './flow-diff.js';
+export * from './code-diff.js';
+export * from './report.js';
+export * from './formatter.js';
@@ -0,0 +1,133 @@
+/**
+ * Flow Diff Report
+ *
+ * Compares two Flowise exports end to end: the semantic flow diff plus the
+ * change in the code generated for each side.
+ */
+
+import { MANIFEST_FILE } from '../emitters/typescript/regeneration.js';
+import { SOURCE_MAP_FILE } from '../emitters/typescript/source-map.js';
+import { IRProcessor } from '../ir/index.js';
+import type {
+  FlowiseChatFlow as IRFlowiseChatFlow,
+  GeneratedFile,
+  GenerationContext,
+} from '../ir/types.js';
+import { parseFlowiseJson, type FlowiseChatFlow } from '../parser/index.js';
+import { ConverterFactory, initializeRegistry } from '../registry/index.js';
+
+import { diffGeneratedFiles, type FileChange } from './code-diff.js';
+import { diffFlows, type FlowDiff } from './flow-diff.js';
+
+/**
+ * Options for comparing two Flowise exports
+ */
+export interface FlowDiffOptions {
+  /** Also diff the generated code (default true) */
+  includeCode?: boolean;
+
+  /** Names shown for each side, defaulting to the chatflow names */
+  beforeName?: string;
+  afterName?: string;
+
+  /** Generation context for the code diff */
+  context?: Partial<GenerationContext>;
+}
+
+/**
+ * Everything that changed between two Flowise exports
+ */
+export interface FlowDiffReport {
+  before: string;
+  after: string;
+  changes: FlowDiff;
+  /** Changed generated files, when the code diff was requested */
+  code?: FileChange[];
+  warnings: string[];
+}
+
+const DEFAULT_CONTEXT: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'generated-langchain-app',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+/**
+ * Compare two Flowise exports, given as JSON strings or parsed flows
+ */
+export async function createFlowDiffReport(
+  before: string | FlowiseChatFlow,
+  after: string | FlowiseChatFlow,
+  options: FlowDiffOptions = {}
+): Promise<FlowDiffReport> {
+  const previous = await parseFlow(before, 'before');
+  const current = await parseFlow(after, 'after');
+
+  const report: FlowDiffReport = {
+    before: options.beforeName ?? previous.chatflow?.name ?? 'before',
+    after: options.afterName ?? current.chatflow?.name ?? 'after',
+    changes: diffFlows(previous, current),
+    warnings: [],
+  };
+
+  if (options.includeCode === false) return report;
+
+  const context = { ...DEFAULT_CONTEXT, ...options.context };
+  try {
+    report.code = diffGeneratedFiles(
+      await generateFiles(previous, context),
+      await generateFiles(current, context)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    report.warnings.push(`Code diff skipped: generation failed (${message})`);
+  }
+
+  return report;
+}
+
+async function parseFlow(
+  input: string | FlowiseChatFlow,
+  side: 'before' | 'after'
+): Promise<FlowiseChatFlow> {
+  if (typeof input !== 'string') return input;
+
+  const result = await parseFlowiseJson(input);
+  if (!result.success || !result.data) {
+    throw new Error(
+      `Cannot parse ${side} flow: ${result.errors.map((e) => e.message).join('; ')}`
+    );
+  }
+  return result.data;
+}
+
+async function generateFiles(
+  flow: FlowiseChatFlow,
+  context: GenerationContext
+): Promise<GeneratedFile[]> {
+  if (ConverterFactory.getRegistry().getStatistics().totalConverters === 0) {
+    initializeRegistry();
+  }
+
+  const result = await new IRProcessor().processFlow(
+    flow as IRFlowiseChatFlow,
+    context
+  );
+  // The node map and manifest only change when the code does, so they are
+  // left out
+  return result.code.files.filter(
+    (f) => f.path !== SOURCE_MAP_FILE && f.path !== MANIFEST_FILE
+  );
+}
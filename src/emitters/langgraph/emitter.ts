@@ -0,0 +1,313 @@
+/**
+ * LangGraph Code Emitter for Flowise-to-LangChain Converter
+ *
+ * Compiles the control flow of an IR graph into a @langchain/langgraph
+ * StateGraph instead of a linear runFlow(). Features:
+ * - One graph node per Agentflow V2 step
+ * - Conditional edges for condition branches
+ * - Loop edges back to earlier nodes
+ * - Shared state schema seeded from the Start node's flow state
+ */
+
+import type {
+  CodeFragment,
+  GenerationContext,
+  IRConnection,
+  IRGraph,
+  IRNode,
+} from '../../ir/types.js';
+import {
+  LoopAgentflowConverter,
+  generateAgentflowRuntimeTypes,
+  getAgentflowStepName,
+  isAgentflowBranchType,
+  isAgentflowStepType,
+} from '../../registry/converters/agentflow-v2.js';
+
+/**
+ * Package providing StateGraph
+ */
+export const LANGGRAPH_PACKAGE = '@langchain/langgraph';
+
+/**
+ * Emits the LangGraph execution layer for a converted flow.
+ *
+ * Node implementations come from the registry converters; this emitter only
+ * produces the shared state schema, the graph wiring and runFlow().
+ */
+export class LangGraphEmitter {
+  /**
+   * Whether the graph contains nodes that can become StateGraph nodes
+   */
+  canEmit(graph: IRGraph): boolean {
+    return graph.nodes.some((node) => isAgentflowStepType(node.type));
+  }
+
+  /**
+   * Generate the import and execution fragments for the StateGraph
+   */
+  generateFragments(
+    graph: IRGraph,
+    context: GenerationContext
+  ): CodeFragment[] {
+    if (!this.canEmit(graph)) {
+      throw new Error(
+        'LangGraph output requires an Agentflow V2 flow (no Agentflow steps found)'
+      );
+    }
+
+    const steps = graph.nodes.filter((node) => isAgentflowStepType(node.type));
+    const stepIds = new Set(steps.map((node) => node.id));
+    const edges = graph.connections.filter(
+      (c) => stepIds.has(c.source) && stepIds.has(c.target)
+    );
+
+    const content = [
+      generateAgentflowRuntimeTypes(),
+      this.generateStateSchema(steps),
+      this.generateNodeAdapter(),
+      this.generateGraph(steps, edges),
+      this.generateRunFlow(),
+    ].join('\n');
+
+    return [
+      {
+        id: 'langgraph-import',
+        type: 'import',
+        content: `import { Annotation, END, START, StateGraph } from '${LANGGRAPH_PACKAGE}';`,
+        dependencies: [LANGGRAPH_PACKAGE],
+        language: context.targetLanguage,
+        metadata: {
+          order: 1,
+          category: 'imports',
+        },
+      },
+      {
+        id: 'execution',
+        type: 'execution',
+        content,
+        dependencies: [LANGGRAPH_PACKAGE],
+        language: context.targetLanguage,
+        metadata: {
+          order: 1000,
+          category: 'execution',
+          async: true,
+          exports: ['graph', 'runFlow'],
+        },
+      },
+    ];
+  }
+
+  /**
+   * Shared state: conversation, flow state and per-node bookkeeping
+   */
+  private generateStateSchema(steps: IRNode[]): string {
+    const keys = this.getStateKeys(steps);
+    const defaults = keys.map((key) => `${JSON.stringify(key)}: ''`).join(', ');
+
+    const lines = [
+      '// Shared graph state',
+      'const FlowState = Annotation.Root({',
+      '  input: Annotation<string>(),',
+      '  messages: Annotation<BaseMessage[]>({',
+      '    reducer: (current, update) => current.concat(update),',
+      '    default: () => [],',
+      '  }),',
+      '  state: Annotation<Record<string, unknown>>({',
+      '    reducer: (current, update) => ({ ...current, ...update }),',
+      `    default: () => ({${defaults ? ` ${defaults} ` : ''}}),`,
+      '  }),',
+      '  outputs: Annotation<Record<string, unknown>>({',
+      '    reducer: (current, update) => ({ ...current, ...update }),',
+      '    default: () => ({}),',
+      '  }),',
+      '  loopCounts: Annotation<Record<string, number>>({',
+      '    reducer: (current, update) => ({ ...current, ...update }),',
+      '    default: () => ({}),',
+      '  }),',
+      '  reply: Annotation<string, string | undefined>({',
+      '    reducer: (current, update) => update ?? current,',
+      "    default: () => '',",
+      '  }),',
+      '  branch: Annotation<number | null>(),',
+      '  goto: Annotation<string | null>(),',
+      '});',
+      '',
+    ];
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Flow state keys declared on the Start node
+   */
+  private getStateKeys(steps: IRNode[]): string[] {
+    const start = steps.find((node) => node.type === 'startAgentflow');
+    const startState = start?.parameters.find(
+      (param) => param.name === 'startState'
+    )?.value;
+
+    if (!Array.isArray(startState)) return [];
+    return startState
+      .map((entry) => (entry as { key?: unknown })?.key)
+      .filter((key): key is string => typeof key === 'string' && key !== '');
+  }
+
+  /**
+   * Adapter turning an Agentflow step into a StateGraph node
+   */
+  private generateNodeAdapter(): string {
+    return [
+      '// Run an Agentflow step against the graph state and return its updates',
+      'function toGraphNode(nodeId: string, step: AgentflowStep) {',
+      '  return async (',
+      '    graphState: typeof FlowState.State',
+      '  ): Promise<typeof FlowState.Update> => {',
+      '    const flow: AgentflowRuntime = {',
+      '      input: graphState.input,',
+      '      state: { ...graphState.state },',
+      '      messages: [...graphState.messages],',
+      '      outputs: { ...graphState.outputs },',
+      '      loopCounts: { ...graphState.loopCounts },',
+      '    };',
+      '    const seen = flow.messages.length;',
+      '    const result = await step(flow);',
+      '',
+      '    return {',
+      '      messages: flow.messages.slice(seen),',
+      '      state: flow.state,',
+      '      outputs: { [nodeId]: result.output },',
+      '      loopCounts: flow.loopCounts,',
+      '      reply: result.reply,',
+      '      branch: result.branch ?? null,',
+      '      goto: result.goto ?? null,',
+      '    };',
+      '  };',
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * StateGraph wiring: nodes, plain edges, condition branches and loops
+   */
+  private generateGraph(steps: IRNode[], edges: IRConnection[]): string {
+    const lines: string[] = [
+      '// Flow graph',
+      'export const graph = new StateGraph(FlowState)',
+    ];
+
+    for (const node of steps) {
+      lines.push(
+        `  .addNode(${JSON.stringify(node.id)}, toGraphNode(${JSON.stringify(node.id)}, ${getAgentflowStepName(node.id)}))`
+      );
+    }
+
+    for (const entry of this.getEntryNodes(steps, edges)) {
+      lines.push(`  .addEdge(START, ${JSON.stringify(entry)})`);
+    }
+
+    for (const node of steps) {
+      const outgoing = edges.filter((edge) => edge.source === node.id);
+
+      if (isAgentflowBranchType(node.type)) {
+        lines.push(...this.generateBranchEdges(node, outgoing));
+      } else if (node.type === 'loopAgentflow') {
+        lines.push(...this.generateLoopEdges(node, outgoing));
+      } else if (outgoing.length === 0) {
+        lines.push(`  .addEdge(${JSON.stringify(node.id)}, END)`);
+      } else {
+        for (const edge of outgoing) {
+          lines.push(
+            `  .addEdge(${JSON.stringify(node.id)}, ${JSON.stringify(edge.target)})`
+          );
+        }
+      }
+    }
+
+    lines.push('  .compile();', '');
+    return lines.join('\n');
+  }
+
+  /**
+   * Condition nodes route on the branch index their step returned;
+   * branches without an outgoing edge end the flow
+   */
+  private generateBranchEdges(
+    node: IRNode,
+    outgoing: IRConnection[]
+  ): string[] {
+    const branches = new Map<string, string[]>();
+    for (const edge of outgoing) {
+      const branch = edge.sourceHandle?.match(/-output-(\d+)$/)?.[1];
+      if (branch === undefined) continue;
+      branches.set(branch, [...(branches.get(branch) || []), edge.target]);
+    }
+
+    const routes = Array.from(branches.entries()).map(
+      ([branch, targets]) =>
+        `${branch}: ${targets.length === 1 ? JSON.stringify(targets[0]) : JSON.stringify(targets)}`
+    );
+    const destinations = [
+      ...new Set(outgoing.map((edge) => JSON.stringify(edge.target))),
+      'END',
+    ];
+
+    return [
+      `  .addConditionalEdges(`,
+      `    ${JSON.stringify(node.id)},`,
+      `    (state) => {`,
+      `      const routes: Record<number, string | string[]> = { ${routes.join(', ')} };`,
+      `      return routes[state.branch ?? -1] ?? END;`,
+      `    },`,
+      `    [${destinations.join(', ')}]`,
+      `  )`,
+    ];
+  }
+
+  /**
+   * Loop nodes jump back to their target until maxLoopCount is reached,
+   * then continue along their outgoing edge (or end the flow)
+   */
+  private generateLoopEdges(node: IRNode, outgoing: IRConnection[]): string[] {
+    // The same target the loop step's goto names
+    const loopTarget = new LoopAgentflowConverter().getLoopTarget(node);
+    const fallback =
+      outgoing.length > 0 ? JSON.stringify(outgoing[0]!.target) : 'END';
+    const destinations = [
+      ...new Set([
+        ...(loopTarget ? [JSON.stringify(loopTarget)] : []),
+        ...outgoing.map((edge) => JSON.stringify(edge.target)),
+        'END',
+      ]),
+    ];
+
+    return [
+      `  .addConditionalEdges(`,
+      `    ${JSON.stringify(node.id)},`,
+      `    (state) => state.goto ?? ${fallback},`,
+      `    [${destinations.join(', ')}]`,
+      `  )`,
+    ];
+  }
+
+  private getEntryNodes(steps: IRNode[], edges: IRConnection[]): string[] {
+    const starts = steps.filter((node) => node.type === 'startAgentflow');
+    const entries =
+      starts.length > 0
+        ? starts
+        : steps.filter((node) => !edges.some((c) => c.target === node.id));
+    return entries.map((node) => node.id);
+  }
+
+  private generateRunFlow(): string {
+    return [
+      '// Main execution function',
+      'export async function runFlow(input: string): Promise<string> {',
+      '  const result = await graph.invoke({ input }, { recursionLimit: 1000 });',
+      '  return result.reply;',
+      '}',
+      '',
+    ].join('\n');
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * LangGraph Emitter Module
+ *
+ * Main entry point for LangGraph StateGraph generation.
+ */
+
+import { LangGraphEmitter } from './emitter.js';
+export { LangGraphEmitter };
+export { LANGGRAPH_PACKAGE } from './emitter.js';
+
+/**
+ * Create a new LangGraph emitter
+ */
+export function createLangGraphEmitter(): LangGraphEmitter {
+  return new LangGraphEmitter();
+}
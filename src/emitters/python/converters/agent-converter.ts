@@ -0,0 +1,139 @@
+/**
+ * Agent Converter for Python Code Generation
+ *
+ * Converts agent nodes to a tool-calling AgentExecutor and tool nodes to
+ * langchain_core tools.
+ */
+
+import type { CodeFragment, IRNode } from '../../../ir/types.js';
+
+import {
+  BasePythonConverter,
+  PythonConversionContext,
+  toPythonString,
+  toPythonValue,
+} from './base-converter.js';
+
+const AGENT_TYPES = [
+  'toolAgent',
+  'toolCallingAgent',
+  'openAIFunctionsAgent',
+  'openAIToolAgent',
+  'conversationalAgent',
+];
+
+const DEFAULT_SYSTEM_MESSAGE = 'You are a helpful AI assistant.';
+
+export class AgentConverter extends BasePythonConverter {
+  protected readonly supportedTypes = [...AGENT_TYPES, 'calculator', 'serpAPI'];
+
+  convert(node: IRNode, context: PythonConversionContext): CodeFragment[] {
+    switch (node.type) {
+      case 'calculator':
+        return this.convertCalculator(node);
+      case 'serpAPI':
+        return this.convertSerpAPI(node);
+      default:
+        return this.convertAgent(node, context);
+    }
+  }
+
+  getInputKey(): string {
+    return 'input';
+  }
+
+  getDependencies(node: IRNode): string[] {
+    switch (node.type) {
+      case 'calculator':
+        return ['langchain-core', 'numexpr'];
+      case 'serpAPI':
+        return ['langchain-community', 'google-search-results'];
+      default:
+        return ['langchain', 'langchain-core'];
+    }
+  }
+
+  private convertAgent(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[] {
+    const variableName = this.getVariableName(node);
+    const model = this.requireInputReference(node, 'model', context);
+    const tools = this.getInputNodes(node, 'tools', context).map((tool) =>
+      this.getVariableName(tool)
+    );
+    const [memoryNode] = this.getInputNodes(node, 'memory', context);
+    const memoryKey = String(
+      memoryNode?.parameters.find((p) => p.name === 'memoryKey')?.value ??
+        'chat_history'
+    );
+    const systemMessage = String(
+      this.getParameterValue(node, 'systemMessage', DEFAULT_SYSTEM_MESSAGE)
+    );
+    const maxIterations = this.getNumberParameter(node, 'maxIterations');
+
+    const lines = [
+      `${variableName}_tools = [${tools.join(', ')}]`,
+      `${variableName}_prompt = ChatPromptTemplate.from_messages(`,
+      '    [',
+      `        ("system", ${toPythonString(systemMessage)}),`,
+      `        MessagesPlaceholder(${toPythonValue(memoryKey)}, optional=True),`,
+      '        ("human", "{input}"),',
+      '        MessagesPlaceholder("agent_scratchpad"),',
+      '    ]',
+      ')',
+      `${variableName} = ${this.formatCall('AgentExecutor', {
+        agent: `create_tool_calling_agent(${model}, ${variableName}_tools, ${variableName}_prompt)`,
+        tools: `${variableName}_tools`,
+        memory: memoryNode ? this.getVariableName(memoryNode) : undefined,
+        max_iterations:
+          maxIterations !== undefined ? String(maxIterations) : undefined,
+      })}`,
+    ];
+
+    return [
+      this.createImportFragment(node, 'langchain.agents', [
+        'AgentExecutor',
+        'create_tool_calling_agent',
+      ]),
+      this.createImportFragment(node, 'langchain_core.prompts', [
+        'ChatPromptTemplate',
+        'MessagesPlaceholder',
+      ]),
+      this.createDeclarationFragment(node, lines.join('\n')),
+    ];
+  }
+
+  private convertCalculator(node: IRNode): CodeFragment[] {
+    const lines = [
+      '@tool("calculator")',
+      `def ${this.getVariableName(node)}(expression: str) -> str:`,
+      '    """Useful for getting the result of a math expression. The input must be a valid mathematical expression."""',
+      '    return str(evaluate(expression.strip()).item())',
+    ];
+
+    return [
+      this.createImportFragment(node, 'langchain_core.tools', ['tool']),
+      this.createImportFragment(node, 'numexpr', ['evaluate']),
+      this.createDeclarationFragment(node, lines.join('\n')),
+    ];
+  }
+
+  private convertSerpAPI(node: IRNode): CodeFragment[] {
+    return [
+      this.createImportFragment(node, 'langchain_core.tools', ['Tool']),
+      this.createImportFragment(node, 'langchain_community.utilities', [
+        'SerpAPIWrapper',
+      ]),
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)} = ${this.formatCall('Tool', {
+          name: '"search"',
+          description:
+            '"A search engine. Useful for when you need to answer questions about current events. Input should be a search query."',
+          func: 'SerpAPIWrapper().run',
+        })}`
+      ),
+    ];
+  }
+}
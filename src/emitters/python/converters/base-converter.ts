@@ -0,0 +1,297 @@
+/**
+ * Base Python Converter
+ *
+ * Shared interface and helpers for the converters that turn IR nodes into
+ * LangChain Python code.
+ */
+
+import type {
+  CodeFragment,
+  GenerationContext,
+  IRGraph,
+  IRNode,
+} from '../../../ir/types.js';
+
+/**
+ * Generation context handed to Python converters. Converters need the graph
+ * to find the nodes wired into their inputs.
+ */
+export interface PythonConversionContext extends GenerationContext {
+  graph: IRGraph;
+}
+
+/**
+ * Converter from an IR node to Python code fragments
+ */
+export interface PythonNodeConverter {
+  convert(node: IRNode, context: PythonConversionContext): CodeFragment[];
+  /** pip distribution names the generated code needs */
+  getDependencies(node: IRNode, context?: PythonConversionContext): string[];
+  canConvert(node: IRNode): boolean;
+  /** Key the node expects the user input under when it runs the flow */
+  getInputKey?(node: IRNode, context: PythonConversionContext): string;
+}
+
+/**
+ * Python identifier for a node, e.g. `chatOpenAI_0` -> `chat_open_ai_0`
+ */
+export function toPythonName(nodeId: string): string {
+  const name = nodeId
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+
+  return /^[0-9]/.test(name) ? `node_${name}` : name || 'node';
+}
+
+/**
+ * Python string literal; multi-line text becomes a triple-quoted string
+ */
+export function toPythonString(value: string): string {
+  if (!value.trim().includes('\n')) {
+    return JSON.stringify(value);
+  }
+
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"""/g, '\\"\\"\\"')
+    .replace(/"$/, '\\"');
+  return `"""${escaped}"""`;
+}
+
+/**
+ * Indent each line of Python code, leaving the inside of triple-quoted
+ * strings untouched
+ */
+export function indentPython(code: string, prefix: string = '    '): string {
+  let inString = false;
+
+  return code
+    .split('\n')
+    .map((line) => {
+      const indented = inString || line === '' ? line : `${prefix}${line}`;
+      const quotes = line.replace(/\\"/g, '').split('"""').length - 1;
+      if (quotes % 2 === 1) inString = !inString;
+      return indented;
+    })
+    .join('\n');
+}
+
+/**
+ * Python literal for a JSON-compatible value
+ */
+export function toPythonValue(value: unknown): string {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') return toPythonString(value);
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => toPythonValue(item)).join(', ')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>).map(
+    ([key, item]) => `${JSON.stringify(key)}: ${toPythonValue(item)}`
+  );
+  return `{${entries.join(', ')}}`;
+}
+
+/**
+ * Base class with the parameter, wiring and fragment helpers every Python
+ * converter uses
+ */
+export abstract class BasePythonConverter implements PythonNodeConverter {
+  protected abstract readonly supportedTypes: readonly string[];
+
+  abstract convert(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[];
+
+  abstract getDependencies(
+    node: IRNode,
+    context?: PythonConversionContext
+  ): string[];
+
+  canConvert(node: IRNode): boolean {
+    return this.supportedTypes.includes(node.type);
+  }
+
+  /**
+   * Get parameter value from node with fallback
+   */
+  protected getParameterValue<T = unknown>(
+    node: IRNode,
+    paramName: string,
+    defaultValue?: T
+  ): T | undefined {
+    const param = node.parameters.find((p) => p.name === paramName);
+    return (param?.value as T) ?? defaultValue;
+  }
+
+  /**
+   * Numeric parameter; Flowise stores most numbers as strings
+   */
+  protected getNumberParameter(
+    node: IRNode,
+    paramName: string
+  ): number | undefined {
+    const value = Number(this.getParameterValue(node, paramName));
+    return this.hasParameter(node, paramName) && !Number.isNaN(value)
+      ? value
+      : undefined;
+  }
+
+  protected hasParameter(node: IRNode, paramName: string): boolean {
+    return node.parameters.some((p) => p.name === paramName);
+  }
+
+  protected getVariableName(node: IRNode): string {
+    return toPythonName(node.id);
+  }
+
+  /**
+   * Nodes connected to the given input, in edge order
+   */
+  protected getInputNodes(
+    node: IRNode,
+    inputName: string,
+    context: PythonConversionContext
+  ): IRNode[] {
+    const sources = context.graph.connections
+      .filter(
+        (c) =>
+          c.target === node.id &&
+          (c.targetHandle === inputName ||
+            c.targetHandle?.includes(`-input-${inputName}-`))
+      )
+      .map((c) => c.source);
+
+    // Older exports only record the connection as a {{nodeId.data.instance}}
+    // reference in the input value
+    const value = this.getParameterValue(node, inputName);
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const match =
+        typeof item === 'string' ? item.match(/^\{\{(.+?)\.data\./) : null;
+      if (match?.[1] && !sources.includes(match[1])) {
+        sources.push(match[1]);
+      }
+    }
+
+    return sources
+      .map((id) => context.graph.nodes.find((n) => n.id === id))
+      .filter((n): n is IRNode => n !== undefined);
+  }
+
+  /**
+   * Python variable of the node connected to the given input
+   */
+  protected getInputReference(
+    node: IRNode,
+    inputName: string,
+    context: PythonConversionContext
+  ): string | undefined {
+    const [source] = this.getInputNodes(node, inputName, context);
+    return source ? this.getVariableName(source) : undefined;
+  }
+
+  /**
+   * Like getInputReference, but the input must be connected
+   */
+  protected requireInputReference(
+    node: IRNode,
+    inputName: string,
+    context: PythonConversionContext
+  ): string {
+    const reference = this.getInputReference(node, inputName, context);
+    if (!reference) {
+      throw new Error(
+        `${node.type} node ${node.id} is missing required ${inputName} input`
+      );
+    }
+    return reference;
+  }
+
+  /**
+   * Nodes that consume this node's output
+   */
+  protected getConsumers(
+    node: IRNode,
+    context: PythonConversionContext
+  ): IRNode[] {
+    return context.graph.connections
+      .filter((c) => c.source === node.id)
+      .map((c) => context.graph.nodes.find((n) => n.id === c.target))
+      .filter((n): n is IRNode => n !== undefined);
+  }
+
+  /**
+   * Keyword arguments for a constructor call, skipping unset values
+   */
+  protected formatKwargs(kwargs: Record<string, string | undefined>): string {
+    return Object.entries(kwargs)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', ');
+  }
+
+  /**
+   * Call expression, wrapped one argument per line when it gets long
+   */
+  protected formatCall(
+    callee: string,
+    kwargs: Record<string, string | undefined>
+  ): string {
+    const args = this.formatKwargs(kwargs);
+    if (callee.length + args.length <= 70 && !args.includes('\n')) {
+      return `${callee}(${args})`;
+    }
+
+    const lines = Object.entries(kwargs)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${indentPython(`${key}=${value}`)},`);
+    return `${callee}(\n${lines.join('\n')}\n)`;
+  }
+
+  protected createImportFragment(
+    node: IRNode,
+    module: string,
+    names: string[],
+    dependencies: string[] = []
+  ): CodeFragment {
+    return {
+      id: `${node.id}_import_${module}`,
+      type: 'import',
+      content: `from ${module} import ${names.join(', ')}`,
+      dependencies,
+      language: 'python',
+      metadata: {
+        nodeId: node.id,
+        order: 0,
+        category: 'imports',
+        imports: names,
+      },
+    };
+  }
+
+  protected createDeclarationFragment(
+    node: IRNode,
+    content: string,
+    dependencies: string[] = []
+  ): CodeFragment {
+    return {
+      id: `${node.id}_declaration`,
+      type: 'declaration',
+      content,
+      dependencies,
+      language: 'python',
+      metadata: {
+        nodeId: node.id,
+        order: 50,
+        description: `${node.label} (${node.type})`,
+        category: 'declarations',
+        exports: [this.getVariableName(node)],
+      },
+    };
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Chain Converter for Python Code Generation
+ *
+ * Converts chain nodes to LCEL pipelines, or to the langchain.chains classes
+ * where the chain owns a memory.
+ */
+
+import type { CodeFragment, IRNode } from '../../../ir/types.js';
+import {
+  DEFAULT_REPHRASE_PROMPT,
+  DEFAULT_RESPONSE_PROMPT,
+} from '../../../registry/converters/chain.js';
+
+import {
+  BasePythonConverter,
+  PythonConversionContext,
+  toPythonString,
+  toPythonValue,
+} from './base-converter.js';
+import { getPromptInputVariables } from './prompt-converter.js';
+
+const DEFAULT_CONVERSATION_PROMPT =
+  'The following is a friendly conversation between a human and an AI. The AI is talkative and provides lots of specific details from its context. If the AI does not know the answer to a question, it truthfully says it does not know.';
+
+export class ChainConverter extends BasePythonConverter {
+  protected readonly supportedTypes = [
+    'llmChain',
+    'conversationChain',
+    'retrievalQAChain',
+    'conversationalRetrievalQAChain',
+  ];
+
+  convert(node: IRNode, context: PythonConversionContext): CodeFragment[] {
+    switch (node.type) {
+      case 'llmChain':
+        return this.convertLLMChain(node, context);
+      case 'conversationChain':
+        return this.convertConversationChain(node, context);
+      case 'retrievalQAChain':
+        return this.convertRetrievalQAChain(node, context);
+      default:
+        return this.convertConversationalRetrievalQAChain(node, context);
+    }
+  }
+
+  getDependencies(): string[] {
+    return ['langchain', 'langchain-core'];
+  }
+
+  getInputKey(node: IRNode, context: PythonConversionContext): string {
+    switch (node.type) {
+      case 'llmChain': {
+        const [prompt] = this.getInputNodes(node, 'prompt', context);
+        return (prompt && getPromptInputVariables(prompt)[0]) ?? 'input';
+      }
+      case 'retrievalQAChain':
+        return 'query';
+      case 'conversationalRetrievalQAChain':
+        return 'question';
+      default:
+        return 'input';
+    }
+  }
+
+  private convertLLMChain(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[] {
+    const prompt = this.requireInputReference(node, 'prompt', context);
+    const model = this.requireInputReference(node, 'model', context);
+
+    return [
+      this.createImportFragment(node, 'langchain_core.output_parsers', [
+        'StrOutputParser',
+      ]),
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)} = ${prompt} | ${model} | StrOutputParser()`
+      ),
+    ];
+  }
+
+  private convertConversationChain(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[] {
+    const model = this.requireInputReference(node, 'model', context);
+    const [memoryNode] = this.getInputNodes(node, 'memory', context);
+    const memoryKey = String(
+      memoryNode?.parameters.find((p) => p.name === 'memoryKey')?.value ??
+        'chat_history'
+    );
+    const system = this.getParameterValue(
+      node,
+      'systemMessagePrompt',
+      DEFAULT_CONVERSATION_PROMPT
+    );
+
+    const fragments = [
+      this.createImportFragment(node, 'langchain.chains', [
+        'ConversationChain',
+      ]),
+      this.createImportFragment(node, 'langchain_core.prompts', [
+        'ChatPromptTemplate',
+        'MessagesPlaceholder',
+      ]),
+    ];
+    if (!memoryNode) {
+      fragments.push(
+        this.createImportFragment(node, 'langchain.memory', [
+          'ConversationBufferMemory',
+        ])
+      );
+    }
+
+    const memory = memoryNode
+      ? this.getVariableName(memoryNode)
+      : `ConversationBufferMemory(memory_key=${toPythonValue(memoryKey)}, return_messages=True)`;
+    const prompt = [
+      'ChatPromptTemplate.from_messages(',
+      '    [',
+      `        ("system", ${toPythonString(String(system))}),`,
+      `        MessagesPlaceholder(${toPythonValue(memoryKey)}),`,
+      '        ("human", "{input}"),',
+      '    ]',
+      ')',
+    ].join('\n');
+
+    fragments.push(
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)} = ${this.formatCall(
+          'ConversationChain',
+          {
+            llm: model,
+            memory,
+            prompt,
+          }
+        )}`
+      )
+    );
+    return fragments;
+  }
+
+  private convertRetrievalQAChain(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[] {
+    const model = this.requireInputReference(node, 'model', context);
+    const retriever = this.requireInputReference(
+      node,
+      'vectorStoreRetriever',
+      context
+    );
+
+    return [
+      this.createImportFragment(node, 'langchain.chains', ['RetrievalQA']),
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)} = ${this.formatCall(
+          'RetrievalQA.from_chain_type',
+          { llm: model, retriever }
+        )}`
+      ),
+    ];
+  }
+
+  private convertConversationalRetrievalQAChain(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[] {
+    const model = this.requireInputReference(node, 'model', context);
+    const retriever = this.requireInputReference(
+      node,
+      'vectorStoreRetriever',
+      context
+    );
+    const memory = this.getInputReference(node, 'memory', context);
+    const rephrasePrompt = String(
+      this.getParameterValue(node, 'rephrasePrompt', DEFAULT_REPHRASE_PROMPT)
+    );
+    const responsePrompt = String(
+      this.getParameterValue(node, 'responsePrompt', DEFAULT_RESPONSE_PROMPT)
+    );
+    const returnSourceDocuments =
+      this.getParameterValue(node, 'returnSourceDocuments') === true;
+
+    const fragments = [
+      this.createImportFragment(node, 'langchain.chains', [
+        'ConversationalRetrievalChain',
+      ]),
+      this.createImportFragment(node, 'langchain_core.prompts', [
+        'ChatPromptTemplate',
+        'PromptTemplate',
+      ]),
+    ];
+    if (!memory) {
+      fragments.push(
+        this.createImportFragment(node, 'langchain.memory', [
+          'ConversationBufferMemory',
+        ])
+      );
+    }
+
+    const responseTemplate = [
+      '{',
+      '    "prompt": ChatPromptTemplate.from_messages(',
+      '        [',
+      `            ("system", ${toPythonString(responsePrompt)}),`,
+      '            ("human", "{question}"),',
+      '        ]',
+      '    )',
+      '}',
+    ].join('\n');
+
+    fragments.push(
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)} = ${this.formatCall(
+          'ConversationalRetrievalChain.from_llm',
+          {
+            llm: model,
+            retriever,
+            memory:
+              memory ??
+              'ConversationBufferMemory(memory_key="chat_history", return_messages=True, input_key="question", output_key="answer")',
+            return_source_documents: returnSourceDocuments ? 'True' : undefined,
+            condense_question_prompt: `PromptTemplate.from_template(${toPythonString(rephrasePrompt)})`,
+            combine_docs_chain_kwargs: responseTemplate,
+          }
+        )}`
+      )
+    );
+    return fragments;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Memory Converter for Python Code Generation
+ *
+ * Converts memory nodes to langchain.memory classes, keyed for the chain or
+ * agent that consumes them.
+ */
+
+import type { CodeFragment, IRNode } from '../../../ir/types.js';
+
+import {
+  BasePythonConverter,
+  PythonConversionContext,
+  toPythonValue,
+} from './base-converter.js';
+
+const MEMORY_CLASSES: Record<string, string> = {
+  bufferMemory: 'ConversationBufferMemory',
+  bufferWindowMemory: 'ConversationBufferWindowMemory',
+  conversationSummaryMemory: 'ConversationSummaryMemory',
+};
+
+/**
+ * Input and output keys of the chains a memory can be attached to. Python
+ * chains refuse to save context when the memory cannot tell them apart.
+ */
+const CONSUMER_KEYS: Record<string, { input: string; output: string }> = {
+  conversationalRetrievalQAChain: { input: 'question', output: 'answer' },
+  conversationChain: { input: 'input', output: 'response' },
+};
+
+export class MemoryConverter extends BasePythonConverter {
+  protected readonly supportedTypes = Object.keys(MEMORY_CLASSES);
+
+  convert(node: IRNode, context: PythonConversionContext): CodeFragment[] {
+    const className = MEMORY_CLASSES[node.type]!;
+    const consumer = this.getConsumers(node, context)[0];
+    const keys = (consumer && CONSUMER_KEYS[consumer.type]) ?? {
+      input: 'input',
+      output: 'output',
+    };
+
+    const kwargs: Record<string, string | undefined> = {
+      memory_key: toPythonValue(
+        this.getParameterValue(node, 'memoryKey', 'chat_history')
+      ),
+      return_messages: 'True',
+      input_key: toPythonValue(keys.input),
+      output_key: toPythonValue(keys.output),
+    };
+
+    if (node.type === 'bufferWindowMemory') {
+      kwargs['k'] = String(this.getNumberParameter(node, 'k') ?? 4);
+    }
+    if (node.type === 'conversationSummaryMemory') {
+      kwargs['llm'] = this.requireInputReference(node, 'model', context);
+    }
+
+    return [
+      this.createImportFragment(node, 'langchain.memory', [className]),
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)} = ${this.formatCall(className, kwargs)}`
+      ),
+    ];
+  }
+
+  getDependencies(): string[] {
+    return ['langchain'];
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Model Converter for Python Code Generation
+ *
+ * Converts chat model, LLM and embedding nodes to their langchain-* partner
+ * package classes.
+ */
+
+import type { CodeFragment, IRNode } from '../../../ir/types.js';
+
+import {
+  BasePythonConverter,
+  PythonConversionContext,
+  toPythonValue,
+} from './base-converter.js';
+
+/**
+ * Python class for a Flowise model node and how its inputs map onto the
+ * constructor's keyword arguments
+ */
+export interface PythonModelSpec {
+  className: string;
+  module: string;
+  dependency: string;
+  params: Record<
+    string,
+    { kwarg: string; kind: 'string' | 'number' | 'boolean' }
+  >;
+}
+
+const str = (kwarg: string) => ({ kwarg, kind: 'string' as const });
+const num = (kwarg: string) => ({ kwarg, kind: 'number' as const });
+const bool = (kwarg: string) => ({ kwarg, kind: 'boolean' as const });
+
+const OPENAI_PARAMS = {
+  modelName: str('model'),
+  temperature: num('temperature'),
+  maxTokens: num('max_tokens'),
+  topP: num('top_p'),
+  frequencyPenalty: num('frequency_penalty'),
+  presencePenalty: num('presence_penalty'),
+  timeout: num('timeout'),
+  streaming: bool('streaming'),
+  basepath: str('base_url'),
+};
+
+const CHAT_MODELS: Record<string, PythonModelSpec> = {
+  chatOpenAI: {
+    className: 'ChatOpenAI',
+    module: 'langchain_openai',
+    dependency: 'langchain-openai',
+    params: OPENAI_PARAMS,
+  },
+  openAI: {
+    className: 'OpenAI',
+    module: 'langchain_openai',
+    dependency: 'langchain-openai',
+    params: OPENAI_PARAMS,
+  },
+  azureChatOpenAI: {
+    className: 'AzureChatOpenAI',
+    module: 'langchain_openai',
+    dependency: 'langchain-openai',
+    params: {
+      modelName: str('model'),
+      temperature: num('temperature'),
+      maxTokens: num('max_tokens'),
+      topP: num('top_p'),
+      timeout: num('timeout'),
+      streaming: bool('streaming'),
+    },
+  },
+  chatAnthropic: {
+    className: 'ChatAnthropic',
+    module: 'langchain_anthropic',
+    dependency: 'langchain-anthropic',
+    params: {
+      modelName: str('model'),
+      temperature: num('temperature'),
+      maxTokensToSample: num('max_tokens'),
+      topP: num('top_p'),
+      topK: num('top_k'),
+      streaming: bool('streaming'),
+    },
+  },
+  chatOllama: {
+    className: 'ChatOllama',
+    module: 'langchain_ollama',
+    dependency: 'langchain-ollama',
+    params: {
+      baseUrl: str('base_url'),
+      modelName: str('model'),
+      temperature: num('temperature'),
+      topP: num('top_p'),
+      topK: num('top_k'),
+      numCtx: num('num_ctx'),
+    },
+  },
+  chatGoogleGenerativeAI: {
+    className: 'ChatGoogleGenerativeAI',
+    module: 'langchain_google_genai',
+    dependency: 'langchain-google-genai',
+    params: {
+      modelName: str('model'),
+      temperature: num('temperature'),
+      maxOutputTokens: num('max_output_tokens'),
+      topP: num('top_p'),
+      topK: num('top_k'),
+    },
+  },
+  chatMistralAI: {
+    className: 'ChatMistralAI',
+    module: 'langchain_mistralai',
+    dependency: 'langchain-mistralai',
+    params: {
+      modelName: str('model'),
+      temperature: num('temperature'),
+      maxOutputTokens: num('max_tokens'),
+      topP: num('top_p'),
+    },
+  },
+  groqChat: {
+    className: 'ChatGroq',
+    module: 'langchain_groq',
+    dependency: 'langchain-groq',
+    params: {
+      modelName: str('model'),
+      temperature: num('temperature'),
+      maxTokens: num('max_tokens'),
+    },
+  },
+};
+
+const EMBEDDINGS: Record<string, PythonModelSpec> = {
+  openAIEmbeddings: {
+    className: 'OpenAIEmbeddings',
+    module: 'langchain_openai',
+    dependency: 'langchain-openai',
+    params: {
+      modelName: str('model'),
+      dimensions: num('dimensions'),
+      batchSize: num('chunk_size'),
+      timeout: num('timeout'),
+      basepath: str('base_url'),
+    },
+  },
+  azureOpenAIEmbeddings: {
+    className: 'AzureOpenAIEmbeddings',
+    module: 'langchain_openai',
+    dependency: 'langchain-openai',
+    params: { modelName: str('model'), batchSize: num('chunk_size') },
+  },
+  cohereEmbeddings: {
+    className: 'CohereEmbeddings',
+    module: 'langchain_cohere',
+    dependency: 'langchain-cohere',
+    params: { modelName: str('model') },
+  },
+  ollamaEmbedding: {
+    className: 'OllamaEmbeddings',
+    module: 'langchain_ollama',
+    dependency: 'langchain-ollama',
+    params: { baseUrl: str('base_url'), modelName: str('model') },
+  },
+  googleGenerativeAiEmbeddings: {
+    className: 'GoogleGenerativeAIEmbeddings',
+    module: 'langchain_google_genai',
+    dependency: 'langchain-google-genai',
+    params: { modelName: str('model') },
+  },
+  mistralAIEmbeddings: {
+    className: 'MistralAIEmbeddings',
+    module: 'langchain_mistralai',
+    dependency: 'langchain-mistralai',
+    params: { modelName: str('model') },
+  },
+};
+
+/**
+ * Python spec for a Flowise embeddings node name, e.g. `openAIEmbeddings`
+ */
+export function getEmbeddingSpec(name: string): PythonModelSpec | undefined {
+  return EMBEDDINGS[name];
+}
+
+/**
+ * Constructor call for a model spec from raw Flowise input values
+ */
+export function formatModelConstructor(
+  spec: PythonModelSpec,
+  values: Record<string, unknown>
+): string {
+  const args = Object.entries(spec.params).flatMap(
+    ([name, { kwarg, kind }]) => {
+      const value = values[name];
+      if (value === undefined || value === null || value === '') return [];
+
+      if (kind === 'number') {
+        const number = Number(value);
+        return Number.isNaN(number) ? [] : [`${kwarg}=${number}`];
+      }
+      if (kind === 'boolean') {
+        return [
+          `${kwarg}=${toPythonValue(value === true || value === 'true')}`,
+        ];
+      }
+      return [`${kwarg}=${toPythonValue(String(value))}`];
+    }
+  );
+
+  return `${spec.className}(${args.join(', ')})`;
+}
+
+export class ModelConverter extends BasePythonConverter {
+  protected readonly supportedTypes = [
+    ...Object.keys(CHAT_MODELS),
+    ...Object.keys(EMBEDDINGS),
+  ];
+
+  convert(node: IRNode, _context: PythonConversionContext): CodeFragment[] {
+    const spec = this.getSpec(node);
+    const values = Object.fromEntries(
+      node.parameters.map((p) => [p.name, p.value])
+    );
+
+    return [
+      this.createImportFragment(
+        node,
+        spec.module,
+        [spec.className],
+        [spec.dependency]
+      ),
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)} = ${formatModelConstructor(spec, values)}`,
+        [spec.dependency]
+      ),
+    ];
+  }
+
+  getDependencies(node: IRNode): string[] {
+    return [this.getSpec(node).dependency];
+  }
+
+  private getSpec(node: IRNode): PythonModelSpec {
+    const spec = CHAT_MODELS[node.type] ?? EMBEDDINGS[node.type];
+    if (!spec) {
+      throw new Error(`Unsupported model node type: ${node.type}`);
+    }
+    return spec;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Prompt Converter for Python Code Generation
+ *
+ * Converts prompt template nodes to langchain_core prompt templates.
+ */
+
+import type { CodeFragment, IRNode } from '../../../ir/types.js';
+
+import {
+  BasePythonConverter,
+  PythonConversionContext,
+  toPythonString,
+  toPythonValue,
+} from './base-converter.js';
+
+export class PromptConverter extends BasePythonConverter {
+  protected readonly supportedTypes = ['promptTemplate', 'chatPromptTemplate'];
+
+  convert(node: IRNode, _context: PythonConversionContext): CodeFragment[] {
+    const variableName = this.getVariableName(node);
+    const partials = getPromptPartials(node);
+    const partialCall =
+      Object.keys(partials).length > 0
+        ? `.partial(${Object.entries(partials)
+            .map(([key, value]) => `${key}=${toPythonValue(value)}`)
+            .join(', ')})`
+        : '';
+
+    if (node.type === 'promptTemplate') {
+      const template = String(this.getParameterValue(node, 'template', ''));
+      return [
+        this.createImportFragment(node, 'langchain_core.prompts', [
+          'PromptTemplate',
+        ]),
+        this.createDeclarationFragment(
+          node,
+          `${variableName} = PromptTemplate.from_template(\n    ${toPythonString(template)}\n)${partialCall}`
+        ),
+      ];
+    }
+
+    const system = this.getParameterValue<string>(node, 'systemMessagePrompt');
+    const human = this.getParameterValue(node, 'humanMessagePrompt', '{input}');
+    const messages = [
+      ...(system ? [`("system", ${toPythonString(system)})`] : []),
+      `("human", ${toPythonString(String(human))})`,
+    ];
+
+    return [
+      this.createImportFragment(node, 'langchain_core.prompts', [
+        'ChatPromptTemplate',
+      ]),
+      this.createDeclarationFragment(
+        node,
+        `${variableName} = ChatPromptTemplate.from_messages(\n    [\n${messages
+          .map((m) => `        ${m},`)
+          .join('\n')}\n    ]\n)${partialCall}`
+      ),
+    ];
+  }
+
+  getDependencies(): string[] {
+    return ['langchain-core'];
+  }
+}
+
+/**
+ * Fixed prompt values. Values that reference other variables (`{{...}}`)
+ * are left for the caller to fill in.
+ */
+function getPromptPartials(node: IRNode): Record<string, unknown> {
+  const raw = node.parameters.find((p) => p.name === 'promptValues')?.value;
+  let values: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      values = JSON.parse(raw);
+    } catch {
+      values = undefined;
+    }
+  }
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(values as Record<string, unknown>).filter(
+      ([, value]) => !(typeof value === 'string' && value.includes('{{'))
+    )
+  );
+}
+
+/**
+ * Variables a prompt node still needs at run time, in template order
+ */
+export function getPromptInputVariables(node: IRNode): string[] {
+  const partials = getPromptPartials(node);
+  const templates = ['template', 'systemMessagePrompt', 'humanMessagePrompt']
+    .map((name) => node.parameters.find((p) => p.name === name)?.value)
+    .filter((value): value is string => typeof value === 'string');
+
+  const variables = templates.flatMap((template) =>
+    [...template.matchAll(/(?<!\{)\{([a-zA-Z_][a-zA-Z0-9_]*)\}(?!\})/g)].map(
+      (match) => match[1]!
+    )
+  );
+
+  return [...new Set(variables)].filter((name) => !(name in partials));
+}
@@ -0,0 +1,326 @@
+/**
+ * Retrieval Converter for Python Code Generation
+ *
+ * Converts vector store nodes to langchain vector stores, exposed as a
+ * retriever unless the node's vector store output is selected.
+ */
+
+import type {
+  CodeFragment,
+  FlowiseDocumentStore,
+  FlowiseDocumentStoreLoader,
+  IRNode,
+} from '../../../ir/types.js';
+
+import {
+  BasePythonConverter,
+  PythonConversionContext,
+  toPythonString,
+  toPythonValue,
+} from './base-converter.js';
+import { formatModelConstructor, getEmbeddingSpec } from './model-converter.js';
+
+/**
+ * Document loaders from langchain_community, keyed by Flowise loader name
+ */
+const DOCUMENT_STORE_LOADERS: Record<
+  string,
+  { globs: string[]; className: string; dependencies: string[] }
+> = {
+  pdfFile: {
+    globs: ['**/*.pdf'],
+    className: 'PyPDFLoader',
+    dependencies: ['pypdf'],
+  },
+  docxFile: {
+    globs: ['**/*.docx'],
+    className: 'Docx2txtLoader',
+    dependencies: ['docx2txt'],
+  },
+  csvFile: { globs: ['**/*.csv'], className: 'CSVLoader', dependencies: [] },
+  jsonFile: { globs: ['**/*.json'], className: 'TextLoader', dependencies: [] },
+  textFile: {
+    globs: ['**/*.txt', '**/*.md'],
+    className: 'TextLoader',
+    dependencies: [],
+  },
+  plainText: {
+    globs: ['**/*.txt', '**/*.md'],
+    className: 'TextLoader',
+    dependencies: [],
+  },
+};
+
+/**
+ * Text splitters from langchain_text_splitters, keyed by Flowise node name
+ */
+const DOCUMENT_STORE_SPLITTERS: Record<string, string> = {
+  recursiveCharacterTextSplitter: 'RecursiveCharacterTextSplitter',
+  characterTextSplitter: 'CharacterTextSplitter',
+  tokenTextSplitter: 'TokenTextSplitter',
+  markdownTextSplitter: 'MarkdownTextSplitter',
+};
+
+export class RetrievalConverter extends BasePythonConverter {
+  protected readonly supportedTypes = ['pinecone', 'documentStoreVS'];
+
+  convert(node: IRNode, context: PythonConversionContext): CodeFragment[] {
+    const fragments =
+      node.type === 'pinecone'
+        ? this.convertPinecone(node, context)
+        : this.convertDocumentStore(node, context);
+
+    const variableName = this.getVariableName(node);
+    const declaration = fragments[fragments.length - 1]!;
+    declaration.content +=
+      node.data?.outputs?.['output'] === 'vectorStore'
+        ? `\n${variableName} = ${variableName}_store`
+        : `\n${variableName} = ${variableName}_store.as_retriever(${this.getSearchKwargs(node)})`;
+
+    return fragments;
+  }
+
+  getDependencies(node: IRNode, context?: PythonConversionContext): string[] {
+    if (node.type === 'pinecone') {
+      return ['langchain-pinecone'];
+    }
+
+    const store = this.getStore(node, context);
+    const loaders = this.getLoaders(store);
+    const embedding =
+      getEmbeddingSpec(this.getEmbeddingConfig(store)?.name ?? '') ??
+      getEmbeddingSpec('openAIEmbeddings')!;
+
+    const dependencies = new Set([
+      'langchain-core',
+      'langchain-community',
+      'langchain-text-splitters',
+      embedding.dependency,
+    ]);
+    for (const loader of loaders) {
+      for (const dependency of DOCUMENT_STORE_LOADERS[loader.loaderId]
+        ?.dependencies || []) {
+        dependencies.add(dependency);
+      }
+    }
+    if (this.getSplitter(loaders).className === 'TokenTextSplitter') {
+      dependencies.add('tiktoken');
+    }
+
+    return Array.from(dependencies);
+  }
+
+  private convertPinecone(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[] {
+    const embedding = this.requireInputReference(node, 'embeddings', context);
+    const namespace = this.getParameterValue<string>(node, 'pineconeNamespace');
+    const textKey = this.getParameterValue<string>(node, 'pineconeTextKey');
+
+    return [
+      this.createImportFragment(node, 'langchain_pinecone', [
+        'PineconeVectorStore',
+      ]),
+      this.createDeclarationFragment(
+        node,
+        `${this.getVariableName(node)}_store = ${this.formatCall(
+          'PineconeVectorStore',
+          {
+            index_name: toPythonValue(
+              this.getParameterValue(node, 'pineconeIndex', '')
+            ),
+            embedding,
+            namespace: namespace ? toPythonValue(namespace) : undefined,
+            text_key: textKey ? toPythonValue(textKey) : undefined,
+          }
+        )}`
+      ),
+    ];
+  }
+
+  /**
+   * Flowise document stores live on the Flowise server, so the store is
+   * rebuilt in memory from files in ./documents/<store>, the same way the
+   * TypeScript output does
+   */
+  private convertDocumentStore(
+    node: IRNode,
+    context: PythonConversionContext
+  ): CodeFragment[] {
+    const variableName = this.getVariableName(node);
+    const storeId = this.getParameterValue<string>(node, 'selectedStore') || '';
+    const store = this.getStore(node, context);
+    const directory = `./documents/${this.getDirectoryName(store, storeId)}`;
+
+    const loaders = this.getLoaders(store);
+    const splitter = this.getSplitter(loaders);
+    const embeddingConfig = this.getEmbeddingConfig(store);
+    const embedding =
+      getEmbeddingSpec(embeddingConfig?.name ?? '') ??
+      getEmbeddingSpec('openAIEmbeddings')!;
+
+    const lines = [
+      `# ${node.label}: ${store ? `"${store.name}" (${storeId})` : storeId || 'no store selected'}`,
+      `# Documents in ${directory} are embedded into an in-memory vector store at startup`,
+    ];
+    if (!store) {
+      lines.push(
+        '# TODO: pass the Flowise document store export via context.documentStores',
+        "# (CLI: --document-stores) to reproduce the store's loaders, splitter and embeddings"
+      );
+    }
+
+    const sources = new Map<string, string>();
+    for (const loader of loaders) {
+      const local = DOCUMENT_STORE_LOADERS[loader.loaderId];
+      if (!local) {
+        lines.push(
+          `# TODO: the '${loader.loaderName || loader.loaderId}' loader has no local equivalent; add its documents to ${directory}`
+        );
+        continue;
+      }
+      local.globs.forEach((glob) => sources.set(glob, local.className));
+    }
+    if (sources.size === 0) {
+      const text = DOCUMENT_STORE_LOADERS['textFile']!;
+      text.globs.forEach((glob) => sources.set(glob, text.className));
+    }
+
+    const splitterArgs = Object.entries(splitter.config)
+      .map(([key, value]) => `${key}=${toPythonValue(value)}`)
+      .join(', ');
+
+    lines.push(
+      `${variableName}_documents = []`,
+      `for glob, loader_cls in [${Array.from(sources)
+        .map(([glob, className]) => `(${toPythonString(glob)}, ${className})`)
+        .join(', ')}]:`,
+      `    ${variableName}_documents.extend(`,
+      `        DirectoryLoader(${toPythonString(directory)}, glob=glob, loader_cls=loader_cls).load()`,
+      '    )',
+      `${variableName}_splitter = ${splitter.className}(${splitterArgs})`,
+      `${variableName}_store = InMemoryVectorStore.from_documents(`,
+      `    ${variableName}_splitter.split_documents(${variableName}_documents),`,
+      `    ${formatModelConstructor(embedding, embeddingConfig?.config ?? {})},`,
+      ')'
+    );
+
+    return [
+      this.createImportFragment(node, 'langchain_community.document_loaders', [
+        'DirectoryLoader',
+        ...new Set(sources.values()),
+      ]),
+      this.createImportFragment(node, 'langchain_core.vectorstores', [
+        'InMemoryVectorStore',
+      ]),
+      this.createImportFragment(node, 'langchain_text_splitters', [
+        splitter.className,
+      ]),
+      this.createImportFragment(node, embedding.module, [embedding.className]),
+      this.createDeclarationFragment(node, lines.join('\n')),
+    ];
+  }
+
+  private getSearchKwargs(node: IRNode): string {
+    const searchType = this.getParameterValue<string>(node, 'searchType');
+    const search: Record<string, number> = {};
+    const topK = this.getNumberParameter(node, 'topK');
+    if (topK !== undefined) search['k'] = topK;
+
+    if (searchType === 'mmr') {
+      const fetchK = this.getNumberParameter(node, 'fetchK');
+      const lambda = this.getNumberParameter(node, 'lambda');
+      if (fetchK !== undefined) search['fetch_k'] = fetchK;
+      if (lambda !== undefined) search['lambda_mult'] = lambda;
+    }
+
+    return this.formatKwargs({
+      search_type: searchType === 'mmr' ? '"mmr"' : undefined,
+      search_kwargs:
+        Object.keys(search).length > 0 ? toPythonValue(search) : undefined,
+    });
+  }
+
+  private getStore(
+    node: IRNode,
+    context?: PythonConversionContext
+  ): FlowiseDocumentStore | undefined {
+    const storeId = this.getParameterValue<string>(node, 'selectedStore');
+    return storeId ? context?.documentStores?.[storeId] : undefined;
+  }
+
+  private getDirectoryName(
+    store: FlowiseDocumentStore | undefined,
+    storeId: string
+  ): string {
+    const name = (store?.name || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return name || storeId || 'default';
+  }
+
+  private getLoaders(
+    store: FlowiseDocumentStore | undefined
+  ): FlowiseDocumentStoreLoader[] {
+    const loaders = parseJsonField(store?.loaders);
+    return Array.isArray(loaders) ? loaders : [];
+  }
+
+  private getEmbeddingConfig(
+    store: FlowiseDocumentStore | undefined
+  ): { name: string; config?: Record<string, unknown> } | undefined {
+    return parseJsonField(store?.embeddingConfig) ?? undefined;
+  }
+
+  /**
+   * All loaders share the directory, so the first configured splitter wins
+   */
+  private getSplitter(loaders: FlowiseDocumentStoreLoader[]): {
+    className: string;
+    config: Record<string, unknown>;
+  } {
+    const loader = loaders.find(
+      (entry) => entry.splitterId && DOCUMENT_STORE_SPLITTERS[entry.splitterId]
+    );
+    const settings = loader?.splitterConfig || {};
+    const config: Record<string, unknown> = {
+      chunk_size: toNumber(settings['chunkSize']) ?? 1000,
+      chunk_overlap: toNumber(settings['chunkOverlap']) ?? 200,
+    };
+    if (typeof settings['separator'] === 'string' && settings['separator']) {
+      config['separator'] = settings['separator'];
+    }
+    if (
+      typeof settings['encodingName'] === 'string' &&
+      settings['encodingName']
+    ) {
+      config['encoding_name'] = settings['encodingName'];
+    }
+
+    return {
+      className: loader
+        ? DOCUMENT_STORE_SPLITTERS[loader.splitterId!]!
+        : 'RecursiveCharacterTextSplitter',
+      config,
+    };
+  }
+}
+
+function parseJsonField<T>(
+  value: T | string | null | undefined
+): T | undefined {
+  if (typeof value !== 'string') return value ?? undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === '' || value === null || value === undefined) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
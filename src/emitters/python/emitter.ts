@@ -0,0 +1,504 @@
+/**
+ * Python Code Emitter
+ *
+ * Generates a LangChain Python project from the IR: every node is converted
+ * by a Python converter into idiomatic langchain code, assembled into main.py
+ * with a run_workflow entry point, plus requirements.txt and pyproject.toml.
+ */
+
+import { IRGraphAnalyzer } from '../../ir/graph.js';
+import {
+  CodeFragment,
+  CodeGenerationResult,
+  GeneratedFile,
+  GenerationContext,
+  IRGraph,
+  IRNode,
+} from '../../ir/types.js';
+import { isAgentflowNodeType } from '../../registry/converters/agentflow-v2.js';
+
+import { AgentConverter } from './converters/agent-converter.js';
+import {
+  PythonConversionContext,
+  PythonNodeConverter,
+  toPythonName,
+} from './converters/base-converter.js';
+import { ChainConverter } from './converters/chain-converter.js';
+import { MemoryConverter } from './converters/memory-converter.js';
+import { ModelConverter } from './converters/model-converter.js';
+import { PromptConverter } from './converters/prompt-converter.js';
+import { RetrievalConverter } from './converters/retrieval-converter.js';
+
+export interface PythonEmitterOptions {
+  asyncAwait?: boolean;
+  typeHints?: boolean;
+}
+
+/**
+ * Version specifiers for the pip distributions generated code can use
+ */
+export const PYTHON_PACKAGE_VERSIONS: Record<string, string> = {
+  langchain: '>=0.3,<0.4',
+  'langchain-core': '>=0.3,<0.4',
+  'langchain-community': '>=0.3,<0.4',
+  'langchain-text-splitters': '>=0.3,<0.4',
+  'langchain-openai': '>=0.2,<0.4',
+  'langchain-anthropic': '>=0.2,<0.4',
+  'langchain-ollama': '>=0.2,<0.4',
+  'langchain-google-genai': '>=2.0,<3',
+  'langchain-mistralai': '>=0.2,<0.3',
+  'langchain-groq': '>=0.2,<0.4',
+  'langchain-cohere': '>=0.3,<0.5',
+  'langchain-pinecone': '>=0.2,<0.3',
+  'python-dotenv': '>=1.0',
+  langfuse: '>=2.0,<3',
+  pypdf: '>=4.0',
+  docx2txt: '>=0.8',
+  tiktoken: '>=0.7',
+  numexpr: '>=2.8',
+  'google-search-results': '>=2.4',
+};
+
+/**
+ * Environment variables read by the imported classes
+ */
+const ENVIRONMENT_VARIABLES: Record<string, string[]> = {
+  ChatOpenAI: ['OPENAI_API_KEY'],
+  OpenAI: ['OPENAI_API_KEY'],
+  OpenAIEmbeddings: ['OPENAI_API_KEY'],
+  AzureChatOpenAI: [
+    'AZURE_OPENAI_API_KEY',
+    'AZURE_OPENAI_ENDPOINT',
+    'OPENAI_API_VERSION',
+  ],
+  AzureOpenAIEmbeddings: [
+    'AZURE_OPENAI_API_KEY',
+    'AZURE_OPENAI_ENDPOINT',
+    'OPENAI_API_VERSION',
+  ],
+  ChatAnthropic: ['ANTHROPIC_API_KEY'],
+  ChatGoogleGenerativeAI: ['GOOGLE_API_KEY'],
+  GoogleGenerativeAIEmbeddings: ['GOOGLE_API_KEY'],
+  ChatMistralAI: ['MISTRAL_API_KEY'],
+  MistralAIEmbeddings: ['MISTRAL_API_KEY'],
+  ChatGroq: ['GROQ_API_KEY'],
+  CohereEmbeddings: ['COHERE_API_KEY'],
+  PineconeVectorStore: ['PINECONE_API_KEY'],
+  SerpAPIWrapper: ['SERPAPI_API_KEY'],
+  CallbackHandler: [
+    'LANGFUSE_PUBLIC_KEY',
+    'LANGFUSE_SECRET_KEY',
+    'LANGFUSE_HOST',
+  ],
+};
+
+/**
+ * Keys a chain, agent or model result may carry its answer under
+ */
+const OUTPUT_KEYS = ['output', 'answer', 'result', 'response', 'text'];
+
+export class PythonEmitter {
+  private options: Required<PythonEmitterOptions>;
+  private converters: PythonNodeConverter[];
+
+  constructor(options: PythonEmitterOptions = {}) {
+    this.options = {
+      asyncAwait: true,
+      typeHints: true,
+      ...options,
+    };
+    this.converters = [
+      new ModelConverter(),
+      new PromptConverter(),
+      new MemoryConverter(),
+      new ChainConverter(),
+      new RetrievalConverter(),
+      new AgentConverter(),
+    ];
+  }
+
+  /**
+   * Check if a node type has a Python converter
+   */
+  canConvert(node: IRNode): boolean {
+    return this.getConverter(node) !== undefined;
+  }
+
+  async generateCode(
+    graph: IRGraph,
+    context: GenerationContext
+  ): Promise<CodeGenerationResult> {
+    if (graph.nodes.some((node) => isAgentflowNodeType(node.type))) {
+      throw new Error(
+        'Python output does not support Agentflow V2 flows; generate TypeScript instead (use --langgraph to keep branches and loops)'
+      );
+    }
+
+    const pythonContext: PythonConversionContext = { ...context, graph };
+    const warnings: string[] = [];
+    const fragments: CodeFragment[] = [];
+    const dependencies = new Set(['langchain-core', 'python-dotenv']);
+    if (context.includeLangfuse) dependencies.add('langfuse');
+
+    for (const node of this.getOrderedNodes(graph)) {
+      const converter = this.getConverter(node);
+      if (!converter) {
+        warnings.push(
+          `No Python converter for ${node.type} (${node.id}); left as a TODO in main.py`
+        );
+        fragments.push(
+          this.createPlaceholder(node, `no Python converter for ${node.type}`)
+        );
+        continue;
+      }
+
+      try {
+        fragments.push(...converter.convert(node, pythonContext));
+        converter
+          .getDependencies(node, pythonContext)
+          .forEach((dependency) => dependencies.add(dependency));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`Failed to convert ${node.id} to Python: ${message}`);
+        fragments.push(this.createPlaceholder(node, message));
+      }
+    }
+
+    const exitNode = this.findExitNode(graph);
+    const mainPy = this.assembleMain(
+      fragments,
+      exitNode,
+      pythonContext,
+      graph.metadata?.name
+    );
+    const requirements = this.formatRequirements(dependencies);
+    const files: GeneratedFile[] = [
+      this.createFile('main.py', mainPy, 'main', ['run_workflow', 'main']),
+      this.createFile('requirements.txt', `${requirements.join('\n')}\n`),
+      this.createFile(
+        'pyproject.toml',
+        this.generatePyproject(context, requirements)
+      ),
+      this.createFile('.env.example', this.generateEnvFile(fragments)),
+      this.createFile('README.md', this.generateReadme(context)),
+    ];
+
+    const dependencyRecord = Object.fromEntries(
+      Array.from(dependencies)
+        .sort()
+        .map((name) => [name, PYTHON_PACKAGE_VERSIONS[name] ?? ''])
+    );
+
+    return {
+      files,
+      dependencies: dependencyRecord,
+      metadata: {
+        projectName: context.projectName || 'langchain-workflow',
+        targetLanguage: 'python',
+        langchainVersion: PYTHON_PACKAGE_VERSIONS['langchain']!,
+        generatedAt: new Date().toISOString(),
+        totalNodes: graph.nodes.length,
+        totalConnections: graph.connections.length,
+        estimatedComplexity: graph.analysis?.complexity || 'simple',
+        features: this.options.asyncAwait ? ['async', 'cli'] : ['cli'],
+        warnings,
+      },
+      scripts: {
+        start: 'python main.py',
+        install: 'pip install -r requirements.txt',
+      },
+      packageInfo: {
+        name: this.getDistributionName(context),
+        version: '1.0.0',
+        description: 'LangChain workflow converted from Flowise',
+        main: 'main.py',
+        dependencies: dependencyRecord,
+      },
+    };
+  }
+
+  private getConverter(node: IRNode): PythonNodeConverter | undefined {
+    return this.converters.find((converter) => converter.canConvert(node));
+  }
+
+  /**
+   * Nodes in dependency order, so every variable is defined before use
+   */
+  private getOrderedNodes(graph: IRGraph): IRNode[] {
+    const { sorted, isAcyclic } = IRGraphAnalyzer.topologicalSort(graph);
+    if (!isAcyclic) return graph.nodes;
+
+    return sorted
+      .map((id) => graph.nodes.find((node) => node.id === id))
+      .filter((node): node is IRNode => node !== undefined);
+  }
+
+  /**
+   * The node run_workflow invokes: the exit point that takes user input,
+   * preferring chains and agents
+   */
+  private findExitNode(graph: IRGraph): IRNode | undefined {
+    const exitIds =
+      graph.analysis?.exitPoints ??
+      graph.nodes
+        .filter((node) => !graph.connections.some((c) => c.source === node.id))
+        .map((node) => node.id);
+    const exits = graph.nodes.filter((node) => exitIds.includes(node.id));
+
+    return (
+      exits.find((node) => this.getConverter(node)?.getInputKey) ??
+      exits.find((node) => this.canConvert(node)) ??
+      exits[0]
+    );
+  }
+
+  private createPlaceholder(node: IRNode, reason: string): CodeFragment {
+    return {
+      id: `${node.id}_declaration`,
+      type: 'declaration',
+      content: [
+        `# TODO: ${node.label} (${node.type}): ${reason}`,
+        `${toPythonName(node.id)} = None`,
+      ].join('\n'),
+      dependencies: [],
+      language: 'python',
+      metadata: { nodeId: node.id, order: 50, category: 'declarations' },
+    };
+  }
+
+  private assembleMain(
+    fragments: CodeFragment[],
+    exitNode: IRNode | undefined,
+    context: PythonConversionContext,
+    flowName?: string
+  ): string {
+    const asyncAwait = this.options.asyncAwait;
+    const hint = (annotation: string) =>
+      this.options.typeHints ? annotation : '';
+
+    const standardImports = ['import sys'];
+    if (asyncAwait) standardImports.unshift('import asyncio');
+    if (this.options.typeHints) standardImports.push('from typing import Any');
+
+    const importFragments = fragments.filter((f) => f.type === 'import');
+    importFragments.push(
+      {
+        id: 'dotenv',
+        type: 'import',
+        content: 'from dotenv import load_dotenv',
+        dependencies: [],
+        language: 'python',
+      },
+      {
+        id: 'messages',
+        type: 'import',
+        content: 'from langchain_core.messages import BaseMessage',
+        dependencies: [],
+        language: 'python',
+      }
+    );
+    if (context.includeLangfuse) {
+      importFragments.push({
+        id: 'langfuse',
+        type: 'import',
+        content: 'from langfuse.callback import CallbackHandler',
+        dependencies: ['langfuse'],
+        language: 'python',
+      });
+    }
+
+    const exitConverter = exitNode && this.getConverter(exitNode);
+    const inputKey = exitConverter?.getInputKey?.(exitNode!, context);
+    const runInput = inputKey
+      ? `{${JSON.stringify(inputKey)}: input_text}`
+      : 'input_text';
+    const runConfig = context.includeLangfuse
+      ? ', config={"callbacks": [CallbackHandler()]}'
+      : '';
+    const runCall = exitNode
+      ? `${asyncAwait ? 'await ' : ''}${toPythonName(exitNode.id)}.${asyncAwait ? 'ainvoke' : 'invoke'}(${runInput}${runConfig})`
+      : 'input_text';
+
+    const sections = [
+      [
+        '"""',
+        flowName || 'LangChain workflow',
+        '',
+        'Generated from a Flowise flow by flowise-to-langchain.',
+        '"""',
+      ].join('\n'),
+      standardImports.join('\n'),
+      this.mergeImports(importFragments).join('\n'),
+      'load_dotenv()',
+      ...fragments
+        .filter((f) => f.type === 'declaration')
+        .map((f) => f.content),
+      '',
+      [
+        `def _to_text(result${hint(': Any')})${hint(' -> str')}:`,
+        '    """Extract the answer text from a chain, agent or model result."""',
+        '    if isinstance(result, BaseMessage):',
+        '        return str(result.content)',
+        '    if isinstance(result, dict):',
+        `        for key in (${OUTPUT_KEYS.map((key) => JSON.stringify(key)).join(', ')}):`,
+        '            if key in result:',
+        '                return str(result[key])',
+        '    return str(result)',
+      ].join('\n'),
+      '',
+      [
+        `${asyncAwait ? 'async ' : ''}def run_workflow(input_text${hint(': str')})${hint(' -> str')}:`,
+        '    """Run the flow on a single input and return the answer."""',
+        ...(exitNode ? [] : ['    # TODO: the flow has no node to run']),
+        `    result = ${runCall}`,
+        '    return _to_text(result)',
+      ].join('\n'),
+      '',
+      [
+        `def main()${hint(' -> None')}:`,
+        '    """Command line entry point: python main.py "<input text>"."""',
+        '    if len(sys.argv) < 2:',
+        '        print(\'Usage: python main.py "<input text>"\')',
+        '        sys.exit(1)',
+        asyncAwait
+          ? '    print(asyncio.run(run_workflow(" ".join(sys.argv[1:]))))'
+          : '    print(run_workflow(" ".join(sys.argv[1:])))',
+      ].join('\n'),
+      '',
+      ['if __name__ == "__main__":', '    main()'].join('\n'),
+    ];
+
+    // Blank lines between sections; the '' entries add the second blank
+    // line PEP 8 wants around top-level functions
+    return `${sections.join('\n\n').replace(/\n{4,}/g, '\n\n\n')}\n`;
+  }
+
+  /**
+   * Merge `from module import name` fragments into one statement per
+   * module, sorted the way isort would
+   */
+  private mergeImports(fragments: CodeFragment[]): string[] {
+    const modules = new Map<string, Set<string>>();
+
+    for (const fragment of fragments) {
+      const match = fragment.content.match(/^from\s+(\S+)\s+import\s+(.+)$/);
+      if (!match) continue;
+
+      const names = modules.get(match[1]!) ?? new Set<string>();
+      match[2]!.split(',').forEach((name) => names.add(name.trim()));
+      modules.set(match[1]!, names);
+    }
+
+    return Array.from(modules.keys())
+      .sort()
+      .map((module) => {
+        const names = Array.from(modules.get(module)!).sort((a, b) =>
+          a.localeCompare(b, 'en', { caseFirst: 'upper' })
+        );
+        const statement = `from ${module} import ${names.join(', ')}`;
+        return statement.length <= 88
+          ? statement
+          : `from ${module} import (\n${names.map((name) => `    ${name},`).join('\n')}\n)`;
+      });
+  }
+
+  private formatRequirements(dependencies: Set<string>): string[] {
+    return Array.from(dependencies)
+      .sort()
+      .map((name) => `${name}${PYTHON_PACKAGE_VERSIONS[name] ?? ''}`);
+  }
+
+  private getDistributionName(context: GenerationContext): string {
+    return (
+      (context.projectName || 'langchain-workflow')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || 'langchain-workflow'
+    );
+  }
+
+  private generatePyproject(
+    context: GenerationContext,
+    requirements: string[]
+  ): string {
+    return `[build-system]
+requires = ["setuptools>=68"]
+build-backend = "setuptools.build_meta"
+
+[project]
+name = "${this.getDistributionName(context)}"
+version = "1.0.0"
+description = "LangChain workflow converted from Flowise"
+readme = "README.md"
+requires-python = ">=3.9"
+dependencies = [
+${requirements.map((requirement) => `    "${requirement}",`).join('\n')}
+]
+
+[project.scripts]
+run-workflow = "main:main"
+
+[tool.setuptools]
+py-modules = ["main"]
+`;
+  }
+
+  private generateEnvFile(fragments: CodeFragment[]): string {
+    const imported = fragments
+      .filter((f) => f.type === 'import')
+      .flatMap((f) => f.metadata?.imports ?? []);
+    const variables = new Set(
+      imported.flatMap((name) => ENVIRONMENT_VARIABLES[name] ?? [])
+    );
+
+    let content = '# Environment Variables\n';
+    content += '# Copy this file to .env and fill in your values\n\n';
+    for (const variable of variables) {
+      content += `${variable}=\n`;
+    }
+    return content;
+  }
+
+  private generateReadme(context: GenerationContext): string {
+    return `# ${context.projectName || 'LangChain Workflow'}
+
+LangChain Python project converted from a Flowise flow.
+
+## Setup
+
+\`\`\`bash
+python -m venv .venv && source .venv/bin/activate
+pip install -r requirements.txt
+cp .env.example .env  # then fill in your API keys
+\`\`\`
+
+## Usage
+
+\`\`\`bash
+python main.py "Your input text here"
+\`\`\`
+
+Or from Python:
+
+\`\`\`python
+${this.options.asyncAwait ? 'import asyncio\nfrom main import run_workflow\n\nprint(asyncio.run(run_workflow("Hello")))' : 'from main import run_workflow\n\nprint(run_workflow("Hello"))'}
+\`\`\`
+`;
+  }
+
+  private createFile(
+    path: string,
+    content: string,
+    type: GeneratedFile['type'] = 'config',
+    exports: string[] = []
+  ): GeneratedFile {
+    return {
+      path,
+      content,
+      type,
+      dependencies: [],
+      exports,
+      size: content.length,
+    };
+  }
+}
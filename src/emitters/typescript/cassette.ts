@@ -0,0 +1,279 @@
+/**
+ * Cassettes
+ *
+ * Generated projects can record the model, embedding and tool calls of a
+ * flow run to a cassette file and serve them back later, so a flow recorded
+ * once re-runs without network access. The cassette module patches the same
+ * classes the test harness fakes; requests are matched by a hash of their
+ * normalized form, and a replayed request that was never recorded fails
+ * instead of reaching the network.
+ */
+
+import { credentialVariables } from '../../ir/credentials.js';
+import type {
+  GeneratedFile,
+  GenerationContext,
+  IRGraph,
+} from '../../ir/types.js';
+
+import { findFakeTargets, type FakeTarget } from './test-harness.js';
+
+/**
+ * Path of the cassette module in a generated project
+ */
+export const CASSETTE_MODULE_FILE = 'src/cassette.ts';
+
+/**
+ * Environment variables selecting the cassette file and what to do with it
+ */
+export const CASSETTE_ENV = 'FLOWISE_CASSETTE';
+export const CASSETTE_MODE_ENV = 'FLOWISE_CASSETTE_MODE';
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * A recorded call, as stored in a cassette file
+ */
+export interface CassetteInteraction {
+  hash: string;
+  kind: FakeTarget['kind'];
+  className: string;
+  request: unknown;
+  response: unknown;
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * The cassette module of a generated project
+ */
+export function createCassetteFile(
+  graph: IRGraph,
+  files: GeneratedFile[],
+  context: Pick<GenerationContext, 'credentials'>
+): GeneratedFile {
+  const content = generateCassetteModule(
+    graph.metadata?.name,
+    findFakeTargets(graph, files),
+    credentialVariables(graph, context.credentials)
+  );
+  return {
+    path: CASSETTE_MODULE_FILE,
+    content,
+    type: 'utils',
+    dependencies: [],
+    exports: ['cassetteMode', 'requestHash'],
+    size: content.length,
+  };
+}
+
+function generateCassetteModule(
+  flowName: string | undefined,
+  targets: FakeTarget[],
+  credentials: string[]
+): string {
+  const modules = new Map<string, string[]>();
+  for (const target of targets) {
+    const names = modules.get(target.module) ?? [];
+    modules.set(target.module, [...names, target.className]);
+  }
+  const imports = [...modules]
+    .map(
+      ([module, names]) => `import { ${names.join(', ')} } from '${module}';`
+    )
+    .join('\n');
+
+  const install = targets
+    .map((t) => {
+      const patch = {
+        model: 'cassetteModel',
+        embeddings: 'cassetteEmbeddings',
+        tool: 'cassetteTool',
+      }[t.kind];
+      return `  ${patch}(${t.className}, '${t.className}');`;
+    })
+    .join('\n');
+
+  return `/**
+ * Cassette for ${flowName || 'the generated flow'}
+ * Generated by flowise-to-langchain
+ *
+ * With ${CASSETTE_ENV}=<file>, the model, embedding and tool calls of the
+ * flow are recorded to that file (${CASSETTE_MODE_ENV}=record) or served
+ * back from it (replay, the default) by a hash of the normalized request.
+ * Replay never reaches the network. Import this module before the flow.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseLLM } from '@langchain/core/language_models/llms';
+import {
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+  type BaseMessage,
+} from '@langchain/core/messages';
+${imports}
+
+type Kind = 'model' | 'embeddings' | 'tool';
+
+interface Interaction {
+  hash: string;
+  kind: Kind;
+  className: string;
+  request: unknown;
+  response: any;
+}
+
+const file = process.env.${CASSETTE_ENV};
+
+/**
+ * What the cassette does in this process, if anything
+ */
+export const cassetteMode: 'record' | 'replay' | undefined = file
+  ? process.env.${CASSETTE_MODE_ENV} === 'record'
+    ? 'record'
+    : 'replay'
+  : undefined;
+
+const interactions: Interaction[] =
+  cassetteMode === 'replay'
+    ? JSON.parse(readFileSync(file!, 'utf8')).interactions
+    : [];
+const served = new Map<string, number>();
+
+/**
+ * Hash of a request with whitespace collapsed and object keys sorted
+ */
+export function requestHash(kind: Kind, className: string, request: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(normalize({ kind, className, request })))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') return value.replace(/\\s+/g, ' ').trim();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+async function cassette<T>(
+  kind: Kind,
+  className: string,
+  request: unknown,
+  call: () => Promise<T>,
+  save: (response: T) => unknown,
+  load: (saved: any) => T
+): Promise<T> {
+  const hash = requestHash(kind, className, request);
+
+  if (cassetteMode === 'record') {
+    const response = await call();
+    interactions.push({ hash, kind, className, request, response: save(response) });
+    writeFileSync(file!, JSON.stringify({ version: 1, interactions }, null, 2));
+    return response;
+  }
+
+  // The same request may have been recorded more than once; serve in order
+  const recorded = interactions.filter((i) => i.hash === hash);
+  if (recorded.length === 0) {
+    throw new Error(
+      \`No \${kind} call to \${className} with request \${hash} in \${file}; record the cassette again\`
+    );
+  }
+  const turn = served.get(hash) ?? 0;
+  served.set(hash, turn + 1);
+  return load(recorded[Math.min(turn, recorded.length - 1)]!.response);
+}
+
+const messageRequest = (messages: BaseMessage[]) =>
+  messages.map((m) => ({ role: m._getType(), content: m.content }));
+
+function cassetteModel(model: { prototype: any }, className: string): void {
+  const prototype = model.prototype;
+  const generate = prototype._generate;
+
+  if (prototype instanceof BaseChatModel) {
+    // Streamed responses would bypass the cassette
+    prototype._streamResponseChunks = (BaseChatModel.prototype as any)._streamResponseChunks;
+    prototype._generate = function (this: any, messages: BaseMessage[], ...rest: unknown[]) {
+      return cassette(
+        'model',
+        className,
+        { model: this.model ?? this.modelName, messages: messageRequest(messages) },
+        () => generate.call(this, messages, ...rest),
+        (result: any) => ({
+          generations: result.generations.map((g: any) => ({
+            text: g.text,
+            message: mapChatMessagesToStoredMessages([g.message])[0],
+          })),
+          llmOutput: result.llmOutput,
+        }),
+        (saved) => ({
+          generations: saved.generations.map((g: any) => ({
+            text: g.text,
+            message: mapStoredMessagesToChatMessages([g.message])[0],
+          })),
+          llmOutput: saved.llmOutput,
+        })
+      );
+    };
+  } else if (prototype instanceof BaseLLM) {
+    prototype._streamResponseChunks = (BaseLLM.prototype as any)._streamResponseChunks;
+    prototype._generate = function (this: any, prompts: string[], ...rest: unknown[]) {
+      return cassette(
+        'model',
+        className,
+        { model: this.model ?? this.modelName, prompts },
+        () => generate.call(this, prompts, ...rest),
+        (result: any) => result,
+        (saved) => saved
+      );
+    };
+  }
+}
+
+function cassetteEmbeddings(embeddings: { prototype: any }, className: string): void {
+  const { embedQuery, embedDocuments } = embeddings.prototype;
+  embeddings.prototype.embedQuery = function (this: any, text: string) {
+    return cassette('embeddings', className, { text }, () => embedQuery.call(this, text), (r) => r, (s) => s);
+  };
+  embeddings.prototype.embedDocuments = function (this: any, texts: string[]) {
+    return cassette('embeddings', className, { texts }, () => embedDocuments.call(this, texts), (r) => r, (s) => s);
+  };
+}
+
+function cassetteTool(tool: { prototype: any }, className: string): void {
+  const call = tool.prototype._call;
+  tool.prototype._call = function (this: any, input: unknown, ...rest: unknown[]) {
+    return cassette('tool', className, { name: this.name, input }, () => call.call(this, input, ...rest), (r) => r, (s) => s);
+  };
+}
+
+if (cassetteMode) {
+  if (cassetteMode === 'replay') {
+    // Clients check for their credentials when they are constructed
+    for (const name of ${JSON.stringify(credentials)} as string[]) {
+      process.env[name] ??= 'replayed';
+    }
+  }
+
+${install}
+}
+`;
+}
@@ -0,0 +1,286 @@
+/**
+ * Compilation Check for Generated TypeScript
+ *
+ * Type-checks a generated project in memory with the TypeScript compiler API
+ * against the bundled LangChain type stubs, and maps each diagnostic back to
+ * the IR node whose fragment produced the offending line.
+ */
+
+import { dirname } from 'path';
+
+import type * as TypeScript from 'typescript';
+
+import type { GeneratedFile, NodeId } from '../../ir/types.js';
+
+import {
+  createTypeStubDeclarations,
+  hasTypeStub,
+  isNodeBuiltinModule,
+} from './type-stubs.js';
+
+/**
+ * A compiler diagnostic located in a generated file
+ */
+export interface CompilationDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  category: 'error' | 'warning';
+  message: string;
+  /** IR node that produced the offending line, when known */
+  nodeId?: NodeId;
+}
+
+/**
+ * Result of type-checking a generated project
+ */
+export interface CompilationCheckResult {
+  success: boolean;
+  diagnostics: CompilationDiagnostic[];
+  /** Imported modules without bundled stubs, checked as untyped */
+  uncheckedModules: string[];
+  checkedFiles: string[];
+}
+
+const PROJECT_ROOT = '/project';
+const STUBS_FILE = `${PROJECT_ROOT}/langchain-stubs.d.ts`;
+const SOURCE_FILE_PATTERN = /\.[cm]?tsx?$/;
+
+// Lib files are the bulk of every check, so they are parsed once per process
+const libSourceFiles = new Map<string, TypeScript.SourceFile>();
+
+/**
+ * In-memory type checker for generated TypeScript projects
+ */
+export class CompilationChecker {
+  /**
+   * Type-check the TypeScript files of a generated project
+   */
+  async check(files: GeneratedFile[]): Promise<CompilationCheckResult> {
+    const { default: ts } = await import('typescript');
+
+    const sources = files.filter((f) => SOURCE_FILE_PATTERN.test(f.path));
+    const uncheckedModules = this.findUncheckedModules(ts, sources);
+
+    const virtualFiles = new Map<string, string>(
+      sources.map((f) => [`${PROJECT_ROOT}/${f.path}`, f.content])
+    );
+    virtualFiles.set(STUBS_FILE, createTypeStubDeclarations(uncheckedModules));
+
+    const options: TypeScript.CompilerOptions = {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ['lib.es2022.d.ts'],
+      types: [],
+      strict: true,
+      // Untyped stubs give callbacks no contextual type to infer from
+      noImplicitAny: false,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true,
+    };
+
+    const program = ts.createProgram(
+      [...virtualFiles.keys()],
+      options,
+      this.createHost(ts, options, virtualFiles)
+    );
+
+    const diagnostics = ts
+      .getPreEmitDiagnostics(program)
+      .map((diagnostic) => this.toDiagnostic(ts, diagnostic, sources))
+      .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+    return {
+      success: diagnostics.every((d) => d.category !== 'error'),
+      diagnostics,
+      uncheckedModules,
+      checkedFiles: sources.map((f) => f.path),
+    };
+  }
+
+  /**
+   * Non-relative imports that neither the stubs nor Node provide
+   */
+  private findUncheckedModules(
+    ts: typeof TypeScript,
+    sources: GeneratedFile[]
+  ): string[] {
+    const modules = new Set<string>();
+    for (const file of sources) {
+      for (const { fileName } of ts.preProcessFile(file.content)
+        .importedFiles) {
+        if (
+          !fileName.startsWith('.') &&
+          !hasTypeStub(fileName) &&
+          !isNodeBuiltinModule(fileName)
+        ) {
+          modules.add(fileName);
+        }
+      }
+    }
+    return [...modules].sort();
+  }
+
+  private createHost(
+    ts: typeof TypeScript,
+    options: TypeScript.CompilerOptions,
+    virtualFiles: Map<string, string>
+  ): TypeScript.CompilerHost {
+    const libDirectory = dirname(ts.getDefaultLibFilePath(options));
+    const isLibFile = (fileName: string) => fileName.startsWith(libDirectory);
+
+    return {
+      getSourceFile: (fileName, languageVersion) => {
+        const content = virtualFiles.get(fileName);
+        if (content !== undefined) {
+          return ts.createSourceFile(fileName, content, languageVersion, true);
+        }
+        if (!isLibFile(fileName)) return undefined;
+
+        let sourceFile = libSourceFiles.get(fileName);
+        if (!sourceFile) {
+          const libContent = ts.sys.readFile(fileName);
+          if (libContent === undefined) return undefined;
+          sourceFile = ts.createSourceFile(
+            fileName,
+            libContent,
+            languageVersion
+          );
+          libSourceFiles.set(fileName, sourceFile);
+        }
+        return sourceFile;
+      },
+      getDefaultLibFileName: (opts) => ts.getDefaultLibFilePath(opts),
+      getDefaultLibLocation: () => libDirectory,
+      writeFile: () => {},
+      getCurrentDirectory: () => PROJECT_ROOT,
+      getCanonicalFileName: (fileName) => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: (fileName) =>
+        virtualFiles.has(fileName) ||
+        (isLibFile(fileName) && ts.sys.fileExists(fileName)),
+      readFile: (fileName) =>
+        virtualFiles.get(fileName) ??
+        (isLibFile(fileName) ? ts.sys.readFile(fileName) : undefined),
+      directoryExists: (directory) =>
+        [...virtualFiles.keys()].some((f) => f.startsWith(`${directory}/`)),
+      getDirectories: () => [],
+    };
+  }
+
+  private toDiagnostic(
+    ts: typeof TypeScript,
+    diagnostic: TypeScript.Diagnostic,
+    sources: GeneratedFile[]
+  ): CompilationDiagnostic {
+    const message = ts.flattenDiagnosticMessageText(
+      diagnostic.messageText,
+      '\n'
+    );
+    const category =
+      diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning';
+
+    if (!diagnostic.file || diagnostic.start === undefined) {
+      return {
+        file: '',
+        line: 0,
+        column: 0,
+        code: diagnostic.code,
+        category,
+        message,
+      };
+    }
+
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+      diagnostic.start
+    );
+    const path = diagnostic.file.fileName.slice(PROJECT_ROOT.length + 1);
+    const source = sources.find((f) => f.path === path);
+
+    return {
+      file: path,
+      line: line + 1,
+      column: character + 1,
+      code: diagnostic.code,
+      category,
+      message,
+      nodeId: source
+        ? this.findNodeId(ts, diagnostic, source, line + 1)
+        : undefined,
+    };
+  }
+
+  /**
+   * Node whose region covers the line. Shared imports belong to no region,
+   * so they are attributed to the first node that uses an imported binding
+   */
+  private findNodeId(
+    ts: typeof TypeScript,
+    diagnostic: TypeScript.Diagnostic,
+    source: GeneratedFile,
+    line: number
+  ): NodeId | undefined {
+    const regions = source.nodeRegions ?? [];
+    const region = regions.find(
+      (r) => r.startLine <= line && line <= r.endLine
+    );
+    if (region) return region.nodeId;
+
+    const sourceFile = diagnostic.file!;
+    const declaration = sourceFile.statements.find(
+      (statement): statement is TypeScript.ImportDeclaration =>
+        ts.isImportDeclaration(statement) &&
+        statement.getStart(sourceFile) <= diagnostic.start! &&
+        diagnostic.start! < statement.getEnd()
+    );
+    const clause = declaration?.importClause;
+    if (!clause) return undefined;
+
+    const bindings = [
+      clause.name?.text,
+      ...(clause.namedBindings && ts.isNamedImports(clause.namedBindings)
+        ? clause.namedBindings.elements.map((e) => e.name.text)
+        : [clause.namedBindings?.name.text]),
+    ].filter((name): name is string => Boolean(name));
+    const flagged = sourceFile.text.slice(
+      diagnostic.start,
+      diagnostic.start! + (diagnostic.length ?? 0)
+    );
+    const names = bindings.includes(flagged) ? [flagged] : bindings;
+
+    const lines = source.content.split('\n');
+    return regions.find((r) =>
+      lines
+        .slice(r.startLine - 1, r.endLine)
+        .some((text) =>
+          names.some((name) => new RegExp(`\\b${name}\\b`).test(text))
+        )
+    )?.nodeId;
+  }
+}
+
+/**
+ * Format a diagnostic the way tsc prints it, tagged with its IR node
+ */
+export function formatCompilationDiagnostic(
+  diagnostic: CompilationDiagnostic
+): string {
+  const location = diagnostic.file
+    ? `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - `
+    : '';
+  const node = diagnostic.nodeId ? ` [node ${diagnostic.nodeId}]` : '';
+  return `${location}${diagnostic.category} TS${diagnostic.code}: ${diagnostic.message}${node}`;
+}
+
+/**
+ * Quick compilation check utility function
+ */
+export async function checkGeneratedCode(
+  files: GeneratedFile[]
+): Promise<CompilationCheckResult> {
+  return new CompilationChecker().check(files);
+}
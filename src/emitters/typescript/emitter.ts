@@ -10,17 +10,56 @@
  * - Code formatting and organization
  */
 
+import {
+  bindCredentials,
+  checkSecretsBackend,
+  collectEnvVariables,
+  credentialImports,
+  resolveSecretsBackend,
+} from '../../ir/credentials.js';
 import {
   IRGraph,
   IRNode,
   CodeFragment,
   GenerationContext,
+  GeneratedNodeRegion,
   NodeId,
 } from '../../ir/types.js';
-import { ImportManager } from './import-manager.js';
-import { TemplateEngine } from './template-engine.js';
+import { ConverterFactory } from '../../registry/registry.js';
+
+import { createCassetteFile } from './cassette.js';
 import { CodeFormatter } from './code-formatter.js';
+import { ImportManager } from './import-manager.js';
+import {
+  getDependencyVersion,
+  getLangChainPackage,
+  getLangChainPackageVersion,
+  resolveLangChainTarget,
+  selectLangChainTarget,
+} from './langchain-versions.js';
 import { LangFuseIntegrator } from './langfuse-integrator.js';
+import {
+  createGenerationManifest,
+  createManifestFile,
+  withUserRegion,
+} from './regeneration.js';
+import {
+  SECRETS_STAND_IN_FILE,
+  createSecretsFiles,
+  findSecretReads,
+} from './secrets.js';
+import {
+  createNodeSourceMap,
+  createSourceMapFile,
+  findNodeRegions,
+  wrapNodeRegion,
+} from './source-map.js';
+import { TemplateEngine } from './template-engine.js';
+import {
+  TEST_DEV_DEPENDENCIES,
+  TEST_SCRIPT,
+  createTestHarnessFiles,
+} from './test-harness.js';
 
 /**
  * Code generation result
@@ -63,6 +102,7 @@ export interface GeneratedFile {
   dependencies: string[];
   exports: string[];
   size: number;
+  nodeRegions?: GeneratedNodeRegion[];
 }
 
 /**
@@ -104,8 +144,29 @@ export class TypeScriptEmitter {
     // Validate inputs
     this.validateInputs(graph, context);
 
+    // Converters and files below see the secrets backend actually in use,
+    // and the release line the flow's packages need when none is asked for
+    context = {
+      ...context,
+      secretsBackend: resolveSecretsBackend(graph, context),
+      environment: {
+        ...context.environment,
+        langchainVersion:
+          context.environment.langchainVersion ??
+          selectLangChainTarget(
+            ConverterFactory.getRegistry().getAllDependencies(
+              graph.nodes,
+              context
+            )
+          ),
+      },
+    };
+
     // Initialize generation context
     this.importManager.reset();
+    this.importManager.setTarget(
+      resolveLangChainTarget(context.environment.langchainVersion)
+    );
     this.templateEngine.setContext(context);
 
     // Generate code fragments
@@ -117,8 +178,13 @@ export class TypeScriptEmitter {
     // Generate files
     const files = await this.generateFiles(organizedFragments, graph, context);
 
-    // Calculate metadata
-    const metadata = this.calculateMetadata(graph, files, context);
+    // Calculate metadata, with the problems converters reported
+    const metadata = {
+      ...this.calculateMetadata(graph, files, context),
+      warnings: fragments.flatMap(
+        (fragment) => fragment.metadata?.warnings ?? []
+      ),
+    };
 
     // Extract dependencies and create return structure
     const allDependencies = this.extractDependencies(
@@ -155,10 +221,21 @@ export class TypeScriptEmitter {
       const converter = this.getNodeConverter(node);
 
       if (converter) {
-        const nodeFragments = converter.convert(node, context);
-
-        // Add order metadata
+        const nodeFragments = bindCredentials(
+          converter.convert(node, context),
+          node,
+          context
+        );
+
+        // Add order metadata and mark the node's region in the output,
+        // with a user region for hand edits that survive regeneration
         nodeFragments.forEach((fragment, index) => {
+          if (fragment.type !== 'import') {
+            fragment.content = wrapNodeRegion(
+              withUserRegion(fragment.content, node.id),
+              node
+            );
+          }
           fragment.metadata = {
             ...fragment.metadata,
             nodeId: node.id,
@@ -185,6 +262,18 @@ export class TypeScriptEmitter {
       );
     }
 
+    // Credentials mapped to files or read through the secrets module
+    credentialImports(graph, context).forEach((content, index) => {
+      fragments.push({
+        id: `credentials_import_${index}`,
+        type: 'import',
+        content,
+        dependencies: [],
+        language: 'typescript',
+        metadata: { order: -1, category: 'credentials' },
+      });
+    });
+
     return fragments;
   }
 
@@ -230,8 +319,25 @@ export class TypeScriptEmitter {
   ): Promise<GeneratedFile[]> {
     const files: GeneratedFile[] = [];
 
-    // Generate main application file
-    files.push(await this.generateMainFile(organizedFragments, graph, context));
+    // Generate main application file and its node mapping
+    const mainFile = await this.generateMainFile(
+      organizedFragments,
+      graph,
+      context
+    );
+    files.push(mainFile);
+    files.push(createSourceMapFile(createNodeSourceMap([mainFile], graph)));
+
+    if (context.secretsBackend) {
+      const secretNames = findSecretReads(mainFile.content);
+      checkSecretsBackend(graph, secretNames, context);
+      files.push(...createSecretsFiles(context.secretsBackend, secretNames));
+    }
+
+    // Record/replay of model and tool calls, which the tests can use too
+    if (context.cassettes || context.includeTests) {
+      files.push(createCassetteFile(graph, [mainFile], context));
+    }
 
     // Generate types file
     files.push(await this.generateTypesFile(graph, context));
@@ -245,13 +351,16 @@ export class TypeScriptEmitter {
     );
 
     // Generate environment file
-    files.push(await this.generateEnvironmentFile(graph, context));
+    files.push(await this.generateEnvironmentFile(graph, context, mainFile));
 
     // Generate tests if requested
     if (context.includeTests) {
-      files.push(...(await this.generateTestFiles(graph, context)));
+      files.push(...this.generateTestFiles(graph, context, mainFile));
     }
 
+    // Fragment hashes let re-conversion keep hand-edited code
+    files.push(createManifestFile(createGenerationManifest(files)));
+
     return files;
   }
 
@@ -306,6 +415,7 @@ export class TypeScriptEmitter {
       dependencies: this.extractFileDependencies(organizedFragments),
       exports: this.extractFileExports(organizedFragments),
       size: Buffer.byteLength(formattedContent, 'utf8'),
+      nodeRegions: findNodeRegions(formattedContent),
     };
   }
 
@@ -394,12 +504,17 @@ export class TypeScriptEmitter {
         start: 'node dist/index.js',
         dev: 'tsx src/index.ts',
         'type-check': 'tsc --noEmit',
+        ...(context.secretsBackend === 'http' && {
+          'secrets:stand-in': `tsx ${SECRETS_STAND_IN_FILE} secrets.json`,
+        }),
+        ...(context.includeTests && { test: TEST_SCRIPT }),
       },
       dependencies,
       devDependencies: {
         typescript: '^5.5.4',
         tsx: '^4.16.5',
         '@types/node': '^20.14.15',
+        ...(context.includeTests && TEST_DEV_DEPENDENCIES),
       },
       engines: {
         node: '>=18.0.0',
@@ -422,14 +537,15 @@ export class TypeScriptEmitter {
    */
   private async generateEnvironmentFile(
     graph: IRGraph,
-    _context: GenerationContext
+    context: GenerationContext,
+    mainFile: GeneratedFile
   ): Promise<GeneratedFile> {
-    const envVars = this.extractEnvironmentVariables(graph);
+    const envVars = collectEnvVariables(graph, mainFile.content, context);
 
     const content = envVars
       .map(
         (variable) =>
-          `# ${variable.description}\n${variable.name}=${variable.example || ''}`
+          `# ${variable.description}\n${variable.name}=${variable.example}`
       )
       .join('\n\n');
 
@@ -444,35 +560,14 @@ export class TypeScriptEmitter {
   }
 
   /**
-   * Generate test files
+   * Generate test files that run the flow against scripted fakes
    */
-  private async generateTestFiles(
+  private generateTestFiles(
     graph: IRGraph,
-    context: GenerationContext
-  ): Promise<GeneratedFile[]> {
-    const testFiles: GeneratedFile[] = [];
-
-    // Generate main test file
-    const mainTestContent = this.templateEngine.renderTemplate('mainTest', {
-      projectName: context.projectName,
-      graphName: graph.metadata.name,
-      hasLangfuse: context.includeLangfuse,
-    });
-
-    const formattedTestContent = await this.codeFormatter.format(
-      mainTestContent,
-      'typescript'
-    );
-    testFiles.push({
-      path: 'src/__tests__/index.test.ts',
-      content: formattedTestContent,
-      type: 'test',
-      dependencies: [],
-      exports: [],
-      size: Buffer.byteLength(formattedTestContent, 'utf8'),
-    });
-
-    return testFiles;
+    context: GenerationContext,
+    mainFile: GeneratedFile
+  ): GeneratedFile[] {
+    return createTestHarnessFiles(graph, [mainFile], context, 'main');
   }
 
   // Helper methods
@@ -527,7 +622,11 @@ export class TypeScriptEmitter {
   }
 
   private getNodeConverter(node: IRNode): NodeConverter | undefined {
-    return this.nodeConverters.get(node.type);
+    // Fall back to the shared converter registry (e.g. Agentflow V2 nodes)
+    return (
+      this.nodeConverters.get(node.type) ??
+      ConverterFactory.getRegistry().getConverter(node.type)
+    );
   }
 
   private isAsyncNode(node: IRNode): boolean {
@@ -693,20 +792,28 @@ export class TypeScriptEmitter {
     organizedFragments: Map<string, CodeFragment[]>,
     context: GenerationContext
   ): Record<string, string> {
+    const target = resolveLangChainTarget(context.environment.langchainVersion);
     const dependencies: Record<string, string> = {
       dotenv: '^16.4.5',
     };
 
-    // Core LangChain dependencies
-    dependencies['langchain'] = '^0.2.17';
-    dependencies['@langchain/core'] = '^0.2.30';
+    // Core LangChain dependencies, at the versions of the target release line
+    dependencies['langchain'] = getDependencyVersion('langchain', target);
+    dependencies['@langchain/core'] = getDependencyVersion(
+      '@langchain/core',
+      target
+    );
 
     // Extract dependencies from fragments
     for (const fragments of organizedFragments.values()) {
       for (const fragment of fragments) {
         for (const dep of fragment.dependencies) {
-          if (!dependencies[dep]) {
-            dependencies[dep] = this.getDefaultVersion(dep);
+          const packageName = getLangChainPackage(dep, target);
+          if (!dependencies[packageName]) {
+            dependencies[packageName] = getDependencyVersion(
+              packageName,
+              target
+            );
           }
         }
       }
@@ -717,78 +824,11 @@ export class TypeScriptEmitter {
       dependencies['langfuse'] = '^3.0.0';
     }
 
-    return dependencies;
-  }
-
-  private getDefaultVersion(packageName: string): string {
-    // Default versions for common packages
-    const versions: Record<string, string> = {
-      '@langchain/openai': '^0.2.7',
-      '@langchain/anthropic': '^0.2.0',
-      '@langchain/community': '^0.3.48',
-      'faiss-node': '^0.5.1',
-      'hnswlib-node': '^3.0.0',
-      chromadb: '^1.8.1',
-    };
-
-    return versions[packageName] || '^1.0.0';
-  }
-
-  private extractEnvironmentVariables(graph: IRGraph): Array<{
-    name: string;
-    description: string;
-    example?: string;
-    required: boolean;
-  }> {
-    const envVars: Array<{
-      name: string;
-      description: string;
-      example?: string;
-      required: boolean;
-    }> = [];
-
-    // Extract from node parameters
-    for (const node of graph.nodes || []) {
-      for (const param of node.parameters) {
-        if (param.type === 'credential') {
-          const envName = this.parameterToEnvName(param.name);
-          envVars.push({
-            name: envName,
-            description: param.description || `${param.name} for ${node.label}`,
-            example: this.getCredentialExample(param.name),
-            required: param.required || false,
-          });
-        }
-      }
+    if (context.secretsBackend === 'yaml') {
+      dependencies['yaml'] = '^2.5.0';
     }
 
-    // Common environment variables
-    envVars.push({
-      name: 'NODE_ENV',
-      description: 'Node environment (development, production, test)',
-      example: 'development',
-      required: false,
-    });
-
-    return envVars;
-  }
-
-  private parameterToEnvName(paramName: string): string {
-    return paramName
-      .replace(/([A-Z])/g, '_$1')
-      .toUpperCase()
-      .replace(/^_/, '');
-  }
-
-  private getCredentialExample(paramName: string): string {
-    const examples: Record<string, string> = {
-      openAIApiKey: 'sk-...',
-      anthropicApiKey: 'sk-ant-...',
-      pineconeApiKey: 'your-pinecone-api-key',
-      serpApiKey: 'your-serpapi-key',
-    };
-
-    return examples[paramName] || 'your-api-key-here';
+    return dependencies;
   }
 
   private calculateMetadata(
@@ -823,7 +863,10 @@ export class TypeScriptEmitter {
     return {
       projectName: context.projectName,
       targetLanguage: context.targetLanguage,
-      langchainVersion: context.environment.langchainVersion || '0.1.0',
+      langchainVersion: getLangChainPackageVersion(
+        'langchain',
+        resolveLangChainTarget(context.environment.langchainVersion)
+      )!.replace(/^\^/, ''),
       nodeVersion: context.environment.nodeVersion,
       generatedAt: new Date().toISOString(),
       totalNodes,
@@ -933,7 +976,7 @@ export class TypeScriptEmitter {
       start: 'node dist/index.js',
       dev: 'tsx src/index.ts',
       'type-check': 'tsc --noEmit',
-      test: context.includeTests ? 'jest' : 'echo "No tests configured"',
+      test: context.includeTests ? TEST_SCRIPT : 'echo "No tests configured"',
     };
   }
 
@@ -958,6 +1001,7 @@ export class TypeScriptEmitter {
         typescript: '^5.5.4',
         tsx: '^4.16.5',
         '@types/node': '^20.14.15',
+        ...(context.includeTests && TEST_DEV_DEPENDENCIES),
       },
     };
   }
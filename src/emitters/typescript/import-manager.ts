@@ -4,6 +4,12 @@
  * Handles import consolidation, deduplication, and organization for generated TypeScript code.
  */
 
+import {
+  DEFAULT_LANGCHAIN_TARGET,
+  getLangChainImportPath,
+  type LangChainTarget,
+} from './langchain-versions.js';
+
 export interface ImportStatement {
   from: string;
   named: string[];
@@ -25,6 +31,8 @@ export class ImportManager {
   private imports: Map<string, ImportStatement> = new Map();
   private typeImports: Map<string, ImportStatement> = new Map();
 
+  constructor(private target: LangChainTarget = DEFAULT_LANGCHAIN_TARGET) {}
+
   /**
    * Reset the import manager
    */
@@ -34,7 +42,15 @@ export class ImportManager {
   }
 
   /**
-   * Add an import statement
+   * Set the LangChain release line imports are resolved for
+   */
+  setTarget(target: LangChainTarget): void {
+    this.target = target;
+  }
+
+  /**
+   * Add an import statement; named imports of classes that moved between
+   * LangChain release lines are imported from the target's entrypoint
    */
   addImport(
     from: string,
@@ -44,17 +60,49 @@ export class ImportManager {
       namespace?: string;
       isType?: boolean;
     } = {}
+  ): void {
+    const named = Array.isArray(imported) ? imported : [imported];
+    const moved = named.filter(
+      (name) => getLangChainImportPath(name, from, this.target) !== from
+    );
+
+    for (const name of moved) {
+      this.addResolvedImport(
+        getLangChainImportPath(name, from, this.target),
+        [name],
+        { isType: options.isType }
+      );
+    }
+    if (
+      moved.length > 0 &&
+      moved.length === named.length &&
+      !options.default &&
+      !options.namespace
+    ) {
+      return;
+    }
+    this.addResolvedImport(
+      from,
+      named.filter((name) => !moved.includes(name)),
+      options
+    );
+  }
+
+  private addResolvedImport(
+    from: string,
+    imported: string[],
+    options: {
+      default?: string;
+      namespace?: string;
+      isType?: boolean;
+    }
   ): void {
     const targetMap = options.isType ? this.typeImports : this.imports;
     const existing = targetMap.get(from);
 
     if (existing) {
       // Merge with existing import
-      if (Array.isArray(imported)) {
-        existing.named.push(...imported);
-      } else {
-        existing.named.push(imported);
-      }
+      existing.named.push(...imported);
 
       if (options.default && !existing.default) {
         existing.default = options.default;
@@ -70,7 +118,7 @@ export class ImportManager {
       // Create new import
       targetMap.set(from, {
         from,
-        named: Array.isArray(imported) ? imported : [imported],
+        named: imported,
         default: options.default,
         namespace: options.namespace,
         type: options.isType ? 'type' : 'value',
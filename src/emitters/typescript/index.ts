@@ -27,6 +27,70 @@ export {
   type LangFuseConfig,
   type TraceMetadata,
 } from './langfuse-integrator.js';
+export {
+  CompilationChecker,
+  checkGeneratedCode,
+  formatCompilationDiagnostic,
+  type CompilationCheckResult,
+  type CompilationDiagnostic,
+} from './compile-check.js';
+export {
+  DEPRECATED_LANGCHAIN_APIS,
+  LangChainLinter,
+  formatLintWarning,
+  lintGeneratedCode,
+} from './langchain-lint.js';
+export {
+  DEFAULT_LANGCHAIN_TARGET,
+  LANGCHAIN_IMPORT_MAP,
+  LANGCHAIN_PACKAGE_VERSIONS,
+  LANGCHAIN_TARGETS,
+  mapLangChainImports,
+  resolveLangChainTarget,
+  selectLangChainTarget,
+  type LangChainTarget,
+} from './langchain-versions.js';
+export {
+  SOURCE_MAP_FILE,
+  createNodeSourceMap,
+  findNodeAtLine,
+  findNodeRegions,
+  loadNodeSourceMap,
+  translateStackTrace,
+  wrapNodeRegion,
+  type NodeSourceMap,
+  type NodeSourceMapEntry,
+} from './source-map.js';
+export {
+  MANIFEST_FILE,
+  createGenerationManifest,
+  loadGenerationManifest,
+  mergeGeneratedFiles,
+  withUserRegion,
+  type GenerationManifest,
+  type RegenerationConflict,
+  type RegenerationResult,
+} from './regeneration.js';
+export {
+  CASSETTE_MODULE_FILE,
+  createCassetteFile,
+  type Cassette,
+  type CassetteInteraction,
+  type CassetteMode,
+} from './cassette.js';
+export {
+  SECRETS_BACKENDS,
+  SECRETS_MODULE_FILE,
+  createSecretsFiles,
+  findSecretReads,
+} from './secrets.js';
+export {
+  TEST_HARNESS_FILE,
+  createTestHarnessFiles,
+  findFakeTargets,
+  type FakeResponses,
+  type FakeTarget,
+} from './test-harness.js';
 
 // Converters
 export { LLMConverter } from './converters/llm-converter.js';
@@ -0,0 +1,492 @@
+/**
+ * LangChain Lint for Generated TypeScript
+ *
+ * Walks the syntax tree of each generated file for problems specific to
+ * LangChain code that type-checking does not catch: deprecated classes,
+ * runnable calls left unawaited, node variables nothing uses, API keys
+ * written into the source, and package versions that do not fit the
+ * installed @langchain/core. Findings are validation warnings carrying a
+ * suggested replacement and the IR node whose region holds the line.
+ */
+
+import type * as TypeScript from 'typescript';
+
+import type {
+  GeneratedFile,
+  NodeId,
+  ValidationWarning,
+} from '../../ir/types.js';
+
+import { findLangChainTarget } from './langchain-versions.js';
+import { isNodeBuiltinModule } from './type-stubs.js';
+
+/**
+ * Deprecated LangChain classes and functions, with what replaces them
+ */
+export const DEPRECATED_LANGCHAIN_APIS: Record<string, string> = {
+  LLMChain:
+    'Compose the prompt and model with LCEL: prompt.pipe(model).pipe(new StringOutputParser())',
+  ConversationChain:
+    'Wrap an LCEL chain in RunnableWithMessageHistory from @langchain/core/runnables',
+  AgentExecutor:
+    'Use createReactAgent from @langchain/langgraph/prebuilt, which runs the agent loop as a graph',
+  initializeAgentExecutor:
+    'Create the agent with createToolCallingAgent and run it with createReactAgent from @langchain/langgraph/prebuilt',
+  initializeAgentExecutorWithOptions:
+    'Create the agent with createToolCallingAgent and run it with createReactAgent from @langchain/langgraph/prebuilt',
+  RetrievalQAChain:
+    'Use createRetrievalChain with createStuffDocumentsChain from langchain/chains',
+  ConversationalRetrievalQAChain:
+    'Use createHistoryAwareRetriever with createRetrievalChain from langchain/chains',
+  loadQAStuffChain: 'Use createStuffDocumentsChain from langchain/chains',
+  loadSummarizationChain:
+    'Summarize with an LCEL chain over createStuffDocumentsChain or a map-reduce graph',
+};
+
+/**
+ * Runnable methods that return promises
+ */
+const ASYNC_RUNNABLE_METHODS = new Set(['invoke', 'batch', 'stream']);
+
+/**
+ * Property names that hold secrets in LangChain constructor options
+ */
+const SECRET_PROPERTY = /(api_?key|token|secret|password)$/i;
+
+/**
+ * Values that look like real credentials of common providers
+ */
+const SECRET_VALUE =
+  /^(sk-[A-Za-z0-9_-]{20,}|sk-ant-[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35}|hf_[A-Za-z0-9]{30,}|gh[pousr]_[A-Za-z0-9]{36}|xox[abposr]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16}|pcsk_[A-Za-z0-9_]{20,})$/;
+
+/**
+ * Values generators and users put where a real key belongs
+ */
+const PLACEHOLDER_VALUE =
+  /^(|<.*>|your[_-].*|.*[_-]here|x+|\*+|test|dummy|placeholder|changeme)$/i;
+
+/**
+ * @langchain/core series each release line of a LangChain package is built
+ * against; packages at 0.0.x or 0.1.x follow core 0.2 and 0.3 respectively.
+ * Versions pinned by a target LangChain release line follow its core series
+ */
+const CORE_SERIES: Record<string, Record<string, string>> = {
+  langchain: { '0.2': '0.2', '0.3': '0.3' },
+  '@langchain/openai': {
+    '0.2': '0.2',
+    '0.3': '0.3',
+    '0.4': '0.3',
+    '0.5': '0.3',
+  },
+  '@langchain/anthropic': { '0.2': '0.2', '0.3': '0.3' },
+  '@langchain/community': { '0.2': '0.2', '0.3': '0.3' },
+  '@langchain/cohere': { '0.2': '0.2', '0.3': '0.3' },
+  '@langchain/langgraph': { '0.2': '0.2', '0.3': '0.3' },
+};
+const EARLY_CORE_SERIES: Record<string, string> = {
+  '0.0': '0.2',
+  '0.1': '0.3',
+};
+
+/**
+ * Analyze generated files for LangChain-specific problems
+ */
+export class LangChainLinter {
+  async lint(files: GeneratedFile[]): Promise<ValidationWarning[]> {
+    const { default: ts } = await import('typescript');
+
+    const warnings: ValidationWarning[] = [];
+    const imported = new Map<string, { file: string; line: number }>();
+
+    for (const file of files.filter((f) => /\.[cm]?tsx?$/.test(f.path))) {
+      const source = ts.createSourceFile(
+        file.path,
+        file.content,
+        ts.ScriptTarget.ES2022,
+        true
+      );
+      const at = (node: TypeScript.Node) => {
+        const line =
+          source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+        const nodeId = file.nodeRegions?.find(
+          (r) => r.startLine <= line && line <= r.endLine
+        )?.nodeId;
+        return { file: file.path, line, ...(nodeId && { nodeId }) };
+      };
+
+      for (const statement of source.statements) {
+        if (
+          ts.isImportDeclaration(statement) &&
+          ts.isStringLiteral(statement.moduleSpecifier)
+        ) {
+          const name = packageName(statement.moduleSpecifier.text);
+          if (name && !imported.has(name)) {
+            imported.set(name, at(statement));
+          }
+        }
+      }
+
+      warnings.push(
+        ...this.findDeprecatedApis(ts, source, at),
+        ...this.findMissingAwaits(ts, source, at),
+        ...this.findUnusedNodeVariables(ts, source, file, at),
+        ...this.findHardcodedSecrets(ts, source, at)
+      );
+    }
+
+    const manifest = files.find((f) => f.path === 'package.json');
+    if (manifest) {
+      warnings.push(...this.findVersionMismatches(manifest, imported));
+    }
+
+    return warnings.sort(
+      (a, b) =>
+        (a.file ?? '').localeCompare(b.file ?? '') ||
+        (a.line ?? 0) - (b.line ?? 0)
+    );
+  }
+
+  /**
+   * Deprecated classes constructed and functions called, when imported from
+   * a LangChain package
+   */
+  private findDeprecatedApis(
+    ts: typeof TypeScript,
+    source: TypeScript.SourceFile,
+    at: (node: TypeScript.Node) => Location
+  ): ValidationWarning[] {
+    const deprecated = new Map<string, string>();
+    for (const statement of source.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier) ||
+        !isLangChainModule(statement.moduleSpecifier.text)
+      ) {
+        continue;
+      }
+      const bindings = statement.importClause?.namedBindings;
+      if (!bindings || !ts.isNamedImports(bindings)) continue;
+      for (const element of bindings.elements) {
+        const original = (element.propertyName ?? element.name).text;
+        if (DEPRECATED_LANGCHAIN_APIS[original]) {
+          deprecated.set(element.name.text, original);
+        }
+      }
+    }
+    if (deprecated.size === 0) return [];
+
+    const warnings: ValidationWarning[] = [];
+    const visit = (node: TypeScript.Node): void => {
+      if (
+        (ts.isNewExpression(node) || ts.isCallExpression(node)) &&
+        ts.isIdentifier(node.expression)
+      ) {
+        const original = deprecated.get(node.expression.text);
+        if (original) {
+          warnings.push({
+            type: 'deprecated_api',
+            message: `${original} is deprecated in LangChain`,
+            suggestion: DEPRECATED_LANGCHAIN_APIS[original],
+            ...at(node),
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+    return warnings;
+  }
+
+  /**
+   * invoke, batch and stream calls whose promise is neither awaited,
+   * returned, chained nor handed on
+   */
+  private findMissingAwaits(
+    ts: typeof TypeScript,
+    source: TypeScript.SourceFile,
+    at: (node: TypeScript.Node) => Location
+  ): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+
+    const handled = (call: TypeScript.Expression): boolean => {
+      let node: TypeScript.Node = call;
+      while (ts.isParenthesizedExpression(node.parent)) node = node.parent;
+      const parent = node.parent;
+
+      if (
+        ts.isAwaitExpression(parent) ||
+        ts.isReturnStatement(parent) ||
+        ts.isArrowFunction(parent) ||
+        ts.isArrayLiteralExpression(parent) ||
+        ts.isYieldExpression(parent) ||
+        (ts.isCallExpression(parent) && parent.arguments.includes(node as any))
+      ) {
+        return true;
+      }
+      if (
+        ts.isPropertyAccessExpression(parent) &&
+        ['then', 'catch', 'finally'].includes(parent.name.text)
+      ) {
+        return true;
+      }
+      if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+        return this.isPromiseHandledLater(ts, parent.name);
+      }
+      return false;
+    };
+
+    const visit = (node: TypeScript.Node): void => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        ASYNC_RUNNABLE_METHODS.has(node.expression.name.text) &&
+        !handled(node)
+      ) {
+        const method = node.expression.name.text;
+        warnings.push({
+          type: 'missing_await',
+          message: `The promise from .${method}() is not awaited`,
+          suggestion: `Write await ${node.getText(source)}`,
+          ...at(node),
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+    return warnings;
+  }
+
+  /**
+   * Whether a variable holding a promise is awaited, returned or passed on
+   * somewhere in its scope
+   */
+  private isPromiseHandledLater(
+    ts: typeof TypeScript,
+    name: TypeScript.Identifier
+  ): boolean {
+    let scope: TypeScript.Node = name;
+    while (
+      scope.parent &&
+      !ts.isBlock(scope) &&
+      !ts.isSourceFile(scope) &&
+      !ts.isModuleBlock(scope)
+    ) {
+      scope = scope.parent;
+    }
+
+    let handled = false;
+    const visit = (node: TypeScript.Node): void => {
+      if (handled) return;
+      if (ts.isIdentifier(node) && node !== name && node.text === name.text) {
+        const parent = node.parent;
+        handled =
+          ts.isAwaitExpression(parent) ||
+          ts.isReturnStatement(parent) ||
+          ts.isArrayLiteralExpression(parent) ||
+          ts.isCallExpression(parent) ||
+          (ts.isPropertyAccessExpression(parent) &&
+            ['then', 'catch', 'finally'].includes(parent.name.text));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(scope);
+    return handled;
+  }
+
+  /**
+   * Top-level variables declared in a node region that nothing reads
+   */
+  private findUnusedNodeVariables(
+    ts: typeof TypeScript,
+    source: TypeScript.SourceFile,
+    file: GeneratedFile,
+    at: (node: TypeScript.Node) => Location
+  ): ValidationWarning[] {
+    if (!file.nodeRegions?.length) return [];
+
+    const references = new Map<string, number>();
+    const count = (node: TypeScript.Node): void => {
+      if (ts.isIdentifier(node)) {
+        references.set(node.text, (references.get(node.text) ?? 0) + 1);
+      }
+      ts.forEachChild(node, count);
+    };
+    count(source);
+
+    const warnings: ValidationWarning[] = [];
+    for (const statement of source.statements) {
+      if (
+        !ts.isVariableStatement(statement) ||
+        statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+      ) {
+        continue;
+      }
+
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue;
+        const location = at(declaration);
+        if (!location.nodeId) continue;
+
+        const name = declaration.name.text;
+        if ((references.get(name) ?? 0) <= 1) {
+          warnings.push({
+            type: 'unused_variable',
+            message: `${name} is created for node ${location.nodeId} but never used`,
+            suggestion:
+              'Connect the node to the flow in Flowise or remove it from the export',
+            ...location,
+          });
+        }
+      }
+    }
+    return warnings;
+  }
+
+  /**
+   * String literals that are real-looking credentials, or any literal value
+   * of a key, token or secret option
+   */
+  private findHardcodedSecrets(
+    ts: typeof TypeScript,
+    source: TypeScript.SourceFile,
+    at: (node: TypeScript.Node) => Location
+  ): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+
+    const visit = (node: TypeScript.Node): void => {
+      if (ts.isStringLiteralLike(node)) {
+        const value = node.text.trim();
+        const parent = node.parent;
+        const property =
+          parent &&
+          ts.isPropertyAssignment(parent) &&
+          parent.initializer === node &&
+          !ts.isComputedPropertyName(parent.name)
+            ? parent.name.getText(source).replace(/['"]/g, '')
+            : undefined;
+
+        if (
+          SECRET_VALUE.test(value) ||
+          (property &&
+            SECRET_PROPERTY.test(property) &&
+            !PLACEHOLDER_VALUE.test(value))
+        ) {
+          warnings.push({
+            type: 'hardcoded_secret',
+            message: `Hard-coded ${property ? `${property} ` : ''}credential ${maskSecret(value)} in generated code`,
+            suggestion:
+              'Read the key from an environment variable, or bind the Flowise credential with --credentials',
+            ...at(node),
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+    return warnings;
+  }
+
+  /**
+   * Imported packages missing from package.json, and LangChain packages
+   * built against another @langchain/core series than the declared one
+   */
+  private findVersionMismatches(
+    manifest: GeneratedFile,
+    imported: Map<string, Location>
+  ): ValidationWarning[] {
+    let pkg: {
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    try {
+      pkg = JSON.parse(manifest.content);
+    } catch {
+      return [];
+    }
+    const dependencies = { ...pkg.devDependencies, ...pkg.dependencies };
+    const warnings: ValidationWarning[] = [];
+
+    for (const [name, location] of imported) {
+      if (dependencies[name] || isNodeBuiltinModule(name)) continue;
+      warnings.push({
+        type: 'version_mismatch',
+        message: `${name} is imported but not listed in package.json`,
+        suggestion: `Add ${name} to the dependencies`,
+        ...location,
+      });
+    }
+
+    const core = releaseLine(dependencies['@langchain/core']);
+    if (!core) return warnings;
+
+    for (const [name, version] of Object.entries(dependencies)) {
+      const line = releaseLine(version);
+      if (!line || name === '@langchain/core') continue;
+
+      const series =
+        findLangChainTarget(name, version) ??
+        CORE_SERIES[name]?.[line] ??
+        (name.startsWith('@langchain/') ? EARLY_CORE_SERIES[line] : undefined);
+      if (series && series !== core) {
+        warnings.push({
+          type: 'version_mismatch',
+          message: `${name}@${version} is built for @langchain/core ${series}.x, but package.json has @langchain/core@${dependencies['@langchain/core']}`,
+          suggestion: `Align ${name} and @langchain/core on the ${series}.x release line`,
+          file: manifest.path,
+        });
+      }
+    }
+    return warnings;
+  }
+}
+
+type Location = { file: string; line: number; nodeId?: NodeId };
+
+/**
+ * Format a lint warning like a compiler diagnostic, tagged with its IR node
+ */
+export function formatLintWarning(warning: ValidationWarning): string {
+  const location = warning.file
+    ? `${warning.file}${warning.line ? `:${warning.line}` : ''} - `
+    : '';
+  const node = warning.nodeId ? ` [node ${warning.nodeId}]` : '';
+  const suggestion = warning.suggestion ? `. ${warning.suggestion}` : '';
+  return `${location}${warning.message}${node}${suggestion}`;
+}
+
+/**
+ * Quick LangChain lint utility function
+ */
+export async function lintGeneratedCode(
+  files: GeneratedFile[]
+): Promise<ValidationWarning[]> {
+  return new LangChainLinter().lint(files);
+}
+
+function packageName(specifier: string): string | undefined {
+  if (specifier.startsWith('.') || specifier.startsWith('/')) return undefined;
+  const parts = specifier.replace(/^node:/, '').split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function isLangChainModule(specifier: string): boolean {
+  return (
+    specifier === 'langchain' || /^(@langchain\/|langchain\/)/.test(specifier)
+  );
+}
+
+/**
+ * Major and minor of a version range, e.g. `0.2` for `^0.2.30`
+ */
+function releaseLine(version: string | undefined): string | undefined {
+  return version
+    ?.match(/(\d+)\.(\d+)/)
+    ?.slice(1, 3)
+    .join('.');
+}
+
+function maskSecret(value: string): string {
+  return value.length <= 8
+    ? "'****'"
+    : `'${value.slice(0, 4)}…${value.slice(-2)}'`;
+}
@@ -0,0 +1,325 @@
+/**
+ * LangChain Version Targeting
+ *
+ * Generated code can target a LangChain release line. Each line pins its own
+ * package versions, and some classes live under another entrypoint: 0.1 still
+ * re-exports integrations from `langchain/…`, which 0.2 moved to
+ * `@langchain/community/…` and `@langchain/textsplitters`. Converters write
+ * the 0.2 paths; imports are mapped to the target when code is assembled.
+ */
+
+/**
+ * LangChain release lines code can be generated for
+ */
+export type LangChainTarget = '0.1' | '0.2' | '0.3';
+
+export const LANGCHAIN_TARGETS: LangChainTarget[] = ['0.1', '0.2', '0.3'];
+
+export const DEFAULT_LANGCHAIN_TARGET: LangChainTarget = '0.2';
+
+/**
+ * Versions of the LangChain packages each release line is built from; every
+ * line pins @langchain/core at its own series
+ */
+export const LANGCHAIN_PACKAGE_VERSIONS: Record<
+  LangChainTarget,
+  Record<string, string>
+> = {
+  '0.1': {
+    langchain: '^0.1.37',
+    '@langchain/core': '^0.1.63',
+    '@langchain/openai': '^0.0.34',
+    '@langchain/anthropic': '^0.1.21',
+    '@langchain/community': '^0.0.57',
+    '@langchain/cohere': '^0.0.10',
+    '@langchain/google-genai': '^0.0.16',
+    '@langchain/mistralai': '^0.0.22',
+    '@langchain/groq': '^0.0.9',
+    '@langchain/google-vertexai': '^0.0.5',
+    '@langchain/langgraph': '^0.0.19',
+  },
+  '0.2': {
+    langchain: '^0.2.17',
+    '@langchain/core': '^0.2.30',
+    '@langchain/openai': '^0.2.7',
+    '@langchain/anthropic': '^0.2.7',
+    '@langchain/community': '^0.2.33',
+    '@langchain/textsplitters': '^0.0.3',
+    '@langchain/cohere': '^0.2.2',
+    '@langchain/google-genai': '^0.0.26',
+    '@langchain/mistralai': '^0.0.28',
+    '@langchain/ollama': '^0.0.4',
+    '@langchain/groq': '^0.0.17',
+    '@langchain/aws': '^0.0.10',
+    '@langchain/google-vertexai': '^0.0.27',
+    '@langchain/langgraph': '^0.2.3',
+  },
+  '0.3': {
+    langchain: '^0.3.30',
+    '@langchain/core': '^0.3.66',
+    '@langchain/openai': '^0.3.17',
+    '@langchain/anthropic': '^0.3.24',
+    '@langchain/community': '^0.3.50',
+    '@langchain/textsplitters': '^0.1.0',
+    '@langchain/cohere': '^0.3.4',
+    '@langchain/google-genai': '^0.2.16',
+    '@langchain/mistralai': '^0.2.1',
+    '@langchain/ollama': '^0.2.3',
+    '@langchain/groq': '^0.2.3',
+    '@langchain/aws': '^0.1.13',
+    '@langchain/deepseek': '^0.1.0',
+    '@langchain/google-vertexai': '^0.2.18',
+    '@langchain/langgraph': '^0.3.0',
+  },
+};
+
+/**
+ * Versions of the other packages generated code imports; packages not listed
+ * here are installed at their latest version
+ */
+const DEPENDENCY_VERSIONS: Record<string, string> = {
+  'faiss-node': '^0.5.1',
+  'hnswlib-node': '^3.0.0',
+  chromadb: '^1.8.1',
+  'pdf-parse': '^1.1.1',
+  mammoth: '^1.8.0',
+  'd3-dsv': '^2.0.0',
+  zod: '^3.23.8',
+};
+
+/**
+ * Packages a release line does not have, and the package providing their
+ * entrypoints instead
+ */
+const PACKAGE_REPLACEMENTS: Partial<
+  Record<LangChainTarget, Record<string, string>>
+> = {
+  '0.1': { '@langchain/textsplitters': 'langchain' },
+};
+
+const TEXT_SPLITTER_PATHS = {
+  '0.1': 'langchain/text_splitter',
+  '0.2': '@langchain/textsplitters',
+  '0.3': '@langchain/textsplitters',
+};
+
+/**
+ * Entrypoint of each class that moved between release lines
+ */
+export const LANGCHAIN_IMPORT_MAP: Record<
+  string,
+  Record<LangChainTarget, string>
+> = {
+  Calculator: {
+    '0.1': 'langchain/tools/calculator',
+    '0.2': '@langchain/community/tools/calculator',
+    '0.3': '@langchain/community/tools/calculator',
+  },
+  SerpAPI: {
+    '0.1': 'langchain/tools',
+    '0.2': '@langchain/community/tools/serpapi',
+    '0.3': '@langchain/community/tools/serpapi',
+  },
+  TextSplitter: TEXT_SPLITTER_PATHS,
+  CharacterTextSplitter: TEXT_SPLITTER_PATHS,
+  RecursiveCharacterTextSplitter: TEXT_SPLITTER_PATHS,
+  TokenTextSplitter: TEXT_SPLITTER_PATHS,
+  MarkdownTextSplitter: TEXT_SPLITTER_PATHS,
+  LatexTextSplitter: TEXT_SPLITTER_PATHS,
+  SupportedTextSplitterLanguages: TEXT_SPLITTER_PATHS,
+  PDFLoader: {
+    '0.1': 'langchain/document_loaders/fs/pdf',
+    '0.2': '@langchain/community/document_loaders/fs/pdf',
+    '0.3': '@langchain/community/document_loaders/fs/pdf',
+  },
+  CSVLoader: {
+    '0.1': 'langchain/document_loaders/fs/csv',
+    '0.2': '@langchain/community/document_loaders/fs/csv',
+    '0.3': '@langchain/community/document_loaders/fs/csv',
+  },
+  DocxLoader: {
+    '0.1': 'langchain/document_loaders/fs/docx',
+    '0.2': '@langchain/community/document_loaders/fs/docx',
+    '0.3': '@langchain/community/document_loaders/fs/docx',
+  },
+  CheerioWebBaseLoader: {
+    '0.1': 'langchain/document_loaders/web/cheerio',
+    '0.2': '@langchain/community/document_loaders/web/cheerio',
+    '0.3': '@langchain/community/document_loaders/web/cheerio',
+  },
+  FaissStore: {
+    '0.1': 'langchain/vectorstores/faiss',
+    '0.2': '@langchain/community/vectorstores/faiss',
+    '0.3': '@langchain/community/vectorstores/faiss',
+  },
+  HNSWLib: {
+    '0.1': 'langchain/vectorstores/hnswlib',
+    '0.2': '@langchain/community/vectorstores/hnswlib',
+    '0.3': '@langchain/community/vectorstores/hnswlib',
+  },
+  Chroma: {
+    '0.1': 'langchain/vectorstores/chroma',
+    '0.2': '@langchain/community/vectorstores/chroma',
+    '0.3': '@langchain/community/vectorstores/chroma',
+  },
+  Ollama: {
+    '0.1': 'langchain/llms/ollama',
+    '0.2': '@langchain/community/llms/ollama',
+    '0.3': '@langchain/community/llms/ollama',
+  },
+  HuggingFaceInference: {
+    '0.1': 'langchain/llms/hf',
+    '0.2': '@langchain/community/llms/hf',
+    '0.3': '@langchain/community/llms/hf',
+  },
+};
+
+/**
+ * Release line of a LangChain version such as `0.3`, `0.2.17` or `^0.1.0`;
+ * unset versions get the default line
+ */
+export function resolveLangChainTarget(version?: string): LangChainTarget {
+  if (!version) return DEFAULT_LANGCHAIN_TARGET;
+
+  const line = version.match(/^[\^~]?v?(\d+\.\d+)(\.|$)/)?.[1];
+  const target = LANGCHAIN_TARGETS.find((t) => t === line);
+  if (!target) {
+    throw new Error(
+      `Unsupported LangChain version '${version}': use one of ${LANGCHAIN_TARGETS.join(', ')}`
+    );
+  }
+  return target;
+}
+
+/**
+ * Package providing a dependency in a release line, for dependencies given
+ * as a package or one of its entrypoints
+ */
+export function getLangChainPackage(
+  dependency: string,
+  target: LangChainTarget
+): string {
+  const name = dependency.match(/^(@[^/]+\/)?[^/]+/)?.[0] ?? dependency;
+  return PACKAGE_REPLACEMENTS[target]?.[name] ?? name;
+}
+
+/**
+ * Version a release line pins a LangChain package at
+ */
+export function getLangChainPackageVersion(
+  packageName: string,
+  target: LangChainTarget
+): string | undefined {
+  return LANGCHAIN_PACKAGE_VERSIONS[target][packageName];
+}
+
+/**
+ * Version a generated project depends on a package at. LangChain packages
+ * must be pinned for the release line: a package a line does not have, such
+ * as @langchain/deepseek before 0.3, cannot be installed next to its
+ * @langchain/core, so the line is refused.
+ */
+export function getDependencyVersion(
+  packageName: string,
+  target: LangChainTarget
+): string {
+  const pinned = getLangChainPackageVersion(packageName, target);
+  if (pinned) return pinned;
+
+  if (/^(langchain|@langchain\/)/.test(packageName)) {
+    const targets = LANGCHAIN_TARGETS.filter(
+      (t) => LANGCHAIN_PACKAGE_VERSIONS[t][packageName]
+    );
+    throw new Error(
+      `${packageName} is not available for LangChain ${target}` +
+        (targets.length > 0
+          ? `: use --langchain-version ${targets.join(' or ')}`
+          : '')
+    );
+  }
+
+  return DEPENDENCY_VERSIONS[packageName] ?? 'latest';
+}
+
+/**
+ * Release line for code importing `dependencies` when none is asked for: the
+ * default line, or the first later one with every LangChain package they
+ * need, such as 0.3 for @langchain/deepseek
+ */
+export function selectLangChainTarget(dependencies: string[]): LangChainTarget {
+  const lines = LANGCHAIN_TARGETS.slice(
+    LANGCHAIN_TARGETS.indexOf(DEFAULT_LANGCHAIN_TARGET)
+  );
+  return (
+    lines.find((target) =>
+      dependencies
+        .map((dependency) => getLangChainPackage(dependency, target))
+        .every(
+          (name) =>
+            !/^(langchain|@langchain\/)/.test(name) ||
+            getLangChainPackageVersion(name, target)
+        )
+    ) ?? DEFAULT_LANGCHAIN_TARGET
+  );
+}
+
+/**
+ * Release line whose pinned version of a package is `version`
+ */
+export function findLangChainTarget(
+  packageName: string,
+  version: string
+): LangChainTarget | undefined {
+  return LANGCHAIN_TARGETS.find(
+    (target) => LANGCHAIN_PACKAGE_VERSIONS[target][packageName] === version
+  );
+}
+
+/**
+ * Entrypoint to import a name from in a release line; names imported from
+ * somewhere the map does not know keep their path
+ */
+export function getLangChainImportPath(
+  name: string,
+  from: string,
+  target: LangChainTarget
+): string {
+  const paths = LANGCHAIN_IMPORT_MAP[name];
+  return paths && Object.values(paths).includes(from) ? paths[target] : from;
+}
+
+/**
+ * Rewrite the named imports of generated code to the entrypoints of a
+ * release line, splitting statements whose names moved apart
+ */
+export function mapLangChainImports(
+  code: string,
+  target: LangChainTarget
+): string {
+  return code.replace(
+    /import\s*\{([^}]*)\}\s*from\s*(['"])([^'"]+)\2(;?)/g,
+    (statement, specifiers: string, quote: string, from: string, semi) => {
+      const byPath = new Map<string, string[]>();
+      for (const specifier of specifiers.split(',').map((s) => s.trim())) {
+        if (!specifier) continue;
+        const name = specifier.replace(/^type\s+/, '').split(/\s+as\s+/)[0]!;
+        const path = getLangChainImportPath(name, from, target);
+        byPath.set(path, [...(byPath.get(path) ?? []), specifier]);
+      }
+
+      if (byPath.size === 1) {
+        const [path] = byPath.keys();
+        return statement.replace(
+          `${quote}${from}${quote}`,
+          `${quote}${path}${quote}`
+        );
+      }
+      return [...byPath]
+        .map(
+          ([path, names]) =>
+            `import { ${names.join(', ')} } from ${quote}${path}${quote}${semi}`
+        )
+        .join('\n');
+    }
+  );
+}
@@ -0,0 +1,360 @@
+/**
+ * Incremental Regeneration
+ *
+ * Re-conversion into an existing project keeps hand edits. Generated files
+ * carry `// #region user:<name>` blocks whose contents always survive, and a
+ * manifest records the hash of every node fragment as generated, so a
+ * fragment is only rewritten when its node produced different code. When
+ * both the node and the hand-edited fragment changed, the two versions are
+ * left in conflict markers and reported.
+ */
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+import type { GeneratedFile, NodeId } from '../../ir/types.js';
+
+import {
+  SOURCE_MAP_FILE,
+  findNodeRegions,
+  type NodeSourceMap,
+} from './source-map.js';
+
+/**
+ * Name of the generation manifest in a generated project
+ */
+export const MANIFEST_FILE = 'flowise.manifest.json';
+
+/**
+ * Hashes of one generated file as it was emitted
+ */
+export interface ManifestFileEntry {
+  hash: string;
+  /** Hash of each node fragment, keyed by node id */
+  fragments: Record<NodeId, string>;
+}
+
+/**
+ * Contents of the generation manifest
+ */
+export interface GenerationManifest {
+  version: 1;
+  files: Record<string, ManifestFileEntry>;
+}
+
+/**
+ * Something regeneration could not reconcile on its own
+ */
+export interface RegenerationConflict {
+  file: string;
+  kind: 'fragment' | 'file' | 'orphaned-region';
+  /** Node fragment or user region involved */
+  region?: string;
+  message: string;
+}
+
+/**
+ * Generated files merged with the project on disk
+ */
+export interface RegenerationResult {
+  files: GeneratedFile[];
+  /** Hand-edited node fragments that were kept, as `<file>#<nodeId>` */
+  preserved: string[];
+  conflicts: RegenerationConflict[];
+}
+
+/**
+ * Reads a file of the existing project, or undefined if it does not exist
+ */
+export type ExistingFileReader = (path: string) => Promise<string | undefined>;
+
+type RegionKind = 'flowise' | 'user';
+
+/**
+ * Append an empty user region to a block of generated code
+ */
+export function withUserRegion(content: string, name: string): string {
+  return [
+    content,
+    `// #region user:${name}`,
+    `// #endregion user:${name}`,
+  ].join('\n');
+}
+
+/**
+ * Record the hashes of the files as generated
+ */
+export function createGenerationManifest(
+  files: GeneratedFile[]
+): GenerationManifest {
+  const manifest: GenerationManifest = { version: 1, files: {} };
+
+  // Derived files are always rewritten, so they need no hashes
+  for (const file of files) {
+    if (file.path === MANIFEST_FILE || file.path === SOURCE_MAP_FILE) continue;
+
+    const fragments: Record<NodeId, string> = {};
+    for (const [nodeId, body] of readRegions(file.content, 'flowise')) {
+      fragments[nodeId] = hashFragment(body);
+    }
+    manifest.files[file.path] = { hash: hash(file.content), fragments };
+  }
+
+  return manifest;
+}
+
+/**
+ * Generated file holding the manifest
+ */
+export function createManifestFile(
+  manifest: GenerationManifest
+): GeneratedFile {
+  const content = JSON.stringify(manifest, null, 2);
+  return {
+    path: MANIFEST_FILE,
+    content,
+    type: 'config',
+    dependencies: [],
+    exports: [],
+    size: content.length,
+  };
+}
+
+/**
+ * Read the manifest of a generated project, if it has one
+ */
+export async function loadGenerationManifest(
+  projectDir: string
+): Promise<GenerationManifest | undefined> {
+  try {
+    const content = await readFile(join(projectDir, MANIFEST_FILE), 'utf-8');
+    return JSON.parse(content) as GenerationManifest;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * File reader for a project directory
+ */
+export function createDirectoryReader(projectDir: string): ExistingFileReader {
+  return (path) =>
+    readFile(join(projectDir, path), 'utf-8').catch(() => undefined);
+}
+
+/**
+ * Merge freshly generated files with the project on disk. `manifest` is the
+ * manifest written by the previous generation; without it every fragment is
+ * regenerated and only user regions are kept.
+ */
+export async function mergeGeneratedFiles(
+  generated: GeneratedFile[],
+  readExisting: ExistingFileReader,
+  manifest?: GenerationManifest
+): Promise<RegenerationResult> {
+  const result: RegenerationResult = {
+    files: [],
+    preserved: [],
+    conflicts: [],
+  };
+
+  for (const file of generated) {
+    const existing =
+      file.path === MANIFEST_FILE || file.path === SOURCE_MAP_FILE
+        ? undefined
+        : await readExisting(file.path);
+    if (existing === undefined || existing === file.content) {
+      result.files.push(file);
+      continue;
+    }
+
+    const base = manifest?.files[file.path];
+    const content = hasRegions(file.content)
+      ? mergeRegions(file, existing, base, result)
+      : mergeWholeFile(file, existing, base, result);
+    result.files.push({ ...file, content, size: content.length });
+  }
+
+  // Node line ranges move with the kept edits
+  const sourceMapFile = result.files.find((f) => f.path === SOURCE_MAP_FILE);
+  if (sourceMapFile) {
+    const content = JSON.stringify(
+      remapSourceMap(JSON.parse(sourceMapFile.content), result.files),
+      null,
+      2
+    );
+    result.files[result.files.indexOf(sourceMapFile)] = {
+      ...sourceMapFile,
+      content,
+      size: content.length,
+    };
+  }
+
+  return result;
+}
+
+function mergeRegions(
+  file: GeneratedFile,
+  existing: string,
+  base: ManifestFileEntry | undefined,
+  result: RegenerationResult
+): string {
+  // User regions keep their contents wherever the generator now puts them.
+  // Restoring them before the node fragments are merged puts them on both
+  // sides of a conflict, and keeps their names in step with the existing file.
+  const userRegions = readRegions(existing, 'user');
+  let content = replaceRegions(file.content, 'user', (name, body) =>
+    userRegions.has(name) ? userRegions.get(name)! : body
+  );
+
+  const remaining = readRegions(content, 'user');
+
+  const existingFragments = readRegions(existing, 'flowise');
+  content = replaceRegions(content, 'flowise', (nodeId, generated) => {
+    const edited = existingFragments.get(nodeId);
+    const baseHash = base?.fragments[nodeId];
+    if (edited === undefined || baseHash === undefined) return generated;
+
+    const editedHash = hashFragment(edited);
+    const generatedHash = hashFragment(generated);
+    if (editedHash === baseHash || editedHash === generatedHash) {
+      return generated;
+    }
+    if (generatedHash === baseHash) {
+      result.preserved.push(`${file.path}#${nodeId}`);
+      return edited;
+    }
+
+    result.conflicts.push({
+      file: file.path,
+      kind: 'fragment',
+      region: nodeId,
+      message: `${file.path}: node ${nodeId} changed in the flow and was edited by hand; both versions were kept in conflict markers`,
+    });
+    return [
+      '<<<<<<< hand-edited',
+      edited,
+      '=======',
+      generated,
+      `>>>>>>> generated from ${nodeId}`,
+    ].join('\n');
+  });
+
+  for (const [name, body] of userRegions) {
+    if (remaining.has(name) || body.trim() === '') continue;
+
+    const marker = name.replace(/#\d+$/, '');
+    content += `\n\n// #region user:${marker}\n${body}\n// #endregion user:${marker}\n`;
+    result.conflicts.push({
+      file: file.path,
+      kind: 'orphaned-region',
+      region: name,
+      message: `${file.path}: user region '${name}' no longer has a place in the generated code; it was moved to the end of the file`,
+    });
+  }
+
+  return content;
+}
+
+function mergeWholeFile(
+  file: GeneratedFile,
+  existing: string,
+  base: ManifestFileEntry | undefined,
+  result: RegenerationResult
+): string {
+  if (!base || hash(existing) === base.hash) return file.content;
+
+  if (hash(file.content) !== base.hash) {
+    result.conflicts.push({
+      file: file.path,
+      kind: 'file',
+      message: `${file.path}: edited by hand and changed by the generator; the edited file was kept`,
+    });
+  }
+  return existing;
+}
+
+function remapSourceMap(
+  sourceMap: NodeSourceMap,
+  files: GeneratedFile[]
+): NodeSourceMap {
+  const remapped: NodeSourceMap = { ...sourceMap, files: {} };
+
+  for (const [path, entries] of Object.entries(sourceMap.files)) {
+    const file = files.find((f) => f.path === path);
+    const regions = file ? findNodeRegions(file.content) : [];
+    remapped.files[path] = entries.flatMap((entry) => {
+      const region = regions.find((r) => r.nodeId === entry.nodeId);
+      return region ? [{ ...entry, ...region }] : [];
+    });
+  }
+
+  return remapped;
+}
+
+function hasRegions(content: string): boolean {
+  return /^\s*\/\/ #region (flowise|user):/m.test(content);
+}
+
+/**
+ * Bodies of the top-level regions of one kind, keyed by name
+ */
+function readRegions(content: string, kind: RegionKind): Map<string, string> {
+  const bodies = new Map<string, string>();
+  replaceRegions(content, kind, (name, body) => {
+    bodies.set(name, body);
+    return body;
+  });
+  return bodies;
+}
+
+/**
+ * Rewrite the body of every region of one kind. Regions of the other kind
+ * nested inside are part of the body. A node with several fragments has
+ * several regions, so repeated names are keyed `<name>#2`, `<name>#3`, ...
+ */
+function replaceRegions(
+  content: string,
+  kind: RegionKind,
+  replace: (name: string, body: string) => string
+): string {
+  const start = new RegExp(`^\\s*// #region ${kind}:(\\S+)`);
+  const end = new RegExp(`^\\s*// #endregion ${kind}:(\\S+)`);
+  const lines = content.split('\n');
+  const output: string[] = [];
+  const seen = new Map<string, number>();
+
+  for (let i = 0; i < lines.length; i++) {
+    output.push(lines[i]!);
+    const name = lines[i]!.match(start)?.[1];
+    if (!name) continue;
+
+    const close = lines.findIndex(
+      (line, j) => j > i && line.match(end)?.[1] === name
+    );
+    if (close === -1) continue;
+
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    const key = count === 1 ? name : `${name}#${count}`;
+
+    const body = replace(key, lines.slice(i + 1, close).join('\n'));
+    if (body !== '') output.push(body);
+    output.push(lines[close]!);
+    i = close;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Hash of a node fragment, ignoring the contents of its user regions
+ */
+function hashFragment(body: string): string {
+  return hash(replaceRegions(body, 'user', () => ''));
+}
+
+function hash(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
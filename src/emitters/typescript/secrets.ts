@@ -0,0 +1,284 @@
+/**
+ * Secrets Module
+ *
+ * Generated projects can read their credentials through a small secrets
+ * module instead of process.env. The backend is chosen at conversion time;
+ * where it reads from (file path, provider URL) is configured at run time.
+ * Secrets are loaded once at startup so generated code reads them with a
+ * synchronous getSecret() call, wherever the read sits.
+ */
+
+import type { GeneratedFile, SecretsBackend } from '../../ir/types.js';
+
+/**
+ * Path of the secrets module in a generated project
+ */
+export const SECRETS_MODULE_FILE = 'src/secrets.ts';
+
+/**
+ * Path of the local secret provider stand-in in a generated project
+ */
+export const SECRETS_STAND_IN_FILE = 'scripts/secrets-stand-in.ts';
+
+/**
+ * Backends the secrets module can be generated for
+ */
+export const SECRETS_BACKENDS: SecretsBackend[] = [
+  'env',
+  'dotenv',
+  'json',
+  'yaml',
+  'http',
+];
+
+/**
+ * Environment variable naming the secrets file of file backends
+ */
+export const SECRETS_FILE_ENV = 'SECRETS_FILE';
+
+/**
+ * Environment variables configuring the HTTP secret provider
+ */
+export const SECRETS_PROVIDER_URL_ENV = 'SECRETS_PROVIDER_URL';
+export const SECRETS_PROVIDER_TOKEN_ENV = 'SECRETS_PROVIDER_TOKEN';
+
+/**
+ * Run-time configuration of a backend, as environment variables
+ */
+export const SECRETS_BACKEND_VARIABLES: Record<
+  SecretsBackend,
+  Array<{ name: string; description: string; example: string }>
+> = {
+  env: [],
+  dotenv: [
+    {
+      name: SECRETS_FILE_ENV,
+      description: 'Dotenv file the secrets are read from',
+      example: '.env',
+    },
+  ],
+  json: [
+    {
+      name: SECRETS_FILE_ENV,
+      description: 'JSON file the secrets are read from',
+      example: 'secrets.json',
+    },
+  ],
+  yaml: [
+    {
+      name: SECRETS_FILE_ENV,
+      description: 'YAML file the secrets are read from',
+      example: 'secrets.yaml',
+    },
+  ],
+  http: [
+    {
+      name: SECRETS_PROVIDER_URL_ENV,
+      description: 'Base URL of the secret provider (Vault KV v1 compatible)',
+      example: 'http://localhost:8200/v1/secret',
+    },
+    {
+      name: SECRETS_PROVIDER_TOKEN_ENV,
+      description: 'Token sent to the secret provider as X-Vault-Token',
+      example: 'dev-token',
+    },
+  ],
+};
+
+/**
+ * TypeScript expression reading a secret through the secrets module
+ */
+export function secretExpression(name: string): string {
+  return `getSecret(${JSON.stringify(name)})`;
+}
+
+/**
+ * Names of the secrets generated code reads through the secrets module
+ */
+export function findSecretReads(code: string): string[] {
+  const names = new Set<string>();
+  for (const match of code.matchAll(/\bgetSecret\(("(?:[^"\\]|\\.)*")\)/g)) {
+    names.add(JSON.parse(match[1]!) as string);
+  }
+  return [...names];
+}
+
+/**
+ * Files a generated project needs for its secrets backend: the module, an
+ * example secrets file for file and HTTP backends, and for HTTP a local
+ * stand-in for the provider
+ */
+export function createSecretsFiles(
+  backend: SecretsBackend,
+  names: string[]
+): GeneratedFile[] {
+  const files = [
+    createFile(SECRETS_MODULE_FILE, generateSecretsModule(backend, names)),
+  ];
+
+  const placeholders = Object.fromEntries(
+    names.map((name) => [name, `your_${name.toLowerCase()}_here`])
+  );
+  if (backend === 'json' || backend === 'http') {
+    files.push(
+      createFile('secrets.example.json', JSON.stringify(placeholders, null, 2))
+    );
+  }
+  if (backend === 'yaml') {
+    files.push(
+      createFile(
+        'secrets.example.yaml',
+        names.map((name) => `${name}: ${placeholders[name]}`).join('\n')
+      )
+    );
+  }
+  if (backend === 'http') {
+    files.push(createFile(SECRETS_STAND_IN_FILE, generateStandIn()));
+  }
+
+  return files;
+}
+
+function generateSecretsModule(
+  backend: SecretsBackend,
+  names: string[]
+): string {
+  const loaders: Record<SecretsBackend, { imports: string[]; body: string }> = {
+    env: {
+      imports: [],
+      body: `  return Object.fromEntries(names.map((name) => [name, process.env[name]]));`,
+    },
+    dotenv: {
+      imports: [
+        `import { existsSync, readFileSync } from 'fs';`,
+        `import { parse } from 'dotenv';`,
+      ],
+      body: [
+        `  const file = process.env.${SECRETS_FILE_ENV} ?? '.env';`,
+        `  const values = existsSync(file) ? parse(readFileSync(file)) : {};`,
+        `  return Object.fromEntries(`,
+        `    names.map((name) => [name, values[name] ?? process.env[name]])`,
+        `  );`,
+      ].join('\n'),
+    },
+    json: {
+      imports: [`import { readFileSync } from 'fs';`],
+      body: [
+        `  const file = process.env.${SECRETS_FILE_ENV} ?? 'secrets.json';`,
+        `  const values = JSON.parse(readFileSync(file, 'utf8'));`,
+        `  return Object.fromEntries(names.map((name) => [name, values[name]]));`,
+      ].join('\n'),
+    },
+    yaml: {
+      imports: [
+        `import { readFileSync } from 'fs';`,
+        `import { parse } from 'yaml';`,
+      ],
+      body: [
+        `  const file = process.env.${SECRETS_FILE_ENV} ?? 'secrets.yaml';`,
+        `  const values = parse(readFileSync(file, 'utf8')) ?? {};`,
+        `  return Object.fromEntries(`,
+        `    names.map((name) => [name, values[name] === undefined ? undefined : String(values[name])])`,
+        `  );`,
+      ].join('\n'),
+    },
+    http: {
+      imports: [],
+      body: [
+        `  const url =`,
+        `    process.env.${SECRETS_PROVIDER_URL_ENV} ?? 'http://localhost:8200/v1/secret';`,
+        `  const token = process.env.${SECRETS_PROVIDER_TOKEN_ENV};`,
+        ``,
+        `  // GET <url>/<name> answers { "data": { "value": "..." } } or 404`,
+        `  const entries = await Promise.all(`,
+        `    names.map(async (name) => {`,
+        `      const path = name.split('/').map(encodeURIComponent).join('/');`,
+        `      const response = await fetch(\`\${url}/\${path}\`, {`,
+        `        headers: token ? { 'X-Vault-Token': token } : {},`,
+        `      });`,
+        `      if (response.status === 404) return [name, undefined];`,
+        `      if (!response.ok) {`,
+        `        throw new Error(\`Cannot read secret \${name}: HTTP \${response.status}\`);`,
+        `      }`,
+        `      const body = (await response.json()) as { data?: { value?: string } };`,
+        `      return [name, body.data?.value];`,
+        `    })`,
+        `  );`,
+        `  return Object.fromEntries(entries);`,
+      ].join('\n'),
+    },
+  };
+  const loader = loaders[backend];
+
+  const imports = loader.imports.length
+    ? `\n${loader.imports.join('\n')}\n`
+    : '';
+
+  return `/**
+ * Secrets read by the generated flow (${backend} backend). They are loaded
+ * once at startup; generated code reads them with getSecret().
+ */
+${imports}
+const names: string[] = ${JSON.stringify(names)};
+
+async function loadSecrets(): Promise<Record<string, string | undefined>> {
+${loader.body}
+}
+
+const secrets = await loadSecrets();
+
+/**
+ * Value of a secret, or undefined when the backend does not have it
+ */
+export function getSecret(name: string): string | undefined {
+  return secrets[name];
+}
+`;
+}
+
+function generateStandIn(): string {
+  return `/**
+ * Local stand-in for the secret provider. Serves the values of a JSON file
+ * the way the secrets module reads them: GET /v1/secret/<name> answers
+ * { "data": { "value": "..." } }.
+ *
+ *   npx tsx ${SECRETS_STAND_IN_FILE} [secrets.json] [port]
+ */
+
+import { readFileSync } from 'fs';
+import { createServer } from 'http';
+
+const [file = 'secrets.json', port = '8200'] = process.argv.slice(2);
+const secrets: Record<string, string> = JSON.parse(readFileSync(file, 'utf8'));
+const prefix = '/v1/secret/';
+
+createServer((request, response) => {
+  const url = request.url ?? '';
+  const name = url.startsWith(prefix)
+    ? decodeURIComponent(url.slice(prefix.length))
+    : undefined;
+  const value = name === undefined ? undefined : secrets[name];
+
+  response.setHeader('Content-Type', 'application/json');
+  if (request.method !== 'GET' || value === undefined) {
+    response.statusCode = 404;
+    response.end(JSON.stringify({ errors: [] }));
+    return;
+  }
+  response.end(JSON.stringify({ data: { value } }));
+}).listen(Number(port), () => {
+  console.log(\`Secrets stand-in on http://localhost:\${port}/v1/secret\`);
+});
+`;
+}
+
+function createFile(path: string, content: string): GeneratedFile {
+  return {
+    path,
+    content,
+    type: path.endsWith('.ts') ? 'utils' : 'config',
+    dependencies: [],
+    exports: path === SECRETS_MODULE_FILE ? ['getSecret'] : [],
+    size: content.length,
+  };
+}
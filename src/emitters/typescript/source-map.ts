@@ -0,0 +1,184 @@
+/**
+ * Node Source Maps for Generated Code
+ *
+ * Wraps node fragments in `// #region flowise:<nodeId>` markers and builds a
+ * sidecar file mapping generated line ranges back to the Flowise nodes, so
+ * stack traces from a generated project can name the node that failed.
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+import type {
+  GeneratedFile,
+  GeneratedNodeRegion,
+  IRGraph,
+  IRNode,
+  NodeId,
+} from '../../ir/types.js';
+
+/**
+ * Name of the sidecar mapping file in a generated project
+ */
+export const SOURCE_MAP_FILE = 'flowise.map.json';
+
+/**
+ * Generated lines attributed to one Flowise node
+ */
+export interface NodeSourceMapEntry extends GeneratedNodeRegion {
+  label: string;
+  type: string;
+}
+
+/**
+ * Contents of the sidecar mapping file
+ */
+export interface NodeSourceMap {
+  version: 1;
+  flowName: string;
+  files: Record<string, NodeSourceMapEntry[]>;
+}
+
+const REGION_START = /^\s*\/\/ #region flowise:(\S+)/;
+const REGION_END = /^\s*\/\/ #endregion flowise:(\S+)/;
+
+/**
+ * Wrap a node's generated code in region markers
+ */
+export function wrapNodeRegion(content: string, node: IRNode): string {
+  return [
+    `// #region flowise:${node.id} ${node.label} (${node.type})`,
+    content,
+    `// #endregion flowise:${node.id}`,
+  ].join('\n');
+}
+
+/**
+ * Line ranges between the region markers of a generated file. The markers
+ * themselves are not part of a region.
+ */
+export function findNodeRegions(content: string): GeneratedNodeRegion[] {
+  const regions: GeneratedNodeRegion[] = [];
+  const open: Array<{ nodeId: NodeId; startLine: number }> = [];
+
+  content.split('\n').forEach((text, index) => {
+    const start = text.match(REGION_START);
+    if (start) {
+      open.push({ nodeId: start[1]!, startLine: index + 2 });
+      return;
+    }
+
+    const end = text.match(REGION_END);
+    const region = end ? open.pop() : undefined;
+    if (region && region.nodeId === end![1]) {
+      regions.push({ ...region, endLine: index });
+    }
+  });
+
+  return regions.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Build the sidecar mapping for every generated file that has node regions
+ */
+export function createNodeSourceMap(
+  files: GeneratedFile[],
+  graph: IRGraph
+): NodeSourceMap {
+  const sourceMap: NodeSourceMap = {
+    version: 1,
+    flowName: graph.metadata.name,
+    files: {},
+  };
+
+  for (const file of files) {
+    const regions = file.nodeRegions ?? [];
+    if (regions.length === 0) continue;
+
+    sourceMap.files[file.path] = regions.map((region) => {
+      const node = graph.nodes.find((n) => n.id === region.nodeId);
+      return {
+        ...region,
+        label: node?.label ?? region.nodeId,
+        type: node?.type ?? 'unknown',
+      };
+    });
+  }
+
+  return sourceMap;
+}
+
+/**
+ * Generated file holding the sidecar mapping
+ */
+export function createSourceMapFile(sourceMap: NodeSourceMap): GeneratedFile {
+  const content = JSON.stringify(sourceMap, null, 2);
+  return {
+    path: SOURCE_MAP_FILE,
+    content,
+    type: 'config',
+    dependencies: [],
+    exports: [],
+    size: content.length,
+  };
+}
+
+/**
+ * Read the sidecar mapping of a generated project, if it has one
+ */
+export async function loadNodeSourceMap(
+  projectDir: string
+): Promise<NodeSourceMap | undefined> {
+  try {
+    const content = await readFile(join(projectDir, SOURCE_MAP_FILE), 'utf-8');
+    return JSON.parse(content) as NodeSourceMap;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Node that produced a line of a generated file
+ */
+export function findNodeAtLine(
+  sourceMap: NodeSourceMap,
+  file: string,
+  line: number
+): NodeSourceMapEntry | undefined {
+  return sourceMap.files[file]?.find(
+    (entry) => entry.startLine <= line && line <= entry.endLine
+  );
+}
+
+/**
+ * Annotate every stack frame that points into a mapped file with the
+ * Flowise node that produced the line
+ */
+export function translateStackTrace(
+  text: string,
+  sourceMap: NodeSourceMap
+): string {
+  const files = Object.keys(sourceMap.files);
+  if (files.length === 0) return text;
+
+  const pattern = new RegExp(
+    `(?:^|[\\s(/\\\\])(${files.map(escapeRegExp).join('|')}):(\\d+)(?::\\d+)?`
+  );
+
+  return text
+    .split('\n')
+    .map((frame) => {
+      const match = frame.match(pattern);
+      if (!match) return frame;
+
+      const entry = findNodeAtLine(sourceMap, match[1]!, Number(match[2]));
+      return entry
+        ? `${frame}  [Flowise node ${entry.nodeId}: ${entry.label} (${entry.type})]`
+        : frame;
+    })
+    .join('\n');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,470 @@
+/**
+ * Test Harness
+ *
+ * Generated projects with tests get a jest harness that swaps the chat
+ * models, LLMs, embeddings and tools of the flow for scripted fakes. The
+ * classes to fake are read from the node regions of the generated code, and
+ * the harness patches their prototypes before the flow is imported, so the
+ * flow runs unchanged: chains, prompts and memory behave as they do in
+ * production while every model and tool call answers from a fixture file.
+ */
+
+import { credentialVariables } from '../../ir/credentials.js';
+import type {
+  GeneratedFile,
+  GenerationContext,
+  IRGraph,
+  IRNode,
+} from '../../ir/types.js';
+
+import { findNodeRegions } from './source-map.js';
+
+/**
+ * Paths of the harness files in a generated project
+ */
+export const TEST_HARNESS_FILE = 'src/__tests__/harness.ts';
+export const FAKE_RESPONSES_FILE = 'src/__tests__/fake-responses.json';
+export const FLOW_TEST_FILE = 'src/__tests__/unit/flow.test.ts';
+export const JEST_CONFIG_FILE = 'jest.config.js';
+
+/**
+ * npm test script of a generated project; the flow is an ES module
+ */
+export const TEST_SCRIPT =
+  'node --experimental-vm-modules node_modules/jest/bin/jest.js';
+
+/**
+ * Packages the generated tests run with
+ */
+export const TEST_DEV_DEPENDENCIES: Record<string, string> = {
+  '@jest/globals': '^29.7.0',
+  '@types/jest': '^29.5.12',
+  jest: '^29.7.0',
+  'ts-jest': '^29.2.4',
+};
+
+/**
+ * A class the generated flow instantiates that the harness replaces
+ */
+export interface FakeTarget {
+  kind: 'model' | 'embeddings' | 'tool';
+  /** Exported name of the class */
+  className: string;
+  /** Module the flow imports the class from */
+  module: string;
+  /** Flowise nodes that create instances of the class */
+  nodeIds: string[];
+}
+
+/**
+ * Contents of the fake responses fixture
+ */
+export interface FakeResponses {
+  /** Model responses, returned in turn and repeated from the start */
+  models: string[];
+  /** Tool outputs by tool class name */
+  tools: Record<string, string>;
+  /** Dimensions of the deterministic embeddings */
+  embeddingSize: number;
+}
+
+const FAKE_KINDS: Partial<Record<IRNode['category'], FakeTarget['kind']>> = {
+  llm: 'model',
+  embedding: 'embeddings',
+  tool: 'tool',
+};
+
+/**
+ * Classes the model, embedding and tool nodes of a flow instantiate
+ */
+export function findFakeTargets(
+  graph: IRGraph,
+  files: GeneratedFile[]
+): FakeTarget[] {
+  const nodes = new Map((graph.nodes || []).map((n) => [n.id, n]));
+  const targets = new Map<string, FakeTarget>();
+
+  for (const file of files.filter((f) => f.path.endsWith('.ts'))) {
+    const imports = findNamedImports(file.content);
+    const lines = file.content.split('\n');
+
+    for (const region of findNodeRegions(file.content)) {
+      const node = nodes.get(region.nodeId);
+      const kind = node && FAKE_KINDS[node.category];
+      if (!kind) continue;
+
+      const code = lines.slice(region.startLine - 1, region.endLine).join('\n');
+      for (const match of code.matchAll(/\bnew\s+([A-Za-z_$][\w$]*)\s*\(/g)) {
+        const imported = imports.get(match[1]!);
+        if (!imported) continue;
+
+        const key = `${imported.module}#${imported.name}`;
+        const target = targets.get(key) ?? {
+          kind,
+          className: imported.name,
+          module: imported.module,
+          nodeIds: [],
+        };
+        if (!target.nodeIds.includes(region.nodeId)) {
+          target.nodeIds.push(region.nodeId);
+        }
+        targets.set(key, target);
+      }
+    }
+  }
+
+  return [...targets.values()];
+}
+
+/**
+ * Files of the generated test setup: the harness, its fixture, a jest test
+ * that runs the flow offline, and the jest configuration
+ *
+ * @param entry Function the generated main file exports to run the flow
+ */
+export function createTestHarnessFiles(
+  graph: IRGraph,
+  files: GeneratedFile[],
+  context: Pick<GenerationContext, 'projectName' | 'credentials'>,
+  entry = 'runFlow'
+): GeneratedFile[] {
+  const targets = findFakeTargets(graph, files);
+
+  const responses: FakeResponses = {
+    models: ['This is a scripted response.'],
+    tools: Object.fromEntries(
+      targets
+        .filter((t) => t.kind === 'tool')
+        .map((t) => [t.className, `Recorded output of ${t.className}`])
+    ),
+    embeddingSize: 8,
+  };
+
+  // Clients check for their credentials when they are constructed
+  const credentials = credentialVariables(graph, context.credentials);
+
+  return [
+    createFile(
+      TEST_HARNESS_FILE,
+      generateHarness(graph.metadata?.name, targets, credentials)
+    ),
+    createFile(FAKE_RESPONSES_FILE, JSON.stringify(responses, null, 2)),
+    createFile(
+      FLOW_TEST_FILE,
+      generateFlowTest(graph, context.projectName, targets, entry)
+    ),
+    createFile(JEST_CONFIG_FILE, JEST_CONFIG),
+  ];
+}
+
+function findNamedImports(
+  code: string
+): Map<string, { name: string; module: string }> {
+  const imports = new Map<string, { name: string; module: string }>();
+  const statement = /import\s*\{([^}]*)\}\s*from\s*['"]([^'"]+)['"]/g;
+
+  for (const [, names, module] of code.matchAll(statement)) {
+    for (const specifier of names!.split(',')) {
+      const [name, local = name] = specifier
+        .replace(/^\s*type\s+/, '')
+        .split(/\s+as\s+/)
+        .map((s) => s.trim());
+      if (name) imports.set(local!, { name, module: module! });
+    }
+  }
+
+  return imports;
+}
+
+function generateHarness(
+  flowName: string | undefined,
+  targets: FakeTarget[],
+  credentials: string[]
+): string {
+  const modules = new Map<string, string[]>();
+  for (const target of targets) {
+    const names = modules.get(target.module) ?? [];
+    modules.set(target.module, [...names, target.className]);
+  }
+  const imports = [...modules]
+    .map(
+      ([module, names]) => `import { ${names.join(', ')} } from '${module}';`
+    )
+    .join('\n');
+
+  const install = targets
+    .map((t) => {
+      const fake = {
+        model: 'fakeModel',
+        embeddings: 'fakeEmbeddings',
+        tool: 'fakeTool',
+      }[t.kind];
+      return `  ${fake}(${t.className}, '${t.className}');`;
+    })
+    .join('\n');
+
+  return `/**
+ * Test harness for ${flowName || 'the generated flow'}
+ * Generated by flowise-to-langchain
+ *
+ * installFakes() swaps the models, embeddings and tools of the flow for
+ * scripted fakes: models answer from fake-responses.json in turn, embeddings
+ * are derived from the text, and tools return their recorded output. Call it
+ * before importing the flow. With MOCK_EXTERNAL_APIS=false the flow talks to
+ * the real services instead, and with a cassette (see ../cassette.ts) it
+ * records or replays them.
+ */
+
+import { readFileSync } from 'fs';
+
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseLLM } from '@langchain/core/language_models/llms';
+import { AIMessage, type BaseMessage } from '@langchain/core/messages';
+${imports}
+
+import { cassetteMode } from '../cassette.js';
+
+export interface FakeScript {
+  models: string[];
+  tools: Record<string, string>;
+  embeddingSize: number;
+}
+
+export interface FakeCall {
+  kind: 'model' | 'embeddings' | 'tool';
+  className: string;
+  input: string;
+}
+
+export const script = JSON.parse(
+  readFileSync(new URL('./fake-responses.json', import.meta.url), 'utf8')
+) as FakeScript;
+
+/**
+ * Calls the fakes received since the last reset, in order
+ */
+export const calls: FakeCall[] = [];
+
+/**
+ * Whether models and tools answer from fake-responses.json
+ */
+export const scripted =
+  !cassetteMode && process.env.MOCK_EXTERNAL_APIS !== 'false';
+
+const credentials: string[] = ${JSON.stringify(credentials)};
+
+let turn = 0;
+
+/**
+ * Replace the clients of the flow with fakes
+ */
+export function installFakes(): void {
+  if (!scripted) return;
+
+  for (const name of credentials) {
+    process.env[name] ??= \`fake-\${name.toLowerCase()}\`;
+  }
+
+${install}
+}
+
+/**
+ * Start the scripted responses over and forget recorded calls
+ */
+export function resetFakes(): void {
+  turn = 0;
+  calls.length = 0;
+}
+
+/**
+ * Unit-length embedding derived from the text alone
+ */
+export function fakeEmbedding(text: string): number[] {
+  // FNV-1a hash of the text seeds an xorshift generator
+  let seed = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    seed = Math.imul(seed ^ text.charCodeAt(i), 16777619);
+  }
+  const vector = Array.from({ length: script.embeddingSize }, () => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return (seed >>> 0) / 4294967296 - 0.5;
+  });
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / norm);
+}
+
+function respond(className: string, input: string): string {
+  calls.push({ kind: 'model', className, input });
+  const response = script.models[turn % script.models.length] ?? '';
+  turn++;
+  return response;
+}
+
+function fakeModel(model: { prototype: any }, className: string): void {
+  const prototype = model.prototype;
+  if (prototype instanceof BaseChatModel) {
+    // Without its own stream implementation the model never streams
+    prototype._streamResponseChunks = (BaseChatModel.prototype as any)._streamResponseChunks;
+    prototype._generate = async (messages: BaseMessage[]) => {
+      const text = respond(
+        className,
+        messages
+          .map((m) => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content)))
+          .join('\\n')
+      );
+      return { generations: [{ text, message: new AIMessage(text) }] };
+    };
+  } else if (prototype instanceof BaseLLM) {
+    prototype._streamResponseChunks = (BaseLLM.prototype as any)._streamResponseChunks;
+    prototype._generate = async (prompts: string[]) => ({
+      generations: prompts.map((prompt) => [{ text: respond(className, prompt) }]),
+    });
+  }
+}
+
+function fakeEmbeddings(embeddings: { prototype: any }, className: string): void {
+  const embed = (text: string) => {
+    calls.push({ kind: 'embeddings', className, input: text });
+    return fakeEmbedding(text);
+  };
+  embeddings.prototype.embedQuery = async (text: string) => embed(text);
+  embeddings.prototype.embedDocuments = async (texts: string[]) => texts.map(embed);
+}
+
+function fakeTool(tool: { prototype: any }, className: string): void {
+  tool.prototype._call = async (input: unknown) => {
+    calls.push({
+      kind: 'tool',
+      className,
+      input: typeof input === 'string' ? input : JSON.stringify(input),
+    });
+    return script.tools[className] ?? '';
+  };
+}
+`;
+}
+
+function generateFlowTest(
+  graph: IRGraph,
+  projectName: string,
+  targets: FakeTarget[],
+  entry: string
+): string {
+  const hasModel = targets.some((t) => t.kind === 'model');
+  // Agents parse the model response, so it is not the answer verbatim
+  const answersVerbatim =
+    hasModel && !(graph.nodes || []).some((n) => n.category === 'agent');
+
+  const tests = [
+    `  it('should answer with text', async () => {
+    const result = await ${entry}('Hello from the test harness');
+    expect(typeof result).toBe('string');
+  });`,
+    ...(answersVerbatim
+      ? [
+          `  itScripted('should answer with a scripted model response', async () => {
+    const result = await ${entry}('Hello from the test harness');
+    expect(script.models).toContain(result);
+  });`,
+        ]
+      : []),
+    ...(hasModel
+      ? [
+          `  itScripted('should pass the input to a model', async () => {
+    await ${entry}('Hello from the test harness');
+    expect(
+      calls.some(
+        (call) =>
+          call.kind === 'model' &&
+          call.input.includes('Hello from the test harness')
+      )
+    ).toBe(true);
+  });`,
+        ]
+      : []),
+    `  it('should answer the same way on every run', async () => {
+    const first = await ${entry}('Same input');
+    resetFakes();
+    const second = await ${entry}('Same input');
+    // Live and recorded answers need not repeat themselves
+    if (scripted) expect(second).toBe(first);
+  });`,
+  ];
+
+  return `/**
+ * Tests for ${projectName}
+ * Generated by flowise-to-langchain
+ *
+ * The flow runs offline against the fakes of ../harness.ts; edit
+ * ../fake-responses.json to script what its models and tools answer. With a
+ * cassette, the tests that do not need the fakes record or replay instead.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+
+import {
+  calls,
+  installFakes,
+  resetFakes,
+  script,
+  scripted,
+} from '../harness.js';
+
+// Scripted answers only hold with the fakes, not live or from a cassette
+const itScripted = scripted ? it : it.skip;
+
+let ${entry}: (input: string) => Promise<string>;
+
+beforeAll(async () => {
+  installFakes();
+  ({ ${entry} } = await import('../../index.js'));
+});
+
+beforeEach(() => {
+  resetFakes();
+});
+
+describe(${JSON.stringify(graph.metadata?.name || projectName)}, () => {
+${tests.join('\n\n')}
+});
+`;
+}
+
+const JEST_CONFIG = `export default {
+  preset: 'ts-jest/presets/default-esm',
+  extensionsToTreatAsEsm: ['.ts'],
+  moduleNameMapper: {
+    '^(\\\\.{1,2}/.*)\\\\.js$': '$1',
+  },
+  transform: {
+    '^.+\\\\.ts$': [
+      'ts-jest',
+      {
+        useESM: true,
+        // Type errors are left to tsc; the tests only run the flow
+        diagnostics: false,
+        tsconfig: { module: 'ESNext', target: 'ES2022', esModuleInterop: true },
+      },
+    ],
+  },
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/src/**/*.test.ts'],
+};
+`;
+
+function createFile(path: string, content: string): GeneratedFile {
+  return {
+    path,
+    content,
+    type: path.endsWith('.test.ts')
+      ? 'test'
+      : path.endsWith('.ts')
+        ? 'utils'
+        : 'config',
+    dependencies: [],
+    exports: path === TEST_HARNESS_FILE ? ['installFakes', 'resetFakes'] : [],
+    size: content.length,
+  };
+}
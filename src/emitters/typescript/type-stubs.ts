@@ -0,0 +1,552 @@
+/**
+ * LangChain Type Stubs
+ *
+ * Export lists for the packages generated projects import, so the
+ * compilation check can type-check generated code without installing
+ * LangChain. Names mirror the real entry points; the declarations are typed
+ * loosely because constructor options drift between releases, which keeps
+ * the check focused on missing exports and undefined identifiers.
+ */
+
+import { LANGCHAIN_IMPORT_MAP } from './langchain-versions.js';
+
+/**
+ * Exports of one stubbed module, as whitespace-separated names
+ */
+interface StubModule {
+  classes?: string;
+  functions?: string;
+  values?: string;
+  types?: string;
+  /** Hand-written declarations for exports the generic shapes cannot express */
+  declarations?: string;
+}
+
+const STUB_MODULES: Record<string, StubModule> = {
+  '@langchain/core/documents': {
+    classes: 'BaseDocumentTransformer Document MappingDocumentTransformer',
+    types: 'DocumentInput DocumentInterface',
+  },
+  '@langchain/core/messages': {
+    classes: `
+      AIMessage AIMessageChunk BaseMessage BaseMessageChunk ChatMessage
+      ChatMessageChunk FunctionMessage FunctionMessageChunk HumanMessage
+      HumanMessageChunk RemoveMessage SystemMessage SystemMessageChunk
+      ToolMessage ToolMessageChunk
+    `,
+    functions: `
+      coerceMessageLikeToMessage convertToChunk convertToOpenAIImageBlock
+      convertToProviderContentBlock defaultTextSplitter filterMessages
+      getBufferString isAIMessage isAIMessageChunk isBase64ContentBlock
+      isBaseMessage isBaseMessageChunk isChatMessage isChatMessageChunk
+      isDataContentBlock isFunctionMessage isFunctionMessageChunk
+      isHumanMessage isHumanMessageChunk isIDContentBlock
+      isOpenAIToolCallArray isPlainTextContentBlock isSystemMessage
+      isSystemMessageChunk isToolMessage isToolMessageChunk
+      isURLContentBlock mapChatMessagesToStoredMessages
+      mapStoredMessageToChatMessage mapStoredMessagesToChatMessages
+      mergeContent mergeMessageRuns parseBase64DataUrl parseMimeType
+      trimMessages
+    `,
+    types: `
+      AIMessageChunkFields AIMessageFields Base64ContentBlock
+      BaseDataContentBlock BaseMessageFields BaseMessageLike
+      ChatMessageFieldsWithRole DataContentBlock DataContentBlockType
+      FilterMessagesFields FunctionCall FunctionMessageFieldsWithName
+      HumanMessageFields IDContentBlock ImageDetail InputTokenDetails
+      InvalidToolCall MessageChunkUnion MessageContent MessageContentComplex
+      MessageContentImageUrl MessageContentText MessageFieldWithRole
+      MessageType MessageTypeOrClass MessageUnion ModalitiesTokenDetails
+      OpenAIToolCall OutputTokenDetails PlainTextContentBlock
+      ProviderFormatTypes RemoveMessageFields StandardAudioBlock
+      StandardContentBlockConverter StandardFileBlock StandardImageBlock
+      StandardTextBlock StoredGeneration StoredMessage StoredMessageData
+      StoredMessageV1 SystemMessageFields ToolMessageFieldsWithToolCallId
+      TrimMessagesFields URLContentBlock UsageMetadata
+    `,
+  },
+  '@langchain/core/prompts': {
+    classes: `
+      AIMessagePromptTemplate BaseChatPromptTemplate
+      BaseMessagePromptTemplate BaseMessageStringPromptTemplate
+      BasePromptTemplate BaseStringPromptTemplate ChatMessagePromptTemplate
+      ChatPromptTemplate DictPromptTemplate FewShotChatMessagePromptTemplate
+      FewShotPromptTemplate HumanMessagePromptTemplate ImagePromptTemplate
+      MessagesPlaceholder PipelinePromptTemplate PromptTemplate
+      StructuredPrompt SystemMessagePromptTemplate
+    `,
+    values: `
+      DEFAULT_FORMATTER_MAPPING DEFAULT_PARSER_MAPPING checkValidTemplate
+      interpolateFString interpolateMustache parseFString parseMustache
+      parseTemplate renderTemplate
+    `,
+    types: `
+      BaseMessagePromptTemplateLike BasePromptTemplateInput
+      ChatMessagePromptTemplateFields ChatPromptTemplateInput Example
+      ExtractedFStringParams FewShotChatMessagePromptTemplateInput
+      FewShotPromptTemplateInput ImagePromptTemplateInput
+      MessageStringPromptTemplateFields MessagesPlaceholderFields
+      ParamsFromFString ParsedFStringNode ParsedTemplateNode
+      PipelinePromptParams PipelinePromptTemplateInput PromptTemplateInput
+      SerializedBasePromptTemplate SerializedFewShotTemplate
+      SerializedPromptTemplate StructuredPromptInput TemplateFormat
+      TypedPromptInputValues
+    `,
+  },
+  '@langchain/core/output_parsers': {
+    classes: `
+      AsymmetricStructuredOutputParser BaseCumulativeTransformOutputParser
+      BaseLLMOutputParser BaseOutputParser BaseTransformOutputParser
+      BytesOutputParser CommaSeparatedListOutputParser
+      CustomListOutputParser JsonMarkdownStructuredOutputParser
+      JsonOutputParser ListOutputParser MarkdownListOutputParser
+      NumberedListOutputParser OutputParserException StringOutputParser
+      StructuredOutputParser XMLOutputParser
+    `,
+    functions: 'parseJsonMarkdown parsePartialJson parseXMLMarkdown',
+    values: 'XML_FORMAT_INSTRUCTIONS',
+    types: `
+      AsymmetricStructuredOutputParserFields
+      BaseCumulativeTransformOutputParserInput Content
+      FormatInstructionsOptions JsonMarkdownFormatInstructionsOptions
+      JsonMarkdownStructuredOutputParserInput XMLOutputParserFields
+      XMLResult
+    `,
+  },
+  '@langchain/core/runnables': {
+    classes: `
+      RouterRunnable Runnable RunnableAssign RunnableBinding RunnableBranch
+      RunnableEach RunnableLambda RunnableMap RunnableParallel
+      RunnablePassthrough RunnablePick RunnableRetry RunnableSequence
+      RunnableToolLike RunnableWithFallbacks RunnableWithMessageHistory
+    `,
+    functions: `
+      ensureConfig getCallbackManagerForConfig mergeConfigs patchConfig
+      pickRunnableConfigKeys
+    `,
+    types: `
+      Branch BranchLike RouterInput RunnableBatchOptions RunnableBindingArgs
+      RunnableConfig RunnableFunc RunnableIOSchema RunnableInterface
+      RunnableLike RunnableRetryFailedAttemptHandler RunnableToolLikeArgs
+      RunnableWithMessageHistoryInputs
+    `,
+  },
+  '@langchain/core/chat_history': {
+    classes: `
+      BaseChatMessageHistory BaseListChatMessageHistory
+      InMemoryChatMessageHistory
+    `,
+  },
+  '@langchain/core/tools': {
+    classes: `
+      BaseToolkit DynamicStructuredTool DynamicTool StructuredTool Tool
+      ToolInputParsingException
+    `,
+    functions: `
+      isLangChainTool isRunnableToolLike isStructuredTool
+      isStructuredToolParams tool
+    `,
+    types: `
+      BaseDynamicToolInput ContentAndArtifact DynamicStructuredToolInput
+      DynamicToolInput ResponseFormat StructuredToolCallInput
+      StructuredToolInterface StructuredToolParams ToolInterface ToolParams
+      ToolReturnType ToolRunnableConfig ToolSchemaBase
+    `,
+  },
+  '@langchain/core/callbacks/manager': {
+    classes: `
+      BaseCallbackManager BaseRunManager CallbackManager
+      CallbackManagerForChainRun CallbackManagerForLLMRun
+      CallbackManagerForRetrieverRun CallbackManagerForToolRun TraceGroup
+    `,
+    functions: 'ensureHandler parseCallbackConfigArg traceAsGroup',
+    types: 'BaseCallbackConfig CallbackManagerOptions Callbacks',
+  },
+  '@langchain/core/vectorstores': {
+    classes: 'SaveableVectorStore VectorStore VectorStoreRetriever',
+    types: `
+      MaxMarginalRelevanceSearchOptions VectorStoreInterface
+      VectorStoreRetrieverInput VectorStoreRetrieverInterface
+      VectorStoreRetrieverMMRSearchKwargs
+    `,
+  },
+  '@langchain/core/embeddings': {
+    classes: 'Embeddings',
+    types: 'EmbeddingsInterface EmbeddingsParams',
+  },
+  '@langchain/core/retrievers': {
+    classes: 'BaseRetriever',
+    types: 'BaseRetrieverInput BaseRetrieverInterface',
+  },
+  '@langchain/openai': {
+    classes: `
+      AzureChatOpenAI AzureOpenAI AzureOpenAIEmbeddings ChatOpenAI
+      DallEAPIWrapper OpenAI OpenAIChat OpenAIClient OpenAIEmbeddings
+    `,
+    functions: `
+      convertPromptToOpenAI formatToOpenAIAssistantTool
+      formatToOpenAIFunction formatToOpenAITool formatToOpenAIToolChoice
+      getEndpoint messageToOpenAIRole toFile wrapOpenAIClientError
+    `,
+    types: `
+      AzureOpenAIInput ChatOpenAICallOptions ChatOpenAIFields
+      ChatOpenAIResponseFormat ChatOpenAIStructuredOutputMethodOptions
+      ClientOptions DallEAPIWrapperParams LegacyOpenAIInput OpenAIBaseInput
+      OpenAICallOptions OpenAIChatCallOptions OpenAIChatInput
+      OpenAICoreRequestOptions OpenAIEmbeddingsParams OpenAIEndpointConfig
+      OpenAIInput OpenAIToolChoice TiktokenModel
+    `,
+  },
+  '@langchain/cohere': {
+    classes: 'ChatCohere Cohere CohereEmbeddings CohereRerank',
+    types: `
+      BaseChatCohereInput BaseCohereInput BaseCohereRerankArgs
+      ChatCohereCallOptions ChatCohereInput CohereChatCallOptions
+      CohereEmbeddingsParams CohereInput
+    `,
+  },
+  '@langchain/pinecone': {
+    classes: 'PineconeEmbeddings PineconeStore PineconeTranslator',
+    types: 'PineconeDeleteParams PineconeEmbeddingsParams PineconeStoreParams',
+  },
+  '@langchain/textsplitters': {
+    classes: `
+      CharacterTextSplitter LatexTextSplitter MarkdownTextSplitter
+      RecursiveCharacterTextSplitter TextSplitter TokenTextSplitter
+    `,
+    values: 'SupportedTextSplitterLanguages',
+    types: `
+      CharacterTextSplitterParams LatexTextSplitterParams
+      MarkdownTextSplitterParams RecursiveCharacterTextSplitterParams
+      SupportedTextSplitterLanguage TextSplitterChunkHeaderOptions
+      TextSplitterParams TokenTextSplitterParams
+    `,
+  },
+  '@langchain/community/vectorstores/pinecone': {
+    classes: 'PineconeStore',
+    types: 'PineconeDeleteParams PineconeLibArgs',
+  },
+  '@langchain/community/document_loaders/fs/pdf': {
+    classes: 'PDFLoader',
+  },
+  '@langchain/community/document_loaders/fs/docx': {
+    classes: 'DocxLoader',
+  },
+  '@langchain/community/document_loaders/fs/csv': {
+    classes: 'CSVLoader',
+  },
+  '@langchain/community/tools/calculator': {
+    classes: 'Calculator',
+  },
+  '@langchain/community/tools/serpapi': {
+    classes: 'SerpAPI',
+    types: 'SerpAPIParameters',
+  },
+  'langchain/chains': {
+    classes: `
+      APIChain AnalyzeDocumentChain BaseChain ChatVectorDBQAChain
+      ConstitutionalChain ConstitutionalPrinciple ConversationChain
+      ConversationalRetrievalQAChain LLMChain LLMRouterChain
+      MapReduceDocumentsChain MultiPromptChain MultiRetrievalQAChain
+      MultiRouteChain OpenAIModerationChain RefineDocumentsChain
+      RetrievalQAChain RouterChain SequentialChain SimpleSequentialChain
+      StuffDocumentsChain TransformChain VectorDBQAChain
+    `,
+    functions: `
+      convertOpenAPISpecToOpenAIFunctions createExtractionChain
+      createExtractionChainFromZod createOpenAPIChain createTaggingChain
+      createTaggingChainFromZod loadQAMapReduceChain loadQARefineChain
+      loadQAStuffChain
+    `,
+    values: 'PRINCIPLES loadQAChain loadSummarizationChain',
+    types: `
+      APIChainInput APIChainOptions AnalyzeDocumentChainInput ChainInputs
+      ChatVectorDBQAChainInput ConstitutionalChainInput
+      ConversationalRetrievalQAChainInput LLMChainInput LLMRouterChainInput
+      MapReduceDocumentsChainInput MapReduceQAChainParams
+      MultiRouteChainInput OpenAPIChainOptions QAChainParams
+      RefineDocumentsChainInput RefineQAChainParams RetrievalQAChainInput
+      RouterOutputSchema SequentialChainInput SerializedAPIChain
+      SerializedAnalyzeDocumentChain SerializedBaseChain
+      SerializedChatVectorDBQAChain SerializedLLMChain
+      SerializedMapReduceDocumentsChain SerializedRefineDocumentsChain
+      SerializedSequentialChain SerializedSimpleSequentialChain
+      SerializedStuffDocumentsChain SerializedVectorDBQAChain
+      SimpleSequentialChainInput StuffDocumentsChainInput StuffQAChainParams
+      SummarizationChainParams TaggingChainOptions TransformChainFields
+      VectorDBQAChainInput
+    `,
+  },
+  'langchain/chains/retrieval': {
+    functions: 'createRetrievalChain',
+    types: 'CreateRetrievalChainParams',
+  },
+  'langchain/chains/combine_documents': {
+    functions: 'createStuffDocumentsChain',
+  },
+  'langchain/chains/history_aware_retriever': {
+    functions: 'createHistoryAwareRetriever',
+    types: 'CreateHistoryAwareRetrieverParams',
+  },
+  'langchain/memory': {
+    classes: `
+      BaseChatMemory BaseConversationSummaryMemory BaseMemory BufferMemory
+      BufferWindowMemory ChatMessageHistory CombinedMemory
+      ConversationSummaryBufferMemory ConversationSummaryMemory
+      ConversationTokenBufferMemory EntityMemory VectorStoreRetrieverMemory
+    `,
+    functions: 'getBufferString',
+    values: 'ENTITY_MEMORY_CONVERSATION_TEMPLATE getInputValue getOutputValue',
+    types: `
+      BaseChatMemoryInput BaseConversationSummaryMemoryInput
+      BufferMemoryInput BufferWindowMemoryInput CombinedMemoryInput
+      ConversationSummaryBufferMemoryInput ConversationSummaryMemoryInput
+      ConversationTokenBufferMemoryInput InputValues MemoryVariables
+      OutputValues VectorStoreRetrieverMemoryParams
+    `,
+  },
+  'langchain/agents': {
+    classes: `
+      Agent AgentActionOutputParser AgentExecutor AgentRunnableSequence
+      BaseMultiActionAgent BaseSingleActionAgent ChatAgent
+      ChatAgentOutputParser ChatConversationalAgent
+      ChatConversationalAgentOutputParser
+      ChatConversationalAgentOutputParserWithRetries JsonToolkit
+      LLMSingleActionAgent OpenAIAgent OpenApiToolkit RequestsToolkit
+      RunnableAgent StructuredChatAgent StructuredChatOutputParser
+      StructuredChatOutputParserWithRetries Toolkit VectorStoreRouterToolkit
+      VectorStoreToolkit XMLAgent ZeroShotAgent ZeroShotAgentOutputParser
+    `,
+    functions: `
+      createJsonAgent createOpenAIFunctionsAgent createOpenAIToolsAgent
+      createOpenApiAgent createReactAgent createStructuredChatAgent
+      createToolCallingAgent createVectorStoreAgent
+      createVectorStoreRouterAgent createXmlAgent
+      initializeAgentExecutorWithOptions
+    `,
+    values: 'initializeAgentExecutor',
+    types: `
+      AgentAction AgentArgs AgentExecutorInput AgentFinish AgentInput
+      AgentStep ChatAgentInput ChatConversationalAgentInput
+      ChatConversationalAgentOutputParserArgs
+      ChatConversationalAgentOutputParserFormatInstructionsOptions
+      ChatConversationalCreatePromptArgs ChatCreatePromptArgs
+      CreateOpenAIFunctionsAgentParams CreateOpenAIToolsAgentParams
+      CreateReactAgentParams CreateStructuredChatAgentParams
+      CreateToolCallingAgentParams CreateXmlAgentParams
+      InitializeAgentExecutorOptions
+      InitializeAgentExecutorOptionsStructured LLMSingleActionAgentInput
+      OpenAIAgentCreatePromptArgs OpenAIAgentInput OutputParserArgs
+      SerializedAgent SerializedAgentT SerializedZeroShotAgent
+      StoppingMethod StructuredChatAgentInput StructuredChatCreatePromptArgs
+      StructuredChatOutputParserArgs VectorStoreInfo XMLAgentInput
+      ZeroShotAgentInput ZeroShotCreatePromptArgs
+    `,
+  },
+  'langchain/tools': {
+    classes: `
+      ChainTool DynamicStructuredTool DynamicTool JsonGetValueTool
+      JsonListKeysTool JsonSpec ReadFileTool RequestsGetTool
+      RequestsPostTool StructuredTool Tool VectorStoreQATool WriteFileTool
+    `,
+    functions: 'formatToOpenAIFunction formatToOpenAITool',
+    types: `
+      ChainToolInput DynamicStructuredToolInput DynamicToolInput Json
+      JsonObject ToolParams
+    `,
+  },
+  'langchain/tools/webbrowser': {
+    classes: 'WebBrowser',
+    values: 'getText parseInputs',
+    types: 'WebBrowserArgs',
+  },
+  'langchain/hub': {
+    functions: 'pull push',
+  },
+  'langchain/vectorstores/memory': {
+    classes: 'MemoryVectorStore',
+    types: 'MemoryVectorStoreArgs',
+  },
+  'langchain/document_loaders/fs/directory': {
+    classes: 'DirectoryLoader',
+    values: 'UnknownHandling',
+    types: 'LoadersMapping',
+  },
+  'langchain/document_loaders/fs/text': {
+    classes: 'TextLoader',
+  },
+  dotenv: {
+    functions: 'config configDotenv decrypt parse populate',
+    types: `
+      DotenvConfigOptions DotenvConfigOutput DotenvParseOutput
+      DotenvPopulateInput DotenvPopulateOptions
+    `,
+  },
+  '@langchain/anthropic': {
+    classes: 'AnthropicLLM ChatAnthropic ChatAnthropicMessages',
+    types: 'AnthropicInput ChatAnthropicCallOptions',
+  },
+  '@langchain/ollama': {
+    classes: 'ChatOllama Ollama OllamaEmbeddings',
+    types: 'ChatOllamaInput OllamaInput',
+  },
+  '@langchain/google-genai': {
+    classes: 'ChatGoogleGenerativeAI GoogleGenerativeAIEmbeddings',
+    types: 'GoogleGenerativeAIChatInput',
+  },
+  '@langchain/mistralai': {
+    classes: 'ChatMistralAI MistralAI MistralAIEmbeddings',
+    types: 'ChatMistralAIInput',
+  },
+  '@langchain/groq': {
+    classes: 'ChatGroq',
+    types: 'ChatGroqInput',
+  },
+  '@langchain/deepseek': {
+    classes: 'ChatDeepSeek',
+    types: 'ChatDeepSeekInput',
+  },
+  '@langchain/langgraph': {
+    classes: 'Command MemorySaver MessageGraph Send StateGraph',
+    values: 'END START',
+    declarations: `
+      export function Annotation<A = any, B = any>(...args: any[]): any;
+      export namespace Annotation {
+        const Root: any;
+      }
+    `,
+  },
+  zod: {
+    declarations: `
+      export const z: any;
+      export namespace z {
+        type infer<T = any> = any;
+        type input<T = any> = any;
+        type output<T = any> = any;
+        type ZodType<A = any, B = any, C = any> = any;
+        type ZodTypeAny = any;
+        type ZodObject<A = any, B = any, C = any> = any;
+      }
+      export type ZodType<A = any, B = any, C = any> = any;
+      export type ZodTypeAny = any;
+    `,
+  },
+};
+
+/**
+ * Node built-ins generated code may import; declared without checking
+ */
+const NODE_BUILTIN_MODULES = [
+  'child_process',
+  'crypto',
+  'events',
+  'fs',
+  'fs/promises',
+  'http',
+  'https',
+  'os',
+  'path',
+  'readline',
+  'stream',
+  'url',
+  'util',
+];
+
+/**
+ * Runtime globals available to generated projects on Node
+ */
+const GLOBAL_DECLARATIONS = `
+declare const process: any;
+declare const console: any;
+declare const Buffer: any;
+declare function setTimeout(...args: any[]): any;
+declare function clearTimeout(handle?: any): void;
+declare function setInterval(...args: any[]): any;
+declare function clearInterval(handle?: any): void;
+declare function fetch(...args: any[]): Promise<any>;
+declare const URL: any;
+interface ImportMeta {
+  url: string;
+  [key: string]: any;
+}
+`;
+
+const TYPE_PARAMETERS = '<A = any, B = any, C = any, D = any>';
+
+const splitNames = (names?: string): string[] =>
+  names ? names.split(/\s+/).filter(Boolean) : [];
+
+/**
+ * Whether the bundled stubs describe a module's exports
+ */
+export function hasTypeStub(moduleName: string): boolean {
+  return moduleName in getStubModules();
+}
+
+/**
+ * Whether a module specifier names a Node built-in
+ */
+export function isNodeBuiltinModule(moduleName: string): boolean {
+  return (
+    moduleName.startsWith('node:') || NODE_BUILTIN_MODULES.includes(moduleName)
+  );
+}
+
+/**
+ * Build the ambient declaration file for the stubbed modules, plus shorthand
+ * declarations for modules the stubs do not cover
+ */
+export function createTypeStubDeclarations(
+  uncheckedModules: string[] = []
+): string {
+  const modules = Object.entries(getStubModules()).map(([name, stub]) => {
+    const lines = [
+      ...splitNames(stub.classes).map(
+        (n) =>
+          `export class ${n}${TYPE_PARAMETERS} { constructor(...args: any[]); [key: string]: any; static [key: string]: any; }`
+      ),
+      ...splitNames(stub.functions).map(
+        (n) => `export function ${n}${TYPE_PARAMETERS}(...args: any[]): any;`
+      ),
+      ...splitNames(stub.values).map((n) => `export const ${n}: any;`),
+      ...splitNames(stub.types).map(
+        (n) => `export type ${n}${TYPE_PARAMETERS} = any;`
+      ),
+      ...(stub.declarations ? [stub.declarations.trim()] : []),
+    ];
+    return `declare module '${name}' {\n${lines.join('\n')}\n}`;
+  });
+
+  const shorthand = [...NODE_BUILTIN_MODULES, ...uncheckedModules].map(
+    (name) => `declare module '${name}';`
+  );
+
+  return [GLOBAL_DECLARATIONS.trim(), ...modules, ...shorthand].join('\n\n');
+}
+
+let stubModules: Record<string, StubModule> | undefined;
+
+/**
+ * The stubbed modules, with classes that moved between LangChain release
+ * lines also exported from the stubbed entrypoints of the other lines
+ */
+function getStubModules(): Record<string, StubModule> {
+  if (stubModules) return stubModules;
+
+  stubModules = { ...STUB_MODULES };
+  const kinds = ['classes', 'functions', 'values', 'types'] as const;
+  for (const [name, paths] of Object.entries(LANGCHAIN_IMPORT_MAP)) {
+    const source = STUB_MODULES[paths['0.2']];
+    const kind =
+      kinds.find((k) => splitNames(source?.[k]).includes(name)) ?? 'classes';
+
+    for (const path of new Set(Object.values(paths))) {
+      if (!stubModules[path]) continue;
+      const stub = { ...stubModules[path] };
+      if (kinds.some((k) => splitNames(stub[k]).includes(name))) continue;
+      stub[kind] = `${stub[kind] ?? ''} ${name}`;
+      stubModules[path] = stub;
+    }
+  }
+  return stubModules;
+}
@@ -7,12 +7,27 @@
 
 // Core module exports (selective to avoid conflicts)
 export { FlowiseParser, parseFlowiseJson } from './parser/index.js';
-export { IRProcessor, createIRProcessor } from './ir/index.js';
+export {
+  IRProcessor,
+  createIRProcessor,
+  parseCredentialMapping,
+} from './ir/index.js';
 export { ConverterRegistry, createRegistry } from './registry/index.js';
 export {
   TypeScriptEmitter,
   createTypeScriptEmitter,
 } from './emitters/typescript/index.js';
+export { createFlowDiffReport, formatFlowDiffReport } from './diff/index.js';
+export {
+  ChatSession,
+  FlowExecutionError,
+  FlowInterpreter,
+  LoadedFlow,
+  executeFlow,
+  type ChatTurn,
+  type ExecuteFlowOptions,
+  type FlowExecutionResult,
+} from './runtime/index.js';
 export { createCli } from './cli/index.js';
 
 // Type exports
@@ -25,6 +40,8 @@ export type {
   GenerationContext,
   CodeGenerationResult,
   ValidationResult,
+  CredentialMapping,
+  SecretsBackend,
 } from './ir/types.js';
 
 // Import main components for pipeline
@@ -142,9 +159,7 @@ export class FlowiseToLangChainConverter {
         includeDocs: false,
         includeLangfuse: false,
         packageManager: 'npm',
-        environment: {
-          langchainVersion: '0.2.0',
-        },
+        environment: {},
         codeStyle: {
           indentSize: 2,
           useSpaces: true,
@@ -169,7 +184,10 @@ export class FlowiseToLangChainConverter {
         success: true,
         result: codeResult,
         errors: [],
-        warnings: parseResult.warnings?.map((w) => w.message) || [],
+        warnings: [
+          ...(parseResult.warnings?.map((w) => w.message) || []),
+          ...codeResult.metadata.warnings,
+        ],
         metrics: this.createMetrics(startTime, 'success', {
           nodeCount: irResult.ir.nodes.length,
           connectionCount: irResult.ir.connections.length,
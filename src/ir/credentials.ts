@@ -0,0 +1,397 @@
+/**
+ * Credential Mapping
+ *
+ * Flowise nodes reference credentials by id and credential type (e.g.
+ * `openAIApi`); the secret itself never leaves Flowise. A credentials mapping
+ * binds those references to where the generated project reads the secret
+ * from: an environment variable, a file, or a secret-provider lookup.
+ *
+ * Converters read every credential from the default environment variable of
+ * its type (`process.env.OPENAI_API_KEY` for `openAIApi`); binding the
+ * credentials of a node rewrites those reads, so all converters follow the
+ * mapping without knowing about it. With a secrets backend, every credential
+ * read goes through the generated secrets module instead of process.env.
+ * Agentflow nodes keep the credential of the chat model they select in its
+ * model config rather than as a credential input.
+ */
+
+import {
+  SECRETS_BACKEND_VARIABLES,
+  findSecretReads,
+  secretExpression,
+} from '../emitters/typescript/secrets.js';
+
+import type {
+  CodeFragment,
+  CredentialBinding,
+  CredentialMapping,
+  GenerationContext,
+  IRCredential,
+  IRGraph,
+  IRNode,
+  SecretsBackend,
+} from './types.js';
+
+/**
+ * Conventional file name of a credentials mapping
+ */
+export const CREDENTIALS_FILE = 'flowise.credentials.json';
+
+/**
+ * Generation options credential binding depends on
+ */
+export type CredentialContext = Pick<
+  GenerationContext,
+  'credentials' | 'secretsBackend'
+>;
+
+/**
+ * A node credential with the binding it resolved to
+ */
+export interface ResolvedCredential {
+  nodeId: string;
+  /** Flowise credential name, e.g. `openAIApi` */
+  name: string;
+  /** Flowise credential id, when the export carries one */
+  id?: string;
+  /** Environment variable the converters read the credential from */
+  defaultEnv: string;
+  binding: CredentialBinding;
+}
+
+/**
+ * An environment variable the generated project needs
+ */
+export interface EnvVariable {
+  name: string;
+  description: string;
+  example: string;
+}
+
+/**
+ * Environment variable the converters use for each Flowise credential name
+ */
+export const DEFAULT_CREDENTIAL_ENV: Record<string, string> = {
+  openAIApi: 'OPENAI_API_KEY',
+  azureOpenAIApi: 'AZURE_OPENAI_API_KEY',
+  anthropicApi: 'ANTHROPIC_API_KEY',
+  deepseekApi: 'DEEPSEEK_API_KEY',
+  cohereApi: 'COHERE_API_KEY',
+  huggingFaceApi: 'HUGGINGFACEHUB_API_TOKEN',
+  googleGenerativeAI: 'GOOGLE_API_KEY',
+  mistralAIApi: 'MISTRAL_API_KEY',
+  groqApi: 'GROQ_API_KEY',
+  replicateApi: 'REPLICATE_API_TOKEN',
+  pineconeApi: 'PINECONE_API_KEY',
+  qdrantApi: 'QDRANT_API_KEY',
+  weaviateApi: 'WEAVIATE_API_KEY',
+  supabaseApi: 'SUPABASE_SERVICE_ROLE_KEY',
+  serpApi: 'SERPAPI_API_KEY',
+  tavilyApi: 'TAVILY_API_KEY',
+  braveSearchApi: 'BRAVE_SEARCH_API_KEY',
+  exaSearchApi: 'EXA_API_KEY',
+  searchApi: 'SEARCHAPI_API_KEY',
+  momentoCacheApi: 'MOMENTO_API_KEY',
+  upstashRedisApi: 'UPSTASH_REDIS_REST_TOKEN',
+  zepMemoryApi: 'ZEP_API_KEY',
+  chatflowApi: 'FLOWISE_API_KEY',
+};
+
+/**
+ * Credential name of each chat model Agentflow nodes can select
+ */
+export const CHAT_MODEL_CREDENTIALS: Record<string, string> = {
+  chatOpenAI: 'openAIApi',
+  azureChatOpenAI: 'azureOpenAIApi',
+  chatAnthropic: 'anthropicApi',
+  chatDeepseek: 'deepseekApi',
+  chatGoogleGenerativeAI: 'googleGenerativeAI',
+  chatMistralAI: 'mistralAIApi',
+  groqChat: 'groqApi',
+};
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parse and validate a credentials mapping file
+ */
+export function parseCredentialMapping(json: string): CredentialMapping {
+  const data = JSON.parse(json) as Partial<CredentialMapping>;
+  if (!data || typeof data.credentials !== 'object' || !data.credentials) {
+    throw new Error('Credentials mapping must have a "credentials" object');
+  }
+
+  for (const [key, value] of Object.entries(data.credentials)) {
+    const binding = toBinding(value);
+    const valid =
+      'env' in binding
+        ? ENV_NAME.test(binding.env)
+        : 'file' in binding
+          ? typeof binding.file === 'string' && binding.file !== ''
+          : typeof binding.secret === 'string' && binding.secret !== '';
+    if (!valid || Object.keys(binding).length !== 1) {
+      throw new Error(
+        `Invalid binding for credential '${key}': use an env var name, { "env" }, { "file" } or { "secret" }`
+      );
+    }
+  }
+
+  return data as CredentialMapping;
+}
+
+/**
+ * Credential of the chat model a node selects in its inputs, such as
+ * `agentModel: 'chatAnthropic'` with its id in `agentModelConfig.credential`
+ */
+export function modelConfigCredential(
+  inputs: Record<string, unknown> = {}
+): IRCredential | undefined {
+  for (const [key, model] of Object.entries(inputs)) {
+    const name = typeof model === 'string' && CHAT_MODEL_CREDENTIALS[model];
+    if (!key.endsWith('Model') || !name) continue;
+
+    const config = inputs[`${key}Config`] as { credential?: unknown } | null;
+    const id = config?.credential;
+    return {
+      ...(typeof id === 'string' && id !== '' && { id }),
+      names: [name],
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the credential of a node against a mapping. Nodes without a
+ * credential, or with a credential type the converters do not know, resolve
+ * to nothing.
+ */
+export function resolveCredential(
+  node: IRNode,
+  mapping?: CredentialMapping
+): ResolvedCredential | undefined {
+  const name = node.credential?.names.find((n) => DEFAULT_CREDENTIAL_ENV[n]);
+  if (!name) return undefined;
+
+  const id = node.credential?.id;
+  const defaultEnv = DEFAULT_CREDENTIAL_ENV[name]!;
+  const entry =
+    (id !== undefined ? mapping?.credentials[id] : undefined) ??
+    mapping?.credentials[name];
+
+  return {
+    nodeId: node.id,
+    name,
+    ...(id !== undefined && { id }),
+    defaultEnv,
+    binding: entry !== undefined ? toBinding(entry) : { env: defaultEnv },
+  };
+}
+
+/**
+ * Resolve the credentials of every node in a graph
+ */
+export function resolveCredentials(
+  graph: IRGraph,
+  mapping?: CredentialMapping
+): ResolvedCredential[] {
+  return (graph.nodes || []).flatMap((node) => {
+    const credential = resolveCredential(node, mapping);
+    return credential ? [credential] : [];
+  });
+}
+
+/**
+ * Environment variables the credentials of a graph are read from
+ */
+export function credentialVariables(
+  graph: IRGraph,
+  mapping?: CredentialMapping
+): string[] {
+  const names = resolveCredentials(graph, mapping).flatMap(({ binding }) =>
+    'env' in binding ? [binding.env] : []
+  );
+  return [...new Set(names)];
+}
+
+/**
+ * Secrets backend of a generated project: the one asked for, or the HTTP
+ * provider when a credential is mapped to a secret key
+ */
+export function resolveSecretsBackend(
+  graph: IRGraph,
+  context: CredentialContext
+): SecretsBackend | undefined {
+  if (context.secretsBackend) return context.secretsBackend;
+  return resolveCredentials(graph, context.credentials).some(
+    (c) => 'secret' in c.binding
+  )
+    ? 'http'
+    : undefined;
+}
+
+/**
+ * Refuse a secrets backend nothing is read through while nodes of the graph
+ * have credentials for it: their keys would silently come from elsewhere
+ */
+export function checkSecretsBackend(
+  graph: IRGraph,
+  secretNames: string[],
+  context: CredentialContext
+): void {
+  if (!context.secretsBackend || secretNames.length > 0) return;
+
+  const labels = new Map((graph.nodes || []).map((n) => [n.id, n.label]));
+  const unread = resolveCredentials(graph, context.credentials)
+    .filter(({ binding }) => !('file' in binding))
+    .map(({ nodeId }) => labels.get(nodeId) ?? nodeId);
+  if (unread.length > 0) {
+    throw new Error(
+      `No node reads its credential through the ${context.secretsBackend} secrets backend; credentials of ${[...new Set(unread)].join(', ')} would bypass it`
+    );
+  }
+}
+
+/**
+ * TypeScript expression that reads a bound credential
+ */
+export function credentialExpression(
+  binding: CredentialBinding,
+  context: CredentialContext
+): string {
+  if ('file' in binding) {
+    return `readFileSync(${JSON.stringify(binding.file)}, "utf8").trim()`;
+  }
+  if ('secret' in binding) return secretExpression(binding.secret);
+  return context.secretsBackend
+    ? secretExpression(binding.env)
+    : `process.env.${binding.env}`;
+}
+
+/**
+ * Rewrite the credential reads in the fragments of a node to its binding.
+ * With a secrets backend, reads of any known credential variable go through
+ * the secrets module too.
+ */
+export function bindCredentials(
+  fragments: CodeFragment[],
+  node: IRNode,
+  context: CredentialContext
+): CodeFragment[] {
+  const reads = new Map<string, string>();
+  if (context.secretsBackend) {
+    for (const env of Object.values(DEFAULT_CREDENTIAL_ENV)) {
+      reads.set(env, secretExpression(env));
+    }
+  }
+
+  const credential = resolveCredential(node, context.credentials);
+  if (credential) {
+    reads.set(
+      credential.defaultEnv,
+      credentialExpression(credential.binding, context)
+    );
+  }
+  for (const [env, expression] of reads) {
+    if (expression === `process.env.${env}`) reads.delete(env);
+  }
+  if (reads.size === 0) return fragments;
+
+  const names = [...reads.keys()].join('|');
+  const read = new RegExp(
+    `process\\.env(?:\\.(${names})\\b|\\[\\s*['"](${names})['"]\\s*\\])`,
+    'g'
+  );
+  return fragments.map((f) =>
+    f.type === 'import'
+      ? f
+      : {
+          ...f,
+          content: f.content.replace(
+            read,
+            (_, dotted?: string, indexed?: string) =>
+              reads.get((dotted ?? indexed)!)!
+          ),
+        }
+  );
+}
+
+/**
+ * Imports the generated file needs for the credential reads in use
+ */
+export function credentialImports(
+  graph: IRGraph,
+  context: CredentialContext
+): string[] {
+  const imports: string[] = [];
+
+  const credentials = resolveCredentials(graph, context.credentials);
+  if (credentials.some((c) => 'file' in c.binding)) {
+    imports.push('import { readFileSync } from "fs";');
+  }
+  if (context.secretsBackend) {
+    imports.push('import { getSecret } from "./secrets.js";');
+  }
+
+  return imports;
+}
+
+/**
+ * Environment variables a generated project needs: the credentials read from
+ * the environment, the configuration of its secrets backend, and every other
+ * variable the generated code reads.
+ */
+export function collectEnvVariables(
+  graph: IRGraph,
+  code: string,
+  context: CredentialContext
+): EnvVariable[] {
+  const backend = context.secretsBackend;
+  // The env and dotenv backends read the same variables as process.env does
+  const fromEnvironment = !backend || backend === 'env' || backend === 'dotenv';
+
+  const labels = new Map((graph.nodes || []).map((n) => [n.id, n.label]));
+  const credentials = new Map<string, { about: string; labels: string[] }>();
+  for (const credential of resolveCredentials(graph, context.credentials)) {
+    const { binding } = credential;
+    if (!('env' in binding) || !fromEnvironment) continue;
+
+    const entry = credentials.get(binding.env) ?? {
+      about: `${credential.name} credential`,
+      labels: [],
+    };
+    entry.labels.push(labels.get(credential.nodeId) ?? credential.nodeId);
+    credentials.set(binding.env, entry);
+  }
+
+  const variables = new Map<string, EnvVariable>();
+  for (const [name, { about, labels: users }] of credentials) {
+    variables.set(name, {
+      name,
+      description: `${about} (${users.join(', ')})`,
+      example: `your_${name.toLowerCase()}_here`,
+    });
+  }
+  for (const variable of backend ? SECRETS_BACKEND_VARIABLES[backend] : []) {
+    variables.set(variable.name, { ...variable });
+  }
+
+  const read = /process\.env(?:\.([A-Za-z_]\w*)|\[\s*['"]([^'"]+)['"]\s*\])/g;
+  const names = [...code.matchAll(read)].map((m) => (m[1] ?? m[2])!);
+  if (fromEnvironment) {
+    names.push(...findSecretReads(code).filter((n) => ENV_NAME.test(n)));
+  }
+  for (const name of names) {
+    if (variables.has(name)) continue;
+    variables.set(name, {
+      name,
+      description: 'Read by the generated code',
+      example: `your_${name.toLowerCase()}_here`,
+    });
+  }
+
+  return [...variables.values()];
+}
+
+function toBinding(value: CredentialBinding | string): CredentialBinding {
+  return typeof value === 'string' ? { env: value } : value;
+}
@@ -22,9 +22,16 @@ export type {
   TransformationMetrics,
   GraphStats,
   TransformationResult,
+  CredentialBinding,
+  CredentialMapping,
 } from './types.js';
 
 export { IRGraphAnalyzer } from './graph.js';
+export {
+  CREDENTIALS_FILE,
+  parseCredentialMapping,
+  resolveCredentials,
+} from './credentials.js';
 export { FlowiseToIRTransformer, IRToCodeTransformer } from './transformer.js';
 
 // Import classes for processor
@@ -7,6 +7,56 @@
  * - IR optimization and validation
  */
 
+import { createLangGraphEmitter } from '../emitters/langgraph/index.js';
+import { createPythonEmitter } from '../emitters/python/index.js';
+import { createCassetteFile } from '../emitters/typescript/cassette.js';
+import {
+  getDependencyVersion,
+  getLangChainPackage,
+  getLangChainPackageVersion,
+  mapLangChainImports,
+  resolveLangChainTarget,
+  selectLangChainTarget,
+} from '../emitters/typescript/langchain-versions.js';
+import {
+  createGenerationManifest,
+  createManifestFile,
+  withUserRegion,
+} from '../emitters/typescript/regeneration.js';
+import {
+  SECRETS_STAND_IN_FILE,
+  createSecretsFiles,
+  findSecretReads,
+} from '../emitters/typescript/secrets.js';
+import {
+  createNodeSourceMap,
+  createSourceMapFile,
+  findNodeRegions,
+  wrapNodeRegion,
+} from '../emitters/typescript/source-map.js';
+import {
+  TEST_DEV_DEPENDENCIES,
+  TEST_SCRIPT,
+  createTestHarnessFiles,
+} from '../emitters/typescript/test-harness.js';
+import {
+  generateAgentflowRuntimeTypes,
+  getAgentflowStepName,
+  isAgentflowNodeType,
+  isAgentflowStepType,
+} from '../registry/converters/agentflow-v2.js';
+import { ConverterFactory } from '../registry/registry.js';
+
+import {
+  bindCredentials,
+  checkSecretsBackend,
+  collectEnvVariables,
+  credentialImports,
+  modelConfigCredential,
+  resolveSecretsBackend,
+} from './credentials.js';
+import { IRGraphAnalyzer } from './graph.js';
+import { NodeTemplates, StandardNodeFactory } from './nodes.js';
 import {
   FlowiseChatFlow,
   FlowiseNode,
@@ -15,6 +65,7 @@ import {
   IRNode,
   IRConnection,
   IRGraphMetadata,
+  IRCredential,
   CodeFragment,
   GenerationContext,
   ValidationResult,
@@ -22,9 +73,6 @@ import {
   CodeGenerationResult,
   GeneratedFile,
 } from './types.js';
-import { StandardNodeFactory } from './nodes.js';
-import { IRGraphAnalyzer } from './graph.js';
-import { ConverterFactory } from '../registry/registry.js';
 
 /**
  * Transformation result containing the converted IR and metadata
@@ -211,12 +259,13 @@ export class FlowiseToIRTransformer {
   private async transformNode(flowiseNode: FlowiseNode): Promise<IRNode> {
     const { data } = flowiseNode;
 
-    // Create base node using factory
-    const node = this.nodeFactory.createNode(
-      data.name || data.type,
-      flowiseNode.id,
-      data.label
-    );
+    // Create base node using factory, or from the registry when only a
+    // converter (no IR template) exists for the type
+    const type = data.name || data.type;
+    const node =
+      !NodeTemplates[type] && ConverterFactory.getRegistry().hasConverter(type)
+        ? this.createRegistryNode(flowiseNode, type)
+        : this.nodeFactory.createNode(type, flowiseNode.id, data.label);
 
     // Update position
     node.position = {
@@ -230,6 +279,12 @@ export class FlowiseToIRTransformer {
       data.inputParams || []
     );
 
+    // Credential reference; the secret itself stays in Flowise
+    const credential = this.transformCredential(data);
+    if (credential) {
+      node.credential = credential;
+    }
+
     // Update metadata
     node.metadata = {
       ...node.metadata,
@@ -273,6 +328,21 @@ export class FlowiseToIRTransformer {
     return parameters;
   }
 
+  private transformCredential(
+    data: FlowiseNode['data']
+  ): IRCredential | undefined {
+    const names = (data.inputParams || [])
+      .filter((p) => p.type === 'credential')
+      .flatMap((p) => p.credentialNames || []);
+    const id = data.credential || data.inputs?.['credential'];
+
+    if (names.length === 0 && !id) return modelConfigCredential(data.inputs);
+    return {
+      ...(typeof id === 'string' && id !== '' && { id }),
+      names,
+    };
+  }
+
   private inferParameterType(
     value: unknown,
     flowiseType?: string
@@ -326,6 +396,46 @@ export class FlowiseToIRTransformer {
     }));
   }
 
+  private createRegistryNode(flowiseNode: FlowiseNode, type: string): IRNode {
+    const converter = ConverterFactory.getRegistry().getConverter(type);
+    const categories: IRNode['category'][] = [
+      'llm',
+      'chain',
+      'agent',
+      'tool',
+      'memory',
+      'vectorstore',
+      'embedding',
+      'prompt',
+      'retriever',
+      'output_parser',
+      'text_splitter',
+      'loader',
+      'utility',
+      'control_flow',
+    ];
+    const category = categories.find((c) => c === converter?.category);
+
+    return {
+      id: flowiseNode.id,
+      type,
+      label: flowiseNode.data.label || type,
+      category:
+        category ??
+        (converter?.category === 'agentflow-v2' ? 'control_flow' : 'utility'),
+      inputs: [],
+      outputs: [],
+      parameters: [],
+      position: { x: 0, y: 0 },
+      data: {
+        outputs: flowiseNode.data.outputs,
+      },
+      metadata: {
+        description: flowiseNode.data.description,
+      },
+    };
+  }
+
   private createFallbackNode(flowiseNode: FlowiseNode): IRNode {
     return {
       id: flowiseNode.id,
@@ -389,9 +499,32 @@ export class IRToCodeTransformer {
     graph: IRGraph,
     context: GenerationContext
   ): Promise<CodeGenerationResult> {
+    // Python has its own converter set rather than the TypeScript fragments
+    if (context.targetLanguage === 'python') {
+      return createPythonEmitter().generateCode(graph, context);
+    }
+
     // const _startTime = Date.now(); // Unused
     const fragments: CodeFragment[] = [];
 
+    // Converters and files below see the secrets backend actually in use,
+    // and the release line the flow's packages need when none is asked for
+    context = {
+      ...context,
+      secretsBackend: resolveSecretsBackend(graph, context),
+      environment: {
+        ...context.environment,
+        langchainVersion:
+          context.environment?.langchainVersion ??
+          selectLangChainTarget(
+            ConverterFactory.getRegistry().getAllDependencies(
+              graph.nodes || [],
+              context
+            )
+          ),
+      },
+    };
+
     try {
       // Generate imports
       fragments.push(...this.generateImports(graph, context));
@@ -405,7 +538,7 @@ export class IRToCodeTransformer {
       fragments.push(...this.generateExecutionCode(graph, context));
 
       // Generate files
-      const files = this.generateFiles(fragments, context);
+      const files = this.generateFiles(fragments, context, graph);
 
       const endTime = Date.now();
       // Remove unused variable warning
@@ -418,23 +551,64 @@ export class IRToCodeTransformer {
         metadata: {
           projectName: context.projectName || 'langchain-app',
           targetLanguage: context.targetLanguage || 'typescript',
-          langchainVersion: context.environment?.langchainVersion || '0.2.17',
+          langchainVersion: getLangChainPackageVersion(
+            'langchain',
+            resolveLangChainTarget(context.environment?.langchainVersion)
+          )!.replace(/^\^/, ''),
           nodeVersion: context.environment?.nodeVersion,
           generatedAt: new Date().toISOString(),
           totalNodes: graph.nodes.length,
           totalConnections: graph.connections.length,
           estimatedComplexity: graph.analysis?.complexity || 'simple',
           features: this.extractFeatures(graph),
-          warnings: [],
+          warnings: fragments.flatMap(
+            (fragment) => fragment.metadata?.warnings ?? []
+          ),
         },
         scripts: this.generateScripts(context),
-        packageInfo: this.generatePackageJson(context),
+        packageInfo: this.generatePackageJson(context, graph),
       };
     } catch (error) {
       throw new Error(`Code generation failed: ${error}`);
     }
   }
 
+  /**
+   * Imports and per-node code of a graph as generateCode emits them, with
+   * the variable each node's object is bound to, for running a flow in
+   * process without writing a project
+   */
+  generateNodeFragments(
+    graph: IRGraph,
+    context: GenerationContext
+  ): {
+    imports: CodeFragment[];
+    nodes: Array<{
+      node: IRNode;
+      variableName: string;
+      fragments: CodeFragment[];
+    }>;
+  } {
+    const target = resolveLangChainTarget(
+      context.environment?.langchainVersion
+    );
+    const mapImports = (fragments: CodeFragment[]) =>
+      fragments.map((f) =>
+        f.type === 'import'
+          ? { ...f, content: mapLangChainImports(f.content, target) }
+          : f
+      );
+
+    return {
+      imports: mapImports(this.generateImports(graph, context)),
+      nodes: (graph.nodes || []).map((node) => ({
+        node,
+        variableName: this.getVariableName(node),
+        fragments: mapImports(this.generateNodeCode(node, context, graph)),
+      })),
+    };
+  }
+
   private generateImports(
     graph: IRGraph,
     context: GenerationContext
@@ -442,11 +616,20 @@ export class IRToCodeTransformer {
     const imports = new Set<string>();
     const fragments: CodeFragment[] = [];
 
-    // Standard LangChain imports
-    imports.add('import { LLMChain } from "langchain/chains";');
-    imports.add(
-      'import { PromptTemplate, ChatPromptTemplate } from "@langchain/core/prompts";'
-    );
+    // Standard LangChain imports, which Agentflow V2 steps import for
+    // themselves; LCEL chains end in an output parser
+    if (!graph.nodes.some((node) => isAgentflowNodeType(node.type))) {
+      if (!context.lcel) {
+        imports.add('import { LLMChain } from "langchain/chains";');
+      } else if (graph.nodes.some((node) => node.type === 'llmChain')) {
+        imports.add(
+          'import { StringOutputParser } from "@langchain/core/output_parsers";'
+        );
+      }
+      imports.add(
+        'import { PromptTemplate, ChatPromptTemplate } from "@langchain/core/prompts";'
+      );
+    }
 
     // Add imports based on node types
     for (const node of graph.nodes || []) {
@@ -496,6 +679,11 @@ export class IRToCodeTransformer {
     imports.add('import * as dotenv from "dotenv";');
     imports.add('dotenv.config();');
 
+    // Credentials mapped to files or read through the secrets module
+    credentialImports(graph, context).forEach((statement) =>
+      imports.add(statement)
+    );
+
     let order = 0;
     for (const importStatement of imports) {
       fragments.push({
@@ -569,10 +757,51 @@ export class IRToCodeTransformer {
         fragments.push(...this.generateAgentNode(node, context, graph));
         break;
       default:
-        fragments.push(this.generateGenericNode(node, context));
+        if (ConverterFactory.getRegistry().hasConverter(node.type)) {
+          fragments.push(...this.generateRegistryNode(node, context, graph));
+        } else {
+          fragments.push(this.generateGenericNode(node, context));
+        }
     }
 
-    return fragments;
+    return bindCredentials(fragments, node, context);
+  }
+
+  /**
+   * Generate code for a node through its registered converter
+   */
+  private generateRegistryNode(
+    node: IRNode,
+    context: GenerationContext,
+    graph?: IRGraph
+  ): CodeFragment[] {
+    const converter = ConverterFactory.getRegistry().getConverter(node.type);
+
+    if (converter) {
+      try {
+        // Connected nodes are referenced by the names this transformer uses
+        const fragments = converter.convert(withConnectedInputs(node, graph), {
+          ...context,
+          resolveNodeReference:
+            context.resolveNodeReference ??
+            ((nodeId) => {
+              const target = graph?.nodes.find((n) => n.id === nodeId);
+              return target
+                ? this.getVariableName(target)
+                : nodeId.replace(/[^a-zA-Z0-9]/g, '_');
+            }),
+        });
+        if (fragments.length > 0) {
+          return fragments;
+        }
+      } catch (error) {
+        console.warn(
+          `Failed to use registry converter for ${node.type}: ${error}`
+        );
+      }
+    }
+
+    return [this.generateGenericNode(node, context)];
   }
 
   private generateOpenAINode(
@@ -650,14 +879,19 @@ export class IRToCodeTransformer {
     context: GenerationContext
   ): CodeFragment {
     const params = this.getNodeParameters(node);
-    const systemMessage = params['systemMessage'];
-    const humanMessage = params['humanMessage'] || '{input}';
+    // Flowise names a chat prompt's messages *MessagePrompt
+    const systemMessage = params['systemMessagePrompt'] ?? params['systemMessage'];
+    const humanMessage =
+      params['humanMessagePrompt'] || params['humanMessage'] || '{input}';
+    const isChat = node.type === 'chatPromptTemplate' || !!systemMessage;
 
     let content = `// ${node.label}\n`;
 
-    if (systemMessage) {
+    if (isChat) {
       content += `const ${this.getVariableName(node)} = ChatPromptTemplate.fromMessages([\n`;
-      content += `  ["system", "${this.escapeString(systemMessage)}"],\n`;
+      if (systemMessage) {
+        content += `  ["system", "${this.escapeString(systemMessage)}"],\n`;
+      }
       content += `  ["human", "${this.escapeString(humanMessage)}"],\n`;
       content += `]);`;
     } else {
@@ -670,7 +904,7 @@ export class IRToCodeTransformer {
       id: `node-${node.id}`,
       type: 'initialization',
       content,
-      dependencies: systemMessage ? ['ChatPromptTemplate'] : ['PromptTemplate'],
+      dependencies: isChat ? ['ChatPromptTemplate'] : ['PromptTemplate'],
       language: context.targetLanguage,
       metadata: {
         nodeId: node.id,
@@ -689,12 +923,38 @@ export class IRToCodeTransformer {
     const params = this.getNodeParameters(node);
     const outputKey = params['outputKey'] || 'text';
 
-    let content = `// ${node.label}\n`;
-    content += `const ${this.getVariableName(node)} = new LLMChain({\n`;
-
     const llmInput = this.getInputVariableName(node, 'model', graph);
     const promptInput = this.getInputVariableName(node, 'prompt', graph);
 
+    if (context.lcel) {
+      const parser = graph
+        ? this.findConnectionWithMultipleStrategies(node, 'outputParser', graph)
+        : undefined;
+      const parserNode = graph?.nodes.find((n) => n.id === parser?.source);
+
+      let content = `// ${node.label}\n`;
+      content += `const ${this.getVariableName(node)} = ${promptInput}\n`;
+      content += `  .pipe(${llmInput})\n`;
+      content += `  .pipe(${parserNode ? this.getVariableName(parserNode) : 'new StringOutputParser()'});`;
+
+      return {
+        id: `node-${node.id}`,
+        type: 'initialization',
+        content,
+        dependencies: ['StringOutputParser'],
+        language: context.targetLanguage,
+        metadata: {
+          nodeId: node.id,
+          order: 300,
+          category: 'chain',
+          exports: [this.getVariableName(node)],
+        },
+      };
+    }
+
+    let content = `// ${node.label}\n`;
+    content += `const ${this.getVariableName(node)} = new LLMChain({\n`;
+
     content += `  llm: ${llmInput},\n`;
     content += `  prompt: ${promptInput},\n`;
 
@@ -1083,19 +1343,52 @@ export class IRToCodeTransformer {
   ): CodeFragment[] {
     const fragments: CodeFragment[] = [];
 
-    // Main execution function
-    let content = `\n// Main execution function\n`;
-    content += `export async function runFlow(input: string): Promise<string> {\n`;
+    if (context.emitter === 'langgraph') {
+      return createLangGraphEmitter()
+        .generateFragments(graph, context)
+        .map((fragment) =>
+          fragment.type === 'execution'
+            ? {
+                ...fragment,
+                content: `\n${fragment.content}\n${this.generateCliEntryPoint()}`,
+              }
+            : fragment
+        );
+    }
+
+    if (graph.nodes.some((node) => isAgentflowNodeType(node.type))) {
+      return this.generateAgentflowExecutionCode(graph, context);
+    }
 
+    let langfuseSetup = '';
     if (context.includeLangfuse) {
-      content += `  // Initialize LangFuse callback\n`;
-      content += `  const langfuseHandler = new LangfuseCallbackHandler({\n`;
-      content += `    publicKey: process.env.LANGFUSE_PUBLIC_KEY,\n`;
-      content += `    secretKey: process.env.LANGFUSE_SECRET_KEY,\n`;
-      content += `    baseUrl: process.env.LANGFUSE_BASE_URL,\n`;
-      content += `  });\n\n`;
+      langfuseSetup += `  // Initialize LangFuse callback\n`;
+      langfuseSetup += `  const langfuseHandler = new LangfuseCallbackHandler({\n`;
+      langfuseSetup += `    publicKey: process.env.LANGFUSE_PUBLIC_KEY,\n`;
+      langfuseSetup += `    secretKey: process.env.LANGFUSE_SECRET_KEY,\n`;
+      langfuseSetup += `    baseUrl: process.env.LANGFUSE_BASE_URL,\n`;
+      langfuseSetup += `  });\n\n`;
+    }
+    // LCEL runnables take callbacks in their call options
+    const invokeOptions = context.includeLangfuse
+      ? ', { callbacks: [langfuseHandler] }'
+      : '';
+    let streamFlow = '';
+
+    let content = '';
+    if (context.lcel) {
+      content += `\n// Text of a runnable's result: parsed output, a retrieval answer or an agent output\n`;
+      content += `function outputText(result: any): string {\n`;
+      content += `  if (typeof result === "string") return result;\n`;
+      content += `  return result?.answer ?? result?.output ?? result?.text ?? result?.content ?? JSON.stringify(result);\n`;
+      content += `}\n`;
     }
 
+    // Main execution function
+    content += `\n// Main execution function\n`;
+    content += `export async function runFlow(input: string): Promise<string> {\n`;
+    content += langfuseSetup;
+
     // Find the main chain or entry point
     // Analysis entry points available if needed
     // const entryPoints = graph.analysis?.entryPoints || [];
@@ -1107,25 +1400,42 @@ export class IRToCodeTransformer {
         const variableName = this.getVariableName(mainChain);
 
         // Check if this is an agent that needs initialization
+        let agentSetup = '';
         if (
           mainChain.type.includes('Agent') ||
           mainChain.type.includes('agent')
         ) {
-          content += `  // Initialize agent if not already initialized\n`;
-          content += `  if (!${variableName}) {\n`;
-          content += `    ${variableName} = await setupAgent();\n`;
-          content += `  }\n\n`;
+          agentSetup += `  // Initialize agent if not already initialized\n`;
+          agentSetup += `  if (!${variableName}) {\n`;
+          agentSetup += `    ${variableName} = await setupAgent();\n`;
+          agentSetup += `  }\n\n`;
         }
+        content += agentSetup;
+
+        if (context.lcel) {
+          content += `  const result = await ${variableName}.invoke({ input }${invokeOptions});\n\n`;
+          content += `  return outputText(result);\n`;
+
+          streamFlow += `// Stream the flow's answer as it is generated\n`;
+          streamFlow += `export async function* streamFlow(input: string): AsyncGenerator<string> {\n`;
+          streamFlow += langfuseSetup + agentSetup;
+          streamFlow += `  const stream = await ${variableName}.stream({ input }${invokeOptions});\n`;
+          streamFlow += `  for await (const chunk of stream as AsyncIterable<any>) {\n`;
+          streamFlow += `    const text = typeof chunk === "string" ? chunk : chunk?.answer ?? chunk?.output ?? chunk?.content;\n`;
+          streamFlow += `    if (typeof text === "string" && text) yield text;\n`;
+          streamFlow += `  }\n`;
+          streamFlow += `}\n\n`;
+        } else {
+          content += `  const result = await ${variableName}.call({\n`;
+          content += `    input: input,\n`;
 
-        content += `  const result = await ${variableName}.call({\n`;
-        content += `    input: input,\n`;
+          if (context.includeLangfuse) {
+            content += `    callbacks: [langfuseHandler],\n`;
+          }
 
-        if (context.includeLangfuse) {
-          content += `    callbacks: [langfuseHandler],\n`;
+          content += `  });\n\n`;
+          content += `  return result.text || result.output || JSON.stringify(result);\n`;
         }
-
-        content += `  });\n\n`;
-        content += `  return result.text || result.output || JSON.stringify(result);\n`;
       }
     } else {
       // Complex flow with multiple entry points or no clear exit point
@@ -1152,6 +1462,10 @@ export class IRToCodeTransformer {
               content += `    ${varName} = await setupAgent();\n`;
               content += `  }\n`;
             }
+            if (context.lcel) {
+              content += `  results.push(outputText(await ${varName}.invoke({ input }${invokeOptions})));\n`;
+              continue;
+            }
             content += `  results.push(await ${varName}.call({ input })`;;
             if (context.includeLangfuse) {
               content += `, callbacks: [langfuseHandler] }`;
@@ -1218,6 +1532,11 @@ export class IRToCodeTransformer {
             content += `  };\n\n`;
             
             // Execute the node
+            if (context.lcel) {
+              content += `  const ${varName}_output = await ${varName}.invoke(${varName}_input${invokeOptions});\n`;
+              content += `  nodeOutputs.set('${nodeId}', outputText(${varName}_output));\n\n`;
+              continue;
+            }
             content += `  const ${varName}_output = await ${varName}.call({\n`;
             content += `    ...${varName}_input,\n`;
             if (context.includeLangfuse) {
@@ -1258,20 +1577,8 @@ export class IRToCodeTransformer {
     }
 
     content += `}\n\n`;
-
-    // CLI entry point
-    content += `// CLI entry point\n`;
-    content += `if (import.meta.url === \`file://\${process.argv[1]}\`) {\n`;
-    content += `  const input = process.argv[2] || "Hello, world!";\n`;
-    content += `  runFlow(input)\n`;
-    content += `    .then(result => {\n`;
-    content += `      console.log("Result:", result);\n`;
-    content += `    })\n`;
-    content += `    .catch(error => {\n`;
-    content += `      console.error("Error:", error);\n`;
-    content += `      process.exit(1);\n`;
-    content += `    });\n`;
-    content += `}`;
+    content += streamFlow;
+    content += this.generateCliEntryPoint();
 
     fragments.push({
       id: 'execution',
@@ -1283,16 +1590,129 @@ export class IRToCodeTransformer {
         order: 1000,
         category: 'execution',
         async: true,
-        exports: ['runFlow'],
+        exports: streamFlow ? ['runFlow', 'streamFlow'] : ['runFlow'],
       },
     });
 
     return fragments;
   }
 
+  /**
+   * Generate runFlow for Agentflow V2 graphs: start at the Start node and
+   * follow edges between step functions, honouring condition branches
+   * (`<id>-output-<n>` source handles) and loop jumps.
+   */
+  private generateAgentflowExecutionCode(
+    graph: IRGraph,
+    context: GenerationContext
+  ): CodeFragment[] {
+    const steps = graph.nodes.filter((node) => isAgentflowStepType(node.type));
+    const stepIds = new Set(steps.map((node) => node.id));
+    const edges = graph.connections.filter(
+      (c) => stepIds.has(c.source) && stepIds.has(c.target)
+    );
+
+    let entryIds = steps
+      .filter((node) => node.type === 'startAgentflow')
+      .map((node) => node.id);
+    if (entryIds.length === 0) {
+      entryIds = steps
+        .filter((node) => !edges.some((c) => c.target === node.id))
+        .map((node) => node.id);
+    }
+
+    let content = `\n${generateAgentflowRuntimeTypes()}\n`;
+    content += `const agentflowSteps: Record<string, AgentflowStep> = {\n`;
+    for (const node of steps) {
+      content += `  ${JSON.stringify(node.id)}: ${getAgentflowStepName(node.id)},\n`;
+    }
+    content += `};\n\n`;
+
+    content += `const agentflowEdges: Array<{ source: string; target: string; branch?: number }> = [\n`;
+    for (const edge of edges) {
+      const branch = edge.sourceHandle?.match(/-output-(\d+)$/);
+      content += `  { source: ${JSON.stringify(edge.source)}, target: ${JSON.stringify(edge.target)}`;
+      content += branch ? `, branch: ${branch[1]} },\n` : ` },\n`;
+    }
+    content += `];\n\n`;
+
+    content += `// Main execution function\n`;
+    content += `export async function runFlow(input: string): Promise<string> {\n`;
+    content += `  const flow: AgentflowRuntime = {\n`;
+    content += `    input,\n`;
+    content += `    state: {},\n`;
+    content += `    messages: [],\n`;
+    content += `    outputs: {},\n`;
+    content += `    loopCounts: {},\n`;
+    content += `  };\n`;
+    content += `  const queue: string[] = ${JSON.stringify(entryIds)};\n`;
+    content += `  let reply = '';\n\n`;
+    content += `  for (let executed = 0; queue.length > 0; executed++) {\n`;
+    content += `    if (executed >= 1000) {\n`;
+    content += `      throw new Error('Agentflow exceeded 1000 steps');\n`;
+    content += `    }\n`;
+    content += `    const nodeId = queue.shift()!;\n`;
+    content += `    const step = agentflowSteps[nodeId];\n`;
+    content += `    if (!step) continue;\n\n`;
+    content += `    const result = await step(flow);\n`;
+    content += `    flow.outputs[nodeId] = result.output;\n`;
+    content += `    if (result.reply !== undefined) {\n`;
+    content += `      reply = result.reply;\n`;
+    content += `    }\n`;
+    content += `    if (result.goto) {\n`;
+    content += `      queue.push(result.goto);\n`;
+    content += `      continue;\n`;
+    content += `    }\n`;
+    content += `    for (const edge of agentflowEdges) {\n`;
+    content += `      if (\n`;
+    content += `        edge.source === nodeId &&\n`;
+    content += `        (edge.branch === undefined || edge.branch === result.branch)\n`;
+    content += `      ) {\n`;
+    content += `        queue.push(edge.target);\n`;
+    content += `      }\n`;
+    content += `    }\n`;
+    content += `  }\n\n`;
+    content += `  return reply;\n`;
+    content += `}\n\n`;
+    content += this.generateCliEntryPoint();
+
+    return [
+      {
+        id: 'execution',
+        type: 'execution',
+        content,
+        dependencies: [],
+        language: context.targetLanguage,
+        metadata: {
+          order: 1000,
+          category: 'execution',
+          async: true,
+          exports: ['runFlow'],
+        },
+      },
+    ];
+  }
+
+  private generateCliEntryPoint(): string {
+    let content = `// CLI entry point\n`;
+    content += `if (import.meta.url === \`file://\${process.argv[1]}\`) {\n`;
+    content += `  const input = process.argv[2] || "Hello, world!";\n`;
+    content += `  runFlow(input)\n`;
+    content += `    .then(result => {\n`;
+    content += `      console.log("Result:", result);\n`;
+    content += `    })\n`;
+    content += `    .catch(error => {\n`;
+    content += `      console.error("Error:", error);\n`;
+    content += `      process.exit(1);\n`;
+    content += `    });\n`;
+    content += `}`;
+    return content;
+  }
+
   private generateFiles(
     fragments: CodeFragment[],
-    context: GenerationContext
+    context: GenerationContext,
+    graph?: IRGraph
   ): GeneratedFile[] {
     const files: GeneratedFile[] = [];
 
@@ -1309,19 +1729,109 @@ export class IRToCodeTransformer {
       (a, b) => (a.metadata?.order || 0) - (b.metadata?.order || 0)
     );
 
-    const sourceContent = sourceFragments.map((f) => f.content).join('\n\n');
+    // Converters import from the 0.2 entrypoints; map them to the target
+    // LangChain release line
+    const target = resolveLangChainTarget(
+      context.environment?.langchainVersion
+    );
+    for (const [index, f] of sourceFragments.entries()) {
+      if (f.type === 'import') {
+        sourceFragments[index] = {
+          ...f,
+          content: mapLangChainImports(f.content, target),
+        };
+      }
+    }
+
+    // Several converters may import the same statement or binding; the
+    // first import of a name wins
+    const seenImports = new Set<string>();
+    const importedNames = new Set<string>();
+    const uniqueFragments = sourceFragments.flatMap((f) => {
+      if (f.type !== 'import') return [f];
 
-    files.push({
+      const named = f.content.match(
+        /^import\s*\{([^}]*)\}\s*from\s*(['"][^'"]+['"]);?$/
+      );
+      if (!named) {
+        if (seenImports.has(f.content)) return [];
+        seenImports.add(f.content);
+        return [f];
+      }
+
+      const specifiers = named[1]!
+        .split(',')
+        .map((specifier) => specifier.trim())
+        .filter(Boolean);
+      const fresh = specifiers.filter((specifier) => {
+        const binding = specifier
+          .replace(/^type\s+/, '')
+          .split(/\s+as\s+/)
+          .pop()!;
+        if (importedNames.has(binding)) return false;
+        importedNames.add(binding);
+        return true;
+      });
+
+      if (fresh.length === 0) return [];
+      if (fresh.length === specifiers.length) return [f];
+      return [
+        { ...f, content: `import { ${fresh.join(', ')} } from ${named[2]};` },
+      ];
+    });
+
+    // Node code is wrapped in region markers; the regions are read back from
+    // the assembled file so they stay correct however fragments are joined.
+    // Each node and the import block get a user region for hand edits
+    const lastImport = uniqueFragments.map((f) => f.type).lastIndexOf('import');
+    const sourceContent = uniqueFragments
+      .map((f, index) => {
+        const node =
+          f.type !== 'import' && f.metadata?.nodeId
+            ? graph?.nodes.find((n) => n.id === f.metadata!.nodeId)
+            : undefined;
+        if (node) {
+          return wrapNodeRegion(withUserRegion(f.content, node.id), node);
+        }
+        return index === lastImport
+          ? withUserRegion(f.content, 'imports')
+          : f.content;
+      })
+      .join('\n\n');
+
+    const mainFile: GeneratedFile = {
       path: 'src/index.ts',
       content: sourceContent,
       type: 'main',
       dependencies: [],
       exports: ['default'],
       size: sourceContent.length,
-    });
+      nodeRegions: findNodeRegions(sourceContent),
+    };
+    files.push(mainFile);
+
+    if (graph) {
+      files.push(createSourceMapFile(createNodeSourceMap([mainFile], graph)));
+    }
+
+    if (context.secretsBackend) {
+      const secretNames = findSecretReads(sourceContent);
+      if (graph) checkSecretsBackend(graph, secretNames, context);
+      files.push(...createSecretsFiles(context.secretsBackend, secretNames));
+    }
+
+    // Record/replay of model and tool calls, which the tests can use too
+    if ((context.cassettes || context.includeTests) && graph) {
+      files.push(createCassetteFile(graph, [mainFile], context));
+    }
+
+    // Jest tests that run the flow against scripted fakes
+    if (context.includeTests && graph) {
+      files.push(...createTestHarnessFiles(graph, [mainFile], context));
+    }
 
     // Package.json
-    const packageJson = this.generatePackageJson(context);
+    const packageJson = this.generatePackageJson(context, graph);
     files.push({
       path: 'package.json',
       content: JSON.stringify(packageJson, null, 2),
@@ -1332,7 +1842,7 @@ export class IRToCodeTransformer {
     });
 
     // Environment file
-    const envContent = this.generateEnvFile(context);
+    const envContent = this.generateEnvFile(context, graph, sourceContent);
     files.push({
       path: '.env.example',
       content: envContent,
@@ -1355,6 +1865,8 @@ export class IRToCodeTransformer {
       });
     }
 
+    files.push(createManifestFile(createGenerationManifest(files)));
+
     return files;
   }
 
@@ -1509,10 +2021,13 @@ export class IRToCodeTransformer {
     graph: IRGraph,
     context: GenerationContext
   ): Record<string, string> {
+    const target = resolveLangChainTarget(
+      context.environment?.langchainVersion
+    );
     const deps: Record<string, string> = {
-      langchain: '^0.2.17',
-      '@langchain/core': '^0.2.30',
-      '@langchain/openai': '^0.2.7',
+      langchain: getDependencyVersion('langchain', target),
+      '@langchain/core': getDependencyVersion('@langchain/core', target),
+      '@langchain/openai': getDependencyVersion('@langchain/openai', target),
       dotenv: '^16.4.5',
     };
 
@@ -1520,23 +2035,49 @@ export class IRToCodeTransformer {
       deps['@langfuse/langchain'] = '^3.0.0';
     }
 
+    if (context.emitter === 'langgraph') {
+      deps['@langchain/langgraph'] = getDependencyVersion(
+        '@langchain/langgraph',
+        target
+      );
+    }
+
+    if (context.secretsBackend === 'yaml') {
+      deps['yaml'] = '^2.5.0';
+    }
+
     // Add dependencies based on node types
     for (const node of graph.nodes || []) {
       switch (node.type) {
         case 'anthropic':
-          deps['@langchain/anthropic'] = '^0.2.7';
+          deps['@langchain/anthropic'] = getDependencyVersion(
+            '@langchain/anthropic',
+            target
+          );
           break;
         case 'pinecone':
           deps['@pinecone-database/pinecone'] = '^2.2.0';
           break;
         // Add more as needed
       }
+
+      // Registry converters declare the packages their code imports
+      const converter = ConverterFactory.getRegistry().getConverter(node.type);
+      for (const dep of converter?.getDependencies(node, context) || []) {
+        // Subpath entries such as '@langchain/core/runnables' name their
+        // package; some packages are folded into another in older lines
+        const packageName = getLangChainPackage(dep, target);
+        deps[packageName] ??= getDependencyVersion(packageName, target);
+      }
     }
 
     return deps;
   }
 
-  private generatePackageJson(context: GenerationContext): any {
+  private generatePackageJson(
+    context: GenerationContext,
+    graph: IRGraph = {} as IRGraph
+  ): any {
     return {
       name: context.projectName || 'langchain-app',
       version: '1.0.0',
@@ -1547,12 +2088,17 @@ export class IRToCodeTransformer {
         build: 'tsc',
         start: 'node dist/index.js',
         dev: 'tsx src/index.ts',
+        ...(context.secretsBackend === 'http' && {
+          'secrets:stand-in': `tsx ${SECRETS_STAND_IN_FILE} secrets.json`,
+        }),
+        ...(context.includeTests && { test: TEST_SCRIPT }),
       },
-      dependencies: this.generateDependencyList({} as IRGraph, context),
+      dependencies: this.generateDependencyList(graph, context),
       devDependencies: {
         typescript: '^5.5.4',
         '@types/node': '^20.14.15',
         tsx: '^4.16.5',
+        ...(context.includeTests && TEST_DEV_DEPENDENCIES),
       },
     };
   }
@@ -1586,10 +2132,23 @@ export class IRToCodeTransformer {
     };
   }
 
-  private generateEnvFile(context: GenerationContext): string {
+  private generateEnvFile(
+    context: GenerationContext,
+    graph: IRGraph | undefined,
+    code: string
+  ): string {
     let content = '# Environment Variables\n';
-    content += '# Copy this file to .env and fill in your values\n\n';
-    content += 'OPENAI_API_KEY=your_openai_api_key_here\n';
+    content += '# Copy this file to .env and fill in your values\n';
+
+    // Exactly the variables the flow reads; Langfuse has its own section
+    const variables = graph
+      ? collectEnvVariables(graph, code, context)
+      : [];
+    for (const variable of variables) {
+      if (variable.name.startsWith('LANGFUSE_')) continue;
+      content += `\n# ${variable.description}\n`;
+      content += `${variable.name}=${variable.example}\n`;
+    }
 
     if (context.includeLangfuse) {
       content += '\n# LangFuse Configuration\n';
@@ -1635,3 +2194,39 @@ npm start "Your input text here"
 `;
   }
 }
+
+/**
+ * A node with its connected inputs as Flowise exports them
+ * (`{{nodeId.data.instance}}`), for flows that only record the edges
+ */
+export function withConnectedInputs(
+  node: IRNode,
+  graph?: IRGraph
+): IRNode {
+  const connected = new Map<string, string[]>();
+  for (const connection of graph?.connections ?? []) {
+    const inputName = connection.targetHandle?.match(
+      new RegExp(`^${node.id}-input-([^-]+)-`)
+    )?.[1];
+    if (connection.target !== node.id || !inputName) continue;
+    if (node.parameters.some((p) => p.name === inputName)) continue;
+
+    connected.set(inputName, [
+      ...(connected.get(inputName) ?? []),
+      `{{${connection.source}.data.instance}}`,
+    ]);
+  }
+  if (connected.size === 0) return node;
+
+  return {
+    ...node,
+    parameters: [
+      ...node.parameters,
+      ...[...connected].map(([name, references]) => ({
+        name,
+        value: references.length === 1 ? references[0] : references,
+        type: references.length === 1 ? ('string' as const) : ('array' as const),
+      })),
+    ],
+  };
+}
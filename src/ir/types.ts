@@ -106,6 +106,9 @@ export interface IRNode {
   // Node configuration
   parameters: IRParameter[];
 
+  // Flowise credential the node reads its secret from
+  credential?: IRCredential;
+
   // Raw Flowise node data (important for converters)
   data?: {
     id?: string;
@@ -140,6 +143,35 @@ export interface IRNode {
   };
 }
 
+/**
+ * Reference to a Flowise credential; the secret itself is not exported
+ */
+export interface IRCredential {
+  id?: string; // Credential id in the Flowise instance, when exported
+  names: string[]; // Accepted credential names (e.g. 'openAIApi')
+}
+
+/**
+ * Where the generated project reads one credential from
+ */
+export type CredentialBinding =
+  | { env: string }
+  | { file: string }
+  | { secret: string };
+
+/**
+ * Credentials mapping, keyed by Flowise credential id or credential name.
+ * An id entry wins over a name entry; a plain string is an env var name.
+ */
+export interface CredentialMapping {
+  credentials: Record<string, CredentialBinding | string>;
+}
+
+/**
+ * Where the secrets module of a generated project loads secrets from
+ */
+export type SecretsBackend = 'env' | 'dotenv' | 'json' | 'yaml' | 'http';
+
 /**
  * Graph metadata containing flow-level information
  */
@@ -220,6 +252,7 @@ export interface FlowiseNode {
     outputAnchors: FlowiseAnchor[];
     outputs?: Record<string, unknown>;
     selected?: boolean;
+    credential?: string;
   };
   width?: number;
   height?: number;
@@ -251,6 +284,7 @@ export interface FlowiseInputParam {
   step?: number;
   min?: number;
   max?: number;
+  credentialNames?: string[];
 }
 
 /**
@@ -264,6 +298,15 @@ export interface FlowiseAnchor {
   type: string;
   optional?: boolean;
   list?: boolean;
+  // Output anchors of type 'options' (e.g. retriever vs vector store)
+  options?: Array<{
+    id: string;
+    name: string;
+    label: string;
+    description?: string;
+    type?: string;
+  }>;
+  default?: string;
 }
 
 /**
@@ -345,6 +388,8 @@ export interface CodeFragment {
     async?: boolean;
     exports?: string[];
     imports?: string[];
+    /** Problems with the node's conversion, for the conversion report */
+    warnings?: string[];
   };
 }
 
@@ -385,10 +430,19 @@ export interface ValidationWarning {
     | 'deprecated_node'
     | 'performance_concern'
     | 'compatibility_issue'
-    | 'missing_documentation';
+    | 'missing_documentation'
+    // Found in generated code by the LangChain lint pass
+    | 'deprecated_api'
+    | 'missing_await'
+    | 'unused_variable'
+    | 'hardcoded_secret'
+    | 'version_mismatch';
   message: string;
   nodeId?: NodeId;
   suggestion?: string;
+  /** Generated file and line the warning points at */
+  file?: string;
+  line?: number;
 }
 
 /**
@@ -410,6 +464,36 @@ export interface CodeReference {
   nodeId: NodeId;
 }
 
+/**
+ * Loader entry of a Flowise document store: the document loader node and
+ * the text splitter used to chunk what it loads
+ */
+export interface FlowiseDocumentStoreLoader {
+  id?: string;
+  loaderId: string;
+  loaderName?: string;
+  loaderConfig?: Record<string, unknown>;
+  splitterId?: string;
+  splitterName?: string;
+  splitterConfig?: Record<string, unknown>;
+}
+
+/**
+ * Flowise document store record, as returned by
+ * GET /api/v1/document-store/store/:id. Flowise stores the nested
+ * configuration as JSON strings, so both forms are accepted.
+ */
+export interface FlowiseDocumentStore {
+  id: string;
+  name: string;
+  description?: string;
+  loaders?: FlowiseDocumentStoreLoader[] | string;
+  embeddingConfig?:
+    | { name: string; config?: Record<string, unknown> }
+    | string
+    | null;
+}
+
 /**
  * Context for code generation
  */
@@ -422,6 +506,24 @@ export interface GenerationContext {
   includeLangfuse: boolean;
   packageManager: 'npm' | 'yarn' | 'pnpm';
 
+  // Execution layer: a linear runFlow() or a LangGraph StateGraph
+  emitter?: 'default' | 'langgraph';
+
+  // Compose chains from LCEL runnables instead of the legacy chain classes
+  lcel?: boolean;
+
+  // Flowise document stores referenced by documentStoreVS nodes, by store ID
+  documentStores?: Record<string, FlowiseDocumentStore>;
+
+  // Where the generated code reads each Flowise credential from
+  credentials?: CredentialMapping;
+
+  // Backend of the generated secrets module; unset reads process.env
+  secretsBackend?: SecretsBackend;
+
+  // Generate the module that records and replays model and tool calls
+  cassettes?: boolean;
+
   // Environment configuration
   environment: {
     nodeVersion?: string;
@@ -548,6 +650,17 @@ export interface GeneratedFile {
   dependencies: string[];
   exports: string[];
   size: number;
+  /** Line ranges produced by each IR node, for mapping diagnostics back */
+  nodeRegions?: GeneratedNodeRegion[];
+}
+
+/**
+ * Lines of a generated file produced by one IR node (1-based, inclusive)
+ */
+export interface GeneratedNodeRegion {
+  nodeId: NodeId;
+  startLine: number;
+  endLine: number;
 }
 
 /**
@@ -32,7 +32,8 @@ export const FlowiseInputParamOptionSchema = z.union([
  */
 export const FlowiseInputParamSchema = z
   .object({
-    label: z.string().min(1, 'Parameter label cannot be empty'),
+    // Agentflow V2 nodes (e.g. sticky notes) export params with an empty label
+    label: z.string(),
     name: z.string().min(1, 'Parameter name cannot be empty'),
     type: z.string().min(1, 'Parameter type cannot be empty'),
     optional: z.boolean().optional(),
@@ -48,6 +49,7 @@ export const FlowiseInputParamSchema = z
     step: z.number().optional(),
     min: z.number().optional(),
     max: z.number().optional(),
+    credentialNames: z.array(z.string()).optional(),
   })
   .refine(
     (data) => {
@@ -68,29 +70,58 @@ export const FlowiseInputParamSchema = z
   );
 
 /**
- * Flowise anchor (connection point) schema
+ * Flowise output anchor option schema (one selectable output of a node)
  */
-export const FlowiseAnchorSchema = z.object({
-  id: z.string().min(1, 'Anchor ID cannot be empty'),
-  name: z.string().min(1, 'Anchor name cannot be empty'),
-  label: z.string().min(1, 'Anchor label cannot be empty'),
+export const FlowiseAnchorOptionSchema = z.object({
+  id: z.string().min(1, 'Anchor option ID cannot be empty'),
+  name: z.string().min(1, 'Anchor option name cannot be empty'),
+  label: z.string(),
   description: z.string().optional(),
-  type: z.string().min(1, 'Anchor type cannot be empty'),
-  optional: z.boolean().optional(),
-  list: z.boolean().optional(),
+  type: z.string().optional(),
 });
 
+/**
+ * Flowise anchor (connection point) schema
+ */
+export const FlowiseAnchorSchema = z
+  .object({
+    // Output anchors of type 'options' carry their IDs on the options instead
+    id: z.string().min(1, 'Anchor ID cannot be empty').optional(),
+    // Agentflow V2 condition outputs use numeric branch indexes as name/label
+    name: z.coerce.string().min(1, 'Anchor name cannot be empty'),
+    label: z.coerce.string().min(1, 'Anchor label cannot be empty'),
+    description: z.string().optional(),
+    // Agentflow V2 anchors are untyped
+    type: z.string().min(1, 'Anchor type cannot be empty').optional(),
+    optional: z.boolean().optional(),
+    list: z.boolean().optional(),
+    options: z.array(FlowiseAnchorOptionSchema).optional(),
+    default: z.string().optional(),
+  })
+  .refine((anchor) => anchor.id !== undefined || anchor.options !== undefined, {
+    message: 'Anchor must have an ID or output options',
+    path: ['id'],
+  });
+
+/**
+ * Handle IDs an anchor exposes: its own ID, or one per output option
+ */
+export function getAnchorHandleIds(anchor: {
+  id?: string;
+  options?: Array<{ id: string }>;
+}): string[] {
+  return anchor.id !== undefined
+    ? [anchor.id]
+    : (anchor.options || []).map((option) => option.id);
+}
+
 /**
  * Flowise node data schema with comprehensive validation
  */
 export const FlowiseNodeDataSchema = z.object({
   id: z.string().min(1, 'Node data ID cannot be empty'),
   label: z.string().min(1, 'Node label cannot be empty'),
-  version: z
-    .number()
-    .int()
-    .positive('Version must be a positive integer')
-    .optional(),
+  version: z.number().positive('Version must be a positive number').optional(),
   name: z.string().min(1, 'Node name cannot be empty'),
   type: z.string().min(1, 'Node type cannot be empty'),
   baseClasses: z
@@ -104,6 +135,7 @@ export const FlowiseNodeDataSchema = z.object({
   outputAnchors: z.array(FlowiseAnchorSchema),
   outputs: z.record(z.string(), z.unknown()).optional(),
   selected: z.boolean().optional(),
+  credential: z.string().optional(),
 });
 
 /**
@@ -148,6 +180,13 @@ export const FlowiseEdgeSchema = z
     path: ['target'],
   });
 
+/**
+ * Agentflow V2 edges target the node itself rather than a named input anchor
+ */
+function isNodeTargetHandle(edge: z.infer<typeof FlowiseEdgeSchema>): boolean {
+  return edge.targetHandle === edge.target;
+}
+
 /**
  * Chatflow metadata schema
  */
@@ -226,9 +265,8 @@ export const FlowiseChatFlowSchema = z
         if (!sourceNode || !targetNode) continue;
 
         // Check if source handle exists
-        const sourceHandles = sourceNode.data.outputAnchors.map(
-          (anchor) => anchor.id
-        );
+        const sourceHandles =
+          sourceNode.data.outputAnchors.flatMap(getAnchorHandleIds);
         if (!sourceHandles.includes(edge.sourceHandle)) {
           return false;
         }
@@ -237,7 +275,10 @@ export const FlowiseChatFlowSchema = z
         const targetHandles = targetNode.data.inputAnchors.map(
           (anchor) => anchor.id
         );
-        if (!targetHandles.includes(edge.targetHandle)) {
+        if (
+          !targetHandles.includes(edge.targetHandle) &&
+          !isNodeTargetHandle(edge)
+        ) {
           return false;
         }
       }
@@ -301,9 +342,8 @@ export const FlowiseChatFlowV1Schema = z
         if (!sourceNode || !targetNode) continue;
 
         // Check if source handle exists
-        const sourceHandles = sourceNode.data.outputAnchors.map(
-          (anchor) => anchor.id
-        );
+        const sourceHandles =
+          sourceNode.data.outputAnchors.flatMap(getAnchorHandleIds);
         if (!sourceHandles.includes(edge.sourceHandle)) {
           return false;
         }
@@ -312,7 +352,10 @@ export const FlowiseChatFlowV1Schema = z
         const targetHandles = targetNode.data.inputAnchors.map(
           (anchor) => anchor.id
         );
-        if (!targetHandles.includes(edge.targetHandle)) {
+        if (
+          !targetHandles.includes(edge.targetHandle) &&
+          !isNodeTargetHandle(edge)
+        ) {
           return false;
         }
       }
@@ -372,9 +415,8 @@ export const FlowiseChatFlowV2Schema = z
         if (!sourceNode || !targetNode) continue;
 
         // Check if source handle exists
-        const sourceHandles = sourceNode.data.outputAnchors.map(
-          (anchor) => anchor.id
-        );
+        const sourceHandles =
+          sourceNode.data.outputAnchors.flatMap(getAnchorHandleIds);
         if (!sourceHandles.includes(edge.sourceHandle)) {
           return false;
         }
@@ -383,7 +425,10 @@ export const FlowiseChatFlowV2Schema = z
         const targetHandles = targetNode.data.inputAnchors.map(
           (anchor) => anchor.id
         );
-        if (!targetHandles.includes(edge.targetHandle)) {
+        if (
+          !targetHandles.includes(edge.targetHandle) &&
+          !isNodeTargetHandle(edge)
+        ) {
           return false;
         }
       }
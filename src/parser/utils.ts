@@ -13,6 +13,7 @@ import {
   // type ParseError as _ParseError, // Unused import
   // type ParseWarning as _ParseWarning, // Unused import
 } from './parser.js';
+import { getAnchorHandleIds } from './schema.js';
 
 /**
  * Node analysis result
@@ -469,10 +470,13 @@ function analyzeNode(
   );
   const providedInputs = incomingEdges.map((e) => e.targetHandle);
   const missingInputs = requiredInputs
-    .filter((input) => !providedInputs.includes(input.id))
+    .filter(
+      (input) =>
+        !getAnchorHandleIds(input).some((id) => providedInputs.includes(id))
+    )
     .map((input) => input.label);
 
-  const availableOutputs = node.data.outputAnchors.map((anchor) => anchor.id);
+  const availableOutputs = node.data.outputAnchors.flatMap(getAnchorHandleIds);
   const usedOutputs = outgoingEdges.map((e) => e.sourceHandle);
   const unusedOutputs = availableOutputs.filter(
     (output) => !usedOutputs.includes(output)
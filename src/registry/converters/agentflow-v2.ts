@@ -5,8 +5,17 @@
  * Supports Agent, Tool, CustomFunction, and Subflow nodes
  */
 
-import { BaseConverter } from '../registry.js';
-import { IRNode, CodeFragment, GenerationContext } from '../../ir/types.js';
+import {
+  CHAT_MODEL_CREDENTIALS,
+  DEFAULT_CREDENTIAL_ENV,
+} from '../../ir/credentials.js';
+import {
+  IRNode,
+  IRParameter,
+  CodeFragment,
+  GenerationContext,
+} from '../../ir/types.js';
+import { BaseConverter, ConverterFactory } from '../registry.js';
 
 /**
  * Reference Resolution System
@@ -2319,3 +2328,1666 @@ export class SubflowNodeConverter extends BaseAgentFlowV2Converter {
     };
   }
 }
+
+/**
+ * Agentflow V2 node family
+ *
+ * Flowise exports agent flows built from startAgentflow, llmAgentflow,
+ * agentAgentflow, conditionAgentflow, loopAgentflow (and friends). Each node
+ * is converted into an async step function; the generated runFlow walks the
+ * edges between steps, following condition branches and loop jumps.
+ */
+
+const AGENTFLOW_MESSAGES_IMPORT =
+  "import { AIMessage, HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';";
+
+/**
+ * Chat models selectable from llmAgentflow/agentAgentflow nodes
+ */
+const AGENTFLOW_CHAT_MODELS: Record<
+  string,
+  {
+    packageName: string;
+    className: string;
+    /** Constructor option taking the API key, `apiKey` when unset */
+    apiKeyOption?: string;
+    /** Other constructor options read from environment variables */
+    envOptions?: Record<string, string>;
+  }
+> = {
+  chatOpenAI: { packageName: '@langchain/openai', className: 'ChatOpenAI' },
+  azureChatOpenAI: {
+    packageName: '@langchain/openai',
+    className: 'AzureChatOpenAI',
+    apiKeyOption: 'azureOpenAIApiKey',
+    envOptions: {
+      azureOpenAIApiInstanceName: 'AZURE_OPENAI_API_INSTANCE_NAME',
+      azureOpenAIApiDeploymentName: 'AZURE_OPENAI_API_DEPLOYMENT_NAME',
+      azureOpenAIApiVersion: 'AZURE_OPENAI_API_VERSION',
+    },
+  },
+  chatAnthropic: {
+    packageName: '@langchain/anthropic',
+    className: 'ChatAnthropic',
+  },
+  chatDeepseek: {
+    packageName: '@langchain/deepseek',
+    className: 'ChatDeepSeek',
+  },
+  chatGoogleGenerativeAI: {
+    packageName: '@langchain/google-genai',
+    className: 'ChatGoogleGenerativeAI',
+  },
+  chatMistralAI: {
+    packageName: '@langchain/mistralai',
+    className: 'ChatMistralAI',
+  },
+  chatOllama: { packageName: '@langchain/ollama', className: 'ChatOllama' },
+  groqChat: { packageName: '@langchain/groq', className: 'ChatGroq' },
+  awsChatBedrock: {
+    packageName: '@langchain/aws',
+    className: 'ChatBedrockConverse',
+  },
+};
+
+/**
+ * Model config keys carried over to the generated chat model constructor
+ */
+const AGENTFLOW_MODEL_CONFIG_KEYS: Record<string, string> = {
+  modelName: 'model',
+  temperature: 'temperature',
+  maxTokens: 'maxTokens',
+  maxTokensToSample: 'maxTokens',
+  topP: 'topP',
+  topK: 'topK',
+  frequencyPenalty: 'frequencyPenalty',
+  presencePenalty: 'presencePenalty',
+  timeout: 'timeout',
+  streaming: 'streaming',
+  baseUrl: 'baseUrl',
+};
+
+const AGENTFLOW_MAX_TOOL_ITERATIONS = 10;
+
+/**
+ * Instructions conditionAgentAgentflow nodes give their model unless the
+ * flow overrides them
+ */
+const CONDITION_AGENT_SYSTEM_PROMPT =
+  'You route the input of a multi-agent system. Following the instructions, pick the one scenario the input matches and reply with JSON only, in the form {"output": "<scenario>"}, copying the scenario exactly as listed.';
+
+/**
+ * Check whether a node type belongs to the Agentflow V2 node family
+ */
+export function isAgentflowNodeType(type: string): boolean {
+  return type.endsWith('Agentflow');
+}
+
+/**
+ * Check whether an Agentflow V2 node takes part in execution (sticky notes don't)
+ */
+export function isAgentflowStepType(type: string): boolean {
+  return isAgentflowNodeType(type) && type !== 'stickyNoteAgentflow';
+}
+
+/**
+ * Check whether an Agentflow V2 node picks one of its outputs by the branch
+ * its step returns
+ */
+export function isAgentflowBranchType(type: string): boolean {
+  return type === 'conditionAgentflow' || type === 'conditionAgentAgentflow';
+}
+
+/**
+ * Variable name of the generated step function for an Agentflow V2 node
+ */
+export function getAgentflowStepName(nodeId: string): string {
+  return `${nodeId.replace(/[^a-zA-Z0-9_]/g, '_')}_step`;
+}
+
+/**
+ * Type declarations shared by the generated step functions and the code
+ * that executes them
+ */
+export function generateAgentflowRuntimeTypes(): string {
+  return [
+    '// Agentflow runtime',
+    'interface AgentflowRuntime {',
+    '  input: string;',
+    '  state: Record<string, unknown>;',
+    '  messages: BaseMessage[];',
+    '  outputs: Record<string, unknown>;',
+    '  loopCounts: Record<string, number>;',
+    '}',
+    '',
+    'interface AgentflowStepResult {',
+    '  output: unknown;',
+    '  reply?: string;',
+    '  branch?: number;',
+    '  goto?: string;',
+    '}',
+    '',
+    'type AgentflowStep = (flow: AgentflowRuntime) => Promise<AgentflowStepResult>;',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Base converter for Agentflow V2 nodes.
+ *
+ * Subclasses provide the body of the step function; this class handles
+ * imports, template rendering and the surrounding declaration.
+ */
+export abstract class BaseAgentflowNodeConverter extends BaseConverter {
+  readonly category = 'agentflow-v2';
+
+  convert(node: IRNode, context: GenerationContext): CodeFragment[] {
+    const fragments: CodeFragment[] = [];
+
+    this.getImports(node, context).forEach((statement, index) => {
+      fragments.push(
+        this.createCodeFragment(
+          `${node.id}_import_${index}`,
+          'import',
+          statement,
+          [],
+          node.id,
+          1
+        )
+      );
+    });
+
+    const stepName = getAgentflowStepName(node.id);
+    const warnings = this.getWarnings(node, context);
+    const lines: string[] = [`// ${node.label} (${node.type})`];
+    lines.push(...this.generateDeclarations(node, context));
+    lines.push(`const ${stepName}: AgentflowStep = async (flow) => {`);
+    lines.push(
+      ...this.generateStepBody(node, context).map((line) =>
+        line ? `  ${line}` : line
+      )
+    );
+    lines.push('};');
+
+    fragments.push(
+      this.createCodeFragment(
+        `${node.id}_step`,
+        'declaration',
+        lines.join('\n'),
+        this.getDependencies(node, context),
+        node.id,
+        100,
+        { exports: [stepName], ...(warnings.length > 0 && { warnings }) }
+      )
+    );
+
+    return fragments;
+  }
+
+  /**
+   * Parts of the node the step cannot reproduce, reported with the
+   * conversion rather than left in the generated code
+   */
+  protected getWarnings(_node: IRNode, _context: GenerationContext): string[] {
+    return [];
+  }
+
+  override getDependencies(
+    _node: IRNode,
+    _context?: GenerationContext
+  ): string[] {
+    return ['@langchain/core'];
+  }
+
+  /**
+   * Import statements required by the step
+   */
+  protected getImports(_node: IRNode, _context: GenerationContext): string[] {
+    return [AGENTFLOW_MESSAGES_IMPORT];
+  }
+
+  /**
+   * Module-level declarations emitted before the step function
+   */
+  protected generateDeclarations(
+    _node: IRNode,
+    _context: GenerationContext
+  ): string[] {
+    return [];
+  }
+
+  /**
+   * Statements making up the step function body
+   */
+  protected abstract generateStepBody(
+    node: IRNode,
+    context: GenerationContext
+  ): string[];
+
+  /**
+   * Tools selected on the node, built by the registry converters for their
+   * types as if each were a node of its own
+   */
+  protected convertTools(
+    node: IRNode,
+    context: GenerationContext,
+    tools: Array<{ type: string; config?: Record<string, unknown> }>
+  ): {
+    fragments: CodeFragment[];
+    dependencies: string[];
+    variables: string[];
+    /** Tools left out, and why */
+    unsupported: Array<{ type: string; reason: string }>;
+  } {
+    const result = {
+      fragments: [] as CodeFragment[],
+      dependencies: [] as string[],
+      variables: [] as string[],
+      unsupported: [] as Array<{ type: string; reason: string }>,
+    };
+
+    for (const { type, config } of tools) {
+      const converter = ConverterFactory.getRegistry().getConverter(type);
+      if (!converter || converter.category === this.category) {
+        result.unsupported.push({ type, reason: 'has no converter' });
+        continue;
+      }
+
+      const toolNode: IRNode = {
+        id: `${node.id}_${type}`,
+        type,
+        label: `${node.id} ${type}`,
+        category: 'tool',
+        inputs: [],
+        outputs: [],
+        position: node.position,
+        parameters: Object.entries(config ?? {})
+          .filter(([name]) => name !== 'agentSelectedTool')
+          .map(([name, value]) => ({
+            name,
+            value,
+            type: (Array.isArray(value)
+              ? 'array'
+              : typeof value === 'number' || typeof value === 'boolean'
+                ? typeof value
+                : value && typeof value === 'object'
+                  ? 'object'
+                  : 'string') as IRParameter['type'],
+          })),
+      };
+
+      let fragments: CodeFragment[];
+      try {
+        fragments = converter.convert(toolNode, context);
+      } catch (error) {
+        result.unsupported.push({
+          type,
+          reason: `could not be converted (${(error as Error).message})`,
+        });
+        continue;
+      }
+
+      // The tool is the variable the converter exports, or declares last
+      const declared = fragments
+        .filter((fragment) => fragment.type !== 'import')
+        .flatMap((fragment) => [
+          ...fragment.content.matchAll(/^const (\w+) =/gm),
+        ])
+        .map((match) => match[1]!);
+      const variable =
+        (fragments.flatMap((f) => f.metadata?.exports ?? [])[0] as
+          | string
+          | undefined) ?? declared.at(-1);
+      if (!variable) {
+        result.unsupported.push({ type, reason: 'declares nothing to call' });
+        continue;
+      }
+
+      result.fragments.push(...fragments);
+      result.dependencies.push(...converter.getDependencies(toolNode, context));
+      result.variables.push(variable);
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert the rich-text HTML Flowise stores in message fields to plain text
+   */
+  protected htmlToText(value: string): string {
+    return value
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6])>\s*/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<\/li>\s*/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+
+  /**
+   * Render a Flowise message template as a TypeScript template literal.
+   *
+   * `{{ question }}`, `{{ $flow.state.key }}`, `{{ $vars.NAME }}`,
+   * `{{ output }}`/`{{ output.key }}` and `{{ <nodeId> }}` references are
+   * turned into expressions evaluated when the step runs.
+   */
+  protected renderTemplate(
+    value: unknown,
+    outputKind: 'text' | 'structured' | 'none' = 'none'
+  ): string {
+    const text = typeof value === 'string' ? this.htmlToText(value) : '';
+    const pattern = /\{\{\s*([^}]+?)\s*\}\}/g;
+    let result = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      result += this.escapeTemplateText(text.slice(lastIndex, match.index));
+      const expression = this.resolveTemplateVariable(match[1]!, outputKind);
+      result += expression
+        ? `\${${expression}}`
+        : this.escapeTemplateText(match[0]);
+      lastIndex = match.index + match[0].length;
+    }
+    result += this.escapeTemplateText(text.slice(lastIndex));
+
+    return `\`${result}\``;
+  }
+
+  private escapeTemplateText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/`/g, '\\`')
+      .replace(/\$\{/g, '\\${');
+  }
+
+  private resolveTemplateVariable(
+    variable: string,
+    outputKind: 'text' | 'structured' | 'none'
+  ): string | undefined {
+    if (variable === 'question') {
+      return 'flow.input';
+    }
+    if (variable === '$flow.chatHistory') {
+      return "flow.messages.map((message) => message.content).join('\\n')";
+    }
+    if (variable.startsWith('$flow.state.')) {
+      const key = variable.slice('$flow.state.'.length);
+      return `flow.state[${JSON.stringify(key)}] ?? ''`;
+    }
+    if (variable.startsWith('$vars.')) {
+      const key = variable.slice('$vars.'.length);
+      return `process.env[${JSON.stringify(key)}] ?? ''`;
+    }
+    if (variable === 'output' && outputKind !== 'none') {
+      return outputKind === 'structured' ? 'JSON.stringify(output)' : 'output';
+    }
+    if (variable.startsWith('output.') && outputKind === 'structured') {
+      const key = variable.slice('output.'.length);
+      return `output[${JSON.stringify(key)}]`;
+    }
+    if (/^[a-zA-Z]+Agentflow_\d+$/.test(variable)) {
+      return `flow.outputs[${JSON.stringify(variable)}] ?? ''`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Statements applying a node's "Update Flow State" entries
+   */
+  protected generateStateUpdates(
+    updates: unknown,
+    outputKind: 'text' | 'structured'
+  ): string[] {
+    if (!Array.isArray(updates)) {
+      return [];
+    }
+    return updates
+      .filter((update) => update && typeof update.key === 'string')
+      .map(
+        (update) =>
+          `flow.state[${JSON.stringify(update.key)}] = ${this.renderTemplate(update.value, outputKind)};`
+      );
+  }
+
+  /**
+   * Parse a numeric parameter that Flowise may export as a string
+   */
+  protected toNumber(value: unknown): number | undefined {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = Number(value);
+      return Number.isNaN(parsed) ? undefined : parsed;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Shared chat model handling for llmAgentflow and agentAgentflow nodes
+ */
+abstract class BaseAgentflowModelConverter extends BaseAgentflowNodeConverter {
+  /**
+   * Prefix of the node's input names, e.g. 'llm' for llmModel/llmMessages
+   */
+  protected abstract readonly inputPrefix: string;
+
+  protected input<T = unknown>(node: IRNode, name: string): T | undefined {
+    return this.getParameterValue<T>(node, `${this.inputPrefix}${name}`);
+  }
+
+  protected getChatModel(node: IRNode): {
+    packageName: string;
+    className: string;
+    apiKeyOption?: string;
+    envOptions?: Record<string, string>;
+    /** Environment variable of the model's credential */
+    credentialEnv?: string;
+    known: boolean;
+  } {
+    const modelName = this.input<string>(node, 'Model') || 'chatOpenAI';
+    const model = AGENTFLOW_CHAT_MODELS[modelName];
+    const credential = CHAT_MODEL_CREDENTIALS[modelName];
+    return model
+      ? {
+          ...model,
+          ...(credential && {
+            credentialEnv: DEFAULT_CREDENTIAL_ENV[credential],
+          }),
+          known: true,
+        }
+      : { ...AGENTFLOW_CHAT_MODELS['chatOpenAI']!, known: false };
+  }
+
+  override getDependencies(
+    node: IRNode,
+    _context?: GenerationContext
+  ): string[] {
+    return [this.getChatModel(node).packageName, '@langchain/core'];
+  }
+
+  protected override getImports(
+    node: IRNode,
+    _context: GenerationContext
+  ): string[] {
+    const model = this.getChatModel(node);
+    return [
+      AGENTFLOW_MESSAGES_IMPORT,
+      this.generateImport(model.packageName, [model.className]),
+    ];
+  }
+
+  protected override getWarnings(
+    node: IRNode,
+    _context: GenerationContext
+  ): string[] {
+    return this.getChatModel(node).known
+      ? []
+      : [
+          `${node.label}: the '${this.input<string>(node, 'Model')}' chat model has no LangChain mapping, so it runs as ChatOpenAI`,
+        ];
+  }
+
+  /**
+   * Declaration of the chat model built from the node's model config
+   */
+  protected generateModelDeclaration(node: IRNode): string[] {
+    const model = this.getChatModel(node);
+    const modelConfig =
+      this.input<Record<string, unknown>>(node, 'ModelConfig') || {};
+    const lines: string[] = [];
+
+    const entries: string[] = [];
+    for (const [key, option] of Object.entries(AGENTFLOW_MODEL_CONFIG_KEYS)) {
+      const value = modelConfig[key];
+      if (value === undefined || value === null || value === '') continue;
+      if (entries.some((entry) => entry.startsWith(`  ${option}:`))) continue;
+
+      const numeric =
+        typeof value === 'boolean' ? undefined : this.toNumber(value);
+      const formatted =
+        typeof value === 'boolean'
+          ? String(value)
+          : key === 'modelName' || key === 'baseUrl'
+            ? this.formatParameterValue(String(value))
+            : numeric !== undefined
+              ? String(numeric)
+              : this.formatParameterValue(value);
+      entries.push(`  ${option}: ${formatted},`);
+    }
+
+    const stop = modelConfig['stopSequence'];
+    if (typeof stop === 'string' && stop.trim() !== '') {
+      const sequences = stop
+        .split(',')
+        .map((sequence) => sequence.trim())
+        .filter(Boolean);
+      entries.push(`  stop: ${this.formatParameterValue(sequences)},`);
+    }
+
+    // Explicit reads, so credential mappings and secrets backends can bind
+    // them like those of any other node
+    if (model.credentialEnv) {
+      entries.push(
+        `  ${model.apiKeyOption ?? 'apiKey'}: process.env.${model.credentialEnv},`
+      );
+    }
+    for (const [option, env] of Object.entries(model.envOptions ?? {})) {
+      entries.push(`  ${option}: process.env.${env},`);
+    }
+
+    const modelVar = `${this.getBaseName(node)}_model`;
+    if (entries.length === 0) {
+      lines.push(`const ${modelVar} = new ${model.className}();`);
+    } else {
+      lines.push(`const ${modelVar} = new ${model.className}({`);
+      lines.push(...entries);
+      lines.push('});');
+    }
+
+    return lines;
+  }
+
+  /**
+   * Statements building the `messages` array sent to the model
+   */
+  protected generateMessages(node: IRNode): string[] {
+    const lines: string[] = ['const messages: BaseMessage[] = ['];
+    const configured = this.input<Array<{ role?: string; content?: string }>>(
+      node,
+      'Messages'
+    );
+
+    if (Array.isArray(configured)) {
+      for (const message of configured) {
+        if (!message || !message.content) continue;
+        const content = this.renderTemplate(message.content);
+        switch (message.role) {
+          case 'assistant':
+            lines.push(`  new AIMessage(${content}),`);
+            break;
+          case 'user':
+            lines.push(`  new HumanMessage(${content}),`);
+            break;
+          default:
+            lines.push(`  new SystemMessage(${content}),`);
+        }
+      }
+    }
+
+    const enableMemory = this.input<boolean>(node, 'EnableMemory') === true;
+    if (enableMemory) {
+      const memoryType =
+        this.input<string>(node, 'MemoryType') || 'allMessages';
+      const windowSize = this.toNumber(this.input(node, 'MemoryWindowSize'));
+      if (memoryType === 'windowSize' && windowSize !== undefined) {
+        lines.push(`  ...flow.messages.slice(-${windowSize}),`);
+      } else {
+        lines.push('  ...flow.messages,');
+      }
+    }
+
+    const userMessage = this.input<string>(node, 'UserMessage');
+    if (userMessage && this.htmlToText(userMessage) !== '') {
+      lines.push(`  new HumanMessage(${this.renderTemplate(userMessage)}),`);
+    } else if (!enableMemory) {
+      lines.push('  new HumanMessage(flow.input),');
+    }
+
+    lines.push('];');
+    return lines;
+  }
+
+  /**
+   * Statements appending the reply to the flow conversation and returning it
+   */
+  protected generateReturn(node: IRNode): string[] {
+    const messageClass =
+      this.input<string>(node, 'ReturnResponseAs') === 'assistantMessage'
+        ? 'AIMessage'
+        : 'HumanMessage';
+    return [
+      `flow.messages.push(new ${messageClass}(reply));`,
+      'return { output, reply };',
+    ];
+  }
+
+  protected getBaseName(node: IRNode): string {
+    return node.id.replace(/[^a-zA-Z0-9_]/g, '_');
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Start node
+ */
+export class StartAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'startAgentflow';
+
+  protected override generateDeclarations(node: IRNode): string[] {
+    const baseName = node.id.replace(/[^a-zA-Z0-9_]/g, '_');
+    const startState = this.getParameterValue<
+      Array<{ key?: string; value?: unknown }>
+    >(node, 'startState', []);
+    const entries = (Array.isArray(startState) ? startState : [])
+      .filter((entry) => entry && typeof entry.key === 'string' && entry.key)
+      .map(
+        (entry) =>
+          `  ${JSON.stringify(entry.key)}: ${this.formatParameterValue(entry.value ?? '')},`
+      );
+
+    const lines = [
+      `const ${baseName}_initialState: Record<string, unknown> = {`,
+      ...entries,
+      '};',
+    ];
+    if (this.getParameterValue<boolean>(node, 'startPersistState') === true) {
+      lines.push(
+        `const ${baseName}_persistedState: Record<string, unknown> = {};`
+      );
+    }
+    return lines;
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const baseName = node.id.replace(/[^a-zA-Z0-9_]/g, '_');
+    const lines: string[] = [];
+
+    if (this.getParameterValue<boolean>(node, 'startPersistState') === true) {
+      lines.push(
+        `// State persists across runs of this flow`,
+        `if (Object.keys(${baseName}_persistedState).length === 0) {`,
+        `  Object.assign(${baseName}_persistedState, ${baseName}_initialState);`,
+        '}',
+        `flow.state = ${baseName}_persistedState;`
+      );
+    } else {
+      lines.push(`flow.state = { ...${baseName}_initialState };`);
+    }
+
+    lines.push('flow.messages.push(new HumanMessage(flow.input));');
+    lines.push('return { output: flow.input };');
+    return lines;
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 LLM node
+ */
+export class LLMAgentflowConverter extends BaseAgentflowModelConverter {
+  readonly flowiseType = 'llmAgentflow';
+  protected readonly inputPrefix = 'llm';
+
+  private getStructuredOutput(
+    node: IRNode
+  ): Array<{
+    key: string;
+    type?: string;
+    enumValues?: string;
+    description?: string;
+  }> {
+    const fields = this.input<unknown[]>(node, 'StructuredOutput');
+    if (!Array.isArray(fields)) return [];
+    return fields.filter(
+      (field): field is { key: string } =>
+        !!field &&
+        typeof (field as { key?: unknown }).key === 'string' &&
+        (field as { key: string }).key !== ''
+    );
+  }
+
+  override getDependencies(
+    node: IRNode,
+    context?: GenerationContext
+  ): string[] {
+    const deps = super.getDependencies(node, context);
+    if (this.getStructuredOutput(node).length > 0) {
+      deps.push('zod');
+    }
+    return deps;
+  }
+
+  protected override getImports(
+    node: IRNode,
+    context: GenerationContext
+  ): string[] {
+    const imports = super.getImports(node, context);
+    if (this.getStructuredOutput(node).length > 0) {
+      imports.push("import { z } from 'zod';");
+    }
+    return imports;
+  }
+
+  protected override generateDeclarations(node: IRNode): string[] {
+    const lines = this.generateModelDeclaration(node);
+    const fields = this.getStructuredOutput(node);
+
+    if (fields.length > 0) {
+      lines.push(`const ${this.getBaseName(node)}_schema = z.object({`);
+      for (const field of fields) {
+        let schema: string;
+        switch (field.type) {
+          case 'enum': {
+            const values = (field.enumValues || '')
+              .split(',')
+              .map((value) => value.trim())
+              .filter(Boolean);
+            schema =
+              values.length > 0
+                ? `z.enum(${this.formatParameterValue(values)})`
+                : 'z.string()';
+            break;
+          }
+          case 'number':
+            schema = 'z.number()';
+            break;
+          case 'boolean':
+            schema = 'z.boolean()';
+            break;
+          case 'stringArray':
+            schema = 'z.array(z.string())';
+            break;
+          case 'jsonArray':
+            schema = 'z.array(z.record(z.unknown()))';
+            break;
+          default:
+            schema = 'z.string()';
+        }
+        if (field.description) {
+          schema += `.describe(${JSON.stringify(field.description)})`;
+        }
+        lines.push(`  ${JSON.stringify(field.key)}: ${schema},`);
+      }
+      lines.push('});');
+    }
+
+    return lines;
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const baseName = this.getBaseName(node);
+    const structured = this.getStructuredOutput(node).length > 0;
+    const lines = this.generateMessages(node);
+
+    if (structured) {
+      lines.push(
+        `const output = await ${baseName}_model`,
+        `  .withStructuredOutput(${baseName}_schema)`,
+        '  .invoke(messages);',
+        'const reply = JSON.stringify(output);'
+      );
+    } else {
+      lines.push(
+        `const response = await ${baseName}_model.invoke(messages);`,
+        'const output =',
+        "  typeof response.content === 'string'",
+        '    ? response.content',
+        '    : JSON.stringify(response.content);',
+        'const reply = output;'
+      );
+    }
+
+    lines.push(
+      ...this.generateStateUpdates(
+        this.input(node, 'UpdateState'),
+        structured ? 'structured' : 'text'
+      )
+    );
+    lines.push(...this.generateReturn(node));
+    return lines;
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Agent node
+ */
+export class AgentAgentflowConverter extends BaseAgentflowModelConverter {
+  readonly flowiseType = 'agentAgentflow';
+  protected readonly inputPrefix = 'agent';
+
+  private getTools(
+    node: IRNode
+  ): Array<{ type: string; config?: Record<string, unknown> }> {
+    const tools = this.input<unknown[]>(node, 'Tools');
+    return (Array.isArray(tools) ? tools : [])
+      .filter(
+        (
+          tool
+        ): tool is {
+          agentSelectedTool?: string;
+          agentSelectedToolConfig?: Record<string, unknown>;
+        } => !!tool && typeof tool === 'object'
+      )
+      .map((tool) => ({
+        type: tool.agentSelectedTool || 'unknown',
+        ...(tool.agentSelectedToolConfig && {
+          config: tool.agentSelectedToolConfig,
+        }),
+      }));
+  }
+
+  /**
+   * Tool code goes before the agent step, which calls the tools
+   */
+  override convert(node: IRNode, context: GenerationContext): CodeFragment[] {
+    return [
+      ...this.convertTools(node, context, this.getTools(node)).fragments,
+      ...super.convert(node, context),
+    ];
+  }
+
+  override getDependencies(
+    node: IRNode,
+    context?: GenerationContext
+  ): string[] {
+    const dependencies = super.getDependencies(node, context);
+    return context
+      ? [
+          ...new Set([
+            ...dependencies,
+            ...this.convertTools(node, context, this.getTools(node))
+              .dependencies,
+          ]),
+        ]
+      : dependencies;
+  }
+
+  protected override getImports(
+    node: IRNode,
+    context: GenerationContext
+  ): string[] {
+    const imports = super.getImports(node, context);
+    if (
+      this.convertTools(node, context, this.getTools(node)).variables.length > 0
+    ) {
+      imports.push("import { ToolMessage } from '@langchain/core/messages';");
+    }
+    return imports;
+  }
+
+  /**
+   * Flowise knowledge is not converted yet, so the agent runs without it
+   */
+  protected override getWarnings(
+    node: IRNode,
+    context: GenerationContext
+  ): string[] {
+    const warnings = [
+      ...super.getWarnings(node, context),
+      ...this.convertTools(node, context, this.getTools(node)).unsupported.map(
+        ({ type, reason }) =>
+          `${node.label}: the '${type}' tool ${reason}, so the agent runs without it`
+      ),
+    ];
+
+    for (const [name, knowledge] of [
+      ['KnowledgeDocumentStores', 'document stores'],
+      ['KnowledgeVSEmbeddings', 'vector stores'],
+    ] as const) {
+      const value = this.input(node, name);
+      if (Array.isArray(value) && value.length > 0) {
+        warnings.push(
+          `${node.label}: knowledge from ${knowledge} is not supported, so the agent runs without it`
+        );
+      }
+    }
+
+    return warnings;
+  }
+
+  protected override generateDeclarations(node: IRNode): string[] {
+    return this.generateModelDeclaration(node);
+  }
+
+  protected generateStepBody(
+    node: IRNode,
+    context: GenerationContext
+  ): string[] {
+    const baseName = this.getBaseName(node);
+    const tools = this.convertTools(
+      node,
+      context,
+      this.getTools(node)
+    ).variables;
+    const lines = this.generateMessages(node);
+
+    if (tools.length > 0) {
+      lines.push(
+        `const tools = [${tools.join(', ')}];`,
+        `const model = ${baseName}_model.bindTools(tools);`,
+        'let response = await model.invoke(messages);',
+        `for (let i = 0; i < ${AGENTFLOW_MAX_TOOL_ITERATIONS} && response.tool_calls?.length; i++) {`,
+        '  messages.push(response);',
+        '  for (const toolCall of response.tool_calls) {',
+        '    const tool = tools.find((t) => t.name === toolCall.name);',
+        '    messages.push(',
+        '      tool',
+        '        ? await tool.invoke(toolCall)',
+        '        : new ToolMessage({',
+        '            content: `Tool ${toolCall.name} is not available`,',
+        "            tool_call_id: toolCall.id ?? '',",
+        '          })',
+        '    );',
+        '  }',
+        '  response = await model.invoke(messages);',
+        '}'
+      );
+    } else {
+      lines.push(`const response = await ${baseName}_model.invoke(messages);`);
+    }
+
+    lines.push(
+      'const output =',
+      "  typeof response.content === 'string'",
+      '    ? response.content',
+      '    : JSON.stringify(response.content);',
+      'const reply = output;'
+    );
+    lines.push(
+      ...this.generateStateUpdates(this.input(node, 'UpdateState'), 'text')
+    );
+    lines.push(...this.generateReturn(node));
+    return lines;
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Condition node.
+ *
+ * Conditions are evaluated in order; the step returns the index of the first
+ * matching condition as its branch, or conditions.length for the Else branch.
+ */
+export class ConditionAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'conditionAgentflow';
+
+  protected override getImports(): string[] {
+    return [];
+  }
+
+  private getConditions(node: IRNode): Record<string, unknown>[] {
+    const conditions = this.getParameterValue<unknown[]>(
+      node,
+      'conditions',
+      []
+    );
+    return (Array.isArray(conditions) ? conditions : []).map(
+      (condition) => (condition || {}) as Record<string, unknown>
+    );
+  }
+
+  private isRegexCondition(condition: Record<string, unknown>): boolean {
+    return condition['type'] !== 'number' && condition['operation'] === 'regex';
+  }
+
+  /**
+   * Regex conditions whose pattern is written out in the flow are compiled
+   * here, so a pattern that can never match is reported with the conversion
+   */
+  protected override getWarnings(node: IRNode): string[] {
+    const warnings: string[] = [];
+    this.getConditions(node).forEach((condition, index) => {
+      const value = condition['value2'];
+      if (!this.isRegexCondition(condition) || typeof value !== 'string') {
+        return;
+      }
+      const pattern = this.htmlToText(value).trim();
+      if (/\{\{[^}]+\}\}/.test(pattern)) return;
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        warnings.push(
+          `${node.label}: condition ${index + 1} has an invalid regex /${pattern}/ (${(error as Error).message}), so it never matches`
+        );
+      }
+    });
+    return warnings;
+  }
+
+  /**
+   * A matcher treating a pattern that does not compile as a non-match,
+   * declared only when a condition uses a regex
+   */
+  protected override generateDeclarations(node: IRNode): string[] {
+    if (!this.getConditions(node).some((c) => this.isRegexCondition(c))) {
+      return [];
+    }
+    return [
+      `const ${node.id}_matches = (pattern: string, value: string): boolean => {`,
+      '  try {',
+      '    return new RegExp(pattern).test(value);',
+      '  } catch {',
+      '    return false;',
+      '  }',
+      '};',
+    ];
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const lines: string[] = [];
+    const list = this.getConditions(node);
+
+    list.forEach((condition, index) => {
+      const expression = this.generateConditionExpression(node, condition);
+      lines.push(`if (${expression}) {`);
+      lines.push(`  return { output: ${index}, branch: ${index} };`);
+      lines.push('}');
+    });
+
+    lines.push(`// Else`);
+    lines.push(`return { output: ${list.length}, branch: ${list.length} };`);
+    return lines;
+  }
+
+  private generateConditionExpression(
+    node: IRNode,
+    condition: Record<string, unknown>
+  ): string {
+    const value1 = `${this.renderTemplate(condition['value1'])}.trim()`;
+    const value2 = `${this.renderTemplate(condition['value2'])}.trim()`;
+    const operation = String(condition['operation'] || 'equal');
+
+    if (condition['type'] === 'number') {
+      const left = `Number(${value1})`;
+      const right = `Number(${value2})`;
+      switch (operation) {
+        case 'smaller':
+          return `${left} < ${right}`;
+        case 'smallerEqual':
+          return `${left} <= ${right}`;
+        case 'larger':
+          return `${left} > ${right}`;
+        case 'largerEqual':
+          return `${left} >= ${right}`;
+        case 'notEqual':
+          return `${left} !== ${right}`;
+        case 'isEmpty':
+          return `${value1} === ''`;
+        case 'notEmpty':
+          return `${value1} !== ''`;
+        default:
+          return `${left} === ${right}`;
+      }
+    }
+
+    switch (operation) {
+      case 'notEqual':
+        return `${value1} !== ${value2}`;
+      case 'contains':
+        return `${value1}.includes(${value2})`;
+      case 'notContains':
+        return `!${value1}.includes(${value2})`;
+      case 'startsWith':
+        return `${value1}.startsWith(${value2})`;
+      case 'endsWith':
+        return `${value1}.endsWith(${value2})`;
+      case 'regex':
+        return `${node.id}_matches(${value2}, ${value1})`;
+      case 'isEmpty':
+        return `${value1} === ''`;
+      case 'notEmpty':
+        return `${value1} !== ''`;
+      default:
+        return `${value1} === ${value2}`;
+    }
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Condition Agent node.
+ *
+ * The model picks the scenario the input matches; the step returns that
+ * scenario's index as its branch, or -1, which no output takes, when the
+ * answer names none of them.
+ */
+export class ConditionAgentAgentflowConverter extends BaseAgentflowModelConverter {
+  readonly flowiseType = 'conditionAgentAgentflow';
+  protected readonly inputPrefix = 'conditionAgent';
+
+  private getScenarios(node: IRNode): string[] {
+    const scenarios = this.input<unknown[]>(node, 'Scenarios');
+    return (Array.isArray(scenarios) ? scenarios : []).map((scenario) =>
+      String((scenario as { scenario?: unknown } | null)?.scenario ?? '')
+    );
+  }
+
+  protected override generateDeclarations(node: IRNode): string[] {
+    return this.generateModelDeclaration(node);
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const baseName = this.getBaseName(node);
+    const systemPrompt =
+      this.input<boolean>(node, 'OverrideSystemPrompt') === true
+        ? this.renderTemplate(this.input(node, 'SystemPrompt'))
+        : JSON.stringify(CONDITION_AGENT_SYSTEM_PROMPT);
+    const input = this.input<string>(node, 'Input');
+
+    return [
+      `const scenarios = ${JSON.stringify(this.getScenarios(node))};`,
+      `const instructions = ${this.renderTemplate(this.input(node, 'Instructions'))};`,
+      `const input = ${input ? this.renderTemplate(input) : 'flow.input'};`,
+      `const response = await ${baseName}_model.invoke([`,
+      `  new SystemMessage(${systemPrompt}),`,
+      '  new HumanMessage(',
+      "    [instructions, `Input: ${input}`, 'Scenarios:', ...scenarios].join('\\n')",
+      '  ),',
+      ']);',
+      'const answer =',
+      "  typeof response.content === 'string'",
+      '    ? response.content',
+      '    : JSON.stringify(response.content);',
+      'const chosen = (answer.match(/"output"\\s*:\\s*"([^"]*)"/)?.[1] ?? answer)',
+      '  .trim()',
+      '  .toLowerCase();',
+      'const exact = scenarios.findIndex((scenario) => scenario.toLowerCase() === chosen);',
+      'const branch =',
+      '  exact !== -1',
+      '    ? exact',
+      '    : scenarios.findIndex((scenario) => chosen.includes(scenario.toLowerCase()));',
+      'return { output: scenarios[branch] ?? answer, branch };',
+    ];
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Loop node
+ */
+export class LoopAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'loopAgentflow';
+
+  protected override getImports(): string[] {
+    return [];
+  }
+
+  /**
+   * Flowise stores the loop target as `<nodeId>-<label>`
+   */
+  getLoopTarget(node: IRNode): string | undefined {
+    const target = this.getParameterValue<string>(node, 'loopBackToNode');
+    if (typeof target !== 'string' || target === '') return undefined;
+    const match = target.match(/^([a-zA-Z]+Agentflow_\d+)/);
+    return match ? match[1] : target.split('-')[0];
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const target = this.getLoopTarget(node);
+    const maxLoopCount =
+      this.toNumber(this.getParameterValue(node, 'maxLoopCount')) ?? 5;
+    const key = JSON.stringify(node.id);
+
+    if (!target) {
+      return ['// No loop target configured', 'return { output: 0 };'];
+    }
+
+    return [
+      `const count = (flow.loopCounts[${key}] ?? 0) + 1;`,
+      `flow.loopCounts[${key}] = count;`,
+      `if (count > ${maxLoopCount}) {`,
+      '  return { output: count };',
+      '}',
+      `return { output: count, goto: ${JSON.stringify(target)} };`,
+    ];
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Direct Reply node
+ */
+export class DirectReplyAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'directReplyAgentflow';
+
+  protected generateStepBody(node: IRNode): string[] {
+    const message = this.getParameterValue(node, 'directReplyMessage', '');
+    return [
+      `const reply = ${this.renderTemplate(message)};`,
+      'flow.messages.push(new AIMessage(reply));',
+      'return { output: reply, reply };',
+    ];
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Custom Function node
+ */
+export class CustomFunctionAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'customFunctionAgentflow';
+
+  protected override getImports(): string[] {
+    return [];
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const variables = this.getParameterValue<unknown[]>(
+      node,
+      'customFunctionInputVariables',
+      []
+    );
+    const code = this.getParameterValue<string>(
+      node,
+      'customFunctionJavascriptFunction',
+      ''
+    );
+    const lines: string[] = [
+      'const $flow = { input: flow.input, state: flow.state };',
+    ];
+
+    for (const variable of Array.isArray(variables) ? variables : []) {
+      const { variableName, variableValue } = (variable || {}) as {
+        variableName?: string;
+        variableValue?: unknown;
+      };
+      if (!variableName || !/^[a-zA-Z_]\w*$/.test(variableName)) continue;
+      lines.push(
+        `const $${variableName} = ${this.renderTemplate(variableValue)};`
+      );
+    }
+
+    lines.push('const result: unknown = await (async () => {');
+    for (const codeLine of (code || 'return flow.input;').split('\n')) {
+      lines.push(codeLine ? `  ${codeLine}` : codeLine);
+    }
+    lines.push('})();');
+    lines.push(
+      "const output = typeof result === 'string' ? result : JSON.stringify(result);",
+      'const reply = output;'
+    );
+    lines.push(
+      ...this.generateStateUpdates(
+        this.getParameterValue(node, 'customFunctionUpdateState'),
+        'text'
+      )
+    );
+    lines.push('return { output: result, reply };');
+    return lines;
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Tool node; calls the selected tool, built
+ * by the registry converter for its type, with the configured arguments
+ */
+export class ToolAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'toolAgentflow';
+
+  private getTool(
+    node: IRNode
+  ): Array<{ type: string; config?: Record<string, unknown> }> {
+    const config = this.getParameterValue<Record<string, unknown>>(
+      node,
+      'toolAgentflowSelectedToolConfig'
+    );
+    return [
+      {
+        type:
+          this.getParameterValue<string>(node, 'toolAgentflowSelectedTool') ||
+          'unknown',
+        ...(config && typeof config === 'object' && { config }),
+      },
+    ];
+  }
+
+  /**
+   * Tool code goes before the step, which calls the tool
+   */
+  override convert(node: IRNode, context: GenerationContext): CodeFragment[] {
+    return [
+      ...this.convertTools(node, context, this.getTool(node)).fragments,
+      ...super.convert(node, context),
+    ];
+  }
+
+  override getDependencies(
+    node: IRNode,
+    context?: GenerationContext
+  ): string[] {
+    const dependencies = super.getDependencies(node, context);
+    return context
+      ? [
+          ...new Set([
+            ...dependencies,
+            ...this.convertTools(node, context, this.getTool(node))
+              .dependencies,
+          ]),
+        ]
+      : dependencies;
+  }
+
+  protected override getImports(): string[] {
+    return [];
+  }
+
+  protected override getWarnings(
+    node: IRNode,
+    context: GenerationContext
+  ): string[] {
+    return this.convertTools(node, context, this.getTool(node)).unsupported.map(
+      ({ type, reason }) =>
+        `${node.label}: the '${type}' tool ${reason}, so the step fails when it runs`
+    );
+  }
+
+  protected generateStepBody(
+    node: IRNode,
+    context: GenerationContext
+  ): string[] {
+    const [{ type }] = this.getTool(node) as [{ type: string }];
+    const [tool] = this.convertTools(
+      node,
+      context,
+      this.getTool(node)
+    ).variables;
+    if (!tool) {
+      return [
+        `throw new Error(${JSON.stringify(`The '${type}' tool of ${node.label} was not converted`)});`,
+      ];
+    }
+
+    const args = this.getParameterValue<unknown[]>(node, 'toolInputArgs', []);
+    const entries = (Array.isArray(args) ? args : [])
+      .map(
+        (arg) =>
+          (arg || {}) as { inputArgName?: string; inputArgValue?: unknown }
+      )
+      .filter((arg) => typeof arg.inputArgName === 'string' && arg.inputArgName)
+      .map(
+        (arg) =>
+          `    ${JSON.stringify(arg.inputArgName)}: ${this.renderTemplate(arg.inputArgValue)},`
+      );
+
+    return [
+      // A tool call works for tools taking a string and for structured tools
+      `const message = await ${tool}.invoke({`,
+      "  type: 'tool_call',",
+      `  id: ${JSON.stringify(node.id)},`,
+      `  name: ${tool}.name,`,
+      ...(entries.length > 0
+        ? ['  args: {', ...entries, '  },']
+        : ['  args: { input: flow.input },']),
+      '});',
+      'const output =',
+      "  typeof message.content === 'string'",
+      '    ? message.content',
+      '    : JSON.stringify(message.content);',
+      'const reply = output;',
+      ...this.generateStateUpdates(
+        this.getParameterValue(node, 'toolUpdateState'),
+        'text'
+      ),
+      'return { output, reply };',
+    ];
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 HTTP node; sends the request with fetch
+ */
+export class HttpAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'httpAgentflow';
+
+  protected override getImports(): string[] {
+    return [];
+  }
+
+  protected override getWarnings(node: IRNode): string[] {
+    return node.credential
+      ? [
+          `${node.label}: HTTP credentials are not converted, so the request is sent without them`,
+        ]
+      : [];
+  }
+
+  private getPairs(node: IRNode, name: string): Array<[string, unknown]> {
+    const pairs = this.getParameterValue<unknown[]>(node, name, []);
+    return (Array.isArray(pairs) ? pairs : [])
+      .map((pair) => (pair || {}) as { key?: unknown; value?: unknown })
+      .filter((pair) => typeof pair.key === 'string' && pair.key !== '')
+      .map((pair) => [pair.key as string, pair.value]);
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const method = String(
+      this.getParameterValue(node, 'method', 'GET')
+    ).toUpperCase();
+    const bodyType = this.getParameterValue<string>(node, 'bodyType');
+    const body = this.getParameterValue(node, 'body');
+    const responseType = this.getParameterValue<string>(
+      node,
+      'responseType',
+      'json'
+    );
+    const headers = this.getPairs(node, 'headers');
+    const lines = [
+      `const url = new URL(${this.renderTemplate(this.getParameterValue(node, 'url', ''))});`,
+      ...this.getPairs(node, 'queryParams').map(
+        ([key, value]) =>
+          `url.searchParams.set(${JSON.stringify(key)}, ${this.renderTemplate(value)});`
+      ),
+    ];
+
+    const hasBody = method !== 'GET' && body !== undefined && body !== '';
+    if (hasBody) {
+      if (
+        (bodyType === 'formData' || bodyType === 'xWwwFormUrlencoded') &&
+        Array.isArray(body)
+      ) {
+        const form =
+          bodyType === 'formData' ? 'new FormData()' : 'new URLSearchParams()';
+        lines.push(`const body = ${form};`);
+        for (const [key, value] of this.getPairs(node, 'body')) {
+          lines.push(
+            `body.append(${JSON.stringify(key)}, ${this.renderTemplate(value)});`
+          );
+        }
+      } else {
+        lines.push(
+          `const body = ${this.renderTemplate(typeof body === 'string' ? body : JSON.stringify(body))};`
+        );
+        if (bodyType === 'json') {
+          headers.unshift(['Content-Type', 'application/json']);
+        }
+      }
+    }
+
+    lines.push(
+      'const response = await fetch(url, {',
+      `  method: ${JSON.stringify(method)},`,
+      '  headers: {',
+      ...headers.map(
+        ([key, value]) =>
+          `    ${JSON.stringify(key)}: ${this.renderTemplate(value)},`
+      ),
+      '  },',
+      ...(hasBody ? ['  body,'] : []),
+      '});',
+      'if (!response.ok) {',
+      `  throw new Error(\`${node.label}: \${url} answered \${response.status} \${await response.text()}\`);`,
+      '}',
+      `const output: unknown = ${
+        responseType === 'text'
+          ? 'await response.text()'
+          : responseType === 'json'
+            ? 'await response.json()'
+            : "Buffer.from(await response.arrayBuffer()).toString('base64')"
+      };`,
+      "const reply = typeof output === 'string' ? output : JSON.stringify(output);",
+      'return { output, reply };'
+    );
+    return lines;
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Execute Flow node; runs the selected flow
+ * through the prediction API of the Flowise instance that hosts it
+ */
+export class ExecuteFlowAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'executeFlowAgentflow';
+
+  /**
+   * Override config of the prediction request; Flowise stores it as an
+   * object or as JSON text
+   */
+  private getOverrideConfig(node: IRNode): unknown {
+    const value = this.getParameterValue(node, 'executeFlowOverrideConfig');
+    if (typeof value !== 'string') {
+      return value && typeof value === 'object' ? value : undefined;
+    }
+    try {
+      return value.trim() === '' ? undefined : JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  protected override getWarnings(node: IRNode): string[] {
+    const value = this.getParameterValue(node, 'executeFlowOverrideConfig');
+    return typeof value === 'string' &&
+      value.trim() !== '' &&
+      this.getOverrideConfig(node) === undefined
+      ? [
+          `${node.label}: the override config is not valid JSON, so the flow runs without it`,
+        ]
+      : [];
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    const flowId = this.getParameterValue<string>(
+      node,
+      'executeFlowSelectedFlow',
+      ''
+    );
+    const baseUrl = this.getParameterValue<string>(node, 'executeFlowBaseURL');
+    const input = this.getParameterValue<string>(node, 'executeFlowInput');
+    const overrideConfig = this.getOverrideConfig(node);
+    const messageClass =
+      this.getParameterValue<string>(node, 'executeFlowReturnResponseAs') ===
+      'assistantMessage'
+        ? 'AIMessage'
+        : 'HumanMessage';
+
+    return [
+      `const baseUrl = ${baseUrl ? JSON.stringify(baseUrl) : "process.env.FLOWISE_URL ?? 'http://localhost:3000'"};`,
+      'const response = await fetch(',
+      `  \`\${baseUrl}/api/v1/prediction/${flowId}\`,`,
+      '  {',
+      "    method: 'POST',",
+      '    headers: {',
+      "      'Content-Type': 'application/json',",
+      '      ...(process.env.FLOWISE_API_KEY && {',
+      '        Authorization: `Bearer ${process.env.FLOWISE_API_KEY}`,',
+      '      }),',
+      '    },',
+      '    body: JSON.stringify({',
+      `      question: ${input ? this.renderTemplate(input) : 'flow.input'},`,
+      ...(overrideConfig !== undefined
+        ? [`      overrideConfig: ${JSON.stringify(overrideConfig)},`]
+        : []),
+      '    }),',
+      '  }',
+      ');',
+      'if (!response.ok) {',
+      `  throw new Error(\`${node.label}: flow ${flowId} answered \${response.status} \${await response.text()}\`);`,
+      '}',
+      'const result = (await response.json()) as { text?: string };',
+      'const output = result.text ?? JSON.stringify(result);',
+      'const reply = output;',
+      ...this.generateStateUpdates(
+        this.getParameterValue(node, 'executeFlowUpdateState'),
+        'text'
+      ),
+      `flow.messages.push(new ${messageClass}(reply));`,
+      'return { output, reply };',
+    ];
+  }
+}
+
+/**
+ * Agentflow V2 nodes whose behaviour a converted step cannot reproduce;
+ * they convert to a step that fails when the flow reaches it, and the
+ * reason is reported with the conversion
+ */
+abstract class OutOfScopeAgentflowConverter extends BaseAgentflowNodeConverter {
+  protected abstract readonly reason: string;
+
+  protected override getImports(): string[] {
+    return [];
+  }
+
+  protected override getWarnings(node: IRNode): string[] {
+    return [
+      `${node.label}: ${this.flowiseType} nodes are out of scope (${this.reason}), so the flow fails when it reaches this step`,
+    ];
+  }
+
+  protected generateStepBody(node: IRNode): string[] {
+    return [
+      `throw new Error(${JSON.stringify(`${node.label} (${this.flowiseType}) is not supported: ${this.reason}`)});`,
+    ];
+  }
+}
+
+/**
+ * Converter for the Agentflow V2 Iteration node (out of scope)
+ */
+export class IterationAgentflowConverter extends OutOfScopeAgentflowConverter {
+  readonly flowiseType = 'iterationAgentflow';
+  protected readonly reason =
+    'runFlow has no nested flows to run for each item';
+}
+
+/**
+ * Converter for the Agentflow V2 Human Input node (out of scope)
+ */
+export class HumanInputAgentflowConverter extends OutOfScopeAgentflowConverter {
+  readonly flowiseType = 'humanInputAgentflow';
+  protected readonly reason =
+    'runFlow runs to completion and cannot wait for a person';
+}
+
+/**
+ * Converter for the Agentflow V2 Retriever node (out of scope)
+ */
+export class RetrieverAgentflowConverter extends OutOfScopeAgentflowConverter {
+  readonly flowiseType = 'retrieverAgentflow';
+  protected readonly reason =
+    'Flowise document stores have no counterpart in a converted project';
+}
+
+/**
+ * Converter for the Agentflow V2 Sticky Note node; emits a comment only
+ */
+export class StickyNoteAgentflowConverter extends BaseAgentflowNodeConverter {
+  readonly flowiseType = 'stickyNoteAgentflow';
+
+  override convert(node: IRNode, _context: GenerationContext): CodeFragment[] {
+    const note = this.getParameterValue<string>(node, 'note', '') || '';
+    const lines = [`// ${node.label}`];
+    for (const noteLine of note.split('\n')) {
+      lines.push(`// ${noteLine}`.trimEnd());
+    }
+
+    return [
+      this.createCodeFragment(
+        `${node.id}_note`,
+        'declaration',
+        lines.join('\n'),
+        [],
+        node.id,
+        100
+      ),
+    ];
+  }
+
+  override getDependencies(): string[] {
+    return [];
+  }
+
+  protected generateStepBody(): string[] {
+    return [];
+  }
+}
@@ -2,7 +2,9 @@
  * Chain Converters
  *
  * Converters for various chain types including LLMChain, ConversationChain,
- * RetrievalQAChain, and other chain types.
+ * RetrievalQAChain, and other chain types. With `lcel` in the generation
+ * context, chains that have an LCEL equivalent are composed from runnables
+ * instead of the deprecated chain classes.
  */
 
 import { IRNode, CodeFragment, GenerationContext } from '../../ir/types.js';
@@ -64,6 +66,9 @@ abstract class BaseChainConverter extends BaseConverter {
   }
 
   convert(node: IRNode, _context: GenerationContext): CodeFragment[] {
+    const lcel = _context.lcel ? this.convertToLcel(node, _context) : undefined;
+    if (lcel) return lcel;
+
     const variableName = this.generateVariableName(node, 'chain');
     const config = this.generateChainConfiguration(node, _context);
     const fragments: CodeFragment[] = [];
@@ -107,6 +112,145 @@ abstract class BaseChainConverter extends BaseConverter {
     return fragments;
   }
 
+  /**
+   * LCEL composition replacing the chain, or undefined for chains without an
+   * LCEL equivalent, which keep their chain class
+   */
+  protected convertToLcel(
+    _node: IRNode,
+    _context: GenerationContext
+  ): CodeFragment[] | undefined {
+    return undefined;
+  }
+
+  /**
+   * Variable of the chain, named as the code referencing it expects
+   */
+  protected getChainVariableName(
+    node: IRNode,
+    context: GenerationContext
+  ): string {
+    return (
+      context.resolveNodeReference?.(node.id) ??
+      this.generateVariableName(node, 'chain')
+    );
+  }
+
+  /**
+   * Import fragments for each module, then the chain declaration
+   */
+  protected createChainFragments(
+    node: IRNode,
+    variableName: string,
+    imports: Record<string, string[]>,
+    lines: string[]
+  ): CodeFragment[] {
+    return [
+      ...Object.entries(imports).map(([packageName, names], index) =>
+        this.createCodeFragment(
+          `${node.id}_import_${index}`,
+          'import',
+          this.generateImport(packageName, names),
+          [],
+          node.id,
+          1
+        )
+      ),
+      this.createCodeFragment(
+        `${node.id}_declaration`,
+        'declaration',
+        lines.join('\n'),
+        [],
+        node.id,
+        300,
+        { exports: [variableName] }
+      ),
+    ];
+  }
+
+  /**
+   * Lines declaring `runnable` wrapped so it reads and extends a chat
+   * history: the connected memory's, or one kept in process. `keys.history`
+   * is an expression, so it can be read off the memory at run time
+   */
+  protected generateMessageHistory(
+    variableName: string,
+    runnable: string[],
+    memory: string | undefined,
+    keys: { history: string; output?: string }
+  ): string[] {
+    const history = memory
+      ? `${memory}.chatHistory`
+      : `${variableName}_history`;
+
+    return [
+      ...(memory
+        ? []
+        : [`const ${history} = new InMemoryChatMessageHistory();`]),
+      `const ${variableName} = new RunnableWithMessageHistory({`,
+      `  runnable: ${runnable[0]}`,
+      ...runnable.slice(1).map((line) => `  ${line}`),
+      `  getMessageHistory: () => ${history},`,
+      `  inputMessagesKey: 'input',`,
+      `  historyMessagesKey: ${keys.history},`,
+      ...(keys.output ? [`  outputMessagesKey: '${keys.output}',`] : []),
+      `  config: { configurable: { sessionId: 'default' } },`,
+      `});`,
+    ];
+  }
+
+  /**
+   * Imports generateMessageHistory needs
+   */
+  protected getMessageHistoryImports(
+    memory: string | undefined
+  ): Record<string, string[]> {
+    return {
+      '@langchain/core/runnables': ['RunnableWithMessageHistory'],
+      ...(!memory && {
+        '@langchain/core/chat_history': ['InMemoryChatMessageHistory'],
+      }),
+    };
+  }
+
+  /**
+   * Resolve a connected input (`{{nodeId.data.instance}}`) to its variable
+   */
+  protected getInputReference(
+    node: IRNode,
+    inputName: string,
+    context: GenerationContext
+  ): string | undefined {
+    const value = this.getParameterValue<string>(node, inputName);
+    const sourceId =
+      typeof value === 'string'
+        ? value.match(/^\{\{\s*([^.{}\s]+)\.data\.instance\s*\}\}$/)?.[1]
+        : undefined;
+    if (!sourceId) return undefined;
+
+    return (
+      context.resolveNodeReference?.(sourceId) ??
+      sourceId.replace(/[^a-zA-Z0-9]/g, '_')
+    );
+  }
+
+  /**
+   * Resolve a connected input the chain cannot do without
+   */
+  protected requireInputReference(
+    node: IRNode,
+    inputName: string,
+    context: GenerationContext
+  ): string {
+    const reference = this.getInputReference(node, inputName, context);
+    if (!reference) {
+      throw new Error(
+        `${this.getClassName()} node ${node.id} is missing required ${inputName} input`
+      );
+    }
+    return reference;
+  }
+
   protected generateChainInstantiation(
     variableName: string,
     className: string,
@@ -144,7 +288,7 @@ export class LLMChainConverter extends BaseChainConverter {
   }
 
   protected getPackageName(): string {
-    return '@langchain/core/chains';
+    return 'langchain/chains';
   }
 
   protected getClassName(): string {
@@ -152,7 +296,7 @@ export class LLMChainConverter extends BaseChainConverter {
   }
 
   override getDependencies(): string[] {
-    return ['@langchain/core'];
+    return ['langchain', '@langchain/core'];
   }
 
   protected extractChainConfig(node: IRNode): Record<string, unknown> {
@@ -166,6 +310,34 @@ export class LLMChainConverter extends BaseChainConverter {
       ...(returnValues && returnValues.length > 0 && { returnValues }),
     };
   }
+
+  /**
+   * prompt.pipe(model) ending in the connected output parser, or in one
+   * returning the text as LLMChain did
+   */
+  protected override convertToLcel(
+    node: IRNode,
+    context: GenerationContext
+  ): CodeFragment[] {
+    const variableName = this.getChainVariableName(node, context);
+    const model = this.requireInputReference(node, 'model', context);
+    const prompt = this.requireInputReference(node, 'prompt', context);
+    const parser = this.getInputReference(node, 'outputParser', context);
+
+    return this.createChainFragments(
+      node,
+      variableName,
+      parser
+        ? {}
+        : { '@langchain/core/output_parsers': ['StringOutputParser'] },
+      [
+        `// ${node.label}`,
+        `const ${variableName} = ${prompt}`,
+        `  .pipe(${model})`,
+        `  .pipe(${parser ?? 'new StringOutputParser()'});`,
+      ]
+    );
+  }
 }
 
 /**
@@ -179,7 +351,7 @@ export class ConversationChainConverter extends BaseChainConverter {
   }
 
   protected getPackageName(): string {
-    return '@langchain/core/chains';
+    return 'langchain/chains';
   }
 
   protected getClassName(): string {
@@ -187,7 +359,7 @@ export class ConversationChainConverter extends BaseChainConverter {
   }
 
   override getDependencies(): string[] {
-    return ['@langchain/core'];
+    return ['langchain', '@langchain/core'];
   }
 
   protected extractChainConfig(node: IRNode): Record<string, unknown> {
@@ -205,6 +377,128 @@ export class ConversationChainConverter extends BaseChainConverter {
       verbose,
     };
   }
+
+  override convert(node: IRNode, context: GenerationContext): CodeFragment[] {
+    const model = this.getInputReference(node, 'model', context);
+    if (context.lcel || !model) return super.convert(node, context);
+
+    const variableName = this.getChainVariableName(node, context);
+    const config = this.extractChainConfig(node);
+    const memory = this.getInputReference(node, 'memory', context);
+
+    // The prompt places the history as messages, which memory must return
+    const memoryKeys = `{ inputKey: ${JSON.stringify(config['inputKey'])}, returnMessages: true }`;
+    const memoryConfig = memory
+      ? `Object.assign(${memory}, ${memoryKeys})`
+      : `new BufferMemory({ memoryKey: 'history', ...${memoryKeys} })`;
+    const prompt = this.getConversationPrompt(node, context, memory);
+
+    return this.createChainFragments(
+      node,
+      variableName,
+      {
+        [this.getPackageName()]: this.getRequiredImports(),
+        '@langchain/core/prompts': [
+          'ChatPromptTemplate',
+          'MessagesPlaceholder',
+        ],
+        ...(!memory && { 'langchain/memory': ['BufferMemory'] }),
+      },
+      [
+        `// ${node.label}`,
+        `const ${variableName} = new ConversationChain({`,
+        `  llm: ${model},`,
+        `  memory: ${memoryConfig},`,
+        `  prompt: ${prompt.join('\n  ')},`,
+        ...Object.entries(config).map(
+          ([key, value]) => `  ${key}: ${this.formatParameterValue(value)},`
+        ),
+        `});`,
+      ]
+    );
+  }
+
+  /**
+   * The system message, history and question piped into the model, with the
+   * history kept by RunnableWithMessageHistory
+   */
+  protected override convertToLcel(
+    node: IRNode,
+    context: GenerationContext
+  ): CodeFragment[] {
+    const variableName = this.getChainVariableName(node, context);
+    const model = this.requireInputReference(node, 'model', context);
+    const memory = this.getInputReference(node, 'memory', context);
+
+    const runnable = [
+      ...this.getConversationPrompt(node, context, memory),
+      `  .pipe(${model})`,
+      `  .pipe(new StringOutputParser()),`,
+    ];
+
+    return this.createChainFragments(
+      node,
+      variableName,
+      {
+        '@langchain/core/prompts': [
+          'ChatPromptTemplate',
+          'MessagesPlaceholder',
+        ],
+        '@langchain/core/output_parsers': ['StringOutputParser'],
+        ...this.getMessageHistoryImports(memory),
+      },
+      [
+        `// ${node.label}`,
+        ...this.generateMessageHistory(variableName, runnable, memory, {
+          history: this.getHistoryKey(memory),
+        }),
+      ]
+    );
+  }
+
+  /**
+   * Lines building the chat prompt; as in Flowise, a connected chat prompt
+   * replaces the built one and gets the history placed between its system
+   * and human messages, under the memory's memoryKey
+   */
+  protected getConversationPrompt(
+    node: IRNode,
+    context: GenerationContext,
+    memory: string | undefined
+  ): string[] {
+    const prompt =
+      this.getInputReference(node, 'chatPromptTemplate', context) ??
+      this.getInputReference(node, 'prompt', context);
+    const historyKey = this.getHistoryKey(memory);
+    const systemMessage = this.getParameterValue<string>(
+      node,
+      'systemMessagePrompt',
+      DEFAULT_CONVERSATION_PROMPT
+    );
+
+    return [
+      `ChatPromptTemplate.fromMessages([`,
+      ...(prompt
+        ? [
+            `  ...${prompt}.promptMessages.slice(0, -1),`,
+            `  new MessagesPlaceholder(${historyKey}),`,
+            `  ...${prompt}.promptMessages.slice(-1),`,
+          ]
+        : [
+            `  ['system', ${JSON.stringify(systemMessage)}],`,
+            `  new MessagesPlaceholder(${historyKey}),`,
+            `  ['human', '{input}'],`,
+          ]),
+      `])`,
+    ];
+  }
+
+  /**
+   * Expression naming where the chat history goes in the prompt
+   */
+  protected getHistoryKey(memory: string | undefined): string {
+    return memory ? `${memory}.memoryKey` : `'history'`;
+  }
 }
 
 /**
@@ -218,7 +512,7 @@ export class RetrievalQAChainConverter extends BaseChainConverter {
   }
 
   protected getPackageName(): string {
-    return '@langchain/core/chains';
+    return 'langchain/chains';
   }
 
   protected getClassName(): string {
@@ -226,7 +520,7 @@ export class RetrievalQAChainConverter extends BaseChainConverter {
   }
 
   override getDependencies(): string[] {
-    return ['@langchain/core'];
+    return ['langchain', '@langchain/core'];
   }
 
   protected extractChainConfig(node: IRNode): Record<string, unknown> {
@@ -262,6 +556,268 @@ export class RetrievalQAChainConverter extends BaseChainConverter {
 
     return baseVars;
   }
+
+  /**
+   * createRetrievalChain over a stuff documents chain; map_reduce and refine
+   * have no LCEL equivalent and keep RetrievalQAChain
+   */
+  protected override convertToLcel(
+    node: IRNode,
+    context: GenerationContext
+  ): CodeFragment[] | undefined {
+    if (this.extractChainConfig(node)['chainType'] !== 'stuff') {
+      return undefined;
+    }
+
+    const variableName = this.getChainVariableName(node, context);
+    const model = this.requireInputReference(node, 'model', context);
+    const retriever = this.requireInputReference(
+      node,
+      'vectorStoreRetriever',
+      context
+    );
+
+    return this.createChainFragments(
+      node,
+      variableName,
+      {
+        'langchain/chains/retrieval': ['createRetrievalChain'],
+        'langchain/chains/combine_documents': ['createStuffDocumentsChain'],
+        '@langchain/core/prompts': ['ChatPromptTemplate'],
+      },
+      [
+        `// ${node.label}`,
+        `const ${variableName} = await createRetrievalChain({`,
+        `  retriever: ${retriever},`,
+        `  combineDocsChain: await createStuffDocumentsChain({`,
+        `    llm: ${model},`,
+        `    prompt: ChatPromptTemplate.fromMessages([`,
+        `      ['system', ${JSON.stringify(DEFAULT_RETRIEVAL_QA_PROMPT)}],`,
+        `      ['human', '{input}'],`,
+        `    ]),`,
+        `  }),`,
+        `});`,
+      ]
+    );
+  }
+}
+
+/**
+ * Flowise's default prompt for turning a follow-up into a standalone question
+ */
+export const DEFAULT_REPHRASE_PROMPT = `Given the following conversation and a follow up question, rephrase the follow up question to be a standalone question.
+
+Chat History:
+{chat_history}
+Follow Up Input: {question}
+Standalone Question:`;
+
+/**
+ * Flowise's default system prompt for answering from retrieved context
+ */
+export const DEFAULT_RESPONSE_PROMPT = `I want you to act as a document that I am having a conversation with. Your name is "AI Assistant". Using the provided context, answer the user's question to the best of your ability using the resources provided.
+If there is nothing in the context relevant to the question at hand, just say "Hmm, I'm not sure" and stop after that. Refuse to answer any question not about the info. Never break character.
+------------
+{context}
+------------
+REMEMBER: If there is no relevant information within the context, just say "Hmm, I'm not sure". Don't try to make up an answer. Never break character.`;
+
+/**
+ * Flowise's default system message of a conversation chain
+ */
+export const DEFAULT_CONVERSATION_PROMPT =
+  'The following is a friendly conversation between a human and an AI. The AI is talkative and provides lots of specific details from its context. If the AI does not know the answer to a question, it truthfully says it does not know.';
+
+/**
+ * LangChain's default prompt for answering a question from stuffed documents
+ */
+export const DEFAULT_RETRIEVAL_QA_PROMPT = `Use the following pieces of context to answer the question at the end. If you don't know the answer, just say that you don't know, don't try to make up an answer.
+
+{context}`;
+
+/**
+ * A rephrase prompt for createHistoryAwareRetriever: the history arrives as
+ * messages ahead of it, and the follow-up question as {input}
+ */
+function toLcelRephrasePrompt(template: string): string {
+  return template
+    .replace(/(Chat History:\s*)?\{chat_history\}\s*/, '')
+    .replace(/\{question\}/g, '{input}');
+}
+
+/**
+ * Conversational Retrieval QA Chain Converter
+ *
+ * Rephrases follow-up questions against the chat history, retrieves
+ * documents and answers with the system/response prompt, as Flowise does.
+ */
+export class ConversationalRetrievalQAChainConverter extends BaseChainConverter {
+  readonly flowiseType = 'conversationalRetrievalQAChain';
+
+  protected override getRequiredImports(): string[] {
+    return ['ConversationalRetrievalQAChain'];
+  }
+
+  protected getPackageName(): string {
+    return 'langchain/chains';
+  }
+
+  protected getClassName(): string {
+    return 'ConversationalRetrievalQAChain';
+  }
+
+  override getDependencies(): string[] {
+    return ['langchain', '@langchain/core'];
+  }
+
+  protected extractChainConfig(node: IRNode): Record<string, unknown> {
+    return {
+      returnSourceDocuments: this.getParameterValue<boolean>(
+        node,
+        'returnSourceDocuments',
+        false
+      ),
+      rephrasePrompt: this.getParameterValue<string>(
+        node,
+        'rephrasePrompt',
+        DEFAULT_REPHRASE_PROMPT
+      ),
+      responsePrompt: this.getParameterValue<string>(
+        node,
+        'responsePrompt',
+        DEFAULT_RESPONSE_PROMPT
+      ),
+    };
+  }
+
+  override convert(node: IRNode, context: GenerationContext): CodeFragment[] {
+    if (context.lcel) return this.convertToLcel(node, context);
+
+    const variableName = this.getChainVariableName(node, context);
+    const config = this.extractChainConfig(node);
+
+    const model = this.getInputReference(node, 'model', context);
+    const retriever = this.getInputReference(
+      node,
+      'vectorStoreRetriever',
+      context
+    );
+    if (!model) {
+      throw new Error(
+        `ConversationalRetrievalQAChain node ${node.id} is missing required model input`
+      );
+    }
+    if (!retriever) {
+      throw new Error(
+        `ConversationalRetrievalQAChain node ${node.id} is missing required vectorStoreRetriever input`
+      );
+    }
+
+    // The chain is called with { input } and, when it also returns source
+    // documents, has several outputs; memory must know which keys to save
+    const memory = this.getInputReference(node, 'memory', context);
+    const memoryKeys = "{ inputKey: 'input', outputKey: 'text' }";
+    const memoryConfig = memory
+      ? `Object.assign(${memory}, ${memoryKeys})`
+      : `new BufferMemory({ memoryKey: 'chat_history', ...${memoryKeys} })`;
+
+    return this.createChainFragments(
+      node,
+      variableName,
+      {
+        [this.getPackageName()]: this.getRequiredImports(),
+        '@langchain/core/prompts': ['ChatPromptTemplate'],
+        ...(!memory && { 'langchain/memory': ['BufferMemory'] }),
+      },
+      [
+        `// ${node.label}`,
+        `const ${variableName} = ConversationalRetrievalQAChain.fromLLM(`,
+        `  ${model},`,
+        `  ${retriever},`,
+        `  {`,
+        `    inputKey: 'input',`,
+        `    returnSourceDocuments: ${this.formatParameterValue(config['returnSourceDocuments'])},`,
+        `    memory: ${memoryConfig},`,
+        `    questionGeneratorChainOptions: {`,
+        `      template: ${JSON.stringify(config['rephrasePrompt'])},`,
+        `    },`,
+        `    qaChainOptions: {`,
+        `      type: 'stuff',`,
+        `      prompt: ChatPromptTemplate.fromMessages([`,
+        `        ['system', ${JSON.stringify(config['responsePrompt'])}],`,
+        `        ['human', '{question}'],`,
+        `      ]),`,
+        `    },`,
+        `  }`,
+        `);`,
+      ]
+    );
+  }
+
+  /**
+   * A history-aware retriever feeding createRetrievalChain, with the chat
+   * history kept by RunnableWithMessageHistory
+   */
+  protected override convertToLcel(
+    node: IRNode,
+    context: GenerationContext
+  ): CodeFragment[] {
+    const variableName = this.getChainVariableName(node, context);
+    const config = this.extractChainConfig(node);
+
+    const model = this.requireInputReference(node, 'model', context);
+    const retriever = this.requireInputReference(
+      node,
+      'vectorStoreRetriever',
+      context
+    );
+    const memory = this.getInputReference(node, 'memory', context);
+
+    const runnable = [
+      `await createRetrievalChain({`,
+      `  retriever: await createHistoryAwareRetriever({`,
+      `    llm: ${model},`,
+      `    retriever: ${retriever},`,
+      `    rephrasePrompt: ChatPromptTemplate.fromMessages([`,
+      `      new MessagesPlaceholder('chat_history'),`,
+      `      ['human', ${JSON.stringify(toLcelRephrasePrompt(String(config['rephrasePrompt'])))}],`,
+      `    ]),`,
+      `  }),`,
+      `  combineDocsChain: await createStuffDocumentsChain({`,
+      `    llm: ${model},`,
+      `    prompt: ChatPromptTemplate.fromMessages([`,
+      `      ['system', ${JSON.stringify(config['responsePrompt'])}],`,
+      `      new MessagesPlaceholder('chat_history'),`,
+      `      ['human', '{input}'],`,
+      `    ]),`,
+      `  }),`,
+      `}),`,
+    ];
+
+    return this.createChainFragments(
+      node,
+      variableName,
+      {
+        'langchain/chains/retrieval': ['createRetrievalChain'],
+        'langchain/chains/history_aware_retriever': [
+          'createHistoryAwareRetriever',
+        ],
+        'langchain/chains/combine_documents': ['createStuffDocumentsChain'],
+        '@langchain/core/prompts': [
+          'ChatPromptTemplate',
+          'MessagesPlaceholder',
+        ],
+        ...this.getMessageHistoryImports(memory),
+      },
+      [
+        `// ${node.label}`,
+        ...this.generateMessageHistory(variableName, runnable, memory, {
+          history: `'chat_history'`,
+          output: 'answer',
+        }),
+      ]
+    );
+  }
 }
 
 /**
@@ -275,7 +831,7 @@ export class MultiPromptChainConverter extends BaseChainConverter {
   }
 
   protected getPackageName(): string {
-    return '@langchain/core/chains';
+    return 'langchain/chains';
   }
 
   protected getClassName(): string {
@@ -283,7 +839,7 @@ export class MultiPromptChainConverter extends BaseChainConverter {
   }
 
   override getDependencies(): string[] {
-    return ['@langchain/core'];
+    return ['langchain', '@langchain/core'];
   }
 
   protected extractChainConfig(node: IRNode): Record<string, unknown> {
@@ -316,7 +872,7 @@ export class SequentialChainConverter extends BaseChainConverter {
   }
 
   protected getPackageName(): string {
-    return '@langchain/core/chains';
+    return 'langchain/chains';
   }
 
   protected getClassName(): string {
@@ -324,7 +880,7 @@ export class SequentialChainConverter extends BaseChainConverter {
   }
 
   override getDependencies(): string[] {
-    return ['@langchain/core'];
+    return ['langchain', '@langchain/core'];
   }
 
   protected extractChainConfig(node: IRNode): Record<string, unknown> {
@@ -360,7 +916,7 @@ export class TransformChainConverter extends BaseChainConverter {
   }
 
   protected getPackageName(): string {
-    return '@langchain/core/chains';
+    return 'langchain/chains';
   }
 
   protected getClassName(): string {
@@ -368,7 +924,7 @@ export class TransformChainConverter extends BaseChainConverter {
   }
 
   override getDependencies(): string[] {
-    return ['@langchain/core'];
+    return ['langchain', '@langchain/core'];
   }
 
   protected extractChainConfig(node: IRNode): Record<string, unknown> {
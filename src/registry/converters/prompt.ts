@@ -113,12 +113,13 @@ export class ChatPromptTemplateConverter extends BasePromptConverter {
   }
 
   protected extractPromptConfig(node: IRNode): Record<string, unknown> {
-    const systemMessage = this.getParameterValue<string>(node, 'systemMessage');
-    const humanMessage = this.getParameterValue<string>(
-      node,
-      'humanMessage',
-      '{input}'
-    );
+    // Flowise names them systemMessagePrompt and humanMessagePrompt
+    const systemMessage =
+      this.getParameterValue<string>(node, 'systemMessagePrompt') ??
+      this.getParameterValue<string>(node, 'systemMessage');
+    const humanMessage =
+      this.getParameterValue<string>(node, 'humanMessagePrompt') ??
+      this.getParameterValue<string>(node, 'humanMessage', '{input}');
     const formatInstructions = this.getParameterValue<string>(
       node,
       'formatInstructions'
@@ -130,16 +131,17 @@ export class ChatPromptTemplateConverter extends BasePromptConverter {
       messages.push(`["system", ${this.formatParameterValue(systemMessage)}]`);
     }
 
-    if (humanMessage) {
-      messages.push(`["human", ${this.formatParameterValue(humanMessage)}]`);
-    }
-
     if (formatInstructions) {
       messages.push(
         `["system", ${this.formatParameterValue(formatInstructions)}]`
       );
     }
 
+    // Last, so a chain can place the conversation history before it
+    if (humanMessage) {
+      messages.push(`["human", ${this.formatParameterValue(humanMessage)}]`);
+    }
+
     return {
       template: `[${messages.join(', ')}]`,
     };
@@ -112,6 +112,10 @@ export class StreamingChainConverter extends BaseConverter {
     const llmRef = llmRefResult as CodeReference;
     const promptRef = promptRefResult as CodeReference;
 
+    if (_context.lcel) {
+      return this.convertToLcel(node, variableName, llmRef, promptRef);
+    }
+
     const imports = this.generateImport('langchain/chains', ['LLMChain']);
 
     const implementation = `const ${variableName} = new LLMChain({
@@ -158,8 +162,66 @@ export class StreamingChainConverter extends BaseConverter {
     ];
   }
 
-  override getDependencies(): string[] {
-    return ['langchain/chains'];
+  /**
+   * prompt.pipe(llm) with the same callbacks, streamed with .stream()
+   */
+  private convertToLcel(
+    node: IRNode,
+    variableName: string,
+    llmRef: CodeReference,
+    promptRef: CodeReference
+  ): CodeFragment[] {
+    const implementation = `const ${variableName} = ${promptRef.exportedAs}
+  .pipe(${llmRef.exportedAs})
+  .pipe(new StringOutputParser())
+  .withConfig({
+    callbacks: [
+      {
+        handleChainStart(chain: any) {
+          console.log('Chain started:', chain.name);
+        },
+        handleChainEnd() {
+          console.log('Chain completed');
+        },
+        handleLLMNewToken(token: string) {
+          process.stdout.write(token);
+        }
+      }
+    ]
+  });`;
+
+    return [
+      this.createCodeFragment(
+        `${node.id}_import`,
+        'import',
+        this.generateImport('@langchain/core/output_parsers', [
+          'StringOutputParser',
+        ]),
+        ['@langchain/core/output_parsers'],
+        node.id,
+        0
+      ),
+      this.createCodeFragment(
+        `${node.id}_implementation`,
+        'initialization',
+        implementation,
+        [llmRef.fragmentId, promptRef.fragmentId],
+        node.id,
+        1,
+        {
+          exports: [variableName],
+          llm: llmRef.exportedAs,
+          prompt: promptRef.exportedAs,
+        }
+      ),
+    ];
+  }
+
+  override getDependencies(
+    _node: IRNode,
+    context?: GenerationContext
+  ): string[] {
+    return context?.lcel ? ['@langchain/core'] : ['langchain/chains'];
   }
 }
 
@@ -4,7 +4,14 @@
  * Converters for various vector store types including Pinecone, Chroma, FAISS, etc.
  */
 
-import { IRNode, CodeFragment, GenerationContext } from '../../ir/types.js';
+import { DEFAULT_CREDENTIAL_ENV } from '../../ir/credentials.js';
+import {
+  IRNode,
+  CodeFragment,
+  FlowiseDocumentStore,
+  FlowiseDocumentStoreLoader,
+  GenerationContext,
+} from '../../ir/types.js';
 import { BaseConverter } from '../registry.js';
 
 /**
@@ -38,7 +45,9 @@ abstract class BaseVectorStoreConverter extends BaseConverter {
   ): Record<string, unknown>;
 
   override convert(node: IRNode, _context: GenerationContext): CodeFragment[] {
-    const variableName = this.generateVariableName(node, 'vectorstore');
+    const variableName =
+      _context.resolveNodeReference?.(node.id) ??
+      this.generateVariableName(node, 'vectorstore');
     const config = this.generateVectorStoreConfiguration(node, _context);
     const fragments: CodeFragment[] = [];
 
@@ -564,3 +573,360 @@ export class QdrantConverter extends BaseVectorStoreConverter {
     return ['0.2.0', '0.2.1', '0.2.2'];
   }
 }
+
+/**
+ * Local document loaders for Flowise document store loaders, keyed by the
+ * Flowise loader node name
+ */
+const DOCUMENT_STORE_LOADERS: Record<
+  string,
+  {
+    extensions: string[];
+    className: string;
+    packageName: string;
+    dependencies: string[];
+  }
+> = {
+  pdfFile: {
+    extensions: ['.pdf'],
+    className: 'PDFLoader',
+    packageName: '@langchain/community/document_loaders/fs/pdf',
+    dependencies: ['@langchain/community', 'pdf-parse'],
+  },
+  docxFile: {
+    extensions: ['.docx'],
+    className: 'DocxLoader',
+    packageName: '@langchain/community/document_loaders/fs/docx',
+    dependencies: ['@langchain/community', 'mammoth'],
+  },
+  csvFile: {
+    extensions: ['.csv'],
+    className: 'CSVLoader',
+    packageName: '@langchain/community/document_loaders/fs/csv',
+    dependencies: ['@langchain/community', 'd3-dsv'],
+  },
+  jsonFile: {
+    extensions: ['.json'],
+    className: 'JSONLoader',
+    packageName: 'langchain/document_loaders/fs/json',
+    dependencies: ['langchain'],
+  },
+  textFile: {
+    extensions: ['.txt', '.md'],
+    className: 'TextLoader',
+    packageName: 'langchain/document_loaders/fs/text',
+    dependencies: ['langchain'],
+  },
+  plainText: {
+    extensions: ['.txt', '.md'],
+    className: 'TextLoader',
+    packageName: 'langchain/document_loaders/fs/text',
+    dependencies: ['langchain'],
+  },
+};
+
+/**
+ * Text splitters from @langchain/textsplitters, keyed by Flowise node name
+ */
+const DOCUMENT_STORE_SPLITTERS: Record<string, string> = {
+  recursiveCharacterTextSplitter: 'RecursiveCharacterTextSplitter',
+  characterTextSplitter: 'CharacterTextSplitter',
+  tokenTextSplitter: 'TokenTextSplitter',
+  markdownTextSplitter: 'MarkdownTextSplitter',
+};
+
+/**
+ * Embedding classes, keyed by Flowise node name
+ */
+const DOCUMENT_STORE_EMBEDDINGS: Record<
+  string,
+  {
+    className: string;
+    packageName: string;
+    /** Flowise credential name of the embedding's API key */
+    credential?: string;
+    /** Constructor option taking the API key, `apiKey` when unset */
+    apiKeyOption?: string;
+  }
+> = {
+  openAIEmbeddings: {
+    className: 'OpenAIEmbeddings',
+    packageName: '@langchain/openai',
+    credential: 'openAIApi',
+    apiKeyOption: 'openAIApiKey',
+  },
+  azureOpenAIEmbeddings: {
+    className: 'AzureOpenAIEmbeddings',
+    packageName: '@langchain/openai',
+    credential: 'azureOpenAIApi',
+    apiKeyOption: 'azureOpenAIApiKey',
+  },
+  cohereEmbeddings: {
+    className: 'CohereEmbeddings',
+    packageName: '@langchain/cohere',
+    credential: 'cohereApi',
+  },
+  googleGenerativeAiEmbeddings: {
+    className: 'GoogleGenerativeAIEmbeddings',
+    packageName: '@langchain/google-genai',
+    credential: 'googleGenerativeAI',
+  },
+  mistralAIEmbeddings: {
+    className: 'MistralAIEmbeddings',
+    packageName: '@langchain/mistralai',
+    credential: 'mistralAIApi',
+  },
+  ollamaEmbedding: {
+    className: 'OllamaEmbeddings',
+    packageName: '@langchain/ollama',
+  },
+};
+
+/**
+ * Document Store (Vector) Converter
+ *
+ * Flowise document stores live on the Flowise server; the chatflow only
+ * holds the store ID. The generated code rebuilds the store locally: files
+ * in ./documents/<store> are loaded with the store's loaders, chunked with
+ * its splitter and embedded into a MemoryVectorStore at startup. Loader,
+ * splitter and embedding settings come from context.documentStores; without
+ * them, text files, the default splitter and OpenAI embeddings are used.
+ */
+export class DocumentStoreVSConverter extends BaseConverter {
+  readonly flowiseType = 'documentStoreVS';
+  readonly category = 'vectorstore';
+
+  override convert(node: IRNode, context: GenerationContext): CodeFragment[] {
+    const variableName =
+      context.resolveNodeReference?.(node.id) ??
+      this.generateVariableName(node, 'vectorstore');
+    const storeId = this.getParameterValue<string>(node, 'selectedStore') || '';
+    const store = storeId ? context.documentStores?.[storeId] : undefined;
+    const directory = `./documents/${this.getDirectoryName(store, storeId)}`;
+
+    const loaders = this.getLoaders(store);
+    const splitter = this.getSplitter(loaders);
+    const embedding = this.getEmbedding(store);
+
+    const imports = new Set<string>([
+      this.generateImport('langchain/document_loaders/fs/directory', [
+        'DirectoryLoader',
+      ]),
+      this.generateImport('langchain/vectorstores/memory', [
+        'MemoryVectorStore',
+      ]),
+      this.generateImport('@langchain/textsplitters', [splitter.className]),
+      this.generateImport(embedding.packageName, [embedding.className]),
+    ]);
+
+    const lines = [
+      `// ${node.label}: ${store ? `"${store.name}" (${storeId})` : storeId || 'no store selected'}`,
+      `// Documents in ${directory} are embedded into an in-memory vector store at startup`,
+    ];
+    if (!store) {
+      lines.push(
+        '// TODO: pass the Flowise document store export via context.documentStores',
+        "// (CLI: --document-stores) to reproduce the store's loaders, splitter and embeddings"
+      );
+    }
+
+    const extensions: string[] = [];
+    for (const loader of loaders) {
+      const local = DOCUMENT_STORE_LOADERS[loader.loaderId];
+      if (!local) {
+        lines.push(
+          `// TODO: the '${loader.loaderName || loader.loaderId}' loader has no local equivalent; add its documents to ${directory}`
+        );
+        continue;
+      }
+      imports.add(this.generateImport(local.packageName, [local.className]));
+      for (const extension of local.extensions) {
+        extensions.push(
+          `  '${extension}': (path: string) => new ${local.className}(path),`
+        );
+      }
+    }
+    if (extensions.length === 0) {
+      const text = DOCUMENT_STORE_LOADERS['textFile']!;
+      imports.add(this.generateImport(text.packageName, [text.className]));
+      extensions.push(
+        ...text.extensions.map(
+          (extension) =>
+            `  '${extension}': (path: string) => new ${text.className}(path),`
+        )
+      );
+    }
+
+    lines.push(
+      `const ${variableName}_loader = new DirectoryLoader('${directory}', {`,
+      ...Array.from(new Set(extensions)),
+      '});',
+      `const ${variableName}_splitter = new ${splitter.className}(${this.formatConfig(splitter.config)});`,
+      `const ${variableName}_store = await MemoryVectorStore.fromDocuments(`,
+      `  await ${variableName}_splitter.splitDocuments(await ${variableName}_loader.load()),`,
+      `  new ${embedding.className}(${this.formatConfig(embedding.config)})`,
+      ');'
+    );
+
+    const output = node.data?.outputs?.['output'];
+    lines.push(
+      output === 'vectorStore'
+        ? `const ${variableName} = ${variableName}_store;`
+        : `const ${variableName} = ${variableName}_store.asRetriever();`
+    );
+
+    return [
+      ...Array.from(imports).map((statement, index) =>
+        this.createCodeFragment(
+          `${node.id}_import_${index}`,
+          'import',
+          statement,
+          [],
+          node.id,
+          1
+        )
+      ),
+      this.createCodeFragment(
+        `${node.id}_init`,
+        'initialization',
+        lines.join('\n'),
+        [],
+        node.id,
+        150,
+        { exports: [variableName] }
+      ),
+    ];
+  }
+
+  override getDependencies(
+    node: IRNode,
+    context?: GenerationContext
+  ): string[] {
+    const storeId = this.getParameterValue<string>(node, 'selectedStore') || '';
+    const store = storeId ? context?.documentStores?.[storeId] : undefined;
+    const loaders = this.getLoaders(store);
+
+    const dependencies = new Set([
+      'langchain',
+      '@langchain/core',
+      '@langchain/textsplitters',
+      this.getEmbedding(store).packageName,
+    ]);
+    for (const loader of loaders) {
+      for (const dependency of DOCUMENT_STORE_LOADERS[loader.loaderId]
+        ?.dependencies || []) {
+        dependencies.add(dependency);
+      }
+    }
+
+    return Array.from(dependencies);
+  }
+
+  private getDirectoryName(
+    store: FlowiseDocumentStore | undefined,
+    storeId: string
+  ): string {
+    const name = (store?.name || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return name || storeId || 'default';
+  }
+
+  private getLoaders(
+    store: FlowiseDocumentStore | undefined
+  ): FlowiseDocumentStoreLoader[] {
+    const loaders = this.parseJsonField(store?.loaders);
+    return Array.isArray(loaders) ? loaders : [];
+  }
+
+  /**
+   * All loaders share the directory, so the first configured splitter wins
+   */
+  private getSplitter(loaders: FlowiseDocumentStoreLoader[]): {
+    className: string;
+    config: Record<string, unknown>;
+  } {
+    const loader = loaders.find(
+      (entry) => entry.splitterId && DOCUMENT_STORE_SPLITTERS[entry.splitterId]
+    );
+    const settings = loader?.splitterConfig || {};
+    const config: Record<string, unknown> = {
+      chunkSize: this.toNumber(settings['chunkSize']) ?? 1000,
+      chunkOverlap: this.toNumber(settings['chunkOverlap']) ?? 200,
+    };
+    if (typeof settings['separator'] === 'string' && settings['separator']) {
+      config['separator'] = settings['separator'];
+    }
+    if (
+      typeof settings['encodingName'] === 'string' &&
+      settings['encodingName']
+    ) {
+      config['encodingName'] = settings['encodingName'];
+    }
+
+    return {
+      className: loader
+        ? DOCUMENT_STORE_SPLITTERS[loader.splitterId!]!
+        : 'RecursiveCharacterTextSplitter',
+      config,
+    };
+  }
+
+  private getEmbedding(store: FlowiseDocumentStore | undefined): {
+    className: string;
+    packageName: string;
+    config: Record<string, unknown>;
+  } {
+    const embedding = this.parseJsonField(store?.embeddingConfig);
+    const local =
+      (embedding && DOCUMENT_STORE_EMBEDDINGS[embedding.name]) ||
+      DOCUMENT_STORE_EMBEDDINGS['openAIEmbeddings']!;
+    const settings = (embedding && embedding.config) || {};
+
+    const config: Record<string, unknown> = {};
+    if (typeof settings['modelName'] === 'string' && settings['modelName']) {
+      config['model'] = settings['modelName'];
+    }
+    for (const key of ['dimensions', 'batchSize']) {
+      const value = this.toNumber(settings[key]);
+      if (value !== undefined) config[key] = value;
+    }
+    if (typeof settings['baseUrl'] === 'string' && settings['baseUrl']) {
+      config['baseUrl'] = settings['baseUrl'];
+    }
+    // An explicit read, so secrets backends serve the key
+    if (local.credential) {
+      config[local.apiKeyOption ?? 'apiKey'] =
+        `process.env.${DEFAULT_CREDENTIAL_ENV[local.credential]}`;
+    }
+
+    return { ...local, config };
+  }
+
+  private parseJsonField<T>(
+    value: T | string | null | undefined
+  ): T | undefined {
+    if (typeof value !== 'string') return value ?? undefined;
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private toNumber(value: unknown): number | undefined {
+    if (value === '' || value === null || value === undefined) return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+
+  private formatConfig(config: Record<string, unknown>): string {
+    const entries = Object.entries(config);
+    if (entries.length === 0) return '';
+
+    return `{ ${entries
+      .map(([key, value]) => `${key}: ${this.formatParameterValue(value)}`)
+      .join(', ')} }`;
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Converter Golden Files
+ *
+ * Snapshot suite covering every registered converter. Converters do not
+ * declare their parameters up front, but they read them through
+ * getParameterValue, so a probe conversion of a bare node records the names
+ * and defaults each converter reads. The minimal node of a Flowise type sets
+ * the parameters that have defaults, plus placeholders for the rest when the
+ * converter needs them; its converted fragments are kept as a markdown golden
+ * file, and the suite reports converters that throw or emit no code.
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { diffGeneratedFiles } from '../diff/code-diff.js';
+import type {
+  CodeFragment,
+  GeneratedFile,
+  GenerationContext,
+  IRNode,
+  IRParameter,
+} from '../ir/types.js';
+
+import {
+  ConverterRegistry,
+  converterRegistry,
+  type NodeConverter,
+} from './registry.js';
+
+/**
+ * Where the golden files live, relative to the repository root
+ */
+export const GOLDEN_DIR = 'test/golden/converters';
+
+const GOLDEN_EXTENSION = '.golden.md';
+
+/**
+ * Generation context every golden file is produced with
+ */
+export const GOLDEN_CONTEXT: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'golden',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+/**
+ * Node categories of converter categories that differ in name
+ */
+const NODE_CATEGORIES: Record<string, IRNode['category']> = {
+  embeddings: 'embedding',
+  documentloader: 'loader',
+  'document-loader': 'loader',
+  'text-splitter': 'text_splitter',
+  'output-parser': 'output_parser',
+  rag: 'chain',
+  streaming: 'chain',
+  'function-calling': 'agent',
+  'agentflow-v2': 'control_flow',
+  tools: 'tool',
+  'business-tool': 'tool',
+  'google-tool': 'tool',
+  'search-api': 'tool',
+};
+
+const IR_CATEGORIES = new Set<string>([
+  'llm',
+  'chain',
+  'agent',
+  'tool',
+  'memory',
+  'vectorstore',
+  'embedding',
+  'prompt',
+  'retriever',
+  'output_parser',
+  'text_splitter',
+  'loader',
+  'utility',
+  'control_flow',
+]);
+
+/**
+ * Converted output of the minimal node of one converter
+ */
+export interface ConverterSnapshot {
+  flowiseType: string;
+  category: string;
+  parameters: IRParameter[];
+  status: 'converted' | 'empty' | 'threw';
+  fragments: CodeFragment[];
+  error?: string;
+}
+
+export interface GoldenOptions {
+  /** Directory of the golden files */
+  dir?: string;
+  /** Rewrite golden files that are missing or differ */
+  update?: boolean;
+  /** Only check these Flowise types */
+  types?: string[];
+  registry?: ConverterRegistry;
+}
+
+/**
+ * A golden file that no longer matches its converter
+ */
+export interface GoldenChange {
+  flowiseType: string;
+  /** Unified diff from the golden file to the current output */
+  patch: string;
+}
+
+export interface GoldenReport {
+  total: number;
+  matched: string[];
+  changed: GoldenChange[];
+  missing: string[];
+  updated: string[];
+  /** Golden files of types no longer registered */
+  obsolete: string[];
+  threw: Array<{ flowiseType: string; error: string }>;
+  empty: string[];
+}
+
+/**
+ * A parameter a converter reads, with the default it falls back to
+ */
+export interface DeclaredParameter {
+  name: string;
+  defaultValue?: unknown;
+}
+
+/**
+ * The parameters a converter reads, in the order it reads them
+ */
+export function discoverParameters(
+  converter: NodeConverter,
+  context: GenerationContext = GOLDEN_CONTEXT
+): DeclaredParameter[] {
+  const probe = converter as unknown as {
+    getParameterValue?: (...args: unknown[]) => unknown;
+  };
+  const read = probe.getParameterValue;
+  if (typeof read !== 'function') return [];
+
+  const defaults = new Map<string, unknown>();
+  probe.getParameterValue = function (
+    this: unknown,
+    node: unknown,
+    name: unknown,
+    defaultValue?: unknown
+  ) {
+    if (typeof name === 'string' && !defaults.has(name)) {
+      defaults.set(name, defaultValue);
+    }
+    return read.call(this, node, name, defaultValue);
+  };
+
+  try {
+    const node = createNode(converter, []);
+    if (converter.canConvert(node)) converter.convert(node, context);
+  } catch {
+    // Reads up to the failure are all the probe needs
+  } finally {
+    delete probe.getParameterValue;
+  }
+
+  return [...defaults].map(([name, defaultValue]) => ({
+    name,
+    ...(defaultValue != null && { defaultValue }),
+  }));
+}
+
+/**
+ * Minimal node of a Flowise type: the parameters its converter reads that
+ * have defaults, and placeholders for the others if it fails without them
+ */
+export function createMinimalNode(
+  converter: NodeConverter,
+  context: GenerationContext = GOLDEN_CONTEXT
+): IRNode {
+  const declared = discoverParameters(converter, context);
+  const node = createNode(
+    converter,
+    declared.flatMap((p) =>
+      p.defaultValue !== undefined ? [toParameter(p.name, p.defaultValue)] : []
+    )
+  );
+
+  try {
+    if (converter.canConvert(node)) {
+      converter.convert(node, context);
+      return node;
+    }
+  } catch {
+    // Fall back to placeholders for the parameters without defaults
+  }
+  return createNode(
+    converter,
+    declared.map((p) => toParameter(p.name, p.defaultValue ?? `<${p.name}>`))
+  );
+}
+
+/**
+ * Convert the minimal node of a registered Flowise type
+ */
+export function snapshotConverter(
+  flowiseType: string,
+  registry: ConverterRegistry = converterRegistry,
+  context: GenerationContext = GOLDEN_CONTEXT
+): ConverterSnapshot {
+  const converter = registry.getConverter(flowiseType);
+  if (!converter) {
+    throw new Error(`No converter registered for node type: ${flowiseType}`);
+  }
+
+  const node = createMinimalNode(converter, context);
+  const snapshot: ConverterSnapshot = {
+    flowiseType,
+    category: converter.category,
+    parameters: node.parameters,
+    status: 'converted',
+    fragments: [],
+  };
+
+  try {
+    snapshot.fragments = registry.convertNode(node, context);
+    if (snapshot.fragments.every((f) => f.content.trim() === '')) {
+      snapshot.status = 'empty';
+    }
+  } catch (error) {
+    snapshot.status = 'threw';
+    snapshot.error = (error as Error).message;
+  }
+  return snapshot;
+}
+
+/**
+ * Golden file contents of a snapshot
+ */
+export function formatSnapshot(snapshot: ConverterSnapshot): string {
+  const parameters = Object.fromEntries(
+    snapshot.parameters.map((p) => [p.name, p.value])
+  );
+  const lines = [
+    `# ${snapshot.flowiseType}`,
+    '',
+    `Category: ${snapshot.category}`,
+    '',
+    '## Parameters',
+    '',
+    '```json',
+    JSON.stringify(parameters, null, 2),
+    '```',
+  ];
+
+  if (snapshot.status === 'threw') {
+    lines.push('', '## Error', '', snapshot.error ?? '');
+  } else if (snapshot.status === 'empty') {
+    lines.push('', '## Empty', '', 'The converter emitted no code.');
+  }
+
+  for (const fragment of snapshot.fragments) {
+    lines.push(
+      '',
+      `## ${fragment.type} \`${fragment.id}\``,
+      '',
+      '```typescript',
+      fragment.content.replace(/\s+$/, ''),
+      '```'
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Compare every registered converter with its golden file, or rewrite the
+ * golden files with `update`
+ */
+export async function runGoldenSuite(
+  options: GoldenOptions = {}
+): Promise<GoldenReport> {
+  const dir = options.dir ?? GOLDEN_DIR;
+  const registry = options.registry ?? converterRegistry;
+  const registered = registry.getRegisteredTypes().sort();
+  const types = options.types ?? registered;
+
+  const report: GoldenReport = {
+    total: types.length,
+    matched: [],
+    changed: [],
+    missing: [],
+    updated: [],
+    obsolete: [],
+    threw: [],
+    empty: [],
+  };
+
+  if (options.update) await mkdir(dir, { recursive: true });
+
+  for (const flowiseType of types) {
+    const snapshot = snapshotConverter(flowiseType, registry);
+    if (snapshot.status === 'threw') {
+      report.threw.push({ flowiseType, error: snapshot.error ?? '' });
+    } else if (snapshot.status === 'empty') {
+      report.empty.push(flowiseType);
+    }
+
+    const path = join(dir, `${flowiseType}${GOLDEN_EXTENSION}`);
+    const content = formatSnapshot(snapshot);
+    const golden = existsSync(path) ? await readFile(path, 'utf-8') : undefined;
+
+    if (golden === content) {
+      report.matched.push(flowiseType);
+      continue;
+    }
+    if (golden === undefined) {
+      report.missing.push(flowiseType);
+    } else {
+      const [change] = diffGeneratedFiles(
+        [goldenFile(path, golden)],
+        [goldenFile(path, content)]
+      );
+      report.changed.push({ flowiseType, patch: change?.patch ?? '' });
+    }
+
+    if (options.update) {
+      await writeFile(path, content);
+      report.updated.push(flowiseType);
+    }
+  }
+
+  // Only a full run can tell a golden file is left over
+  if (!options.types && existsSync(dir)) {
+    const known = new Set(registered);
+    for (const file of (await readdir(dir)).sort()) {
+      if (!file.endsWith(GOLDEN_EXTENSION)) continue;
+      const flowiseType = file.slice(0, -GOLDEN_EXTENSION.length);
+      if (known.has(flowiseType)) continue;
+
+      report.obsolete.push(flowiseType);
+      if (options.update) await unlink(join(dir, file));
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Whether the golden files are all present and match
+ */
+export function isGoldenReportClean(report: GoldenReport): boolean {
+  return (
+    report.changed.length === 0 &&
+    report.missing.length === 0 &&
+    report.obsolete.length === 0
+  );
+}
+
+function createNode(
+  converter: NodeConverter,
+  parameters: IRParameter[]
+): IRNode {
+  const category = NODE_CATEGORIES[converter.category] ?? converter.category;
+  return {
+    id: `${converter.flowiseType}_0`,
+    type: converter.flowiseType,
+    label: converter.flowiseType,
+    category: IR_CATEGORIES.has(category)
+      ? (category as IRNode['category'])
+      : 'utility',
+    inputs: [],
+    outputs: [],
+    parameters,
+    position: { x: 0, y: 0 },
+  };
+}
+
+function toParameter(name: string, value: unknown): IRParameter {
+  return {
+    name,
+    value,
+    type: Array.isArray(value)
+      ? 'array'
+      : typeof value === 'number' || typeof value === 'boolean'
+        ? (typeof value as 'number' | 'boolean')
+        : typeof value === 'object'
+          ? 'object'
+          : 'string',
+  };
+}
+
+function goldenFile(path: string, content: string): GeneratedFile {
+  return {
+    path,
+    content,
+    type: 'utils',
+    dependencies: [],
+    exports: [],
+    size: content.length,
+  };
+}
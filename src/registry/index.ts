@@ -15,6 +15,25 @@ export {
 } from './registry.js';
 export type { NodeConverter } from './registry.js';
 
+// Converter golden files
+export {
+  GOLDEN_CONTEXT,
+  GOLDEN_DIR,
+  createMinimalNode,
+  discoverParameters,
+  formatSnapshot,
+  isGoldenReportClean,
+  runGoldenSuite,
+  snapshotConverter,
+} from './golden.js';
+export type {
+  ConverterSnapshot,
+  DeclaredParameter,
+  GoldenChange,
+  GoldenOptions,
+  GoldenReport,
+} from './golden.js';
+
 // LLM Converters
 export {
   OpenAIConverter,
@@ -50,6 +69,7 @@ export {
   LLMChainConverter,
   ConversationChainConverter,
   RetrievalQAChainConverter,
+  ConversationalRetrievalQAChainConverter,
   MultiPromptChainConverter,
   SequentialChainConverter,
   TransformChainConverter,
@@ -122,6 +142,7 @@ export {
   SupabaseConverter,
   WeaviateConverter,
   QdrantConverter,
+  DocumentStoreVSConverter,
 } from './converters/vectorstore.js';
 
 // Embeddings Converters
@@ -215,6 +236,27 @@ export {
   ToolNodeConverter,
   CustomFunctionNodeConverter,
   SubflowNodeConverter,
+  StartAgentflowConverter,
+  LLMAgentflowConverter,
+  AgentAgentflowConverter,
+  ConditionAgentflowConverter,
+  ConditionAgentAgentflowConverter,
+  LoopAgentflowConverter,
+  DirectReplyAgentflowConverter,
+  CustomFunctionAgentflowConverter,
+  ToolAgentflowConverter,
+  HttpAgentflowConverter,
+  ExecuteFlowAgentflowConverter,
+  IterationAgentflowConverter,
+  HumanInputAgentflowConverter,
+  RetrieverAgentflowConverter,
+  StickyNoteAgentflowConverter,
+  BaseAgentflowNodeConverter,
+  generateAgentflowRuntimeTypes,
+  isAgentflowNodeType,
+  isAgentflowStepType,
+  isAgentflowBranchType,
+  getAgentflowStepName,
 } from './converters/agentflow-v2.js';
 
 // Import all converter classes for registration
@@ -249,6 +291,7 @@ import {
   LLMChainConverter,
   ConversationChainConverter,
   RetrievalQAChainConverter,
+  ConversationalRetrievalQAChainConverter,
   MultiPromptChainConverter,
   SequentialChainConverter,
   TransformChainConverter,
@@ -314,6 +357,7 @@ import {
   SupabaseConverter,
   WeaviateConverter,
   QdrantConverter,
+  DocumentStoreVSConverter,
 } from './converters/vectorstore.js';
 
 import {
@@ -398,6 +442,21 @@ import {
   ToolNodeConverter,
   CustomFunctionNodeConverter,
   SubflowNodeConverter,
+  StartAgentflowConverter,
+  LLMAgentflowConverter,
+  AgentAgentflowConverter,
+  ConditionAgentflowConverter,
+  ConditionAgentAgentflowConverter,
+  LoopAgentflowConverter,
+  DirectReplyAgentflowConverter,
+  CustomFunctionAgentflowConverter,
+  ToolAgentflowConverter,
+  HttpAgentflowConverter,
+  ExecuteFlowAgentflowConverter,
+  IterationAgentflowConverter,
+  HumanInputAgentflowConverter,
+  RetrieverAgentflowConverter,
+  StickyNoteAgentflowConverter,
 } from './converters/agentflow-v2.js';
 
 // Cache Converters
@@ -504,6 +563,7 @@ export const BUILT_IN_CONVERTERS = [
   LLMChainConverter,
   ConversationChainConverter,
   RetrievalQAChainConverter,
+  ConversationalRetrievalQAChainConverter,
   MultiPromptChainConverter,
   SequentialChainConverter,
   TransformChainConverter,
@@ -564,6 +624,7 @@ export const BUILT_IN_CONVERTERS = [
   SupabaseConverter,
   WeaviateConverter,
   QdrantConverter,
+  DocumentStoreVSConverter,
 
   // Embeddings Converters
   OpenAIEmbeddingsConverter,
@@ -638,6 +699,21 @@ export const BUILT_IN_CONVERTERS = [
   ToolNodeConverter,
   CustomFunctionNodeConverter,
   SubflowNodeConverter,
+  StartAgentflowConverter,
+  LLMAgentflowConverter,
+  AgentAgentflowConverter,
+  ConditionAgentflowConverter,
+  ConditionAgentAgentflowConverter,
+  LoopAgentflowConverter,
+  DirectReplyAgentflowConverter,
+  CustomFunctionAgentflowConverter,
+  ToolAgentflowConverter,
+  HttpAgentflowConverter,
+  ExecuteFlowAgentflowConverter,
+  IterationAgentflowConverter,
+  HumanInputAgentflowConverter,
+  RetrieverAgentflowConverter,
+  StickyNoteAgentflowConverter,
 
   // Cache Converters
   RedisCacheConverter,
@@ -702,6 +778,10 @@ export function initializeRegistry(): void {
   registry.registerAlias('llm_chain', 'llmChain');
   registry.registerAlias('conversation_chain', 'conversationChain');
   registry.registerAlias('qa_chain', 'retrievalQAChain');
+  registry.registerAlias(
+    'conversational_qa_chain',
+    'conversationalRetrievalQAChain'
+  );
   registry.registerAlias('sql_chain', 'sqlDatabaseChain');
   registry.registerAlias('database_chain', 'sqlDatabaseChain');
   registry.registerAlias('api_chain', 'apiChain');
@@ -173,6 +173,10 @@ export abstract class BaseConverter implements NodeConverter {
     }
 
     if (typeof value === 'string') {
+      // Credential defaults name the variable to read, not a literal
+      if (/^process\.env\.[A-Za-z_]\w*$/.test(value)) {
+        return value;
+      }
       return `"${value.replace(/"/g, '\\"')}"`;
     }
 
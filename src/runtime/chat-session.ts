@@ -0,0 +1,220 @@
+/**
+ * Chat Session
+ *
+ * A conversation with a flow loaded once by the interpreter: every turn runs
+ * through the same objects, so memories keep the conversation, and each turn
+ * records a trace of the runs LangChain reported while answering it.
+ * Sessions are saved as their transcript; loading one writes the transcript
+ * back into the flow's chat histories instead of asking the model again.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+
+import type { LoadedFlow } from './interpreter.js';
+
+/**
+ * A run LangChain reported during a turn
+ */
+export interface TraceEvent {
+  kind: 'chain' | 'llm' | 'tool' | 'retriever';
+  name: string;
+  /** Nesting below the turn's outermost run */
+  depth: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface ChatTurn {
+  input: string;
+  output: string;
+  durationMs: number;
+  trace: TraceEvent[];
+}
+
+/**
+ * Saved form of a session
+ */
+export interface ChatSessionFile {
+  flow?: string;
+  savedAt: string;
+  turns: Array<{ input: string; output: string }>;
+}
+
+export interface ChatSendOptions {
+  /** Called with each piece of the answer as it streams */
+  onToken?: (token: string) => void;
+  /** Wait for the whole answer instead of streaming it */
+  stream?: boolean;
+}
+
+/**
+ * Where a flow keeps a conversation: memories and message-history runnables
+ */
+interface ChatHistory {
+  addUserMessage(message: string): Promise<void>;
+  addAIMessage(message: string): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+export class ChatSession {
+  readonly turns: ChatTurn[] = [];
+  private flow?: LoadedFlow;
+
+  constructor(
+    private readonly loadFlow: () => Promise<LoadedFlow>,
+    /** Name saved with the session, such as the flow's file name */
+    readonly flowName?: string
+  ) {}
+
+  /**
+   * Run one turn of the conversation
+   */
+  async send(input: string, options: ChatSendOptions = {}): Promise<ChatTurn> {
+    const flow = await this.getFlow();
+    const trace: TraceEvent[] = [];
+    const callbacks = [createTraceHandler(trace)];
+    const started = Date.now();
+
+    let output = '';
+    if (options.stream === false) {
+      output = (await flow.invoke(input, { callbacks })).output;
+    } else {
+      for await (const token of flow.stream(input, { callbacks })) {
+        output += token;
+        options.onToken?.(token);
+      }
+    }
+
+    const turn = { input, output, durationMs: Date.now() - started, trace };
+    this.turns.push(turn);
+    return turn;
+  }
+
+  /**
+   * Start the conversation over with freshly built objects
+   */
+  async reset(): Promise<void> {
+    this.turns.length = 0;
+    this.flow = await this.loadFlow();
+  }
+
+  async save(path: string): Promise<void> {
+    const file: ChatSessionFile = {
+      ...(this.flowName && { flow: this.flowName }),
+      savedAt: new Date().toISOString(),
+      turns: this.turns.map(({ input, output }) => ({ input, output })),
+    };
+    await writeFile(path, `${JSON.stringify(file, null, 2)}\n`, 'utf-8');
+  }
+
+  /**
+   * Replace the conversation with a saved one, returning its turn count
+   */
+  async load(path: string): Promise<number> {
+    const file = JSON.parse(await readFile(path, 'utf-8')) as ChatSessionFile;
+    if (!Array.isArray(file.turns)) {
+      throw new Error(`${path} is not a saved chat session`);
+    }
+
+    await this.reset();
+    const histories = await findHistories(await this.getFlow());
+    for (const { input, output } of file.turns) {
+      for (const history of histories) {
+        await history.addUserMessage(input);
+        await history.addAIMessage(output);
+      }
+      this.turns.push({ input, output, durationMs: 0, trace: [] });
+    }
+    return file.turns.length;
+  }
+
+  private async getFlow(): Promise<LoadedFlow> {
+    this.flow ??= await this.loadFlow();
+    return this.flow;
+  }
+}
+
+/**
+ * Chat histories of a flow, each once: a message-history runnable's history
+ * is often the chat history of a connected memory
+ */
+async function findHistories(flow: LoadedFlow): Promise<ChatHistory[]> {
+  const histories = new Set<ChatHistory>();
+  for (const instance of flow.instances.values()) {
+    const value = instance as {
+      getMessageHistory?: (sessionId: string) => unknown;
+      chatHistory?: unknown;
+    };
+    const history =
+      typeof value?.getMessageHistory === 'function'
+        ? await value.getMessageHistory('default')
+        : value?.chatHistory;
+    if (
+      typeof (history as ChatHistory | undefined)?.addUserMessage === 'function'
+    ) {
+      histories.add(history as ChatHistory);
+    }
+  }
+  return [...histories];
+}
+
+/**
+ * Callback handler recording the runs of a turn
+ */
+function createTraceHandler(trace: TraceEvent[]): BaseCallbackHandler {
+  const runs = new Map<
+    string,
+    { event: TraceEvent; started: number; depth: number }
+  >();
+
+  const start = (
+    kind: TraceEvent['kind'],
+    serialized: { id?: string[] } | undefined,
+    runId: string,
+    parentRunId: string | undefined,
+    runName: string | undefined
+  ) => {
+    const depth = parentRunId ? (runs.get(parentRunId)?.depth ?? -1) + 1 : 0;
+    const event: TraceEvent = {
+      kind,
+      name: runName ?? serialized?.id?.at(-1) ?? kind,
+      depth,
+    };
+    trace.push(event);
+    runs.set(runId, { event, started: Date.now(), depth });
+  };
+  const end = (runId: string, error?: unknown) => {
+    const run = runs.get(runId);
+    if (!run) return;
+    run.event.durationMs = Date.now() - run.started;
+    if (error) run.event.error = (error as Error).message ?? String(error);
+  };
+
+  return BaseCallbackHandler.fromMethods({
+    handleChainStart(chain, _inputs, runId, parentRunId, _tags, _m, _t, name) {
+      start('chain', chain, runId, parentRunId, name);
+    },
+    handleChainEnd: (_outputs, runId) => end(runId),
+    handleChainError: (error, runId) => end(runId, error),
+    handleLLMStart(llm, _prompts, runId, parentRunId, _p, _tags, _m, name) {
+      start('llm', llm, runId, parentRunId, name);
+    },
+    handleChatModelStart(llm, _messages, runId, parentRunId, _p, _t, _m, name) {
+      start('llm', llm, runId, parentRunId, name);
+    },
+    handleLLMEnd: (_output, runId) => end(runId),
+    handleLLMError: (error, runId) => end(runId, error),
+    handleToolStart(tool, _input, runId, parentRunId, _tags, _m, name) {
+      start('tool', tool, runId, parentRunId, name);
+    },
+    handleToolEnd: (_output, runId) => end(runId),
+    handleToolError: (error, runId) => end(runId, error),
+    handleRetrieverStart(retriever, _query, runId, parentRunId, _t, _m, name) {
+      start('retriever', retriever, runId, parentRunId, name);
+    },
+    handleRetrieverEnd: (_documents, runId) => end(runId),
+    handleRetrieverError: (error, runId) => end(runId, error),
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * Runtime Module
+ *
+ * Runs Flowise exports in process, without generating a project.
+ */
+
+export * from './chat-session.js';
+export * from './interpreter.js';
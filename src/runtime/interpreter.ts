@@ -0,0 +1,486 @@
+/**
+ * Flow Interpreter
+ *
+ * Runs a Flowise export in process: the IR graph is walked in topological
+ * order and each node's object is built by evaluating the code the
+ * transformer generates for it, against the LangChain packages installed
+ * next to this one. Nodes map to LangChain the same way in a converted
+ * project and here, with no project written and nothing installed.
+ */
+
+import type * as TypeScript from 'typescript';
+
+import { IRGraphAnalyzer } from '../ir/graph.js';
+import {
+  FlowiseToIRTransformer,
+  IRToCodeTransformer,
+} from '../ir/transformer.js';
+import type {
+  CodeFragment,
+  FlowiseChatFlow,
+  GenerationContext,
+  IRGraph,
+  IRNode,
+  NodeId,
+} from '../ir/types.js';
+import { parseFlowiseJson } from '../parser/index.js';
+import { isAgentflowNodeType } from '../registry/converters/agentflow-v2.js';
+import { ConverterFactory, initializeRegistry } from '../registry/index.js';
+
+/**
+ * Loads a module the generated code imports
+ */
+export type ModuleLoader = (
+  specifier: string
+) => Promise<Record<string, unknown>>;
+
+export interface FlowInterpreterOptions {
+  /**
+   * Generation options the node code is built with; chains are composed
+   * from LCEL runnables unless `lcel` is false
+   */
+  context?: Partial<GenerationContext>;
+  /** Load imported modules; defaults to import() from this package */
+  importModule?: ModuleLoader;
+}
+
+export interface ExecuteFlowOptions extends FlowInterpreterOptions {
+  /** LangChain callback handlers for the run */
+  callbacks?: unknown[];
+}
+
+export interface FlowExecutionResult {
+  /** Text of the result: a parsed output, a retrieval answer or an agent output */
+  output: string;
+  /** Raw result of the invoked runnable */
+  result: unknown;
+  /** Node whose runnable was invoked */
+  nodeId: NodeId;
+}
+
+/**
+ * Failure to build or run a flow, with the node it happened at
+ */
+export class FlowExecutionError extends Error {
+  constructor(
+    message: string,
+    public nodeId?: NodeId
+  ) {
+    super(message);
+    this.name = 'FlowExecutionError';
+  }
+}
+
+/**
+ * A flow with every node's object built, ready to run any number of times;
+ * memories keep their history between runs
+ */
+export class LoadedFlow {
+  constructor(
+    readonly graph: IRGraph,
+    /** Object built for each node */
+    readonly instances: Map<NodeId, unknown>,
+    /** Node the flow's input is passed to */
+    readonly outputNode: IRNode
+  ) {}
+
+  async invoke(
+    input: string,
+    options: { callbacks?: unknown[] } = {}
+  ): Promise<FlowExecutionResult> {
+    const runnable = this.getRunnable();
+    try {
+      const result = await runnable.invoke(this.toInput(input), {
+        ...(options.callbacks && { callbacks: options.callbacks }),
+      });
+      return { output: outputText(result), result, nodeId: this.outputNode.id };
+    } catch (error) {
+      throw this.failure(error);
+    }
+  }
+
+  /**
+   * Text of the result as the runnable produces it; runnables that do not
+   * stream yield their whole output at once
+   */
+  async *stream(
+    input: string,
+    options: { callbacks?: unknown[] } = {}
+  ): AsyncGenerator<string> {
+    const runnable = this.getRunnable();
+    if (typeof runnable.stream !== 'function') {
+      yield (await this.invoke(input, options)).output;
+      return;
+    }
+
+    try {
+      const chunks = await runnable.stream(this.toInput(input), {
+        ...(options.callbacks && { callbacks: options.callbacks }),
+      });
+      for await (const chunk of chunks) {
+        const text = chunkText(chunk);
+        if (text) yield text;
+      }
+    } catch (error) {
+      throw this.failure(error);
+    }
+  }
+
+  private getRunnable(): {
+    invoke: (input: unknown, config?: unknown) => Promise<unknown>;
+    stream?: (
+      input: unknown,
+      config?: unknown
+    ) => Promise<AsyncIterable<unknown>>;
+  } {
+    const runnable = this.instances.get(this.outputNode.id) as
+      | ReturnType<LoadedFlow['getRunnable']>
+      | undefined;
+    if (typeof runnable?.invoke !== 'function') {
+      throw new FlowExecutionError(
+        `Node ${this.outputNode.id} (${this.outputNode.type}) did not build a runnable`,
+        this.outputNode.id
+      );
+    }
+    return runnable;
+  }
+
+  /**
+   * Models take the input as is, chains and agents under `input`
+   */
+  private toInput(input: string): unknown {
+    return this.outputNode.category === 'llm' ? input : { input };
+  }
+
+  private failure(error: unknown): FlowExecutionError {
+    return new FlowExecutionError(
+      `Node ${this.outputNode.id} (${this.outputNode.type}) failed: ${(error as Error).message}`,
+      this.outputNode.id
+    );
+  }
+}
+
+/**
+ * Builds the LangChain objects of Flowise flows in process
+ */
+export class FlowInterpreter {
+  private readonly importModule: ModuleLoader;
+  private readonly modules = new Map<string, Record<string, unknown>>();
+
+  constructor(private readonly options: FlowInterpreterOptions = {}) {
+    this.importModule =
+      options.importModule ??
+      ((specifier) => import(specifier) as Promise<Record<string, unknown>>);
+  }
+
+  async load(flow: FlowiseChatFlow | string): Promise<LoadedFlow> {
+    const { default: ts } = await import('typescript');
+    if (ConverterFactory.getRegistry().getRegisteredTypes().length === 0) {
+      initializeRegistry();
+    }
+
+    const graph = await toGraph(flow);
+    // Agentflow V2 steps run through the generated runFlow, not as runnables
+    if (graph.nodes.some((node) => isAgentflowNodeType(node.type))) {
+      throw new FlowExecutionError(
+        'Agentflow V2 flows are not supported: convert the flow and run the generated project instead'
+      );
+    }
+    const { sorted, isAcyclic, cycles } =
+      IRGraphAnalyzer.topologicalSort(graph);
+    if (!isAcyclic) {
+      throw new FlowExecutionError(
+        `Flow cannot be run in order: cycle through ${cycles[0]?.join(' -> ') ?? 'its nodes'}`
+      );
+    }
+
+    const context = createContext(this.options.context);
+    const generated = new IRToCodeTransformer().generateNodeFragments(
+      graph,
+      context
+    );
+
+    // Imports of the nodes the transformer builds itself are shared
+    const scope: Record<string, unknown> = {};
+    for (const fragment of generated.imports) {
+      const bindings = await this.bindImports(ts, fragment.content).catch(
+        (error: Error) => {
+          throw new FlowExecutionError(error.message);
+        }
+      );
+      Object.assign(scope, bindings);
+    }
+
+    const instances = new Map<NodeId, unknown>();
+    for (const nodeId of sorted) {
+      const entry = generated.nodes.find((n) => n.node.id === nodeId)!;
+      const fail = (error: unknown): never => {
+        throw new FlowExecutionError(
+          `Node ${nodeId} (${entry.node.type}) failed to build: ${(error as Error).message}`,
+          nodeId
+        );
+      };
+
+      for (const fragment of entry.fragments) {
+        if (fragment.type !== 'import') continue;
+        Object.assign(
+          scope,
+          await this.bindImports(ts, fragment.content).catch(fail)
+        );
+      }
+      const code = entry.fragments
+        .filter((f) => f.type !== 'import')
+        .map((f) => f.content)
+        .join('\n\n');
+
+      const declared = await evaluate(ts, code, scope).catch(fail);
+
+      // Other nodes reference this one by the transformer's variable name
+      const instance =
+        entry.variableName in declared
+          ? declared[entry.variableName]
+          : (declared[exportedName(entry.fragments) ?? ''] ??
+            Object.values(declared).at(-1));
+      Object.assign(scope, declared, { [entry.variableName]: instance });
+      instances.set(nodeId, instance);
+    }
+
+    return new LoadedFlow(graph, instances, findOutputNode(graph));
+  }
+
+  /**
+   * Values of the bindings an import statement declares
+   */
+  private async bindImports(
+    ts: typeof TypeScript,
+    code: string
+  ): Promise<Record<string, unknown>> {
+    const bindings: Record<string, unknown> = {};
+    const source = ts.createSourceFile(
+      'imports.ts',
+      code,
+      ts.ScriptTarget.Latest
+    );
+
+    for (const statement of source.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier) ||
+        statement.importClause?.isTypeOnly
+      ) {
+        continue;
+      }
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (!clause) continue;
+
+      const module = await this.loadModule(specifier);
+      if (clause.name) {
+        bindings[clause.name.text] = module['default'] ?? module;
+      }
+      const named = clause.namedBindings;
+      if (named && ts.isNamespaceImport(named)) {
+        bindings[named.name.text] = module;
+      } else if (named) {
+        for (const element of named.elements) {
+          if (element.isTypeOnly) continue;
+          // CommonJS packages may only expose their exports on the default
+          const name = (element.propertyName ?? element.name).text;
+          const value =
+            module[name] ??
+            (module['default'] as Record<string, unknown> | undefined)?.[name];
+          if (value === undefined) {
+            throw new Error(`${specifier} has no export named ${name}`);
+          }
+          bindings[element.name.text] = value;
+        }
+      }
+    }
+    return bindings;
+  }
+
+  private async loadModule(
+    specifier: string
+  ): Promise<Record<string, unknown>> {
+    let module = this.modules.get(specifier);
+    if (!module) {
+      try {
+        module = await this.importModule(specifier);
+      } catch (error) {
+        throw new Error(
+          `Cannot load ${specifier}: ${(error as Error).message}`
+        );
+      }
+      this.modules.set(specifier, module);
+    }
+    return module;
+  }
+}
+
+/**
+ * Build a Flowise flow and run it once with `input`
+ */
+export async function executeFlow(
+  flow: FlowiseChatFlow | string,
+  input: string,
+  options: ExecuteFlowOptions = {}
+): Promise<FlowExecutionResult> {
+  const loaded = await new FlowInterpreter(options).load(flow);
+  return loaded.invoke(input, { callbacks: options.callbacks });
+}
+
+async function toGraph(flow: FlowiseChatFlow | string): Promise<IRGraph> {
+  let data = flow;
+  if (typeof flow === 'string') {
+    const parsed = await parseFlowiseJson(flow);
+    if (!parsed.success || !parsed.data) {
+      throw new FlowExecutionError(
+        `Invalid Flowise export: ${parsed.errors.map((e) => e.message).join(', ')}`
+      );
+    }
+    data = parsed.data as FlowiseChatFlow;
+  }
+
+  const { graph, validation } = await new FlowiseToIRTransformer().transform(
+    data as FlowiseChatFlow
+  );
+  if (!validation.isValid) {
+    throw new FlowExecutionError(
+      `Invalid flow: ${validation.errors.map((e) => e.message).join(', ')}`
+    );
+  }
+  return graph;
+}
+
+function createContext(
+  overrides: Partial<GenerationContext> = {}
+): GenerationContext {
+  return {
+    targetLanguage: 'typescript',
+    outputPath: '',
+    projectName: 'flow',
+    includeTests: false,
+    includeDocs: false,
+    includeLangfuse: false,
+    packageManager: 'npm',
+    environment: {},
+    codeStyle: {
+      indentSize: 2,
+      useSpaces: true,
+      semicolons: true,
+      singleQuotes: true,
+      trailingCommas: true,
+    },
+    lcel: true,
+    ...overrides,
+  };
+}
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (
+  ...args: string[]
+) => (...args: unknown[]) => Promise<Record<string, unknown>>;
+
+/**
+ * Evaluate a node's code with the bindings in scope, returning the values
+ * of the names it declares at top level
+ */
+async function evaluate(
+  ts: typeof TypeScript,
+  code: string,
+  scope: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const source = ts.createSourceFile('node.ts', code, ts.ScriptTarget.Latest);
+  const declared = source.statements.flatMap((statement) => {
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.flatMap((d) =>
+        ts.isIdentifier(d.name) ? [d.name.text] : []
+      );
+    }
+    if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      return [statement.name.text];
+    }
+    return [];
+  });
+
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.CommonJS,
+    },
+  });
+
+  // Names the node redeclares shadow the scope instead of clashing with it
+  const names = Object.keys(scope).filter((name) => !declared.includes(name));
+  const run = new AsyncFunction(
+    'exports',
+    'require',
+    ...names,
+    `${outputText}\nreturn { ${declared.join(', ')} };`
+  );
+  const exports: Record<string, unknown> = {};
+  const values = await run(
+    exports,
+    (specifier: string) => {
+      throw new Error(`Cannot require ${specifier} from node code`);
+    },
+    ...names.map((name) => scope[name])
+  );
+  return { ...exports, ...values };
+}
+
+function exportedName(fragments: CodeFragment[]): string | undefined {
+  const exports = fragments.flatMap(
+    (f) => (f.metadata?.['exports'] as string[] | undefined) ?? []
+  );
+  return exports[0];
+}
+
+/**
+ * The node a flow's input goes to: an exit node, preferring chains and
+ * agents over nodes left unconnected
+ */
+function findOutputNode(graph: IRGraph): IRNode {
+  const exits = new Set(graph.analysis?.exitPoints ?? []);
+  const candidates = graph.nodes.filter((n) => exits.has(n.id));
+  const node =
+    candidates.find((n) => n.category === 'chain' || n.category === 'agent') ??
+    candidates[0];
+  if (!node) {
+    throw new FlowExecutionError('Flow has no node to pass the input to');
+  }
+  return node;
+}
+
+/**
+ * Text of a streamed chunk: a string, a message chunk, or the part of a
+ * result object carrying the answer
+ */
+function chunkText(chunk: unknown): string {
+  if (typeof chunk === 'string') return chunk;
+  const value = chunk as Record<string, unknown> | undefined;
+  const text =
+    value?.['answer'] ??
+    value?.['output'] ??
+    value?.['text'] ??
+    value?.['content'];
+  return typeof text === 'string' ? text : '';
+}
+
+/**
+ * Text of a runnable's result
+ */
+function outputText(result: unknown): string {
+  if (typeof result === 'string') return result;
+  const value = result as Record<string, unknown> | undefined;
+  const text =
+    value?.['answer'] ??
+    value?.['output'] ??
+    value?.['text'] ??
+    value?.['response'] ??
+    value?.['content'];
+  return typeof text === 'string' ? text : JSON.stringify(result);
+}
@@ -0,0 +1,695 @@
+/**
+ * Agentflow V2 Node Family Test Suite
+ * Tests for the startAgentflow/llmAgentflow/agentAgentflow/conditionAgentflow/
+ * conditionAgentAgentflow/loopAgentflow/toolAgentflow/httpAgentflow/
+ * executeFlowAgentflow converters and conversion of real Agentflow V2 exports
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { IRProcessor, IRToCodeTransformer } from '../../src/ir/index.js';
+import { IRGraph, FlowiseChatFlow } from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import {
+  StartAgentflowConverter,
+  LLMAgentflowConverter,
+  AgentAgentflowConverter,
+  ConditionAgentflowConverter,
+  ConditionAgentAgentflowConverter,
+  LoopAgentflowConverter,
+  ToolAgentflowConverter,
+  HttpAgentflowConverter,
+  ExecuteFlowAgentflowConverter,
+  HumanInputAgentflowConverter,
+  StickyNoteAgentflowConverter,
+} from '../../src/registry/converters/agentflow-v2.js';
+import {
+  ConverterFactory,
+  initializeRegistry,
+} from '../../src/registry/index.js';
+import { createContext, createNode } from '../utils/test-helpers.js';
+
+const readChatflow = (name: string): string =>
+  readFileSync(join(process.cwd(), 'chatflows', name), 'utf8');
+
+const context = createContext({ projectName: 'agentflow-test' });
+
+const stepCode = (fragments: { id: string; content: string }[]): string =>
+  fragments.find((f) => f.id.endsWith('_step'))?.content ?? '';
+
+describe('Agentflow V2 node family', () => {
+  describe('registry', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should register converters for every Agentflow V2 node type', () => {
+      const registry = ConverterFactory.getRegistry();
+      for (const type of [
+        'startAgentflow',
+        'llmAgentflow',
+        'agentAgentflow',
+        'conditionAgentflow',
+        'conditionAgentAgentflow',
+        'loopAgentflow',
+        'directReplyAgentflow',
+        'customFunctionAgentflow',
+        'toolAgentflow',
+        'httpAgentflow',
+        'executeFlowAgentflow',
+        'iterationAgentflow',
+        'humanInputAgentflow',
+        'retrieverAgentflow',
+        'stickyNoteAgentflow',
+      ]) {
+        expect(registry.hasConverter(type)).toBe(true);
+        expect(registry.getConverter(type)?.category).toBe('agentflow-v2');
+      }
+    });
+  });
+
+  describe('StartAgentflowConverter', () => {
+    it('should initialise flow state from startState', () => {
+      const node = createNode(
+        'startAgentflow_0',
+        'startAgentflow',
+        {
+          startState: [
+            { key: 'next', value: '' },
+            { key: 'instruction', value: '' },
+          ],
+        },
+        { label: 'Start' }
+      );
+      const code = stepCode(
+        new StartAgentflowConverter().convert(node, context)
+      );
+
+      expect(code).toContain('const startAgentflow_0_initialState');
+      expect(code).toContain('"next": ""');
+      expect(code).toContain(
+        'flow.state = { ...startAgentflow_0_initialState };'
+      );
+      expect(code).toContain(
+        'flow.messages.push(new HumanMessage(flow.input));'
+      );
+    });
+
+    it('should keep state between runs when startPersistState is set', () => {
+      const node = createNode(
+        'startAgentflow_0',
+        'startAgentflow',
+        {
+          startState: [{ key: 'next', value: '' }],
+          startPersistState: true,
+        },
+        { label: 'Start' }
+      );
+      const code = stepCode(
+        new StartAgentflowConverter().convert(node, context)
+      );
+
+      expect(code).toContain('startAgentflow_0_persistedState');
+      expect(code).toContain('flow.state = startAgentflow_0_persistedState;');
+    });
+  });
+
+  describe('LLMAgentflowConverter', () => {
+    const node = createNode(
+      'llmAgentflow_0',
+      'llmAgentflow',
+      {
+        llmModel: 'chatOpenAI',
+        llmMessages: [
+          {
+            role: 'system',
+            content: '<p>You are a <strong>supervisor</strong>.</p>',
+          },
+        ],
+        llmEnableMemory: true,
+        llmMemoryType: 'allMessages',
+        llmUserMessage: '<p>Who should act next?</p>',
+        llmStructuredOutput: [
+          {
+            key: 'next',
+            type: 'enum',
+            enumValues: 'FINISH, SOFTWARE, REVIEWER',
+            description: 'next worker to act',
+          },
+          { key: 'instructions', type: 'string' },
+        ],
+        llmUpdateState: [
+          {
+            key: 'next',
+            value:
+              '<p><span class="variable" data-id="output.next">{{ output.next }}</span> </p>',
+          },
+        ],
+        llmModelConfig: {
+          modelName: 'gpt-4.1',
+          temperature: '0.9',
+          maxTokens: '',
+        },
+      },
+      { label: 'Supervisor' }
+    );
+
+    it('should build the chat model from llmModelConfig', () => {
+      const fragments = new LLMAgentflowConverter().convert(node, context);
+      const code = stepCode(fragments);
+
+      expect(fragments.map((f) => f.content)).toContain(
+        "import { ChatOpenAI } from '@langchain/openai';"
+      );
+      expect(code).toContain('const llmAgentflow_0_model = new ChatOpenAI({');
+      expect(code).toContain('model: "gpt-4.1"');
+      expect(code).toContain('temperature: 0.9');
+      expect(code).not.toContain('maxTokens');
+    });
+
+    it('should report chat models it has no mapping for', () => {
+      const fragments = new LLMAgentflowConverter().convert(
+        createNode(
+          'llmAgentflow_1',
+          'llmAgentflow',
+          {
+            llmModel: 'chatCohere',
+          },
+          { label: 'Writer' }
+        ),
+        context
+      );
+      const step = fragments.find((f) => f.id.endsWith('_step'));
+
+      expect(step?.content).toContain('new ChatOpenAI()');
+      expect(step?.content).not.toContain('TODO');
+      expect(step?.metadata?.warnings).toEqual([
+        "Writer: the 'chatCohere' chat model has no LangChain mapping, so it runs as ChatOpenAI",
+      ]);
+    });
+
+    it('should convert structured output to a zod schema', () => {
+      const code = stepCode(new LLMAgentflowConverter().convert(node, context));
+
+      expect(code).toContain(
+        '"next": z.enum(["FINISH", "SOFTWARE", "REVIEWER"]).describe("next worker to act")'
+      );
+      expect(code).toContain('"instructions": z.string()');
+      expect(code).toContain('.withStructuredOutput(llmAgentflow_0_schema)');
+    });
+
+    it('should strip HTML from messages and resolve state updates', () => {
+      const code = stepCode(new LLMAgentflowConverter().convert(node, context));
+
+      expect(code).toContain('new SystemMessage(`You are a supervisor.`)');
+      expect(code).toContain('...flow.messages,');
+      expect(code).toContain('new HumanMessage(`Who should act next?`)');
+      expect(code).toContain('flow.state["next"] = `${output["next"]}`;');
+    });
+  });
+
+  describe('AgentAgentflowConverter', () => {
+    it('should resolve flow state references in the user message', () => {
+      const node = createNode(
+        'agentAgentflow_1',
+        'agentAgentflow',
+        {
+          agentModel: 'azureChatOpenAI',
+          agentEnableMemory: true,
+          agentUserMessage:
+            '<p><span data-id="$flow.state.instruction">{{ $flow.state.instruction }}</span></p>',
+          agentModelConfig: { modelName: 'gpt-4.1' },
+        },
+        { label: 'Engineer' }
+      );
+      const fragments = new AgentAgentflowConverter().convert(node, context);
+      const code = stepCode(fragments);
+
+      expect(fragments.map((f) => f.content)).toContain(
+        "import { AzureChatOpenAI } from '@langchain/openai';"
+      );
+      expect(code).toContain(
+        'new HumanMessage(`${flow.state["instruction"] ?? \'\'}`)'
+      );
+      expect(code).toContain('return { output, reply };');
+    });
+
+    it('should report the tools and knowledge it cannot convert', () => {
+      const node = createNode(
+        'agentAgentflow_0',
+        'agentAgentflow',
+        {
+          agentModel: 'chatOpenAI',
+          agentTools: [{ agentSelectedTool: 'composio' }],
+          agentKnowledgeDocumentStores: [{ documentStore: 'docs' }],
+        },
+        { label: 'Researcher' }
+      );
+      const step = new AgentAgentflowConverter()
+        .convert(node, context)
+        .find((f) => f.id.endsWith('_step'));
+
+      expect(step?.content).toContain(
+        'const response = await agentAgentflow_0_model.invoke(messages);'
+      );
+      expect(step?.content).not.toContain('TODO');
+      expect(step?.content).not.toContain('bindTools');
+      expect(step?.metadata?.warnings).toEqual([
+        "Researcher: the 'composio' tool has no converter, so the agent runs without it",
+        'Researcher: knowledge from document stores is not supported, so the agent runs without it',
+      ]);
+    });
+  });
+
+  describe('AgentAgentflowConverter tools', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should build the tools the registry converts and bind them', () => {
+      const node = createNode(
+        'agentAgentflow_0',
+        'agentAgentflow',
+        {
+          agentModel: 'chatOpenAI',
+          agentTools: [
+            { agentSelectedTool: 'composio' },
+            {
+              agentSelectedTool: 'googleDocsTool',
+              agentSelectedToolConfig: { agentSelectedTool: 'googleDocsTool' },
+            },
+          ],
+        },
+        { label: 'Reporter' }
+      );
+      const converter = new AgentAgentflowConverter();
+      const fragments = converter.convert(node, context);
+      const code = fragments.map((f) => f.content).join('\n');
+
+      expect(code).toContain(
+        "import { GoogleDocsTool } from '@langchain/community/tools/google_docs';"
+      );
+      expect(code).toContain(
+        'const agentagentflow_0_googledocstool_google_docs = new GoogleDocsTool({'
+      );
+      expect(stepCode(fragments)).toContain(
+        'const tools = [agentagentflow_0_googledocstool_google_docs];'
+      );
+      expect(stepCode(fragments)).toContain(
+        'const model = agentAgentflow_0_model.bindTools(tools);'
+      );
+      expect(converter.getDependencies(node, context)).toContain(
+        '@langchain/community'
+      );
+      expect(
+        fragments.find((f) => f.id.endsWith('_step'))?.metadata?.warnings
+      ).toEqual([
+        "Reporter: the 'composio' tool has no converter, so the agent runs without it",
+      ]);
+    });
+  });
+
+  describe('ConditionAgentflowConverter', () => {
+    it('should return a branch per condition and an else branch', () => {
+      const node = createNode(
+        'conditionAgentflow_0',
+        'conditionAgentflow',
+        {
+          conditions: [
+            {
+              type: 'string',
+              value1: '<p>{{ $flow.state.next }}</p>',
+              operation: 'equal',
+              value2: '<p>SOFTWARE</p>',
+            },
+            {
+              type: 'number',
+              value1: '<p>{{ $flow.state.score }}</p>',
+              operation: 'larger',
+              value2: '<p>5</p>',
+            },
+          ],
+        },
+        { label: 'Check' }
+      );
+      const code = stepCode(
+        new ConditionAgentflowConverter().convert(node, context)
+      );
+
+      expect(code).toContain(
+        'if (`${flow.state["next"] ?? \'\'}`.trim() === `SOFTWARE`.trim()) {'
+      );
+      expect(code).toContain(
+        'Number(`${flow.state["score"] ?? \'\'}`.trim()) > Number(`5`.trim())'
+      );
+      expect(code).toContain('return { output: 1, branch: 1 };');
+      expect(code).toContain('return { output: 2, branch: 2 };');
+    });
+
+    it('should treat a regex that does not compile as a non-match', () => {
+      const node = createNode(
+        'conditionAgentflow_0',
+        'conditionAgentflow',
+        {
+          conditions: [
+            {
+              type: 'string',
+              value1: '{{ question }}',
+              operation: 'regex',
+              value2: '<p>[a-</p>',
+            },
+            {
+              type: 'string',
+              value1: '{{ question }}',
+              operation: 'regex',
+              value2: '{{ $flow.state.pattern }}',
+            },
+          ],
+        },
+        { label: 'Check' }
+      );
+      const fragments = new ConditionAgentflowConverter().convert(
+        node,
+        context
+      );
+      const code = stepCode(fragments);
+
+      expect(code).toContain(
+        'const conditionAgentflow_0_matches = (pattern: string, value: string): boolean => {'
+      );
+      expect(code).toContain('  } catch {\n    return false;');
+      expect(code).toContain(
+        'if (conditionAgentflow_0_matches(`[a-`.trim(), `${flow.input}`.trim())) {'
+      );
+      expect(code).not.toContain('new RegExp(`');
+      expect(
+        fragments.find((f) => f.id.endsWith('_step'))?.metadata?.warnings
+      ).toEqual([
+        expect.stringMatching(
+          /^Check: condition 1 has an invalid regex \/\[a-\/ \(.+\), so it never matches$/
+        ),
+      ]);
+    });
+  });
+
+  describe('ConditionAgentAgentflowConverter', () => {
+    it('should ask the model for a scenario and branch on its index', () => {
+      const node = createNode(
+        'conditionAgentAgentflow_0',
+        'conditionAgentAgentflow',
+        {
+          conditionAgentModel: 'chatOpenAI',
+          conditionAgentInstructions: '<p>Route the request</p>',
+          conditionAgentScenarios: [
+            { scenario: 'Billing' },
+            { scenario: 'Support' },
+          ],
+        },
+        { label: 'Router' }
+      );
+      const fragments = new ConditionAgentAgentflowConverter().convert(
+        node,
+        context
+      );
+      const code = stepCode(fragments);
+
+      expect(code).toContain(
+        'const conditionAgentAgentflow_0_model = new ChatOpenAI({'
+      );
+      expect(code).toContain('const scenarios = ["Billing","Support"];');
+      expect(code).toContain('const input = flow.input;');
+      expect(code).toContain('await conditionAgentAgentflow_0_model.invoke([');
+      expect(code).toContain(
+        'return { output: scenarios[branch] ?? answer, branch };'
+      );
+    });
+
+    it('should be routed by the generated runFlow like a condition', async () => {
+      initializeRegistry();
+      const router = createNode(
+        'conditionAgentAgentflow_0',
+        'conditionAgentAgentflow',
+        { conditionAgentScenarios: [{ scenario: 'A' }, { scenario: 'B' }] },
+        { label: 'Router' }
+      );
+      const replies = ['directReplyAgentflow_0', 'directReplyAgentflow_1'].map(
+        (id) => createNode(id, 'directReplyAgentflow', {}, { label: id })
+      );
+      const graph: IRGraph = {
+        metadata: { name: 'router' },
+        nodes: [
+          createNode(
+            'startAgentflow_0',
+            'startAgentflow',
+            {},
+            { label: 'Start' }
+          ),
+          router,
+          ...replies,
+        ],
+        connections: [
+          ['startAgentflow_0', 'conditionAgentAgentflow_0', 'startAgentflow_0'],
+          ['conditionAgentAgentflow_0', 'directReplyAgentflow_0', '0'],
+          ['conditionAgentAgentflow_0', 'directReplyAgentflow_1', '1'],
+        ].map(([source, target, output], index) => ({
+          id: `edge_${index}`,
+          source: source!,
+          target: target!,
+          sourceHandle: `${source}-output-${output}`,
+          targetHandle: target!,
+        })),
+      };
+      const result = await new IRToCodeTransformer().generateCode(
+        graph,
+        context
+      );
+      const code = result.files.find((f) => f.path === 'src/index.ts')?.content;
+
+      expect(code).toContain(
+        'const conditionAgentAgentflow_0_step: AgentflowStep'
+      );
+      expect(code).toContain(
+        '{ source: "conditionAgentAgentflow_0", target: "directReplyAgentflow_1", branch: 1 }'
+      );
+    });
+  });
+
+  describe('LoopAgentflowConverter', () => {
+    it('should jump back to the target node until maxLoopCount is reached', () => {
+      const node = createNode(
+        'loopAgentflow_0',
+        'loopAgentflow',
+        {
+          loopBackToNode: 'llmAgentflow_0-Supervisor',
+          maxLoopCount: 3,
+        },
+        { label: 'Loop' }
+      );
+      const converter = new LoopAgentflowConverter();
+      const code = stepCode(converter.convert(node, context));
+
+      expect(converter.getLoopTarget(node)).toBe('llmAgentflow_0');
+      expect(code).toContain('if (count > 3) {');
+      expect(code).toContain(
+        'return { output: count, goto: "llmAgentflow_0" };'
+      );
+    });
+  });
+
+  describe('ToolAgentflowConverter', () => {
+    it('should call the converted tool with the configured arguments', () => {
+      const node = createNode(
+        'toolAgentflow_0',
+        'toolAgentflow',
+        {
+          toolAgentflowSelectedTool: 'calculator',
+          toolInputArgs: [
+            { inputArgName: 'input', inputArgValue: '<p>{{ question }}</p>' },
+          ],
+          toolUpdateState: [{ key: 'result', value: '{{ output }}' }],
+        },
+        { label: 'Sum' }
+      );
+      const fragments = new ToolAgentflowConverter().convert(node, context);
+      const code = stepCode(fragments);
+
+      expect(fragments.map((f) => f.content).join('\n')).toContain(
+        'const toolagentflow_0_calculator_tool = new Calculator();'
+      );
+      expect(code).toContain(
+        'const message = await toolagentflow_0_calculator_tool.invoke({'
+      );
+      expect(code).toContain('"input": `${flow.input}`,');
+      expect(code).toContain('flow.state["result"] = `${output}`;');
+      expect(code).toContain('return { output, reply };');
+    });
+
+    it('should fail the step when the tool has no converter', () => {
+      const node = createNode(
+        'toolAgentflow_0',
+        'toolAgentflow',
+        {
+          toolAgentflowSelectedTool: 'composio',
+        },
+        { label: 'Post' }
+      );
+      const fragments = new ToolAgentflowConverter().convert(node, context);
+
+      expect(stepCode(fragments)).toContain(
+        'throw new Error("The \'composio\' tool of Post was not converted");'
+      );
+      expect(
+        fragments.find((f) => f.id.endsWith('_step'))?.metadata?.warnings
+      ).toEqual([
+        "Post: the 'composio' tool has no converter, so the step fails when it runs",
+      ]);
+    });
+  });
+
+  describe('HttpAgentflowConverter', () => {
+    it('should send the request with fetch and return the response', () => {
+      const node = createNode(
+        'httpAgentflow_0',
+        'httpAgentflow',
+        {
+          method: 'POST',
+          url: 'https://example.com/api',
+          headers: [{ key: 'X-Id', value: '{{ $vars.ID }}' }],
+          queryParams: [{ key: 'q', value: '{{ question }}' }],
+          bodyType: 'json',
+          body: '{"q": "{{ question }}"}',
+          responseType: 'json',
+        },
+        { label: 'Lookup' }
+      );
+      const code = stepCode(
+        new HttpAgentflowConverter().convert(node, context)
+      );
+
+      expect(code).toContain('url.searchParams.set("q", `${flow.input}`);');
+      expect(code).toContain('const body = `{"q": "${flow.input}"}`;');
+      expect(code).toContain('"Content-Type": `application/json`,');
+      expect(code).toContain('"X-Id": `${process.env["ID"] ?? \'\'}`,');
+      expect(code).toContain('method: "POST",');
+      expect(code).toContain('if (!response.ok) {');
+      expect(code).toContain('const output: unknown = await response.json();');
+    });
+  });
+
+  describe('ExecuteFlowAgentflowConverter', () => {
+    it('should run the selected flow through the prediction API', () => {
+      const node = createNode(
+        'executeFlowAgentflow_0',
+        'executeFlowAgentflow',
+        {
+          executeFlowSelectedFlow: 'abc-123',
+          executeFlowOverrideConfig: '{"temperature": 0}',
+          executeFlowReturnResponseAs: 'assistantMessage',
+        },
+        { label: 'Research' }
+      );
+      const code = stepCode(
+        new ExecuteFlowAgentflowConverter().convert(node, context)
+      );
+
+      expect(code).toContain(
+        "const baseUrl = process.env.FLOWISE_URL ?? 'http://localhost:3000';"
+      );
+      expect(code).toContain('`${baseUrl}/api/v1/prediction/abc-123`,');
+      expect(code).toContain(
+        'Authorization: `Bearer ${process.env.FLOWISE_API_KEY}`,'
+      );
+      expect(code).toContain('overrideConfig: {"temperature":0},');
+      expect(code).toContain('flow.messages.push(new AIMessage(reply));');
+    });
+  });
+
+  describe('out-of-scope nodes', () => {
+    it('should convert to a step that fails with the reason', () => {
+      const node = createNode(
+        'humanInputAgentflow_0',
+        'humanInputAgentflow',
+        {},
+        { label: 'Approve' }
+      );
+      const fragments = new HumanInputAgentflowConverter().convert(
+        node,
+        context
+      );
+
+      expect(stepCode(fragments)).toContain(
+        'throw new Error("Approve (humanInputAgentflow) is not supported: runFlow runs to completion and cannot wait for a person");'
+      );
+      expect(
+        fragments.find((f) => f.id.endsWith('_step'))?.metadata?.warnings
+      ).toEqual([
+        'Approve: humanInputAgentflow nodes are out of scope (runFlow runs to completion and cannot wait for a person), so the flow fails when it reaches this step',
+      ]);
+    });
+  });
+
+  describe('StickyNoteAgentflowConverter', () => {
+    it('should emit the note as a comment without a step', () => {
+      const node = createNode(
+        'stickyNoteAgentflow_0',
+        'stickyNoteAgentflow',
+        {
+          note: 'COMPANY INFO\nGOALS',
+        },
+        { label: 'Note' }
+      );
+      const fragments = new StickyNoteAgentflowConverter().convert(
+        node,
+        context
+      );
+
+      expect(fragments).toHaveLength(1);
+      expect(fragments[0]?.content).toBe('// Note\n// COMPANY INFO\n// GOALS');
+    });
+  });
+
+  describe('real Agentflow V2 exports', () => {
+    it.each(['Software Team Agents.json', 'Strategy Team Agents.json'])(
+      'should parse %s',
+      async (name) => {
+        const result = await parseFlowiseJson(readChatflow(name));
+        expect(result.success).toBe(true);
+      }
+    );
+
+    it('should convert Software Team Agents.json into a runnable flow', async () => {
+      initializeRegistry();
+      const parsed = await parseFlowiseJson(
+        readChatflow('Software Team Agents.json')
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const main = result.code.files.find((f) => f.path === 'src/index.ts');
+      const code = main?.content ?? '';
+
+      expect(code).not.toContain('Unimplemented node type');
+      expect(code).toContain('const llmAgentflow_0_step: AgentflowStep');
+      expect(code).toContain(
+        '{ source: "conditionAgentflow_0", target: "agentAgentflow_1", branch: 0 }'
+      );
+      expect(code).toContain('const queue: string[] = ["startAgentflow_0"];');
+      expect(code).toContain('export async function runFlow(input: string)');
+      expect(code.match(/from '@langchain\/core\/messages';/g)?.length).toBe(1);
+      expect(code).not.toMatch(/LLMChain|PromptTemplate|TODO/);
+      expect(result.code.metadata.warnings).toEqual([]);
+
+      const packageJson = JSON.parse(
+        result.code.files.find((f) => f.path === 'package.json')?.content ??
+          '{}'
+      );
+      expect(packageJson.dependencies).toHaveProperty('@langchain/anthropic');
+      expect(packageJson.dependencies).toHaveProperty('zod');
+    });
+  });
+});
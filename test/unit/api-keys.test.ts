@@ -0,0 +1,417 @@
+/**
+ * API Keys Test Suite
+ * Tests for per-tenant API keys with scopes, quotas and rotation, and for
+ * keeping the records of tenants apart
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import type { NextFunction, Request, Response } from 'express';
+import type { IncomingMessage } from 'http';
+import { WebSocket, type WebSocketServer } from 'ws';
+
+import {
+  apiKeyAuth,
+  requireApiKey,
+  requireScope,
+  verifyWebSocketClient,
+} from '../../src/api/middleware/auth.js';
+import {
+  ApiKeyService,
+  hasScope,
+} from '../../src/api/services/ApiKeyService.js';
+import { JobService } from '../../src/api/services/JobService.js';
+import { StatsService } from '../../src/api/services/StatsService.js';
+import { WebSocketService } from '../../src/api/services/websocket.js';
+import { AppDataSource } from '../../src/database/dataSource.js';
+import {
+  ApiKeyEntity,
+  ConversionEntity,
+  JobEntity,
+} from '../../src/database/entities.js';
+
+// The websocket service logs through the CLI logger, which jest cannot load
+jest.mock('../../src/cli/utils/logger', () => ({
+  logger: { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} },
+}));
+
+describe('API keys', () => {
+  let dir: string;
+  let dataSource: AppDataSource;
+  let apiKeys: ApiKeyService;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'api-keys-'));
+    dataSource = AppDataSource.getInstance({
+      type: 'sqlite',
+      database: join(dir, 'api.sqlite'),
+    });
+    await dataSource.initialize();
+    apiKeys = new ApiKeyService(dataSource, '');
+  });
+
+  afterEach(() => {
+    dataSource.getRepository(ApiKeyEntity).delete({});
+    dataSource.getRepository(JobEntity).delete({});
+    dataSource.getRepository(ConversionEntity).delete({});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('ApiKeyService', () => {
+    it('should issue keys that authenticate with their scopes', () => {
+      expect(apiKeys.isEnabled()).toBe(false);
+
+      const { key, secret } = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'ci',
+        scopes: ['convert', 'validate'],
+        rateLimit: 10,
+      });
+      const authenticated = apiKeys.authenticate(secret)!;
+
+      expect(apiKeys.isEnabled()).toBe(true);
+      expect(secret).toMatch(/^flk_/);
+      expect(key).not.toHaveProperty('keyHash');
+      expect(key.keyPrefix).toBe(secret.slice(0, 10));
+      expect(authenticated).toEqual({
+        id: key.id,
+        tenantId: 'acme',
+        scopes: ['convert', 'validate'],
+        rateLimit: 10,
+        dailyQuota: undefined,
+      });
+      expect(hasScope(authenticated, 'convert')).toBe(true);
+      expect(hasScope(authenticated, 'batch')).toBe(false);
+      expect(apiKeys.authenticate('flk_unknown')).toBeUndefined();
+    });
+
+    it('should reject invalid key settings', () => {
+      const valid = { tenantId: 'acme', name: 'ci', scopes: ['test' as const] };
+
+      expect(() => apiKeys.createKey({ ...valid, tenantId: '../x' })).toThrow(
+        RangeError
+      );
+      expect(() =>
+        apiKeys.createKey({ ...valid, scopes: ['deploy' as never] })
+      ).toThrow(RangeError);
+      expect(() => apiKeys.createKey({ ...valid, dailyQuota: 0 })).toThrow(
+        'dailyQuota must be a positive integer'
+      );
+      expect(() =>
+        apiKeys.createKey({ ...valid, expiresAt: new Date(Date.now() - 1) })
+      ).toThrow(RangeError);
+    });
+
+    it('should refuse requests over the daily quota', () => {
+      const { key, secret } = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'limited',
+        scopes: ['convert'],
+        dailyQuota: 2,
+      });
+      const authenticated = apiKeys.authenticate(secret)!;
+
+      expect(apiKeys.recordRequest(authenticated).allowed).toBe(true);
+      expect(apiKeys.recordRequest(authenticated)).toEqual({
+        allowed: true,
+        used: 2,
+        quota: 2,
+      });
+      expect(apiKeys.recordRequest(authenticated)).toEqual({
+        allowed: false,
+        used: 2,
+        quota: 2,
+      });
+      expect(apiKeys.getUsage(key.id, 2)).toEqual([
+        { date: expect.any(String), requests: 0 },
+        { date: new Date().toISOString().slice(0, 10), requests: 2 },
+      ]);
+      expect(apiKeys.getKey(key.id)?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep the previous secret working during the grace period', () => {
+      const { key, secret } = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'rotated',
+        scopes: ['convert'],
+      });
+
+      const rotated = apiKeys.rotateKey(key.id, 60_000);
+      expect(apiKeys.authenticate(rotated.secret)?.id).toBe(key.id);
+      expect(apiKeys.authenticate(secret)?.id).toBe(key.id);
+      expect(rotated.key.rotatedAt).toBeInstanceOf(Date);
+
+      const again = apiKeys.rotateKey(key.id);
+      expect(apiKeys.authenticate(rotated.secret)).toBeUndefined();
+      expect(apiKeys.authenticate(secret)).toBeUndefined();
+      expect(apiKeys.authenticate(again.secret)?.id).toBe(key.id);
+      expect(() => apiKeys.rotateKey(key.id, -1)).toThrow(RangeError);
+    });
+
+    it('should refuse revoked and expired keys', () => {
+      const revoked = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'revoked',
+        scopes: ['convert'],
+      });
+      const expiring = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'expiring',
+        scopes: ['convert'],
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+      dataSource
+        .getRepository(ApiKeyEntity)
+        .update(expiring.key.id, { expiresAt: new Date(Date.now() - 1) });
+
+      expect(apiKeys.revokeKey(revoked.key.id)).toBe(true);
+      expect(apiKeys.revokeKey(revoked.key.id)).toBe(false);
+      expect(apiKeys.authenticate(revoked.secret)).toBeUndefined();
+      expect(apiKeys.authenticate(expiring.secret)).toBeUndefined();
+      expect(() => apiKeys.rotateKey(revoked.key.id)).toThrow('revoked');
+    });
+
+    it('should only show tenants their own keys', () => {
+      const acme = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'acme',
+        scopes: ['admin'],
+      });
+      apiKeys.createKey({
+        tenantId: 'globex',
+        name: 'globex',
+        scopes: ['test'],
+      });
+
+      expect(apiKeys.listKeys('acme').map((key) => key.name)).toEqual(['acme']);
+      expect(apiKeys.listKeys()).toHaveLength(2);
+      expect(apiKeys.getKey(acme.key.id, 'globex')).toBeUndefined();
+      expect(apiKeys.revokeKey(acme.key.id, 'globex')).toBe(false);
+      expect(() => apiKeys.rotateKey(acme.key.id, 0, 'globex')).toThrow(
+        'not found'
+      );
+    });
+
+    it('should give the root key every scope and no tenant', () => {
+      const withRoot = new ApiKeyService(dataSource, 'root-secret');
+
+      expect(withRoot.isEnabled()).toBe(true);
+      expect(withRoot.authenticate('root-secret')).toEqual({
+        id: 'root',
+        scopes: [
+          'convert',
+          'validate',
+          'test',
+          'batch',
+          'jobs',
+          'stats',
+          'admin',
+        ],
+      });
+      expect(withRoot.authenticate('root-secreT')).toBeUndefined();
+    });
+  });
+
+  describe('middleware', () => {
+    const call = (
+      middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+      req: Partial<Request>
+    ) => {
+      const res = {
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        body: undefined as unknown,
+        status(code: number) {
+          this.statusCode = code;
+          return this;
+        },
+        json(body: unknown) {
+          this.body = body;
+          return this;
+        },
+        set(headers: Record<string, string>) {
+          Object.assign(this.headers, headers);
+          return this;
+        },
+      };
+      const next = jest.fn();
+      middleware(
+        { headers: {}, query: {}, ...req } as Request,
+        res as unknown as Response,
+        next
+      );
+      return { res, next };
+    };
+
+    it('should let requests through until keys are set up', () => {
+      const { next } = call(apiKeyAuth(apiKeys), {});
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should only let key management through with a key', () => {
+      expect(call(apiKeyAuth(apiKeys), {}).next).toHaveBeenCalled();
+      expect(call(requireApiKey, {}).res.statusCode).toBe(401);
+      expect(call(requireScope('admin'), {}).next).toHaveBeenCalled();
+
+      const { secret } = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'admin',
+        scopes: ['admin'],
+      });
+      const apiKey = apiKeys.authenticate(secret)!;
+      expect(call(requireApiKey, { apiKey }).next).toHaveBeenCalled();
+    });
+
+    it('should authenticate keys and enforce quotas and scopes', () => {
+      const { secret } = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'ci',
+        scopes: ['validate'],
+        dailyQuota: 1,
+      });
+      const auth = apiKeyAuth(apiKeys);
+
+      expect(call(auth, {}).res.statusCode).toBe(401);
+
+      const req: Partial<Request> = { headers: { 'x-api-key': secret } };
+      const first = call(auth, req);
+      expect(first.next).toHaveBeenCalled();
+      expect(first.res.headers).toEqual({
+        'X-Quota-Limit': '1',
+        'X-Quota-Remaining': '0',
+      });
+      expect(call(auth, req).res.statusCode).toBe(429);
+
+      const key = apiKeys.authenticate(secret)!;
+      expect(
+        call(requireScope('validate'), { apiKey: key }).next
+      ).toHaveBeenCalled();
+      expect(
+        call(requireScope('convert'), { apiKey: key }).res.statusCode
+      ).toBe(403);
+    });
+
+    it('should only accept websocket upgrades with a key', () => {
+      const verify = verifyWebSocketClient(apiKeys);
+      const upgrade = (url: string, headers = {}) => {
+        const req = { url, headers } as IncomingMessage;
+        const done = jest.fn();
+        verify({ req, origin: '', secure: false }, done);
+        return { req, done };
+      };
+
+      expect(upgrade('/ws').done).toHaveBeenCalledWith(true);
+
+      const { secret } = apiKeys.createKey({
+        tenantId: 'acme',
+        name: 'ui',
+        scopes: ['jobs'],
+      });
+      expect(upgrade('/ws').done).toHaveBeenCalledWith(
+        false,
+        401,
+        'Invalid or missing API key'
+      );
+      const byQuery = upgrade(`/ws?apiKey=${secret}`);
+      expect(byQuery.done).toHaveBeenCalledWith(true);
+      expect(byQuery.req.apiKey).toMatchObject({ tenantId: 'acme' });
+      expect(upgrade('/ws', { 'x-api-key': secret }).done).toHaveBeenCalledWith(
+        true
+      );
+    });
+  });
+
+  describe('tenant isolation', () => {
+    it('should only show tenants their own jobs', async () => {
+      const jobs = new JobService(dataSource);
+      const acme = jobs.forTenant('acme');
+      const globex = jobs.forTenant('globex');
+
+      const job = await acme.createJob({
+        type: 'validation',
+        name: 'acme job',
+      });
+      await globex.createJob({ type: 'validation', name: 'globex job' });
+
+      expect(await acme.getJob(job.id)).toMatchObject({ tenantId: 'acme' });
+      expect(await globex.getJob(job.id)).toBeUndefined();
+      expect((await globex.listJobs()).jobs.map((j) => j.name)).toEqual([
+        'globex job',
+      ]);
+      expect((await jobs.listJobs()).total).toBe(2);
+      expect(globex.getQueueStats().jobs).toEqual({ queued: 1 });
+      expect((await globex.deleteJob(job.id)).success).toBe(false);
+      await expect(globex.cancelJob(job.id)).rejects.toThrow();
+    });
+
+    it('should only let connections follow the jobs of their tenant', () => {
+      const websocket = new WebSocketService(
+        {} as WebSocketServer,
+        {},
+        (jobId, tenantId) => jobId === `${tenantId}-job`
+      );
+      const connect = (apiKey?: { id: string; tenantId?: string }) => {
+        const handlers: Record<string, (data: unknown) => void> = {};
+        const ws = {
+          readyState: WebSocket.OPEN,
+          send: jest.fn(),
+          on: (event: string, handler: (data: unknown) => void) => {
+            handlers[event] = handler;
+          },
+        };
+        websocket.handleConnection(
+          ws as unknown as WebSocket,
+          { headers: {}, socket: {}, apiKey } as unknown as IncomingMessage
+        );
+        const subscribe = (jobId: string) => {
+          handlers.message!(
+            JSON.stringify({ type: 'subscribe', payload: { jobId } })
+          );
+          return JSON.parse(ws.send.mock.calls.at(-1)![0] as string);
+        };
+        return { subscribe };
+      };
+
+      const acme = connect({ id: 'k1', tenantId: 'acme' });
+      expect(acme.subscribe('acme-job').payload).toMatchObject({
+        subscribed: true,
+      });
+      expect(acme.subscribe('globex-job').payload).toEqual({
+        code: 'JOB_NOT_FOUND',
+        message: 'Job globex-job not found',
+      });
+      expect(
+        connect({ id: 'root' }).subscribe('globex-job').payload
+      ).toMatchObject({ subscribed: true });
+      expect(websocket.getStats().activeJobs).toBe(2);
+    });
+
+    it('should only count the conversions of a tenant', () => {
+      new StatsService(dataSource, 'acme').recordConversion(true, 100, []);
+      new StatsService(dataSource, 'globex').recordConversion(false, 50, []);
+
+      expect(
+        new StatsService(dataSource, 'acme').getConversionStats({ days: 1 })
+      ).toMatchObject({ totalConversions: 1, successfulConversions: 1 });
+      expect(
+        new StatsService(dataSource).getConversionStats({ days: 1 })
+          .totalConversions
+      ).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * API Persistence Test Suite
+ * Tests for keeping jobs, batches and statistics across API server restarts
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+import { StatsService } from '../../src/api/services/StatsService.js';
+import { AppDataSource } from '../../src/database/dataSource.js';
+import {
+  BatchEntity,
+  BatchResultEntity,
+  JobEntity,
+  JobLogEntity,
+} from '../../src/database/entities.js';
+import { runMigrations } from '../../src/database/migrations.js';
+
+describe('API persistence', () => {
+  let dir: string;
+  let dataSource: AppDataSource;
+
+  const restart = async () => {
+    await dataSource.destroy();
+    await dataSource.initialize();
+  };
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'api-persistence-'));
+    dataSource = AppDataSource.getInstance({
+      type: 'sqlite',
+      database: join(dir, 'api.sqlite'),
+    });
+    await dataSource.initialize();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should migrate a database once', async () => {
+    await restart();
+
+    expect(runMigrations(dataSource.getDatabase())).toEqual([]);
+  });
+
+  it('should keep jobs and their logs across restarts', async () => {
+    const jobs = dataSource.getRepository(JobEntity);
+    const logs = dataSource.getRepository(JobLogEntity);
+    const createdAt = new Date('2026-01-05T10:00:00Z');
+    jobs.save({
+      id: 'job_1',
+      type: 'validation',
+      name: 'validate flow',
+      status: 'running',
+      config: { input: { nodes: [], edges: [] } },
+      priority: 0,
+      attempts: 1,
+      maxAttempts: 3,
+      progress: 50,
+      error: 'previous failure',
+      createdAt,
+    });
+    const first = logs.save({
+      jobId: 'job_1',
+      level: 'info',
+      message: 'Job started',
+      createdAt,
+    });
+    jobs.update('job_1', { status: 'completed', progress: 100, error: null });
+
+    await restart();
+
+    expect(first.id).toEqual(expect.any(Number));
+    expect(dataSource.getRepository(JobEntity).findOne({ id: 'job_1' })).toEqual(
+      {
+        id: 'job_1',
+        type: 'validation',
+        name: 'validate flow',
+        status: 'completed',
+        config: { input: { nodes: [], edges: [] } },
+        priority: 0,
+        attempts: 1,
+        maxAttempts: 3,
+        progress: 100,
+        createdAt,
+      }
+    );
+    expect(
+      dataSource.getRepository(JobLogEntity).find({ where: { jobId: 'job_1' } })
+    ).toMatchObject([{ level: 'info', message: 'Job started' }]);
+  });
+
+  it('should page and filter records by date', async () => {
+    const batches = dataSource.getRepository(BatchEntity);
+    for (const day of [1, 2, 3]) {
+      batches.save({
+        id: `batch_${day}`,
+        type: 'validation',
+        status: day === 3 ? 'failed' : 'completed',
+        totalItems: 1,
+        processedItems: 1,
+        failedItems: day === 3 ? 1 : 0,
+        createdAt: new Date(`2026-02-0${day}T12:00:00Z`),
+      });
+    }
+
+    const page = batches.findPage(
+      {
+        between: {
+          column: 'createdAt',
+          from: new Date('2026-02-02T00:00:00Z'),
+        },
+        order: [['createdAt', 'DESC']],
+      },
+      1,
+      1
+    );
+
+    expect(page).toMatchObject({ page: 1, limit: 1, total: 2, totalPages: 2 });
+    expect(page.items.map((batch) => batch.id)).toEqual(['batch_3']);
+    expect(batches.countBy('status')).toEqual({ completed: 2, failed: 1 });
+  });
+
+  it('should delete the results of a deleted batch', async () => {
+    const batches = dataSource.getRepository(BatchEntity);
+    const results = dataSource.getRepository(BatchResultEntity);
+    results.save({
+      id: 'batch_1:0',
+      batchId: 'batch_1',
+      itemIndex: 0,
+      status: 'completed',
+      input: { nodes: [] },
+      createdAt: new Date(),
+    });
+
+    expect(batches.delete({ id: 'batch_1' })).toBe(1);
+    expect(results.count({ where: { batchId: 'batch_1' } })).toBe(0);
+  });
+
+  it('should answer statistics for any period after a restart', async () => {
+    const stats = new StatsService();
+    stats.recordConversion(true, 120, ['chatOpenAI', 'llmChain']);
+    stats.recordConversion(false, 80, ['chatOpenAI'], 'Unsupported node');
+
+    await restart();
+    const restarted = new StatsService();
+    const today = restarted.getConversionStats({ days: 1 });
+
+    expect(today).toMatchObject({
+      totalConversions: 2,
+      successfulConversions: 1,
+      failedConversions: 1,
+      averageConversionTime: 100,
+      nodeTypeDistribution: { chatOpenAI: 2, llmChain: 1 },
+      errorDistribution: { 'Unsupported node': 1 },
+    });
+    expect(today.dailyConversions).toHaveLength(1);
+    expect(
+      restarted.getConversionStats({ to: new Date(Date.now() - 60_000) })
+        .totalConversions
+    ).toBe(0);
+    expect(restarted.getOverviewStats().jobs).toEqual({ completed: 1 });
+    expect(restarted.exportStats('csv').split('\n')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Cassette Test Suite
+ * Tests for recording and replaying model and tool calls of generated flows
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { CASSETTE_MODULE_FILE } from '../../src/emitters/typescript/cassette.js';
+import { checkGeneratedCode } from '../../src/emitters/typescript/compile-check.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import {
+  FlowiseChatFlow,
+  GeneratedFile,
+  GenerationContext,
+} from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'cassette',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+const convert = async (
+  file: string,
+  overrides: Partial<GenerationContext> = {}
+): Promise<GeneratedFile[]> => {
+  const parsed = await parseFlowiseJson(readFileSync(file, 'utf8'));
+  const result = await new IRProcessor().processFlow(
+    parsed.data as FlowiseChatFlow,
+    { ...context, ...overrides }
+  );
+  return result.code.files;
+};
+
+describe('cassettes', () => {
+  beforeAll(() => {
+    initializeRegistry();
+  });
+
+  it('should only generate the cassette module when asked for', async () => {
+    const flow = join(
+      process.cwd(),
+      'chatflows',
+      'TenFourOptics Chatflow.json'
+    );
+
+    expect((await convert(flow)).map((f) => f.path)).not.toContain(
+      CASSETTE_MODULE_FILE
+    );
+    expect(
+      (await convert(flow, { cassettes: true })).map((f) => f.path)
+    ).toContain(CASSETTE_MODULE_FILE);
+  });
+
+  it('should record the models of the flow', async () => {
+    const files = await convert(
+      join(process.cwd(), 'chatflows', 'TenFourOptics Chatflow.json'),
+      { cassettes: true }
+    );
+    const cassette = files.find((f) => f.path === CASSETTE_MODULE_FILE)!;
+
+    expect(cassette.content).toContain(
+      "import { ChatOpenAI } from '@langchain/openai';"
+    );
+    expect(cassette.content).toContain(
+      "  cassetteModel(ChatOpenAI, 'ChatOpenAI');"
+    );
+    expect(cassette.content).toContain(
+      'for (const name of ["PINECONE_API_KEY","OPENAI_API_KEY"] as string[])'
+    );
+  });
+
+  it('should generate a cassette module that type-checks', async () => {
+    const files = await convert(
+      join(
+        process.cwd(),
+        'examples',
+        'basic',
+        'simple-prompt-llm.flowise.json'
+      ),
+      { cassettes: true }
+    );
+
+    const result = await checkGeneratedCode(
+      files.filter((f) => f.path === CASSETTE_MODULE_FILE)
+    );
+    expect(result.diagnostics).toEqual([]);
+  });
+});
@@ -86,7 +86,7 @@ describe('Chain Converters', () => {
       
       expect(result).toHaveLength(2);
       expect(result[0].type).toBe('import');
-      expect(result[0].content).toContain('import { LLMChain } from \'@langchain/core/chains\';');
+      expect(result[0].content).toContain('import { LLMChain } from \'langchain/chains\';');
       expect(result[1].type).toBe('declaration');
       expect(result[1].content).toContain('const llm_chain_chain = new LLMChain({');
       expect(result[1].content).toContain('llm:');
@@ -199,7 +199,7 @@ describe('Chain Converters', () => {
       const result = converter.convert(mockNode, mockContext);
       
       expect(result).toHaveLength(2);
-      expect(result[0].content).toContain('import { ConversationChain } from \'@langchain/core/chains\';');
+      expect(result[0].content).toContain('import { ConversationChain } from \'langchain/chains\';');
       expect(result[1].content).toContain('const conversation_chain_chain = new ConversationChain({');
       expect(result[1].content).toContain('llm:');
       expect(result[1].content).toContain('memory:');
@@ -272,7 +272,7 @@ describe('Chain Converters', () => {
       const result = converter.convert(mockNode, mockContext);
       
       expect(result).toHaveLength(2);
-      expect(result[0].content).toContain('import { RetrievalQAChain } from \'@langchain/core/chains\';');
+      expect(result[0].content).toContain('import { RetrievalQAChain } from \'langchain/chains\';');
       expect(result[1].content).toContain('const qa_chain_chain = new RetrievalQAChain({');
       expect(result[1].content).toContain('llm:');
       expect(result[1].content).toContain('retriever:');
@@ -362,7 +362,7 @@ describe('Chain Converters', () => {
       const result = converter.convert(mockNode, mockContext);
       
       expect(result).toHaveLength(2);
-      expect(result[0].content).toContain('import { MultiPromptChain } from \'@langchain/core/chains\';');
+      expect(result[0].content).toContain('import { MultiPromptChain } from \'langchain/chains\';');
       expect(result[1].content).toContain('const multi_prompt_chain_chain = new MultiPromptChain({');
       expect(result[1].content).toContain('llm:');
       expect(result[1].content).toContain('destinationChains:');
@@ -433,7 +433,7 @@ describe('Chain Converters', () => {
       const result = converter.convert(mockNode, mockContext);
       
       expect(result).toHaveLength(2);
-      expect(result[0].content).toContain('import { SequentialChain } from \'@langchain/core/chains\';');
+      expect(result[0].content).toContain('import { SequentialChain } from \'langchain/chains\';');
       expect(result[1].content).toContain('const sequential_chain_chain = new SequentialChain({');
       expect(result[1].content).toContain('chains:');
       expect(result[1].content).toContain('verbose: true');
@@ -495,7 +495,7 @@ describe('Chain Converters', () => {
       const result = converter.convert(mockNode, mockContext);
       
       expect(result).toHaveLength(2);
-      expect(result[0].content).toContain('import { TransformChain } from \'@langchain/core/chains\';');
+      expect(result[0].content).toContain('import { TransformChain } from \'langchain/chains\';');
       expect(result[1].content).toContain('const transform_chain_chain = new TransformChain({');
       expect(result[1].content).toContain('inputVariables:');
       expect(result[1].content).toContain('outputVariables:');
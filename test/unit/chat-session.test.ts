@@ -0,0 +1,159 @@
+/**
+ * Chat Session Test Suite
+ * Tests for multi-turn conversations with a flow loaded in process
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+import { initializeRegistry } from '../../src/registry/index.js';
+import {
+  ChatSession,
+  FlowInterpreter,
+  type LoadedFlow,
+} from '../../src/runtime/index.js';
+
+/** Messages the model was given, one list per call */
+const prompts: string[][] = [];
+
+class ListChatOpenAI extends FakeListChatModel {
+  constructor() {
+    super({
+      responses: ['Paris is the capital', 'Rome is the capital'],
+      callbacks: [
+        BaseCallbackHandler.fromMethods({
+          handleChatModelStart: (_llm, messages) => {
+            prompts.push(messages[0]!.map((m) => String(m.content)));
+          },
+        }),
+      ],
+    });
+  }
+}
+
+const flow = readFileSync(
+  join(process.cwd(), 'examples/basic/conversation-memory.flowise.json'),
+  'utf8'
+);
+
+const createSession = (lcel = true) => {
+  const interpreter = new FlowInterpreter({
+    context: { lcel },
+    importModule: async (specifier) =>
+      specifier === '@langchain/openai'
+        ? { ChatOpenAI: ListChatOpenAI }
+        : ((await import(specifier)) as Record<string, unknown>),
+  });
+  let loaded: LoadedFlow | undefined;
+  const session = new ChatSession(async () => {
+    loaded = await interpreter.load(flow);
+    return loaded;
+  }, 'conversation-memory.flowise.json');
+
+  const memoryMessages = async () => {
+    const memory = loaded!.instances.get('bufferMemory_0') as {
+      chatHistory: { getMessages(): Promise<Array<{ content: unknown }>> };
+    };
+    return (await memory.chatHistory.getMessages()).map((m) => m.content);
+  };
+  return { session, memoryMessages };
+};
+
+describe('ChatSession', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    initializeRegistry();
+    dir = mkdtempSync(join(tmpdir(), 'chat-session-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should stream answers and keep the conversation in memory', async () => {
+    const { session, memoryMessages } = createSession();
+    const tokens: string[] = [];
+
+    const first = await session.send('France?', {
+      onToken: (token) => tokens.push(token),
+    });
+    const second = await session.send('Italy?', { stream: false });
+
+    expect(first.output).toBe('Paris is the capital');
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(first.output);
+    expect(second.output).toBe('Rome is the capital');
+    expect(await memoryMessages()).toEqual([
+      'France?',
+      'Paris is the capital',
+      'Italy?',
+      'Rome is the capital',
+    ]);
+  });
+
+  it.each([
+    ['LCEL', true],
+    ['legacy chains', false],
+  ])('should give the model the earlier turns with %s', async (_, lcel) => {
+    const { session } = createSession(lcel);
+    prompts.length = 0;
+
+    await session.send('France?');
+    await session.send('Italy?');
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]!.slice(1)).toEqual([
+      'France?',
+      'Paris is the capital',
+      'Italy?',
+    ]);
+  });
+
+  it('should trace the runs behind each answer', async () => {
+    const { session } = createSession();
+    const { trace } = await session.send('France?');
+
+    expect(trace[0]).toMatchObject({
+      kind: 'chain',
+      name: 'RunnableWithMessageHistory',
+      depth: 0,
+    });
+    expect(trace).toContainEqual(
+      expect.objectContaining({ kind: 'llm', name: 'ListChatOpenAI' })
+    );
+    expect(trace.every((event) => event.durationMs !== undefined)).toBe(true);
+  });
+
+  it('should start over on reset', async () => {
+    const { session, memoryMessages } = createSession();
+    await session.send('France?');
+    await session.reset();
+
+    expect(session.turns).toEqual([]);
+    expect(await memoryMessages()).toEqual([]);
+  });
+
+  it('should restore a saved conversation into the flow memory', async () => {
+    const path = join(dir, 'session.json');
+    const saved = createSession();
+    await saved.session.send('France?');
+    await saved.session.save(path);
+
+    const { session, memoryMessages } = createSession();
+    expect(await session.load(path)).toBe(1);
+    expect(session.turns).toMatchObject([
+      { input: 'France?', output: 'Paris is the capital' },
+    ]);
+    expect(await memoryMessages()).toEqual(['France?', 'Paris is the capital']);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({
+      flow: 'conversation-memory.flowise.json',
+      turns: [{ input: 'France?', output: 'Paris is the capital' }],
+    });
+  });
+});
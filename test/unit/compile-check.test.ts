@@ -0,0 +1,202 @@
+/**
+ * Compilation Check Test Suite
+ * Tests for type-checking generated TypeScript against the bundled stubs
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import {
+  CompilationChecker,
+  formatCompilationDiagnostic,
+} from '../../src/emitters/typescript/compile-check.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import {
+  FlowiseChatFlow,
+  GeneratedFile,
+  GenerationContext,
+} from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const createFile = (
+  content: string[],
+  nodeRegions: GeneratedFile['nodeRegions'] = []
+): GeneratedFile => ({
+  path: 'src/index.ts',
+  content: content.join('\n'),
+  type: 'main',
+  dependencies: [],
+  exports: [],
+  size: 0,
+  nodeRegions,
+});
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'compile-check',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+describe('CompilationChecker', () => {
+  const checker = new CompilationChecker();
+
+  it('should accept code using stubbed LangChain exports', async () => {
+    const result = await checker.check([
+      createFile([
+        "import { ChatOpenAI } from '@langchain/openai';",
+        "import { ChatPromptTemplate } from '@langchain/core/prompts';",
+        "import * as dotenv from 'dotenv';",
+        '',
+        'dotenv.config();',
+        '',
+        "const model = new ChatOpenAI({ model: 'gpt-4o-mini' });",
+        "const prompt = ChatPromptTemplate.fromMessages([['human', '{input}']]);",
+        '',
+        'export async function runFlow(input: string): Promise<string> {',
+        '  const result = await prompt.pipe(model).invoke({ input });',
+        '  console.log(process.env.OPENAI_API_KEY, import.meta.url);',
+        '  return String(result.content);',
+        '}',
+      ]),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.checkedFiles).toEqual(['src/index.ts']);
+  }, 30000);
+
+  it('should map undefined identifiers to the node that produced them', async () => {
+    const result = await checker.check([
+      createFile(
+        [
+          "import { ChatOpenAI } from '@langchain/openai';",
+          '',
+          'const chatOpenAI_0 = new ChatOpenAI();',
+          '',
+          'const llmChain_0 = prompt_0.pipe(chatOpenAI_0);',
+        ],
+        [
+          { nodeId: 'chatOpenAI_0', startLine: 3, endLine: 3 },
+          { nodeId: 'llmChain_0', startLine: 5, endLine: 5 },
+        ]
+      ),
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        file: 'src/index.ts',
+        line: 5,
+        column: 20,
+        code: 2304,
+        category: 'error',
+        nodeId: 'llmChain_0',
+      }),
+    ]);
+    expect(formatCompilationDiagnostic(result.diagnostics[0]!)).toBe(
+      "src/index.ts:5:20 - error TS2304: Cannot find name 'prompt_0'. [node llmChain_0]"
+    );
+  });
+
+  it('should attribute a missing export to the node using the import', async () => {
+    const result = await checker.check([
+      createFile(
+        [
+          "import { ChatOpenAI, OpenAIChatModel } from '@langchain/openai';",
+          '',
+          'const chatOpenAI_0 = new ChatOpenAI();',
+          '',
+          'const openAI_0 = new OpenAIChatModel();',
+        ],
+        [
+          { nodeId: 'chatOpenAI_0', startLine: 3, endLine: 3 },
+          { nodeId: 'openAI_0', startLine: 5, endLine: 5 },
+        ]
+      ),
+    ]);
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      line: 1,
+      code: 2724,
+      nodeId: 'openAI_0',
+    });
+  });
+
+  it('should report modules without stubs instead of failing on them', async () => {
+    const result = await checker.check([
+      createFile([
+        "import { Calculator } from '@langchain/community/tools/calculator';",
+        "import { SlackPostMessageTool } from '@langchain/community/tools/slack';",
+        "import { readFileSync } from 'fs';",
+        '',
+        'export const tools = [new Calculator(), new SlackPostMessageTool()];',
+        'export const read = readFileSync;',
+      ]),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.uncheckedModules).toEqual([
+      '@langchain/community/tools/slack',
+    ]);
+  });
+
+  it('should only check TypeScript sources', async () => {
+    const result = await checker.check([
+      createFile(['export const value: number = 1;']),
+      {
+        path: 'package.json',
+        content: '{ "name": "x" }',
+        type: 'config',
+        dependencies: [],
+        exports: [],
+        size: 0,
+      },
+    ]);
+
+    expect(result.checkedFiles).toEqual(['src/index.ts']);
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should type-check the code generated for TenFourOptics Chatflow.json', async () => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'chatflows', 'TenFourOptics Chatflow.json'),
+          'utf8'
+        )
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const main = result.code.files.find((f) => f.path === 'src/index.ts')!;
+      expect(main.nodeRegions).toContainEqual(
+        expect.objectContaining({ nodeId: 'chatOpenAI_0' })
+      );
+
+      const check = await checker.check(result.code.files);
+      expect(check.diagnostics).toEqual([]);
+      expect(check.success).toBe(true);
+    });
+  });
+});
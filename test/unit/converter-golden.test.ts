@@ -0,0 +1,96 @@
+/**
+ * Converter Golden File Test Suite
+ * Checks every registered converter against its golden file; run
+ * `flowise-to-lc golden --update` to accept intended output changes
+ */
+
+import { mkdtempSync, readdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import {
+  GOLDEN_DIR,
+  converterRegistry,
+  createMinimalNode,
+  discoverParameters,
+  formatSnapshot,
+  initializeRegistry,
+  runGoldenSuite,
+  snapshotConverter,
+} from '../../src/registry/index.js';
+
+describe('converter golden files', () => {
+  beforeAll(() => {
+    initializeRegistry();
+  });
+
+  it('should discover the parameters a converter reads', () => {
+    const converter = converterRegistry.getConverter('chatOpenAI')!;
+
+    expect(discoverParameters(converter)).toContainEqual({
+      name: 'temperature',
+      defaultValue: 0.7,
+    });
+    expect(discoverParameters(converter)).toContainEqual({
+      name: 'modelName',
+    });
+    expect(createMinimalNode(converter).parameters).toEqual([
+      { name: 'temperature', value: 0.7, type: 'number' },
+      { name: 'streaming', value: false, type: 'boolean' },
+    ]);
+  });
+
+  it('should fill placeholders for parameters a converter cannot do without', () => {
+    const node = createMinimalNode(converterRegistry.getConverter('toolNode')!);
+
+    expect(node.parameters).toEqual([
+      { name: 'name', value: '<name>', type: 'string' },
+      { name: 'func', value: '<func>', type: 'string' },
+    ]);
+  });
+
+  it('should record the error of a converter that throws', () => {
+    const snapshot = snapshotConverter('streamingChain');
+
+    expect(snapshot.status).toBe('threw');
+    expect(formatSnapshot(snapshot)).toContain(
+      '## Error\n\nStreamingChain node streamingChain_0 is missing required llm input'
+    );
+  });
+
+  it('should report changed, missing and obsolete golden files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'golden-'));
+    writeFileSync(join(dir, 'chatOpenAI.golden.md'), '# chatOpenAI\n');
+
+    const report = await runGoldenSuite({
+      dir,
+      types: ['chatOpenAI', 'calculator'],
+    });
+    expect(report.changed.map((c) => c.flowiseType)).toEqual(['chatOpenAI']);
+    expect(report.changed[0]!.patch).toContain(
+      '+## import `chatOpenAI_0_import`'
+    );
+    expect(report.missing).toEqual(['calculator']);
+
+    writeFileSync(join(dir, 'retiredNode.golden.md'), '# retiredNode\n');
+    await runGoldenSuite({ dir, update: true });
+    expect(readdirSync(dir)).not.toContain('retiredNode.golden.md');
+    expect(readdirSync(dir)).toHaveLength(
+      converterRegistry.getRegisteredTypes().length
+    );
+  });
+
+  it('should match the golden file of every registered converter', async () => {
+    const report = await runGoldenSuite({
+      dir: join(process.cwd(), GOLDEN_DIR),
+    });
+
+    expect(report.total).toBe(converterRegistry.getRegisteredTypes().length);
+    expect(report.missing).toEqual([]);
+    expect(report.obsolete).toEqual([]);
+    expect(report.changed).toEqual([]);
+    expect(report.empty).toEqual([]);
+  });
+});
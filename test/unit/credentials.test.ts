@@ -0,0 +1,262 @@
+/**
+ * Credential Mapping Test Suite
+ * Tests for binding Flowise credentials to env vars, files and secret lookups
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import {
+  parseCredentialMapping,
+  resolveCredentials,
+} from '../../src/ir/credentials.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import {
+  CredentialMapping,
+  FlowiseChatFlow,
+  GenerationContext,
+} from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'credentials',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+const loadFlow = async (): Promise<FlowiseChatFlow> => {
+  const source = readFileSync(
+    join(process.cwd(), 'chatflows', 'TenFourOptics Chatflow.json'),
+    'utf8'
+  );
+  return (await parseFlowiseJson(source)).data as FlowiseChatFlow;
+};
+
+const convert = async (
+  flow: FlowiseChatFlow,
+  mapping?: CredentialMapping,
+  options: Partial<GenerationContext> = {}
+) => {
+  const result = await new IRProcessor().processFlow(flow, {
+    ...context,
+    ...options,
+    ...(mapping && { credentials: mapping }),
+  });
+  const file = (path: string) =>
+    result.code.files.find((f) => f.path === path)!.content;
+  return {
+    graph: result.ir,
+    main: file('src/index.ts'),
+    env: file('.env.example'),
+  };
+};
+
+describe('parseCredentialMapping', () => {
+  it('should accept env names, files and secret keys', () => {
+    const mapping = parseCredentialMapping(
+      JSON.stringify({
+        credentials: {
+          openAIApi: 'OPENAI_KEY',
+          pineconeApi: { file: '/run/secrets/pinecone' },
+          'c0ffee00-0000-4000-8000-000000000000': { secret: 'llm/anthropic' },
+        },
+      })
+    );
+
+    expect(Object.keys(mapping.credentials)).toHaveLength(3);
+  });
+
+  it('should reject malformed bindings', () => {
+    expect(() => parseCredentialMapping('{}')).toThrow('"credentials" object');
+    expect(() =>
+      parseCredentialMapping(
+        JSON.stringify({ credentials: { openAIApi: 'not a var' } })
+      )
+    ).toThrow("Invalid binding for credential 'openAIApi'");
+    expect(() =>
+      parseCredentialMapping(
+        JSON.stringify({
+          credentials: { openAIApi: { env: 'A', file: '/a' } },
+        })
+      )
+    ).toThrow('Invalid binding');
+  });
+});
+
+describe('credential mapping', () => {
+  beforeAll(() => {
+    initializeRegistry();
+  });
+
+  it('should keep the credential reference of each node in the IR', async () => {
+    const { graph } = await convert(await loadFlow());
+
+    expect(
+      resolveCredentials(graph).map(({ nodeId, name, binding }) => ({
+        nodeId,
+        name,
+        binding,
+      }))
+    ).toEqual([
+      {
+        nodeId: 'pinecone_0',
+        name: 'pineconeApi',
+        binding: { env: 'PINECONE_API_KEY' },
+      },
+      {
+        nodeId: 'openAIEmbeddings_0',
+        name: 'openAIApi',
+        binding: { env: 'OPENAI_API_KEY' },
+      },
+      {
+        nodeId: 'chatOpenAI_0',
+        name: 'openAIApi',
+        binding: { env: 'OPENAI_API_KEY' },
+      },
+    ]);
+  });
+
+  it('should list exactly the variables the flow reads', async () => {
+    const { main, env } = await convert(await loadFlow());
+
+    expect(main).not.toContain('"process.env.');
+    expect(env.match(/^\w+=/gm)).toEqual([
+      'PINECONE_API_KEY=',
+      'OPENAI_API_KEY=',
+      'PINECONE_ENVIRONMENT=',
+    ]);
+    expect(env).toContain(
+      '# openAIApi credential (OpenAI Embeddings, ChatOpenAI)'
+    );
+  });
+
+  it('should read mapped credentials from env vars, files and secrets', async () => {
+    const { main, env } = await convert(await loadFlow(), {
+      credentials: {
+        openAIApi: { file: '/run/secrets/openai' },
+        pineconeApi: { secret: 'pinecone/api-key' },
+      },
+    });
+
+    expect(main).toContain('import { readFileSync } from "fs";');
+    expect(main).toContain(
+      'openAIApiKey: readFileSync("/run/secrets/openai", "utf8").trim(),'
+    );
+    expect(main).toContain('apiKey: getSecret("pinecone/api-key"),');
+    expect(main).toContain('import { getSecret } from "./secrets.js";');
+    expect(main).not.toContain('process.env.OPENAI_API_KEY');
+    expect(env.match(/^\w+=/gm)).toEqual([
+      'SECRETS_PROVIDER_URL=',
+      'SECRETS_PROVIDER_TOKEN=',
+      'PINECONE_ENVIRONMENT=',
+    ]);
+  });
+
+  it('should prefer a binding for the credential id over its name', async () => {
+    const flow = await loadFlow();
+    flow.nodes.find((n) => n.id === 'chatOpenAI_0')!.data.credential =
+      'c0ffee00-0000-4000-8000-000000000000';
+
+    const { main, env } = await convert(flow, {
+      credentials: {
+        openAIApi: 'OPENAI_KEY_SHARED',
+        'c0ffee00-0000-4000-8000-000000000000': { env: 'OPENAI_KEY_CHAT' },
+      },
+    });
+
+    expect(main).toContain('openAIApiKey: process.env.OPENAI_KEY_CHAT,');
+    expect(main).toContain('openAIApiKey: process.env.OPENAI_KEY_SHARED,');
+    expect(env).toContain(
+      '# openAIApi credential (ChatOpenAI)\nOPENAI_KEY_CHAT='
+    );
+    expect(env).toContain(
+      '# openAIApi credential (OpenAI Embeddings)\nOPENAI_KEY_SHARED='
+    );
+  });
+
+  describe('Agentflow V2 models', () => {
+    const convertAgentflow = async (mapping?: CredentialMapping) => {
+      const source = readFileSync(
+        join(process.cwd(), 'chatflows', 'Software Team Agents.json'),
+        'utf8'
+      );
+      const flow = (await parseFlowiseJson(source)).data as FlowiseChatFlow;
+      flow.nodes.find((n) => n.id === 'agentAgentflow_3')!.data.inputs[
+        'agentModelConfig'
+      ].credential = 'c0ffee00-0000-4000-8000-000000000000';
+
+      return convert(flow, mapping, {
+        // The flow uses DeepSeek, which needs LangChain 0.3
+        environment: { langchainVersion: '0.3' },
+      });
+    };
+
+    it('should take the credential of each model from its config', async () => {
+      const { graph, main, env } = await convertAgentflow();
+
+      expect(
+        resolveCredentials(graph).map(({ nodeId, name, id }) => ({
+          nodeId,
+          name,
+          id,
+        }))
+      ).toEqual([
+        { nodeId: 'agentAgentflow_1', name: 'azureOpenAIApi', id: undefined },
+        { nodeId: 'agentAgentflow_2', name: 'deepseekApi', id: undefined },
+        {
+          nodeId: 'agentAgentflow_3',
+          name: 'anthropicApi',
+          id: 'c0ffee00-0000-4000-8000-000000000000',
+        },
+        { nodeId: 'llmAgentflow_0', name: 'openAIApi', id: undefined },
+      ]);
+      expect(main).toContain('apiKey: process.env.DEEPSEEK_API_KEY,');
+      expect(main).toContain(
+        'azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,'
+      );
+      expect(env.match(/^\w+=/gm)).toEqual([
+        'AZURE_OPENAI_API_KEY=',
+        'DEEPSEEK_API_KEY=',
+        'ANTHROPIC_API_KEY=',
+        'OPENAI_API_KEY=',
+        'AZURE_OPENAI_API_INSTANCE_NAME=',
+        'AZURE_OPENAI_API_DEPLOYMENT_NAME=',
+        'AZURE_OPENAI_API_VERSION=',
+      ]);
+    });
+
+    it('should bind the credentials of models by name and id', async () => {
+      const { main, env } = await convertAgentflow({
+        credentials: {
+          deepseekApi: { file: '/run/secrets/deepseek' },
+          'c0ffee00-0000-4000-8000-000000000000': 'CLAUDE_KEY',
+        },
+      });
+
+      expect(main).toContain(
+        'apiKey: readFileSync("/run/secrets/deepseek", "utf8").trim(),'
+      );
+      expect(main).toContain('apiKey: process.env.CLAUDE_KEY,');
+      expect(main).not.toContain('DEEPSEEK_API_KEY');
+      expect(env).toContain(
+        '# anthropicApi credential (Generate Final Answer)'
+      );
+      expect(env).toContain('CLAUDE_KEY=');
+    });
+  });
+});
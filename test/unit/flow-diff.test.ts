@@ -0,0 +1,251 @@
+/**
+ * Flow Diff Test Suite
+ * Tests for semantic comparison of Flowise exports and their generated code
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect } from '@jest/globals';
+
+import {
+  MASKED_VALUE,
+  createFlowDiffReport,
+  diffFlows,
+  diffGeneratedFiles,
+  formatFlowDiffReport,
+} from '../../src/diff/index.js';
+import { GeneratedFile } from '../../src/ir/types.js';
+import { FlowiseChatFlow, parseFlowiseJson } from '../../src/parser/index.js';
+
+const source = readFileSync(
+  join(process.cwd(), 'chatflows', 'TenFourOptics Chatflow.json'),
+  'utf8'
+);
+
+const loadFlow = async (): Promise<FlowiseChatFlow> =>
+  (await parseFlowiseJson(source)).data!;
+
+const findNode = (flow: FlowiseChatFlow, id: string) =>
+  flow.nodes.find((n) => n.id === id)!;
+
+const createFile = (path: string, lines: string[]): GeneratedFile => ({
+  path,
+  content: lines.join('\n'),
+  type: 'main',
+  dependencies: [],
+  exports: [],
+  size: 0,
+});
+
+describe('diffFlows', () => {
+  it('should ignore layout-only changes', async () => {
+    const before = await loadFlow();
+    const after = await loadFlow();
+    findNode(after, 'chatOpenAI_0').position.x += 250;
+
+    expect(diffFlows(before, after)).toEqual({
+      addedNodes: [],
+      removedNodes: [],
+      retypedNodes: [],
+      changedParameters: [],
+      addedEdges: [],
+      removedEdges: [],
+      rewiredEdges: [],
+    });
+  });
+
+  it('should report changed parameters and mask credentials', async () => {
+    const before = await loadFlow();
+    const after = await loadFlow();
+    findNode(before, 'chatOpenAI_0').data.inputs['credential'] = 'cred-1';
+    findNode(after, 'chatOpenAI_0').data.inputs['credential'] = 'cred-2';
+    findNode(after, 'chatOpenAI_0').data.inputs['openAIApiKey'] = 'sk-live';
+    findNode(after, 'chatOpenAI_0').data.inputs['temperature'] = '0.9';
+
+    const diff = diffFlows(before, after);
+
+    expect(diff.changedParameters).toEqual([
+      {
+        nodeId: 'chatOpenAI_0',
+        label: 'ChatOpenAI',
+        name: 'temperature',
+        before: '0.2',
+        after: '0.9',
+        masked: false,
+      },
+      {
+        nodeId: 'chatOpenAI_0',
+        label: 'ChatOpenAI',
+        name: 'credential',
+        before: MASKED_VALUE,
+        after: MASKED_VALUE,
+        masked: true,
+      },
+      {
+        nodeId: 'chatOpenAI_0',
+        label: 'ChatOpenAI',
+        name: 'openAIApiKey',
+        before: undefined,
+        after: MASKED_VALUE,
+        masked: true,
+      },
+    ]);
+    expect(JSON.stringify(diff)).not.toContain('sk-live');
+  });
+
+  it('should report added, removed, retyped nodes and rewired edges', async () => {
+    const before = await loadFlow();
+    const after = await loadFlow();
+
+    // Swap the chain's model for a new node and retype the memory
+    const model = findNode(after, 'chatOpenAI_0');
+    after.nodes = after.nodes.filter((n) => n !== model);
+    after.nodes.push({
+      ...model,
+      id: 'chatAnthropic_0',
+      data: {
+        ...model.data,
+        id: 'chatAnthropic_0',
+        name: 'chatAnthropic',
+        label: 'ChatAnthropic',
+      },
+    });
+    after.edges = after.edges.map((edge) =>
+      edge.source === 'chatOpenAI_0'
+        ? {
+            ...edge,
+            id: edge.id.replaceAll('chatOpenAI_0', 'chatAnthropic_0'),
+            source: 'chatAnthropic_0',
+          }
+        : edge
+    );
+    findNode(after, 'bufferMemory_0').data.name = 'bufferWindowMemory';
+
+    const diff = diffFlows(before, after);
+
+    expect(diff.addedNodes).toEqual([
+      { id: 'chatAnthropic_0', label: 'ChatAnthropic', type: 'chatAnthropic' },
+    ]);
+    expect(diff.removedNodes).toEqual([
+      { id: 'chatOpenAI_0', label: 'ChatOpenAI', type: 'chatOpenAI' },
+    ]);
+    expect(diff.retypedNodes).toEqual([
+      {
+        id: 'bufferMemory_0',
+        label: 'Buffer Memory',
+        type: 'bufferWindowMemory',
+        previousType: 'bufferMemory',
+      },
+    ]);
+    expect(diff.rewiredEdges).toEqual([
+      {
+        target: 'conversationalRetrievalQAChain_0',
+        input: 'model',
+        previousSource: 'chatOpenAI_0',
+        source: 'chatAnthropic_0',
+      },
+    ]);
+    expect(diff.addedEdges).toEqual([]);
+    expect(diff.removedEdges).toEqual([]);
+  });
+});
+
+describe('diffGeneratedFiles', () => {
+  it('should produce unified hunks with context', () => {
+    const lines = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[5] = 'line six';
+
+    const [change] = diffGeneratedFiles(
+      [createFile('src/index.ts', lines)],
+      [createFile('src/index.ts', changed)]
+    );
+
+    expect(change).toMatchObject({
+      path: 'src/index.ts',
+      status: 'modified',
+      additions: 1,
+      deletions: 1,
+    });
+    expect(change!.patch.split('\n')).toEqual([
+      '--- a/src/index.ts',
+      '+++ b/src/index.ts',
+      '@@ -3,7 +3,7 @@',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '-line 6',
+      '+line six',
+      ' line 7',
+      ' line 8',
+      ' line 9',
+    ]);
+  });
+
+  it('should report added and removed files and skip unchanged ones', () => {
+    const changes = diffGeneratedFiles(
+      [createFile('a.ts', ['same']), createFile('b.ts', ['old'])],
+      [createFile('a.ts', ['same']), createFile('c.ts', ['new', 'file'])]
+    );
+
+    expect(
+      changes.map(({ path, status, additions, deletions }) => ({
+        path,
+        status,
+        additions,
+        deletions,
+      }))
+    ).toEqual([
+      { path: 'b.ts', status: 'removed', additions: 0, deletions: 1 },
+      { path: 'c.ts', status: 'added', additions: 2, deletions: 0 },
+    ]);
+    expect(changes[1]!.patch).toContain('@@ -0,0 +1,2 @@');
+  });
+});
+
+describe('createFlowDiffReport', () => {
+  it('should diff the code generated for each flow', async () => {
+    const after = JSON.parse(source);
+    after.nodes.find(
+      (n: { id: string }) => n.id === 'bufferMemory_0'
+    ).data.inputs.memoryKey = 'history';
+
+    const report = await createFlowDiffReport(source, JSON.stringify(after), {
+      beforeName: 'old.json',
+      afterName: 'new.json',
+    });
+
+    expect(report.changes.changedParameters).toHaveLength(1);
+    expect(report.code).toHaveLength(1);
+    expect(report.code![0]!.patch).toContain('-  memoryKey: "chat_history",');
+    expect(report.code![0]!.patch).toContain('+  memoryKey: "history",');
+
+    const markdown = formatFlowDiffReport(report, 'markdown');
+    expect(markdown).toContain('## Flow diff: old.json → new.json');
+    expect(markdown).toContain(
+      '- ~ `bufferMemory_0.memoryKey`: `chat_history` → `history`'
+    );
+    expect(markdown).toContain('```diff');
+
+    const text = formatFlowDiffReport(report, 'text');
+    expect(text).toContain('Changed parameters:');
+    expect(text).toContain('  modified src/index.ts (+1 -1)');
+    expect(JSON.parse(formatFlowDiffReport(report, 'json'))).toEqual(report);
+  });
+
+  it('should skip the code diff when asked', async () => {
+    const report = await createFlowDiffReport(source, source, {
+      includeCode: false,
+    });
+
+    expect(report.code).toBeUndefined();
+    expect(formatFlowDiffReport(report)).toContain('No flow changes.');
+  });
+
+  it('should reject an invalid export', async () => {
+    await expect(createFlowDiffReport(source, '{"nodes": 1}')).rejects.toThrow(
+      'Cannot parse after flow'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Flow Interpreter Test Suite
+ * Tests for running Flowise exports in process with executeFlow
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { describe, it, expect, beforeAll, jest } from '@jest/globals';
+
+import { initializeRegistry } from '../../src/registry/index.js';
+import {
+  FlowExecutionError,
+  FlowInterpreter,
+  executeFlow,
+  type ModuleLoader,
+} from '../../src/runtime/index.js';
+
+const readExample = (name: string): string =>
+  readFileSync(join(process.cwd(), 'examples', name), 'utf8');
+
+/**
+ * Real LangChain modules, with ChatOpenAI answering from a list
+ */
+const withFakeModel =
+  (ChatOpenAI: unknown): ModuleLoader =>
+  async (specifier) =>
+    specifier === '@langchain/openai'
+      ? { ChatOpenAI }
+      : ((await import(specifier)) as Record<string, unknown>);
+
+class ListChatOpenAI extends FakeListChatModel {
+  constructor() {
+    super({ responses: ['Paris', 'Rome'] });
+  }
+}
+
+describe('FlowInterpreter', () => {
+  beforeAll(() => {
+    initializeRegistry();
+  });
+
+  it('should run a flow in process and pass callbacks to the run', async () => {
+    const handleLLMEnd = jest.fn();
+    const result = await executeFlow(
+      readExample('basic/simple-prompt-llm.flowise.json'),
+      'France',
+      {
+        importModule: withFakeModel(ListChatOpenAI),
+        callbacks: [BaseCallbackHandler.fromMethods({ handleLLMEnd })],
+      }
+    );
+
+    expect(result.output).toBe('Paris');
+    expect(result.nodeId).toBe('llmChain_0');
+    expect(handleLLMEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build each node once and run the flow repeatedly', async () => {
+    const flow = await new FlowInterpreter({
+      importModule: withFakeModel(ListChatOpenAI),
+    }).load(readExample('basic/conversation-memory.flowise.json'));
+
+    expect([...flow.instances.keys()]).toEqual([
+      'bufferMemory_0',
+      'chatPromptTemplate_0',
+      'chatOpenAI_1',
+      'conversationChain_0',
+    ]);
+    expect(flow.outputNode.id).toBe('conversationChain_0');
+    expect((await flow.invoke('France')).output).toBe('Paris');
+    expect((await flow.invoke('Italy')).output).toBe('Rome');
+  });
+
+  it('should give the model the conversation so far', async () => {
+    const prompts: string[][] = [];
+    const callbacks = [
+      BaseCallbackHandler.fromMethods({
+        handleChatModelStart: (_llm, messages) => {
+          prompts.push(messages[0]!.map((message) => String(message.content)));
+        },
+      }),
+    ];
+    const flow = await new FlowInterpreter({
+      importModule: withFakeModel(ListChatOpenAI),
+    }).load(readExample('basic/conversation-memory.flowise.json'));
+
+    await flow.invoke('My name is Ada', { callbacks });
+    await flow.invoke('What is my name?', { callbacks });
+
+    expect(prompts[1]).toEqual([
+      expect.stringContaining('remembers our conversation history'),
+      'My name is Ada',
+      'Paris',
+      'What is my name?',
+    ]);
+  });
+
+  it('should name the node whose object failed to build', async () => {
+    class MissingKeyChatOpenAI {
+      constructor() {
+        throw new Error('OpenAI API key not found');
+      }
+    }
+
+    const error = await executeFlow(
+      readExample('basic/simple-prompt-llm.flowise.json'),
+      'France',
+      { importModule: withFakeModel(MissingKeyChatOpenAI) }
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FlowExecutionError);
+    expect(error).toMatchObject({
+      nodeId: 'chatOpenAI_0',
+      message:
+        'Node chatOpenAI_0 (chatOpenAI) failed to build: OpenAI API key not found',
+    });
+  });
+
+  it('should refuse Agentflow V2 flows', async () => {
+    const flow = readFileSync(
+      join(process.cwd(), 'chatflows/Strategy Team Agents.json'),
+      'utf8'
+    );
+
+    await expect(new FlowInterpreter().load(flow)).rejects.toThrow(
+      'Agentflow V2 flows are not supported'
+    );
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Flow Runtime Test Suite
+ * Tests for running converted flows without a per-run npm install
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+
+import {
+  FlowWorker,
+  compileFlowFiles,
+  detectHostLangChainTarget,
+  linkFlowRuntime,
+  resolveFlowRuntime,
+} from '../../src/cli/utils/flow-runtime.js';
+
+describe('Flow runtime', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'flow-runtime-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFlow = async (files: Record<string, string>) => {
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(join(dir, path, '..'), { recursive: true });
+      await writeFile(join(dir, path), content, 'utf-8');
+    }
+    await compileFlowFiles(
+      dir,
+      Object.keys(files).map((path) => ({ path }))
+    );
+  };
+
+  describe('resolveFlowRuntime', () => {
+    it('should resolve LangChain installed in the project', async () => {
+      const install = jest.fn(async () => undefined);
+      const runtime = await resolveFlowRuntime(
+        { langchain: '^0.3.30', '@langchain/core': '^0.3.66' },
+        '0.3',
+        { searchFrom: [process.cwd()], cacheDir: dir, install }
+      );
+
+      expect(runtime).toEqual({
+        nodeModules: join(process.cwd(), 'node_modules'),
+        source: 'host',
+      });
+      expect(install).not.toHaveBeenCalled();
+      expect(detectHostLangChainTarget([process.cwd()])).toBe('0.3');
+    });
+
+    it('should populate the runtime cache once for another release line', async () => {
+      const install = jest.fn(async (cacheDir: string) => {
+        for (const [name, version] of [
+          ['langchain', '0.1.37'],
+          ['@langchain/core', '0.1.63'],
+        ]) {
+          await mkdir(join(cacheDir, 'node_modules', name!), {
+            recursive: true,
+          });
+          await writeFile(
+            join(cacheDir, 'node_modules', name!, 'package.json'),
+            JSON.stringify({ name, version })
+          );
+        }
+      });
+      const dependencies = { langchain: '^0.1.37' };
+      const options = { searchFrom: [process.cwd()], cacheDir: dir, install };
+
+      const first = await resolveFlowRuntime(dependencies, '0.1', options);
+      const second = await resolveFlowRuntime(dependencies, '0.1', options);
+
+      expect(first).toEqual({
+        nodeModules: join(dir, 'node_modules'),
+        source: 'cache',
+      });
+      expect(second).toEqual(first);
+      expect(install).toHaveBeenCalledTimes(1);
+      expect(
+        JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8'))
+          .dependencies
+      ).toMatchObject({
+        langchain: '^0.1.37',
+        '@langchain/core': '^0.1.63',
+        '@langchain/openai': '^0.0.34',
+      });
+    });
+
+    it('should not install anything offline', async () => {
+      await expect(
+        resolveFlowRuntime({ langchain: '^0.1.37' }, '0.1', {
+          searchFrom: [process.cwd()],
+          cacheDir: dir,
+          offline: true,
+        })
+      ).rejects.toThrow(
+        `LangChain runtime is missing langchain: install it in this project, or run once without --offline to populate ${dir}`
+      );
+      expect(existsSync(join(dir, 'package.json'))).toBe(false);
+    });
+  });
+
+  describe('FlowWorker', () => {
+    it('should keep module state between turns', async () => {
+      await writeFlow({
+        'src/setup.ts': `(globalThis as any).prefix = process.env['PREFIX'];`,
+        'src/index.ts': [
+          'let turns: number = 0;',
+          'export async function runFlow(input: string): Promise<string> {',
+          '  turns += 1;',
+          '  return `${(globalThis as any).prefix} ${input} #${turns}`;',
+          '}',
+        ].join('\n'),
+      });
+      const worker = new FlowWorker(join(dir, 'src/index.ts'), {
+        env: { PREFIX: 'echo' },
+        preload: [join(dir, 'src/setup.ts')],
+      });
+
+      try {
+        const first = await worker.invoke('hello');
+        const second = await worker.invoke('again');
+
+        expect(first).toMatchObject({
+          input: 'hello',
+          output: 'echo hello #1',
+        });
+        expect(second.output).toBe('echo again #2');
+      } finally {
+        await worker.close();
+      }
+    });
+
+    it('should report failures with a stack in the generated TypeScript', async () => {
+      await writeFlow({
+        'src/index.ts': [
+          'interface Answer { text: string }',
+          'export async function runFlow(input: string): Promise<Answer> {',
+          '  throw new Error(`No answer for ${input}`);',
+          '}',
+        ].join('\n'),
+      });
+      const worker = new FlowWorker(join(dir, 'src/index.ts'));
+
+      try {
+        const error = (await worker
+          .invoke('hello')
+          .catch((e: unknown) => e)) as Error;
+
+        expect(error.message).toBe('No answer for hello');
+        expect(error.stack).toContain(`${join(dir, 'src/index.ts')}:3:`);
+      } finally {
+        await worker.close();
+      }
+    });
+
+    it('should stop a turn that runs past the timeout', async () => {
+      await writeFlow({
+        'src/index.ts':
+          'export const runFlow = (): Promise<string> => new Promise(() => {});',
+      });
+      const worker = new FlowWorker(join(dir, 'src/index.ts'));
+
+      await expect(worker.invoke('hello', 200)).rejects.toThrow(
+        'Flow timed out after 200ms'
+      );
+      await expect(worker.invoke('again')).rejects.toThrow(
+        'Flow timed out after 200ms'
+      );
+      await worker.close();
+    });
+  });
+
+  it('should link the flow to the runtime node_modules', async () => {
+    await linkFlowRuntime(dir, {
+      nodeModules: join(process.cwd(), 'node_modules'),
+      source: 'host',
+    });
+
+    expect(existsSync(join(dir, 'node_modules', 'langchain'))).toBe(true);
+  });
+});
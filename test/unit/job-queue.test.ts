@@ -0,0 +1,213 @@
+/**
+ * Job Queue Test Suite
+ * Tests for running API jobs with bounded concurrency, retries, timeouts
+ * and cancellation
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from '@jest/globals';
+
+import {
+  JobQueue,
+  type JobQueueOptions,
+  type JobRunner,
+} from '../../src/api/services/JobQueue.js';
+import { AppDataSource } from '../../src/database/dataSource.js';
+import {
+  JobEntity,
+  JobLogEntity,
+  type JobRecord,
+} from '../../src/database/entities.js';
+
+describe('JobQueue', () => {
+  let dir: string;
+  let dataSource: AppDataSource;
+  let queue: JobQueue | undefined;
+
+  const addJob = (id: string, changes: Partial<JobRecord> = {}): void => {
+    dataSource.getRepository(JobEntity).save({
+      id,
+      type: 'validation',
+      name: id,
+      status: 'queued',
+      priority: 0,
+      attempts: 0,
+      maxAttempts: 3,
+      progress: 0,
+      createdAt: new Date(),
+      ...changes,
+    });
+  };
+
+  const getJob = (id: string) =>
+    dataSource.getRepository(JobEntity).findOne({ id })!;
+
+  const startQueue = (runner: JobRunner, options: JobQueueOptions = {}) => {
+    queue = new JobQueue(
+      runner,
+      { pollIntervalMs: 5, backoffMs: 1, ...options },
+      dataSource
+    );
+    queue.start();
+    return queue;
+  };
+
+  const settled = (id: string) =>
+    new Promise<JobRecord>((resolve) => {
+      const listener = (job: JobRecord) => {
+        if (job.id !== id) return;
+        for (const event of ['completed', 'dead', 'cancelled']) {
+          queue!.off(event, listener);
+        }
+        resolve(job);
+      };
+      for (const event of ['completed', 'dead', 'cancelled']) {
+        queue!.on(event, listener);
+      }
+    });
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'job-queue-'));
+    dataSource = AppDataSource.getInstance({
+      type: 'sqlite',
+      database: join(dir, 'api.sqlite'),
+    });
+    await dataSource.initialize();
+  });
+
+  afterEach(async () => {
+    await queue?.stop();
+    queue = undefined;
+    dataSource.getRepository(JobEntity).delete({});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run jobs by priority with bounded concurrency', async () => {
+    addJob('low', { createdAt: new Date(Date.now() - 2000) });
+    addJob('high', { priority: 5 });
+    addJob('old', { createdAt: new Date(Date.now() - 1000) });
+
+    const order: string[] = [];
+    let active = 0;
+    let maxActive = 0;
+    startQueue(
+      async (job) => {
+        order.push(job.id);
+        maxActive = Math.max(maxActive, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        return { ran: job.id };
+      },
+      { concurrency: 1 }
+    );
+    const done = await settled('old');
+
+    expect(order).toEqual(['high', 'low', 'old']);
+    expect(maxActive).toBe(1);
+    expect(done).toMatchObject({
+      status: 'completed',
+      attempts: 1,
+      progress: 100,
+      result: { ran: 'old' },
+    });
+  });
+
+  it('should retry failed attempts, then move the job to the dead-letter queue', async () => {
+    addJob('flaky');
+    addJob('broken', { maxAttempts: 2 });
+
+    const retries: number[] = [];
+    startQueue(async (job) => {
+      if (job.id === 'flaky' && job.attempts === 2) return 'ok';
+      throw new Error(`attempt ${job.attempts} failed`);
+    }).on('retrying', (job: JobRecord) => retries.push(job.attempts));
+
+    const [flaky, broken] = await Promise.all([
+      settled('flaky'),
+      settled('broken'),
+    ]);
+
+    expect(flaky).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(broken).toMatchObject({
+      status: 'dead',
+      attempts: 2,
+      error: 'attempt 2 failed',
+    });
+    expect(retries).toEqual([1, 1]);
+    expect(
+      dataSource
+        .getRepository(JobLogEntity)
+        .find({ where: { jobId: 'broken' } })
+        .map((log) => log.level)
+    ).toContain('error');
+  });
+
+  it('should abort attempts that run past their timeout', async () => {
+    addJob('slow', { maxAttempts: 1, timeoutMs: 20 });
+
+    let signal: AbortSignal | undefined;
+    startQueue((_job, jobSignal) => {
+      signal = jobSignal;
+      return new Promise(() => {});
+    });
+    const dead = await settled('slow');
+
+    expect(signal?.aborted).toBe(true);
+    expect(dead).toMatchObject({
+      status: 'dead',
+      error: 'Job timed out after 20ms',
+    });
+    expect(queue!.getStats().running).toBe(0);
+  });
+
+  it('should cancel running and queued jobs', async () => {
+    addJob('running');
+    addJob('waiting', { priority: -1 });
+
+    let signal: AbortSignal | undefined;
+    const started = new Promise<void>((resolve) =>
+      startQueue(
+        (_job, jobSignal) => {
+          signal = jobSignal;
+          resolve();
+          return new Promise(() => {});
+        },
+        { concurrency: 1 }
+      )
+    );
+    await started;
+
+    expect(await queue!.cancel('waiting')).toBe(true);
+    expect(await queue!.cancel('running')).toBe(true);
+    expect(signal?.aborted).toBe(true);
+    expect(getJob('running')).toMatchObject({
+      status: 'cancelled',
+      cancelledAt: expect.any(Date),
+    });
+    expect(getJob('waiting').status).toBe('cancelled');
+    expect(await queue!.cancel('running')).toBe(false);
+  });
+
+  it('should queue jobs interrupted by a restart again', async () => {
+    addJob('interrupted', { status: 'running', attempts: 1 });
+
+    startQueue(async () => 'resumed');
+    const done = await settled('interrupted');
+
+    expect(done).toMatchObject({ status: 'completed', attempts: 1 });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * LangChain Lint Test Suite
+ * Tests for the LangChain-specific checks run over generated TypeScript
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import {
+  LangChainLinter,
+  formatLintWarning,
+} from '../../src/emitters/typescript/langchain-lint.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import {
+  FlowiseChatFlow,
+  GeneratedFile,
+  GenerationContext,
+} from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const createFile = (
+  content: string[],
+  nodeRegions: GeneratedFile['nodeRegions'] = []
+): GeneratedFile => ({
+  path: 'src/index.ts',
+  content: content.join('\n'),
+  type: 'main',
+  dependencies: [],
+  exports: [],
+  size: 0,
+  nodeRegions,
+});
+
+const createManifest = (
+  dependencies: Record<string, string>
+): GeneratedFile => ({
+  path: 'package.json',
+  content: JSON.stringify({ name: 'flow', dependencies }),
+  type: 'config',
+  dependencies: [],
+  exports: [],
+  size: 0,
+});
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'langchain-lint',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+describe('LangChainLinter', () => {
+  const linter = new LangChainLinter();
+
+  it('should flag deprecated LangChain classes with their replacement', async () => {
+    const warnings = await linter.lint([
+      createFile(
+        [
+          "import { LLMChain as Chain } from 'langchain/chains';",
+          "import { ChatOpenAI } from '@langchain/openai';",
+          '',
+          'const model = new ChatOpenAI();',
+          'const llmChain_0 = new Chain({ llm: model, prompt });',
+          'export { llmChain_0 };',
+        ],
+        [{ nodeId: 'llmChain_0', startLine: 5, endLine: 5 }]
+      ),
+    ]);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        type: 'deprecated_api',
+        file: 'src/index.ts',
+        line: 5,
+        nodeId: 'llmChain_0',
+      }),
+    ]);
+    expect(formatLintWarning(warnings[0]!)).toBe(
+      'src/index.ts:5 - LLMChain is deprecated in LangChain [node llmChain_0]. Compose the prompt and model with LCEL: prompt.pipe(model).pipe(new StringOutputParser())'
+    );
+  });
+
+  it('should ignore deprecated names that do not come from LangChain', async () => {
+    const warnings = await linter.lint([
+      createFile([
+        "import { LLMChain } from './chains.js';",
+        'export const chain = new LLMChain();',
+      ]),
+    ]);
+
+    expect(warnings).toEqual([]);
+  });
+
+  it('should flag invoke calls whose promise is dropped', async () => {
+    const warnings = await linter.lint([
+      createFile([
+        'export async function runFlow(input: string) {',
+        '  chain.invoke({ input });',
+        '  const pending = model.invoke(input);',
+        '  const kept = model.batch([input]);',
+        '  await kept;',
+        '  const results = await Promise.all([chain.invoke({ input })]);',
+        '  return chain.stream({ input }).then(() => results);',
+        '}',
+      ]),
+    ]);
+
+    expect(warnings.map((w) => [w.type, w.line])).toEqual([
+      ['missing_await', 2],
+      ['missing_await', 3],
+    ]);
+    expect(warnings[0]!.suggestion).toBe('Write await chain.invoke({ input })');
+  });
+
+  it('should flag node variables nothing reads', async () => {
+    const warnings = await linter.lint([
+      createFile(
+        [
+          'const calculator_0 = new Calculator();',
+          'const serpAPI_0 = new SerpAPI();',
+          'const helper = 1;',
+          'export const tools = [calculator_0];',
+        ],
+        [
+          { nodeId: 'calculator_0', startLine: 1, endLine: 1 },
+          { nodeId: 'serpAPI_0', startLine: 2, endLine: 2 },
+        ]
+      ),
+    ]);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        type: 'unused_variable',
+        message: 'serpAPI_0 is created for node serpAPI_0 but never used',
+        line: 2,
+      }),
+    ]);
+  });
+
+  it('should flag hard-coded keys without repeating them', async () => {
+    const key = `sk-${'a1B2'.repeat(8)}`;
+    const warnings = await linter.lint([
+      createFile([
+        `const model = new ChatOpenAI({ openAIApiKey: '${key}' });`,
+        "const search = new SerpAPI({ apiKey: 'serp-live-12345' });",
+        "const other = new SerpAPI({ apiKey: 'your-api-key-here' });",
+        'const env = new ChatOpenAI({ apiKey: process.env.OPENAI_API_KEY });',
+      ]),
+    ]);
+
+    expect(warnings.map((w) => [w.type, w.line])).toEqual([
+      ['hardcoded_secret', 1],
+      ['hardcoded_secret', 2],
+    ]);
+    expect(warnings.map((w) => w.message).join('\n')).not.toContain(key);
+  });
+
+  it('should flag undeclared packages and mismatched core versions', async () => {
+    const warnings = await linter.lint([
+      createFile([
+        "import { ChatOpenAI } from '@langchain/openai';",
+        "import { Calculator } from '@langchain/community/tools/calculator';",
+        "import { readFileSync } from 'node:fs';",
+      ]),
+      createManifest({
+        '@langchain/core': '^0.2.30',
+        '@langchain/openai': '^0.3.0',
+      }),
+    ]);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        type: 'version_mismatch',
+        message:
+          '@langchain/openai@^0.3.0 is built for @langchain/core 0.3.x, but package.json has @langchain/core@^0.2.30',
+        file: 'package.json',
+      }),
+      expect.objectContaining({
+        type: 'version_mismatch',
+        message:
+          '@langchain/community is imported but not listed in package.json',
+        line: 2,
+      }),
+    ]);
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should tag findings in a converted flow with their node', async () => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'examples/basic/simple-prompt-llm.flowise.json'),
+          'utf8'
+        )
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const warnings = await linter.lint(result.code.files);
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          type: 'deprecated_api',
+          nodeId: 'llmChain_0',
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * LangChain Version Targeting Test Suite
+ * Tests for per-release-line import paths and package versions
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { ImportManager } from '../../src/emitters/typescript/import-manager.js';
+import { LangChainLinter } from '../../src/emitters/typescript/langchain-lint.js';
+import {
+  getDependencyVersion,
+  LANGCHAIN_PACKAGE_VERSIONS,
+  LANGCHAIN_TARGETS,
+  mapLangChainImports,
+  resolveLangChainTarget,
+  selectLangChainTarget,
+} from '../../src/emitters/typescript/langchain-versions.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import { FlowiseChatFlow, GenerationContext } from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'langchain-versions',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+describe('LangChain version targeting', () => {
+  it('should resolve release lines from versions and ranges', () => {
+    expect(resolveLangChainTarget(undefined)).toBe('0.2');
+    expect(resolveLangChainTarget('0.3')).toBe('0.3');
+    expect(resolveLangChainTarget('0.1.37')).toBe('0.1');
+    expect(resolveLangChainTarget('^0.2.0')).toBe('0.2');
+    expect(() => resolveLangChainTarget('0.4')).toThrow(
+      "Unsupported LangChain version '0.4': use one of 0.1, 0.2, 0.3"
+    );
+  });
+
+  it('should pin @langchain/core at the series of each release line', () => {
+    for (const target of LANGCHAIN_TARGETS) {
+      const versions = LANGCHAIN_PACKAGE_VERSIONS[target];
+      expect(versions['langchain']).toMatch(new RegExp(`^\\^${target}\\.`));
+      expect(versions['@langchain/core']).toMatch(
+        new RegExp(`^\\^${target}\\.`)
+      );
+    }
+  });
+
+  it('should map imports to the entrypoints of the target', () => {
+    const code = [
+      "import { Calculator } from '@langchain/community/tools/calculator';",
+      'import {',
+      '  RecursiveCharacterTextSplitter,',
+      '  TokenTextSplitter',
+      "} from '@langchain/textsplitters';",
+      "import { ChatOpenAI } from '@langchain/openai';",
+    ].join('\n');
+
+    expect(mapLangChainImports(code, '0.2')).toBe(code);
+    expect(mapLangChainImports(code, '0.1')).toBe(
+      [
+        "import { Calculator } from 'langchain/tools/calculator';",
+        'import {',
+        '  RecursiveCharacterTextSplitter,',
+        '  TokenTextSplitter',
+        "} from 'langchain/text_splitter';",
+        "import { ChatOpenAI } from '@langchain/openai';",
+      ].join('\n')
+    );
+  });
+
+  it('should split statements whose names moved apart', () => {
+    expect(
+      mapLangChainImports(
+        'import { SerpAPI, Tool as BaseTool } from "langchain/tools";',
+        '0.3'
+      )
+    ).toBe(
+      [
+        'import { SerpAPI } from "@langchain/community/tools/serpapi";',
+        'import { Tool as BaseTool } from "langchain/tools";',
+      ].join('\n')
+    );
+  });
+
+  it('should resolve import manager imports for its target', () => {
+    const manager = new ImportManager('0.1');
+    manager.addImport('@langchain/community/tools/calculator', 'Calculator');
+    manager.addImport('@langchain/textsplitters', [
+      'RecursiveCharacterTextSplitter',
+    ]);
+    manager.addEnvImport();
+
+    const statements = manager.generateImportStatements();
+    expect(statements).toContain(
+      "import { Calculator } from 'langchain/tools/calculator';"
+    );
+    expect(statements).toContain(
+      "import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';"
+    );
+    expect(statements).toContain("import 'dotenv/config';");
+  });
+
+  it('should refuse LangChain packages a release line does not have', () => {
+    expect(getDependencyVersion('@langchain/deepseek', '0.3')).toBe('^0.1.0');
+    expect(() => getDependencyVersion('@langchain/deepseek', '0.2')).toThrow(
+      '@langchain/deepseek is not available for LangChain 0.2: use --langchain-version 0.3'
+    );
+    expect(getDependencyVersion('zod', '0.1')).toBe('^3.23.8');
+    expect(getDependencyVersion('uuid', '0.2')).toBe('latest');
+  });
+
+  it('should default to the first line with the packages code needs', () => {
+    expect(selectLangChainTarget(['@langchain/core/messages', 'zod'])).toBe(
+      '0.2'
+    );
+    expect(
+      selectLangChainTarget(['@langchain/openai', '@langchain/deepseek'])
+    ).toBe('0.3');
+    expect(selectLangChainTarget(['@langchain/unknown'])).toBe('0.2');
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    const convertExample = async (langchainVersion?: string) => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'examples/complex/agent-with-tools.flowise.json'),
+          'utf8'
+        )
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        { ...context, environment: { langchainVersion } }
+      );
+      const main = result.code.files.find((f) => f.path === 'src/index.ts')!;
+      const manifest = result.code.files.find(
+        (f) => f.path === 'package.json'
+      )!;
+      return {
+        files: result.code.files,
+        main: main.content,
+        dependencies: JSON.parse(manifest.content).dependencies as Record<
+          string,
+          string
+        >,
+        metadata: result.code.metadata,
+      };
+    };
+
+    it('should import and pin LangChain 0.1 packages', async () => {
+      const { files, main, dependencies, metadata } =
+        await convertExample('0.1');
+
+      expect(main).toContain(
+        'import { Calculator } from "langchain/tools/calculator";'
+      );
+      expect(main).toContain('import { SerpAPI } from "langchain/tools";');
+      expect(dependencies).toMatchObject({
+        langchain: '^0.1.37',
+        '@langchain/core': '^0.1.63',
+        '@langchain/openai': '^0.0.34',
+        '@langchain/community': '^0.0.57',
+      });
+      expect(metadata.langchainVersion).toBe('0.1.37');
+
+      const warnings = await new LangChainLinter().lint(files);
+      expect(warnings.filter((w) => w.type === 'version_mismatch')).toEqual([]);
+    });
+
+    it('should import from community packages from 0.2 on', async () => {
+      const defaults = await convertExample();
+      const latest = await convertExample('0.3');
+
+      expect(defaults.main).toContain(
+        'import { Calculator } from "@langchain/community/tools/calculator";'
+      );
+      expect(defaults.dependencies['langchain']).toBe('^0.2.17');
+      expect(latest.main).toContain(
+        'import { SerpAPI } from "@langchain/community/tools/serpapi";'
+      );
+      expect(latest.dependencies).toMatchObject({
+        langchain: '^0.3.30',
+        '@langchain/core': '^0.3.66',
+        '@langchain/openai': '^0.3.17',
+        '@langchain/community': '^0.3.50',
+      });
+    });
+
+    it('should pick or refuse release lines by the packages of a flow', async () => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'chatflows', 'Software Team Agents.json'),
+          'utf8'
+        )
+      );
+      const convert = (langchainVersion?: string) =>
+        new IRProcessor().processFlow(parsed.data as FlowiseChatFlow, {
+          ...context,
+          environment: { langchainVersion },
+        });
+
+      await expect(convert('0.2')).rejects.toThrow(
+        '@langchain/deepseek is not available for LangChain 0.2'
+      );
+      const result = await convert();
+      expect(result.code.metadata.langchainVersion).toBe('0.3.30');
+      const manifest = result.code.files.find(
+        (f) => f.path === 'package.json'
+      )!;
+      expect(JSON.parse(manifest.content).dependencies).toMatchObject({
+        '@langchain/core': '^0.3.66',
+        '@langchain/deepseek': '^0.1.0',
+      });
+    });
+  });
+});
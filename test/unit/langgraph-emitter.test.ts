@@ -0,0 +1,171 @@
+/**
+ * LangGraph Emitter Test Suite
+ * Tests for compiling Agentflow V2 graphs into a LangGraph StateGraph
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { LangGraphEmitter } from '../../src/emitters/langgraph/index.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import { IRGraph, IRNode, FlowiseChatFlow } from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+import { createContext, createNode } from '../utils/test-helpers.js';
+
+const createGraph = (
+  nodes: IRNode[],
+  connections: IRGraph['connections']
+): IRGraph => ({
+  nodes,
+  connections,
+  metadata: {
+    name: 'Agentflow',
+    version: '1.0.0',
+    flowiseVersion: '2.0.0',
+  },
+});
+
+const context = createContext({
+  projectName: 'langgraph-test',
+  emitter: 'langgraph',
+});
+
+describe('LangGraphEmitter', () => {
+  const emitter = new LangGraphEmitter();
+
+  const graph = createGraph(
+    [
+      createNode('startAgentflow_0', 'startAgentflow', {
+        startState: [{ key: 'next', value: '' }],
+      }),
+      createNode('conditionAgentflow_0', 'conditionAgentflow'),
+      createNode('llmAgentflow_0', 'llmAgentflow'),
+      createNode('loopAgentflow_0', 'loopAgentflow', {
+        loopBackToNode: 'conditionAgentflow_0-Check',
+      }),
+      createNode('stickyNoteAgentflow_0', 'stickyNoteAgentflow'),
+    ],
+    [
+      {
+        id: 'e1',
+        source: 'startAgentflow_0',
+        target: 'conditionAgentflow_0',
+        sourceHandle: 'startAgentflow_0-output-startAgentflow',
+        targetHandle: 'conditionAgentflow_0',
+      },
+      {
+        id: 'e2',
+        source: 'conditionAgentflow_0',
+        target: 'llmAgentflow_0',
+        sourceHandle: 'conditionAgentflow_0-output-0',
+        targetHandle: 'llmAgentflow_0',
+      },
+      {
+        id: 'e3',
+        source: 'llmAgentflow_0',
+        target: 'loopAgentflow_0',
+        sourceHandle: 'llmAgentflow_0-output-llmAgentflow',
+        targetHandle: 'loopAgentflow_0',
+      },
+    ]
+  );
+
+  const execution = (): string =>
+    emitter
+      .generateFragments(graph, context)
+      .find((f) => f.type === 'execution')?.content ?? '';
+
+  it('should only accept Agentflow V2 graphs', () => {
+    expect(emitter.canEmit(graph)).toBe(true);
+    expect(() =>
+      emitter.generateFragments(
+        createGraph([createNode('llm_0', 'openAI')], []),
+        context
+      )
+    ).toThrow('LangGraph output requires an Agentflow V2 flow');
+  });
+
+  it('should import StateGraph from @langchain/langgraph', () => {
+    const fragments = emitter.generateFragments(graph, context);
+
+    expect(fragments[0]?.content).toBe(
+      "import { Annotation, END, START, StateGraph } from '@langchain/langgraph';"
+    );
+    expect(fragments[0]?.dependencies).toContain('@langchain/langgraph');
+  });
+
+  it('should seed the shared state schema from the Start node', () => {
+    const code = execution();
+
+    expect(code).toContain('const FlowState = Annotation.Root({');
+    expect(code).toContain('default: () => ({ "next": \'\' }),');
+    expect(code).toContain('messages: Annotation<BaseMessage[]>({');
+  });
+
+  it('should add a graph node per step and skip sticky notes', () => {
+    const code = execution();
+
+    expect(code).toContain(
+      '.addNode("llmAgentflow_0", toGraphNode("llmAgentflow_0", llmAgentflow_0_step))'
+    );
+    expect(code).not.toContain('stickyNoteAgentflow_0');
+    expect(code).toContain('.addEdge(START, "startAgentflow_0")');
+    expect(code).toContain(
+      '.addEdge("startAgentflow_0", "conditionAgentflow_0")'
+    );
+  });
+
+  it('should route condition branches with conditional edges', () => {
+    const code = execution();
+
+    expect(code).toContain(
+      'const routes: Record<number, string | string[]> = { 0: "llmAgentflow_0" };'
+    );
+    expect(code).toContain('return routes[state.branch ?? -1] ?? END;');
+    expect(code).toContain('["llmAgentflow_0", END]');
+  });
+
+  it('should loop back to the target node until the loop ends', () => {
+    const code = execution();
+
+    expect(code).toContain('(state) => state.goto ?? END,');
+    expect(code).toContain('["conditionAgentflow_0", END]');
+    expect(code).toContain('export async function runFlow(input: string)');
+    expect(code).toContain('graph.invoke({ input }, { recursionLimit: 1000 })');
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should emit a StateGraph for Software Team Agents.json', async () => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'chatflows', 'Software Team Agents.json'),
+          'utf8'
+        )
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const code =
+        result.code.files.find((f) => f.path === 'src/index.ts')?.content ?? '';
+      expect(code).toContain('export const graph = new StateGraph(FlowState)');
+      expect(code).toContain('const llmAgentflow_0_step: AgentflowStep');
+      expect(code).not.toContain('const agentflowEdges');
+      expect(code).toContain('// CLI entry point');
+
+      const packageJson = JSON.parse(
+        result.code.files.find((f) => f.path === 'package.json')?.content ??
+          '{}'
+      );
+      expect(packageJson.dependencies).toHaveProperty('@langchain/langgraph');
+    });
+  });
+});
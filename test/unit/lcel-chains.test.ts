@@ -0,0 +1,273 @@
+/**
+ * LCEL Chains Test Suite
+ * Tests for composing chains from LCEL runnables with `lcel` in the context
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { CompilationChecker } from '../../src/emitters/typescript/compile-check.js';
+import { lintGeneratedCode } from '../../src/emitters/typescript/langchain-lint.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import { FlowiseChatFlow, GenerationContext } from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import {
+  ConversationChainConverter,
+  ConversationalRetrievalQAChainConverter,
+  LLMChainConverter,
+  RetrievalQAChainConverter,
+} from '../../src/registry/converters/chain.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+import { createContext, createNode } from '../utils/test-helpers.js';
+
+const context = createContext({ projectName: 'lcel-test' });
+
+const lcelContext: GenerationContext = {
+  ...context,
+  lcel: true,
+  resolveNodeReference: (id) => `ref_${id}`,
+};
+
+const contentOf = (fragments: { content: string }[]): string =>
+  fragments.map((f) => f.content).join('\n');
+
+describe('LCEL chain converters', () => {
+  it('should pipe the prompt into the model and a string parser', () => {
+    const code = contentOf(
+      new LLMChainConverter().convert(
+        createNode('llmChain_0', 'llmChain', {
+          model: '{{chatOpenAI_0.data.instance}}',
+          prompt: '{{promptTemplate_0.data.instance}}',
+        }),
+        lcelContext
+      )
+    );
+
+    expect(code).toContain(
+      "import { StringOutputParser } from '@langchain/core/output_parsers';"
+    );
+    expect(code).toContain(
+      'const ref_llmChain_0 = ref_promptTemplate_0\n  .pipe(ref_chatOpenAI_0)\n  .pipe(new StringOutputParser());'
+    );
+    expect(code).not.toContain('LLMChain');
+  });
+
+  it('should end in a connected output parser', () => {
+    const code = contentOf(
+      new LLMChainConverter().convert(
+        createNode('llmChain_0', 'llmChain', {
+          model: '{{chatOpenAI_0.data.instance}}',
+          prompt: '{{promptTemplate_0.data.instance}}',
+          outputParser: '{{structuredOutputParser_0.data.instance}}',
+        }),
+        lcelContext
+      )
+    );
+
+    expect(code).toContain('.pipe(ref_structuredOutputParser_0);');
+    expect(code).not.toContain('StringOutputParser');
+  });
+
+  it('should keep a conversation in the connected memory', () => {
+    const code = contentOf(
+      new ConversationChainConverter().convert(
+        createNode('conversationChain_0', 'conversationChain', {
+          model: '{{chatOpenAI_0.data.instance}}',
+          memory: '{{bufferMemory_0.data.instance}}',
+          systemMessagePrompt: 'You are terse.',
+        }),
+        lcelContext
+      )
+    );
+
+    expect(code).toContain(
+      'const ref_conversationChain_0 = new RunnableWithMessageHistory({'
+    );
+    expect(code).toContain('[\'system\', "You are terse."],');
+    expect(code).toContain(
+      'new MessagesPlaceholder(ref_bufferMemory_0.memoryKey),'
+    );
+    expect(code).toContain('historyMessagesKey: ref_bufferMemory_0.memoryKey,');
+    expect(code).toContain(
+      'getMessageHistory: () => ref_bufferMemory_0.chatHistory,'
+    );
+    expect(code).toContain(
+      "config: { configurable: { sessionId: 'default' } },"
+    );
+    expect(code).not.toContain('InMemoryChatMessageHistory');
+  });
+
+  it('should put the history between the messages of a connected prompt', () => {
+    const code = contentOf(
+      new ConversationChainConverter().convert(
+        createNode('conversationChain_0', 'conversationChain', {
+          model: '{{chatOpenAI_0.data.instance}}',
+          memory: '{{bufferMemory_0.data.instance}}',
+          prompt: '{{chatPromptTemplate_0.data.instance}}',
+        }),
+        lcelContext
+      )
+    );
+
+    expect(code).toContain(
+      [
+        'runnable: ChatPromptTemplate.fromMessages([',
+        '    ...ref_chatPromptTemplate_0.promptMessages.slice(0, -1),',
+        '    new MessagesPlaceholder(ref_bufferMemory_0.memoryKey),',
+        '    ...ref_chatPromptTemplate_0.promptMessages.slice(-1),',
+        '  ])',
+      ].join('\n')
+    );
+  });
+
+  it('should keep a conversation in process without memory', () => {
+    const code = contentOf(
+      new ConversationChainConverter().convert(
+        createNode('conversationChain_0', 'conversationChain', {
+          model: '{{chatOpenAI_0.data.instance}}',
+        }),
+        lcelContext
+      )
+    );
+
+    expect(code).toContain(
+      'const ref_conversationChain_0_history = new InMemoryChatMessageHistory();'
+    );
+    expect(code).toContain(
+      'getMessageHistory: () => ref_conversationChain_0_history,'
+    );
+  });
+
+  it('should retrieve with createRetrievalChain for stuff chains only', () => {
+    const converter = new RetrievalQAChainConverter();
+    const inputs = {
+      model: '{{chatOpenAI_0.data.instance}}',
+      vectorStoreRetriever: '{{pinecone_0.data.instance}}',
+    };
+
+    const stuff = contentOf(
+      converter.convert(
+        createNode('retrievalQAChain_0', 'retrievalQAChain', inputs),
+        lcelContext
+      )
+    );
+    expect(stuff).toContain(
+      'const ref_retrievalQAChain_0 = await createRetrievalChain({\n  retriever: ref_pinecone_0,'
+    );
+    expect(stuff).toContain(
+      'combineDocsChain: await createStuffDocumentsChain({'
+    );
+    expect(stuff).not.toContain('RetrievalQAChain');
+
+    const mapReduce = contentOf(
+      converter.convert(
+        createNode('retrievalQAChain_0', 'retrievalQAChain', {
+          ...inputs,
+          chainType: 'map_reduce',
+        }),
+        lcelContext
+      )
+    );
+    expect(mapReduce).toContain('new RetrievalQAChain({');
+  });
+
+  it('should rephrase follow-ups with a history-aware retriever', () => {
+    const code = contentOf(
+      new ConversationalRetrievalQAChainConverter().convert(
+        createNode(
+          'conversationalRetrievalQAChain_0',
+          'conversationalRetrievalQAChain',
+          {
+            model: '{{chatOpenAI_0.data.instance}}',
+            vectorStoreRetriever: '{{pinecone_0.data.instance}}',
+            memory: '{{bufferMemory_0.data.instance}}',
+          }
+        ),
+        lcelContext
+      )
+    );
+
+    expect(code).toContain('retriever: await createHistoryAwareRetriever({');
+    expect(code).toContain('Follow Up Input: {input}\\nStandalone Question:');
+    expect(code).not.toContain('{chat_history}');
+    expect(code).toContain("historyMessagesKey: 'chat_history',");
+    expect(code).toContain("outputMessagesKey: 'answer',");
+    expect(code).not.toContain('ConversationalRetrievalQAChain');
+  });
+
+  it('should keep the chain classes without lcel', () => {
+    const code = contentOf(
+      new LLMChainConverter().convert(
+        createNode('llmChain_0', 'llmChain', {
+          model: '{{chatOpenAI_0.data.instance}}',
+          prompt: '{{promptTemplate_0.data.instance}}',
+        }),
+        context
+      )
+    );
+
+    expect(code).toContain('new LLMChain({');
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    const convertExample = async (name: string, lcel: boolean) => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(join(process.cwd(), 'examples', name), 'utf8')
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        { ...context, lcel }
+      );
+      return result.code.files;
+    };
+
+    it('should invoke and stream the converted flow', async () => {
+      const files = await convertExample(
+        'basic/conversation-memory.flowise.json',
+        true
+      );
+      const main = files.find((f) => f.path === 'src/index.ts')!.content;
+
+      expect(main).toContain(
+        'getMessageHistory: () => bufferMemory_bufferMemory_0.chatHistory,'
+      );
+      expect(main).toContain(
+        'const result = await conversationChain_conversationChain_0.invoke({ input });'
+      );
+      expect(main).toContain(
+        'export async function* streamFlow(input: string): AsyncGenerator<string> {'
+      );
+      expect(main).not.toContain('.call(');
+
+      const check = await new CompilationChecker().check(files);
+      expect(check.diagnostics).toEqual([]);
+      const lint = await lintGeneratedCode(files);
+      expect(lint.filter((w) => w.type === 'deprecated_api')).toEqual([]);
+    });
+
+    it('should pipe the transformer-built LLM chain', async () => {
+      const lcel = await convertExample(
+        'basic/simple-prompt-llm.flowise.json',
+        true
+      );
+      const legacy = await convertExample(
+        'basic/simple-prompt-llm.flowise.json',
+        false
+      );
+
+      expect(lcel[0]!.content).toContain(
+        'const llmChain_llmChain_0 = promptTemplate_promptTemplate_0\n  .pipe(chatOpenAI_chatOpenAI_0)\n  .pipe(new StringOutputParser());'
+      );
+      expect(lcel[0]!.content).not.toContain('LLMChain');
+      expect(legacy[0]!.content).toContain(
+        'import { LLMChain } from "langchain/chains";'
+      );
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * OpenAPI Test Suite
+ * Tests for generating the OpenAPI spec of the API from the schemas its
+ * routes validate requests with
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import express, { Router, type Request, type Response } from 'express';
+import request from 'supertest';
+
+import { requireScope } from '../../src/api/middleware/auth.js';
+import {
+  pageQuery,
+  validateRequest,
+} from '../../src/api/middleware/validation.js';
+import { generateOpenApiSpec, listRoutes } from '../../src/api/openapi.js';
+import { apiRouters, docsRouter } from '../../src/api/routes/index.js';
+
+// The routers pull in the CLI logger and the converter, which jest cannot load
+jest.mock('../../src/cli/utils/logger', () => ({ logger: {} }));
+jest.mock('../../src/index', () => ({}));
+
+describe('OpenAPI spec', () => {
+  it('should have a schema for every route', () => {
+    const routes = listRoutes(apiRouters);
+    const missing = routes
+      .filter((route) => !route.schema)
+      .map((route) => `${route.method.toUpperCase()} /api${route.path}`);
+
+    expect(routes.length).toBeGreaterThan(40);
+    expect(missing).toEqual([]);
+  });
+
+  it('should document every route of every router', () => {
+    const spec = generateOpenApiSpec(apiRouters, 'http://localhost:3001/api');
+    const operations = Object.entries(spec.paths).flatMap(([path, methods]) =>
+      Object.entries(methods).map(([method, operation]) => ({
+        path,
+        method,
+        operation,
+      }))
+    );
+
+    expect(spec.openapi).toBe('3.1.0');
+    expect(spec.servers).toEqual([{ url: 'http://localhost:3001/api' }]);
+    expect(operations).toHaveLength(listRoutes(apiRouters).length);
+    expect(spec.tags.map((tag) => tag.name)).toEqual([
+      'convert',
+      'diff',
+      'validate',
+      'test',
+      'upload',
+      'batch',
+      'jobs',
+      'stats',
+      'keys',
+      'api',
+    ]);
+    expect(
+      new Set(operations.map(({ operation }) => operation.operationId)).size
+    ).toBe(operations.length);
+    for (const { path, operation } of operations) {
+      const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+      expect(
+        (operation.parameters ?? [])
+          .filter((parameter: { in: string }) => parameter.in === 'path')
+          .map((parameter: { name: string }) => parameter.name)
+      ).toEqual(pathParams);
+      expect(operation.summary).toEqual(expect.any(String));
+    }
+  });
+
+  it('should use the schemas requests are validated with', () => {
+    const { paths } = generateOpenApiSpec(apiRouters);
+
+    expect(
+      paths['/convert']!.post.requestBody.content['application/json'].schema
+    ).toMatchObject({ required: ['input'] });
+    expect(paths['/jobs']!.get.parameters).toContainEqual({
+      name: 'page',
+      in: 'query',
+      required: false,
+      description: 'Page number, from 1',
+      schema: pageQuery.page,
+    });
+    expect(
+      Object.keys(paths['/upload/file']!.post.requestBody.content)
+    ).toEqual(['multipart/form-data']);
+    expect(paths['/stats/system']!.get.responses).not.toHaveProperty('400');
+  });
+
+  it('should list the scope each operation needs', () => {
+    const { paths } = generateOpenApiSpec(apiRouters);
+
+    expect(paths['/convert']!.post.security).toEqual([{ apiKey: ['convert'] }]);
+    expect(paths['/jobs']!.get.security).toEqual([{ apiKey: ['jobs'] }]);
+    expect(paths['/jobs/dead-letter']!.delete.security).toEqual([
+      { apiKey: ['jobs', 'admin'] },
+    ]);
+    expect(paths['/stats']!.get.security).toEqual([{ apiKey: ['stats'] }]);
+    expect(paths['/keys/me']!.get.security).toEqual([{ apiKey: [] }]);
+    expect(paths['/keys/{keyId}/rotate']!.post.security).toEqual([
+      { apiKey: ['admin'] },
+    ]);
+    expect(paths['/keys']!.post.responses).toHaveProperty('403');
+  });
+
+  it('should serve the spec and its page apart from the API', async () => {
+    const app = express().use('/api', docsRouter);
+
+    const spec = await request(app).get('/api/openapi.json').expect(200);
+    expect(spec.body.openapi).toBe('3.1.0');
+    expect(spec.body.paths).not.toHaveProperty('/openapi.json');
+    await request(app)
+      .get('/api/docs')
+      .expect(200)
+      .expect('Content-Type', /html/);
+    expect(
+      listRoutes(apiRouters).filter(({ path }) => path.endsWith('docs'))
+    ).toEqual([]);
+  });
+
+  it('should find routes without a schema', () => {
+    const router = Router();
+    router.get(
+      '/documented',
+      validateRequest({ summary: 'Documented' }),
+      (_req, res) => res.end()
+    );
+    router.use(requireScope('admin'));
+    router.delete('/:id', (_req, res) => res.end());
+
+    expect(listRoutes([{ path: '/things', router }])).toEqual([
+      {
+        method: 'get',
+        mountPath: '/things',
+        path: '/things/documented',
+        schema: { summary: 'Documented' },
+        scopes: [],
+      },
+      {
+        method: 'delete',
+        mountPath: '/things',
+        path: '/things/:id',
+        schema: undefined,
+        scopes: ['admin'],
+      },
+    ]);
+  });
+});
+
+describe('validateRequest', () => {
+  it('should check query parameters by pattern', () => {
+    const middleware = validateRequest({
+      summary: 'List things',
+      query: { type: 'object', properties: pageQuery },
+    });
+    const run = (query: Record<string, string>) => {
+      const res = {
+        statusCode: 200,
+        body: undefined as any,
+        status(code: number) {
+          this.statusCode = code;
+          return this;
+        },
+        json(body: unknown) {
+          this.body = body;
+          return this;
+        },
+      };
+      const next = jest.fn();
+      middleware(
+        { query } as unknown as Request,
+        res as unknown as Response,
+        next
+      );
+      return { res, next };
+    };
+
+    expect(run({ page: '2', limit: '10' }).next).toHaveBeenCalled();
+    const invalid = run({ page: 'two' });
+    expect(invalid.res.statusCode).toBe(400);
+    expect(invalid.res.body.details).toEqual([
+      'query: page: Value must match ^[0-9]+$',
+    ]);
+    expect(middleware.schema.summary).toBe('List things');
+  });
+});
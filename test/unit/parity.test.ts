@@ -0,0 +1,160 @@
+/**
+ * Parity Test Suite
+ * Tests for comparing converted flows with a Flowise prediction endpoint
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  compareOutputs,
+  createComparator,
+  loadParityInputs,
+  normalizeOutput,
+  startPredictionStandIn,
+} from '../../src/cli/utils/parity.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'parity-'));
+
+const comparator = (comparator: string, embeddingUrl = '') =>
+  createComparator({
+    comparator,
+    embeddingUrl,
+    embeddingModel: DEFAULT_EMBEDDING_MODEL,
+  });
+
+describe('parity inputs', () => {
+  it('should read inputs given as strings or objects', async () => {
+    const path = join(dir, 'inputs.json');
+    writeFileSync(path, JSON.stringify(['Hello', { input: 'What is 2+2?' }]));
+
+    await expect(loadParityInputs(path)).resolves.toEqual([
+      'Hello',
+      'What is 2+2?',
+    ]);
+  });
+
+  it('should reject inputs without text', async () => {
+    const path = join(dir, 'bad-inputs.json');
+    writeFileSync(path, JSON.stringify([{ question: 'Hello' }]));
+
+    await expect(loadParityInputs(path)).rejects.toThrow(
+      'must be a string or an object with an "input" string'
+    );
+  });
+});
+
+describe('parity comparators', () => {
+  let embeddings: Server;
+  let embeddingUrl: string;
+
+  beforeAll(async () => {
+    // Stands in for a local model: texts about cats point one way
+    embeddings = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { input } = JSON.parse(body) as { input: string[] };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            data: input.map((text, index) => ({
+              index,
+              embedding: /cat/i.test(text) ? [1, 0.1] : [0, 1],
+            })),
+          })
+        );
+      });
+    });
+    await new Promise<void>((listening) =>
+      embeddings.listen(0, '127.0.0.1', listening)
+    );
+    embeddingUrl = `http://127.0.0.1:${(embeddings.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((closed) => embeddings.close(closed));
+  });
+
+  it('should match normalized outputs that differ in case and punctuation', async () => {
+    const exact = await comparator('exact');
+    const normalized = await comparator('normalized');
+
+    expect(normalizeOutput('  Paris,  France! ')).toBe('paris france');
+    await expect(
+      exact.compare('Paris, France!', 'paris france', 'Capital?')
+    ).resolves.toEqual({ score: 0 });
+    await expect(
+      normalized.compare('Paris, France!', 'paris france', 'Capital?')
+    ).resolves.toEqual({ score: 1 });
+  });
+
+  it('should score outputs by embedding similarity', async () => {
+    const embedding = await comparator('embedding', embeddingUrl);
+
+    expect(embedding.threshold).toBe(0.85);
+    const same = await embedding.compare('A cat sat', 'The cat sits', 'Pet?');
+    const different = await embedding.compare('A cat sat', 'A dog ran', 'Pet?');
+    expect(same.score).toBeCloseTo(1);
+    expect(different.score).toBeLessThan(0.2);
+  });
+
+  it('should reject an unknown comparator', async () => {
+    await expect(comparator(join(dir, 'missing.mjs'))).rejects.toThrow();
+  });
+});
+
+describe('compareOutputs', () => {
+  it('should score Flowise answers from a stand-in against converted outputs', async () => {
+    const endpoint = await startPredictionStandIn({
+      Hello: 'Hi there!',
+      'What is 2+2?': '4',
+      'Who are you?': 'An assistant',
+    });
+
+    try {
+      const report = await compareOutputs(
+        ['Hello', 'What is 2+2?', 'Who are you?', 'Unrecorded'],
+        [
+          { output: 'hi there' },
+          { output: 'Five' },
+          { error: 'Missing OPENAI_API_KEY' },
+          { output: 'Something' },
+        ],
+        endpoint,
+        await comparator('normalized'),
+        'normalized'
+      );
+
+      expect(report).toMatchObject({
+        comparator: 'normalized',
+        threshold: 1,
+        total: 4,
+        passed: 1,
+        parityRate: 0.25,
+      });
+      expect(report.cases[0]).toEqual({
+        input: 'Hello',
+        flowise: 'Hi there!',
+        converted: 'hi there',
+        score: 1,
+        passed: true,
+      });
+      expect(report.cases[1]).toMatchObject({ score: 0, passed: false });
+      expect(report.cases[2]!.error).toBe(
+        'Converted flow failed: Missing OPENAI_API_KEY'
+      );
+      expect(report.cases[3]!.error).toContain(
+        'Flowise prediction failed with 404'
+      );
+    } finally {
+      await endpoint.close();
+    }
+  });
+});
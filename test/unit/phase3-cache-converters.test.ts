@@ -239,7 +239,7 @@ describe('Phase 3A: Cache Converters', () => {
       // Check initialization fragment
       const initFragment = fragments[1];
       expect(initFragment.type).toBe('initialization');
-      expect(initFragment.content).toContain('apiKey: "process.env.MOMENTO_API_KEY"');
+      expect(initFragment.content).toContain('apiKey: process.env.MOMENTO_API_KEY');
       expect(initFragment.content).toContain('cacheName: "langchain-cache"');
     });
 
@@ -316,8 +316,8 @@ describe('Phase 3A: Cache Converters', () => {
       // Check initialization fragment
       const initFragment = fragments[1];
       expect(initFragment.type).toBe('initialization');
-      expect(initFragment.content).toContain('url: "process.env.UPSTASH_REDIS_REST_URL"');
-      expect(initFragment.content).toContain('token: "process.env.UPSTASH_REDIS_REST_TOKEN"');
+      expect(initFragment.content).toContain('url: process.env.UPSTASH_REDIS_REST_URL');
+      expect(initFragment.content).toContain('token: process.env.UPSTASH_REDIS_REST_TOKEN');
     });
 
     test('should generate Upstash Redis cache with custom configuration', () => {
@@ -0,0 +1,245 @@
+/**
+ * Python Emitter Test Suite
+ * Tests for generating LangChain Python projects from the IR
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import {
+  PythonEmitter,
+  toPythonName,
+} from '../../src/emitters/python/index.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import { IRGraph, IRNode, FlowiseChatFlow } from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+import { createContext, createNode } from '../utils/test-helpers.js';
+
+const connect = (source: string, target: string, input: string) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle: `${source}-output`,
+  targetHandle: `${target}-input-${input}-Type`,
+});
+
+const createGraph = (
+  nodes: IRNode[],
+  connections: IRGraph['connections']
+): IRGraph => ({
+  nodes,
+  connections,
+  metadata: {
+    name: 'Python Flow',
+    version: '1.0.0',
+    flowiseVersion: '2.0.0',
+  },
+});
+
+const context = createContext({
+  targetLanguage: 'python',
+  projectName: 'Python Test',
+});
+
+const fileContent = (
+  files: { path: string; content: string }[],
+  path: string
+): string => files.find((f) => f.path === path)?.content ?? '';
+
+describe('PythonEmitter', () => {
+  const emitter = new PythonEmitter();
+
+  const llmChainGraph = createGraph(
+    [
+      createNode('llmChain_0', 'llmChain'),
+      createNode('chatOpenAI_0', 'chatOpenAI', {
+        modelName: 'gpt-4o-mini',
+        temperature: '0.7',
+      }),
+      createNode('promptTemplate_0', 'promptTemplate', {
+        template: 'Tell me a {adjective} joke about {topic}',
+        promptValues: '{"adjective":"funny","topic":"{{question}}"}',
+      }),
+    ],
+    [
+      connect('chatOpenAI_0', 'llmChain_0', 'model'),
+      connect('promptTemplate_0', 'llmChain_0', 'prompt'),
+    ]
+  );
+
+  it('should name variables in snake case', () => {
+    expect(toPythonName('chatOpenAI_0')).toBe('chat_open_ai_0');
+    expect(toPythonName('conversationalRetrievalQAChain_0')).toBe(
+      'conversational_retrieval_qa_chain_0'
+    );
+  });
+
+  it('should emit an LCEL chain in dependency order', async () => {
+    const result = await emitter.generateCode(llmChainGraph, context);
+    const main = fileContent(result.files, 'main.py');
+
+    expect(main).toContain(
+      'chat_open_ai_0 = ChatOpenAI(model="gpt-4o-mini", temperature=0.7)'
+    );
+    expect(main).toContain(
+      'prompt_template_0 = PromptTemplate.from_template(\n    "Tell me a {adjective} joke about {topic}"\n).partial(adjective="funny")'
+    );
+    expect(main).toContain(
+      'llm_chain_0 = prompt_template_0 | chat_open_ai_0 | StrOutputParser()'
+    );
+    expect(main.indexOf('chat_open_ai_0 =')).toBeLessThan(
+      main.indexOf('llm_chain_0 =')
+    );
+  });
+
+  it('should merge imports per module', async () => {
+    const result = await emitter.generateCode(llmChainGraph, context);
+    const main = fileContent(result.files, 'main.py');
+
+    expect(main).toContain('from langchain_openai import ChatOpenAI');
+    expect(main).toContain('from langchain_core.prompts import PromptTemplate');
+    expect(main).toContain(
+      'from langchain_core.output_parsers import StrOutputParser'
+    );
+    expect(main.match(/^from langchain_core\.prompts/gm)).toHaveLength(1);
+  });
+
+  it('should invoke the exit node from run_workflow', async () => {
+    const result = await emitter.generateCode(llmChainGraph, context);
+    const main = fileContent(result.files, 'main.py');
+
+    expect(main).toContain('async def run_workflow(input_text: str) -> str:');
+    expect(main).toContain(
+      'result = await llm_chain_0.ainvoke({"topic": input_text})'
+    );
+    expect(main).toContain('if __name__ == "__main__":\n    main()');
+    expect(result.files.find((f) => f.path === 'main.py')?.exports).toContain(
+      'run_workflow'
+    );
+  });
+
+  it('should support a synchronous entry point', async () => {
+    const result = await new PythonEmitter({ asyncAwait: false }).generateCode(
+      llmChainGraph,
+      context
+    );
+    const main = fileContent(result.files, 'main.py');
+
+    expect(main).toContain('def run_workflow(input_text: str) -> str:');
+    expect(main).toContain(
+      'result = llm_chain_0.invoke({"topic": input_text})'
+    );
+    expect(main).not.toContain('import asyncio');
+  });
+
+  it('should list pip distributions in requirements and pyproject', async () => {
+    const result = await emitter.generateCode(llmChainGraph, context);
+    const requirements = fileContent(result.files, 'requirements.txt');
+    const pyproject = fileContent(result.files, 'pyproject.toml');
+
+    expect(requirements.split('\n')).toEqual(
+      expect.arrayContaining([
+        'langchain-core>=0.3,<0.4',
+        'langchain-openai>=0.2,<0.4',
+        'python-dotenv>=1.0',
+      ])
+    );
+    expect(pyproject).toContain('name = "python-test"');
+    expect(pyproject).toContain('    "langchain-openai>=0.2,<0.4",');
+    expect(pyproject).toContain('run-workflow = "main:main"');
+    expect(fileContent(result.files, '.env.example')).toContain(
+      'OPENAI_API_KEY='
+    );
+    expect(result.metadata.targetLanguage).toBe('python');
+  });
+
+  it('should key an agent memory and tools for AgentExecutor', async () => {
+    const graph = createGraph(
+      [
+        createNode('toolAgent_0', 'toolAgent', {
+          systemMessage: 'You are a maths tutor.',
+        }),
+        createNode('chatOpenAI_0', 'chatOpenAI'),
+        createNode('calculator_0', 'calculator'),
+        createNode('bufferMemory_0', 'bufferMemory'),
+      ],
+      [
+        connect('chatOpenAI_0', 'toolAgent_0', 'model'),
+        connect('calculator_0', 'toolAgent_0', 'tools'),
+        connect('bufferMemory_0', 'toolAgent_0', 'memory'),
+      ]
+    );
+
+    const result = await emitter.generateCode(graph, context);
+    const main = fileContent(result.files, 'main.py');
+
+    expect(main).toContain('@tool("calculator")');
+    expect(main).toContain('tool_agent_0_tools = [calculator_0]');
+    expect(main).toContain(
+      'agent=create_tool_calling_agent(chat_open_ai_0, tool_agent_0_tools, tool_agent_0_prompt),'
+    );
+    expect(main).toContain('memory=buffer_memory_0,');
+    expect(main).toContain('output_key="output",');
+    expect(main).toContain('await tool_agent_0.ainvoke({"input": input_text})');
+    expect(fileContent(result.files, 'requirements.txt')).toContain('numexpr');
+  });
+
+  it('should leave a TODO for nodes without a Python converter', async () => {
+    const result = await emitter.generateCode(
+      createGraph([createNode('airtable_0', 'airtableAgent')], []),
+      context
+    );
+
+    expect(fileContent(result.files, 'main.py')).toContain(
+      '# TODO: airtable_0 (airtableAgent): no Python converter for airtableAgent\nairtable_0 = None'
+    );
+    expect(result.metadata.warnings[0]).toContain('airtableAgent');
+  });
+
+  it('should reject Agentflow V2 flows', async () => {
+    await expect(
+      emitter.generateCode(
+        createGraph([createNode('startAgentflow_0', 'startAgentflow')], []),
+        context
+      )
+    ).rejects.toThrow('Python output does not support Agentflow V2 flows');
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should generate Python for TenFourOptics Chatflow.json', async () => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'chatflows', 'TenFourOptics Chatflow.json'),
+          'utf8'
+        )
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const main = fileContent(result.code.files, 'main.py');
+      expect(result.code.files.some((f) => f.path.endsWith('.ts'))).toBe(false);
+      expect(main).toContain('pinecone_0_store = PineconeVectorStore(');
+      expect(main).toContain('    index_name="tenfouroptics",');
+      expect(main).toContain('pinecone_0 = pinecone_0_store.as_retriever()');
+      expect(main).toContain(
+        'conversational_retrieval_qa_chain_0 = ConversationalRetrievalChain.from_llm('
+      );
+      expect(main).toContain('    input_key="question",');
+      expect(main).toContain(
+        'await conversational_retrieval_qa_chain_0.ainvoke({"question": input_text})'
+      );
+      expect(fileContent(result.code.files, 'requirements.txt')).toContain(
+        'langchain-pinecone'
+      );
+    });
+  });
+});
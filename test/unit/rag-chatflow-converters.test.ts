@@ -0,0 +1,240 @@
+/**
+ * RAG Chatflow Converters Test Suite
+ * Tests for the conversationalRetrievalQAChain and documentStoreVS converters
+ * and conversion of the RAG chatflow exports that use them
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { IRProcessor } from '../../src/ir/index.js';
+import { FlowiseChatFlow } from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { ConversationalRetrievalQAChainConverter } from '../../src/registry/converters/chain.js';
+import { DocumentStoreVSConverter } from '../../src/registry/converters/vectorstore.js';
+import {
+  ConverterFactory,
+  initializeRegistry,
+} from '../../src/registry/index.js';
+import { createContext, createNode } from '../utils/test-helpers.js';
+
+const readChatflow = (name: string): string =>
+  readFileSync(join(process.cwd(), 'chatflows', name), 'utf8');
+
+const context = createContext({ projectName: 'rag-test' });
+
+const contentOf = (fragments: { content: string }[]): string =>
+  fragments.map((f) => f.content).join('\n');
+
+describe('RAG chatflow converters', () => {
+  beforeAll(() => {
+    initializeRegistry();
+  });
+
+  it('should register both converters', () => {
+    const registry = ConverterFactory.getRegistry();
+    expect(registry.hasConverter('conversationalRetrievalQAChain')).toBe(true);
+    expect(registry.hasConverter('documentStoreVS')).toBe(true);
+  });
+
+  describe('ConversationalRetrievalQAChainConverter', () => {
+    const converter = new ConversationalRetrievalQAChainConverter();
+    const node = createNode(
+      'conversationalRetrievalQAChain_0',
+      'conversationalRetrievalQAChain',
+      {
+        model: '{{chatOpenAI_0.data.instance}}',
+        vectorStoreRetriever: '{{documentStoreVS_0.data.instance}}',
+        memory: '{{bufferMemory_0.data.instance}}',
+        returnSourceDocuments: true,
+        responsePrompt: 'Answer from the context.\n{context}',
+      }
+    );
+
+    it('should wire connected nodes through resolveNodeReference', () => {
+      const code = contentOf(
+        converter.convert(node, {
+          ...context,
+          resolveNodeReference: (id) => `ref_${id}`,
+        })
+      );
+
+      expect(code).toContain(
+        'const ref_conversationalRetrievalQAChain_0 = ConversationalRetrievalQAChain.fromLLM('
+      );
+      expect(code).toContain('  ref_chatOpenAI_0,\n  ref_documentStoreVS_0,');
+      expect(code).toContain(
+        "memory: Object.assign(ref_bufferMemory_0, { inputKey: 'input', outputKey: 'text' })"
+      );
+    });
+
+    it('should use the rephrase and response prompts', () => {
+      const code = contentOf(converter.convert(node, context));
+
+      expect(code).toContain('returnSourceDocuments: true');
+      expect(code).toContain('Follow Up Input: {question}');
+      expect(code).toContain(
+        '[\'system\', "Answer from the context.\\n{context}"],'
+      );
+      expect(code).toContain("['human', '{question}'],");
+    });
+
+    it('should create its own memory when none is connected', () => {
+      const code = contentOf(
+        converter.convert(
+          createNode('qa_0', 'conversationalRetrievalQAChain', {
+            model: '{{chatOpenAI_0.data.instance}}',
+            vectorStoreRetriever: '{{pinecone_0.data.instance}}',
+          }),
+          context
+        )
+      );
+
+      expect(code).toContain(
+        "import { BufferMemory } from 'langchain/memory';"
+      );
+      expect(code).toContain("new BufferMemory({ memoryKey: 'chat_history'");
+    });
+
+    it('should require a retriever', () => {
+      expect(() =>
+        converter.convert(
+          createNode('qa_0', 'conversationalRetrievalQAChain', {
+            model: '{{chatOpenAI_0.data.instance}}',
+          }),
+          context
+        )
+      ).toThrow('missing required vectorStoreRetriever input');
+    });
+  });
+
+  describe('DocumentStoreVSConverter', () => {
+    const converter = new DocumentStoreVSConverter();
+    const node = createNode(
+      'documentStoreVS_0',
+      'documentStoreVS',
+      { selectedStore: 'store-1' },
+      { data: { outputs: { output: 'retriever' } } }
+    );
+
+    it('should fall back to text files and OpenAI embeddings', () => {
+      const code = contentOf(converter.convert(node, context));
+
+      expect(code).toContain("new DirectoryLoader('./documents/store-1', {");
+      expect(code).toContain("'.txt': (path: string) => new TextLoader(path),");
+      expect(code).toContain(
+        'new RecursiveCharacterTextSplitter({ chunkSize: 1000, chunkOverlap: 200 })'
+      );
+      expect(code).toContain(
+        'new OpenAIEmbeddings({ openAIApiKey: process.env.OPENAI_API_KEY })'
+      );
+      expect(code).toContain('// TODO: pass the Flowise document store export');
+      expect(code).toMatch(/= \w+_store\.asRetriever\(\);/);
+    });
+
+    it("should rebuild the store's loaders, splitter and embeddings", () => {
+      const fragments = converter.convert(node, {
+        ...context,
+        documentStores: {
+          'store-1': {
+            id: 'store-1',
+            name: 'Union Agreements',
+            loaders: JSON.stringify([
+              {
+                loaderId: 'pdfFile',
+                splitterId: 'characterTextSplitter',
+                splitterConfig: { chunkSize: '500', separator: '\n\n' },
+              },
+              { loaderId: 'notionDB', loaderName: 'Notion Database' },
+            ]),
+            embeddingConfig: {
+              name: 'cohereEmbeddings',
+              config: { modelName: 'embed-english-v3.0', credential: 'abc' },
+            },
+          },
+        },
+      });
+      const code = contentOf(fragments);
+
+      expect(code).toContain(
+        "import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';"
+      );
+      expect(code).toContain(
+        "new DirectoryLoader('./documents/union-agreements', {"
+      );
+      expect(code).toContain("'.pdf': (path: string) => new PDFLoader(path),");
+      expect(code).toContain(
+        'new CharacterTextSplitter({ chunkSize: 500, chunkOverlap: 200, separator: "\n\n" })'
+      );
+      expect(code).toContain(
+        "// TODO: the 'Notion Database' loader has no local equivalent"
+      );
+      expect(code).toContain(
+        'new CohereEmbeddings({ model: "embed-english-v3.0", apiKey: process.env.COHERE_API_KEY })'
+      );
+      expect(code).not.toContain('abc');
+    });
+
+    it('should expose the vector store when that output is selected', () => {
+      const code = contentOf(
+        converter.convert(
+          createNode(
+            'documentStoreVS_0',
+            'documentStoreVS',
+            { selectedStore: 'store-1' },
+            { data: { outputs: { output: 'vectorStore' } } }
+          ),
+          context
+        )
+      );
+
+      expect(code).not.toContain('asRetriever');
+    });
+  });
+
+  describe('real RAG chatflow exports', () => {
+    it.each([
+      'Hospital Employees Union Chatflow.json',
+      'RegenCore Chatflow.json',
+      'TenFourOptics Chatflow.json',
+    ])('should parse %s', async (name) => {
+      const result = await parseFlowiseJson(readChatflow(name));
+      expect(result.success).toBe(true);
+    });
+
+    it('should convert Hospital Employees Union Chatflow.json', async () => {
+      const parsed = await parseFlowiseJson(
+        readChatflow('Hospital Employees Union Chatflow.json')
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const code =
+        result.code.files.find((f) => f.path === 'src/index.ts')?.content ?? '';
+      expect(code).not.toContain('Unimplemented node type');
+      expect(code).toContain(
+        'const documentStoreVS_documentStoreVS_0 = documentStoreVS_documentStoreVS_0_store.asRetriever();'
+      );
+      expect(code).toContain(
+        '  chatOpenAI_chatOpenAI_0,\n  documentStoreVS_documentStoreVS_0,'
+      );
+      expect(code).toContain(
+        'await conversationalRetrievalQAChain_conversationalRetrievalQAChain_0.call('
+      );
+      // ChatPromptTemplate is imported once even though two fragments use it
+      expect(code.match(/ChatPromptTemplate[ ,}]/g)?.length).toBe(1);
+
+      const packageJson = JSON.parse(
+        result.code.files.find((f) => f.path === 'package.json')?.content ??
+          '{}'
+      );
+      expect(packageJson.dependencies).toHaveProperty(
+        '@langchain/textsplitters'
+      );
+    });
+  });
+});
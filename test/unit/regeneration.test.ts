@@ -0,0 +1,290 @@
+/**
+ * Incremental Regeneration Test Suite
+ * Tests for merging regenerated code with hand edits
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import {
+  MANIFEST_FILE,
+  createGenerationManifest,
+  mergeGeneratedFiles,
+  withUserRegion,
+  GenerationManifest,
+} from '../../src/emitters/typescript/regeneration.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import {
+  FlowiseChatFlow,
+  GeneratedFile,
+  GenerationContext,
+} from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const fragment = (nodeId: string, code: string): string =>
+  [
+    `// #region flowise:${nodeId} ${nodeId} (test)`,
+    withUserRegion(code, nodeId),
+    `// #endregion flowise:${nodeId}`,
+  ].join('\n');
+
+const createFile = (path: string, content: string): GeneratedFile => ({
+  path,
+  content,
+  type: 'main',
+  dependencies: [],
+  exports: [],
+  size: content.length,
+});
+
+const mainFile = (model: string, memory: string): GeneratedFile =>
+  createFile(
+    'src/index.ts',
+    [
+      "import { ChatOpenAI } from '@langchain/openai';",
+      '',
+      fragment('model_0', model),
+      '',
+      fragment('memory_0', memory),
+    ].join('\n')
+  );
+
+const reader =
+  (files: Record<string, string>) =>
+  async (path: string): Promise<string | undefined> =>
+    files[path];
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'regeneration',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+describe('mergeGeneratedFiles', () => {
+  const previous = mainFile(
+    'const model = new ChatOpenAI({ temperature: 0.2 });',
+    "const memory = new BufferMemory({ memoryKey: 'chat_history' });"
+  );
+  const manifest: GenerationManifest = createGenerationManifest([previous]);
+
+  it('should hash every node fragment', () => {
+    expect(Object.keys(manifest.files['src/index.ts']!.fragments)).toEqual([
+      'model_0',
+      'memory_0',
+    ]);
+  });
+
+  it('should rewrite changed fragments and keep user regions', async () => {
+    const edited = previous.content.replace(
+      '// #region user:model_0\n',
+      '// #region user:model_0\nmodel.verbose = true;\n'
+    );
+    const regenerated = mainFile(
+      'const model = new ChatOpenAI({ temperature: 0.9 });',
+      "const memory = new BufferMemory({ memoryKey: 'chat_history' });"
+    );
+
+    const result = await mergeGeneratedFiles(
+      [regenerated],
+      reader({ 'src/index.ts': edited }),
+      manifest
+    );
+
+    const content = result.files[0]!.content;
+    expect(content).toContain('temperature: 0.9');
+    expect(content).toContain(
+      '// #region user:model_0\nmodel.verbose = true;\n// #endregion user:model_0'
+    );
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should keep hand-edited fragments whose node did not change', async () => {
+    const edited = previous.content.replace(
+      "memoryKey: 'chat_history'",
+      "memoryKey: 'history', returnMessages: true"
+    );
+    const regenerated = mainFile(
+      'const model = new ChatOpenAI({ temperature: 0.9 });',
+      "const memory = new BufferMemory({ memoryKey: 'chat_history' });"
+    );
+
+    const result = await mergeGeneratedFiles(
+      [regenerated],
+      reader({ 'src/index.ts': edited }),
+      manifest
+    );
+
+    const content = result.files[0]!.content;
+    expect(content).toContain('temperature: 0.9');
+    expect(content).toContain("memoryKey: 'history', returnMessages: true");
+    expect(result.preserved).toEqual(['src/index.ts#memory_0']);
+  });
+
+  it('should report a conflict when the node and the edit both changed', async () => {
+    const edited = previous.content.replace(
+      'temperature: 0.2',
+      'temperature: 0'
+    );
+    const regenerated = mainFile(
+      'const model = new ChatOpenAI({ temperature: 0.9 });',
+      "const memory = new BufferMemory({ memoryKey: 'chat_history' });"
+    );
+
+    const result = await mergeGeneratedFiles(
+      [regenerated],
+      reader({ 'src/index.ts': edited }),
+      manifest
+    );
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({
+        file: 'src/index.ts',
+        kind: 'fragment',
+        region: 'model_0',
+      }),
+    ]);
+    const content = result.files[0]!.content;
+    expect(content).toContain(
+      '<<<<<<< hand-edited\nconst model = new ChatOpenAI({ temperature: 0 });'
+    );
+    expect(content).toContain(
+      '=======\nconst model = new ChatOpenAI({ temperature: 0.9 });'
+    );
+    expect(content).toContain('>>>>>>> generated from model_0');
+  });
+
+  it('should keep user regions on both sides of a conflict', async () => {
+    const edited = previous.content
+      .replace('temperature: 0.2', 'temperature: 0')
+      .replace(
+        '// #region user:model_0\n',
+        '// #region user:model_0\nmodel.verbose = true;\n'
+      )
+      .replace(
+        '// #region user:memory_0\n',
+        '// #region user:memory_0\nawait memory.clear();\n'
+      );
+    const regenerated = mainFile(
+      'const model = new ChatOpenAI({ temperature: 0.9 });',
+      "const memory = new BufferMemory({ memoryKey: 'chat_history' });"
+    );
+
+    const result = await mergeGeneratedFiles(
+      [regenerated],
+      reader({ 'src/index.ts': edited }),
+      manifest
+    );
+
+    const content = result.files[0]!.content;
+    const [hand, generated] = content
+      .split('=======')
+      .map((side) => side.match(/#region user:model_0\n(.*)\n/)?.[1]);
+    expect(hand).toBe('model.verbose = true;');
+    expect(generated).toBe('model.verbose = true;');
+    expect(content).toContain(
+      '// #region user:memory_0\nawait memory.clear();\n// #endregion user:memory_0'
+    );
+    expect(result.conflicts).toHaveLength(1);
+  });
+
+  it('should move user code of removed nodes to the end of the file', async () => {
+    const edited = previous.content.replace(
+      '// #region user:memory_0\n',
+      '// #region user:memory_0\nawait memory.clear();\n'
+    );
+    const regenerated = createFile(
+      'src/index.ts',
+      fragment('model_0', 'const model = new ChatOpenAI({ temperature: 0.2 });')
+    );
+
+    const result = await mergeGeneratedFiles(
+      [regenerated],
+      reader({ 'src/index.ts': edited }),
+      manifest
+    );
+
+    expect(result.files[0]!.content).toMatch(
+      /\/\/ #region user:memory_0\nawait memory\.clear\(\);\n\/\/ #endregion user:memory_0\n$/
+    );
+    expect(result.conflicts[0]).toMatchObject({
+      kind: 'orphaned-region',
+      region: 'memory_0',
+    });
+  });
+
+  it('should keep hand-edited files the generator did not change', async () => {
+    const packageJson = createFile('package.json', '{ "name": "app" }');
+    const base = createGenerationManifest([packageJson]);
+
+    const kept = await mergeGeneratedFiles(
+      [packageJson],
+      reader({ 'package.json': '{ "name": "app", "private": true }' }),
+      base
+    );
+    expect(kept.files[0]!.content).toBe('{ "name": "app", "private": true }');
+    expect(kept.conflicts).toEqual([]);
+
+    const conflicted = await mergeGeneratedFiles(
+      [createFile('package.json', '{ "name": "app2" }')],
+      reader({ 'package.json': '{ "name": "app", "private": true }' }),
+      base
+    );
+    expect(conflicted.files[0]!.content).toBe(
+      '{ "name": "app", "private": true }'
+    );
+    expect(conflicted.conflicts[0]).toMatchObject({ kind: 'file' });
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should emit user regions and a manifest for TenFourOptics Chatflow.json', async () => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'chatflows', 'TenFourOptics Chatflow.json'),
+          'utf8'
+        )
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const main = result.code.files.find((f) => f.path === 'src/index.ts')!;
+      expect(main.content).toContain('// #region user:imports');
+      expect(main.content).toContain(
+        '// #region user:chatOpenAI_0\n// #endregion user:chatOpenAI_0\n// #endregion flowise:chatOpenAI_0'
+      );
+
+      const manifestFile = result.code.files.find(
+        (f) => f.path === MANIFEST_FILE
+      )!;
+      const manifest = JSON.parse(manifestFile.content) as GenerationManifest;
+      expect(manifest.files['src/index.ts']!.fragments).toHaveProperty(
+        'chatOpenAI_0'
+      );
+      expect(Object.keys(manifest.files)).toEqual([
+        'src/index.ts',
+        'package.json',
+        '.env.example',
+      ]);
+    });
+  });
+});
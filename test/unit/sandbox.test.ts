@@ -0,0 +1,280 @@
+/**
+ * Sandbox Test Suite
+ * Tests for running generated code in a child process with restricted
+ * files, network, time, CPU and memory
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, type Server } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+
+import {
+  DEFAULT_SANDBOX_LIMITS,
+  SandboxedFlow,
+  isSandboxSupported,
+  resolveSandboxLimits,
+  runSandboxed,
+} from '../../src/cli/utils/sandbox.js';
+
+const describeSandbox = isSandboxSupported() ? describe : describe.skip;
+
+describe('resolveSandboxLimits', () => {
+  it('should fill in the default limits', () => {
+    expect(resolveSandboxLimits({ memoryMb: 256 })).toEqual({
+      ...DEFAULT_SANDBOX_LIMITS,
+      memoryMb: 256,
+    });
+  });
+
+  it('should reject invalid and excessive limits', () => {
+    expect(() => resolveSandboxLimits({ timeoutMs: 0 })).toThrow(RangeError);
+    expect(() => resolveSandboxLimits({ memoryMb: 1.5 })).toThrow(RangeError);
+    expect(() => resolveSandboxLimits({ memoryMb: 1_000_000 })).toThrow(
+      'Sandbox memoryMb may be at most 4096'
+    );
+    expect(() =>
+      resolveSandboxLimits({ network: 'example.com' as unknown as string[] })
+    ).toThrow(RangeError);
+  });
+});
+
+describeSandbox('runSandboxed', () => {
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'sandbox-'));
+    outside = mkdtempSync(join(tmpdir(), 'sandbox-outside-'));
+    writeFileSync(join(outside, 'secret.txt'), 'secret');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  const script = (source: string) => {
+    const path = join(root, 'main.mjs');
+    writeFileSync(path, source);
+    return path;
+  };
+
+  it('should capture output and confine files to the root', async () => {
+    const result = await runSandboxed(
+      script(`
+        import { readFileSync, writeFileSync } from 'fs';
+        import { spawnSync } from 'child_process';
+        writeFileSync('inside.txt', 'ok');
+        console.log(readFileSync('inside.txt', 'utf-8'), Object.keys(process.env).sort().join());
+        for (const attempt of [
+          () => readFileSync(${JSON.stringify(join(outside, 'secret.txt'))}),
+          () => writeFileSync(${JSON.stringify(join(outside, 'new.txt'))}, 'x'),
+          () => spawnSync('ls'),
+        ]) {
+          try { attempt(); console.log('allowed'); }
+          catch (error) { console.log(error.code); }
+        }
+        console.error('done');
+      `),
+      { root, env: { GREETING: 'hi' } }
+    );
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim().split('\n')).toEqual([
+      expect.stringMatching(/^ok (?!.*PATH).*GREETING,HOME/),
+      'ERR_ACCESS_DENIED',
+      'ERR_ACCESS_DENIED',
+      'ERR_ACCESS_DENIED',
+    ]);
+    expect(result.stderr).toBe('done\n');
+    expect(result.limit).toBeUndefined();
+  });
+
+  describe('network', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+      server = createServer((_req, res) => res.end('pong'));
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      const address = server.address() as { port: number };
+      url = `http://127.0.0.1:${address.port}/`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const fetchScript = () =>
+      script(`
+        import { get } from 'http';
+        get(${JSON.stringify(url)}, (res) => res.pipe(process.stdout))
+          .on('error', (error) => console.log(error.code));
+      `);
+
+    it('should refuse connections by default and end the run', async () => {
+      const result = await runSandboxed(fetchScript(), { root });
+      expect(result.stdout).toBe('ERR_SANDBOX_NETWORK\n');
+      expect(result.stderr).toBe(
+        'Network disabled in the sandbox: the connection to 127.0.0.1 was refused\n'
+      );
+      expect(result.exitCode).toBe(1);
+    });
+
+    it('should connect to allowed hosts', async () => {
+      const allowed = await runSandboxed(fetchScript(), {
+        root,
+        network: ['127.0.0.1'],
+      });
+      const other = await runSandboxed(fetchScript(), {
+        root,
+        network: ['api.openai.com'],
+      });
+
+      expect(allowed.stdout).toBe('pong');
+      expect(allowed.exitCode).toBe(0);
+      expect(other.stdout).toBe('ERR_SANDBOX_NETWORK\n');
+      expect(other.exitCode).toBe(1);
+    });
+  });
+
+  it('should stop processes that run past their limits', async () => {
+    const timeout = await runSandboxed(script('setInterval(() => {}, 1000);'), {
+      root,
+      timeoutMs: 200,
+    });
+    const memory = await runSandboxed(
+      script('const held = []; for (;;) held.push(new Array(1e6).fill(1));'),
+      { root, memoryMb: 64 }
+    );
+
+    expect(timeout.limit).toBe('timeout');
+    expect(timeout.signal).toBe('SIGKILL');
+    expect(memory.limit).toBe('memory');
+    expect(memory.exitCode).not.toBe(0);
+  });
+
+  (process.platform === 'win32' ? it.skip : it)(
+    'should stop processes that use up their CPU time',
+    async () => {
+      const result = await runSandboxed(script('for (;;) {}'), {
+        root,
+        cpuTimeMs: 1000,
+      });
+      expect(result.limit).toBe('cpu');
+    }
+  );
+
+  it('should truncate output past maxOutputBytes', async () => {
+    const result = await runSandboxed(
+      script("process.stdout.write('x'.repeat(10000));"),
+      { root, maxOutputBytes: 100 }
+    );
+    expect(result.stdout).toBe('x'.repeat(100));
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should reject when aborted', async () => {
+    const controller = new AbortController();
+    const run = runSandboxed(script('setInterval(() => {}, 1000);'), {
+      root,
+      signal: controller.signal,
+    });
+    controller.abort(new Error('stopped'));
+    await expect(run).rejects.toThrow('stopped');
+  });
+});
+
+describeSandbox('SandboxedFlow', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'sandbox-flow-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should keep module state between turns', async () => {
+    writeFileSync(
+      join(root, 'index.js'),
+      `let turns = 0;
+export async function runFlow(input) {
+  if (input === 'boom') throw new Error('flow failed');
+  return { turn: ++turns, input };
+}
+`
+    );
+    writeFileSync(join(root, 'package.json'), '{"type":"module"}');
+    const flow = new SandboxedFlow(join(root, 'index.ts'), { root });
+
+    try {
+      const first = await flow.invoke('hi', 10000);
+      await expect(flow.invoke('boom', 10000)).rejects.toThrow('flow failed');
+      const second = await flow.invoke('again', 10000);
+
+      expect(first.output).toEqual({ turn: 1, input: 'hi' });
+      expect(second.output).toEqual({ turn: 2, input: 'again' });
+    } finally {
+      await flow.close();
+    }
+  });
+
+  it('should fail turns that run past their timeout', async () => {
+    writeFileSync(
+      join(root, 'index.mjs'),
+      'export const runFlow = () => new Promise(() => {});\n'
+    );
+    const flow = new SandboxedFlow(join(root, 'index.mjs'), { root });
+
+    try {
+      await expect(flow.invoke('hi', 200)).rejects.toMatchObject({
+        name: 'SandboxError',
+        limit: 'timeout',
+      });
+      await expect(flow.invoke('again', 200)).rejects.toThrow('timed out');
+    } finally {
+      await flow.close();
+    }
+  });
+
+  it('should fail the turn as soon as a connection is refused', async () => {
+    // Retries the way model clients do, which would last until the timeout
+    writeFileSync(
+      join(root, 'index.mjs'),
+      `import { get } from 'http';
+export const runFlow = () =>
+  new Promise(function attempt(resolve) {
+    get('http://api.openai.com/', resolve).on('error', () =>
+      setTimeout(() => attempt(resolve), 100)
+    );
+  });
+`
+    );
+    const flow = new SandboxedFlow(join(root, 'index.mjs'), { root });
+
+    try {
+      const started = Date.now();
+      await expect(flow.invoke('hi', 20000)).rejects.toThrow(
+        'Network disabled in the sandbox: the connection to api.openai.com was refused'
+      );
+      expect(Date.now() - started).toBeLessThan(5000);
+    } finally {
+      await flow.close();
+    }
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Secrets Module Test Suite
+ * Tests for the secrets module generated projects read credentials through
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { checkGeneratedCode } from '../../src/emitters/typescript/compile-check.js';
+import {
+  SECRETS_BACKENDS,
+  SECRETS_MODULE_FILE,
+  SECRETS_STAND_IN_FILE,
+  createSecretsFiles,
+  findSecretReads,
+} from '../../src/emitters/typescript/secrets.js';
+import { checkSecretsBackend } from '../../src/ir/credentials.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import {
+  FlowiseChatFlow,
+  GenerationContext,
+  IRGraph,
+  SecretsBackend,
+} from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'secrets',
+  includeTests: false,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+const convert = async (
+  secretsBackend: SecretsBackend,
+  flow = 'TenFourOptics Chatflow.json',
+  options: Partial<GenerationContext> = {}
+) => {
+  const parsed = await parseFlowiseJson(
+    readFileSync(join(process.cwd(), 'chatflows', flow), 'utf8')
+  );
+  const result = await new IRProcessor().processFlow(
+    parsed.data as FlowiseChatFlow,
+    { ...context, ...options, secretsBackend }
+  );
+  return result.code.files;
+};
+
+describe('createSecretsFiles', () => {
+  it('should find the secrets generated code reads', () => {
+    expect(
+      findSecretReads(
+        'const a = getSecret("OPENAI_API_KEY");\nconst b = getSecret("llm/key") ?? getSecret("OPENAI_API_KEY");'
+      )
+    ).toEqual(['OPENAI_API_KEY', 'llm/key']);
+  });
+
+  it('should emit example secrets files for file and HTTP backends', () => {
+    const paths = (backend: SecretsBackend) =>
+      createSecretsFiles(backend, ['OPENAI_API_KEY']).map((f) => f.path);
+
+    expect(paths('env')).toEqual([SECRETS_MODULE_FILE]);
+    expect(paths('dotenv')).toEqual([SECRETS_MODULE_FILE]);
+    expect(paths('yaml')).toEqual([
+      SECRETS_MODULE_FILE,
+      'secrets.example.yaml',
+    ]);
+    expect(paths('http')).toEqual([
+      SECRETS_MODULE_FILE,
+      'secrets.example.json',
+      SECRETS_STAND_IN_FILE,
+    ]);
+  });
+
+  it.each(SECRETS_BACKENDS)(
+    'should generate a %s module that type-checks',
+    async (backend) => {
+      const result = await checkGeneratedCode(
+        createSecretsFiles(backend, ['OPENAI_API_KEY', 'pinecone/api-key'])
+      );
+
+      expect(result.diagnostics).toEqual([]);
+    }
+  );
+});
+
+describe('secrets backends', () => {
+  beforeAll(() => {
+    initializeRegistry();
+  });
+
+  it('should read every credential through the secrets module', async () => {
+    const files = await convert('yaml');
+    const main = files.find((f) => f.path === 'src/index.ts')!.content;
+    const env = files.find((f) => f.path === '.env.example')!.content;
+
+    expect(main).toContain('import { getSecret } from "./secrets.js";');
+    expect(main).toContain('openAIApiKey: getSecret("OPENAI_API_KEY"),');
+    expect(main).not.toContain('process.env.OPENAI_API_KEY');
+    expect(
+      files.find((f) => f.path === 'secrets.example.yaml')!.content
+    ).toContain('OPENAI_API_KEY: your_openai_api_key_here');
+    expect(env.match(/^\w+=/gm)).toEqual([
+      'SECRETS_FILE=',
+      'PINECONE_ENVIRONMENT=',
+    ]);
+    expect(
+      JSON.parse(files.find((f) => f.path === 'package.json')!.content)
+        .dependencies
+    ).toHaveProperty('yaml');
+  });
+
+  it('should read the keys of Agentflow models through the secrets module', async () => {
+    const files = await convert('json', 'Software Team Agents.json', {
+      // The flow uses DeepSeek, which needs LangChain 0.3
+      environment: { langchainVersion: '0.3' },
+    });
+    const main = files.find((f) => f.path === 'src/index.ts')!.content;
+
+    expect(main).toContain('apiKey: getSecret("DEEPSEEK_API_KEY"),');
+    expect(main).toContain(
+      'azureOpenAIApiKey: getSecret("AZURE_OPENAI_API_KEY"),'
+    );
+    expect(
+      Object.keys(
+        JSON.parse(
+          files.find((f) => f.path === 'secrets.example.json')!.content
+        )
+      )
+    ).toEqual([
+      'AZURE_OPENAI_API_KEY',
+      'DEEPSEEK_API_KEY',
+      'ANTHROPIC_API_KEY',
+      'OPENAI_API_KEY',
+    ]);
+  });
+
+  it('should refuse a backend no credential is read through', () => {
+    const graph = {
+      nodes: [
+        {
+          id: 'customLLM_0',
+          label: 'Custom LLM',
+          credential: { names: ['openAIApi'] },
+        },
+      ],
+      connections: [],
+    } as unknown as IRGraph;
+
+    expect(() =>
+      checkSecretsBackend(graph, [], { secretsBackend: 'yaml' })
+    ).toThrow(
+      'No node reads its credential through the yaml secrets backend; credentials of Custom LLM would bypass it'
+    );
+    expect(() =>
+      checkSecretsBackend(graph, ['OPENAI_API_KEY'], { secretsBackend: 'yaml' })
+    ).not.toThrow();
+    expect(() =>
+      checkSecretsBackend(graph, [], {
+        secretsBackend: 'yaml',
+        credentials: { credentials: { openAIApi: { file: '/run/key' } } },
+      })
+    ).not.toThrow();
+  });
+
+  it('should keep credential variables listed for the env backend', async () => {
+    const files = await convert('env');
+    const env = files.find((f) => f.path === '.env.example')!.content;
+
+    expect(env.match(/^\w+=/gm)).toEqual([
+      'PINECONE_API_KEY=',
+      'OPENAI_API_KEY=',
+      'PINECONE_ENVIRONMENT=',
+    ]);
+  });
+
+  it('should generate a project that type-checks with the HTTP backend', async () => {
+    const files = await convert('http');
+
+    expect(
+      JSON.parse(files.find((f) => f.path === 'package.json')!.content).scripts
+    ).toHaveProperty('secrets:stand-in');
+    const result = await checkGeneratedCode(files);
+    expect(
+      result.diagnostics.filter(
+        (d) =>
+          d.file === SECRETS_MODULE_FILE || d.file === SECRETS_STAND_IN_FILE
+      )
+    ).toEqual([]);
+  });
+});
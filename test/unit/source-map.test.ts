@@ -0,0 +1,158 @@
+/**
+ * Node Source Map Test Suite
+ * Tests for mapping generated code back to the Flowise nodes that produced it
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import {
+  SOURCE_MAP_FILE,
+  createNodeSourceMap,
+  findNodeAtLine,
+  findNodeRegions,
+  translateStackTrace,
+  wrapNodeRegion,
+  NodeSourceMap,
+} from '../../src/emitters/typescript/source-map.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import { FlowiseChatFlow, GeneratedFile, IRGraph } from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+import { createContext, createNode } from '../utils/test-helpers.js';
+
+const graph: IRGraph = {
+  nodes: [
+    createNode('chatOpenAI_0', 'chatOpenAI', {}, { label: 'ChatOpenAI' }),
+    createNode('llmChain_0', 'llmChain', {}, { label: 'LLM Chain' }),
+  ],
+  connections: [],
+  metadata: {
+    name: 'Source Map Flow',
+    version: '1.0.0',
+    flowiseVersion: '2.0.0',
+  },
+};
+
+const content = [
+  "import { ChatOpenAI } from '@langchain/openai';",
+  '',
+  wrapNodeRegion('const chatOpenAI_0 = new ChatOpenAI();', graph.nodes[0]!),
+  '',
+  wrapNodeRegion(
+    ['const llmChain_0 = prompt', '  .pipe(chatOpenAI_0);'].join('\n'),
+    graph.nodes[1]!
+  ),
+].join('\n');
+
+const context = createContext({ projectName: 'source-map' });
+
+describe('Node source maps', () => {
+  const file: GeneratedFile = {
+    path: 'src/index.ts',
+    content,
+    type: 'main',
+    dependencies: [],
+    exports: [],
+    size: content.length,
+    nodeRegions: findNodeRegions(content),
+  };
+  const sourceMap: NodeSourceMap = createNodeSourceMap([file], graph);
+
+  it('should mark node fragments with region comments', () => {
+    expect(content.split('\n').slice(2, 5)).toEqual([
+      '// #region flowise:chatOpenAI_0 ChatOpenAI (chatOpenAI)',
+      'const chatOpenAI_0 = new ChatOpenAI();',
+      '// #endregion flowise:chatOpenAI_0',
+    ]);
+  });
+
+  it('should find the lines between region markers', () => {
+    expect(findNodeRegions(content)).toEqual([
+      { nodeId: 'chatOpenAI_0', startLine: 4, endLine: 4 },
+      { nodeId: 'llmChain_0', startLine: 8, endLine: 9 },
+    ]);
+  });
+
+  it('should label each region with its node', () => {
+    expect(sourceMap).toEqual({
+      version: 1,
+      flowName: 'Source Map Flow',
+      files: {
+        'src/index.ts': [
+          {
+            nodeId: 'chatOpenAI_0',
+            startLine: 4,
+            endLine: 4,
+            label: 'ChatOpenAI',
+            type: 'chatOpenAI',
+          },
+          {
+            nodeId: 'llmChain_0',
+            startLine: 8,
+            endLine: 9,
+            label: 'LLM Chain',
+            type: 'llmChain',
+          },
+        ],
+      },
+    });
+    expect(findNodeAtLine(sourceMap, 'src/index.ts', 9)?.nodeId).toBe(
+      'llmChain_0'
+    );
+    expect(findNodeAtLine(sourceMap, 'src/index.ts', 1)).toBeUndefined();
+  });
+
+  it('should annotate stack frames inside node regions', () => {
+    const stack = [
+      'ReferenceError: prompt is not defined',
+      '    at file:///tmp/flowise-run-1/src/index.ts:8:19',
+      '    at runFlow (/tmp/flowise-run-1/src/index.ts:1:1)',
+      '    at node:internal/modules/esm/module_job:195:25',
+    ].join('\n');
+
+    expect(translateStackTrace(stack, sourceMap).split('\n')).toEqual([
+      'ReferenceError: prompt is not defined',
+      '    at file:///tmp/flowise-run-1/src/index.ts:8:19  [Flowise node llmChain_0: LLM Chain (llmChain)]',
+      '    at runFlow (/tmp/flowise-run-1/src/index.ts:1:1)',
+      '    at node:internal/modules/esm/module_job:195:25',
+    ]);
+  });
+
+  describe('IR integration', () => {
+    beforeAll(() => {
+      initializeRegistry();
+    });
+
+    it('should emit a sidecar map for TenFourOptics Chatflow.json', async () => {
+      const parsed = await parseFlowiseJson(
+        readFileSync(
+          join(process.cwd(), 'chatflows', 'TenFourOptics Chatflow.json'),
+          'utf8'
+        )
+      );
+      const result = await new IRProcessor().processFlow(
+        parsed.data as FlowiseChatFlow,
+        context
+      );
+
+      const main = result.code.files.find((f) => f.path === 'src/index.ts')!;
+      expect(main.content).toContain('// #region flowise:chatOpenAI_0');
+
+      const mapFile = result.code.files.find(
+        (f) => f.path === SOURCE_MAP_FILE
+      )!;
+      const map = JSON.parse(mapFile.content) as NodeSourceMap;
+      const entry = map.files['src/index.ts']!.find(
+        (e) => e.nodeId === 'chatOpenAI_0'
+      )!;
+
+      expect(entry).toMatchObject({ type: 'chatOpenAI' });
+      expect(main.content.split('\n')[entry.startLine - 2]).toMatch(
+        /^\s*\/\/ #region flowise:chatOpenAI_0/
+      );
+    });
+  });
+});
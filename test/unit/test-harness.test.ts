@@ -0,0 +1,198 @@
+/**
+ * Test Harness Test Suite
+ * Tests for the fake-model jest harness generated alongside converted flows
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+import { createCassetteFile } from '../../src/emitters/typescript/cassette.js';
+import { checkGeneratedCode } from '../../src/emitters/typescript/compile-check.js';
+import {
+  FAKE_RESPONSES_FILE,
+  FLOW_TEST_FILE,
+  JEST_CONFIG_FILE,
+  TEST_HARNESS_FILE,
+  FakeResponses,
+  createTestHarnessFiles,
+  findFakeTargets,
+} from '../../src/emitters/typescript/test-harness.js';
+import { IRProcessor } from '../../src/ir/index.js';
+import {
+  FlowiseChatFlow,
+  GeneratedFile,
+  GenerationContext,
+  IRGraph,
+  IRNode,
+} from '../../src/ir/types.js';
+import { parseFlowiseJson } from '../../src/parser/index.js';
+import { initializeRegistry } from '../../src/registry/index.js';
+
+const context: GenerationContext = {
+  targetLanguage: 'typescript',
+  outputPath: './output',
+  projectName: 'test-harness',
+  includeTests: true,
+  includeDocs: false,
+  includeLangfuse: false,
+  packageManager: 'npm',
+  environment: {},
+  codeStyle: {
+    indentSize: 2,
+    useSpaces: true,
+    semicolons: true,
+    singleQuotes: true,
+    trailingCommas: true,
+  },
+};
+
+const node = (id: string, category: IRNode['category']): IRNode => ({
+  id,
+  type: id.replace(/_\d+$/, ''),
+  label: id,
+  category,
+  inputs: [],
+  outputs: [],
+  parameters: [],
+  position: { x: 0, y: 0 },
+});
+
+const graph = (nodes: IRNode[]): IRGraph =>
+  ({
+    nodes,
+    connections: [],
+    metadata: { name: 'Harness Flow' },
+  }) as unknown as IRGraph;
+
+const mainFile = (content: string[]): GeneratedFile => ({
+  path: 'src/index.ts',
+  content: content.join('\n'),
+  type: 'main',
+  dependencies: [],
+  exports: [],
+  size: 0,
+});
+
+describe('test harness', () => {
+  const file = mainFile([
+    "import { ChatAnthropic as Claude } from '@langchain/anthropic';",
+    "import { Calculator } from '@langchain/community/tools/calculator';",
+    "import { CohereEmbeddings } from '@langchain/cohere';",
+    "import { BufferMemory } from 'langchain/memory';",
+    '',
+    '// #region flowise:chatAnthropic_0 chatAnthropic_0 (chatAnthropic)',
+    'const model = new Claude({ temperature: 0 });',
+    '// #endregion flowise:chatAnthropic_0',
+    '// #region flowise:calculator_0 calculator_0 (calculator)',
+    'const calculator = new Calculator();',
+    '// #endregion flowise:calculator_0',
+    '// #region flowise:cohereEmbeddings_0 cohereEmbeddings_0 (cohereEmbeddings)',
+    'const embeddings = new CohereEmbeddings({});',
+    '// #endregion flowise:cohereEmbeddings_0',
+    '// #region flowise:bufferMemory_0 bufferMemory_0 (bufferMemory)',
+    'const memory = new BufferMemory();',
+    '// #endregion flowise:bufferMemory_0',
+    '',
+    'export async function runFlow(input: string): Promise<string> {',
+    '  return String(await model.invoke(input));',
+    '}',
+  ]);
+  const flow = graph([
+    node('chatAnthropic_0', 'llm'),
+    node('calculator_0', 'tool'),
+    node('cohereEmbeddings_0', 'embedding'),
+    node('bufferMemory_0', 'memory'),
+  ]);
+
+  it('should find the classes model, embedding and tool nodes create', () => {
+    expect(findFakeTargets(flow, [file])).toEqual([
+      {
+        kind: 'model',
+        className: 'ChatAnthropic',
+        module: '@langchain/anthropic',
+        nodeIds: ['chatAnthropic_0'],
+      },
+      {
+        kind: 'tool',
+        className: 'Calculator',
+        module: '@langchain/community/tools/calculator',
+        nodeIds: ['calculator_0'],
+      },
+      {
+        kind: 'embeddings',
+        className: 'CohereEmbeddings',
+        module: '@langchain/cohere',
+        nodeIds: ['cohereEmbeddings_0'],
+      },
+    ]);
+  });
+
+  it('should script a recorded output for every tool', () => {
+    const files = createTestHarnessFiles(flow, [file], context);
+    const responses = JSON.parse(
+      files.find((f) => f.path === FAKE_RESPONSES_FILE)!.content
+    ) as FakeResponses;
+
+    expect(responses.tools).toEqual({
+      Calculator: 'Recorded output of Calculator',
+    });
+    expect(files.find((f) => f.path === TEST_HARNESS_FILE)!.content).toContain(
+      "  fakeTool(Calculator, 'Calculator');"
+    );
+  });
+
+  it('should generate a harness and test that type-check', async () => {
+    const result = await checkGeneratedCode([
+      file,
+      createCassetteFile(flow, [file], context),
+      ...createTestHarnessFiles(flow, [file], context),
+    ]);
+
+    expect(result.diagnostics).toEqual([]);
+  });
+});
+
+describe('generated tests', () => {
+  beforeAll(() => {
+    initializeRegistry();
+  });
+
+  it('should generate a fake-model harness for a converted flow', async () => {
+    const parsed = await parseFlowiseJson(
+      readFileSync(
+        join(
+          process.cwd(),
+          'examples',
+          'basic',
+          'simple-prompt-llm.flowise.json'
+        ),
+        'utf8'
+      )
+    );
+    const result = await new IRProcessor().processFlow(
+      parsed.data as FlowiseChatFlow,
+      context
+    );
+    const file = (path: string) =>
+      result.code.files.find((f) => f.path === path)?.content;
+
+    const harness = file(TEST_HARNESS_FILE)!;
+    expect(harness).toContain(
+      "import { ChatOpenAI } from '@langchain/openai';"
+    );
+    expect(harness).toContain("  fakeModel(ChatOpenAI, 'ChatOpenAI');");
+    expect(harness).toContain(
+      'const credentials: string[] = ["OPENAI_API_KEY"];'
+    );
+    expect(file(FLOW_TEST_FILE)).toContain(
+      'expect(script.models).toContain(result);'
+    );
+    expect(file(JEST_CONFIG_FILE)).toContain('useESM: true');
+
+    const packageJson = JSON.parse(file('package.json')!);
+    expect(packageJson.scripts.test).toContain('jest');
+    expect(packageJson.devDependencies).toHaveProperty('ts-jest');
+  });
+});
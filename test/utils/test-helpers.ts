@@ -7,6 +7,12 @@ import { writeFile, mkdir, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
+import type {
+  GenerationContext,
+  IRNode,
+  IRParameter,
+} from '../../src/ir/types.js';
+
 export interface TestFlow {
   nodes: any[];
   edges: any[];
@@ -107,6 +113,65 @@ export function createIRNode(
   };
 }
 
+/**
+ * Create a typed IRNode whose parameters are the given Flowise inputs
+ */
+export function createNode(
+  id: string,
+  type: string,
+  inputs: Record<string, unknown> = {},
+  overrides: Partial<IRNode> = {}
+): IRNode {
+  const parameterType = (value: unknown): IRParameter['type'] => {
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'number') return 'number';
+    return 'string';
+  };
+
+  return {
+    id,
+    type,
+    label: id,
+    category: 'utility',
+    inputs: [],
+    outputs: [],
+    parameters: Object.entries(inputs).map(([name, value]) => ({
+      name,
+      value,
+      type: parameterType(value),
+    })),
+    position: { x: 0, y: 0 },
+    ...overrides,
+  };
+}
+
+/**
+ * Create the GenerationContext converters and emitters are given
+ */
+export function createContext(
+  overrides: Partial<GenerationContext> = {}
+): GenerationContext {
+  return {
+    targetLanguage: 'typescript',
+    outputPath: './output',
+    projectName: 'test',
+    includeTests: false,
+    includeDocs: false,
+    includeLangfuse: false,
+    packageManager: 'npm',
+    environment: {},
+    codeStyle: {
+      indentSize: 2,
+      useSpaces: true,
+      semicolons: true,
+      singleQuotes: true,
+      trailingCommas: true,
+    },
+    ...overrides,
+  };
+}
+
 export function createMockNode(overrides: Partial<any> = {}): any {
   // Convert inputs object to parameters array if provided
   const convertInputsToParameters = (inputs: Record<string, any> = {}): any[] => {
@@ -548,6 +613,8 @@ export default {
   cleanupTempDir,
   createTestFlowFile,
   createIRNode,
+  createNode,
+  createContext,
   createMockNode,
   createMockEdge,
   createMockFlow,